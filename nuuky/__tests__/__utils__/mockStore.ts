@@ -5,6 +5,7 @@ const initialState = {
   currentUser: null,
   isAuthenticated: false,
   friends: [],
+  availabilitySchedules: [],
   activeRooms: [],
   myRooms: [],
   currentRoom: null,
@@ -19,6 +20,9 @@ const initialState = {
   audioConnectionStatus: 'disconnected' as const,
   audioError: null,
   speakingParticipants: [],
+  participantAudioLevels: {},
+  participantAudioPreferences: {},
+  roomMicSettings: {},
   customMoods: [],
   activeCustomMood: null,
   notifications: [],
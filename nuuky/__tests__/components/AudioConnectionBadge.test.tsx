@@ -1,5 +1,5 @@
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { render, fireEvent } from '@testing-library/react-native';
 import { AudioConnectionBadge } from '../../components/AudioConnectionBadge';
 
 jest.mock('../../hooks/useTheme', () => ({
@@ -47,4 +47,60 @@ describe('AudioConnectionBadge', () => {
     const { toJSON } = render(<AudioConnectionBadge status="error" />);
     expect(toJSON()).toBeTruthy();
   });
+
+  test('shows a listen-only seat when connected as a listener', () => {
+    const { getByLabelText } = render(<AudioConnectionBadge status="connected" listenOnly />);
+    expect(getByLabelText('Listening')).toBeTruthy();
+  });
+
+  test('asks to speak when a listener presses the badge', () => {
+    const onRequestToSpeak = jest.fn();
+    const { getByLabelText } = render(
+      <AudioConnectionBadge status="connected" listenOnly onRequestToSpeak={onRequestToSpeak} />,
+    );
+    fireEvent.press(getByLabelText('Ask to speak'));
+    expect(onRequestToSpeak).toHaveBeenCalled();
+  });
+
+  test('shows recent reconnects once connected again', () => {
+    const history = [
+      { trigger: 'disconnected' as const, attempt: 1, succeeded: false, at: Date.now() - 5000, durationMs: 800 },
+      { trigger: 'disconnected' as const, attempt: 2, succeeded: true, at: Date.now() - 3000, durationMs: 900 },
+    ];
+    const { getByLabelText, getByText } = render(
+      <AudioConnectionBadge status="connected" reconnectHistory={history} />,
+    );
+    expect(getByLabelText('Audio Active, reconnected 1 time recently')).toBeTruthy();
+    expect(getByText('1')).toBeTruthy();
+  });
+
+  test('ignores reconnects from long ago', () => {
+    const history = [
+      { trigger: 'network_change' as const, attempt: 1, succeeded: true, at: Date.now() - 60 * 60 * 1000, durationMs: 700 },
+    ];
+    const { getByLabelText } = render(
+      <AudioConnectionBadge status="connected" reconnectHistory={history} />,
+    );
+    expect(getByLabelText('Audio Active')).toBeTruthy();
+  });
+
+  test('counts attempts while reconnecting', () => {
+    const history = [
+      { trigger: 'network_change' as const, attempt: 2, succeeded: false, at: Date.now(), durationMs: 1200 },
+    ];
+    const { getByLabelText } = render(
+      <AudioConnectionBadge status="reconnecting" reconnectHistory={history} />,
+    );
+    expect(getByLabelText('Reconnecting (attempt 3)...')).toBeTruthy();
+  });
+
+  test('says the connection was lost once the supervisor gives up', () => {
+    const history = [
+      { trigger: 'disconnected' as const, attempt: 6, succeeded: false, at: Date.now(), durationMs: 1000, gaveUp: true },
+    ];
+    const { getByLabelText } = render(
+      <AudioConnectionBadge status="error" reconnectHistory={history} />,
+    );
+    expect(getByLabelText('Connection Lost')).toBeTruthy();
+  });
 });
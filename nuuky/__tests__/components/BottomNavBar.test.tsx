@@ -68,4 +68,10 @@ describe('BottomNavBar', () => {
     const { getByLabelText } = render(<BottomNavBar {...defaultProps} isMuted={false} />);
     expect(getByLabelText('Mute microphone. Swipe up for sound reactions')).toBeTruthy();
   });
+  test('labels the mic as hold to talk in push-to-talk mode', () => {
+    const { getByLabelText } = render(
+      <BottomNavBar {...defaultProps} onTalkStart={jest.fn()} onTalkEnd={jest.fn()} />,
+    );
+    expect(getByLabelText('Hold to talk. Swipe up for sound reactions')).toBeTruthy();
+  });
 });
@@ -43,10 +43,10 @@ jest.mock('../../hooks/useTheme', () => ({
     theme: {
       colors: {
         glass: { background: '#111', border: '#333' },
-        text: { primary: '#fff', tertiary: '#666' },
+        text: { primary: '#fff', secondary: '#999', tertiary: '#666' },
       },
     },
-    accent: { primary: '#3FCBFF', textOnPrimary: '#000' },
+    accent: { primary: '#3FCBFF', soft: 'rgba(63, 203, 255, 0.15)', textOnPrimary: '#000' },
   }),
 }));
 
@@ -99,4 +99,38 @@ describe('CreateRoomModal', () => {
     fireEvent.press(getByText('Cancel'));
     expect(onClose).toHaveBeenCalled();
   });
+
+  test('scheduling options only show when scheduling is supported', () => {
+    const { queryByText, rerender, getByText } = render(
+      <CreateRoomModal visible={true} onClose={jest.fn()} onCreate={jest.fn()} />
+    );
+    expect(queryByText('WHEN')).toBeNull();
+
+    rerender(<CreateRoomModal visible={true} onClose={jest.fn()} onCreate={jest.fn()} onSchedule={jest.fn()} />);
+    expect(getByText('WHEN')).toBeTruthy();
+  });
+
+  test('schedules a weekly room with invited friends', () => {
+    const onCreate = jest.fn();
+    const onSchedule = jest.fn();
+    const friends = [{ id: 'f1', display_name: 'Alex' }] as any[];
+    const { getByPlaceholderText, getByText, getByLabelText } = render(
+      <CreateRoomModal visible={true} onClose={jest.fn()} onCreate={onCreate} onSchedule={onSchedule} friends={friends} />
+    );
+    fireEvent.changeText(getByPlaceholderText('Enter a name...'), 'Study Hall');
+    fireEvent.press(getByText('Weekly'));
+    fireEvent.press(getByLabelText('Tue'));
+    fireEvent.press(getByText('Alex'));
+    fireEvent.press(getByText('Schedule'));
+
+    expect(onCreate).not.toHaveBeenCalled();
+    expect(onSchedule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Study Hall',
+        startTime: expect.stringMatching(/^\d{2}:\d{2}$/),
+        friendIds: ['f1'],
+      })
+    );
+    expect(onSchedule.mock.calls[0][0].days).toContain(2);
+  });
 });
@@ -0,0 +1,58 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { FlareResponsesPanel } from '../../components/FlareResponsesPanel';
+
+const theme = {
+  colors: {
+    glass: { background: '#111', border: '#222' },
+    text: { primary: '#fff', tertiary: '#999' },
+  },
+};
+
+const response = (overrides: any = {}) => ({
+  id: 'r1',
+  flare_id: 'flare-1',
+  flare_owner_id: 'owner',
+  responder_id: 'friend-1',
+  status: 'on_my_way',
+  room_id: null,
+  created_at: '2026-10-25T10:00:00Z',
+  updated_at: '2026-10-25T10:00:00Z',
+  responder: { id: 'friend-1', display_name: 'Sam' },
+  ...overrides,
+});
+
+describe('FlareResponsesPanel', () => {
+  test('renders nothing without responses', () => {
+    const { toJSON } = render(<FlareResponsesPanel responses={[]} bottomInset={0} theme={theme} />);
+    expect(toJSON()).toBeNull();
+  });
+
+  test('shows each responder with their status', () => {
+    const { getByText } = render(
+      <FlareResponsesPanel
+        responses={[response(), response({ id: 'r2', status: 'cant', responder: { id: 'f2', display_name: 'Alex' } })]}
+        bottomInset={0}
+        theme={theme}
+      />
+    );
+    expect(getByText('Sam')).toBeTruthy();
+    expect(getByText('On my way')).toBeTruthy();
+    expect(getByText('Alex')).toBeTruthy();
+    expect(getByText("Can't right now")).toBeTruthy();
+  });
+
+  test('opens the responder\'s room', () => {
+    const onOpenRoom = jest.fn();
+    const { getByLabelText } = render(
+      <FlareResponsesPanel
+        responses={[response({ room_id: 'room-1' })]}
+        bottomInset={0}
+        theme={theme}
+        onOpenRoom={onOpenRoom}
+      />
+    );
+    fireEvent.press(getByLabelText('Open room with Sam'));
+    expect(onOpenRoom).toHaveBeenCalledWith('room-1');
+  });
+});
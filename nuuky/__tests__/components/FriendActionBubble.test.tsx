@@ -55,4 +55,47 @@ describe('FriendActionBubble', () => {
     const Haptics = require('expo-haptics');
     expect(Haptics.impactAsync).toHaveBeenCalled();
   });
+
+  test('shows custom mood and presence for full visibility', () => {
+    const friend = {
+      id: 'f1',
+      display_name: 'Alice',
+      is_online: true,
+      last_seen_at: new Date().toISOString(),
+      custom_mood: { id: 'm1', emoji: '🎧', text: 'Focused', color: '#FACC15' },
+      visibility: 'full',
+    } as any;
+    const { getByText } = render(<FriendActionBubble {...defaultProps} friend={friend} />);
+    expect(getByText('🎧 Focused · Online')).toBeTruthy();
+  });
+
+  test('omits custom mood for limited visibility', () => {
+    const friend = {
+      id: 'f1',
+      display_name: 'Alice',
+      is_online: true,
+      last_seen_at: new Date().toISOString(),
+      custom_mood: { id: 'm1', emoji: '🎧', text: 'Focused', color: '#FACC15' },
+      visibility: 'limited',
+    } as any;
+    const { getByText, queryByText } = render(<FriendActionBubble {...defaultProps} friend={friend} />);
+    expect(getByText('Online')).toBeTruthy();
+    expect(queryByText(/Focused/)).toBeNull();
+  });
+
+  test('shows profile-only notice for hidden visibility', () => {
+    const friend = { id: 'f1', display_name: 'Alice', visibility: 'hidden' } as any;
+    const { getByText } = render(<FriendActionBubble {...defaultProps} friend={friend} />);
+    expect(getByText('Only sharing their profile')).toBeTruthy();
+  });
+
+  test('offers a flare response only when the friend has an active flare', () => {
+    const onRespondToFlare = jest.fn();
+    const { queryByLabelText, rerender, getByLabelText } = render(<FriendActionBubble {...defaultProps} />);
+    expect(queryByLabelText('Respond to flare')).toBeNull();
+
+    rerender(<FriendActionBubble {...defaultProps} onRespondToFlare={onRespondToFlare} />);
+    fireEvent.press(getByLabelText('Respond to flare'));
+    expect(onRespondToFlare).toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,103 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { FriendNotificationsModal } from '../../components/FriendNotificationsModal';
+
+jest.mock('expo-blur', () => ({
+  BlurView: ({ children, ...props }: any) => {
+    const { View } = require('react-native');
+    return <View {...props}>{children}</View>;
+  },
+}));
+
+jest.mock('@expo/vector-icons', () => ({
+  Ionicons: 'Ionicons',
+}));
+
+jest.mock('../../hooks/useTheme', () => ({
+  useTheme: () => ({
+    theme: {
+      colors: {
+        glass: { background: '#111', border: '#333' },
+        text: { primary: '#fff', secondary: '#999', tertiary: '#666' },
+      },
+    },
+    accent: { primary: '#3FCBFF', soft: 'rgba(63,203,255,0.15)', textOnPrimary: '#000' },
+  }),
+}));
+
+const friends = [
+  { id: 'f1', name: 'Alice' },
+  { id: 'f2', name: 'Bob' },
+];
+
+const mutedNudges = [
+  {
+    id: 'np1',
+    user_id: 'user1',
+    notification_type: 'nudge',
+    friend_id: 'f1',
+    push: false,
+    banner: false,
+    silent: false,
+    updated_at: '2024-01-01',
+  },
+] as any[];
+
+const renderModal = (props: Partial<React.ComponentProps<typeof FriendNotificationsModal>> = {}) =>
+  render(
+    <FriendNotificationsModal
+      visible={true}
+      friends={friends}
+      friendId={null}
+      overrides={[]}
+      onSelectFriend={jest.fn()}
+      onSetOverride={jest.fn()}
+      onClose={jest.fn()}
+      {...props}
+    />
+  );
+
+describe('FriendNotificationsModal', () => {
+  test('lists friends to pick from', () => {
+    const onSelectFriend = jest.fn();
+    const { getByText } = renderModal({ onSelectFriend });
+
+    expect(getByText('Choose a Friend')).toBeTruthy();
+    fireEvent.press(getByText('Bob'));
+    expect(onSelectFriend).toHaveBeenCalledWith('f2');
+  });
+
+  test('shows empty state without friends', () => {
+    const { getByText } = renderModal({ friends: [] });
+    expect(getByText('Add friends to change their notifications.')).toBeTruthy();
+  });
+
+  test('shows the current mode for each type', () => {
+    const { getByText, getByLabelText } = renderModal({ friendId: 'f1', overrides: mutedNudges });
+
+    expect(getByText('Alice')).toBeTruthy();
+    expect(getByLabelText('Nudges: Mute').props.accessibilityState).toEqual({ selected: true });
+    expect(getByLabelText('Flares: Default').props.accessibilityState).toEqual({ selected: true });
+  });
+
+  test('sets an override', () => {
+    const onSetOverride = jest.fn();
+    const { getByLabelText } = renderModal({ friendId: 'f1', overrides: mutedNudges, onSetOverride });
+
+    fireEvent.press(getByLabelText('Flares: Always'));
+    expect(onSetOverride).toHaveBeenCalledWith('flare', 'always');
+  });
+
+  test('ignores the mode that is already selected', () => {
+    const onSetOverride = jest.fn();
+    const { getByLabelText } = renderModal({ friendId: 'f1', overrides: mutedNudges, onSetOverride });
+
+    fireEvent.press(getByLabelText('Nudges: Mute'));
+    expect(onSetOverride).not.toHaveBeenCalled();
+  });
+
+  test('check-in requests cannot be overridden per friend', () => {
+    const { queryByText } = renderModal({ friendId: 'f1' });
+    expect(queryByText('Check-in requests')).toBeNull();
+  });
+});
@@ -101,4 +101,40 @@ describe('FriendParticle', () => {
 
     expect(toJSON()).toBeTruthy();
   });
+
+  test('announces online status for full visibility', () => {
+    const { getByLabelText } = render(
+      <FriendParticle
+        friend={{ ...mockFriend, username: 'testfriend', created_at: new Date().toISOString(), visibility: 'full' as const }}
+        index={0}
+        total={3}
+        baseAngle={0}
+        radius={100}
+        orbitAngle={mockOrbitAngle}
+        onPress={jest.fn()}
+        hasActiveFlare={false}
+        position={{ x: 100, y: 100 }}
+      />
+    );
+
+    expect(getByLabelText('Test Friend, online')).toBeTruthy();
+  });
+
+  test('hides presence for minimal visibility', () => {
+    const { getByLabelText } = render(
+      <FriendParticle
+        friend={{ ...mockFriend, username: 'testfriend', created_at: new Date().toISOString(), visibility: 'minimal' as const }}
+        index={0}
+        total={3}
+        baseAngle={0}
+        radius={100}
+        orbitAngle={mockOrbitAngle}
+        onPress={jest.fn()}
+        hasActiveFlare={false}
+        position={{ x: 100, y: 100 }}
+      />
+    );
+
+    expect(getByLabelText('Test Friend')).toBeTruthy();
+  });
 });
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { render, fireEvent } from '@testing-library/react-native';
 import { NotificationCard } from '../../components/NotificationCard';
 
 jest.mock('expo-blur', () => ({
@@ -124,4 +124,78 @@ describe('NotificationCard', () => {
     );
     expect(toJSON()).not.toBeNull();
   });
+
+  describe('collapsed groups', () => {
+    const group = makeNotification({
+      title: '👋 Maya nudged you 3 times',
+      group_key: 'nudge:maya',
+      group_count: 3,
+      group_items: [
+        { key: 'a', sender_id: 'maya', sender_name: 'Maya', sender_avatar_url: null, title: '👋 Nudge from Maya', created_at: '2024-01-01T10:00:00Z' },
+        { key: 'b', sender_id: 'maya', sender_name: 'Maya', sender_avatar_url: null, title: '👋 Nudge from Maya', created_at: '2024-01-01T10:05:00Z' },
+        { key: 'c', sender_id: 'maya', sender_name: 'Maya', sender_avatar_url: null, title: '👋 Nudge from Maya', created_at: '2024-01-01T10:10:00Z' },
+      ],
+    });
+
+    test('shows the count', () => {
+      const { getByText, getByLabelText } = render(<NotificationCard {...defaultProps} notification={group} />);
+      expect(getByText('Maya nudged you 3 times')).toBeTruthy();
+      expect(getByLabelText('3 notifications')).toBeTruthy();
+      expect(getByText('Tap to see all 3')).toBeTruthy();
+    });
+
+    test('expands on tap instead of opening', () => {
+      const onPress = jest.fn();
+      const onExpand = jest.fn();
+      const { getByText, getAllByText, queryByText } = render(
+        <NotificationCard {...defaultProps} notification={group} onPress={onPress} onExpand={onExpand} />,
+      );
+
+      fireEvent.press(getByText('Maya nudged you 3 times'));
+
+      expect(onPress).not.toHaveBeenCalled();
+      expect(onExpand).toHaveBeenCalledTimes(1);
+      expect(getAllByText('Nudge from Maya')).toHaveLength(3);
+      expect(queryByText('Tap to see all 3')).toBeNull();
+    });
+
+    test('opens from an expanded item', () => {
+      const onPress = jest.fn();
+      const { getByText, getAllByText } = render(
+        <NotificationCard {...defaultProps} notification={group} onPress={onPress} />,
+      );
+
+      fireEvent.press(getByText('Maya nudged you 3 times'));
+      fireEvent.press(getAllByText('Nudge from Maya')[0]);
+
+      expect(onPress).toHaveBeenCalledTimes(1);
+    });
+
+    test('collapses again on a second tap', () => {
+      const onExpand = jest.fn();
+      const { getByText, queryAllByText } = render(
+        <NotificationCard {...defaultProps} notification={group} onExpand={onExpand} />,
+      );
+
+      fireEvent.press(getByText('Maya nudged you 3 times'));
+      fireEvent.press(getByText('Maya nudged you 3 times'));
+
+      expect(queryAllByText('Nudge from Maya')).toHaveLength(0);
+      expect(onExpand).toHaveBeenCalledTimes(1);
+    });
+
+    test('a single notification opens directly', () => {
+      const onPress = jest.fn();
+      const { getByText } = render(
+        <NotificationCard
+          {...defaultProps}
+          notification={makeNotification({ group_key: 'nudge:maya', group_count: 1 })}
+          onPress={onPress}
+        />,
+      );
+
+      fireEvent.press(getByText('Hey!'));
+      expect(onPress).toHaveBeenCalled();
+    });
+  });
 });
@@ -20,6 +20,10 @@ jest.mock('expo-image', () => ({
   Image: 'CachedImage',
 }));
 
+jest.mock('@expo/vector-icons', () => ({
+  Ionicons: 'Ionicons',
+}));
+
 jest.mock('../../hooks/useTheme', () => ({
   useTheme: () => ({
     theme: {
@@ -30,6 +34,7 @@ jest.mock('../../hooks/useTheme', () => ({
         mood: { neutral: { gradient: ['#888', '#666'] } },
       },
     },
+    accent: { primary: '#3FCBFF', soft: 'rgba(63, 203, 255, 0.15)', textOnPrimary: '#000' },
   }),
 }));
 
@@ -38,6 +43,26 @@ const rooms = [
   { id: 'r2', name: 'Room Two', participants: [], is_private: true },
 ] as any[];
 
+const upcomingRoom = {
+  schedule_id: 's1',
+  room_id: 'r3',
+  room_name: 'Study Hall',
+  creator_id: 'u2',
+  creator_name: 'Sam',
+  creator_avatar_url: null,
+  starts_at: null,
+  days: [2],
+  start_time: '20:00:00',
+  timezone: 'UTC',
+  duration_minutes: 60,
+  next_start_at: '2099-01-06T20:00:00Z',
+  is_open: false,
+  my_status: 'invited',
+  going_count: 2,
+  maybe_count: 0,
+  invited_count: 4,
+} as any;
+
 describe('RoomListModal', () => {
   test('renders title', () => {
     const { getByText } = render(
@@ -76,4 +101,35 @@ describe('RoomListModal', () => {
     fireEvent.press(getByText('+ Create Room'));
     expect(onCreate).toHaveBeenCalled();
   });
+
+  test('lists upcoming rooms with their schedule and RSVPs', () => {
+    const { getByText, queryByText } = render(
+      <RoomListModal visible={true} rooms={[]} upcomingRooms={[upcomingRoom]} onClose={jest.fn()} onJoinRoom={jest.fn()} onCreateRoom={jest.fn()} />
+    );
+    expect(getByText('UPCOMING')).toBeTruthy();
+    expect(getByText('Study Hall')).toBeTruthy();
+    expect(getByText(/Tue · 20:00/)).toBeTruthy();
+    expect(getByText(/Hosted by Sam · 2 going/)).toBeTruthy();
+    expect(queryByText('No active rooms')).toBeNull();
+  });
+
+  test('answers an invitation', () => {
+    const onRsvp = jest.fn();
+    const { getByText } = render(
+      <RoomListModal visible={true} rooms={[]} upcomingRooms={[upcomingRoom]} onRsvp={onRsvp} onClose={jest.fn()} onJoinRoom={jest.fn()} onCreateRoom={jest.fn()} />
+    );
+    fireEvent.press(getByText('Maybe'));
+    expect(onRsvp).toHaveBeenCalledWith('s1', 'maybe');
+  });
+
+  test('offers to join an upcoming room once it opens', () => {
+    const onJoinUpcomingRoom = jest.fn();
+    const openRoom = { ...upcomingRoom, is_open: true, my_status: 'going' };
+    const { getByText } = render(
+      <RoomListModal visible={true} rooms={[]} upcomingRooms={[openRoom]} onJoinUpcomingRoom={onJoinUpcomingRoom} onClose={jest.fn()} onJoinRoom={jest.fn()} onCreateRoom={jest.fn()} />
+    );
+    expect(getByText(/Live now/)).toBeTruthy();
+    fireEvent.press(getByText('Join'));
+    expect(onJoinUpcomingRoom).toHaveBeenCalledWith(openRoom);
+  });
 });
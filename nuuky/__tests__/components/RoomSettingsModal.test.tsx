@@ -1,4 +1,5 @@
 import React from 'react';
+import { Alert } from 'react-native';
 import { render, fireEvent } from '@testing-library/react-native';
 import { RoomSettingsModal } from '../../components/RoomSettingsModal';
 
@@ -114,4 +115,167 @@ describe('RoomSettingsModal', () => {
     const { getByText } = render(<RoomSettingsModal {...defaultProps} />);
     expect(getByText('2')).toBeTruthy();
   });
+
+  const expandMembers = (utils: ReturnType<typeof render>) => {
+    fireEvent.press(utils.UNSAFE_getAllByProps({ name: 'chevron-down' })[0]);
+  };
+
+  const alertButtons = () => {
+    const calls = (Alert.alert as jest.Mock).mock.calls;
+    return calls[calls.length - 1][2].map((b: any) => b.text);
+  };
+
+  test('owner gets mute, role and remove actions for a member', () => {
+    const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    const utils = render(
+      <RoomSettingsModal
+        {...defaultProps}
+        onRemoveParticipant={jest.fn()}
+        onMuteParticipant={jest.fn()}
+        onSetParticipantRole={jest.fn()}
+      />,
+    );
+    expandMembers(utils);
+    fireEvent.press(utils.getByLabelText('Manage Alice'));
+
+    expect(alertButtons()).toEqual([
+      'Mute for Everyone',
+      'Make Moderator',
+      'Make Listener',
+      'Remove from Room',
+      'Cancel',
+    ]);
+    alertSpy.mockRestore();
+  });
+
+  test('mute for everyone calls onMuteParticipant', () => {
+    const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    const onMuteParticipant = jest.fn().mockResolvedValue(undefined);
+    const utils = render(<RoomSettingsModal {...defaultProps} onMuteParticipant={onMuteParticipant} />);
+    expandMembers(utils);
+    fireEvent.press(utils.getByLabelText('Manage Alice'));
+
+    const buttons = alertSpy.mock.calls[alertSpy.mock.calls.length - 1][2] as any[];
+    buttons.find((b) => b.text === 'Mute for Everyone').onPress();
+    expect(onMuteParticipant).toHaveBeenCalledWith('u2');
+    alertSpy.mockRestore();
+  });
+
+  test('moderator can moderate members but not assign roles', () => {
+    const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    const participants = [
+      { ...defaultProps.participants[0], user_id: 'u3', id: 'p3', role: 'moderator', user: { ...defaultProps.participants[0].user, id: 'u3' } },
+      defaultProps.participants[1],
+    ];
+    const utils = render(
+      <RoomSettingsModal
+        {...defaultProps}
+        isCreator={false}
+        participants={participants}
+        currentUserId="u3"
+        onRemoveParticipant={jest.fn()}
+        onMuteParticipant={jest.fn()}
+        onSetParticipantRole={jest.fn()}
+      />,
+    );
+    expandMembers(utils);
+    fireEvent.press(utils.getByLabelText('Manage Alice'));
+
+    expect(alertButtons()).toEqual(['Mute for Everyone', 'Remove from Room', 'Cancel']);
+    alertSpy.mockRestore();
+  });
+
+  test('members get no moderation controls', () => {
+    const utils = render(
+      <RoomSettingsModal
+        {...defaultProps}
+        isCreator={false}
+        creatorId="u2"
+        onRemoveParticipant={jest.fn()}
+        onMuteParticipant={jest.fn()}
+      />,
+    );
+    expandMembers(utils);
+    expect(utils.queryByLabelText('Manage Alice')).toBeNull();
+  });
+
+  test('shows role and moderator mute in member status', () => {
+    const participants = [
+      defaultProps.participants[0],
+      { ...defaultProps.participants[1], role: 'listener', is_muted: true, muted_by: 'u1' },
+    ];
+    const utils = render(<RoomSettingsModal {...defaultProps} participants={participants} />);
+    expandMembers(utils);
+    expect(utils.getByText('Offline · Listener · Muted by host')).toBeTruthy();
+  });
+
+  test('moderators can answer a listener\'s request to speak', () => {
+    const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    const onAllowToSpeak = jest.fn().mockResolvedValue(undefined);
+    const participants = [
+      defaultProps.participants[0],
+      { ...defaultProps.participants[1], role: 'listener', speak_requested_at: '2026-10-28T10:00:00Z' },
+    ];
+    const utils = render(
+      <RoomSettingsModal
+        {...defaultProps}
+        participants={participants}
+        onAllowToSpeak={onAllowToSpeak}
+        onDismissSpeakRequest={jest.fn()}
+      />,
+    );
+    expandMembers(utils);
+    expect(utils.getByText('Offline · Listener · Wants to speak')).toBeTruthy();
+    fireEvent.press(utils.getByLabelText('Manage Alice'));
+
+    expect(alertButtons()).toEqual(['Let Them Speak', 'Dismiss Request', 'Cancel']);
+    const buttons = alertSpy.mock.calls[alertSpy.mock.calls.length - 1][2] as any[];
+    buttons[0].onPress();
+    expect(onAllowToSpeak).toHaveBeenCalledWith('u2');
+    alertSpy.mockRestore();
+  });
+
+  test('owner can turn off listener reactions', () => {
+    const onToggleListenersCanReact = jest.fn().mockResolvedValue(undefined);
+    const { getByText } = render(
+      <RoomSettingsModal {...defaultProps} onToggleListenersCanReact={onToggleListenersCanReact} />,
+    );
+    fireEvent.press(getByText('Listener Reactions'));
+    expect(onToggleListenersCanReact).toHaveBeenCalledWith(false);
+  });
+  test('hides the microphone section without a mode handler', () => {
+    const { queryByText } = render(<RoomSettingsModal {...defaultProps} />);
+    expect(queryByText('MICROPHONE')).toBeNull();
+  });
+
+  test('picking a mic mode calls onMicModeChange', () => {
+    const onMicModeChange = jest.fn();
+    const { getByText } = render(
+      <RoomSettingsModal {...defaultProps} onMicModeChange={onMicModeChange} />,
+    );
+    expect(getByText('MICROPHONE')).toBeTruthy();
+    fireEvent.press(getByText('Open mic'));
+    expect(onMicModeChange).not.toHaveBeenCalled();
+    fireEvent.press(getByText('Push to talk'));
+    expect(onMicModeChange).toHaveBeenCalledWith('push_to_talk');
+  });
+
+  test('voice activity shows a sensitivity stepper', () => {
+    const onVadThresholdChange = jest.fn();
+    const { getByText, getByLabelText, queryByText } = render(
+      <RoomSettingsModal
+        {...defaultProps}
+        micSettings={{ mode: 'voice_activity', vadThreshold: 0.4 }}
+        onMicModeChange={jest.fn()}
+        onVadThresholdChange={onVadThresholdChange}
+      />,
+    );
+    expect(getByText('Sensitivity')).toBeTruthy();
+    expect(getByText('40%')).toBeTruthy();
+    fireEvent.press(getByLabelText('More sensitive'));
+    expect(onVadThresholdChange).toHaveBeenCalledWith(0.3);
+    fireEvent.press(getByLabelText('Less sensitive'));
+    expect(onVadThresholdChange).toHaveBeenCalledWith(0.5);
+    expect(queryByText('Hold the mic or your orb while you talk')).toBeTruthy();
+  });
 });
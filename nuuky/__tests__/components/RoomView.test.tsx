@@ -1,5 +1,5 @@
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { render, fireEvent } from '@testing-library/react-native';
 import { RoomView } from '../../components/RoomView';
 
 jest.mock('expo-blur', () => ({
@@ -35,6 +35,7 @@ jest.mock('../../hooks/useTheme', () => ({
       },
       gradients: { background: ['#000', '#111'] },
     },
+    accent: { primary: '#3FCBFF', soft: 'rgba(63,203,255,0.15)' },
   }),
 }));
 
@@ -95,4 +96,169 @@ describe('RoomView', () => {
     );
     expect(getByLabelText('Room settings')).toBeTruthy();
   });
+
+  test('shows the listen-only seat and asks to speak', () => {
+    const onToggleSpeakRequest = jest.fn();
+    const { getByText } = render(
+      <RoomView
+        roomName="R"
+        participants={[]}
+        currentUser={currentUser}
+        isCreator={false}
+        isListener
+        listenersCanReact={false}
+        onToggleSpeakRequest={onToggleSpeakRequest}
+      />,
+    );
+    expect(getByText('Listen only')).toBeTruthy();
+    fireEvent.press(getByText('Ask to speak'));
+    expect(onToggleSpeakRequest).toHaveBeenCalled();
+  });
+
+  test('shows a sent request', () => {
+    const { getByText } = render(
+      <RoomView
+        roomName="R"
+        participants={[]}
+        currentUser={currentUser}
+        isCreator={false}
+        isListener
+        speakRequested
+        onToggleSpeakRequest={jest.fn()}
+      />,
+    );
+    expect(getByText('Requested')).toBeTruthy();
+  });
+
+  test('tells hosts how many listeners want to speak', () => {
+    const onSpeakRequestsPress = jest.fn();
+    const { getByText } = render(
+      <RoomView
+        roomName="R"
+        participants={[]}
+        currentUser={currentUser}
+        isCreator={true}
+        speakRequestCount={2}
+        onSpeakRequestsPress={onSpeakRequestsPress}
+      />,
+    );
+    fireEvent.press(getByText('2 people want to speak'));
+    expect(onSpeakRequestsPress).toHaveBeenCalled();
+  });
+
+  test('invites the room to focus when no session is running', () => {
+    const onFocusPress = jest.fn();
+    const { getByText } = render(
+      <RoomView
+        roomName="R"
+        participants={[]}
+        currentUser={currentUser}
+        isCreator={false}
+        onFocusPress={onFocusPress}
+      />,
+    );
+    fireEvent.press(getByText('Focus together'));
+    expect(onFocusPress).toHaveBeenCalled();
+  });
+
+  test('shows the shared focus timer', () => {
+    const startedAt = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const { getByText } = render(
+      <RoomView
+        roomName="R"
+        participants={[]}
+        currentUser={currentUser}
+        isCreator={false}
+        focusSession={{
+          id: 's1',
+          room_id: 'r1',
+          started_by: 'u2',
+          work_minutes: 25,
+          break_minutes: 5,
+          rounds: 4,
+          started_at: startedAt,
+          created_at: startedAt,
+        }}
+        focusParticipantCount={3}
+        onFocusPress={jest.fn()}
+      />,
+    );
+    expect(getByText('Focus · round 1 of 4')).toBeTruthy();
+    expect(getByText('3')).toBeTruthy();
+  });
+
+  describe('audio', () => {
+    const other = { id: 'u2', display_name: 'Sam' };
+    const participants = [
+      { id: 'p1', user: currentUser },
+      { id: 'p2', user: other },
+    ] as any[];
+
+    test('shows a live level meter for each participant', () => {
+      const { getByText, getAllByTestId } = render(
+        <RoomView
+          roomName="R"
+          participants={participants}
+          currentUser={currentUser}
+          isCreator={true}
+          audioLevels={{ u1: 0, u2: 0.5 }}
+        />,
+      );
+      expect(getByText('You')).toBeTruthy();
+      expect(getByText('Sam')).toBeTruthy();
+      expect(getAllByTestId('audio-level-meter', { includeHiddenElements: true })).toHaveLength(2);
+      // Half level lights two of four bars, for Sam only
+      expect(getAllByTestId('audio-level-bar-lit', { includeHiddenElements: true })).toHaveLength(2);
+    });
+
+    test('hides the speakers strip without levels', () => {
+      const { queryByTestId } = render(
+        <RoomView roomName="R" participants={participants} currentUser={currentUser} isCreator={true} />,
+      );
+      expect(queryByTestId('audio-level-meter', { includeHiddenElements: true })).toBeNull();
+    });
+
+    test('adjusts a friend\'s volume and mutes them locally', () => {
+      const onParticipantVolumeChange = jest.fn();
+      const onToggleParticipantMuted = jest.fn();
+      const { getByLabelText, getByText } = render(
+        <RoomView
+          roomName="R"
+          participants={participants}
+          currentUser={currentUser}
+          isCreator={true}
+          audioLevels={{}}
+          audioPreferences={{ u2: { volume: 0.5, muted: false } }}
+          onParticipantVolumeChange={onParticipantVolumeChange}
+          onToggleParticipantMuted={onToggleParticipantMuted}
+        />,
+      );
+      fireEvent.press(getByLabelText('Sam volume'));
+      expect(getByText('50%')).toBeTruthy();
+
+      fireEvent.press(getByLabelText('Turn Sam up'));
+      expect(onParticipantVolumeChange).toHaveBeenCalledWith('u2', 0.6);
+
+      fireEvent.press(getByText('Mute for me'));
+      expect(onToggleParticipantMuted).toHaveBeenCalledWith('u2');
+    });
+
+    test('shows friends we muted for ourselves', () => {
+      const { getByLabelText, getByText } = render(
+        <RoomView
+          roomName="R"
+          participants={participants}
+          currentUser={currentUser}
+          isCreator={true}
+          audioLevels={{ u2: 0.8 }}
+          audioPreferences={{ u2: { volume: 1, muted: true } }}
+          onParticipantVolumeChange={jest.fn()}
+          onToggleParticipantMuted={jest.fn()}
+        />,
+      );
+      fireEvent.press(getByLabelText('Sam volume'));
+      expect(getByText('Muted')).toBeTruthy();
+      expect(getByText('Unmute for me')).toBeTruthy();
+    });
+  });
 });
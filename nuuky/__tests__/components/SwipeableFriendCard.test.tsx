@@ -1,5 +1,5 @@
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { render, fireEvent } from '@testing-library/react-native';
 import { SwipeableFriendCard } from '../../components/SwipeableFriendCard';
 
 jest.mock('expo-image', () => ({ Image: 'CachedImage' }));
@@ -120,4 +120,22 @@ describe('SwipeableFriendCard', () => {
     // Broken streak should not show count
     expect(queryByText('0')).toBeNull();
   });
+
+  test('streak pill opens the streak history when pressed', () => {
+    const onStreakPress = jest.fn();
+    const streak = { id: 's1', state: 'active', consecutive_days: 9 };
+    const { getByLabelText } = render(
+      <SwipeableFriendCard {...defaultProps} streak={streak as any} onStreakPress={onStreakPress} />,
+    );
+    fireEvent.press(getByLabelText('Streak history'));
+    expect(onStreakPress).toHaveBeenCalledWith(streak);
+  });
+
+  test('streak pill is not pressable without a handler', () => {
+    const streak = { id: 's1', state: 'fading', consecutive_days: 9 };
+    const { queryByLabelText } = render(
+      <SwipeableFriendCard {...defaultProps} streak={streak as any} />,
+    );
+    expect(queryByLabelText('Streak history')).toBeNull();
+  });
 });
@@ -0,0 +1,121 @@
+import { Alert } from 'react-native';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useAnchorCheckIns } from '../../hooks/useAnchorCheckIns';
+import { resetStore, setAuthenticatedUser } from '../__utils__/mockStore';
+import { TEST_USER_ID, TEST_FRIEND_ID } from '../__utils__/fixtures';
+
+const mockFrom = jest.fn();
+const mockRpc = jest.fn();
+const mockInvoke = jest.fn();
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args),
+    functions: {
+      invoke: (...args: any[]) => mockInvoke(...args),
+    },
+  },
+}));
+
+jest.spyOn(Alert, 'alert');
+
+const createChain = (resolved: any = { data: [], error: null }) => {
+  const chain: any = {
+    select: jest.fn().mockReturnThis(),
+    order: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockResolvedValue(resolved),
+  };
+  return chain;
+};
+
+const mine = {
+  id: 'c1',
+  user_id: TEST_USER_ID,
+  status: 'pending',
+  last_seen_at: '2026-10-24T12:00:00Z',
+  threshold_hours: 48,
+  asked_at: '2026-10-26T12:00:00Z',
+};
+
+const anchored = {
+  id: 'c2',
+  user_id: TEST_FRIEND_ID,
+  status: 'escalated',
+  last_seen_at: '2026-10-23T12:00:00Z',
+  threshold_hours: 24,
+  asked_at: '2026-10-24T12:00:00Z',
+  escalated_at: '2026-10-25T00:00:00Z',
+  acks: [],
+};
+
+describe('useAnchorCheckIns', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetStore();
+  });
+
+  test('splits own check-ins from those of people the user anchors', async () => {
+    const chain = createChain({ data: [mine, anchored], error: null });
+    mockFrom.mockReturnValue(chain);
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useAnchorCheckIns());
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(mockFrom).toHaveBeenCalledWith('anchor_checkins');
+    expect(chain.order).toHaveBeenCalledWith('asked_at', { ascending: false });
+    expect(result.current.myCheckIns).toEqual([mine]);
+    expect(result.current.anchoredCheckIns).toEqual([anchored]);
+    expect(result.current.openCheckIn).toEqual(mine);
+  });
+
+  test('confirmCheckIn calls the RPC and reloads', async () => {
+    mockFrom.mockReturnValue(createChain());
+    mockRpc.mockResolvedValue({ data: 1, error: null });
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useAnchorCheckIns());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    mockFrom.mockClear();
+
+    let success: boolean | undefined;
+    await act(async () => { success = await result.current.confirmCheckIn(); });
+
+    expect(success).toBe(true);
+    expect(mockRpc).toHaveBeenCalledWith('confirm_anchor_checkin');
+    expect(mockFrom).toHaveBeenCalledWith('anchor_checkins');
+  });
+
+  test('acknowledgeCheckIn invokes the edge function', async () => {
+    mockFrom.mockReturnValue(createChain());
+    mockInvoke.mockResolvedValue({ data: { notified: 1 }, error: null });
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useAnchorCheckIns());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    let success: boolean | undefined;
+    await act(async () => { success = await result.current.acknowledgeCheckIn('c2'); });
+
+    expect(success).toBe(true);
+    expect(mockInvoke).toHaveBeenCalledWith('acknowledge-anchor-checkin', {
+      body: { checkin_id: 'c2' },
+    });
+  });
+
+  test('acknowledgeCheckIn alerts on failure', async () => {
+    mockFrom.mockReturnValue(createChain());
+    mockInvoke.mockResolvedValue({ data: null, error: { message: 'Forbidden' } });
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useAnchorCheckIns());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    let success: boolean | undefined;
+    await act(async () => { success = await result.current.acknowledgeCheckIn('c2'); });
+
+    expect(success).toBe(false);
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to let the other anchors know');
+  });
+});
@@ -9,6 +9,7 @@ const mockSetMic = jest.fn();
 const mockIsConnected = jest.fn().mockReturnValue(false);
 const mockIsMicEnabled = jest.fn().mockReturnValue(false);
 const mockGetCurrentRoom = jest.fn().mockReturnValue(null);
+const mockSetAudioPreferences = jest.fn();
 
 jest.mock('../../lib/livekit', () => ({
   initializeLiveKit: () => mockInitialize(),
@@ -19,6 +20,11 @@ jest.mock('../../lib/livekit', () => ({
   isConnected: () => mockIsConnected(),
   isMicrophoneEnabled: () => mockIsMicEnabled(),
   getCurrentRoom: () => mockGetCurrentRoom(),
+  sendRoomData: jest.fn(),
+  setParticipantAudioPreferences: (prefs: any) => mockSetAudioPreferences(prefs),
+  setMicGating: () => Promise.resolve(),
+  setMicGateOpen: () => Promise.resolve(),
+  getLocalMicLevel: () => Promise.resolve(null),
 }));
 
 jest.mock('../../lib/logger', () => ({ logger: { error: jest.fn(), warn: jest.fn() } }));
@@ -35,6 +41,7 @@ beforeEach(() => {
     currentUser: mockUser as any,
     audioConnectionStatus: 'disconnected',
     speakingParticipants: [],
+    participantAudioPreferences: {},
   });
 });
 
@@ -46,6 +53,25 @@ describe('useAudio', () => {
     expect(result.current.isMicrophoneEnabled).toBe(false);
   });
 
+  test('passes per-friend volume and mute to livekit', () => {
+    renderHook(() => useAudio('room1'));
+    expect(mockSetAudioPreferences).toHaveBeenLastCalledWith({});
+
+    act(() => {
+      useAppStore.getState().setParticipantVolume('friend-1', 0.4);
+    });
+    expect(mockSetAudioPreferences).toHaveBeenLastCalledWith({
+      'friend-1': expect.objectContaining({ volume: 0.4 }),
+    });
+
+    act(() => {
+      useAppStore.getState().setParticipantMuted('friend-1', true);
+    });
+    expect(mockSetAudioPreferences).toHaveBeenLastCalledWith({
+      'friend-1': expect.objectContaining({ volume: 0.4, muted: true }),
+    });
+  });
+
   test('initializes LiveKit on mount', () => {
     renderHook(() => useAudio('room1'));
     expect(mockInitialize).toHaveBeenCalled();
@@ -46,6 +46,7 @@ jest.mock('../../lib/logger', () => ({
 jest.mock('../../lib/notifications', () => ({
   registerForPushNotificationsAsync: jest.fn().mockResolvedValue('mock-token'),
   savePushTokenToUser: jest.fn().mockResolvedValue(undefined),
+  removePushToken: jest.fn().mockResolvedValue(undefined),
 }));
 
 jest.mock('react-native', () => ({
@@ -189,6 +190,7 @@ describe('useAuth', () => {
       await result.current.signOut();
     });
 
+    expect(require('../../lib/notifications').removePushToken).toHaveBeenCalled();
     expect(mockSignOut).toHaveBeenCalled();
     expect(useAppStore.getState().currentUser).toBeNull();
   });
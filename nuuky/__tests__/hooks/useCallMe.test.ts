@@ -108,8 +108,10 @@ describe('useCallMe', () => {
     expect(Alert.alert).toHaveBeenCalledWith('Limit Reached', expect.any(String));
   });
 
-  test('sendCallMe passes roomId when provided', async () => {
+  test('sendCallMe stores roomId on the request', async () => {
     setAuthenticatedUser();
+    const chain = createChain();
+    mockFrom.mockReturnValue(chain);
 
     const { result } = renderHook(() => useCallMe());
 
@@ -117,11 +119,23 @@ describe('useCallMe', () => {
       await result.current.sendCallMe('friend-1', 'Friend', 'room-1');
     });
 
-    expect(mockFunctionsInvoke).toHaveBeenCalledWith('send-call-me-notification', {
-      body: { receiver_id: 'friend-1', sender_id: TEST_USER_ID, room_id: 'room-1' },
+    expect(mockFrom).toHaveBeenCalledWith('call_me_requests');
+    expect(chain.insert).toHaveBeenCalledWith({
+      sender_id: TEST_USER_ID,
+      receiver_id: 'friend-1',
+      room_id: 'room-1',
     });
   });
 
+  test('sendCallMe leaves the push to the notification outbox', async () => {
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useCallMe());
+    await act(async () => { await result.current.sendCallMe('f1', 'Friend'); });
+
+    expect(mockFunctionsInvoke).not.toHaveBeenCalled();
+  });
+
   test('sendCallMe handles session error', async () => {
     const { Alert } = require('react-native');
     setAuthenticatedUser();
@@ -145,26 +159,4 @@ describe('useCallMe', () => {
     expect(success).toBe(false);
     expect(Alert.alert).toHaveBeenCalledWith('Error', expect.any(String));
   });
-
-  test('sendCallMe handles edge function error with sent=false', async () => {
-    const { Alert } = require('react-native');
-    setAuthenticatedUser();
-    mockFunctionsInvoke.mockResolvedValue({ data: { sent: false }, error: { message: 'edge error' } });
-
-    const { result } = renderHook(() => useCallMe());
-    let success = true;
-    await act(async () => { success = await result.current.sendCallMe('f1', 'Friend'); });
-    expect(success).toBe(false);
-  });
-
-  test('sendCallMe succeeds with edge function warning', async () => {
-    setAuthenticatedUser();
-    // Error returned but sent is not false (default undefined = success)
-    mockFunctionsInvoke.mockResolvedValue({ data: {}, error: { message: 'warn' } });
-
-    const { result } = renderHook(() => useCallMe());
-    let success = false;
-    await act(async () => { success = await result.current.sendCallMe('f1', 'Friend'); });
-    expect(success).toBe(true);
-  });
 });
@@ -2,8 +2,21 @@ import { renderHook, act } from '@testing-library/react-native';
 import { Alert } from 'react-native';
 
 const mockFrom = jest.fn();
+const mockRpc = jest.fn();
 jest.mock('../../lib/supabase', () => ({
-  supabase: { from: (...args: any[]) => mockFrom(...args) },
+  supabase: {
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args),
+  },
+}));
+
+jest.mock('../../stores/appStore', () => ({
+  useAppStore: jest.fn((selector: any) => selector({ currentUser: { id: 'me', phone: '+15550000000' } })),
+}));
+
+jest.mock('expo-crypto', () => ({
+  digestStringAsync: jest.fn((_algorithm: string, input: string) => Promise.resolve(`hash(${input})`)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
 }));
 
 jest.mock('expo-contacts', () => ({
@@ -26,6 +39,7 @@ const createChain = (resolved: any = { data: null, error: null }) => ({
 
 beforeEach(() => {
   jest.clearAllMocks();
+  mockRpc.mockResolvedValue({ data: [], error: null });
   jest.spyOn(Alert, 'alert').mockImplementation(() => {});
 });
 
@@ -80,8 +94,12 @@ describe('useContactSync', () => {
         { id: 'c2', name: 'Alice', phoneNumbers: [{ number: '(555) 987-6543' }] },
       ],
     });
+    mockRpc.mockResolvedValue({
+      data: [{ id: 'u1', phone_hash: 'hash(nuuky-contact-v1:+15551234567)' }],
+      error: null,
+    });
     mockFrom.mockReturnValue(createChain({
-      data: [{ phone: '+15551234567', id: 'u1', display_name: 'Bob' }],
+      data: [{ id: 'u1', display_name: 'Bob' }],
       error: null,
     }));
 
@@ -89,9 +107,28 @@ describe('useContactSync', () => {
     await act(async () => { await result.current.syncContacts(); });
     expect(result.current.hasSynced).toBe(true);
     expect(result.current.matches.onNuuky).toHaveLength(1);
+    expect(result.current.matches.onNuuky[0]).toMatchObject({ userId: 'u1', displayName: 'Bob' });
     expect(result.current.matches.notOnNuuky).toHaveLength(1);
   });
 
+  test('syncContacts sends only hashes, never raw numbers', async () => {
+    (Contacts.getPermissionsAsync as jest.Mock).mockResolvedValue({ status: 'granted' });
+    (Contacts.getContactsAsync as jest.Mock).mockResolvedValue({
+      data: [
+        { id: 'c1', name: 'Bob', phoneNumbers: [{ number: '(555) 123-4567' }] },
+        { id: 'c2', name: 'Hans', phoneNumbers: [{ number: '+49 151 12345678' }] },
+      ],
+    });
+
+    const { result } = renderHook(() => useContactSync());
+    await act(async () => { await result.current.syncContacts(); });
+
+    expect(mockRpc).toHaveBeenCalledWith('discover_contacts', {
+      p_hashes: ['hash(nuuky-contact-v1:+15551234567)', 'hash(nuuky-contact-v1:+4915112345678)'],
+    });
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
   test('syncContacts handles no valid phone numbers', async () => {
     (Contacts.getPermissionsAsync as jest.Mock).mockResolvedValue({ status: 'granted' });
     (Contacts.getContactsAsync as jest.Mock).mockResolvedValue({
@@ -122,10 +159,11 @@ describe('useContactSync', () => {
     (Contacts.getContactsAsync as jest.Mock).mockResolvedValue({
       data: [{ id: 'c1', name: 'Bob', phoneNumbers: [{ number: '(555) 123-4567' }] }],
     });
-    mockFrom.mockReturnValue(createChain({ data: null, error: { message: 'fail' } }));
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'Contact discovery quota exceeded' } });
 
     const { result } = renderHook(() => useContactSync());
     await act(async () => { await result.current.syncContacts(); });
     expect(result.current.matches.onNuuky).toHaveLength(0);
+    expect(result.current.matches.notOnNuuky).toHaveLength(1);
   });
 });
@@ -38,6 +38,7 @@ const createChain = (resolved: any = { data: null, error: null }) => ({
   select: jest.fn().mockReturnThis(),
   insert: jest.fn().mockReturnThis(),
   update: jest.fn().mockReturnThis(),
+  upsert: jest.fn().mockReturnThis(),
   eq: jest.fn().mockReturnThis(),
   neq: jest.fn().mockReturnThis(),
   gte: jest.fn().mockReturnThis(),
@@ -99,20 +100,42 @@ describe('useFlare', () => {
     expect(Alert.alert).toHaveBeenCalledWith('Error', 'You must be logged in');
   });
 
-  test('respondToFlare updates flare', async () => {
+  test('respondToFlare records a response with a status', async () => {
     setAuthenticatedUser();
 
-    mockFrom.mockReturnValue(createChain({ data: null, error: null }));
+    const chain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(chain);
 
     const { result } = renderHook(() => useFlare());
 
     let success: boolean = false;
     await act(async () => {
-      success = await result.current.respondToFlare('flare-1');
+      success = await result.current.respondToFlare('flare-1', 'on_my_way');
     });
 
     expect(success).toBe(true);
-    expect(mockFrom).toHaveBeenCalledWith('flares');
+    expect(mockFrom).toHaveBeenCalledWith('flare_responses');
+    expect(chain.upsert).toHaveBeenCalledWith(
+      { flare_id: 'flare-1', responder_id: TEST_USER_ID, status: 'on_my_way' },
+      { onConflict: 'flare_id,responder_id' }
+    );
+  });
+
+  test('respondToFlare defaults to "I\'m here"', async () => {
+    setAuthenticatedUser();
+
+    const chain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(chain);
+
+    const { result } = renderHook(() => useFlare());
+    await act(async () => {
+      await result.current.respondToFlare('flare-1');
+    });
+
+    expect(chain.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'here' }),
+      expect.anything()
+    );
   });
 
   test('respondToFlare shows error on failure', async () => {
@@ -121,7 +144,7 @@ describe('useFlare', () => {
 
     mockFrom.mockReturnValue({
       ...createChain(),
-      update: jest.fn().mockReturnThis(),
+      upsert: jest.fn().mockReturnThis(),
       eq: jest.fn().mockReturnThis(),
       then: (resolve: any) => Promise.resolve({ data: null, error: { message: 'fail' } }).then(resolve),
     });
@@ -374,4 +397,74 @@ describe('useFlare', () => {
       expect(result.current.activeFlares.length).toBeLessThanOrEqual(1);
     });
   });
+
+  test('sendFlare captures favorite friends as the first tier', async () => {
+    const { Alert } = require('react-native');
+    setAuthenticatedUser();
+    useAppStore.setState({
+      friends: [mockFriendship()],
+      favoriteFriends: [TEST_FRIEND_ID, 'not-a-friend'],
+    });
+
+    Alert.alert.mockImplementation((_t: string, _m: string, buttons: any[]) => {
+      const sendBtn = buttons?.find((b: any) => b.text === 'Send Flare');
+      sendBtn?.onPress?.();
+    });
+
+    const insertChain = createChain({ data: [], error: null });
+    insertChain.single = jest.fn().mockResolvedValue({
+      data: { id: 'new-flare', user_id: TEST_USER_ID, expires_at: new Date(Date.now() + 300000).toISOString() },
+      error: null,
+    });
+    mockFrom.mockReturnValue(insertChain);
+
+    const { result } = renderHook(() => useFlare());
+    await waitFor(() => expect(mockFrom).toHaveBeenCalled());
+
+    await act(async () => {
+      await result.current.sendFlare();
+    });
+
+    expect(insertChain.insert).toHaveBeenCalledWith(expect.objectContaining({
+      favorite_ids: [TEST_FRIEND_ID],
+    }));
+    expect(Alert.alert).toHaveBeenCalledWith('Flare Sent! 🚨', expect.stringContaining('favorites'));
+  });
+
+  test('loads responses to the user\'s own active flare', async () => {
+    setAuthenticatedUser();
+    const myFlare = mockFlare({ id: 'my-flare', user_id: TEST_USER_ID });
+    const responses = [
+      { id: 'r1', flare_id: 'my-flare', responder_id: TEST_FRIEND_ID, status: 'on_my_way' },
+    ];
+
+    mockFrom.mockImplementation((table: string) => {
+      if (table === 'flare_responses') return createChain({ data: responses, error: null });
+      const chain = createChain({ data: [], error: null });
+      chain.maybeSingle = jest.fn().mockResolvedValue({ data: myFlare, error: null });
+      return chain;
+    });
+
+    const { result } = renderHook(() => useFlare());
+
+    await waitFor(() => {
+      expect(result.current.myFlareResponses).toEqual(responses);
+    });
+  });
+
+  test('setFlareResponseRoom attaches the room to the user\'s response', async () => {
+    setAuthenticatedUser();
+    const chain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(chain);
+
+    const { result } = renderHook(() => useFlare());
+    let success = false;
+    await act(async () => {
+      success = await result.current.setFlareResponseRoom('flare-1', 'room-1');
+    });
+
+    expect(success).toBe(true);
+    expect(chain.update).toHaveBeenCalledWith({ room_id: 'room-1' });
+    expect(chain.eq).toHaveBeenCalledWith('responder_id', TEST_USER_ID);
+  });
 });
@@ -2,14 +2,16 @@ import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { useFriends } from '../../hooks/useFriends';
 import { useAppStore } from '../../stores/appStore';
 import { resetStore, setAuthenticatedUser } from '../__utils__/mockStore';
-import { mockFriendship, TEST_USER_ID, TEST_FRIEND_ID } from '../__utils__/fixtures';
+import { mockFriendship, mockFriendUser, TEST_USER_ID, TEST_FRIEND_ID } from '../__utils__/fixtures';
 
 const mockFrom = jest.fn();
+const mockRpc = jest.fn();
 const mockChannel = { on: jest.fn().mockReturnThis(), subscribe: jest.fn().mockReturnThis() };
 
 jest.mock('../../lib/supabase', () => ({
   supabase: {
     from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args),
     channel: jest.fn().mockReturnValue(mockChannel),
     removeChannel: jest.fn(),
   },
@@ -48,11 +50,18 @@ describe('useFriends', () => {
     jest.clearAllMocks();
     resetStore();
     mockFrom.mockReturnValue(createChain());
+    mockRpc.mockImplementation((fn: string) =>
+      Promise.resolve(
+        fn === 'create_friendship'
+          ? { data: { success: true }, error: null }
+          : { data: [], error: null }
+      )
+    );
   });
 
   test('loads friends on mount when user is authenticated', async () => {
     const friends = [mockFriendship()];
-    mockFrom.mockReturnValue(createChain({ data: friends, error: null }));
+    mockRpc.mockResolvedValue({ data: friends, error: null });
     setAuthenticatedUser();
 
     const { result } = renderHook(() => useFriends());
@@ -61,9 +70,75 @@ describe('useFriends', () => {
       expect(result.current.initialLoading).toBe(false);
     });
 
+    expect(mockRpc).toHaveBeenCalledWith('get_visible_friends');
     expect(useAppStore.getState().friends).toEqual(friends);
   });
 
+  test('keeps the visibility-reduced friend profile from the server', async () => {
+    const reduced = mockFriendship({
+      friend: mockFriendUser({ visibility: 'minimal', mood: 'neutral', is_online: false, last_seen_at: undefined as any }),
+    });
+    mockRpc.mockResolvedValue({ data: [reduced], error: null });
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useFriends());
+
+    await waitFor(() => {
+      expect(result.current.initialLoading).toBe(false);
+    });
+
+    const friend = useAppStore.getState().friends[0].friend;
+    expect(friend?.visibility).toBe('minimal');
+    expect(friend?.is_online).toBe(false);
+  });
+
+  test('filters blocked friends out of the list', async () => {
+    mockRpc.mockResolvedValue({ data: [mockFriendship()], error: null });
+    mockFrom.mockReturnValue(createChain({ data: [{ blocked_id: TEST_FRIEND_ID }], error: null }));
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useFriends());
+
+    await waitFor(() => {
+      expect(result.current.initialLoading).toBe(false);
+    });
+
+    expect(useAppStore.getState().friends).toEqual([]);
+    expect(useAppStore.getState().blockedUserIds).toEqual([TEST_FRIEND_ID]);
+  });
+
+  test('only listens to the user\'s own friendship rows', async () => {
+    const { subscriptionManager } = require('../../lib/subscriptionManager');
+    const { supabase } = require('../../lib/supabase');
+    supabase.channel.mockReturnValue(mockChannel);
+    mockChannel.on.mockReturnThis();
+    setAuthenticatedUser();
+
+    renderHook(() => useFriends());
+    subscriptionManager.register.mock.calls[0][1]();
+
+    const filters = mockChannel.on.mock.calls.map(([, options]: any[]) => options.filter);
+    expect(filters).toContain(`user_id=eq.${TEST_USER_ID}`);
+    expect(filters).not.toContain(`friend_id=eq.${TEST_USER_ID}`);
+  });
+
+  test('refetches friends before their last_seen_at goes stale', async () => {
+    jest.useFakeTimers();
+    try {
+      setAuthenticatedUser();
+      renderHook(() => useFriends());
+      mockRpc.mockClear();
+
+      await act(async () => {
+        jest.advanceTimersByTime(60 * 1000);
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith('get_visible_friends');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
   test('clears friends when no user', async () => {
     useAppStore.setState({ friends: [mockFriendship()] });
 
@@ -396,7 +471,7 @@ describe('useFriends', () => {
     setAuthenticatedUser();
 
     // First load succeeds
-    mockFrom.mockReturnValue(createChain({ data: [mockFriendship()], error: null }));
+    mockRpc.mockResolvedValue({ data: [mockFriendship()], error: null });
 
     const { result } = renderHook(() => useFriends());
 
@@ -405,7 +480,7 @@ describe('useFriends', () => {
     });
 
     // Now trigger error on refresh
-    mockFrom.mockReturnValue(createChain({ data: null, error: { message: 'fail' } }));
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'fail' } });
 
     await act(async () => {
       await result.current.refreshFriends();
@@ -113,6 +113,43 @@ describe('useInviteLink', () => {
     expect(info.reason).toContain('maximum uses');
   });
 
+  test('createInviteLink admits listeners by default', async () => {
+    const chain = createChain({ data: { id: 'link1' }, error: null });
+    mockFrom.mockReturnValue(chain);
+    const { result } = renderHook(() => useInviteLink());
+    await act(async () => { await result.current.createInviteLink('room1'); });
+    expect(chain.insert).toHaveBeenCalledWith(expect.objectContaining({ join_role: 'listener' }));
+  });
+
+  test('joinRoomByToken joins through the RPC with the link role', async () => {
+    mockFrom.mockImplementation((table: string) => {
+      if (table === 'room_invite_links') {
+        return createChain({
+          data: {
+            token: 'tok1',
+            expires_at: null,
+            max_uses: null,
+            use_count: 0,
+            join_role: 'listener',
+            room: { id: 'r1', name: 'Lounge', is_active: true },
+            creator: { id: 'u2', display_name: 'Bob' },
+          },
+          error: null,
+        });
+      }
+      return { ...createChain({ data: null, error: null, count: 2 }) };
+    });
+    mockRpc.mockResolvedValue({ data: 'r1', error: null });
+
+    const { result } = renderHook(() => useInviteLink());
+    let room: any;
+    await act(async () => { room = await result.current.joinRoomByToken('tok1'); });
+
+    expect(room).toEqual({ id: 'r1', name: 'Lounge', is_active: true });
+    expect(mockRpc).toHaveBeenCalledWith('join_room_by_invite_link', { p_token: 'tok1' });
+    expect(Alert.alert).toHaveBeenCalledWith('Joined!', expect.stringContaining('as a listener'));
+  });
+
   test('getLinksForRoom returns links', async () => {
     const mockLinks = [{ id: 'l1' }, { id: 'l2' }];
     mockFrom.mockReturnValue(createChain({ data: mockLinks, error: null }));
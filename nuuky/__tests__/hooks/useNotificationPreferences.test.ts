@@ -0,0 +1,124 @@
+import { renderHook, act } from '@testing-library/react-native';
+import { Alert } from 'react-native';
+import { useNotificationPreferences } from '../../hooks/useNotificationPreferences';
+import { resetStore, setAuthenticatedUser } from '../__utils__/mockStore';
+
+const mockFrom = jest.fn();
+const mockRpc = jest.fn();
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args),
+  },
+}));
+
+jest.mock('react-native', () => ({
+  Alert: { alert: jest.fn() },
+}));
+
+jest.mock('../../lib/logger', () => ({
+  logger: { error: jest.fn() },
+}));
+
+const createChain = (resolved: any = { data: null, error: null }) => {
+  const self: any = {};
+  self.select = jest.fn().mockReturnValue(self);
+  self.eq = jest.fn().mockReturnValue(self);
+  self.then = (resolve: any) => Promise.resolve(resolved).then(resolve);
+  return self;
+};
+
+const mockRows = [
+  {
+    id: 'np1',
+    user_id: 'test-user-id',
+    notification_type: 'flare',
+    friend_id: 'friend1',
+    push: false,
+    banner: false,
+    silent: false,
+    updated_at: '2024-01-01',
+  },
+];
+
+const flush = () => act(async () => {
+  await new Promise((r) => setTimeout(r, 0));
+});
+
+describe('useNotificationPreferences', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetStore();
+    mockFrom.mockReturnValue(createChain({ data: mockRows, error: null }));
+    mockRpc.mockResolvedValue({ data: null, error: null });
+  });
+
+  test('does not load without user', () => {
+    const { result } = renderHook(() => useNotificationPreferences(null));
+    expect(mockFrom).not.toHaveBeenCalled();
+    expect(result.current.loading).toBe(false);
+  });
+
+  test('loads rows and groups friend overrides', async () => {
+    setAuthenticatedUser();
+    const { result } = renderHook(() => useNotificationPreferences(null));
+    await flush();
+
+    expect(mockFrom).toHaveBeenCalledWith('notification_preferences');
+    expect(result.current.friendOverrides.get('friend1')).toEqual(mockRows);
+    expect(result.current.channelsFor('flare', 'friend1').push).toBe(false);
+    expect(result.current.channelsFor('flare').push).toBe(true);
+  });
+
+  test('setChannel keeps the other channels', async () => {
+    setAuthenticatedUser();
+    const { result } = renderHook(() => useNotificationPreferences(null));
+    await flush();
+
+    await act(async () => {
+      await result.current.setChannel('nudge', 'push', false);
+    });
+
+    expect(mockRpc).toHaveBeenCalledWith('set_notification_preference', {
+      p_type: 'nudge',
+      p_friend_id: null,
+      p_push: false,
+      p_banner: true,
+      p_silent: true,
+    });
+    expect(result.current.channelsFor('nudge')).toEqual({ push: false, banner: true, silent: true });
+  });
+
+  test('setFriendOverride to default clears the row', async () => {
+    setAuthenticatedUser();
+    const { result } = renderHook(() => useNotificationPreferences(null));
+    await flush();
+
+    await act(async () => {
+      await result.current.setFriendOverride('friend1', 'flare', 'default');
+    });
+
+    expect(mockRpc).toHaveBeenCalledWith('clear_notification_preference', {
+      p_type: 'flare',
+      p_friend_id: 'friend1',
+    });
+    expect(result.current.friendOverrides.has('friend1')).toBe(false);
+  });
+
+  test('reverts and alerts when saving fails', async () => {
+    setAuthenticatedUser();
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'fail' } });
+    const { result } = renderHook(() => useNotificationPreferences(null));
+    await flush();
+
+    let success = true;
+    await act(async () => {
+      success = await result.current.setFriendOverride('friend2', 'nudge', 'muted');
+    });
+
+    expect(success).toBe(false);
+    expect(result.current.friendOverrides.has('friend2')).toBe(false);
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to update notification settings. Please try again.');
+  });
+});
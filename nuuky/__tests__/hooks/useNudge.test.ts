@@ -158,9 +158,8 @@ describe('useNudge', () => {
     expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to send nudge');
   });
 
-  test('sendNudge handles notification error gracefully', async () => {
+  test('sendNudge leaves the push to the notification outbox', async () => {
     setAuthenticatedUser();
-    mockFunctionsInvoke.mockRejectedValue(new Error('notif fail'));
 
     const { result } = renderHook(() => useNudge());
     let success = false;
@@ -168,7 +167,7 @@ describe('useNudge', () => {
       success = await result.current.sendNudge('friend-1', 'Friend');
     });
 
-    // Should still succeed even if notification fails
     expect(success).toBe(true);
+    expect(mockFunctionsInvoke).not.toHaveBeenCalled();
   });
 });
@@ -206,4 +206,82 @@ describe('usePreferences', () => {
     await act(async () => { await result.current.refreshPreferences(); });
     expect(mockFrom).toHaveBeenCalledWith('user_preferences');
   });
+
+  test('flare escalation timing defaults when not set', async () => {
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: mockPrefs, error: null }));
+    const { result } = renderHook(() => usePreferences());
+    await act(async () => { await new Promise((r) => setTimeout(r, 0)); });
+
+    expect(result.current.flareWidenAfterMinutes).toBe(2);
+    expect(result.current.flareAnchorsAfterMinutes).toBe(5);
+  });
+
+  test('setFlareWidenAfter updates the widen delay', async () => {
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: mockPrefs, error: null }));
+    const { result } = renderHook(() => usePreferences());
+    await act(async () => { await new Promise((r) => setTimeout(r, 0)); });
+
+    const updateChain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(updateChain);
+    let success = false;
+    await act(async () => { success = await result.current.setFlareWidenAfter(1); });
+
+    expect(success).toBe(true);
+    expect(updateChain.update).toHaveBeenCalledWith(expect.objectContaining({ flare_widen_after_minutes: 1 }));
+    expect(result.current.flareWidenAfterMinutes).toBe(1);
+  });
+
+  test('setFlareAnchorsAfter rejects a delay before the widen tier', async () => {
+    const { Alert } = require('react-native');
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: { ...mockPrefs, flare_widen_after_minutes: 5 }, error: null }));
+    const { result } = renderHook(() => usePreferences());
+    await act(async () => { await new Promise((r) => setTimeout(r, 0)); });
+
+    mockFrom.mockClear();
+    let success = true;
+    await act(async () => { success = await result.current.setFlareAnchorsAfter(3); });
+
+    expect(success).toBe(false);
+    expect(mockFrom).not.toHaveBeenCalled();
+    expect(Alert.alert).toHaveBeenCalledWith('Flare Escalation', expect.any(String));
+  });
+
+  test('setAnchorCheckInAfter updates the check-in threshold', async () => {
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: mockPrefs, error: null }));
+    const { result } = renderHook(() => usePreferences());
+    await act(async () => { await new Promise((r) => setTimeout(r, 0)); });
+
+    expect(result.current.anchorCheckInAfterHours).toBe(48);
+
+    const updateChain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(updateChain);
+    let success = false;
+    await act(async () => { success = await result.current.setAnchorCheckInAfter(24); });
+
+    expect(success).toBe(true);
+    expect(updateChain.update).toHaveBeenCalledWith(expect.objectContaining({ anchor_checkin_after_hours: 24 }));
+    expect(result.current.anchorCheckInAfterHours).toBe(24);
+  });
+
+  test('setDigestMode updates the digest', async () => {
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: mockPrefs, error: null }));
+    const { result } = renderHook(() => usePreferences());
+    await act(async () => { await new Promise((r) => setTimeout(r, 0)); });
+
+    expect(result.current.digestMode).toBe('off');
+
+    const updateChain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(updateChain);
+    let success = false;
+    await act(async () => { success = await result.current.setDigestMode('evening'); });
+
+    expect(success).toBe(true);
+    expect(updateChain.update).toHaveBeenCalledWith(expect.objectContaining({ digest_mode: 'evening' }));
+    expect(result.current.digestMode).toBe('evening');
+  });
 });
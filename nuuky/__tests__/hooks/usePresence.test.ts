@@ -81,6 +81,29 @@ describe('usePresence', () => {
     expect(mockFrom).toHaveBeenCalledWith('users');
   });
 
+  test('forces offline when a recurring schedule is active', () => {
+    const chain = createChain();
+    mockFrom.mockReturnValue(chain);
+    setAuthenticatedUser();
+    useAppStore.setState({
+      availabilitySchedules: [{
+        id: 's1',
+        user_id: 'user-1',
+        kind: 'ghost',
+        days: [0, 1, 2, 3, 4, 5, 6],
+        start_time: '00:00',
+        end_time: '00:00',
+        timezone: 'UTC',
+        is_enabled: true,
+        created_at: new Date().toISOString(),
+      }],
+    });
+
+    renderHook(() => usePresence());
+
+    expect(chain.update).toHaveBeenCalledWith(expect.objectContaining({ is_online: false }));
+  });
+
   test('updateActivity updates last activity ref', () => {
     setAuthenticatedUser();
     const { result } = renderHook(() => usePresence());
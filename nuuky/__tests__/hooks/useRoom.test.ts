@@ -70,6 +70,21 @@ describe('useRoom', () => {
     });
   });
 
+  test('falls back to the basic profile for friends who share less', async () => {
+    const profile = { id: TEST_FRIEND_ID, display_name: 'Friend', avatar_url: null };
+    mockFrom.mockReturnValue(createChain({
+      data: [mockRoom({ participants: [{ ...mockRoomParticipant({ user_id: TEST_FRIEND_ID }), user: null, profile } as any] })],
+      error: null,
+    }));
+    setAuthenticatedUser();
+
+    renderHook(() => useRoom());
+
+    await waitFor(() => {
+      expect(useAppStore.getState().activeRooms[0]?.participants?.[0].user).toEqual(profile);
+    });
+  });
+
   test('createRoom checks 5-room limit', async () => {
     const { Alert } = require('react-native');
     setAuthenticatedUser();
@@ -496,6 +511,128 @@ describe('useRoom', () => {
     });
 
     expect(success).toBe(true);
+    const { supabase } = require('../../lib/supabase');
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('moderate-room', {
+      body: { room_id: TEST_ROOM_ID, user_id: TEST_FRIEND_ID, action: 'kick' },
+    });
+  });
+
+  test('removeParticipant alerts when moderation is refused', async () => {
+    const { Alert } = require('react-native');
+    const { supabase } = require('../../lib/supabase');
+    setAuthenticatedUser();
+    supabase.functions.invoke.mockResolvedValueOnce({ data: null, error: { message: 'Forbidden' } });
+
+    const { result } = renderHook(() => useRoom());
+
+    let success: boolean = true;
+    await act(async () => {
+      success = await result.current.removeParticipant(TEST_ROOM_ID, TEST_FRIEND_ID);
+    });
+
+    expect(success).toBe(false);
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to remove participant');
+  });
+
+  test('muteParticipant mutes for everyone and updates local state', async () => {
+    const { supabase } = require('../../lib/supabase');
+    setAuthenticatedUser();
+    useAppStore.setState({
+      roomParticipants: [
+        { id: 'p2', user_id: TEST_FRIEND_ID, room_id: TEST_ROOM_ID, is_muted: false } as any,
+      ],
+    });
+
+    const { result } = renderHook(() => useRoom());
+
+    let success: boolean = false;
+    await act(async () => {
+      success = await result.current.muteParticipant(TEST_ROOM_ID, TEST_FRIEND_ID);
+    });
+
+    expect(success).toBe(true);
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('moderate-room', {
+      body: { room_id: TEST_ROOM_ID, user_id: TEST_FRIEND_ID, action: 'mute' },
+    });
+    expect(useAppStore.getState().roomParticipants[0]).toMatchObject({ is_muted: true, muted_by: TEST_USER_ID });
+  });
+
+  test('setParticipantRole sends the new role', async () => {
+    const { supabase } = require('../../lib/supabase');
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useRoom());
+
+    let success: boolean = false;
+    await act(async () => {
+      success = await result.current.setParticipantRole(TEST_ROOM_ID, TEST_FRIEND_ID, 'moderator');
+    });
+
+    expect(success).toBe(true);
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('moderate-room', {
+      body: { room_id: TEST_ROOM_ID, user_id: TEST_FRIEND_ID, action: 'set_role', role: 'moderator' },
+    });
+  });
+
+  test('requestToSpeak marks the listener\'s own row', async () => {
+    setAuthenticatedUser();
+    useAppStore.setState({
+      roomParticipants: [
+        { id: 'p1', user_id: TEST_USER_ID, room_id: TEST_ROOM_ID, role: 'listener' } as any,
+      ],
+    });
+    const chain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(chain);
+
+    const { result } = renderHook(() => useRoom());
+
+    let success: boolean = false;
+    await act(async () => {
+      success = await result.current.requestToSpeak(TEST_ROOM_ID);
+    });
+
+    expect(success).toBe(true);
+    expect(chain.update).toHaveBeenCalledWith({ speak_requested_at: expect.any(String) });
+    expect(chain.eq).toHaveBeenCalledWith('user_id', TEST_USER_ID);
+    expect(useAppStore.getState().roomParticipants[0].speak_requested_at).toEqual(expect.any(String));
+  });
+
+  test('allowToSpeak and dismissSpeakRequest go through moderation', async () => {
+    const { supabase } = require('../../lib/supabase');
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useRoom());
+
+    await act(async () => {
+      await result.current.allowToSpeak(TEST_ROOM_ID, TEST_FRIEND_ID);
+      await result.current.dismissSpeakRequest(TEST_ROOM_ID, TEST_FRIEND_ID);
+    });
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('moderate-room', {
+      body: { room_id: TEST_ROOM_ID, user_id: TEST_FRIEND_ID, action: 'allow_speak' },
+    });
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('moderate-room', {
+      body: { room_id: TEST_ROOM_ID, user_id: TEST_FRIEND_ID, action: 'dismiss_speak' },
+    });
+  });
+
+  test('setListenersCanReact updates the room setting', async () => {
+    setAuthenticatedUser();
+    useAppStore.setState({ currentRoom: mockRoom() });
+    const chain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(chain);
+
+    const { result } = renderHook(() => useRoom());
+
+    let success: boolean = false;
+    await act(async () => {
+      success = await result.current.setListenersCanReact(TEST_ROOM_ID, false);
+    });
+
+    expect(success).toBe(true);
+    expect(mockFrom).toHaveBeenCalledWith('rooms');
+    expect(chain.update).toHaveBeenCalledWith({ listeners_can_react: false });
+    expect(useAppStore.getState().currentRoom?.listeners_can_react).toBe(false);
   });
 
   test('transferOwnership succeeds', async () => {
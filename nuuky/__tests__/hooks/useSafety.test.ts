@@ -26,6 +26,7 @@ const createChain = (resolved: any = { data: null, error: null }) => {
   self.update = jest.fn().mockReturnValue(self);
   self.delete = jest.fn().mockReturnValue(self);
   self.eq = jest.fn().mockReturnValue(self);
+  self.order = jest.fn().mockReturnValue(self);
   self.single = jest.fn().mockResolvedValue(resolved);
   self.maybeSingle = jest.fn().mockResolvedValue(resolved);
   self.then = (resolve: any) => Promise.resolve(resolved).then(resolve);
@@ -365,4 +366,142 @@ describe('useSafety', () => {
     await act(async () => { success = await result.current.endBreak(); });
     expect(success).toBe(false);
   });
+
+  test('blockUser requires login', async () => {
+    const { Alert } = require('react-native');
+    const { result } = renderHook(() => useSafety());
+    let success = true;
+    await act(async () => { success = await result.current.blockUser('u2'); });
+    expect(success).toBe(false);
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'You must be logged in');
+  });
+
+  test('blockUser hides the user from friends', async () => {
+    setAuthenticatedUser();
+    useAppStore.setState({
+      friends: [
+        { id: 'f1', user_id: 'test-user-id', friend_id: 'u2' },
+        { id: 'f2', user_id: 'test-user-id', friend_id: 'u3' },
+      ] as any,
+    });
+    // Insert ignores data; the blocked-list reload returns the new row
+    const chain = createChain({ data: [{ id: 'b1', blocked_id: 'u2' }], error: null });
+    mockFrom.mockReturnValue(chain);
+
+    const { result } = renderHook(() => useSafety());
+    let success = false;
+    await act(async () => { success = await result.current.blockUser('u2'); });
+
+    expect(success).toBe(true);
+    expect(chain.insert).toHaveBeenCalledWith(expect.objectContaining({ blocked_id: 'u2', block_type: 'hard' }));
+    expect(useAppStore.getState().blockedUserIds).toContain('u2');
+    expect(useAppStore.getState().friends.map((f) => f.friend_id)).toEqual(['u3']);
+  });
+
+  test('blockUser treats duplicate block as success', async () => {
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: null, error: { code: '23505' } }));
+
+    const { result } = renderHook(() => useSafety());
+    let success = false;
+    await act(async () => { success = await result.current.blockUser('u2'); });
+    expect(success).toBe(true);
+  });
+
+  test('blockUser handles error', async () => {
+    const { Alert } = require('react-native');
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: null, error: { message: 'fail' } }));
+
+    const { result } = renderHook(() => useSafety());
+    let success = true;
+    await act(async () => { success = await result.current.blockUser('u2'); });
+    expect(success).toBe(false);
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to block user');
+  });
+
+  test('unblockUser succeeds', async () => {
+    setAuthenticatedUser();
+    const chain = createChain({ data: null, error: null });
+    mockFrom.mockReturnValue(chain);
+
+    const { result } = renderHook(() => useSafety());
+    let success = false;
+    await act(async () => { success = await result.current.unblockUser('u2'); });
+    expect(success).toBe(true);
+    expect(chain.delete).toHaveBeenCalled();
+    expect(chain.eq).toHaveBeenCalledWith('blocked_id', 'u2');
+  });
+
+  test('unblockUser handles error', async () => {
+    const { Alert } = require('react-native');
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: null, error: { message: 'fail' } }));
+
+    const { result } = renderHook(() => useSafety());
+    let success = true;
+    await act(async () => { success = await result.current.unblockUser('u2'); });
+    expect(success).toBe(false);
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to unblock user');
+  });
+
+  test('addSchedule stores the new schedule with the device timezone', async () => {
+    setAuthenticatedUser();
+    const { result } = renderHook(() => useSafety());
+    await act(async () => {});
+
+    const row = {
+      id: 's1', user_id: 'user-1', kind: 'ghost', days: [1, 2, 3, 4, 5],
+      start_time: '23:00:00', end_time: '07:00:00', timezone: 'UTC',
+      is_enabled: true, created_at: new Date().toISOString(),
+    };
+    const chain = createChain({ data: row, error: null });
+    mockFrom.mockReturnValue(chain);
+
+    let success = false;
+    await act(async () => {
+      success = await result.current.addSchedule('ghost', [1, 2, 3, 4, 5], '23:00', '07:00');
+    });
+
+    expect(success).toBe(true);
+    expect(chain.insert).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'ghost',
+      start_time: '23:00',
+      end_time: '07:00',
+      timezone: expect.any(String),
+    }));
+    expect(useAppStore.getState().availabilitySchedules).toEqual([row]);
+  });
+
+  test('toggleSchedule and removeSchedule update the store', async () => {
+    setAuthenticatedUser();
+    const { result } = renderHook(() => useSafety());
+    await act(async () => {});
+
+    useAppStore.setState({
+      availabilitySchedules: [{
+        id: 's1', user_id: 'user-1', kind: 'break', days: [0],
+        start_time: '00:00', end_time: '00:00', timezone: 'UTC',
+        is_enabled: true, created_at: new Date().toISOString(),
+      }],
+    });
+
+    await act(async () => { await result.current.toggleSchedule('s1', false); });
+    expect(useAppStore.getState().availabilitySchedules[0].is_enabled).toBe(false);
+
+    await act(async () => { await result.current.removeSchedule('s1'); });
+    expect(useAppStore.getState().availabilitySchedules).toEqual([]);
+  });
+
+  test('addSchedule handles error', async () => {
+    const { Alert } = require('react-native');
+    setAuthenticatedUser();
+    mockFrom.mockReturnValue(createChain({ data: null, error: { message: 'fail' } }));
+
+    const { result } = renderHook(() => useSafety());
+    let success = true;
+    await act(async () => { success = await result.current.addSchedule('break', [0], '00:00', '00:00'); });
+    expect(success).toBe(false);
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to add schedule');
+  });
 });
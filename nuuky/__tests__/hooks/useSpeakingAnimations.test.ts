@@ -52,4 +52,30 @@ describe('useSpeakingAnimations', () => {
     expect(mockStop).toHaveBeenCalled();
     jest.restoreAllMocks();
   });
+
+  test('follows the live level instead of pulsing', () => {
+    const loopSpy = jest.spyOn(Animated, 'loop');
+    const timingSpy = jest.spyOn(Animated, 'timing');
+    renderHook(() =>
+      useSpeakingAnimations({ isCurrentUserSpeaking: true, isMuted: false, audioLevel: 1 }),
+    );
+    // Rings still loop; the button scales to the level
+    expect(loopSpy).toHaveBeenCalledTimes(4);
+    expect(timingSpy).toHaveBeenCalledWith(expect.any(Animated.Value), expect.objectContaining({ toValue: 1.15 }));
+    jest.restoreAllMocks();
+  });
+
+  test('settles back when the level drops', () => {
+    const timingSpy = jest.spyOn(Animated, 'timing');
+    const { rerender } = renderHook(
+      ({ level }: { level: number }) =>
+        useSpeakingAnimations({ isCurrentUserSpeaking: true, isMuted: false, audioLevel: level }),
+      { initialProps: { level: 0.8 } },
+    );
+    timingSpy.mockClear();
+    rerender({ level: 0 });
+    expect(timingSpy).toHaveBeenCalledWith(expect.any(Animated.Value), expect.objectContaining({ toValue: 1 }));
+    jest.restoreAllMocks();
+  });
 });
+
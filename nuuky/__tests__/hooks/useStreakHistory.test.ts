@@ -0,0 +1,79 @@
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useStreakHistory } from '../../hooks/useStreakHistory';
+import { resetStore, setAuthenticatedUser } from '../__utils__/mockStore';
+import { TEST_USER_ID, TEST_FRIEND_ID } from '../__utils__/fixtures';
+
+const mockFrom = jest.fn();
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: (...args: any[]) => mockFrom(...args),
+  },
+}));
+
+const createChain = (resolved: any = { data: [], error: null }) => {
+  const chain: any = {
+    select: jest.fn().mockReturnThis(),
+    eq: jest.fn().mockReturnThis(),
+    order: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockResolvedValue(resolved),
+  };
+  return chain;
+};
+
+describe('useStreakHistory', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetStore();
+  });
+
+  test('loads events for the canonical friend pair, newest first', async () => {
+    const events = [
+      { id: 'e2', event_type: 'milestone', consecutive_days: 7, created_at: '2026-10-10T10:00:00Z' },
+      { id: 'e1', event_type: 'increment', consecutive_days: 7, created_at: '2026-10-10T09:00:00Z' },
+    ];
+    const chain = createChain({ data: events, error: null });
+    mockFrom.mockReturnValue(chain);
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useStreakHistory(TEST_FRIEND_ID));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(mockFrom).toHaveBeenCalledWith('streak_events');
+    const [u1, u2] = [TEST_USER_ID, TEST_FRIEND_ID].sort();
+    expect(chain.eq).toHaveBeenCalledWith('user1_id', u1);
+    expect(chain.eq).toHaveBeenCalledWith('user2_id', u2);
+    expect(chain.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(result.current.events).toEqual(events);
+  });
+
+  test('does not query without a user', async () => {
+    const { result } = renderHook(() => useStreakHistory(TEST_FRIEND_ID));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(mockFrom).not.toHaveBeenCalled();
+    expect(result.current.events).toEqual([]);
+  });
+
+  test('keeps an empty timeline when the query fails', async () => {
+    mockFrom.mockReturnValue(createChain({ data: null, error: { message: 'boom' } }));
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useStreakHistory(TEST_FRIEND_ID));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.events).toEqual([]);
+  });
+
+  test('refreshHistory reloads events', async () => {
+    mockFrom.mockReturnValue(createChain());
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useStreakHistory(TEST_FRIEND_ID));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    mockFrom.mockClear();
+
+    await act(async () => { await result.current.refreshHistory(); });
+    expect(mockFrom).toHaveBeenCalledWith('streak_events');
+  });
+});
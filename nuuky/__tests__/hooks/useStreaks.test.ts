@@ -5,12 +5,16 @@ import { resetStore, setAuthenticatedUser } from '../__utils__/mockStore';
 import { TEST_USER_ID, TEST_FRIEND_ID } from '../__utils__/fixtures';
 
 const mockFrom = jest.fn();
+const mockRpc = jest.fn();
+const mockInvoke = jest.fn();
 
 jest.mock('../../lib/supabase', () => ({
   supabase: {
     from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args),
     channel: jest.fn().mockReturnValue({ on: jest.fn().mockReturnThis(), subscribe: jest.fn().mockReturnThis() }),
     removeChannel: jest.fn(),
+    functions: { invoke: (...args: any[]) => mockInvoke(...args) },
   },
 }));
 
@@ -32,7 +36,9 @@ describe('useStreaks', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     resetStore();
-    mockFrom.mockReturnValue(createChain({ data: [], error: null }));
+    mockFrom.mockReturnValue(createChain({ data: null, error: null }));
+    mockRpc.mockResolvedValue({ data: [], error: null });
+    mockInvoke.mockResolvedValue({ data: null, error: null });
   });
 
   test('loads streaks on mount', async () => {
@@ -45,8 +51,10 @@ describe('useStreaks', () => {
       user2_last_interaction: new Date().toISOString(),
       last_streak_at: new Date().toISOString(),
       created_at: new Date().toISOString(),
+      friend_id: TEST_FRIEND_ID,
+      state: 'active',
     }];
-    mockFrom.mockReturnValue(createChain({ data: streakData, error: null }));
+    mockRpc.mockResolvedValue({ data: streakData, error: null });
     setAuthenticatedUser();
 
     const { result } = renderHook(() => useStreaks());
@@ -56,36 +64,51 @@ describe('useStreaks', () => {
     });
   });
 
-  test('recordInteraction creates new streak if none exists', async () => {
+  test('recordInteraction records through the streak RPC', async () => {
     setAuthenticatedUser();
 
-    let callIdx = 0;
-    mockFrom.mockImplementation(() => {
-      callIdx++;
-      if (callIdx === 1) {
-        // Load streaks
-        return createChain({ data: [], error: null });
-      }
-      if (callIdx === 2) {
-        // Check existing streak
-        return {
-          ...createChain({ data: null, error: null }),
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-          maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
-        };
-      }
-      // Insert new streak + reload
-      return createChain({ data: [], error: null });
-    });
-
     const { result } = renderHook(() => useStreaks());
 
     await act(async () => {
       await result.current.recordInteraction(TEST_FRIEND_ID);
     });
 
-    expect(mockFrom).toHaveBeenCalledWith('streaks');
+    expect(mockRpc).toHaveBeenCalledWith('record_streak_interaction', {
+      p_friend_id: TEST_FRIEND_ID,
+      p_timezone: expect.any(String),
+    });
+    // No client-side read-then-write on the streaks table
+    expect(mockFrom).not.toHaveBeenCalledWith('streaks');
+  });
+
+  test('recordInteraction notifies a reached milestone', async () => {
+    setAuthenticatedUser();
+    mockRpc.mockImplementation((fn: string) =>
+      Promise.resolve(fn === 'record_streak_interaction'
+        ? { data: { success: true, streak_id: 's1', consecutive_days: 7, milestone: 7 }, error: null }
+        : { data: [], error: null })
+    );
+
+    const { result } = renderHook(() => useStreaks());
+    await act(async () => { await result.current.recordInteraction(TEST_FRIEND_ID); });
+
+    expect(mockInvoke).toHaveBeenCalledWith('send-streak-milestone-notification', {
+      body: { streak_id: 's1' },
+    });
+  });
+
+  test('recordInteraction skips the milestone push on ordinary days', async () => {
+    setAuthenticatedUser();
+    mockRpc.mockImplementation((fn: string) =>
+      Promise.resolve(fn === 'record_streak_interaction'
+        ? { data: { success: true, streak_id: 's1', consecutive_days: 3, milestone: null }, error: null }
+        : { data: [], error: null })
+    );
+
+    const { result } = renderHook(() => useStreaks());
+    await act(async () => { await result.current.recordInteraction(TEST_FRIEND_ID); });
+
+    expect(mockInvoke).not.toHaveBeenCalled();
   });
 
   test('returns refreshStreaks function', () => {
@@ -95,59 +118,33 @@ describe('useStreaks', () => {
     expect(typeof result.current.refreshStreaks).toBe('function');
   });
 
-  test('recordInteraction updates existing streak', async () => {
+  test('recordInteraction reloads streaks after recording', async () => {
     setAuthenticatedUser();
-    const now = new Date();
-    const recentTime = new Date(now.getTime() - 3600000).toISOString(); // 1hr ago
-
-    let callIdx = 0;
-    mockFrom.mockImplementation(() => {
-      callIdx++;
-      if (callIdx === 1) return createChain({ data: [], error: null }); // loadStreaks on mount
-      if (callIdx === 2) {
-        // Check existing streak - return existing
-        return {
-          ...createChain(),
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-          maybeSingle: jest.fn().mockResolvedValue({
-            data: {
-              id: 's1',
-              user1_id: TEST_USER_ID,
-              user2_id: TEST_FRIEND_ID,
-              consecutive_days: 3,
-              user1_last_interaction: recentTime,
-              user2_last_interaction: recentTime,
-              last_streak_at: null,
-            },
-            error: null,
-          }),
-        };
-      }
-      return createChain({ data: [], error: null }); // update + loadStreaks
-    });
 
     const { result } = renderHook(() => useStreaks());
+    await act(async () => {});
+    mockRpc.mockClear();
+
     await act(async () => { await result.current.recordInteraction(TEST_FRIEND_ID); });
-    expect(mockFrom).toHaveBeenCalledWith('streaks');
+    expect(mockRpc).toHaveBeenCalledWith('record_streak_interaction', expect.anything());
+    expect(mockRpc).toHaveBeenCalledWith('get_streaks');
   });
 
   test('recordInteraction does nothing without user', async () => {
     const { result } = renderHook(() => useStreaks());
     await act(async () => { await result.current.recordInteraction(TEST_FRIEND_ID); });
-    // Should not throw
+    expect(mockRpc).not.toHaveBeenCalled();
   });
 
   test('refreshStreaks reloads data', async () => {
     setAuthenticatedUser();
-    mockFrom.mockReturnValue(createChain({ data: [], error: null }));
 
     const { result } = renderHook(() => useStreaks());
     await act(async () => { result.current.refreshStreaks(); });
-    expect(mockFrom).toHaveBeenCalledWith('streaks');
+    expect(mockRpc).toHaveBeenCalledWith('get_streaks');
   });
 
-  test('loads streaks with derived state', async () => {
+  test('loads streaks with server-computed state', async () => {
     const recentTime = new Date().toISOString();
     const streakData = [{
       id: 's1',
@@ -157,8 +154,10 @@ describe('useStreaks', () => {
       user1_last_interaction: recentTime,
       user2_last_interaction: recentTime,
       last_streak_at: recentTime,
+      friend_id: TEST_FRIEND_ID,
+      state: 'active',
     }];
-    mockFrom.mockReturnValue(createChain({ data: streakData, error: null }));
+    mockRpc.mockResolvedValue({ data: streakData, error: null });
     setAuthenticatedUser();
 
     const { result } = renderHook(() => useStreaks());
@@ -169,7 +168,7 @@ describe('useStreaks', () => {
     });
   });
 
-  test('streak state is broken when no interactions', async () => {
+  test('keeps broken state from the server', async () => {
     const streakData = [{
       id: 's1',
       user1_id: TEST_USER_ID,
@@ -178,8 +177,10 @@ describe('useStreaks', () => {
       user1_last_interaction: null,
       user2_last_interaction: null,
       last_streak_at: null,
+      friend_id: TEST_FRIEND_ID,
+      state: 'broken',
     }];
-    mockFrom.mockReturnValue(createChain({ data: streakData, error: null }));
+    mockRpc.mockResolvedValue({ data: streakData, error: null });
     setAuthenticatedUser();
 
     const { result } = renderHook(() => useStreaks());
@@ -187,4 +188,50 @@ describe('useStreaks', () => {
       expect(result.current.streaks[0]?.state).toBe('broken');
     });
   });
+
+  test('loads the freeze token balance', async () => {
+    mockFrom.mockReturnValue(createChain({ data: { balance: 2 }, error: null }));
+    setAuthenticatedUser();
+
+    const { result } = renderHook(() => useStreaks());
+    await waitFor(() => {
+      expect(result.current.freezeTokens).toBe(2);
+    });
+    expect(mockFrom).toHaveBeenCalledWith('streak_freezes');
+  });
+
+  test('spendStreakFreeze spends a token and reloads', async () => {
+    setAuthenticatedUser();
+    mockRpc.mockImplementation((fn: string) =>
+      Promise.resolve(fn === 'use_streak_freeze'
+        ? { data: { success: true, consecutive_days: 5 }, error: null }
+        : { data: [], error: null })
+    );
+
+    const { result } = renderHook(() => useStreaks());
+    let success = false;
+    await act(async () => { success = await result.current.spendStreakFreeze('s1'); });
+
+    expect(success).toBe(true);
+    expect(mockRpc).toHaveBeenCalledWith('use_streak_freeze', { p_streak_id: 's1' });
+  });
+
+  test('spendStreakFreeze surfaces the server refusal', async () => {
+    const { Alert } = require('react-native');
+    const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    setAuthenticatedUser();
+    mockRpc.mockImplementation((fn: string) =>
+      Promise.resolve(fn === 'use_streak_freeze'
+        ? { data: { success: false, error: 'No streak freezes left' }, error: null }
+        : { data: [], error: null })
+    );
+
+    const { result } = renderHook(() => useStreaks());
+    let success = true;
+    await act(async () => { success = await result.current.spendStreakFreeze('s1'); });
+
+    expect(success).toBe(false);
+    expect(alertSpy).toHaveBeenCalledWith('Streak Freeze', 'No streak freezes left');
+    alertSpy.mockRestore();
+  });
 });
@@ -0,0 +1,67 @@
+import { describeAnchorCheckIn, formatCheckInHours, getOpenCheckIn } from '../../lib/anchorCheckIns';
+import { AnchorCheckIn, User } from '../../types';
+
+const checkIn = (overrides: Partial<AnchorCheckIn> = {}): AnchorCheckIn => ({
+  id: 'checkin-1',
+  user_id: 'user-1',
+  status: 'pending',
+  last_seen_at: '2026-10-24T12:00:00Z',
+  threshold_hours: 48,
+  asked_at: '2026-10-26T12:00:00Z',
+  ...overrides,
+});
+
+const anchor = (id: string, display_name: string) => ({ id, display_name } as User);
+
+describe('formatCheckInHours', () => {
+  test('uses days for whole days', () => {
+    expect(formatCheckInHours(24)).toBe('1 day');
+    expect(formatCheckInHours(72)).toBe('3 days');
+  });
+
+  test('falls back to hours', () => {
+    expect(formatCheckInHours(36)).toBe('36 hours');
+  });
+});
+
+describe('getOpenCheckIn', () => {
+  test('finds a pending or unconfirmed escalated check-in', () => {
+    const escalated = checkIn({ id: 'checkin-2', status: 'escalated', escalated_at: '2026-10-27T00:00:00Z' });
+    expect(getOpenCheckIn([checkIn({ status: 'confirmed', confirmed_at: '2026-10-26T13:00:00Z' }), escalated])).toBe(escalated);
+  });
+
+  test('returns undefined when everything is confirmed', () => {
+    expect(getOpenCheckIn([checkIn({ status: 'confirmed', confirmed_at: '2026-10-26T13:00:00Z' })])).toBeUndefined();
+  });
+});
+
+describe('describeAnchorCheckIn', () => {
+  test('describes the user\'s own pending check-in', () => {
+    expect(describeAnchorCheckIn(checkIn())).toBe('Waiting for you to check in');
+  });
+
+  test('mentions a confirmation that came after anchors were alerted', () => {
+    expect(describeAnchorCheckIn(checkIn({
+      status: 'confirmed',
+      escalated_at: '2026-10-27T00:00:00Z',
+      confirmed_at: '2026-10-27T02:00:00Z',
+    }), 'Sam')).toBe('Sam checked in after anchors were alerted');
+  });
+
+  test('lists the anchors following up', () => {
+    const escalated = checkIn({
+      status: 'escalated',
+      escalated_at: '2026-10-27T00:00:00Z',
+      acks: [
+        { id: 'ack-1', checkin_id: 'checkin-1', anchor_id: 'a1', created_at: '', anchor: anchor('a1', 'Alex') },
+        { id: 'ack-2', checkin_id: 'checkin-1', anchor_id: 'a2', created_at: '', anchor: anchor('a2', 'Jo') },
+      ],
+    });
+    expect(describeAnchorCheckIn(escalated)).toBe('Anchors alerted · Alex and Jo are following up');
+  });
+
+  test('says when nobody is following up yet', () => {
+    expect(describeAnchorCheckIn(checkIn({ status: 'escalated', escalated_at: '2026-10-27T00:00:00Z' })))
+      .toBe('Anchors alerted · nobody is following up yet');
+  });
+});
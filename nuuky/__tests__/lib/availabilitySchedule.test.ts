@@ -0,0 +1,93 @@
+import {
+  isScheduleActive,
+  getActiveAvailabilityMode,
+  formatScheduleWindow,
+} from '../../lib/availabilitySchedule';
+import { AvailabilitySchedule } from '../../types';
+
+const makeSchedule = (overrides: Partial<AvailabilitySchedule> = {}): AvailabilitySchedule => ({
+  id: 's1',
+  user_id: 'u1',
+  kind: 'ghost',
+  days: [1, 2, 3, 4, 5],
+  start_time: '23:00',
+  end_time: '07:00',
+  timezone: 'UTC',
+  is_enabled: true,
+  created_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+// 2026-10-19 is a Monday
+const at = (iso: string) => new Date(iso);
+
+describe('isScheduleActive', () => {
+  test('is active inside a same-day window', () => {
+    const schedule = makeSchedule({ start_time: '09:00', end_time: '17:00' });
+    expect(isScheduleActive(schedule, at('2026-10-19T12:00:00Z'))).toBe(true);
+    expect(isScheduleActive(schedule, at('2026-10-19T17:00:00Z'))).toBe(false);
+  });
+
+  test('overnight window covers the evening it starts', () => {
+    expect(isScheduleActive(makeSchedule(), at('2026-10-19T23:30:00Z'))).toBe(true);
+  });
+
+  test('overnight window covers the following morning', () => {
+    // Tuesday 06:00, window started Monday night
+    expect(isScheduleActive(makeSchedule(), at('2026-10-20T06:00:00Z'))).toBe(true);
+  });
+
+  test('overnight window started on an excluded day does not carry over', () => {
+    // Monday 06:00, Sunday is not in the schedule
+    expect(isScheduleActive(makeSchedule(), at('2026-10-19T06:00:00Z'))).toBe(false);
+  });
+
+  test('equal start and end covers the whole day', () => {
+    const schedule = makeSchedule({ days: [0], start_time: '00:00', end_time: '00:00' });
+    expect(isScheduleActive(schedule, at('2026-10-18T15:00:00Z'))).toBe(true);
+    expect(isScheduleActive(schedule, at('2026-10-19T15:00:00Z'))).toBe(false);
+  });
+
+  test('evaluates in the schedule timezone', () => {
+    const schedule = makeSchedule({ start_time: '09:00', end_time: '17:00', timezone: 'America/New_York' });
+    // 14:00 UTC = 10:00 in New York (EDT)
+    expect(isScheduleActive(schedule, at('2026-10-19T14:00:00Z'))).toBe(true);
+    // 22:00 UTC = 18:00 in New York
+    expect(isScheduleActive(schedule, at('2026-10-19T22:00:00Z'))).toBe(false);
+  });
+
+  test('disabled schedules are never active', () => {
+    expect(isScheduleActive(makeSchedule({ is_enabled: false }), at('2026-10-19T23:30:00Z'))).toBe(false);
+  });
+});
+
+describe('getActiveAvailabilityMode', () => {
+  const now = at('2026-10-19T23:30:00Z');
+
+  test('returns null with no timers or active schedules', () => {
+    expect(getActiveAvailabilityMode(null, [], now)).toBeNull();
+  });
+
+  test('returns ghost for an active ghost schedule', () => {
+    expect(getActiveAvailabilityMode(null, [makeSchedule()], now)).toBe('ghost');
+  });
+
+  test('break wins over ghost', () => {
+    const schedules = [makeSchedule(), makeSchedule({ id: 's2', kind: 'break' })];
+    expect(getActiveAvailabilityMode(null, schedules, now)).toBe('break');
+  });
+
+  test('honors the one-shot timers', () => {
+    const future = new Date(now.getTime() + 3600000).toISOString();
+    expect(getActiveAvailabilityMode({ ghost_mode_until: future }, [], now)).toBe('ghost');
+    expect(getActiveAvailabilityMode({ take_break_until: future }, [], now)).toBe('break');
+  });
+});
+
+describe('formatScheduleWindow', () => {
+  test('labels common day sets', () => {
+    expect(formatScheduleWindow(makeSchedule())).toBe('Weekdays · 23:00–07:00');
+    expect(formatScheduleWindow(makeSchedule({ days: [0], start_time: '00:00:00', end_time: '00:00:00' })))
+      .toBe('Sun · All day');
+  });
+});
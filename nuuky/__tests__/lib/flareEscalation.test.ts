@@ -0,0 +1,54 @@
+import { describeFlareEscalation } from '../../lib/flareEscalation';
+import { Flare } from '../../types';
+
+const createdAt = new Date('2026-10-24T12:00:00Z');
+const minutesLater = (minutes: number) => new Date(createdAt.getTime() + minutes * 60000);
+
+const flare = (overrides: Partial<Flare> = {}): Flare => ({
+  id: 'flare-1',
+  user_id: 'user-1',
+  expires_at: minutesLater(5).toISOString(),
+  created_at: createdAt.toISOString(),
+  widen_after_minutes: 2,
+  anchors_after_minutes: 5,
+  ...overrides,
+});
+
+describe('describeFlareEscalation', () => {
+  test('reports a flare that has not been sent yet', () => {
+    expect(describeFlareEscalation(flare({ escalation_level: 0 }), createdAt)).toBe('Sending your flare.');
+  });
+
+  test('counts down from favorites to all friends', () => {
+    expect(describeFlareEscalation(flare({ escalation_level: 1 }), minutesLater(0.5))).toBe(
+      'Your favorites have been notified. All your friends in 2 min if nobody responds.'
+    );
+  });
+
+  test('counts down from all friends to anchors', () => {
+    expect(describeFlareEscalation(flare({ escalation_level: 2 }), minutesLater(3))).toBe(
+      'All your friends have been notified. Your anchors in 2 min if nobody responds.'
+    );
+  });
+
+  test('never counts below one minute while a tier is overdue', () => {
+    expect(describeFlareEscalation(flare({ escalation_level: 1 }), minutesLater(4))).toContain('in 1 min');
+  });
+
+  test('stops at anchors', () => {
+    expect(describeFlareEscalation(flare({ escalation_level: 3 }), minutesLater(6))).toBe(
+      'Your anchors have been notified.'
+    );
+  });
+
+  test('stops escalating once someone responded', () => {
+    expect(describeFlareEscalation(flare({ escalation_level: 1, responded_by: 'friend-1' }), createdAt)).toBe(
+      'Your favorites have been notified.'
+    );
+  });
+
+  test('falls back to default timing', () => {
+    const legacy = flare({ escalation_level: 2, widen_after_minutes: undefined, anchors_after_minutes: undefined });
+    expect(describeFlareEscalation(legacy, createdAt)).toContain('in 5 min');
+  });
+});
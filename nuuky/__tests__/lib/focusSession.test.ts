@@ -0,0 +1,99 @@
+import {
+  clampFocusConfig,
+  describeFocusState,
+  formatFocusCountdown,
+  formatFocusMinutes,
+  getFocusSessionEnd,
+  getFocusState,
+} from '../../lib/focusSession';
+import { FocusSession } from '../../types';
+
+const MINUTE = 60 * 1000;
+const START = Date.parse('2026-10-18T09:00:00Z');
+
+const session = (overrides: Partial<FocusSession> = {}): FocusSession => ({
+  id: 'session-1',
+  room_id: 'room-1',
+  started_by: 'user-1',
+  work_minutes: 25,
+  break_minutes: 5,
+  rounds: 4,
+  started_at: new Date(START).toISOString(),
+  ended_at: null,
+  created_at: new Date(START).toISOString(),
+  ...overrides,
+});
+
+describe('getFocusState', () => {
+  test('starts in the first work block', () => {
+    expect(getFocusState(session(), START + 10 * MINUTE)).toEqual({
+      phase: 'work',
+      round: 1,
+      remainingMs: 15 * MINUTE,
+      phaseEndsAt: START + 25 * MINUTE,
+    });
+  });
+
+  test('breaks lead into the next round', () => {
+    expect(getFocusState(session(), START + 27 * MINUTE)).toEqual({
+      phase: 'break',
+      round: 2,
+      remainingMs: 3 * MINUTE,
+      phaseEndsAt: START + 30 * MINUTE,
+    });
+  });
+
+  test('moves through later rounds', () => {
+    const state = getFocusState(session(), START + 61 * MINUTE);
+    expect(state.phase).toBe('work');
+    expect(state.round).toBe(3);
+  });
+
+  test('has no break after the last round', () => {
+    // 4 × 25 min work + 3 × 5 min breaks
+    expect(getFocusSessionEnd(session())).toBe(START + 115 * MINUTE);
+    expect(getFocusState(session(), START + 114 * MINUTE).phase).toBe('work');
+    expect(getFocusState(session(), START + 115 * MINUTE).phase).toBe('done');
+  });
+
+  test('is done once ended early', () => {
+    const ended = session({ ended_at: new Date(START + 5 * MINUTE).toISOString() });
+    expect(getFocusState(ended, START + 10 * MINUTE)).toEqual({
+      phase: 'done',
+      round: 4,
+      remainingMs: 0,
+      phaseEndsAt: null,
+    });
+  });
+});
+
+describe('clampFocusConfig', () => {
+  test('keeps settings within the limits the database enforces', () => {
+    expect(clampFocusConfig({ workMinutes: 2, breakMinutes: 90, rounds: 20 })).toEqual({
+      workMinutes: 5,
+      breakMinutes: 60,
+      rounds: 12,
+    });
+  });
+});
+
+describe('formatting', () => {
+  test('formats countdowns', () => {
+    expect(formatFocusCountdown(15 * MINUTE)).toBe('15:00');
+    expect(formatFocusCountdown(61 * 1000 + 1)).toBe('01:02');
+    expect(formatFocusCountdown(95 * MINUTE)).toBe('1:35:00');
+    expect(formatFocusCountdown(-5)).toBe('00:00');
+  });
+
+  test('formats total focus time', () => {
+    expect(formatFocusMinutes(45)).toBe('45m');
+    expect(formatFocusMinutes(120)).toBe('2h');
+    expect(formatFocusMinutes(135)).toBe('2h 15m');
+  });
+
+  test('describes each phase', () => {
+    expect(describeFocusState(getFocusState(session(), START), 4)).toBe('Focus · round 1 of 4');
+    expect(describeFocusState(getFocusState(session(), START + 26 * MINUTE), 4)).toBe('Break · round 2 next');
+    expect(describeFocusState(getFocusState(session(), START + 200 * MINUTE), 4)).toBe('Session complete');
+  });
+});
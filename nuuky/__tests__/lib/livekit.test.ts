@@ -20,6 +20,7 @@ jest.mock('livekit-client', () => {
     state: 'disconnected',
     localParticipant: {
       setMicrophoneEnabled: jest.fn().mockResolvedValue(undefined),
+      getTrackPublication: jest.fn().mockReturnValue(undefined),
       isMicrophoneEnabled: false,
     },
     remoteParticipants: new Map(),
@@ -41,7 +42,14 @@ jest.mock('livekit-client', () => {
       Disconnected: 'disconnected',
       Connecting: 'connecting',
     },
-    Track: { Kind: { Audio: 'audio' } },
+    Track: { Kind: { Audio: 'audio' }, Source: { Microphone: 'microphone' } },
+    DisconnectReason: {
+      UNKNOWN_REASON: 0,
+      CLIENT_INITIATED: 1,
+      DUPLICATE_IDENTITY: 2,
+      PARTICIPANT_REMOVED: 4,
+      ROOM_DELETED: 5,
+    },
   };
 });
 
@@ -77,7 +85,12 @@ import {
   isAnyoneUnmuted,
   SILENCE_TIMEOUT_MS,
   SilenceTimeoutPresets,
+  getReconnectDelay,
+  getReconnectHistory,
+  MAX_RECONNECT_ATTEMPTS,
+  setMicGating,
 } from '../../lib/livekit';
+import NetInfo from '@react-native-community/netinfo';
 
 describe('livekit', () => {
   beforeEach(() => {
@@ -287,3 +300,187 @@ describe('livekit', () => {
     expect(SILENCE_TIMEOUT_MS).toBeGreaterThan(0);
   });
 });
+
+describe('connection supervisor', () => {
+  const { Room } = require('livekit-client');
+  const room = new Room();
+
+  const handlerFor = (event: string) => {
+    const calls = room.on.mock.calls.filter(([name]: [string]) => name === event);
+    return calls[calls.length - 1][1];
+  };
+
+  const callbacks = () => ({
+    onConnectionStatusChange: jest.fn(),
+    onParticipantSpeaking: jest.fn(),
+    onError: jest.fn(),
+    onReconnectHistoryChange: jest.fn(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    invalidateTokenCache();
+    mockGetSession.mockResolvedValue({
+      data: { session: { access_token: 'tok', user: { id: 'test-user-id' } } },
+    });
+    mockInvoke.mockResolvedValue({ data: { token: 'lk-token', serverUrl: 'wss://test' }, error: null });
+  });
+
+  afterEach(async () => {
+    await disconnectFromAudioRoom();
+    room.connect.mockResolvedValue(undefined);
+    jest.useRealTimers();
+  });
+
+  test('backs off exponentially up to a cap', () => {
+    expect(getReconnectDelay(0)).toBe(1000);
+    expect(getReconnectDelay(1)).toBe(2000);
+    expect(getReconnectDelay(3)).toBe(8000);
+    expect(getReconnectDelay(10)).toBe(30000);
+  });
+
+  test('reconnects after an unexpected disconnect and restores the mic', async () => {
+    const cbs = callbacks();
+    setAudioEventCallbacks(cbs);
+    await connectToAudioRoom('room-drop', true);
+    room.connect.mockClear();
+    room.localParticipant.setMicrophoneEnabled.mockClear();
+
+    handlerFor('disconnected')(0);
+    expect(cbs.onConnectionStatusChange).toHaveBeenLastCalledWith('reconnecting');
+
+    await jest.advanceTimersByTimeAsync(1200);
+
+    expect(room.connect).toHaveBeenCalledWith('wss://test', 'lk-token');
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenCalledWith(true);
+    expect(cbs.onConnectionStatusChange).toHaveBeenLastCalledWith('connected');
+    expect(getReconnectHistory()).toEqual([
+      expect.objectContaining({ trigger: 'disconnected', attempt: 1, succeeded: true }),
+    ]);
+    expect(cbs.onReconnectHistoryChange).toHaveBeenLastCalledWith(getReconnectHistory());
+  });
+
+  test('restores a mic the user turned off as off', async () => {
+    setAudioEventCallbacks(callbacks());
+    await connectToAudioRoom('room-mic', true);
+    await setLocalMicrophoneEnabled(false);
+    room.localParticipant.setMicrophoneEnabled.mockClear();
+
+    handlerFor('disconnected')(0);
+    await jest.advanceTimersByTimeAsync(1200);
+
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenCalledWith(false);
+    expect(room.localParticipant.setMicrophoneEnabled).not.toHaveBeenCalledWith(true);
+  });
+
+  test('turns the mic off when the gate cannot close after connecting', async () => {
+    const cbs = callbacks();
+    setAudioEventCallbacks(cbs);
+    await setMicGating(true);
+    room.localParticipant.getTrackPublication.mockReturnValue({
+      track: { isMuted: false, mute: jest.fn().mockRejectedValue(new Error('mute failed')) },
+    });
+
+    expect(await connectToAudioRoom('room-gate', true)).toBe(true);
+
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenLastCalledWith(false);
+    expect(cbs.onError).toHaveBeenCalledWith('Could not turn on your microphone');
+
+    room.localParticipant.getTrackPublication.mockReturnValue(undefined);
+    await setMicGating(false);
+  });
+
+  test('does not reconnect after being removed from the room', async () => {
+    const cbs = callbacks();
+    setAudioEventCallbacks(cbs);
+    await connectToAudioRoom('room-kick', false);
+    room.connect.mockClear();
+
+    handlerFor('disconnected')(4);
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(room.connect).not.toHaveBeenCalled();
+    expect(cbs.onConnectionStatusChange).toHaveBeenLastCalledWith('disconnected');
+  });
+
+  test('gives up after the last attempt and reports it', async () => {
+    const cbs = callbacks();
+    setAudioEventCallbacks(cbs);
+    await connectToAudioRoom('room-down', false);
+    room.connect.mockRejectedValue(new Error('unreachable'));
+
+    handlerFor('disconnected')(0);
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    const history = getReconnectHistory();
+    expect(history).toHaveLength(MAX_RECONNECT_ATTEMPTS);
+    expect(history[history.length - 1]).toEqual(
+      expect.objectContaining({ attempt: MAX_RECONNECT_ATTEMPTS, succeeded: false, gaveUp: true }),
+    );
+    expect(cbs.onError).toHaveBeenCalledTimes(1);
+    expect(cbs.onError).toHaveBeenCalledWith('Lost connection to audio');
+    expect(cbs.onConnectionStatusChange).toHaveBeenLastCalledWith('error');
+  });
+
+  test('rebuilds the connection on a Wi-Fi to cellular handover', async () => {
+    setAudioEventCallbacks(callbacks());
+    await connectToAudioRoom('room-handover', false);
+    const onNetworkChange = (NetInfo.addEventListener as jest.Mock).mock.calls[0][0];
+    room.connect.mockClear();
+
+    onNetworkChange({ type: 'wifi', isConnected: true });
+    onNetworkChange({ type: 'cellular', isConnected: true });
+    await jest.advanceTimersByTimeAsync(1200);
+
+    expect(room.connect).toHaveBeenCalledTimes(1);
+    expect(getReconnectHistory()).toEqual([
+      expect.objectContaining({ trigger: 'network_change', succeeded: true }),
+    ]);
+  });
+
+  test('waits for the network before retrying', async () => {
+    setAudioEventCallbacks(callbacks());
+    await connectToAudioRoom('room-offline', false);
+    const onNetworkChange = (NetInfo.addEventListener as jest.Mock).mock.calls[0][0];
+    onNetworkChange({ type: 'wifi', isConnected: true });
+    room.connect.mockClear();
+
+    onNetworkChange({ type: 'none', isConnected: false });
+    handlerFor('disconnected')(0);
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(room.connect).not.toHaveBeenCalled();
+
+    onNetworkChange({ type: 'wifi', isConnected: true });
+    await jest.advanceTimersByTimeAsync(1200);
+    expect(room.connect).toHaveBeenCalledTimes(1);
+    expect(getReconnectHistory()).toEqual([
+      expect.objectContaining({ trigger: 'disconnected', succeeded: true }),
+    ]);
+  });
+
+  test('refreshes the token before the cached one expires', async () => {
+    setAudioEventCallbacks(callbacks());
+    await connectToAudioRoom('room-refresh', false);
+    expect(mockInvoke).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(55 * 60 * 1000);
+
+    expect(mockInvoke).toHaveBeenCalledTimes(2);
+    expect(mockInvoke).toHaveBeenLastCalledWith('livekit-token', expect.objectContaining({
+      body: { roomId: 'room-refresh' },
+    }));
+  });
+
+  test('stops supervising on disconnect', async () => {
+    setAudioEventCallbacks(callbacks());
+    await connectToAudioRoom('room-leave', false);
+    const unsubscribe = (NetInfo.addEventListener as jest.Mock).mock.results[0].value;
+
+    await disconnectFromAudioRoom();
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(mockInvoke).toHaveBeenCalledTimes(1);
+  });
+});
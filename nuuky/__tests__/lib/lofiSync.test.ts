@@ -0,0 +1,56 @@
+import {
+  LOFI_SYNC_DRIFT_TOLERANCE_MS,
+  createLofiSessionId,
+  expectedLofiPosition,
+  lofiDrift,
+  needsLofiResync,
+} from '../../lib/lofiSync';
+
+describe('expectedLofiPosition', () => {
+  test('projects a playing track forward from when the message arrived', () => {
+    expect(expectedLofiPosition(30000, true, 1000, 3500, 180000)).toBe(32500);
+  });
+
+  test('holds a paused track where it is', () => {
+    expect(expectedLofiPosition(30000, false, 1000, 3500, 180000)).toBe(30000);
+  });
+
+  test('wraps around the end of a looping track', () => {
+    expect(expectedLofiPosition(179000, true, 1000, 4000, 180000)).toBe(2000);
+  });
+
+  test('does not wrap while the duration is unknown', () => {
+    expect(expectedLofiPosition(179000, true, 1000, 4000, null)).toBe(182000);
+  });
+});
+
+describe('lofiDrift', () => {
+  test('measures the plain distance between positions', () => {
+    expect(lofiDrift(10000, 12500, 180000)).toBe(2500);
+    expect(lofiDrift(12500, 10000, 180000)).toBe(2500);
+  });
+
+  test('measures across the loop point', () => {
+    expect(lofiDrift(179800, 200, 180000)).toBe(400);
+  });
+});
+
+describe('needsLofiResync', () => {
+  test('tolerates small drift', () => {
+    expect(needsLofiResync(10000, 10000 + LOFI_SYNC_DRIFT_TOLERANCE_MS, 180000)).toBe(false);
+  });
+
+  test('resyncs beyond the tolerance', () => {
+    expect(needsLofiResync(10000, 10000 + LOFI_SYNC_DRIFT_TOLERANCE_MS + 1, 180000)).toBe(true);
+  });
+
+  test('does not resync just because the loop point lies between them', () => {
+    expect(needsLofiResync(179900, 100, 180000)).toBe(false);
+  });
+});
+
+describe('createLofiSessionId', () => {
+  test('creates a new id every time', () => {
+    expect(createLofiSessionId()).not.toBe(createLofiSessionId());
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  DEFAULT_MIC_SETTINGS,
+  VAD_HANGOVER_MS,
+  CLOSED_VOICE_GATE,
+  getRoomMicSettings,
+  isGatedMicMode,
+  clampVadThreshold,
+  describeVadThreshold,
+  nextVoiceGate,
+} from '../../lib/micModes';
+
+describe('getRoomMicSettings', () => {
+  test('rooms without settings use open mic', () => {
+    expect(getRoomMicSettings({}, 'room1')).toBe(DEFAULT_MIC_SETTINGS);
+    expect(getRoomMicSettings({}, null)).toBe(DEFAULT_MIC_SETTINGS);
+  });
+
+  test('returns the saved settings for the room', () => {
+    const saved = { mode: 'push_to_talk' as const, vadThreshold: 0.4 };
+    expect(getRoomMicSettings({ room1: saved }, 'room1')).toBe(saved);
+    expect(getRoomMicSettings({ room1: saved }, 'room2')).toBe(DEFAULT_MIC_SETTINGS);
+  });
+});
+
+describe('isGatedMicMode', () => {
+  test('only open mic is ungated', () => {
+    expect(isGatedMicMode('open')).toBe(false);
+    expect(isGatedMicMode('push_to_talk')).toBe(true);
+    expect(isGatedMicMode('voice_activity')).toBe(true);
+  });
+});
+
+describe('clampVadThreshold', () => {
+  test('snaps to steps and stays in range', () => {
+    expect(clampVadThreshold(0.44)).toBe(0.4);
+    expect(clampVadThreshold(0.3 + 0.1)).toBe(0.4);
+    expect(clampVadThreshold(0)).toBe(0.1);
+    expect(clampVadThreshold(1)).toBe(0.9);
+  });
+});
+
+describe('describeVadThreshold', () => {
+  test('names the sensitivity', () => {
+    expect(describeVadThreshold(0.2)).toBe('Sensitive');
+    expect(describeVadThreshold(0.4)).toBe('Normal');
+    expect(describeVadThreshold(0.8)).toBe('Only loud speech');
+  });
+});
+
+describe('nextVoiceGate', () => {
+  test('opens when a sample reaches the threshold', () => {
+    const gate = nextVoiceGate(CLOSED_VOICE_GATE, 0.5, 0.4, 1000);
+    expect(gate).toEqual({ open: true, lastVoiceAt: 1000 });
+  });
+
+  test('stays closed below the threshold', () => {
+    expect(nextVoiceGate(CLOSED_VOICE_GATE, 0.3, 0.4, 1000)).toBe(CLOSED_VOICE_GATE);
+  });
+
+  test('holds open through short pauses', () => {
+    const open = { open: true, lastVoiceAt: 1000 };
+    expect(nextVoiceGate(open, 0, 0.4, 1000 + VAD_HANGOVER_MS - 1)).toBe(open);
+  });
+
+  test('closes once the hangover runs out', () => {
+    const open = { open: true, lastVoiceAt: 1000 };
+    expect(nextVoiceGate(open, 0, 0.4, 1000 + VAD_HANGOVER_MS).open).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+import { createQueryBuilder } from '../__utils__/mockSupabase';
+
+const mockSetNotificationCategoryAsync = jest.fn();
+const mockScheduleNotificationAsync = jest.fn();
+
+jest.mock('expo-notifications', () => ({
+  setNotificationCategoryAsync: (...args: any[]) => mockSetNotificationCategoryAsync(...args),
+  scheduleNotificationAsync: (...args: any[]) => mockScheduleNotificationAsync(...args),
+}));
+
+const mockFrom = jest.fn();
+const mockGetSession = jest.fn();
+const mockFunctionsInvoke = jest.fn();
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: (...args: any[]) => mockFrom(...args),
+    auth: { getSession: (...args: any[]) => mockGetSession(...args) },
+    functions: { invoke: (...args: any[]) => mockFunctionsInvoke(...args) },
+  },
+}));
+
+jest.mock('../../lib/logger', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+  NOTIFICATION_CATEGORIES,
+  registerNotificationCategories,
+  isNotificationAction,
+  handleNotificationAction,
+} from '../../lib/notificationActions';
+
+// One builder per table, so each test can check what was written where
+let tables: Record<string, any>;
+const table = (name: string, resolved = { data: null, error: null }) => {
+  tables[name] = createQueryBuilder(resolved);
+  return tables[name];
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  tables = {};
+  mockFrom.mockImplementation((name: string) => tables[name] || table(name));
+  mockGetSession.mockResolvedValue({ data: { session: { user: { id: 'me' } } } });
+  mockFunctionsInvoke.mockResolvedValue({ data: {}, error: null });
+  mockSetNotificationCategoryAsync.mockResolvedValue({});
+  mockScheduleNotificationAsync.mockResolvedValue('local-id');
+});
+
+describe('registerNotificationCategories', () => {
+  test('registers every category as background actions', async () => {
+    await registerNotificationCategories();
+
+    expect(mockSetNotificationCategoryAsync).toHaveBeenCalledTimes(NOTIFICATION_CATEGORIES.length);
+    expect(mockSetNotificationCategoryAsync).toHaveBeenCalledWith('room_invite', [
+      { identifier: 'join_room', buttonTitle: 'Join', options: { opensAppToForeground: false, isDestructive: false } },
+      { identifier: 'decline_room', buttonTitle: 'Decline', options: { opensAppToForeground: false, isDestructive: true } },
+    ]);
+  });
+
+  test('does not throw when registration fails', async () => {
+    mockSetNotificationCategoryAsync.mockRejectedValue(new Error('unsupported'));
+    await expect(registerNotificationCategories()).resolves.toBeUndefined();
+  });
+});
+
+describe('isNotificationAction', () => {
+  test('only matches action buttons', () => {
+    expect(isNotificationAction('nudge_back')).toBe(true);
+    expect(isNotificationAction('expo.modules.notifications.actions.DEFAULT')).toBe(false);
+  });
+});
+
+describe('handleNotificationAction', () => {
+  test('ignores the default tap', async () => {
+    expect(await handleNotificationAction('expo.modules.notifications.actions.DEFAULT', {})).toBe(false);
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  test('nudges back and records the outcome', async () => {
+    const handled = await handleNotificationAction('nudge_back', {
+      type: 'nudge',
+      sender_id: 'friend-1',
+      notification_id: 'notif-1',
+    });
+
+    expect(handled).toBe(true);
+    expect(tables.nudges.insert).toHaveBeenCalledWith({ sender_id: 'me', receiver_id: 'friend-1' });
+    expect(tables.notifications.update).toHaveBeenCalledWith(
+      expect.objectContaining({ is_read: true, action_taken: 'nudge_back', action_status: 'done' })
+    );
+    expect(tables.notifications.eq).toHaveBeenCalledWith('id', 'notif-1');
+    expect(mockScheduleNotificationAsync).not.toHaveBeenCalled();
+  });
+
+  test('reports the nudge limit instead of alerting', async () => {
+    table('nudges', { data: null, error: { message: 'Nudge limit exceeded' } } as any);
+
+    await handleNotificationAction('nudge_back', { type: 'nudge', sender_id: 'friend-1', notification_id: 'notif-1' });
+
+    expect(tables.notifications.update).toHaveBeenCalledWith(
+      expect.objectContaining({ action_taken: 'nudge_back', action_status: 'failed' })
+    );
+    expect(mockScheduleNotificationAsync).toHaveBeenCalledWith(expect.objectContaining({
+      content: expect.objectContaining({ body: 'You can only send 3 nudges per friend per day' }),
+    }));
+  });
+
+  test('joins the room from an invite', async () => {
+    const future = new Date(Date.now() + 60_000).toISOString();
+    const invites = table('room_invites', { data: { room_id: 'room-1', expires_at: future }, error: null } as any);
+    const participants = table('room_participants', { data: [{ id: 'p1', user_id: 'host' }], error: null } as any);
+
+    await handleNotificationAction('join_room', { type: 'room_invite', invite_id: 'invite-1', notification_id: 'notif-1' });
+
+    expect(invites.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'accepted' }));
+    expect(participants.insert).toHaveBeenCalledWith({ room_id: 'room-1', user_id: 'me', is_muted: false });
+    expect(tables.notifications.update).toHaveBeenCalledWith(
+      expect.objectContaining({ action_taken: 'join_room', action_status: 'done' })
+    );
+  });
+
+  test('does not join a full room', async () => {
+    const future = new Date(Date.now() + 60_000).toISOString();
+    const invites = table('room_invites', { data: { room_id: 'room-1', expires_at: future }, error: null } as any);
+    const full = Array.from({ length: 10 }, (_, i) => ({ id: `p${i}`, user_id: `user-${i}` }));
+    const participants = table('room_participants', { data: full, error: null } as any);
+
+    await handleNotificationAction('join_room', {
+      type: 'room_invite',
+      invite_id: 'invite-1',
+      room_name: 'Late Night',
+      notification_id: 'notif-1',
+    });
+
+    expect(invites.update).not.toHaveBeenCalled();
+    expect(participants.insert).not.toHaveBeenCalled();
+    expect(tables.notifications.update).toHaveBeenCalledWith(
+      expect.objectContaining({ action_taken: 'join_room', action_status: 'failed' })
+    );
+    expect(mockScheduleNotificationAsync).toHaveBeenCalledWith(expect.objectContaining({
+      content: expect.objectContaining({ body: 'Late Night is full' }),
+    }));
+  });
+
+  test('declines an invite', async () => {
+    await handleNotificationAction('decline_room', { type: 'room_invite', invite_id: 'invite-1', notification_id: 'notif-1' });
+
+    expect(tables.room_invites.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'declined' }));
+    expect(tables.room_invites.eq).toHaveBeenCalledWith('id', 'invite-1');
+  });
+
+  test('answers a flare and finds its notification by flare', async () => {
+    await handleNotificationAction('flare_here', { type: 'flare', flare_id: 'flare-1' });
+
+    expect(tables.flare_responses.upsert).toHaveBeenCalledWith(
+      { flare_id: 'flare-1', responder_id: 'me', status: 'here' },
+      { onConflict: 'flare_id,responder_id' }
+    );
+    expect(tables.notifications.eq).toHaveBeenCalledWith('data->>flare_id', 'flare-1');
+  });
+
+  // The update's trigger tells the sender, not the app
+  test('hearts a photo nudge', async () => {
+    const photos = table('photo_nudges', { data: { id: 'photo-1' }, error: null } as any);
+
+    await handleNotificationAction('heart', { type: 'photo_nudge', photo_nudge_id: 'photo-1', notification_id: 'notif-1' });
+
+    expect(photos.update).toHaveBeenCalledWith({ reaction: 'heart' });
+    expect(mockFunctionsInvoke).not.toHaveBeenCalled();
+    expect(tables.notifications.update).toHaveBeenCalledWith(
+      expect.objectContaining({ action_taken: 'heart', action_status: 'done' })
+    );
+  });
+
+  test('hearts a voice moment', async () => {
+    const moments = table('voice_moments', { data: { id: 'voice-1' }, error: null } as any);
+
+    await handleNotificationAction('heart', { type: 'voice_moment', voice_moment_id: 'voice-1', notification_id: 'notif-1' });
+
+    expect(moments.update).toHaveBeenCalledWith({ reaction: 'heart' });
+    expect(mockFunctionsInvoke).not.toHaveBeenCalled();
+  });
+
+  test('records a failure when the action throws', async () => {
+    table('flare_responses', { data: null, error: { message: 'network down' } } as any);
+
+    await handleNotificationAction('flare_here', { type: 'flare', flare_id: 'flare-1' });
+
+    expect(tables.notifications.update).toHaveBeenCalledWith(
+      expect.objectContaining({ action_taken: 'flare_here', action_status: 'failed' })
+    );
+    expect(mockScheduleNotificationAsync).toHaveBeenCalled();
+  });
+
+  test('does nothing while signed out', async () => {
+    mockGetSession.mockResolvedValue({ data: { session: null } });
+
+    expect(await handleNotificationAction('nudge_back', { sender_id: 'friend-1' })).toBe(true);
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  ALL_CHANNELS_OFF,
+  ALL_CHANNELS_ON,
+  describeFriendOverrides,
+  getFriendOverrideMode,
+  resolveChannels,
+} from '../../lib/notificationPreferences';
+
+const prefs = {
+  id: 'pref1',
+  user_id: 'user1',
+  nudges_enabled: false,
+  flares_enabled: true,
+  room_invites_enabled: true,
+  created_at: '2024-01-01',
+  updated_at: '2024-01-01',
+};
+
+const row = (overrides: any) => ({
+  id: 'np1',
+  user_id: 'user1',
+  notification_type: 'nudge',
+  friend_id: null,
+  push: true,
+  banner: true,
+  silent: true,
+  updated_at: '2024-01-01',
+  ...overrides,
+});
+
+describe('resolveChannels', () => {
+  test('everything is on without rows or preferences', () => {
+    expect(resolveChannels([], null, 'photo_like')).toEqual(ALL_CHANNELS_ON);
+  });
+
+  test('falls back to the legacy switch for the types it covered', () => {
+    expect(resolveChannels([], prefs, 'nudge')).toEqual(ALL_CHANNELS_OFF);
+    expect(resolveChannels([], prefs, 'call_me')).toEqual(ALL_CHANNELS_OFF);
+    expect(resolveChannels([], prefs, 'flare')).toEqual(ALL_CHANNELS_ON);
+    expect(resolveChannels([], prefs, 'photo_like')).toEqual(ALL_CHANNELS_ON);
+  });
+
+  test('a type default beats the legacy switch', () => {
+    const rows = [row({ push: false, banner: true, silent: true })];
+    expect(resolveChannels(rows, prefs, 'nudge')).toEqual({ push: false, banner: true, silent: true });
+  });
+
+  test('a friend override beats the type default', () => {
+    const rows = [
+      row({ push: false }),
+      row({ id: 'np2', friend_id: 'friend1', push: true, banner: false, silent: false }),
+    ];
+    expect(resolveChannels(rows, prefs, 'nudge', 'friend1')).toEqual({ push: true, banner: false, silent: false });
+    expect(resolveChannels(rows, prefs, 'nudge', 'friend2')).toEqual({ push: false, banner: true, silent: true });
+  });
+
+  test('friend overrides are ignored without a friend', () => {
+    const rows = [row({ friend_id: 'friend1', ...ALL_CHANNELS_OFF })];
+    expect(resolveChannels(rows, null, 'nudge')).toEqual(ALL_CHANNELS_ON);
+  });
+});
+
+describe('getFriendOverrideMode', () => {
+  test('maps channels to a mode', () => {
+    expect(getFriendOverrideMode(undefined)).toBe('default');
+    expect(getFriendOverrideMode(ALL_CHANNELS_OFF)).toBe('muted');
+    expect(getFriendOverrideMode(ALL_CHANNELS_ON)).toBe('always');
+    expect(getFriendOverrideMode({ push: false, banner: true, silent: true })).toBe('custom');
+  });
+});
+
+describe('describeFriendOverrides', () => {
+  test('lists the overridden types', () => {
+    const overrides = [
+      row({ friend_id: 'friend1', ...ALL_CHANNELS_OFF }),
+      row({ id: 'np2', friend_id: 'friend1', notification_type: 'flare' }),
+    ];
+    expect(describeFriendOverrides(overrides)).toBe('Nudges muted, flares always');
+  });
+
+  test('is empty without overrides', () => {
+    expect(describeFriendOverrides([])).toBe('');
+  });
+});
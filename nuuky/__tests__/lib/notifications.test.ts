@@ -6,6 +6,8 @@ const mockAddNotificationReceivedListener = jest.fn();
 const mockAddNotificationResponseReceivedListener = jest.fn();
 const mockScheduleNotificationAsync = jest.fn();
 const mockSetNotificationHandler = jest.fn();
+const mockGetPresentedNotificationsAsync = jest.fn();
+const mockDismissNotificationAsync = jest.fn();
 
 jest.mock('expo-notifications', () => ({
   setNotificationHandler: mockSetNotificationHandler,
@@ -16,16 +18,22 @@ jest.mock('expo-notifications', () => ({
   addNotificationReceivedListener: mockAddNotificationReceivedListener,
   addNotificationResponseReceivedListener: mockAddNotificationResponseReceivedListener,
   scheduleNotificationAsync: mockScheduleNotificationAsync,
+  getPresentedNotificationsAsync: mockGetPresentedNotificationsAsync,
+  dismissNotificationAsync: mockDismissNotificationAsync,
   AndroidImportance: { MAX: 4 },
 }));
 
 jest.mock('expo-device', () => ({ isDevice: true }));
 
+jest.mock('expo-crypto', () => ({ randomUUID: jest.fn(() => 'device-uuid') }));
+
+jest.mock('expo-constants', () => ({ expoConfig: { version: '1.0.5' } }));
+
 jest.mock('react-native', () => ({ Platform: { OS: 'android' } }));
 
-const mockUpdate = jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) });
+const mockRpc = jest.fn().mockResolvedValue({ error: null });
 jest.mock('../../lib/supabase', () => ({
-  supabase: { from: jest.fn(() => ({ update: mockUpdate })) },
+  supabase: { rpc: (...args: any[]) => mockRpc(...args) },
 }));
 
 // Must require after mocks
@@ -69,14 +77,43 @@ describe('notifications', () => {
     });
   });
 
+  describe('getDeviceId', () => {
+    test('generates an id once and reuses it', async () => {
+      const AsyncStorage = require('@react-native-async-storage/async-storage');
+      const Crypto = require('expo-crypto');
+      AsyncStorage.getItem.mockResolvedValueOnce(null);
+
+      expect(await notifications.getDeviceId()).toBe('device-uuid');
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('nooke_push_device_id', 'device-uuid');
+
+      AsyncStorage.getItem.mockResolvedValueOnce('stored-id');
+      expect(await notifications.getDeviceId()).toBe('stored-id');
+      expect(Crypto.randomUUID).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('savePushTokenToUser', () => {
-    test('updates user with token', async () => {
-      const mockEq = jest.fn().mockResolvedValue({ error: null });
-      mockUpdate.mockReturnValue({ eq: mockEq });
+    test('registers the token for this device', async () => {
+      const AsyncStorage = require('@react-native-async-storage/async-storage');
+      AsyncStorage.getItem.mockResolvedValueOnce('device-1');
+
+      await notifications.savePushTokenToUser('tok');
+      expect(mockRpc).toHaveBeenCalledWith('register_push_token', {
+        p_device_id: 'device-1',
+        p_token: 'tok',
+        p_platform: 'android',
+        p_app_version: '1.0.5',
+      });
+    });
+  });
+
+  describe('removePushToken', () => {
+    test('unregisters this device', async () => {
+      const AsyncStorage = require('@react-native-async-storage/async-storage');
+      AsyncStorage.getItem.mockResolvedValueOnce('device-1');
 
-      await notifications.savePushTokenToUser('user1', 'tok');
-      expect(mockUpdate).toHaveBeenCalledWith({ fcm_token: 'tok' });
-      expect(mockEq).toHaveBeenCalledWith('id', 'user1');
+      await notifications.removePushToken();
+      expect(mockRpc).toHaveBeenCalledWith('unregister_push_token', { p_device_id: 'device-1' });
     });
   });
 
@@ -128,6 +165,17 @@ describe('notifications', () => {
       expect(cb).not.toHaveBeenCalled();
     });
 
+    test('ignores banner-only pushes', () => {
+      const onSyncNotifications = jest.fn();
+      const onSyncFriends = jest.fn();
+      notifications.handleSilentNotification(
+        { _silent: true, banner_only: true, banner_title: 'Nudge' },
+        { onSyncNotifications, onSyncFriends },
+      );
+      expect(onSyncNotifications).not.toHaveBeenCalled();
+      expect(onSyncFriends).not.toHaveBeenCalled();
+    });
+
     test('routes to correct callback', () => {
       const cb = jest.fn();
       notifications.handleSilentNotification(
@@ -193,6 +241,42 @@ describe('notifications', () => {
     });
   });
 
+  describe('dismissGroupedNotifications', () => {
+    const presented = (identifier: string, groupKey?: string) => ({
+      request: { identifier, content: { data: groupKey ? { group_key: groupKey } : {} } },
+    });
+
+    test('dismisses earlier pushes of the group only', async () => {
+      mockGetPresentedNotificationsAsync.mockResolvedValue([
+        presented('p1', 'nudge:maya'),
+        presented('p2', 'nudge:sam'),
+        presented('p3'),
+        presented('p4', 'nudge:maya'),
+      ]);
+
+      await notifications.dismissGroupedNotifications('nudge:maya', 'p4');
+
+      expect(mockDismissNotificationAsync).toHaveBeenCalledTimes(1);
+      expect(mockDismissNotificationAsync).toHaveBeenCalledWith('p1');
+    });
+
+    test('dismisses the whole group without a push to keep', async () => {
+      mockGetPresentedNotificationsAsync.mockResolvedValue([
+        presented('p1', 'nudge:maya'),
+        presented('p4', 'nudge:maya'),
+      ]);
+
+      await notifications.dismissGroupedNotifications('nudge:maya');
+
+      expect(mockDismissNotificationAsync).toHaveBeenCalledTimes(2);
+    });
+
+    test('swallows errors', async () => {
+      mockGetPresentedNotificationsAsync.mockRejectedValue(new Error('fail'));
+      await expect(notifications.dismissGroupedNotifications('nudge:maya')).resolves.toBeUndefined();
+    });
+  });
+
   describe('isSilentNotification', () => {
     test('returns true for silent', () => {
       const n = { request: { content: { data: { _silent: true } } } } as any;
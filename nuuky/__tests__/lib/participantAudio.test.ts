@@ -0,0 +1,76 @@
+import {
+  toMeterLevel,
+  getPlaybackVolume,
+  stepParticipantVolume,
+  formatParticipantVolume,
+  isDefaultAudioPreference,
+} from '../../lib/participantAudio';
+
+describe('toMeterLevel', () => {
+  test('silence and bad input read as zero', () => {
+    expect(toMeterLevel(0)).toBe(0);
+    expect(toMeterLevel(-1)).toBe(0);
+    expect(toMeterLevel(NaN)).toBe(0);
+  });
+
+  test('follows decibels rather than the linear level', () => {
+    // -20 dB is a tenth of full scale but well up the meter
+    expect(toMeterLevel(0.1)).toBe(0.6);
+    expect(toMeterLevel(1)).toBe(1);
+    expect(toMeterLevel(2)).toBe(1);
+  });
+
+  test('anything under the floor is silent', () => {
+    expect(toMeterLevel(0.001)).toBe(0);
+  });
+
+  test('rounds to meter steps', () => {
+    expect(toMeterLevel(0.0316)).toBe(0.4);
+    expect(toMeterLevel(0.035)).toBe(0.4);
+  });
+});
+
+describe('getPlaybackVolume', () => {
+  test('friends without a preference play at full volume', () => {
+    expect(getPlaybackVolume(undefined)).toBe(1);
+  });
+
+  test('muting wins over the saved volume', () => {
+    expect(getPlaybackVolume({ volume: 0.6, muted: true })).toBe(0);
+    expect(getPlaybackVolume({ volume: 0.6, muted: false })).toBe(0.6);
+  });
+
+  test('clamps out-of-range volumes', () => {
+    expect(getPlaybackVolume({ volume: 1.4, muted: false })).toBe(1);
+    expect(getPlaybackVolume({ volume: -0.2, muted: false })).toBe(0);
+  });
+});
+
+describe('stepParticipantVolume', () => {
+  test('moves by ten percent and stays on the grid', () => {
+    expect(stepParticipantVolume(1, -1)).toBe(0.9);
+    expect(stepParticipantVolume(0.7, 1)).toBe(0.8);
+    expect(stepParticipantVolume(0.33, 1)).toBe(0.4);
+  });
+
+  test('stops at the ends', () => {
+    expect(stepParticipantVolume(1, 1)).toBe(1);
+    expect(stepParticipantVolume(0, -1)).toBe(0);
+  });
+});
+
+describe('formatParticipantVolume', () => {
+  test('shows a percentage or muted', () => {
+    expect(formatParticipantVolume(undefined)).toBe('100%');
+    expect(formatParticipantVolume({ volume: 0.4, muted: false })).toBe('40%');
+    expect(formatParticipantVolume({ volume: 0.4, muted: true })).toBe('Muted');
+  });
+});
+
+describe('isDefaultAudioPreference', () => {
+  test('only full volume and unmuted is the default', () => {
+    expect(isDefaultAudioPreference({ volume: 1, muted: false })).toBe(true);
+    expect(isDefaultAudioPreference({ volume: 0.9, muted: false })).toBe(false);
+    expect(isDefaultAudioPreference({ volume: 1, muted: true })).toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { validatePhone, formatPhoneDisplay, getDialCode, getPhonePlaceholder, getMaxPhoneLength } from '../../lib/phoneUtils';
+import { validatePhone, formatPhoneDisplay, getDialCode, getPhonePlaceholder, getMaxPhoneLength, detectCountryFromPhone, normalizeContactPhone } from '../../lib/phoneUtils';
 
 describe('phoneUtils', () => {
   describe('getDialCode', () => {
@@ -109,4 +109,38 @@ describe('phoneUtils', () => {
       expect(getMaxPhoneLength('ZZ' as any)).toBe(15);
     });
   });
+
+  describe('detectCountryFromPhone', () => {
+    test('detects country by dial code', () => {
+      expect(detectCountryFromPhone('+447911123456')).toBe('GB');
+    });
+
+    test('prefers the longest matching dial code', () => {
+      expect(detectCountryFromPhone('+18765551234')).toBe('JM');
+    });
+
+    test('returns null for missing phone', () => {
+      expect(detectCountryFromPhone(undefined)).toBeNull();
+    });
+  });
+
+  describe('normalizeContactPhone', () => {
+    test('uses region for national numbers', () => {
+      expect(normalizeContactPhone('07911 123456', 'GB' as any)).toBe('+447911123456');
+    });
+
+    test('strips NANP trunk prefix', () => {
+      expect(normalizeContactPhone('1 (555) 123-4567', 'US' as any)).toBe('+15551234567');
+    });
+
+    test('keeps country code of international numbers', () => {
+      expect(normalizeContactPhone('+49 151 12345678', 'US' as any)).toBe('+4915112345678');
+      expect(normalizeContactPhone('0049 151 12345678', 'GB' as any)).toBe('+4915112345678');
+      expect(normalizeContactPhone('011 49 151 12345678', 'US' as any)).toBe('+4915112345678');
+    });
+
+    test('returns empty string for invalid numbers', () => {
+      expect(normalizeContactPhone('123', 'US' as any)).toBe('');
+    });
+  });
 });
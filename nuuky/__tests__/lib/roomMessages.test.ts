@@ -0,0 +1,182 @@
+const mockSendRoomData = jest.fn();
+const mockGetLocalParticipantId = jest.fn();
+jest.mock('../../lib/livekit', () => ({
+  sendRoomData: (...args: any[]) => mockSendRoomData(...args),
+  getLocalParticipantId: () => mockGetLocalParticipantId(),
+}));
+
+jest.mock('../../lib/logger', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+  ROOM_MESSAGE_VERSION,
+  decodeRoomMessage,
+  dispatchRoomData,
+  encodeRoomMessage,
+  onRoomMessage,
+  resetRoomMessageLimits,
+  sendRoomMessage,
+} from '../../lib/roomMessages';
+
+const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+const reaction = (overrides: Record<string, unknown> = {}) => ({
+  v: ROOM_MESSAGE_VERSION,
+  type: 'sound_reaction',
+  senderId: 'user-2',
+  sentAt: 1792591200000,
+  payload: { soundId: 'laugh', senderName: 'Sam' },
+  ...overrides,
+});
+
+describe('decodeRoomMessage', () => {
+  test('round-trips an encoded message', () => {
+    const message = reaction() as any;
+    expect(decodeRoomMessage(encodeRoomMessage(message))).toEqual(message);
+  });
+
+  test('upgrades bare sound reactions from older clients', () => {
+    const legacy = encode({
+      type: 'sound_reaction',
+      soundId: 'wow',
+      senderId: 'user-2',
+      senderName: 'Sam',
+      timestamp: 1792591200000,
+    });
+    expect(decodeRoomMessage(legacy)).toEqual({
+      v: ROOM_MESSAGE_VERSION,
+      type: 'sound_reaction',
+      senderId: 'user-2',
+      sentAt: 1792591200000,
+      payload: { soundId: 'wow', senderName: 'Sam', senderAvatarUrl: undefined },
+    });
+  });
+
+  test('drops malformed, unknown and future packets', () => {
+    expect(decodeRoomMessage(new TextEncoder().encode('not json'))).toBeNull();
+    expect(decodeRoomMessage(encode([1, 2, 3]))).toBeNull();
+    expect(decodeRoomMessage(new Uint8Array(0))).toBeNull();
+    expect(decodeRoomMessage(encode(reaction({ type: 'teleport' })))).toBeNull();
+    expect(decodeRoomMessage(encode(reaction({ type: 'toString' })))).toBeNull();
+    expect(decodeRoomMessage(encode(reaction({ v: ROOM_MESSAGE_VERSION + 1 })))).toBeNull();
+    expect(decodeRoomMessage(encode(reaction({ senderId: '' })))).toBeNull();
+    expect(decodeRoomMessage(encode(reaction({ sentAt: 'yesterday' })))).toBeNull();
+    expect(decodeRoomMessage(encode(reaction({ payload: { soundId: 'explode', senderName: 'Sam' } })))).toBeNull();
+    expect(decodeRoomMessage(encode(reaction({ payload: { soundId: 'laugh' } })))).toBeNull();
+  });
+
+  test('validates lo-fi sync payloads', () => {
+    const sync = (payload: Record<string, unknown>) => reaction({
+      type: 'lofi_sync',
+      payload: { sessionId: 's1', active: true, track: 'neutral', playing: true, positionMs: 1200, ...payload },
+    });
+
+    expect(decodeRoomMessage(encode(sync({})))).toEqual(expect.objectContaining({ type: 'lofi_sync' }));
+    expect(decodeRoomMessage(encode(sync({ track: 'metal' })))).toBeNull();
+    expect(decodeRoomMessage(encode(sync({ positionMs: -5 })))).toBeNull();
+    expect(decodeRoomMessage(encode(sync({ playing: 'yes' })))).toBeNull();
+    expect(decodeRoomMessage(encode(sync({ sessionId: '' })))).toBeNull();
+  });
+
+  test('drops oversized packets without parsing them', () => {
+    const huge = reaction({ payload: { soundId: 'laugh', senderName: 'x'.repeat(20000) } });
+    expect(decodeRoomMessage(encode(huge))).toBeNull();
+  });
+});
+
+describe('dispatchRoomData', () => {
+  let unsubscribe: () => void;
+  const handler = jest.fn();
+
+  beforeEach(() => {
+    handler.mockReset();
+    resetRoomMessageLimits();
+    unsubscribe = onRoomMessage('sound_reaction', handler);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  test('delivers valid messages to handlers for their type', () => {
+    expect(dispatchRoomData(encode(reaction()), 'user-2')).toBe(true);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'sound_reaction',
+      senderId: 'user-2',
+      payload: { soundId: 'laugh', senderName: 'Sam' },
+    }));
+  });
+
+  test('drops messages whose sender does not match the LiveKit identity', () => {
+    expect(dispatchRoomData(encode(reaction()), 'user-3')).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('rate limits each sender separately', () => {
+    expect(dispatchRoomData(encode(reaction()), 'user-2')).toBe(true);
+    expect(dispatchRoomData(encode(reaction()), 'user-2')).toBe(true);
+    expect(dispatchRoomData(encode(reaction()), 'user-2')).toBe(false);
+
+    const other = reaction({ senderId: 'user-4' });
+    expect(dispatchRoomData(encode(other), 'user-4')).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  test('lets a sender through again once the window passes', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    dispatchRoomData(encode(reaction()), 'user-2');
+    dispatchRoomData(encode(reaction()), 'user-2');
+    expect(dispatchRoomData(encode(reaction()), 'user-2')).toBe(false);
+
+    now.mockReturnValue(10000);
+    expect(dispatchRoomData(encode(reaction()), 'user-2')).toBe(true);
+    now.mockRestore();
+  });
+
+  test('keeps dispatching when a handler throws', () => {
+    const second = jest.fn();
+    const stop = onRoomMessage('sound_reaction', second);
+    handler.mockImplementation(() => {
+      throw new Error('boom');
+    });
+
+    expect(dispatchRoomData(encode(reaction()), 'user-2')).toBe(true);
+    expect(second).toHaveBeenCalled();
+    stop();
+  });
+
+  test('stops delivering after unsubscribe', () => {
+    unsubscribe();
+    dispatchRoomData(encode(reaction()), 'user-2');
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('sendRoomMessage', () => {
+  beforeEach(() => {
+    mockSendRoomData.mockReset().mockResolvedValue(true);
+    mockGetLocalParticipantId.mockReset();
+  });
+
+  test('wraps the payload in an envelope from the local participant', async () => {
+    mockGetLocalParticipantId.mockReturnValue('user-1');
+
+    await expect(sendRoomMessage('sound_reaction', { soundId: 'party', senderName: 'Alex' })).resolves.toBe(true);
+
+    const sent = decodeRoomMessage(mockSendRoomData.mock.calls[0][0]);
+    expect(sent).toEqual(expect.objectContaining({
+      v: ROOM_MESSAGE_VERSION,
+      type: 'sound_reaction',
+      senderId: 'user-1',
+      payload: { soundId: 'party', senderName: 'Alex' },
+    }));
+  });
+
+  test('does nothing when not connected', async () => {
+    mockGetLocalParticipantId.mockReturnValue(null);
+
+    await expect(sendRoomMessage('sound_reaction', { soundId: 'party', senderName: 'Alex' })).resolves.toBe(false);
+    expect(mockSendRoomData).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import { countHere, countInCall, describeRoomPresence, isInCall } from '../../lib/roomPresence';
+import { RoomParticipant, User } from '../../types';
+
+const participant = (overrides: Partial<RoomParticipant> = {}): RoomParticipant => ({
+  id: 'p1',
+  room_id: 'room-1',
+  user_id: 'user-1',
+  is_muted: false,
+  joined_at: '2026-10-29T12:00:00Z',
+  ...overrides,
+});
+
+describe('isInCall', () => {
+  test('is true only while an audio session is open', () => {
+    expect(isInCall(participant({ audio_joined_at: '2026-10-29T12:01:00Z' }))).toBe(true);
+    expect(isInCall(participant({
+      audio_joined_at: '2026-10-29T12:01:00Z',
+      audio_left_at: '2026-10-29T12:05:00Z',
+    }))).toBe(false);
+    expect(isInCall(participant())).toBe(false);
+  });
+});
+
+describe('countInCall', () => {
+  test('ignores members whose session ended', () => {
+    expect(countInCall([
+      participant({ audio_joined_at: '2026-10-29T12:01:00Z' }),
+      participant({ id: 'p2', audio_joined_at: '2026-10-29T12:01:00Z', audio_left_at: '2026-10-29T12:02:00Z' }),
+      participant({ id: 'p3' }),
+    ])).toBe(1);
+  });
+});
+
+const withUser = (overrides: Partial<User>): Partial<RoomParticipant> => ({
+  user: { id: 'user-1', is_online: true, last_seen_at: new Date().toISOString(), ...overrides } as User,
+});
+
+const anHourAgo = () => new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+describe('countHere', () => {
+  test('leaves out members whose app stopped checking in', () => {
+    expect(countHere([
+      participant(withUser({})),
+      participant({ id: 'p2', ...withUser({ is_online: false }) }),
+      participant({ id: 'p3', ...withUser({ last_seen_at: anHourAgo() }) }),
+    ])).toBe(1);
+  });
+
+  test('counts members whose presence is not shared with us', () => {
+    expect(countHere([
+      participant({ user: { id: 'user-1', display_name: 'Friend', avatar_url: null } as unknown as User }),
+    ])).toBe(1);
+  });
+
+  test('counts members in the call even while their heartbeat lags', () => {
+    expect(countHere([
+      participant({ audio_joined_at: '2026-10-29T12:01:00Z', ...withUser({ is_online: false }) }),
+    ])).toBe(1);
+  });
+});
+
+describe('describeRoomPresence', () => {
+  test('adds the call count when anyone is connected', () => {
+    expect(describeRoomPresence([
+      participant({ audio_joined_at: '2026-10-29T12:01:00Z' }),
+      participant({ id: 'p2' }),
+    ])).toBe('2 people here · 1 in the call');
+  });
+
+  test('falls back to the member count', () => {
+    expect(describeRoomPresence([participant()])).toBe('1 person here');
+  });
+
+  test('does not count a crashed app as here', () => {
+    expect(describeRoomPresence([
+      participant(withUser({})),
+      participant({
+        id: 'p2',
+        audio_joined_at: '2026-10-29T12:01:00Z',
+        audio_left_at: '2026-10-29T12:05:00Z',
+        ...withUser({ last_seen_at: anHourAgo() }),
+      }),
+    ])).toBe('1 person here');
+  });
+});
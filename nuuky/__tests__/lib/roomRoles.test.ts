@@ -0,0 +1,73 @@
+import {
+  canAssignRoles,
+  canModerate,
+  describeListenerSeat,
+  getParticipantRole,
+  getSpeakRequests,
+} from '../../lib/roomRoles';
+import { RoomParticipant } from '../../types';
+
+const participant = (overrides: Partial<RoomParticipant> = {}): RoomParticipant => ({
+  id: 'p1',
+  room_id: 'room-1',
+  user_id: 'user-1',
+  is_muted: false,
+  joined_at: '2026-10-27T12:00:00Z',
+  ...overrides,
+});
+
+describe('getParticipantRole', () => {
+  test('treats the creator as owner', () => {
+    expect(getParticipantRole(participant({ role: 'member' }), 'user-1')).toBe('owner');
+  });
+
+  test('uses the stored role, defaulting to member', () => {
+    expect(getParticipantRole(participant({ role: 'listener' }), 'someone-else')).toBe('listener');
+    expect(getParticipantRole(participant(), 'someone-else')).toBe('member');
+  });
+});
+
+describe('canModerate', () => {
+  test('owners moderate everyone but owners', () => {
+    expect(canModerate('owner', 'moderator')).toBe(true);
+    expect(canModerate('owner', 'listener')).toBe(true);
+    expect(canModerate('owner', 'owner')).toBe(false);
+  });
+
+  test('moderators only moderate members and listeners', () => {
+    expect(canModerate('moderator', 'member')).toBe(true);
+    expect(canModerate('moderator', 'listener')).toBe(true);
+    expect(canModerate('moderator', 'moderator')).toBe(false);
+    expect(canModerate('moderator', 'owner')).toBe(false);
+  });
+
+  test('members and listeners moderate nobody', () => {
+    expect(canModerate('member', 'listener')).toBe(false);
+    expect(canModerate('listener', 'member')).toBe(false);
+  });
+});
+
+describe('canAssignRoles', () => {
+  test('only owners assign roles', () => {
+    expect(canAssignRoles('owner')).toBe(true);
+    expect(canAssignRoles('moderator')).toBe(false);
+  });
+});
+
+describe('describeListenerSeat', () => {
+  test('mentions reactions only when the room allows them', () => {
+    expect(describeListenerSeat(true)).toBe('Listening · you can react');
+    expect(describeListenerSeat(false)).toBe('Listen only');
+  });
+});
+
+describe('getSpeakRequests', () => {
+  test('returns listeners with a pending request, oldest first', () => {
+    const later = participant({ id: 'p2', user_id: 'u2', role: 'listener', speak_requested_at: '2026-10-28T10:05:00Z' });
+    const earlier = participant({ id: 'p3', user_id: 'u3', role: 'listener', speak_requested_at: '2026-10-28T10:00:00Z' });
+    const quiet = participant({ id: 'p4', user_id: 'u4', role: 'listener' });
+    const member = participant({ id: 'p5', user_id: 'u5', role: 'member', speak_requested_at: '2026-10-28T09:00:00Z' });
+
+    expect(getSpeakRequests([later, quiet, member, earlier])).toEqual([earlier, later]);
+  });
+});
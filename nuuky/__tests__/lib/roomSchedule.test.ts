@@ -0,0 +1,98 @@
+import {
+  getNextOccurrence,
+  formatRoomSchedule,
+  describeUpcomingStart,
+  formatRsvpSummary,
+} from '../../lib/roomSchedule';
+
+// 2026-10-19 is a Monday
+const at = (iso: string) => new Date(iso);
+
+describe('getNextOccurrence', () => {
+  test('returns a later slot on the same day', () => {
+    const next = getNextOccurrence([1], '20:00', 'UTC', at('2026-10-19T12:00:00Z'));
+    expect(next?.toISOString()).toBe('2026-10-19T20:00:00.000Z');
+  });
+
+  test('skips to the next matching weekday', () => {
+    // Tuesday study hall, asked on Monday evening after 20:00
+    const next = getNextOccurrence([2], '20:00:00', 'UTC', at('2026-10-19T21:00:00Z'));
+    expect(next?.toISOString()).toBe('2026-10-20T20:00:00.000Z');
+  });
+
+  test('rolls over a week when today\'s slot has passed', () => {
+    const next = getNextOccurrence([1], '20:00', 'UTC', at('2026-10-19T20:00:00Z'));
+    expect(next?.toISOString()).toBe('2026-10-26T20:00:00.000Z');
+  });
+
+  test('uses the schedule\'s timezone', () => {
+    // 20:00 in Berlin is 18:00 UTC during summer time
+    const next = getNextOccurrence([1], '20:00', 'Europe/Berlin', at('2026-10-19T12:00:00Z'));
+    expect(next?.toISOString()).toBe('2026-10-19T18:00:00.000Z');
+  });
+
+  test('keeps the wall-clock time across a DST change', () => {
+    // Berlin leaves summer time on 2026-10-25, so the next Monday is UTC+1
+    const next = getNextOccurrence([1], '20:00', 'Europe/Berlin', at('2026-10-19T19:00:00Z'));
+    expect(next?.toISOString()).toBe('2026-10-26T19:00:00.000Z');
+  });
+
+  test('local weekday can differ from the UTC one', () => {
+    // Monday 23:00 UTC is already Tuesday morning in Tokyo
+    const next = getNextOccurrence([2], '09:00', 'Asia/Tokyo', at('2026-10-19T23:00:00Z'));
+    expect(next?.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+  });
+});
+
+describe('formatRoomSchedule', () => {
+  test('describes a weekly slot', () => {
+    expect(
+      formatRoomSchedule({ starts_at: null, days: [2], start_time: '20:00:00', next_start_at: '2026-10-20T20:00:00Z' })
+    ).toBe('Tue · 20:00');
+    expect(
+      formatRoomSchedule({ starts_at: null, days: [1, 2, 3, 4, 5], start_time: '08:30:00', next_start_at: '2026-10-20T08:30:00Z' })
+    ).toBe('Weekdays · 08:30');
+  });
+
+  test('describes a one-off start in the given timezone', () => {
+    expect(
+      formatRoomSchedule(
+        { starts_at: '2026-10-23T21:00:00Z', days: null, start_time: null, next_start_at: '2026-10-23T21:00:00Z' },
+        'UTC'
+      )
+    ).toBe('Fri, Oct 23 · 21:00');
+  });
+});
+
+describe('describeUpcomingStart', () => {
+  const now = at('2026-10-19T12:00:00Z');
+
+  test('open rooms are live', () => {
+    expect(describeUpcomingStart({ next_start_at: '2026-10-19T11:30:00Z', is_open: true }, now, 'UTC')).toBe('Live now');
+  });
+
+  test('counts down within the hour', () => {
+    expect(describeUpcomingStart({ next_start_at: '2026-10-19T12:12:00Z', is_open: false }, now, 'UTC')).toBe('Starts in 12 min');
+  });
+
+  test('names today and tomorrow', () => {
+    expect(describeUpcomingStart({ next_start_at: '2026-10-19T20:00:00Z', is_open: false }, now, 'UTC')).toBe('Today · 20:00');
+    expect(describeUpcomingStart({ next_start_at: '2026-10-20T20:00:00Z', is_open: false }, now, 'UTC')).toBe('Tomorrow · 20:00');
+  });
+
+  test('falls back to the date further out', () => {
+    expect(describeUpcomingStart({ next_start_at: '2026-10-23T21:00:00Z', is_open: false }, now, 'UTC')).toBe('Fri, Oct 23 · 21:00');
+  });
+});
+
+describe('formatRsvpSummary', () => {
+  test('counts going and maybe', () => {
+    expect(formatRsvpSummary({ going_count: 3, maybe_count: 1, invited_count: 6 })).toBe('3 going · 1 maybe');
+    expect(formatRsvpSummary({ going_count: 2, maybe_count: 0, invited_count: 2 })).toBe('2 going');
+  });
+
+  test('shows invites before anyone answers', () => {
+    expect(formatRsvpSummary({ going_count: 0, maybe_count: 0, invited_count: 4 })).toBe('4 invited');
+    expect(formatRsvpSummary({ going_count: 0, maybe_count: 0, invited_count: 0 })).toBe('Just you so far');
+  });
+});
@@ -179,6 +179,29 @@ describe('appStore', () => {
     expect(useAppStore.getState().unreadNotificationCount).toBe(1);
   });
 
+  test('addNotification moves a grown group back to the top', () => {
+    const group = mockNotification({ id: 'g1', group_key: 'nudge:maya', group_count: 2, is_read: false });
+    const other = mockNotification({ id: 'n2', is_read: true });
+    act(() => { useAppStore.getState().setNotifications([other, group]); });
+
+    act(() => { useAppStore.getState().addNotification({ ...group, group_count: 3 }); });
+
+    const { notifications, unreadNotificationCount } = useAppStore.getState();
+    expect(notifications.map((n) => n.id)).toEqual(['g1', 'n2']);
+    expect(notifications[0].group_count).toBe(3);
+    expect(unreadNotificationCount).toBe(1);
+  });
+
+  test('addNotification ignores a group it already has', () => {
+    const group = mockNotification({ id: 'g1', group_key: 'nudge:maya', group_count: 2 });
+    const other = mockNotification({ id: 'n2' });
+    act(() => { useAppStore.getState().setNotifications([other, group]); });
+
+    act(() => { useAppStore.getState().addNotification({ ...group }); });
+
+    expect(useAppStore.getState().notifications.map((n) => n.id)).toEqual(['n2', 'g1']);
+  });
+
   test('markNotificationRead decrements count', () => {
     const n = mockNotification({ is_read: false });
     act(() => { useAppStore.getState().setNotifications([n]); });
@@ -255,6 +278,43 @@ describe('appStore', () => {
     expect(useAppStore.getState().speakingParticipants).toHaveLength(0);
   });
 
+  test('participant audio levels are replaced and cleared with speakers', () => {
+    act(() => { useAppStore.getState().setParticipantAudioLevels({ p1: 0.4, p2: 0 }); });
+    const levels = useAppStore.getState().participantAudioLevels;
+    expect(levels).toEqual({ p1: 0.4, p2: 0 });
+
+    // Same levels keep the same object so meters don't re-render
+    act(() => { useAppStore.getState().setParticipantAudioLevels({ p1: 0.4, p2: 0 }); });
+    expect(useAppStore.getState().participantAudioLevels).toBe(levels);
+
+    act(() => { useAppStore.getState().clearSpeakingParticipants(); });
+    expect(useAppStore.getState().participantAudioLevels).toEqual({});
+  });
+
+  test('participant volume and local mute are kept per friend', () => {
+    act(() => { useAppStore.getState().setParticipantVolume('f1', 0.5); });
+    expect(useAppStore.getState().participantAudioPreferences.f1).toEqual({ volume: 0.5, muted: false });
+
+    act(() => { useAppStore.getState().setParticipantMuted('f1', true); });
+    expect(useAppStore.getState().participantAudioPreferences.f1).toEqual({ volume: 0.5, muted: true });
+
+    // Back to full volume and unmuted drops the entry
+    act(() => {
+      useAppStore.getState().setParticipantMuted('f1', false);
+      useAppStore.getState().setParticipantVolume('f1', 1);
+    });
+    expect(useAppStore.getState().participantAudioPreferences).toEqual({});
+  });
+
+  test('mic mode and sensitivity are remembered per room', () => {
+    act(() => {
+      useAppStore.getState().setRoomMicMode('r1', 'voice_activity');
+      useAppStore.getState().setRoomVadThreshold('r1', 0.95);
+    });
+    expect(useAppStore.getState().roomMicSettings.r1).toEqual({ mode: 'voice_activity', vadThreshold: 0.9 });
+    expect(useAppStore.getState().roomMicSettings.r2).toBeUndefined();
+  });
+
   // === Default/Home Room ===
   test('setDefaultRoomId and setHomeRoomId', () => {
     act(() => {
@@ -103,6 +103,12 @@ export default function MainLayout() {
           contentStyle: { backgroundColor: "transparent" },
         }}
       />
+      <Stack.Screen
+        name="streak/[friendId]"
+        options={{
+          headerShown: false,
+        }}
+      />
       <Stack.Screen
         name="privacy-policy"
         options={{
@@ -26,9 +26,12 @@ import Animated, {
 } from "react-native-reanimated";
 import { useFriends } from "../../hooks/useFriends";
 import { useSafety } from "../../hooks/useSafety";
+import { useAnchorCheckIns } from "../../hooks/useAnchorCheckIns";
 import { useTheme } from "../../hooks/useTheme";
+import { useCurrentUser } from "../../stores/appStore";
 import { spacing, radius } from "../../lib/theme";
-import { User, Friendship } from "../../types";
+import { describeAnchorCheckIn } from "../../lib/anchorCheckIns";
+import { User, Friendship, AnchorCheckIn } from "../../types";
 
 // Fuzzy match function for typo-tolerant search
 const fuzzyMatch = (query: string, text: string): boolean => {
@@ -42,16 +45,29 @@ const fuzzyMatch = (query: string, text: string): boolean => {
   return qIndex === q.length;
 };
 
+const formatCheckInDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+
 export default function AddAnchorScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { theme, accent } = useTheme();
 
+  const currentUserId = useCurrentUser()?.id;
   const { friends } = useFriends();
   const { anchors, addAnchor, loading } = useSafety();
+  const {
+    myCheckIns,
+    anchoredCheckIns,
+    openCheckIn,
+    confirmCheckIn,
+    acknowledgeCheckIn,
+  } = useAnchorCheckIns();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [addingId, setAddingId] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
   const [visible, setVisible] = useState(true);
 
   const progress = useSharedValue(0);
@@ -119,6 +135,27 @@ export default function AddAnchorScreen() {
     [addAnchor, handleClose]
   );
 
+  const handleConfirmCheckIn = useCallback(async () => {
+    setConfirming(true);
+    try {
+      await confirmCheckIn();
+    } finally {
+      setConfirming(false);
+    }
+  }, [confirmCheckIn]);
+
+  const handleAcknowledge = useCallback(
+    async (checkInId: string) => {
+      setAcknowledgingId(checkInId);
+      try {
+        await acknowledgeCheckIn(checkInId);
+      } finally {
+        setAcknowledgingId(null);
+      }
+    },
+    [acknowledgeCheckIn]
+  );
+
   const backdropStyle = useAnimatedStyle(() => ({
     opacity: progress.value,
   }));
@@ -190,6 +227,74 @@ export default function AddAnchorScreen() {
     [addingId, loading, handleAddAnchor, theme, accent]
   );
 
+  // Someone else's escalated check-in, seen by one of their anchors
+  const renderAnchoredCheckIn = (checkIn: AnchorCheckIn) => {
+    const name = checkIn.user?.display_name || "Your friend";
+    const acknowledged = checkIn.acks?.some((ack) => ack.anchor_id === currentUserId);
+    const canAcknowledge = checkIn.status === "escalated" && !acknowledged;
+    const isAcknowledging = acknowledgingId === checkIn.id;
+
+    return (
+      <View
+        key={checkIn.id}
+        style={[
+          styles.checkInCard,
+          {
+            backgroundColor: theme.colors.glass.background,
+            borderColor: theme.colors.glass.border,
+          },
+        ]}
+      >
+        <Text style={[styles.checkInTitle, { color: theme.colors.text.primary }]} numberOfLines={1}>
+          {name}
+        </Text>
+        <Text style={[styles.checkInDetail, { color: theme.colors.text.secondary }]}>
+          {describeAnchorCheckIn(checkIn, name)}
+        </Text>
+        <Text style={[styles.checkInDate, { color: theme.colors.text.tertiary }]}>
+          {formatCheckInDate(checkIn.escalated_at || checkIn.asked_at)}
+        </Text>
+        {canAcknowledge && (
+          <TouchableOpacity
+            style={[styles.checkInButton, { backgroundColor: accent.soft }]}
+            onPress={() => handleAcknowledge(checkIn.id)}
+            disabled={isAcknowledging}
+            activeOpacity={0.7}
+          >
+            {isAcknowledging ? (
+              <ActivityIndicator size="small" color={accent.primary} />
+            ) : (
+              <Text style={[styles.checkInButtonText, { color: accent.primary }]}>
+                I'm following up
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  // One of the user's own check-ins
+  const renderMyCheckIn = (checkIn: AnchorCheckIn) => (
+    <View
+      key={checkIn.id}
+      style={[
+        styles.checkInCard,
+        {
+          backgroundColor: theme.colors.glass.background,
+          borderColor: theme.colors.glass.border,
+        },
+      ]}
+    >
+      <Text style={[styles.checkInDetail, { color: theme.colors.text.secondary }]}>
+        {describeAnchorCheckIn(checkIn)}
+      </Text>
+      <Text style={[styles.checkInDate, { color: theme.colors.text.tertiary }]}>
+        {formatCheckInDate(checkIn.asked_at)} · after {checkIn.threshold_hours}h inactive
+      </Text>
+    </View>
+  );
+
   return (
     <Modal
       visible={visible}
@@ -229,6 +334,42 @@ export default function AddAnchorScreen() {
             showsVerticalScrollIndicator={false}
             keyboardShouldPersistTaps="handled"
           >
+            {/* Unanswered "are you okay?" */}
+            {openCheckIn && (
+              <View
+                style={[
+                  styles.checkInCard,
+                  {
+                    backgroundColor: theme.colors.glass.background,
+                    borderColor: accent.primary,
+                  },
+                ]}
+              >
+                <Text style={[styles.checkInTitle, { color: theme.colors.text.primary }]}>
+                  Are you okay?
+                </Text>
+                <Text style={[styles.checkInDetail, { color: theme.colors.text.secondary }]}>
+                  {openCheckIn.status === "escalated"
+                    ? "Your anchors were alerted. Let them know you're fine."
+                    : "We haven't seen you in a while. Confirm so your anchors aren't alerted."}
+                </Text>
+                <TouchableOpacity
+                  style={[styles.checkInButton, { backgroundColor: accent.soft }]}
+                  onPress={handleConfirmCheckIn}
+                  disabled={confirming}
+                  activeOpacity={0.7}
+                >
+                  {confirming ? (
+                    <ActivityIndicator size="small" color={accent.primary} />
+                  ) : (
+                    <Text style={[styles.checkInButtonText, { color: accent.primary }]}>
+                      I'm okay
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
             {/* Search Bar */}
             {availableFriends.length > 0 && (
               <View
@@ -318,6 +459,29 @@ export default function AddAnchorScreen() {
                 )}
               </View>
             )}
+
+            {/* Escalated check-ins of people who picked this user as an anchor */}
+            {anchoredCheckIns.length > 0 && (
+              <View style={styles.section}>
+                <Text
+                  style={[styles.sectionTitle, { color: theme.colors.text.tertiary }]}
+                >
+                  PEOPLE YOU ANCHOR
+                </Text>
+                {anchoredCheckIns.map(renderAnchoredCheckIn)}
+              </View>
+            )}
+
+            {myCheckIns.length > 0 && (
+              <View style={styles.section}>
+                <Text
+                  style={[styles.sectionTitle, { color: theme.colors.text.tertiary }]}
+                >
+                  YOUR CHECK-IN HISTORY
+                </Text>
+                {myCheckIns.map(renderMyCheckIn)}
+              </View>
+            )}
           </ScrollView>
           </KeyboardAvoidingView>
 
@@ -468,6 +632,37 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  checkInCard: {
+    padding: 14,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    marginBottom: 10,
+    gap: 4,
+  },
+  checkInTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  checkInDetail: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  checkInDate: {
+    fontSize: 12,
+  },
+  checkInButton: {
+    alignSelf: "flex-start",
+    marginTop: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: radius.md,
+    minWidth: 120,
+    alignItems: "center",
+  },
+  checkInButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
   emptyState: {
     alignItems: "center",
     paddingVertical: 48,
@@ -35,10 +35,11 @@ import { useContactSync } from "../../hooks/useContactSync";
 import { useInvite } from "../../hooks/useInvite";
 import { useStreaks } from "../../hooks/useStreaks";
 import { useRoom } from "../../hooks/useRoom";
+import { useSafety } from "../../hooks/useSafety";
 import { useAppStore } from "../../stores/appStore";
 import { useTheme } from "../../hooks/useTheme";
 import { spacing, radius, interactionStates } from "../../lib/theme";
-import { User, MatchedContact, Friendship } from "../../types";
+import { User, MatchedContact, Friendship, Streak } from "../../types";
 import { useUserSearch } from "../../hooks/useUserSearch";
 import { SwipeableFriendCard } from "../../components/SwipeableFriendCard";
 import { PickRoomModal } from "../../components/PickRoomModal";
@@ -92,6 +93,7 @@ export default function FriendsScreen() {
   const { loading: syncLoading, hasSynced, matches, syncContacts } = useContactSync();
   const { sending, shareInvite } = useInvite();
   const { inviteFriendToRoom } = useRoom();
+  const { blockUser } = useSafety();
   const { myRooms } = useAppStore();
 
   const { streaks } = useStreaks();
@@ -339,6 +341,14 @@ export default function FriendsScreen() {
     removeFriendship(friend.id);
   }, [removeFriendship]);
 
+  const handleBlockFriend = useCallback((friendship: Friendship) => {
+    blockUser(friendship.friend_id);
+  }, [blockUser]);
+
+  const handleStreakPress = useCallback((streak: Streak) => {
+    router.push(`/(main)/streak/${streak.friend_id}`);
+  }, [router]);
+
   const handleToggleFavorite = useCallback((friendId: string) => {
     toggleFavoriteFriend(friendId);
   }, [toggleFavoriteFriend]);
@@ -453,13 +463,15 @@ export default function FriendsScreen() {
         friendship={friendship}
         onPress={() => handleInviteToRoom(friendship)}
         onRemove={handleRemoveFriend}
+        onBlock={handleBlockFriend}
         onToggleFavorite={handleToggleFavorite}
         isFavorite={favoriteFriends.includes(friendship.friend_id)}
         textPrimaryColor={theme.colors.text.primary}
         streak={streakMap.get(friendship.friend_id)}
+        onStreakPress={handleStreakPress}
       />
     ),
-    [handleRemoveFriend, handleInviteToRoom, handleToggleFavorite, favoriteFriends, theme.colors.text.primary, streakMap]
+    [handleRemoveFriend, handleBlockFriend, handleInviteToRoom, handleToggleFavorite, handleStreakPress, favoriteFriends, theme.colors.text.primary, streakMap]
   );
 
   const renderSectionHeader = useCallback(
@@ -47,7 +47,7 @@ try {
   };
 }
 import { useAppStore, useCurrentUser, useFriendsStore, useSpeakingParticipants, useActiveCustomMood, useHasHydrated } from "../../stores/appStore";
-import { User } from "../../types";
+import { User, Friendship, MicMode } from "../../types";
 import { MoodPicker } from "../../components/MoodPicker";
 
 const PRESENCE_REFRESH_THROTTLE_MS = 10000; // 10 seconds - reduced from 3s for battery
@@ -83,6 +83,9 @@ import { SoundReactionPicker } from "../../components/SoundReactionPicker";
 import { SoundReactionToast } from "../../components/SoundReactionToast";
 import { useSoundReactions } from "../../hooks/useSoundReactions";
 import { playPreview, stopPreview } from "../../lib/soundPlayer";
+import { describeFlareEscalation } from "../../lib/flareEscalation";
+import { FLARE_RESPONSE_OPTIONS } from "../../lib/flareResponses";
+import { FlareResponsesPanel } from "../../components/FlareResponsesPanel";
 import { LofiMusicMenu } from "../../components/LofiMusicMenu";
 import { NotificationsModal } from "../../components/NotificationsModal";
 import { useLofiMusic } from "../../hooks/useLofiMusic";
@@ -94,6 +97,7 @@ import { useVoiceMoment } from "../../hooks/useVoiceMoment";
 import { PhotoNudgeViewer } from "../../components/PhotoNudgeViewer";
 import { VoiceMomentPlayer } from "../../components/VoiceMomentPlayer";
 import { useHomeModals } from "../../hooks/useHomeModals";
+import { useScheduledRooms } from "../../hooks/useScheduledRooms";
 
 const { width, height } = Dimensions.get("window");
 const CENTER_X = width / 2;
@@ -109,13 +113,22 @@ export default function QuantumOrbitScreen() {
   const hasHydrated = useHasHydrated();
   const friends = useFriendsStore();
   const speakingParticipants = useSpeakingParticipants();
+  const myAudioLevel = useAppStore((s) => (currentUser?.id ? s.participantAudioLevels[currentUser.id] ?? 0 : undefined));
   const activeCustomMood = useActiveCustomMood();
   const setFriends = useAppStore((s) => s.setFriends);
   const { currentMood, changeMood } = useMood();
   const { customMoods, createCustomMood, selectCustomMood, deleteCustomMood, captureMoodImage, pickMoodImage, imageLoading: moodImageLoading } = useCustomMood();
   const { sendNudge } = useNudge();
   const { sendCallMe } = useCallMe();
-  const { sendFlare, activeFlares, myActiveFlare } = useFlare();
+  const {
+    sendFlare,
+    activeFlares,
+    myActiveFlare,
+    myFlareResponses,
+    respondToFlare,
+    getFlareResponseRoomId,
+    setFlareResponseRoom,
+  } = useFlare();
   const { streaks, recordInteraction } = useStreaks();
   const { updateActivity } = usePresence();
   const {
@@ -126,9 +139,15 @@ export default function QuantumOrbitScreen() {
     deleteRoom,
     inviteFriendToRoom,
     removeParticipant,
+    muteParticipant,
+    setParticipantRole,
+    allowToSpeak,
+    dismissSpeakRequest,
+    setListenersCanReact,
     myRooms,
   } = useRoom();
   const { roomInvites } = useRoomInvites();
+  const { upcomingRooms, scheduleRoom, rsvp: rsvpToRoom } = useScheduledRooms();
   const { defaultRoom, defaultRoomId, isDefaultRoom, setAsDefaultRoom } = useDefaultRoom();
 
   const { loading: firstTimeLoading } = useFirstTimeRoom();
@@ -139,9 +158,6 @@ export default function QuantumOrbitScreen() {
     return new Date(currentUser.ghost_mode_until) > new Date();
   }, [currentUser?.ghost_mode_until]);
 
-  // Sound reactions hook - needs to be declared before useAudio so we can pass handleDataReceived
-  const soundReactionsRef = useRef<ReturnType<typeof useSoundReactions> | null>(null);
-
   // Count other participants in the room (excluding self) for audio/lofi optimization
   // Returns undefined when room data hasn't loaded yet (to avoid premature auto-play)
   const otherParticipantCount = useMemo((): number | undefined => {
@@ -154,6 +170,7 @@ export default function QuantumOrbitScreen() {
 
   const {
     connectionStatus: audioConnectionStatus,
+    reconnectHistory: audioReconnectHistory,
     isConnecting: isAudioConnecting,
     connect: audioConnect,
     unmute: audioUnmute,
@@ -161,9 +178,14 @@ export default function QuantumOrbitScreen() {
     disconnect: audioDisconnect,
     isConnected: isAudioConnected,
     consumeBackgroundMute,
-  } = useAudio(defaultRoom?.id || null, (data, participant) => {
-    soundReactionsRef.current?.handleDataReceived(data, participant);
-  }, otherParticipantCount);
+    isTransmitting,
+    micMode,
+    vadThreshold,
+    setMicMode,
+    setVadThreshold,
+    pushToTalk,
+  } = useAudio(defaultRoom?.id || null, undefined, otherParticipantCount);
+  const isPushToTalk = micMode === "push_to_talk";
 
   // Sound reactions
   const soundReactions = useSoundReactions({
@@ -174,8 +196,20 @@ export default function QuantumOrbitScreen() {
     isAudioConnected,
   });
 
-  // Lo-fi music (pass participant count so it doesn't auto-play before room data loads)
-  const lofiMusic = useLofiMusic(otherParticipantCount);
+  // Lo-fi music (pass participant count so it doesn't auto-play before room data loads).
+  // The room owner can share their music with everyone in the call.
+  const lofiOwnerName = useMemo(() => {
+    if (!defaultRoom) return null;
+    const roomData = myRooms.find((r) => r.id === defaultRoom.id);
+    const owner = roomData?.participants?.find((p) => p.user_id === defaultRoom.creator_id);
+    return owner?.user?.display_name || defaultRoom.creator?.display_name || null;
+  }, [defaultRoom, myRooms]);
+  const lofiMusic = useLofiMusic(otherParticipantCount, {
+    roomId: defaultRoom?.id,
+    ownerId: defaultRoom?.creator_id,
+    ownerName: lofiOwnerName,
+    isAudioConnected,
+  });
 
   // Invite for empty state
   const { shareInvite } = useInvite();
@@ -188,11 +222,6 @@ export default function QuantumOrbitScreen() {
   // Voice moment
   const { fetchVoiceMoment } = useVoiceMoment();
 
-  // Store ref for the audio callback
-  useEffect(() => {
-    soundReactionsRef.current = soundReactions;
-  }, [soundReactions]);
-
   // Prefetch custom mood image for instant loading
   useEffect(() => {
     const moodImageUrl = activeCustomMood?.image_url;
@@ -268,7 +297,8 @@ export default function QuantumOrbitScreen() {
 
   const { buttonScaleAnim, buttonGlowAnim, ringAnims } = useSpeakingAnimations({
     isCurrentUserSpeaking,
-    isMuted,
+    isMuted: isPushToTalk ? !isTransmitting : isMuted,
+    audioLevel: myAudioLevel,
   });
 
   const currentVibe = useMemo(() => getVibeText(currentUser?.mood || "neutral"), [currentUser?.mood]);
@@ -290,11 +320,17 @@ export default function QuantumOrbitScreen() {
 
   const participantUsers: User[] = useMemo(() => {
     if (!currentUser?.id || roomParticipants.length === 0) return [];
+    // Room rows join the full user profile; swap in the friend projection so
+    // a friend's visibility tier also applies when they share a room with us
+    const projectedById = new Map(friendList.map((f) => [f.id, f]));
     return roomParticipants
-      .map((p) => p.user)
+      .map((p) => {
+        const projected = p.user && projectedById.get(p.user.id);
+        return projected && projected.visibility !== "full" ? projected : p.user;
+      })
       .filter((u): u is User => u !== null && u !== undefined && u.id !== currentUser.id)
       .sort((a, b) => a.id.localeCompare(b.id));
-  }, [roomParticipants, currentUser?.id]);
+  }, [roomParticipants, friendList, currentUser?.id]);
 
   // If we know a default room exists (persisted ID), wait for participant data
   // instead of briefly showing friendList then switching.
@@ -496,34 +532,14 @@ export default function QuantumOrbitScreen() {
     }
 
     try {
-      const { data, error } = await supabase
-        .from("friendships")
-        .select(
-          `
-          *,
-          friend:friend_id (
-            id,
-            display_name,
-            mood,
-            custom_mood_id,
-            is_online,
-            last_seen_at,
-            avatar_url,
-            custom_mood:custom_mood_id (
-              id,
-              emoji,
-              text,
-              color,
-              image_url
-            )
-          )
-        `,
-        )
-        .eq("user_id", currentUser.id)
-        .eq("status", "accepted");
+      // Profiles come back reduced to the visibility tier each friend granted us
+      const { data, error } = await supabase.rpc("get_visible_friends");
 
       if (error) throw error;
-      if (data) setFriends(data);
+      if (data) {
+        const { blockedUserIds } = useAppStore.getState();
+        setFriends(data.filter((f: Friendship) => !blockedUserIds.includes(f.friend_id)));
+      }
       setLoading(false);
     } catch (_error: any) {
       setLoading(false);
@@ -620,6 +636,67 @@ export default function QuantumOrbitScreen() {
     setSelectedFriend(null);
   }, [selectedFriend, router]);
 
+  const selectedFriendFlare = useMemo(
+    () => (selectedFriend ? activeFlares.find((f) => f.user_id === selectedFriend.id) : undefined),
+    [selectedFriend, activeFlares]
+  );
+
+  // Open (or create) a private room with the flare owner; they auto-join it
+  // when the room shows up on their flare responses
+  const openFlareRoom = useCallback(async (flareId: string, owner: User) => {
+    const existingRoomId = await getFlareResponseRoomId(flareId);
+    if (existingRoomId && (await joinRoomFn(existingRoomId))) {
+      router.push(`/(main)/room/${existingRoomId}`);
+      return;
+    }
+
+    const room = await createRoom(`With ${owner.display_name}`, [owner.id]);
+    if (!room) return;
+    await setFlareResponseRoom(flareId, room.id);
+    router.push(`/(main)/room/${room.id}`);
+  }, [getFlareResponseRoomId, joinRoomFn, createRoom, setFlareResponseRoom, router]);
+
+  const handleRespondToFlare = useCallback(() => {
+    if (!selectedFriend || !selectedFriendFlare) return;
+    const owner = selectedFriend;
+    const flareId = selectedFriendFlare.id;
+    setSelectedFriend(null);
+
+    Alert.alert(`Respond to ${owner.display_name}`, "Let them know you're there.", [
+      ...FLARE_RESPONSE_OPTIONS.map((option) => ({
+        text: option.label,
+        onPress: async () => {
+          const success = await respondToFlare(flareId, option.status);
+          if (!success || option.status === "cant") return;
+          Alert.alert("Open a Private Room?", `Talk with ${owner.display_name} in a room just for the two of you.`, [
+            { text: "Not Now", style: "cancel" },
+            { text: "Open Room", onPress: () => { openFlareRoom(flareId, owner); } },
+          ]);
+        },
+      })),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  }, [selectedFriend, selectedFriendFlare, respondToFlare, openFlareRoom]);
+
+  // A responder opened a room for the user's flare: join it right away
+  const joinedFlareRoomIdsRef = useRef(new Set<string>());
+  useEffect(() => {
+    for (const response of myFlareResponses) {
+      const roomId = response.room_id;
+      if (!roomId || joinedFlareRoomIdsRef.current.has(roomId)) continue;
+      joinedFlareRoomIdsRef.current.add(roomId);
+
+      joinRoomFn(roomId).then((joined) => {
+        if (!joined) return;
+        const name = response.responder?.display_name || "A friend";
+        Alert.alert("Room Opened", `${name} opened a private room with you.`, [
+          { text: "Later", style: "cancel" },
+          { text: "Go to Room", onPress: () => router.push(`/(main)/room/${roomId}`) },
+        ]);
+      });
+    }
+  }, [myFlareResponses, joinRoomFn, router]);
+
   const handleOrbPress = useCallback(() => {
     if (showHint) {
       saveInteractionState();
@@ -629,7 +706,10 @@ export default function QuantumOrbitScreen() {
 
   const handleFlarePress = useCallback(async () => {
     if (myActiveFlare) {
-      Alert.alert("Flare Active", "You already have an active flare. Only one flare can be active at a time.");
+      Alert.alert(
+        "Flare Active",
+        `You already have an active flare. Only one flare can be active at a time. ${describeFlareEscalation(myActiveFlare)}`
+      );
       return;
     }
     await sendFlare();
@@ -654,6 +734,25 @@ export default function QuantumOrbitScreen() {
     }
   }, [defaultRoom, isMuted, audioUnmute, audioMute]);
 
+  // Push-to-talk from the mic button or a long press on the orb
+  const handleTalkStart = useCallback(() => {
+    if (!defaultRoom) {
+      Alert.alert("No Room", "Please join or create a room first to use voice chat.");
+      return;
+    }
+    pushToTalk(true);
+  }, [defaultRoom, pushToTalk]);
+
+  const handleTalkEnd = useCallback(() => {
+    pushToTalk(false);
+  }, [pushToTalk]);
+
+  // A new mic mode starts muted
+  const handleMicModeChange = useCallback(async (mode: MicMode) => {
+    await setMicMode(mode);
+    setIsMuted(true);
+  }, [setMicMode]);
+
   // Sound reaction handler alias
   const handleSwipeUpMic = modals.openSoundPicker;
 
@@ -726,6 +825,8 @@ export default function QuantumOrbitScreen() {
           updateActivity();
           handleOrbPress();
         }}
+        onHoldStart={isPushToTalk ? handleTalkStart : undefined}
+        onHoldEnd={isPushToTalk ? handleTalkEnd : undefined}
         hasActiveFlare={!!myActiveFlare}
         mood={currentUser?.mood}
         customMood={activeCustomMood}
@@ -774,6 +875,16 @@ export default function QuantumOrbitScreen() {
           onPhotoNudge={handlePhotoNudge}
           onVoiceMoment={handleVoiceMoment}
           onInteraction={handleStreakInteraction}
+          onRespondToFlare={selectedFriendFlare ? handleRespondToFlare : undefined}
+        />
+      )}
+
+      {myActiveFlare && (
+        <FlareResponsesPanel
+          responses={myFlareResponses}
+          bottomInset={insets.bottom}
+          theme={theme}
+          onOpenRoom={(roomId) => router.push(`/(main)/room/${roomId}`)}
         />
       )}
 
@@ -785,6 +896,7 @@ export default function QuantumOrbitScreen() {
         currentUserId={currentUser?.id}
         currentVibe={currentVibe}
         audioConnectionStatus={audioConnectionStatus}
+        audioReconnectHistory={audioReconnectHistory}
         isLofiPlaying={lofiMusic.isPlaying}
         onNotificationPress={modals.openNotifications}
         onRoomPillPress={modals.openRoomSettings}
@@ -794,7 +906,7 @@ export default function QuantumOrbitScreen() {
       <BottomNavBar
         accent={accent}
         theme={theme}
-        isMuted={isMuted}
+        isMuted={isPushToTalk ? !isTransmitting : isMuted}
         isAudioConnecting={isAudioConnecting}
         hasDefaultRoom={!!defaultRoom}
         myActiveFlare={myActiveFlare}
@@ -807,6 +919,8 @@ export default function QuantumOrbitScreen() {
         onRoomsPress={handleOpenRooms}
         onSettingsPress={() => router.push("/(main)/settings")}
         onSwipeUpMic={handleSwipeUpMic}
+        onTalkStart={isPushToTalk ? handleTalkStart : undefined}
+        onTalkEnd={isPushToTalk ? handleTalkEnd : undefined}
         bottomInset={insets.bottom}
       />
 
@@ -840,11 +954,26 @@ export default function QuantumOrbitScreen() {
           rooms={activeRooms}
           onJoinRoom={modals.handleJoinRoom}
           onCreateRoom={modals.openCreateRoom}
+          upcomingRooms={upcomingRooms}
+          onRsvp={rsvpToRoom}
+          onJoinUpcomingRoom={async (room) => {
+            // Open rooms seat everyone going; anyone else says yes on the way in
+            if (room.my_status !== "host" && room.my_status !== "going") {
+              if (!(await rsvpToRoom(room.schedule_id, "going"))) return;
+            }
+            await modals.handleJoinRoom(room.room_id);
+          }}
         />
       )}
 
       {modals.showCreateRoom && (
-        <CreateRoomModal visible={true} onClose={modals.closeCreateRoom} onCreate={modals.handleCreateRoom} />
+        <CreateRoomModal
+          visible={true}
+          onClose={modals.closeCreateRoom}
+          onCreate={modals.handleCreateRoom}
+          onSchedule={scheduleRoom}
+          friends={friendList}
+        />
       )}
 
       {defaultRoom && modals.showRoomSettings && (
@@ -872,11 +1001,30 @@ export default function QuantumOrbitScreen() {
           onRemoveParticipant={async (userId, userName) => {
             await removeParticipant(defaultRoom.id, userId);
           }}
+          onMuteParticipant={async (userId) => {
+            await muteParticipant(defaultRoom.id, userId);
+          }}
+          onSetParticipantRole={async (userId, role) => {
+            await setParticipantRole(defaultRoom.id, userId, role);
+          }}
+          onAllowToSpeak={async (userId) => {
+            await allowToSpeak(defaultRoom.id, userId);
+          }}
+          onDismissSpeakRequest={async (userId) => {
+            await dismissSpeakRequest(defaultRoom.id, userId);
+          }}
+          listenersCanReact={defaultRoom.listeners_can_react ?? true}
+          onToggleListenersCanReact={async (listenersCanReact) => {
+            await setListenersCanReact(defaultRoom.id, listenersCanReact);
+          }}
           friends={friendList}
           participantIds={roomParticipants.map((p) => p.user_id)}
           onInvite={async (friendId) => {
             await inviteFriendToRoom(defaultRoom.id, friendId);
           }}
+          micSettings={{ mode: micMode, vadThreshold }}
+          onMicModeChange={handleMicModeChange}
+          onVadThresholdChange={setVadThreshold}
         />
       )}
 
@@ -921,6 +1069,15 @@ export default function QuantumOrbitScreen() {
         onToggleAutoPlay={lofiMusic.toggleAutoPlay}
         onVolumeChange={lofiMusic.setVolume}
           onSelectTrack={lofiMusic.selectTrack}
+          isRoomOwner={defaultRoom?.creator_id === currentUser?.id}
+          canShare={lofiMusic.canShare}
+          isSharing={lofiMusic.isSharing}
+          sharedHostName={lofiMusic.sharedHostName}
+          isFollowing={lofiMusic.isFollowing}
+          onStartSharing={lofiMusic.startSharing}
+          onStopSharing={lofiMusic.stopSharing}
+          onLeaveSharedSession={lofiMusic.leaveSharedSession}
+          onJoinSharedSession={lofiMusic.joinSharedSession}
         />
       )}
 
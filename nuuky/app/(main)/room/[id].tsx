@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { View, StyleSheet, Alert, TouchableOpacity, ActivityIndicator, Text, AppState } from 'react-native';
 import { useLocalSearchParams, useRouter, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
@@ -7,19 +7,28 @@ import { useRoom } from '../../../hooks/useRoom';
 import { useAudio } from '../../../hooks/useAudio';
 import { useFriends } from '../../../hooks/useFriends';
 import { useTheme } from '../../../hooks/useTheme';
+import { useFocusSession } from '../../../hooks/useFocusSession';
 import { RoomView } from '../../../components/RoomView';
 import { RoomSettingsModal } from '../../../components/RoomSettingsModal';
 import { AudioConnectionBadge } from '../../../components/AudioConnectionBadge';
-import { useAppStore } from '../../../stores/appStore';
+import { FocusSessionModal } from '../../../components/FocusSessionModal';
+import { useAppStore, useBlockedUserIds, useParticipantAudioLevels, useParticipantAudioPreferences } from '../../../stores/appStore';
 import { supabase } from '../../../lib/supabase';
 import { logger } from '../../../lib/logger';
 import { ErrorBoundary } from '../../../components/ErrorBoundary';
+import { FocusPhase, MicMode, RoomRole } from '../../../types';
+import { canModerate, getParticipantRole, getSpeakRequests } from '../../../lib/roomRoles';
 
 export default function RoomScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { theme, accent } = useTheme();
   const { currentUser, friends, setCurrentRoom, setRoomParticipants } = useAppStore();
+  const blockedUserIds = useBlockedUserIds();
+  const audioLevels = useParticipantAudioLevels();
+  const audioPreferences = useParticipantAudioPreferences();
+  const setParticipantVolume = useAppStore((s) => s.setParticipantVolume);
+  const setParticipantMuted = useAppStore((s) => s.setParticipantMuted);
   useFriends(); // Ensure friends are loaded for invite dropdown
   const {
     currentRoom,
@@ -30,6 +39,13 @@ export default function RoomScreen() {
     deleteRoom,
     inviteFriendToRoom,
     removeParticipant,
+    muteParticipant,
+    setParticipantRole,
+    requestToSpeak,
+    cancelSpeakRequest,
+    allowToSpeak,
+    dismissSpeakRequest,
+    setListenersCanReact,
     loadParticipants,
     loading,
     clearLastJoinedRoom,
@@ -37,16 +53,26 @@ export default function RoomScreen() {
   const [showSettings, setShowSettings] = useState(false);
   const [settingsOrigin, setSettingsOrigin] = useState<{ x: number; y: number } | undefined>(undefined);
   const [isMuted, setIsMuted] = useState(true);
+  const [showFocus, setShowFocus] = useState(false);
 
   // Audio integration
   const {
     connectionStatus: audioConnectionStatus,
+    reconnectHistory: audioReconnectHistory,
     isConnecting: isAudioConnecting,
+    connect: audioConnect,
     unmute: audioUnmute,
     mute: audioMute,
     disconnect: audioDisconnect,
     consumeBackgroundMute,
+    isTransmitting,
+    micMode,
+    vadThreshold,
+    setMicMode,
+    setVadThreshold,
+    pushToTalk,
   } = useAudio(currentRoom?.id || null);
+  const isPushToTalk = micMode === 'push_to_talk';
 
   useEffect(() => {
     if (id && currentUser) {
@@ -96,6 +122,60 @@ export default function RoomScreen() {
     return () => subscription.remove();
   }, [currentRoom?.id, currentUser?.id, consumeBackgroundMute]);
 
+  // Listen-only seat: no mic, but connect so they can hear the room
+  const myParticipant = participants.find((p) => p.user_id === currentUser?.id);
+  const myRole = myParticipant && currentRoom
+    ? getParticipantRole(myParticipant, currentRoom.creator_id)
+    : 'member';
+  const isListener = myRole === 'listener';
+  const speakRequests = canModerate(myRole, 'listener') ? getSpeakRequests(participants) : [];
+  const listenerConnectAttemptRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isListener || !currentRoom) return;
+
+    setIsMuted(true);
+    if (audioConnectionStatus === 'disconnected' && listenerConnectAttemptRef.current !== currentRoom.id) {
+      listenerConnectAttemptRef.current = currentRoom.id;
+      audioConnect();
+    }
+  }, [isListener, currentRoom?.id, audioConnectionStatus, audioConnect]);
+
+  // Focus sessions: people who joined are muted for work blocks and asked
+  // whether to unmute when a break starts
+  const focus = useFocusSession(currentRoom?.id || null);
+  const focusPhase: FocusPhase | null = focus.isParticipant ? focus.focusState?.phase ?? null : null;
+  const previousFocusPhaseRef = useRef<FocusPhase | null>(null);
+
+  useEffect(() => {
+    const previous = previousFocusPhaseRef.current;
+    previousFocusPhaseRef.current = focusPhase;
+    if (focusPhase === previous || isListener) return;
+
+    if (focusPhase === 'work') {
+      if (!isMuted) handleToggleMute();
+    } else if (previous === 'work' && isMuted) {
+      Alert.alert(
+        focusPhase === 'break' ? 'Break time' : 'Focus session over',
+        'Unmute to chat with the room?',
+        [
+          { text: 'Stay muted', style: 'cancel' },
+          { text: 'Unmute', onPress: () => handleToggleMute() },
+        ]
+      );
+    }
+  }, [focusPhase]);
+
+  const handleToggleSpeakRequest = async () => {
+    if (!currentRoom || !myParticipant) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (myParticipant.speak_requested_at) {
+      await cancelSpeakRequest(currentRoom.id);
+    } else {
+      await requestToSpeak(currentRoom.id);
+    }
+  };
+
   const handleJoinRoom = async () => {
     if (!id) return;
 
@@ -162,6 +242,12 @@ export default function RoomScreen() {
     }
   };
 
+  // A new mic mode starts muted; go through the toggle so the DB follows
+  const handleMicModeChange = async (mode: MicMode) => {
+    if (!isMuted) await handleToggleMute();
+    await setMicMode(mode);
+  };
+
   const handleSettingsPress = (origin: { x: number; y: number }) => {
     setSettingsOrigin(origin);
     setShowSettings(true);
@@ -194,6 +280,31 @@ export default function RoomScreen() {
     await removeParticipant(currentRoom.id, userId);
   };
 
+  const handleMuteParticipant = async (userId: string) => {
+    if (!currentRoom) return;
+    await muteParticipant(currentRoom.id, userId);
+  };
+
+  const handleSetParticipantRole = async (userId: string, role: RoomRole) => {
+    if (!currentRoom) return;
+    await setParticipantRole(currentRoom.id, userId, role);
+  };
+
+  const handleAllowToSpeak = async (userId: string) => {
+    if (!currentRoom) return;
+    await allowToSpeak(currentRoom.id, userId);
+  };
+
+  const handleDismissSpeakRequest = async (userId: string) => {
+    if (!currentRoom) return;
+    await dismissSpeakRequest(currentRoom.id, userId);
+  };
+
+  const handleToggleListenersCanReact = async (listenersCanReact: boolean) => {
+    if (!currentRoom) return;
+    await setListenersCanReact(currentRoom.id, listenersCanReact);
+  };
+
   if (!currentRoom || loading || !currentUser) {
     return (
       <View style={[styles.container, styles.loadingContainer, { backgroundColor: theme.colors.bg.primary }]}>
@@ -205,6 +316,25 @@ export default function RoomScreen() {
     );
   }
 
+  // Hide anyone we've blocked who is still listed before the server cleanup lands,
+  // and show friends through the profile projection their visibility tier allows
+  const projectedFriends = new Map(friends.map((f) => [f.friend_id, f.friend]));
+  const visibleParticipants = participants
+    .filter((p) => !blockedUserIds.includes(p.user_id))
+    .map((p) => {
+      const projected = projectedFriends.get(p.user_id);
+      return projected && projected.visibility !== 'full' ? { ...p, user: projected } : p;
+    });
+
+  // Push-to-talk shows whether we're sending right now; the other modes
+  // show whether the mic is on
+  const micSilent = isPushToTalk ? !isTransmitting : isMuted;
+  const micModeHint = isPushToTalk
+    ? 'Hold to talk'
+    : micMode === 'voice_activity' && !isMuted
+      ? (isTransmitting ? 'Sending' : 'Listening for your voice')
+      : null;
+
   // Get friend users
   const friendUsers = friends.map((f) => f.friend).filter(Boolean);
   const participantIds = participants.map((p) => p.user_id);
@@ -214,49 +344,80 @@ export default function RoomScreen() {
       <View style={[styles.container, { backgroundColor: theme.colors.bg.primary }]}>
         <RoomView
           roomName={currentRoom.name}
-          participants={participants}
+          participants={visibleParticipants}
           currentUser={currentUser}
           isCreator={currentRoom.creator_id === currentUser?.id}
           onSettingsPress={handleSettingsPress}
+          isListener={isListener}
+          listenersCanReact={currentRoom.listeners_can_react ?? true}
+          speakRequested={!!myParticipant?.speak_requested_at}
+          onToggleSpeakRequest={handleToggleSpeakRequest}
+          speakRequestCount={speakRequests.length}
+          onSpeakRequestsPress={() => setShowSettings(true)}
+          focusSession={focus.session}
+          focusParticipantCount={focus.participants.length}
+          onFocusPress={() => setShowFocus(true)}
+          audioLevels={audioLevels}
+          audioPreferences={audioPreferences}
+          onParticipantVolumeChange={setParticipantVolume}
+          onToggleParticipantMuted={(userId) => setParticipantMuted(userId, !audioPreferences[userId]?.muted)}
         />
 
         {/* Audio Status Badge */}
         {audioConnectionStatus !== 'disconnected' && (
           <View style={styles.audioBadgeContainer}>
-            <AudioConnectionBadge status={audioConnectionStatus} />
+            <AudioConnectionBadge
+              status={audioConnectionStatus}
+              reconnectHistory={audioReconnectHistory}
+              listenOnly={isListener}
+              speakRequested={!!myParticipant?.speak_requested_at}
+              onRequestToSpeak={handleToggleSpeakRequest}
+            />
           </View>
         )}
 
-        {/* Mute/Unmute Button */}
-        <View style={styles.muteButtonContainer}>
-          <TouchableOpacity
-            onPress={() => {
-              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-              handleToggleMute();
-            }}
-            activeOpacity={0.8}
-            disabled={isAudioConnecting}
-            style={[
-              styles.muteButton,
-              {
-                backgroundColor: isMuted ? 'transparent' : accent.primary,
-                borderColor: accent.primary,
-                shadowColor: accent.primary,
-                opacity: isAudioConnecting ? 0.7 : 1,
-              },
-            ]}
-          >
-            {isAudioConnecting ? (
-              <ActivityIndicator size="small" color={isMuted ? accent.primary : accent.textOnPrimary} />
-            ) : (
-              <Ionicons
-                name={isMuted ? 'mic-off' : 'mic'}
-                size={28}
-                color={isMuted ? accent.primary : accent.textOnPrimary}
-              />
+        {/* Mute/Unmute Button - listeners have no mic */}
+        {!isListener && (
+          <View style={styles.muteButtonContainer}>
+            <TouchableOpacity
+              onPress={isPushToTalk ? undefined : () => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                handleToggleMute();
+              }}
+              onPressIn={isPushToTalk ? () => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                pushToTalk(true);
+              } : undefined}
+              onPressOut={isPushToTalk ? () => pushToTalk(false) : undefined}
+              activeOpacity={0.8}
+              disabled={isAudioConnecting && !isPushToTalk}
+              accessibilityRole="button"
+              accessibilityLabel={isPushToTalk ? 'Hold to talk' : isMuted ? 'Unmute microphone' : 'Mute microphone'}
+              style={[
+                styles.muteButton,
+                {
+                  backgroundColor: micSilent ? 'transparent' : accent.primary,
+                  borderColor: accent.primary,
+                  shadowColor: accent.primary,
+                  opacity: isAudioConnecting ? 0.7 : 1,
+                },
+              ]}
+            >
+              {isAudioConnecting ? (
+                <ActivityIndicator size="small" color={micSilent ? accent.primary : accent.textOnPrimary} />
+              ) : (
+                <Ionicons
+                  name={micSilent ? 'mic-off' : 'mic'}
+                  size={28}
+                  color={micSilent ? accent.primary : accent.textOnPrimary}
+                />
+              )}
+            </TouchableOpacity>
+            {micModeHint && (
+              <Text style={[styles.micModeHint, { color: theme.colors.text.secondary }]}>{micModeHint}</Text>
             )}
-          </TouchableOpacity>
-        </View>
+          </View>
+        )}
 
         <RoomSettingsModal
           visible={showSettings}
@@ -271,11 +432,37 @@ export default function RoomScreen() {
           onDelete={handleDelete}
           onLeave={handleLeaveRoom}
           onRemoveParticipant={handleRemoveParticipant}
+          onMuteParticipant={handleMuteParticipant}
+          onSetParticipantRole={handleSetParticipantRole}
+          onAllowToSpeak={handleAllowToSpeak}
+          onDismissSpeakRequest={handleDismissSpeakRequest}
+          listenersCanReact={currentRoom.listeners_can_react ?? true}
+          onToggleListenersCanReact={handleToggleListenersCanReact}
           originPoint={settingsOrigin}
           friends={friendUsers}
           participantIds={participantIds}
           onInvite={handleInviteFriend}
+          micSettings={isListener ? undefined : { mode: micMode, vadThreshold }}
+          onMicModeChange={isListener ? undefined : handleMicModeChange}
+          onVadThresholdChange={setVadThreshold}
         />
+
+        {showFocus && (
+          <FocusSessionModal
+            visible={true}
+            onClose={() => setShowFocus(false)}
+            session={focus.session}
+            participants={focus.participants}
+            currentUserId={currentUser.id}
+            summary={focus.summary}
+            canStart={!isListener}
+            canEnd={focus.startedByMe || myRole === 'owner' || myRole === 'moderator'}
+            loading={focus.loading}
+            onStart={focus.startSession}
+            onJoin={focus.joinSession}
+            onEnd={focus.endSession}
+          />
+        )}
       </View>
     </ErrorBoundary>
   );
@@ -299,8 +486,15 @@ const styles = StyleSheet.create({
     position: 'absolute',
     bottom: 40,
     alignSelf: 'center',
+    alignItems: 'center',
     zIndex: 100,
   },
+  micModeHint: {
+    width: 200,
+    marginTop: 8,
+    fontSize: 12,
+    textAlign: 'center',
+  },
   muteButton: {
     width: 64,
     height: 64,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import {
   View,
   Text,
@@ -7,6 +7,7 @@ import {
   TouchableOpacity,
   RefreshControl,
   StatusBar,
+  Alert,
   Dimensions,
 } from "react-native";
 import { LinearGradient } from "expo-linear-gradient";
@@ -19,11 +20,15 @@ import { useRoom } from "../../hooks/useRoom";
 import { useFirstTimeRoom } from "../../hooks/useFirstTimeRoom";
 import { useDefaultRoom } from "../../hooks/useDefaultRoom";
 import { useHomeRoom } from "../../hooks/useHomeRoom";
+import { useScheduledRooms } from "../../hooks/useScheduledRooms";
 import { useTheme } from "../../hooks/useTheme";
 import { RoomCard } from "../../components/RoomCard";
 import { SwipeableRoomCard } from "../../components/SwipeableRoomCard";
 import { CreateRoomModal } from "../../components/CreateRoomModal";
+import { UpcomingRoomCard } from "../../components/UpcomingRoomCard";
 import { spacing, radius, typography, interactionStates } from "../../lib/theme";
+import { ScheduleRoomInput } from "../../lib/roomSchedule";
+import { UpcomingRoom, User } from "../../types";
 
 const { width } = Dimensions.get("window");
 
@@ -31,8 +36,9 @@ export default function RoomsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { theme, accent } = useTheme();
-  const { currentUser, myRooms } = useAppStore();
+  const { currentUser, myRooms, friends } = useAppStore();
   const { loadMyRooms, canCreateRoom, createRoom, deleteRoom, leaveRoomById } = useRoom();
+  const { upcomingRooms, loadUpcomingRooms, scheduleRoom, rsvp, cancelSchedule } = useScheduledRooms();
   const { loading: firstTimeLoading } = useFirstTimeRoom();
   const { isDefaultRoom, setAsDefaultRoom } = useDefaultRoom();
   const { isHomeRoom } = useHomeRoom();
@@ -73,9 +79,14 @@ export default function RoomsScreen() {
   );
 
   const loadData = async () => {
-    await loadMyRooms();
+    await Promise.all([loadMyRooms(), loadUpcomingRooms()]);
   };
 
+  const friendUsers = useMemo(
+    () => friends.map((f) => f.friend).filter((friend): friend is User => !!friend),
+    [friends]
+  );
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadData();
@@ -101,11 +112,32 @@ export default function RoomsScreen() {
     }
   };
 
+  const handleScheduleRoomSubmit = async (input: ScheduleRoomInput) => {
+    await scheduleRoom(input);
+  };
+
   const handleRoomPress = (roomId: string) => {
     setAsDefaultRoom(roomId);
     router.back();
   };
 
+  // Open rooms seat everyone going; anyone else says yes on the way in
+  const handleJoinUpcoming = async (room: UpcomingRoom) => {
+    if (room.my_status !== "host" && room.my_status !== "going") {
+      const joined = await rsvp(room.schedule_id, "going");
+      if (!joined) return;
+    }
+    await loadMyRooms();
+    handleRoomPress(room.room_id);
+  };
+
+  const handleCancelUpcoming = (room: UpcomingRoom) => {
+    Alert.alert("Cancel Scheduled Room", `${room.room_name || "This room"} won't open again and invites are withdrawn.`, [
+      { text: "Keep", style: "cancel" },
+      { text: "Cancel Room", style: "destructive", onPress: () => { cancelSchedule(room.schedule_id); } },
+    ]);
+  };
+
   const handleDeleteRoom = async (roomId: string): Promise<boolean> => {
     const result = await deleteRoom(roomId);
     return result;
@@ -115,7 +147,7 @@ export default function RoomsScreen() {
     await leaveRoomById(roomId);
   };
 
-  const hasRooms = myRooms.length > 0;
+  const hasRooms = myRooms.length > 0 || upcomingRooms.length > 0;
 
   // Separate into: home room, my created rooms, and other people's rooms
   const homeRoom = myRooms.find(room => isHomeRoom(room.id));
@@ -155,6 +187,26 @@ export default function RoomsScreen() {
                 </View>
               )}
 
+              {/* Upcoming Section - scheduled rooms the user hosts or was invited to */}
+              {upcomingRooms.length > 0 && (
+                <View style={styles.section}>
+                  <View style={styles.sectionHeader}>
+                    <Text style={[styles.sectionTitle, { color: theme.colors.text.tertiary }]}>UPCOMING</Text>
+                  </View>
+                  <View style={styles.roomsList}>
+                    {upcomingRooms.map((room) => (
+                      <UpcomingRoomCard
+                        key={room.schedule_id}
+                        room={room}
+                        onRsvp={rsvp}
+                        onJoin={handleJoinUpcoming}
+                        onCancel={handleCancelUpcoming}
+                      />
+                    ))}
+                  </View>
+                </View>
+              )}
+
               {/* My Created Rooms Section */}
               {myCreatedRooms.length > 0 && (
                 <View style={styles.section}>
@@ -263,6 +315,8 @@ export default function RoomsScreen() {
           visible={showCreateRoom}
           onClose={() => setShowCreateRoom(false)}
           onCreate={handleCreateRoomSubmit}
+          onSchedule={handleScheduleRoomSubmit}
+          friends={friendUsers}
         />
       </LinearGradient>
     </View>
@@ -18,7 +18,11 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { spacing, interactionStates } from "../../lib/theme";
 import { useTheme } from "../../hooks/useTheme";
 import { useSafety } from "../../hooks/useSafety";
+import { usePreferences } from "../../hooks/usePreferences";
 import { SwipeableAnchorRow } from "../../components/SwipeableAnchorRow";
+import { formatScheduleWindow, isScheduleActive } from "../../lib/availabilitySchedule";
+import { ANCHOR_CHECKIN_OPTIONS, formatCheckInHours } from "../../lib/anchorCheckIns";
+import { AvailabilityMode, AvailabilitySchedule } from "../../types";
 
 // iOS-style icon backgrounds
 const ICON_BACKGROUNDS = {
@@ -28,6 +32,20 @@ const ICON_BACKGROUNDS = {
   info: "#8E8E93",
 };
 
+// Schedule presets offered from the "Add Schedule" row
+const SCHEDULE_PRESETS: {
+  label: string;
+  kind: AvailabilityMode;
+  days: number[];
+  start: string;
+  end: string;
+}[] = [
+  { label: "Invisible weeknights (23:00–07:00)", kind: "ghost", days: [0, 1, 2, 3, 4], start: "23:00", end: "07:00" },
+  { label: "Invisible during work (09:00–17:00)", kind: "ghost", days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" },
+  { label: "Quiet nights (22:00–08:00)", kind: "break", days: [0, 1, 2, 3, 4, 5, 6], start: "22:00", end: "08:00" },
+  { label: "Break every Sunday", kind: "break", days: [0], start: "00:00", end: "00:00" },
+];
+
 interface SafetyRowProps {
   icon?: string;
   emoji?: string;
@@ -195,14 +213,21 @@ export default function SafetyScreen() {
   const { theme, accent } = useTheme();
   const {
     anchors,
+    blockedUsers,
+    schedules,
     isInGhostMode,
     isOnBreak,
     enableGhostMode,
     disableGhostMode,
     takeBreak,
     endBreak,
+    addSchedule,
+    toggleSchedule,
+    removeSchedule,
     removeAnchor,
+    unblockUser,
   } = useSafety();
+  const { anchorCheckInAfterHours, setAnchorCheckInAfter } = usePreferences();
 
   const handleGhostModeToggle = () => {
     if (isInGhostMode) {
@@ -233,10 +258,44 @@ export default function SafetyScreen() {
     }
   };
 
+  const handleAddSchedule = () => {
+    Alert.alert("Add Schedule", "Repeats every week on your local time.", [
+      ...SCHEDULE_PRESETS.map((preset) => ({
+        text: preset.label,
+        onPress: () => addSchedule(preset.kind, preset.days, preset.start, preset.end),
+      })),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  const handleRemoveSchedule = (schedule: AvailabilitySchedule) => {
+    Alert.alert("Remove Schedule", formatScheduleWindow(schedule), [
+      { text: "Cancel", style: "cancel" },
+      { text: "Remove", style: "destructive", onPress: () => removeSchedule(schedule.id) },
+    ]);
+  };
+
+  const handleCheckInThreshold = () => {
+    Alert.alert("Check In After", "If you haven't opened Nuuky by then, we'll ask if you're okay before alerting your anchors.", [
+      ...ANCHOR_CHECKIN_OPTIONS.map((hours) => ({
+        text: formatCheckInHours(hours),
+        onPress: () => { setAnchorCheckInAfter(hours); },
+      })),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
   const handleRemoveAnchor = (anchorId: string, _name: string) => {
     removeAnchor(anchorId);
   };
 
+  const handleUnblock = (userId: string, name: string) => {
+    Alert.alert("Unblock User", `${name} will be able to find you, nudge you, and send you requests again.`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Unblock", onPress: () => unblockUser(userId) },
+    ]);
+  };
+
   const getAnchorName = (anchor: any) => {
     return anchor.anchor?.display_name || "Unknown";
   };
@@ -313,6 +372,53 @@ export default function SafetyScreen() {
           </SafetyRow>
         </SafetySection>
 
+        {/* Schedules Section */}
+        <SafetySection
+          title="SCHEDULES"
+          footer="Ghost schedules hide your presence. Break schedules also hold notifications and send you one summary when they end."
+          theme={theme}
+        >
+          {schedules.map((schedule, index) => {
+            const color = schedule.kind === "ghost" ? ICON_BACKGROUNDS.ghost : ICON_BACKGROUNDS.break;
+            return (
+              <SafetyRow
+                key={schedule.id}
+                emoji={schedule.kind === "ghost" ? "👻" : "🌙"}
+                iconBg={color}
+                label={schedule.kind === "ghost" ? "Invisible" : "Quiet Hours"}
+                description={formatScheduleWindow(schedule)}
+                isActive={isScheduleActive(schedule)}
+                isFirst={index === 0}
+                onPress={() => handleRemoveSchedule(schedule)}
+                theme={theme}
+              >
+                <Switch
+                  value={schedule.is_enabled}
+                  onValueChange={(value) => { toggleSchedule(schedule.id, value); }}
+                  trackColor={{
+                    false: "rgba(120,120,128,0.32)",
+                    true: color,
+                  }}
+                  thumbColor="#FFFFFF"
+                  ios_backgroundColor={
+                    "rgba(120,120,128,0.32)"
+                  }
+                />
+              </SafetyRow>
+            );
+          })}
+          <SafetyRow
+            icon="add"
+            iconBg={ICON_BACKGROUNDS.info}
+            label="Add Schedule"
+            showChevron
+            isFirst={schedules.length === 0}
+            isLast
+            onPress={handleAddSchedule}
+            theme={theme}
+          />
+        </SafetySection>
+
         {/* Safety Anchors Section */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: theme.colors.text.tertiary }]}>
@@ -381,10 +487,67 @@ export default function SafetyScreen() {
             )}
           </View>
           <Text style={[styles.sectionFooter, { color: theme.colors.text.tertiary }]}>
-            Anchors are trusted contacts who get notified when you're inactive for 48+ hours. You can set up to 2 anchors.
+            Anchors are trusted contacts who get notified if you're inactive for {formatCheckInHours(anchorCheckInAfterHours)} and don't answer a check-in. You can set up to 2 anchors.
           </Text>
         </View>
 
+        {/* Check-ins Section */}
+        <SafetySection title="CHECK-INS" theme={theme}>
+          <SafetyRow
+            icon="time"
+            iconBg={ICON_BACKGROUNDS.anchor}
+            label="Check In After"
+            value={formatCheckInHours(anchorCheckInAfterHours)}
+            showChevron
+            isFirst
+            onPress={handleCheckInThreshold}
+            theme={theme}
+          />
+          <SafetyRow
+            icon="list"
+            iconBg={ICON_BACKGROUNDS.info}
+            label="Check-in History"
+            showChevron
+            isLast
+            onPress={() => router.push("/add-anchor")}
+            theme={theme}
+          />
+        </SafetySection>
+
+        {/* Blocked Users Section */}
+        {blockedUsers.length > 0 && (
+          <SafetySection
+            title="BLOCKED USERS"
+            footer="Blocked users can't find you, nudge you, invite you to rooms, or see your flares. They aren't notified."
+            theme={theme}
+          >
+            {blockedUsers.map((block, index) => {
+              const name = block.blocked?.display_name || "Unknown";
+              return (
+                <SafetyRow
+                  key={block.id}
+                  icon="person"
+                  avatarUrl={block.blocked?.avatar_url || undefined}
+                  iconBg={ICON_BACKGROUNDS.info}
+                  label={name}
+                  description={block.blocked?.username ? `@${block.blocked.username}` : undefined}
+                  isFirst={index === 0}
+                  isLast={index === blockedUsers.length - 1}
+                  theme={theme}
+                >
+                  <TouchableOpacity
+                    onPress={() => handleUnblock(block.blocked_id, name)}
+                    activeOpacity={0.6}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  >
+                    <Text style={[styles.unblockText, { color: accent.primary }]}>Unblock</Text>
+                  </TouchableOpacity>
+                </SafetyRow>
+              );
+            })}
+          </SafetySection>
+        )}
+
         {/* About Section */}
         <SafetySection title="ABOUT" theme={theme}>
           <View
@@ -618,6 +781,10 @@ const styles = StyleSheet.create({
     fontWeight: "400",
     marginRight: spacing.xs,
   },
+  unblockText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
   separatorContainer: {
     paddingLeft: 57,
   },
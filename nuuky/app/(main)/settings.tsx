@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useMemo, useState } from "react";
 import {
   View,
   Text,
@@ -7,7 +7,6 @@ import {
   TouchableOpacity,
   Alert,
   StatusBar,
-  Switch,
   Platform,
 } from "react-native";
 import { LinearGradient } from "expo-linear-gradient";
@@ -17,8 +16,17 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useAuth } from "../../hooks/useAuth";
 import { useTheme } from "../../hooks/useTheme";
 import { usePreferences } from "../../hooks/usePreferences";
+import { useNotificationPreferences } from "../../hooks/useNotificationPreferences";
 import { useAppStore } from "../../stores/appStore";
 import { spacing, interactionStates } from "../../lib/theme";
+import { FLARE_WIDEN_OPTIONS, FLARE_ANCHORS_OPTIONS } from "../../lib/flareEscalation";
+import {
+  NOTIFICATION_CHANNEL_OPTIONS,
+  NOTIFICATION_TYPE_OPTIONS,
+  DIGEST_MODE_OPTIONS,
+  describeFriendOverrides,
+} from "../../lib/notificationPreferences";
+import { FriendNotificationsModal } from "../../components/FriendNotificationsModal";
 
 
 interface SettingsRowProps {
@@ -155,12 +163,63 @@ export default function SettingsScreen() {
   const { signOut } = useAuth();
   const { theme, accent } = useTheme();
   const {
-    nudgesEnabled,
-    flaresEnabled,
-    toggleNudges,
-    toggleFlares,
+    preferences,
+    digestMode,
+    setDigestMode,
+    flareWidenAfterMinutes,
+    flareAnchorsAfterMinutes,
+    setFlareWidenAfter,
+    setFlareAnchorsAfter,
     loading: prefsLoading,
   } = usePreferences();
+  const {
+    loading: notificationPrefsLoading,
+    channelsFor,
+    friendOverrides,
+    setChannel,
+    setFriendOverride,
+  } = useNotificationPreferences(preferences);
+  const friends = useAppStore((s) => s.friends);
+  const [friendModalVisible, setFriendModalVisible] = useState(false);
+  const [selectedFriendId, setSelectedFriendId] = useState<string | null>(null);
+
+  const friendOptions = useMemo(
+    () => friends
+      .filter((f) => f.friend)
+      .map((f) => ({ id: f.friend_id, name: f.friend!.display_name })),
+    [friends]
+  );
+  const overriddenFriends = friendOptions.filter((f) => friendOverrides.has(f.id));
+
+  const openFriendNotifications = (friendId: string | null) => {
+    setSelectedFriendId(friendId);
+    setFriendModalVisible(true);
+  };
+
+  const pickFlareDelay = (
+    title: string,
+    options: number[],
+    onPick: (minutes: number) => Promise<boolean>
+  ) => {
+    Alert.alert(title, "If nobody has responded to your flare by then", [
+      ...options.map((minutes) => ({
+        text: `After ${minutes} min`,
+        onPress: () => { onPick(minutes); },
+      })),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  const pickDigestMode = () => {
+    Alert.alert("Digest", "A summary of what you missed while Nūūky was closed", [
+      ...DIGEST_MODE_OPTIONS.map(({ mode, label }) => ({
+        text: label,
+        onPress: () => { setDigestMode(mode); },
+      })),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
   const handleLogout = async () => {
     Alert.alert("Sign Out", "Are you sure you want to sign out?", [
       { text: "Cancel", style: "cancel" },
@@ -224,51 +283,115 @@ export default function SettingsScreen() {
         {/* Notifications Section */}
         <SettingsSection
           title="NOTIFICATIONS"
-          footer="Control which notifications you receive from your friends."
+          footer="Push shows on your lock screen, Banner pops up while Nūūky is open, and Sync quietly keeps your lists fresh. Turn all three off to mute a notification."
           theme={theme}
         >
+          {NOTIFICATION_TYPE_OPTIONS.map(({ type, label, icon }, index) => {
+            const channels = channelsFor(type);
+            return (
+              <SettingsRow
+                key={type}
+                icon={icon}
+                label={label}
+                showChevron={false}
+                isFirst={index === 0}
+                isLast={index === NOTIFICATION_TYPE_OPTIONS.length - 1}
+                theme={theme}
+              >
+                <View style={styles.channelToggles}>
+                  {NOTIFICATION_CHANNEL_OPTIONS.map((option) => {
+                    const on = channels[option.channel];
+                    return (
+                      <TouchableOpacity
+                        key={option.channel}
+                        style={[
+                          styles.channelToggle,
+                          { backgroundColor: on ? accent.primary : "rgba(120,120,128,0.32)" },
+                        ]}
+                        onPress={() => { setChannel(type, option.channel, !on); }}
+                        disabled={prefsLoading || notificationPrefsLoading}
+                        activeOpacity={interactionStates.pressed}
+                        accessibilityLabel={`${label} ${option.label.toLowerCase()}`}
+                        accessibilityRole="switch"
+                        accessibilityState={{ checked: on }}
+                      >
+                        <Ionicons
+                          name={option.icon as any}
+                          size={14}
+                          color={on ? accent.textOnPrimary : theme.colors.text.tertiary}
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </SettingsRow>
+            );
+          })}
+        </SettingsSection>
+
+        <SettingsSection
+          title="PER FRIEND"
+          footer="Mute one friend's nudges, or always let their flares through, whatever your defaults above say."
+          theme={theme}
+        >
+          {overriddenFriends.map(({ id, name }, index) => (
+            <SettingsRow
+              key={id}
+              icon="person"
+              label={name}
+              value={describeFriendOverrides(friendOverrides.get(id) || [])}
+              onPress={() => openFriendNotifications(id)}
+              isFirst={index === 0}
+              theme={theme}
+            />
+          ))}
           <SettingsRow
-            icon="hand-left"
-            label="Nudges"
-            showChevron={false}
+            icon="add-circle"
+            label="Add a friend"
+            onPress={() => openFriendNotifications(null)}
+            isFirst={overriddenFriends.length === 0}
+            isLast
+            theme={theme}
+          />
+        </SettingsSection>
+
+        <SettingsSection
+          title="DIGEST"
+          footer="One push summing up the notifications you haven't read since you last opened Nūūky. Repeated nudges and reactions are always grouped."
+          theme={theme}
+        >
+          <SettingsRow
+            icon="mail-unread"
+            label="Digest"
+            value={DIGEST_MODE_OPTIONS.find((o) => o.mode === digestMode)?.label}
+            onPress={pickDigestMode}
             isFirst
+            isLast
             theme={theme}
-          >
-            <Switch
-              value={nudgesEnabled}
-              onValueChange={() => { toggleNudges(); }}
-              disabled={prefsLoading}
-              trackColor={{
-                false: "rgba(120,120,128,0.32)",
-                true: accent.primary,
-              }}
-              thumbColor="#FFFFFF"
-              ios_backgroundColor={
-                "rgba(120,120,128,0.32)"
-              }
-            />
-          </SettingsRow>
+          />
+        </SettingsSection>
+
+        <SettingsSection
+          title="FLARE ESCALATION"
+          footer="Your flares reach your favorites first. If nobody responds, they widen to all your friends, then alert your anchors."
+          theme={theme}
+        >
           <SettingsRow
-            icon="flame"
-            label="Flares"
-            showChevron={false}
+            icon="people"
+            label="All friends"
+            value={`After ${flareWidenAfterMinutes} min`}
+            onPress={() => pickFlareDelay("Notify All Friends", FLARE_WIDEN_OPTIONS, setFlareWidenAfter)}
+            isFirst
+            theme={theme}
+          />
+          <SettingsRow
+            icon="shield-checkmark"
+            label="Anchors"
+            value={`After ${flareAnchorsAfterMinutes} min`}
+            onPress={() => pickFlareDelay("Alert Anchors", FLARE_ANCHORS_OPTIONS, setFlareAnchorsAfter)}
             isLast
             theme={theme}
-          >
-            <Switch
-              value={flaresEnabled}
-              onValueChange={() => { toggleFlares(); }}
-              disabled={prefsLoading}
-              trackColor={{
-                false: "rgba(120,120,128,0.32)",
-                true: accent.primary,
-              }}
-              thumbColor="#FFFFFF"
-              ios_backgroundColor={
-                "rgba(120,120,128,0.32)"
-              }
-            />
-          </SettingsRow>
+          />
         </SettingsSection>
 
         {/* About Section */}
@@ -311,6 +434,18 @@ export default function SettingsScreen() {
         </SettingsSection>
       </ScrollView>
 
+      <FriendNotificationsModal
+        visible={friendModalVisible}
+        friends={friendOptions}
+        friendId={selectedFriendId}
+        overrides={selectedFriendId ? friendOverrides.get(selectedFriendId) || [] : []}
+        onSelectFriend={setSelectedFriendId}
+        onSetOverride={(type, mode) => {
+          if (selectedFriendId) setFriendOverride(selectedFriendId, type, mode);
+        }}
+        onClose={() => setFriendModalVisible(false)}
+      />
+
       {/* Header with gradient fade */}
       <LinearGradient
         colors={[theme.colors.bg.primary, theme.colors.bg.primary, `${theme.colors.bg.primary}00`]}
@@ -444,6 +579,17 @@ const styles = StyleSheet.create({
   chevron: {
     marginLeft: spacing.xs,
   },
+  channelToggles: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  channelToggle: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: "center",
+    alignItems: "center",
+  },
   separatorContainer: {
     paddingLeft: 50, // icon (22) + margin (12) + padding (16)
   },
@@ -0,0 +1,404 @@
+import React, { useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  StatusBar,
+  ActivityIndicator,
+} from "react-native";
+import { Image as CachedImage } from "expo-image";
+import { LinearGradient } from "expo-linear-gradient";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { spacing, interactionStates } from "../../../lib/theme";
+import { useTheme } from "../../../hooks/useTheme";
+import { useStreaks } from "../../../hooks/useStreaks";
+import { useStreakHistory } from "../../../hooks/useStreakHistory";
+import { useFriendsStore } from "../../../stores/appStore";
+import { BoltIcon } from "../../../components/StreakBadge";
+import { StreakEvent, StreakEventType, StreakState, User } from "../../../types";
+
+const EVENT_STYLES: Record<StreakEventType, { icon: string; color: string }> = {
+  increment: { icon: "flash", color: "#00f0ff" },
+  fade: { icon: "hourglass-outline", color: "#FFB800" },
+  break: { icon: "close-circle-outline", color: "#EF4444" },
+  restore: { icon: "snow-outline", color: "#60A5FA" },
+  milestone: { icon: "trophy", color: "#FFB800" },
+};
+
+const STATE_LABELS: Record<StreakState, string> = {
+  active: "Going strong today",
+  fading: "Fading: interact today to keep it",
+  broken: "No active streak",
+};
+
+const describeEvent = (event: StreakEvent): string => {
+  const days = event.consecutive_days;
+  switch (event.event_type) {
+    case "increment":
+      return `Day ${days}`;
+    case "fade":
+      return `Started fading at ${days} ${days === 1 ? "day" : "days"}`;
+    case "break":
+      return `Streak ended at ${days} ${days === 1 ? "day" : "days"}`;
+    case "restore":
+      return `Freeze kept ${days} ${days === 1 ? "day" : "days"} alive`;
+    case "milestone":
+      return `${days}-day milestone`;
+  }
+};
+
+const formatEventDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+
+export default function StreakTimelineScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { theme, accent } = useTheme();
+  const { friendId } = useLocalSearchParams<{ friendId: string }>();
+  const friends = useFriendsStore();
+  const { streaks, freezeTokens, spendStreakFreeze } = useStreaks();
+  const { events, loading, refreshHistory } = useStreakHistory(friendId);
+
+  const friend = useMemo(
+    () => friends.find((f) => f.friend_id === friendId)?.friend as User | undefined,
+    [friends, friendId]
+  );
+  const streak = useMemo(
+    () => streaks.find((s) => s.friend_id === friendId),
+    [streaks, friendId]
+  );
+
+  const currentDays = streak && streak.state !== "broken" ? streak.consecutive_days : 0;
+  const bestDays = Math.max(streak?.best_streak ?? 0, currentDays);
+
+  const handleFreeze = () => {
+    if (!streak) return;
+    if (freezeTokens < 1) {
+      Alert.alert(
+        "No Streak Freezes",
+        "You earn one for every 7 days of a streak."
+      );
+      return;
+    }
+    Alert.alert(
+      "Use a Streak Freeze?",
+      `Covers today so your ${streak.consecutive_days}-day streak doesn't break. You have ${freezeTokens} left.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Use Freeze",
+          onPress: async () => {
+            if (await spendStreakFreeze(streak.id)) {
+              refreshHistory();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEvent = ({ item, index }: { item: StreakEvent; index: number }) => {
+    const style = EVENT_STYLES[item.event_type];
+    return (
+      <View style={styles.eventRow}>
+        <View style={styles.eventRail}>
+          <View style={[styles.eventDot, { backgroundColor: `${style.color}22`, borderColor: style.color }]}>
+            <Ionicons name={style.icon as any} size={14} color={style.color} />
+          </View>
+          {index < events.length - 1 && (
+            <View style={[styles.eventLine, { backgroundColor: theme.colors.glass.border }]} />
+          )}
+        </View>
+        <View style={styles.eventText}>
+          <Text
+            style={[
+              styles.eventLabel,
+              { color: theme.colors.text.primary },
+              item.event_type === "milestone" && { color: style.color },
+            ]}
+          >
+            {describeEvent(item)}
+          </Text>
+          <Text style={[styles.eventDate, { color: theme.colors.text.tertiary }]}>
+            {formatEventDate(item.created_at)}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  const header = (
+    <View style={[styles.summaryCard, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+      {friend?.avatar_url ? (
+        <CachedImage
+          source={{ uri: friend.avatar_url }}
+          style={styles.avatar}
+          cachePolicy="memory-disk"
+          contentFit="cover"
+        />
+      ) : (
+        <View style={[styles.avatar, { backgroundColor: theme.colors.glass.border }]}>
+          <Text style={[styles.avatarText, { color: theme.colors.text.primary }]}>
+            {(friend?.display_name || "?").charAt(0).toUpperCase()}
+          </Text>
+        </View>
+      )}
+      <Text style={[styles.friendName, { color: theme.colors.text.primary }]}>
+        {friend?.display_name || "Friend"}
+      </Text>
+      <Text style={[styles.stateText, { color: theme.colors.text.tertiary }]}>
+        {STATE_LABELS[streak?.state ?? "broken"]}
+      </Text>
+
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <View style={styles.statValueRow}>
+            <BoltIcon size={18} tier={currentDays >= 15 ? "fire" : currentDays >= 7 ? "gold" : "teal"} />
+            <Text style={[styles.statValue, { color: theme.colors.text.primary }]}>{currentDays}</Text>
+          </View>
+          <Text style={[styles.statLabel, { color: theme.colors.text.tertiary }]}>Current</Text>
+        </View>
+        <View style={[styles.statDivider, { backgroundColor: theme.colors.glass.border }]} />
+        <View style={styles.stat}>
+          <View style={styles.statValueRow}>
+            <Ionicons name="trophy" size={16} color="#FFB800" />
+            <Text style={[styles.statValue, { color: theme.colors.text.primary }]}>{bestDays}</Text>
+          </View>
+          <Text style={[styles.statLabel, { color: theme.colors.text.tertiary }]}>Best ever</Text>
+        </View>
+      </View>
+
+      {streak?.state === "fading" && streak.consecutive_days >= 1 && (
+        <TouchableOpacity
+          style={[styles.freezeButton, { backgroundColor: accent.primary }]}
+          onPress={handleFreeze}
+          activeOpacity={interactionStates.pressed}
+        >
+          <Ionicons name="snow-outline" size={16} color="#FFFFFF" />
+          <Text style={styles.freezeButtonText}>
+            Use a freeze ({freezeTokens} left)
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text.tertiary }]}>HISTORY</Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.bg.primary }]}>
+      <StatusBar barStyle={"light-content"} />
+      <LinearGradient
+        colors={theme.gradients.background}
+        style={StyleSheet.absoluteFill}
+      />
+
+      <FlatList
+        data={events}
+        keyExtractor={(item) => item.id}
+        renderItem={renderEvent}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator color={theme.colors.text.tertiary} style={styles.emptyState} />
+          ) : (
+            <Text style={[styles.emptyText, { color: theme.colors.text.tertiary }]}>
+              No streak history yet. Interact on the same day to start one.
+            </Text>
+          )
+        }
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingTop: insets.top + 100, paddingBottom: insets.bottom + 32 },
+        ]}
+        showsVerticalScrollIndicator={false}
+      />
+
+      {/* Header with gradient fade */}
+      <LinearGradient
+        colors={[theme.colors.bg.primary, theme.colors.bg.primary, `${theme.colors.bg.primary}00`]}
+        locations={[0, 0.6, 1]}
+        style={[styles.headerOverlay, { paddingTop: insets.top + spacing.md }]}
+        pointerEvents="box-none"
+      >
+        <View style={styles.header} pointerEvents="box-none">
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+            activeOpacity={interactionStates.pressed}
+          >
+            <Ionicons name="chevron-back" size={28} color={theme.colors.text.primary} />
+          </TouchableOpacity>
+
+          <Text style={[styles.headerTitle, { color: theme.colors.text.primary }]}>
+            Streak
+          </Text>
+
+          <View style={styles.headerSpacer} />
+        </View>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerOverlay: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    paddingBottom: 20,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: spacing.screenPadding || 24,
+    paddingBottom: spacing.lg,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: -8,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: "700",
+    letterSpacing: -0.5,
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  listContent: {
+    paddingHorizontal: spacing.md,
+  },
+  summaryCard: {
+    alignItems: "center",
+    borderRadius: 16,
+    borderWidth: 0.5,
+    paddingVertical: spacing.lg,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  avatar: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  avatarText: {
+    fontSize: 24,
+    fontWeight: "700",
+  },
+  friendName: {
+    fontSize: 20,
+    fontWeight: "700",
+    marginTop: spacing.sm,
+  },
+  stateText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  statsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: spacing.lg,
+  },
+  stat: {
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+  },
+  statValueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  statValue: {
+    fontSize: 28,
+    fontWeight: "800",
+  },
+  statLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  statDivider: {
+    width: 1,
+    height: 36,
+  },
+  freezeButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginTop: spacing.lg,
+  },
+  freezeButtonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  sectionTitle: {
+    alignSelf: "flex-start",
+    fontSize: 13,
+    fontWeight: "400",
+    letterSpacing: 0.5,
+    marginTop: spacing.lg,
+    marginBottom: -spacing.sm,
+  },
+  eventRow: {
+    flexDirection: "row",
+    minHeight: 56,
+  },
+  eventRail: {
+    width: 32,
+    alignItems: "center",
+  },
+  eventDot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  eventLine: {
+    width: 1,
+    flex: 1,
+    marginVertical: 2,
+  },
+  eventText: {
+    flex: 1,
+    paddingLeft: spacing.sm,
+    paddingTop: 4,
+  },
+  eventLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  eventDate: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyState: {
+    marginTop: spacing.xl,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: spacing.xl,
+    paddingHorizontal: spacing.lg,
+  },
+});
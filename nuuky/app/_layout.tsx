@@ -29,7 +29,13 @@ import {
   savePushTokenToUser,
   setupNotificationListeners,
   isSilentNotification,
+  dismissGroupedNotifications,
 } from "../lib/notifications";
+import {
+  registerNotificationCategories,
+  isNotificationAction,
+  handleNotificationAction,
+} from "../lib/notificationActions";
 
 // Global error handlers to prevent silent crashes
 // ErrorUtils is a React Native global, not an export
@@ -159,6 +165,24 @@ export default function RootLayout() {
           router.push("/(main)");
         }
         break;
+      case "anchor_checkin":
+        // Tapping the "are you okay?" push is the confirmation
+        Promise.resolve(supabase.rpc("confirm_anchor_checkin"))
+          .then(({ error }) => {
+            if (error) throw error;
+            Alert.alert("Thanks for checking in", "Your anchors won't be alerted.");
+          })
+          .catch((err: unknown) => {
+            logger.error("Failed to confirm check-in:", err);
+            router.push("/add-anchor");
+          });
+        break;
+      case "anchor_inactivity":
+      case "anchor_ack":
+        if (currentPath !== "/add-anchor") {
+          router.push("/add-anchor");
+        }
+        break;
       case "friend_request":
       case "friend_accepted":
         if (currentPath !== "/(main)/friends") {
@@ -166,8 +190,9 @@ export default function RootLayout() {
         }
         break;
       case "room_invite":
+      case "room_reminder":
       case "call_me":
-        // Both room invites and call requests go to rooms
+        // Room invites, scheduled room reminders and call requests go to rooms
         if (currentPath !== "/(main)/rooms") {
           router.push("/(main)/rooms");
         }
@@ -181,19 +206,32 @@ export default function RootLayout() {
 
   // Setup notification listeners
   useEffect(() => {
+    // Action buttons ("Nudge back", "Join", ...) for pushes that name a category
+    registerNotificationCategories();
+
     const cleanup = setupNotificationListeners(
       // On notification received (foreground)
       (notification) => {
-        // Skip silent notifications (they're for background data sync only)
-        if (isSilentNotification(notification)) {
-          return;
-        }
-
         const content = notification.request.content;
         const data = content.data || {};
 
-        // Show in-app banner for foreground notifications
-        if (showNotificationBannerRef.current) {
+        // The newest push of a collapsed group stands for the earlier ones
+        if (typeof data.group_key === 'string') {
+          dismissGroupedNotifications(data.group_key, notification.request.identifier);
+        }
+
+        // Silent notifications are for background data sync, unless they
+        // carry a banner for someone who turned this type's push off
+        const silent = isSilentNotification(notification);
+        if (silent && !data.banner_title) {
+          return;
+        }
+        const title = silent ? data.banner_title : content.title;
+        const body = silent ? data.banner_body : content.body;
+
+        // Show in-app banner for foreground notifications, unless the
+        // receiver turned banners off for this type
+        if (showNotificationBannerRef.current && data.banner !== false) {
           // Get notification style based on type
           let icon = 'notifications';
           let color = '#A855F7';
@@ -219,6 +257,10 @@ export default function RootLayout() {
               icon = 'people';
               color = '#A855F7';
               break;
+            case 'room_reminder':
+              icon = 'calendar';
+              color = '#A855F7';
+              break;
             case 'call_me':
               icon = 'call';
               color = '#10B981';
@@ -228,12 +270,21 @@ export default function RootLayout() {
               icon = 'mic';
               color = '#F97316';
               break;
+            case 'anchor_checkin':
+              icon = 'heart';
+              color = '#F59E0B';
+              break;
+            case 'anchor_inactivity':
+            case 'anchor_ack':
+              icon = 'shield-checkmark';
+              color = '#007AFF';
+              break;
           }
 
           showNotificationBannerRef.current({
             id: notification.request.identifier,
-            title: content.title || 'Notification',
-            body: content.body || '',
+            title: title || 'Notification',
+            body: body || '',
             icon,
             color,
             avatarUrl: data.sender_avatar_url || data.friend_avatar_url,
@@ -264,6 +315,19 @@ export default function RootLayout() {
       // On notification response (tap)
       (response) => {
         const data = response.notification.request.content.data;
+
+        // Action buttons are answered in the background, without opening a screen
+        if (isNotificationAction(response.actionIdentifier)) {
+          Notifications.dismissNotificationAsync(response.notification.request.identifier).catch(() => {});
+          handleNotificationAction(response.actionIdentifier, data || {}).catch((err: unknown) => {
+            logger.error('Failed to handle notification action:', err);
+          });
+          return;
+        }
+
+        if (typeof data?.group_key === 'string') {
+          dismissGroupedNotifications(data.group_key);
+        }
         handleNotificationNavigation(data);
       },
     );
@@ -429,23 +493,25 @@ export default function RootLayout() {
                     return;
                   }
 
-                  // Increment use count
-                  await supabase.rpc("increment_invite_link_use", { link_token: token });
-
-                  // Join room
-                  const { error: joinError } = await supabase.from("room_participants").insert({
-                    room_id: link.room.id,
-                    user_id: user.id,
-                    is_muted: false,
-                  });
+                  // Count the use and join with the link's role (listener by default)
+                  const { data: joinedRoomId, error: joinError } = await supabase.rpc(
+                    "join_room_by_invite_link",
+                    { p_token: token },
+                  );
 
-                  if (joinError) {
+                  if (joinError || !joinedRoomId) {
                     logger.error("Failed to join room:", joinError);
                     Alert.alert("Error", "Failed to join room. Please try again.");
                     return;
                   }
 
-                  Alert.alert("Joined!", `You've joined ${link.room.name || "the room"}`);
+                  const roomName = link.room.name || "the room";
+                  Alert.alert(
+                    "Joined!",
+                    (link.join_role || "listener") === "listener"
+                      ? `You've joined ${roomName} as a listener. Ask to speak when you want to talk.`
+                      : `You've joined ${roomName}`,
+                  );
                   router.push(`/(main)/room/${link.room.id}`);
                 } catch (err) {
                   logger.error("Error joining room:", err);
@@ -644,7 +710,7 @@ export default function RootLayout() {
                 registerForPushNotificationsAsync()
                   .then((pushToken) => {
                     if (pushToken) {
-                      savePushTokenToUser(data.id, pushToken).catch((err) =>
+                      savePushTokenToUser(pushToken).catch((err) =>
                         logger.log('Failed to save push token:', err)
                       );
                     }
@@ -1,22 +1,48 @@
 import React from 'react';
-import { View, StyleSheet, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../hooks/useTheme';
 import { radius } from '../lib/theme';
-import { AudioConnectionStatus } from '../types';
+import { AudioConnectionStatus, AudioReconnectEvent } from '../types';
+
+// Reconnects older than this no longer count as "recent"
+const RECENT_RECONNECT_WINDOW = 10 * 60 * 1000;
 
 interface AudioConnectionBadgeProps {
   status: AudioConnectionStatus;
+  // Automatic reconnects from the connection supervisor, newest last
+  reconnectHistory?: AudioReconnectEvent[];
+  // Connected on a listen-only seat; pressing the badge asks to speak
+  listenOnly?: boolean;
+  speakRequested?: boolean;
+  onRequestToSpeak?: () => void;
 }
 
 export const AudioConnectionBadge: React.FC<AudioConnectionBadgeProps> = ({
   status,
+  reconnectHistory = [],
+  listenOnly = false,
+  speakRequested = false,
+  onRequestToSpeak,
 }) => {
   const { theme } = useTheme();
 
+  const lastReconnect = reconnectHistory[reconnectHistory.length - 1];
+  const recentReconnects = reconnectHistory.filter(
+    (event) => event.succeeded && Date.now() - event.at < RECENT_RECONNECT_WINDOW
+  ).length;
+
   const getStatusConfig = () => {
     switch (status) {
       case 'connected':
+        if (listenOnly) {
+          return {
+            icon: speakRequested ? ('hand-left' as const) : ('headset' as const),
+            color: theme.colors.neon.green,
+            text: speakRequested ? 'Asked to speak' : 'Listening',
+            showSpinner: false,
+          };
+        }
         return {
           icon: 'mic' as const,
           color: theme.colors.neon.green,
@@ -34,14 +60,17 @@ export const AudioConnectionBadge: React.FC<AudioConnectionBadgeProps> = ({
         return {
           icon: 'sync' as const,
           color: theme.colors.mood.notGreat.base,
-          text: 'Reconnecting...',
+          // Attempts so far in this outage
+          text: lastReconnect && !lastReconnect.succeeded
+            ? `Reconnecting (attempt ${lastReconnect.attempt + 1})...`
+            : 'Reconnecting...',
           showSpinner: true,
         };
       case 'error':
         return {
           icon: 'warning' as const,
           color: theme.colors.mood.reachOut.base,
-          text: 'Connection Error',
+          text: lastReconnect?.gaveUp ? 'Connection Lost' : 'Connection Error',
           showSpinner: false,
         };
       default:
@@ -52,21 +81,52 @@ export const AudioConnectionBadge: React.FC<AudioConnectionBadgeProps> = ({
   const config = getStatusConfig();
   if (!config) return null;
 
-  return (
-    <View
-      style={[
-        styles.container,
-        {
-          borderColor: config.color,
-          backgroundColor: theme.colors.glass.background,
-        },
-      ]}
-    >
+  const containerStyle = [
+    styles.container,
+    {
+      borderColor: config.color,
+      backgroundColor: theme.colors.glass.background,
+    },
+  ];
+
+  // A flaky connection stays visible for a while after it recovers
+  const showReconnectCount = status === 'connected' && recentReconnects > 0;
+  const label = showReconnectCount
+    ? `${config.text}, reconnected ${recentReconnects} ${recentReconnects === 1 ? 'time' : 'times'} recently`
+    : config.text;
+
+  const content = (
+    <>
       {config.showSpinner ? (
         <ActivityIndicator size="small" color={config.color} />
       ) : (
         <Ionicons name={config.icon} size={16} color={config.color} />
       )}
+      {showReconnectCount && (
+        <View style={[styles.reconnectCount, { backgroundColor: theme.colors.mood.notGreat.base }]}>
+          <Text style={styles.reconnectCountText}>{recentReconnects}</Text>
+        </View>
+      )}
+    </>
+  );
+
+  if (status === 'connected' && listenOnly && onRequestToSpeak) {
+    return (
+      <TouchableOpacity
+        style={containerStyle}
+        onPress={onRequestToSpeak}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityLabel={speakRequested ? 'Cancel request to speak' : 'Ask to speak'}
+      >
+        {content}
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={containerStyle} accessibilityLabel={label}>
+      {content}
     </View>
   );
 };
@@ -80,4 +140,20 @@ const styles = StyleSheet.create({
     borderRadius: radius.full,
     borderWidth: 1,
   },
+  reconnectCount: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 14,
+    height: 14,
+    paddingHorizontal: 3,
+    borderRadius: radius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  reconnectCountText: {
+    color: '#FFFFFF',
+    fontSize: 9,
+    fontWeight: '700',
+  },
 });
@@ -0,0 +1,59 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+
+interface AudioLevelMeterProps {
+  level: number; // 0-1, from lib/participantAudio toMeterLevel
+  activeColor: string;
+  inactiveColor: string;
+  bars?: number;
+  height?: number;
+}
+
+/**
+ * Small bar meter for a participant's live audio level. Bars light up from
+ * the left, each one taller than the last.
+ */
+export const AudioLevelMeter: React.FC<AudioLevelMeterProps> = React.memo(({
+  level,
+  activeColor,
+  inactiveColor,
+  bars = 4,
+  height = 14,
+}) => {
+  const lit = Math.round(Math.max(0, Math.min(1, level)) * bars);
+
+  return (
+    <View
+      style={[styles.meter, { height }]}
+      accessibilityElementsHidden
+      importantForAccessibility="no-hide-descendants"
+      testID="audio-level-meter"
+    >
+      {Array.from({ length: bars }).map((_, i) => (
+        <View
+          key={i}
+          testID={i < lit ? 'audio-level-bar-lit' : 'audio-level-bar'}
+          style={[
+            styles.bar,
+            {
+              height: Math.max(3, (height * (i + 1)) / bars),
+              backgroundColor: i < lit ? activeColor : inactiveColor,
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  meter: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  bar: {
+    width: 3,
+    borderRadius: 1.5,
+  },
+});
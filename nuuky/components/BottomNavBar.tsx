@@ -21,6 +21,9 @@ interface BottomNavBarProps {
   onRoomsPress: () => void;
   onSettingsPress: () => void;
   onSwipeUpMic?: () => void;
+  // Push-to-talk: the mic talks while held instead of toggling on tap
+  onTalkStart?: () => void;
+  onTalkEnd?: () => void;
   bottomInset: number;
 }
 
@@ -45,8 +48,12 @@ export const BottomNavBar = React.memo(function BottomNavBar({
   onRoomsPress,
   onSettingsPress,
   onSwipeUpMic,
+  onTalkStart,
+  onTalkEnd,
   bottomInset,
 }: BottomNavBarProps) {
+  const holdToTalk = !!onTalkStart && !!onTalkEnd;
+
   // Morph animation between mic states
   const iconMorph = useRef(new RNAnimated.Value(1)).current;
   const prevMuted = useRef(isMuted);
@@ -78,6 +85,10 @@ export const BottomNavBar = React.memo(function BottomNavBar({
       onPanResponderGrant: () => {
         didSwipe = false;
         didMove = false;
+        if (holdToTalk) {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+          onTalkStart?.();
+        }
       },
       onPanResponderMove: (_, gestureState) => {
         // Track if user moved their finger at all
@@ -88,17 +99,25 @@ export const BottomNavBar = React.memo(function BottomNavBar({
         if (!didSwipe && gestureState.dy < SWIPE_UP_THRESHOLD) {
           didSwipe = true;
           Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+          if (holdToTalk) onTalkEnd?.();
           onSwipeUpMic?.();
         }
       },
       onPanResponderRelease: () => {
+        if (holdToTalk) {
+          if (!didSwipe) onTalkEnd?.();
+          return;
+        }
         // Only trigger mic toggle if it was a clean tap (no movement, no swipe)
         if (!didSwipe && !didMove) {
           onMicToggle();
         }
       },
+      onPanResponderTerminate: () => {
+        if (holdToTalk && !didSwipe) onTalkEnd?.();
+      },
     });
-  }, [onMicToggle, onSwipeUpMic]);
+  }, [onMicToggle, onSwipeUpMic, holdToTalk, onTalkStart, onTalkEnd]);
 
   return (
     <View style={[styles.bottomNav, { paddingBottom: Math.max(bottomInset, 8) }]} pointerEvents="box-none">
@@ -156,7 +175,11 @@ export const BottomNavBar = React.memo(function BottomNavBar({
         >
           <View
             style={styles.floatingButtonInner}
-            accessibilityLabel={isMuted ? "Unmute microphone. Swipe up for sound reactions" : "Mute microphone. Swipe up for sound reactions"}
+            accessibilityLabel={
+              holdToTalk
+                ? "Hold to talk. Swipe up for sound reactions"
+                : isMuted ? "Unmute microphone. Swipe up for sound reactions" : "Mute microphone. Swipe up for sound reactions"
+            }
             accessibilityRole="button"
           >
             <RNAnimated.View style={{ transform: [{ scale: iconMorph }], opacity: iconMorph }}>
@@ -19,6 +19,9 @@ interface CentralOrbProps {
   moodColor: string;
   glowColor: string;
   onPress?: () => void;
+  // Push-to-talk on the orb: a long press talks until released
+  onHoldStart?: () => void;
+  onHoldEnd?: () => void;
   hasActiveFlare: boolean;
   mood?: "good" | "neutral" | "not_great" | "reach_out";
   customMood?: CustomMood | null;
@@ -31,6 +34,8 @@ function CentralOrbComponent({
   moodColor,
   glowColor,
   onPress,
+  onHoldStart,
+  onHoldEnd,
   hasActiveFlare,
   mood = "neutral",
   customMood,
@@ -269,6 +274,18 @@ function CentralOrbComponent({
     onPress?.();
   };
 
+  const isHolding = useRef(false);
+  const handleLongPress = () => {
+    isHolding.current = true;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    onHoldStart?.();
+  };
+  const handlePressOut = () => {
+    if (!isHolding.current) return;
+    isHolding.current = false;
+    onHoldEnd?.();
+  };
+
   // Memoize all interpolations to prevent recreation on every render
   const interpolations = useMemo(
     () => ({
@@ -551,6 +568,9 @@ function CentralOrbComponent({
       <TouchableOpacity
         activeOpacity={0.85}
         onPress={handlePress}
+        onLongPress={onHoldStart ? handleLongPress : undefined}
+        onPressOut={onHoldStart ? handlePressOut : undefined}
+        delayLongPress={250}
         accessibilityLabel="Your mood orb"
         accessibilityRole="button"
       >
@@ -619,7 +639,9 @@ export const CentralOrb = memo(CentralOrbComponent, (prevProps, nextProps) => {
     prevProps.customMood?.image_url === nextProps.customMood?.image_url &&
     prevProps.isCustomMoodActive === nextProps.isCustomMoodActive &&
     prevProps.statusText === nextProps.statusText &&
-    prevProps.onPress === nextProps.onPress
+    prevProps.onPress === nextProps.onPress &&
+    prevProps.onHoldStart === nextProps.onHoldStart &&
+    prevProps.onHoldEnd === nextProps.onHoldEnd
   );
 });
 
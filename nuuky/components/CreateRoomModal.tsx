@@ -6,6 +6,7 @@ import {
   Modal,
   TouchableOpacity,
   TextInput,
+  ScrollView,
   KeyboardAvoidingView,
   Platform,
   Dimensions,
@@ -15,6 +16,9 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useTheme } from '../hooks/useTheme';
 import { radius } from '../lib/theme';
+import { formatScheduleDays } from '../lib/availabilitySchedule';
+import { DEFAULT_ROOM_REMINDER_MINUTES, ScheduleRoomInput } from '../lib/roomSchedule';
+import { User } from '../types';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -26,11 +30,34 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 const { width: SCREEN_W, height: SCREEN_H } = Dimensions.get('window');
 
+type StartMode = 'now' | 'later' | 'weekly';
+
+const START_MODES: { mode: StartMode; label: string }[] = [
+  { mode: 'now', label: 'Now' },
+  { mode: 'later', label: 'Later' },
+  { mode: 'weekly', label: 'Weekly' },
+];
+
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+function dayOffsetLabel(offset: number): string {
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  const date = new Date();
+  date.setDate(date.getDate() + offset);
+  return date.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' });
+}
+
 interface CreateRoomModalProps {
   visible: boolean;
   onClose: () => void;
   onCreate: (name?: string, isPrivate?: boolean) => void;
   originPoint?: { x: number; y: number };
+  // Scheduling is offered when a handler is passed
+  onSchedule?: (input: ScheduleRoomInput) => void;
+  friends?: User[];
 }
 
 export const CreateRoomModal: React.FC<CreateRoomModalProps> = ({
@@ -38,12 +65,22 @@ export const CreateRoomModal: React.FC<CreateRoomModalProps> = ({
   onClose,
   onCreate,
   originPoint,
+  onSchedule,
+  friends = [],
 }) => {
   const { theme, accent } = useTheme();
   const insets = useSafeAreaInsets();
   const [roomName, setNuukName] = useState('');
   const creatingRef = useRef(false);
 
+  // Scheduling defaults to the next full hour
+  const [startMode, setStartMode] = useState<StartMode>('now');
+  const [dayOffset, setDayOffset] = useState(() => (new Date().getHours() === 23 ? 1 : 0));
+  const [weekdays, setWeekdays] = useState<number[]>(() => [new Date().getDay()]);
+  const [hour, setHour] = useState(() => (new Date().getHours() + 1) % 24);
+  const [minute, setMinute] = useState(0);
+  const [invitedIds, setInvitedIds] = useState<string[]>([]);
+
   const offsetX = (originPoint?.x ?? SCREEN_W / 2) - SCREEN_W / 2;
   const offsetY = (originPoint?.y ?? SCREEN_H / 2) - SCREEN_H / 2;
 
@@ -63,14 +100,58 @@ export const CreateRoomModal: React.FC<CreateRoomModalProps> = ({
     });
   }, [onClose]);
 
-  const canCreate = roomName.trim().length > 0;
+  const startsAt = new Date();
+  startsAt.setDate(startsAt.getDate() + dayOffset);
+  startsAt.setHours(hour, minute, 0, 0);
+
+  const isScheduling = !!onSchedule && startMode !== 'now';
+  const scheduleValid =
+    startMode === 'later' ? startsAt.getTime() > Date.now()
+    : startMode === 'weekly' ? weekdays.length > 0
+    : true;
+  const canCreate = roomName.trim().length > 0 && scheduleValid;
+
+  const schedulePreview = startMode === 'weekly'
+    ? `${weekdays.length ? formatScheduleDays(weekdays) : 'Pick days'} at ${pad(hour)}:${pad(minute)}`
+    : `${dayOffsetLabel(dayOffset)} at ${pad(hour)}:${pad(minute)}`;
+
+  const changeTime = (deltaMinutes: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const total = (hour * 60 + minute + deltaMinutes + 24 * 60) % (24 * 60);
+    setHour(Math.floor(total / 60));
+    setMinute(total % 60);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((days) => (days.includes(day) ? days.filter((d) => d !== day) : [...days, day]));
+  };
+
+  const toggleFriend = (friendId: string) => {
+    setInvitedIds((ids) => (ids.includes(friendId) ? ids.filter((id) => id !== friendId) : [...ids, friendId]));
+  };
+
+  const resetSchedule = () => {
+    setStartMode('now');
+    setInvitedIds([]);
+  };
 
   const handleCreate = () => {
     if (!canCreate || creatingRef.current) return;
     creatingRef.current = true;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    onCreate(roomName.trim(), true);
+    if (isScheduling) {
+      onSchedule!({
+        name: roomName.trim(),
+        ...(startMode === 'weekly'
+          ? { days: [...weekdays].sort((a, b) => a - b), startTime: `${pad(hour)}:${pad(minute)}` }
+          : { startsAt }),
+        friendIds: invitedIds,
+      });
+    } else {
+      onCreate(roomName.trim(), true);
+    }
     setNuukName('');
+    resetSchedule();
     handleClose();
     // Reset after a short delay to allow the close animation to finish
     setTimeout(() => { creatingRef.current = false; }, 500);
@@ -79,6 +160,7 @@ export const CreateRoomModal: React.FC<CreateRoomModalProps> = ({
   const handleCancel = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setNuukName('');
+    resetSchedule();
     handleClose();
   };
 
@@ -151,6 +233,138 @@ export const CreateRoomModal: React.FC<CreateRoomModalProps> = ({
               </View>
             </View>
 
+            {/* When Section */}
+            {onSchedule && (
+              <ScrollView style={styles.scheduleScroll} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                <View style={styles.inputSection}>
+                  <Text style={[styles.sectionLabel, { color: theme.colors.text.tertiary }]}>WHEN</Text>
+                  <View style={[styles.segmented, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+                    {START_MODES.map(({ mode, label }) => (
+                      <TouchableOpacity
+                        key={mode}
+                        style={[styles.segment, startMode === mode && { backgroundColor: accent.primary }]}
+                        onPress={() => setStartMode(mode)}
+                        activeOpacity={0.7}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected: startMode === mode }}
+                      >
+                        <Text
+                          style={[
+                            styles.segmentText,
+                            { color: startMode === mode ? accent.textOnPrimary : theme.colors.text.secondary },
+                          ]}
+                        >
+                          {label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                {isScheduling && (
+                  <>
+                    <View style={styles.inputSection}>
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                        {startMode === 'later'
+                          ? [0, 1, 2, 3, 4, 5, 6].map((offset) => (
+                              <TouchableOpacity
+                                key={offset}
+                                style={[
+                                  styles.chip,
+                                  {
+                                    borderColor: dayOffset === offset ? accent.primary : theme.colors.glass.border,
+                                    backgroundColor: dayOffset === offset ? accent.soft : theme.colors.glass.background,
+                                  },
+                                ]}
+                                onPress={() => setDayOffset(offset)}
+                                activeOpacity={0.7}
+                              >
+                                <Text style={[styles.chipText, { color: dayOffset === offset ? accent.primary : theme.colors.text.secondary }]}>
+                                  {dayOffsetLabel(offset)}
+                                </Text>
+                              </TouchableOpacity>
+                            ))
+                          : WEEKDAY_INITIALS.map((initial, day) => (
+                              <TouchableOpacity
+                                key={day}
+                                style={[
+                                  styles.chip,
+                                  {
+                                    borderColor: weekdays.includes(day) ? accent.primary : theme.colors.glass.border,
+                                    backgroundColor: weekdays.includes(day) ? accent.soft : theme.colors.glass.background,
+                                  },
+                                  styles.weekdayChip,
+                                ]}
+                                onPress={() => toggleWeekday(day)}
+                                activeOpacity={0.7}
+                                accessibilityLabel={formatScheduleDays([day])}
+                                accessibilityState={{ selected: weekdays.includes(day) }}
+                              >
+                                <Text style={[styles.chipText, { color: weekdays.includes(day) ? accent.primary : theme.colors.text.secondary }]}>
+                                  {initial}
+                                </Text>
+                              </TouchableOpacity>
+                            ))}
+                      </ScrollView>
+
+                      <View style={[styles.timeRow, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+                        <TouchableOpacity style={styles.timeButton} onPress={() => changeTime(-60)} accessibilityLabel="Hour earlier">
+                          <Ionicons name="play-back" size={16} color={theme.colors.text.secondary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.timeButton} onPress={() => changeTime(-15)} accessibilityLabel="15 minutes earlier">
+                          <Ionicons name="remove" size={20} color={theme.colors.text.primary} />
+                        </TouchableOpacity>
+                        <Text style={[styles.timeText, { color: theme.colors.text.primary }]}>{`${pad(hour)}:${pad(minute)}`}</Text>
+                        <TouchableOpacity style={styles.timeButton} onPress={() => changeTime(15)} accessibilityLabel="15 minutes later">
+                          <Ionicons name="add" size={20} color={theme.colors.text.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.timeButton} onPress={() => changeTime(60)} accessibilityLabel="Hour later">
+                          <Ionicons name="play-forward" size={16} color={theme.colors.text.secondary} />
+                        </TouchableOpacity>
+                      </View>
+
+                      <Text style={[styles.scheduleHint, { color: scheduleValid ? theme.colors.text.tertiary : '#FF3B30' }]}>
+                        {startMode === 'later' && !scheduleValid
+                          ? 'That time has already passed'
+                          : `${schedulePreview} · reminder ${DEFAULT_ROOM_REMINDER_MINUTES} min before`}
+                      </Text>
+                    </View>
+
+                    {friends.length > 0 && (
+                      <View style={styles.inputSection}>
+                        <Text style={[styles.sectionLabel, { color: theme.colors.text.tertiary }]}>INVITE FRIENDS</Text>
+                        <View style={styles.friendChips}>
+                          {friends.map((friend) => {
+                            const invited = invitedIds.includes(friend.id);
+                            return (
+                              <TouchableOpacity
+                                key={friend.id}
+                                style={[
+                                  styles.chip,
+                                  {
+                                    borderColor: invited ? accent.primary : theme.colors.glass.border,
+                                    backgroundColor: invited ? accent.soft : theme.colors.glass.background,
+                                  },
+                                ]}
+                                onPress={() => toggleFriend(friend.id)}
+                                activeOpacity={0.7}
+                                accessibilityState={{ selected: invited }}
+                              >
+                                {invited && <Ionicons name="checkmark" size={14} color={accent.primary} />}
+                                <Text style={[styles.chipText, { color: invited ? accent.primary : theme.colors.text.secondary }]}>
+                                  {friend.display_name}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+                      </View>
+                    )}
+                  </>
+                )}
+              </ScrollView>
+            )}
+
             {/* Buttons */}
             <View style={styles.buttons}>
               <TouchableOpacity
@@ -176,7 +390,7 @@ export const CreateRoomModal: React.FC<CreateRoomModalProps> = ({
                     { color: canCreate ? accent.textOnPrimary : theme.colors.text.tertiary },
                   ]}
                 >
-                  Create
+                  {isScheduling ? 'Schedule' : 'Create'}
                 </Text>
               </TouchableOpacity>
             </View>
@@ -240,6 +454,78 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  scheduleScroll: {
+    flexGrow: 0,
+    flexShrink: 1,
+  },
+  segmented: {
+    flexDirection: 'row',
+    borderRadius: radius.md,
+    borderWidth: 1,
+    padding: 4,
+    gap: 4,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: radius.sm,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipRow: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+  weekdayChip: {
+    width: 40,
+    paddingHorizontal: 0,
+    justifyContent: 'center',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderRadius: radius.md,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  timeButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  timeText: {
+    fontSize: 24,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  scheduleHint: {
+    fontSize: 13,
+    marginTop: 10,
+  },
+  friendChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   buttons: {
     flexDirection: 'row',
     gap: 12,
@@ -0,0 +1,123 @@
+import React, { memo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { FlareResponse } from '../types';
+import { getFlareResponseOption } from '../lib/flareResponses';
+
+interface FlareResponsesPanelProps {
+  responses: FlareResponse[];
+  bottomInset: number;
+  theme: any;
+  onOpenRoom?: (roomId: string) => void;
+}
+
+/**
+ * Live list of friends answering the user's own flare, shown above the nav bar.
+ */
+function FlareResponsesPanelComponent({ responses, bottomInset, theme, onOpenRoom }: FlareResponsesPanelProps) {
+  if (responses.length === 0) return null;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { bottom: bottomInset + 110, backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border },
+      ]}
+      pointerEvents="box-none"
+    >
+      <Text style={[styles.title, { color: theme.colors.text.tertiary }]}>FLARE RESPONSES</Text>
+      {responses.map((response) => {
+        const option = getFlareResponseOption(response.status);
+        const name = response.responder?.display_name || 'A friend';
+        const roomId = response.room_id;
+
+        return (
+          <View key={response.id} style={styles.row}>
+            {response.responder?.avatar_url ? (
+              <Image source={{ uri: response.responder.avatar_url }} style={styles.avatar} cachePolicy="memory-disk" />
+            ) : (
+              <View style={[styles.avatar, { backgroundColor: theme.colors.glass.border }]}>
+                <Text style={[styles.avatarText, { color: theme.colors.text.primary }]}>
+                  {name.charAt(0).toUpperCase()}
+                </Text>
+              </View>
+            )}
+            <Text style={[styles.name, { color: theme.colors.text.primary }]} numberOfLines={1}>
+              {name}
+            </Text>
+            <View style={[styles.statusPill, { borderColor: option.color }]}>
+              <Ionicons name={option.icon as any} size={12} color={option.color} />
+              <Text style={[styles.statusText, { color: option.color }]}>{option.label}</Text>
+            </View>
+            {roomId && onOpenRoom && (
+              <TouchableOpacity
+                onPress={() => onOpenRoom(roomId)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                accessibilityLabel={`Open room with ${name}`}
+                accessibilityRole="button"
+              >
+                <Ionicons name="chatbubbles" size={18} color={theme.colors.text.primary} />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+export const FlareResponsesPanel = memo(FlareResponsesPanelComponent);
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    borderRadius: 16,
+    borderWidth: 0.5,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    gap: 8,
+    zIndex: 150,
+  },
+  title: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  avatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  name: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  statusPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../hooks/useTheme';
+import { useFocusCountdown } from '../hooks/useFocusCountdown';
+import { describeFocusState, formatFocusCountdown } from '../lib/focusSession';
+import { radius, spacing, typography } from '../lib/theme';
+import { FocusSession } from '../types';
+
+interface FocusSessionBarProps {
+  session: FocusSession | null;
+  participantCount: number;
+  onPress: () => void;
+}
+
+/**
+ * Room header row for focus sessions: the shared countdown while one runs,
+ * otherwise an invitation to start one. Ticks on its own so the rest of the
+ * room doesn't re-render every second.
+ */
+export const FocusSessionBar: React.FC<FocusSessionBarProps> = ({ session, participantCount, onPress }) => {
+  const { theme, accent } = useTheme();
+  const state = useFocusCountdown(session);
+
+  const isWork = state?.phase === 'work';
+  const tint = isWork ? accent.primary : theme.colors.text.secondary;
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.bar,
+        {
+          borderColor: isWork ? accent.primary : theme.colors.glass.border,
+          backgroundColor: isWork ? accent.soft : theme.colors.glass.background,
+        },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.8}
+      accessibilityRole="button"
+      accessibilityLabel={session && state ? describeFocusState(state, session.rounds) : 'Start a focus session'}
+    >
+      <Ionicons name={state?.phase === 'break' ? 'cafe-outline' : 'timer-outline'} size={16} color={tint} />
+      {session && state ? (
+        <>
+          <Text style={[styles.label, { color: tint }]} numberOfLines={1}>
+            {describeFocusState(state, session.rounds)}
+          </Text>
+          {state.phase !== 'done' && (
+            <Text style={[styles.countdown, { color: tint }]}>{formatFocusCountdown(state.remainingMs)}</Text>
+          )}
+          <View style={styles.people}>
+            <Ionicons name="people" size={14} color={theme.colors.text.tertiary} />
+            <Text style={[styles.peopleText, { color: theme.colors.text.tertiary }]}>{participantCount}</Text>
+          </View>
+        </>
+      ) : (
+        <>
+          <Text style={[styles.label, { color: tint }]}>Focus together</Text>
+          <Ionicons name="chevron-forward" size={16} color={tint} />
+        </>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+  },
+  label: {
+    flex: 1,
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium as any,
+  },
+  countdown: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.bold as any,
+    fontVariant: ['tabular-nums'],
+  },
+  people: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  peopleText: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.semibold as any,
+  },
+});
@@ -0,0 +1,552 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withTiming,
+  runOnJS,
+  Easing,
+} from 'react-native-reanimated';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from '../hooks/useTheme';
+import { useFocusCountdown } from '../hooks/useFocusCountdown';
+import { radius } from '../lib/theme';
+import {
+  FocusConfig,
+  FOCUS_INTENTION_MAX_LENGTH,
+  FOCUS_LIMITS,
+  FOCUS_PRESETS,
+  clampFocusConfig,
+  describeFocusState,
+  formatFocusCountdown,
+  formatFocusMinutes,
+} from '../lib/focusSession';
+import { FocusSession, FocusSessionParticipant, FocusSummary } from '../types';
+
+interface FocusSessionModalProps {
+  visible: boolean;
+  onClose: () => void;
+  session: FocusSession | null;
+  participants: FocusSessionParticipant[];
+  currentUserId: string;
+  summary: FocusSummary | null;
+  canStart: boolean; // Listeners can join a session but not start one
+  canEnd: boolean;
+  loading?: boolean;
+  onStart: (config: FocusConfig, intention?: string) => Promise<boolean>;
+  onJoin: (intention?: string) => Promise<boolean>;
+  onEnd: () => Promise<boolean>;
+}
+
+interface StepperProps {
+  label: string;
+  value: number;
+  unit: string;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+  theme: any;
+  accentColor: string;
+}
+
+const Stepper: React.FC<StepperProps> = ({ label, value, unit, min, max, step = 1, onChange, theme, accentColor }) => {
+  const change = (delta: number) => {
+    const next = Math.min(max, Math.max(min, value + delta));
+    if (next === value) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(next);
+  };
+
+  return (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.stepperLabel, { color: theme.colors.text.primary }]}>{label}</Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, { borderColor: theme.colors.glass.border, opacity: value <= min ? 0.4 : 1 }]}
+        onPress={() => change(-step)}
+        disabled={value <= min}
+        accessibilityLabel={`Decrease ${label.toLowerCase()}`}
+      >
+        <Ionicons name="remove" size={18} color={accentColor} />
+      </TouchableOpacity>
+      <Text style={[styles.stepperValue, { color: theme.colors.text.primary }]}>
+        {value} {unit}
+      </Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, { borderColor: theme.colors.glass.border, opacity: value >= max ? 0.4 : 1 }]}
+        onPress={() => change(step)}
+        disabled={value >= max}
+        accessibilityLabel={`Increase ${label.toLowerCase()}`}
+      >
+        <Ionicons name="add" size={18} color={accentColor} />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export const FocusSessionModal: React.FC<FocusSessionModalProps> = ({
+  visible,
+  onClose,
+  session,
+  participants,
+  currentUserId,
+  summary,
+  canStart,
+  canEnd,
+  loading = false,
+  onStart,
+  onJoin,
+  onEnd,
+}) => {
+  const { theme, accent } = useTheme();
+  const insets = useSafeAreaInsets();
+  const state = useFocusCountdown(visible ? session : null);
+  const me = participants.find((p) => p.user_id === currentUserId);
+
+  const [config, setConfig] = useState<FocusConfig>(FOCUS_PRESETS[0]);
+  const [intention, setIntention] = useState('');
+
+  const progress = useSharedValue(0);
+
+  useEffect(() => {
+    if (visible) {
+      setIntention(me?.intention ?? '');
+      progress.value = withTiming(1, { duration: 250, easing: Easing.out(Easing.cubic) });
+    } else {
+      progress.value = 0;
+    }
+  }, [visible]);
+
+  const handleClose = useCallback(() => {
+    progress.value = withTiming(0, { duration: 200, easing: Easing.in(Easing.cubic) }, () => {
+      runOnJS(onClose)();
+    });
+  }, [onClose]);
+
+  const handleStart = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    if (await onStart(clampFocusConfig(config), intention)) {
+      handleClose();
+    }
+  };
+
+  const handleJoin = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    if (await onJoin(intention)) {
+      handleClose();
+    }
+  };
+
+  const handleEnd = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    await onEnd();
+  };
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    opacity: progress.value,
+    transform: [{ scale: 0.3 + progress.value * 0.7 }],
+  }));
+
+  const backdropStyle = useAnimatedStyle(() => ({
+    opacity: progress.value,
+  }));
+
+  const isRunning = !!session && !!state && state.phase !== 'done';
+  const intentionChanged = intention.trim() !== (me?.intention ?? '');
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={handleClose} statusBarTranslucent>
+      <View style={styles.fullScreen}>
+        <Animated.View style={[StyleSheet.absoluteFill, backdropStyle]}>
+          <BlurView intensity={50} tint="dark" style={StyleSheet.absoluteFill}>
+            <TouchableOpacity
+              style={[StyleSheet.absoluteFill, { backgroundColor: 'rgba(0,0,0,0.4)' }]}
+              activeOpacity={1}
+              onPress={handleClose}
+            />
+          </BlurView>
+        </Animated.View>
+
+        <Animated.View style={[styles.fullScreenContent, { paddingTop: insets.top + 8 }, animatedStyle]}>
+          <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.keyboardView}>
+            <View style={styles.header}>
+              <TouchableOpacity
+                style={[styles.closeButton, { backgroundColor: theme.colors.glass.background }]}
+                onPress={handleClose}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="close" size={22} color={theme.colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+              showsVerticalScrollIndicator={false}
+              keyboardShouldPersistTaps="handled"
+            >
+              <Text style={[styles.title, { color: theme.colors.text.primary }]}>Focus Together</Text>
+              <Text style={[styles.subtitle, { color: theme.colors.text.tertiary }]}>
+                Work alongside friends. Mics mute while you focus.
+              </Text>
+
+              {/* Running session */}
+              {session && state && (
+                <View style={[styles.card, styles.timerCard, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+                  <Text style={[styles.timerPhase, { color: state.phase === 'work' ? accent.primary : theme.colors.text.secondary }]}>
+                    {describeFocusState(state, session.rounds).toUpperCase()}
+                  </Text>
+                  {state.phase !== 'done' && (
+                    <Text style={[styles.timerCountdown, { color: theme.colors.text.primary }]}>
+                      {formatFocusCountdown(state.remainingMs)}
+                    </Text>
+                  )}
+                  <Text style={[styles.timerMeta, { color: theme.colors.text.tertiary }]}>
+                    {session.work_minutes} min focus · {session.break_minutes} min break · {session.rounds} rounds
+                  </Text>
+                </View>
+              )}
+
+              {/* Who's focusing */}
+              {isRunning && participants.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionLabel, { color: theme.colors.text.tertiary }]}>FOCUSING</Text>
+                  <View style={[styles.card, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+                    {participants.map((p) => (
+                      <View key={p.user_id} style={styles.participantRow}>
+                        <Text style={[styles.participantName, { color: theme.colors.text.primary }]} numberOfLines={1}>
+                          {p.user_id === currentUserId ? 'You' : p.user?.display_name || 'Someone'}
+                        </Text>
+                        <Text style={[styles.participantIntention, { color: theme.colors.text.tertiary }]} numberOfLines={2}>
+                          {p.intention || 'No intention set'}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {/* New session settings */}
+              {!isRunning && canStart && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionLabel, { color: theme.colors.text.tertiary }]}>TIMER</Text>
+                  <View style={styles.presets}>
+                    {FOCUS_PRESETS.map((preset) => {
+                      const selected =
+                        preset.workMinutes === config.workMinutes &&
+                        preset.breakMinutes === config.breakMinutes &&
+                        preset.rounds === config.rounds;
+                      return (
+                        <TouchableOpacity
+                          key={preset.label}
+                          style={[
+                            styles.presetChip,
+                            {
+                              borderColor: selected ? accent.primary : theme.colors.glass.border,
+                              backgroundColor: selected ? accent.soft : theme.colors.glass.background,
+                            },
+                          ]}
+                          onPress={() => setConfig(preset)}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={[styles.presetLabel, { color: selected ? accent.primary : theme.colors.text.primary }]}>
+                            {preset.label}
+                          </Text>
+                          <Text style={[styles.presetMeta, { color: theme.colors.text.tertiary }]}>
+                            {preset.workMinutes}/{preset.breakMinutes} × {preset.rounds}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <View style={[styles.card, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+                    <Stepper
+                      label="Focus"
+                      value={config.workMinutes}
+                      unit="min"
+                      min={FOCUS_LIMITS.workMinutes.min}
+                      max={FOCUS_LIMITS.workMinutes.max}
+                      step={5}
+                      onChange={(workMinutes) => setConfig((c) => ({ ...c, workMinutes }))}
+                      theme={theme}
+                      accentColor={accent.primary}
+                    />
+                    <Stepper
+                      label="Break"
+                      value={config.breakMinutes}
+                      unit="min"
+                      min={FOCUS_LIMITS.breakMinutes.min}
+                      max={FOCUS_LIMITS.breakMinutes.max}
+                      onChange={(breakMinutes) => setConfig((c) => ({ ...c, breakMinutes }))}
+                      theme={theme}
+                      accentColor={accent.primary}
+                    />
+                    <Stepper
+                      label="Rounds"
+                      value={config.rounds}
+                      unit=""
+                      min={FOCUS_LIMITS.rounds.min}
+                      max={FOCUS_LIMITS.rounds.max}
+                      onChange={(rounds) => setConfig((c) => ({ ...c, rounds }))}
+                      theme={theme}
+                      accentColor={accent.primary}
+                    />
+                  </View>
+                </View>
+              )}
+
+              {!isRunning && !canStart && (
+                <Text style={[styles.note, { color: theme.colors.text.tertiary }]}>
+                  No focus session right now. Anyone who can speak in this room can start one.
+                </Text>
+              )}
+
+              {/* Intention */}
+              {(isRunning || canStart) && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionLabel, { color: theme.colors.text.tertiary }]}>YOUR INTENTION (OPTIONAL)</Text>
+                  <View style={[styles.card, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+                    <TextInput
+                      style={[styles.input, { color: theme.colors.text.primary }]}
+                      placeholder="What are you working on?"
+                      placeholderTextColor={theme.colors.text.tertiary}
+                      value={intention}
+                      onChangeText={setIntention}
+                      maxLength={FOCUS_INTENTION_MAX_LENGTH}
+                    />
+                  </View>
+                </View>
+              )}
+
+              {/* Actions */}
+              {!isRunning && canStart && (
+                <TouchableOpacity
+                  style={[styles.primaryButton, { backgroundColor: accent.primary, opacity: loading ? 0.6 : 1 }]}
+                  onPress={handleStart}
+                  disabled={loading}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.primaryButtonText, { color: accent.textOnPrimary }]}>Start focus session</Text>
+                </TouchableOpacity>
+              )}
+
+              {isRunning && (!me || intentionChanged) && (
+                <TouchableOpacity
+                  style={[styles.primaryButton, { backgroundColor: accent.primary }]}
+                  onPress={handleJoin}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.primaryButtonText, { color: accent.textOnPrimary }]}>
+                    {me ? 'Update intention' : 'Join session'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              {isRunning && canEnd && (
+                <TouchableOpacity
+                  style={[styles.secondaryButton, { backgroundColor: 'rgba(255,59,48,0.12)', borderColor: 'rgba(255,59,48,0.3)' }]}
+                  onPress={handleEnd}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.secondaryButtonText, { color: '#FF3B30' }]}>End session for everyone</Text>
+                </TouchableOpacity>
+              )}
+
+              {/* Your history */}
+              {summary && summary.sessions_joined > 0 && (
+                <View style={[styles.summary, { borderTopColor: theme.colors.glass.border }]}>
+                  <Ionicons name="trophy-outline" size={16} color={theme.colors.text.tertiary} />
+                  <Text style={[styles.summaryText, { color: theme.colors.text.tertiary }]}>
+                    {summary.sessions_completed} {summary.sessions_completed === 1 ? 'session' : 'sessions'} completed ·{' '}
+                    {formatFocusMinutes(summary.focus_minutes)} focused
+                  </Text>
+                </View>
+              )}
+            </ScrollView>
+          </KeyboardAvoidingView>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  fullScreen: {
+    flex: 1,
+  },
+  fullScreenContent: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '700',
+    letterSpacing: -0.5,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.8,
+    marginBottom: 10,
+  },
+  card: {
+    borderRadius: radius.md,
+    borderWidth: 1,
+  },
+  timerCard: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    marginBottom: 24,
+  },
+  timerPhase: {
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.8,
+  },
+  timerCountdown: {
+    fontSize: 56,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+    marginVertical: 4,
+  },
+  timerMeta: {
+    fontSize: 13,
+  },
+  participantRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  participantName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  participantIntention: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  presets: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  presetChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: radius.md,
+    borderWidth: 1,
+  },
+  presetLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  presetMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 12,
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  note: {
+    fontSize: 14,
+    marginBottom: 24,
+  },
+  input: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: radius.md,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingTop: 16,
+    borderTopWidth: 1,
+  },
+  summaryText: {
+    fontSize: 13,
+  },
+});
@@ -5,6 +5,7 @@ import { BlurView } from 'expo-blur';
 import * as Haptics from 'expo-haptics';
 import { User } from '../types';
 import { typography } from '../lib/theme';
+import { formatRelativeTime, isUserTrulyOnline } from '../lib/utils';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -17,6 +18,7 @@ interface FriendActionBubbleProps {
   onPhotoNudge: () => void;
   onVoiceMoment?: () => void;
   onInteraction?: () => void;
+  onRespondToFlare?: () => void; // Set while this friend has an active flare
 }
 
 // Expanding ripple ring
@@ -157,6 +159,7 @@ export const FriendActionBubble = React.memo(function FriendActionBubble({
   onPhotoNudge,
   onVoiceMoment,
   onInteraction,
+  onRespondToFlare,
 }: FriendActionBubbleProps) {
   const scaleAnim = useRef(new Animated.Value(0.3)).current;
   const opacityAnim = useRef(new Animated.Value(0)).current;
@@ -202,14 +205,34 @@ export const FriendActionBubble = React.memo(function FriendActionBubble({
     ]).start();
   }, []);
 
+  // Status line reflects the visibility tier the friend granted us:
+  // full shows custom mood + presence, limited presence only, minimal/hidden nothing
+  const visibility = friend.visibility ?? 'full';
+  const isPrivate = visibility === 'minimal' || visibility === 'hidden';
+  const statusText = (() => {
+    if (isPrivate) return 'Only sharing their profile';
+    const parts: string[] = [];
+    if (visibility === 'full' && friend.custom_mood) {
+      parts.push(`${friend.custom_mood.emoji} ${friend.custom_mood.text}`);
+    }
+    if (isUserTrulyOnline(friend.is_online, friend.last_seen_at)) {
+      parts.push('Online');
+    } else if (friend.last_seen_at) {
+      const lastSeen = formatRelativeTime(friend.last_seen_at);
+      if (lastSeen) parts.push(`Active ${lastSeen}`);
+    }
+    return parts.join(' · ');
+  })();
+
   // Calculate bubble position - center above friend, clear of avatar
   const bubbleWidth = 260; // 4 buttons
   const avatarRadius = 35; // Approximate avatar radius
+  const statusHeight = statusText ? 20 : 0;
   const bubbleX = Math.max(
     16,
     Math.min(position.x - bubbleWidth / 2, SCREEN_WIDTH - bubbleWidth - 16)
   );
-  const bubbleY = position.y - avatarRadius - 80; // Position above avatar
+  const bubbleY = position.y - avatarRadius - 80 - statusHeight; // Position above avatar
 
   // Adjust if bubble would go off screen top
   const isAbove = bubbleY >= 100;
@@ -418,6 +441,34 @@ export const FriendActionBubble = React.memo(function FriendActionBubble({
         {/* Main bubble body */}
         <BlurView intensity={60} tint="dark" style={styles.blurWrapper}>
           <View style={styles.bubble}>
+            {/* Mood / presence, reduced to what the friend shares with us */}
+            {!!statusText && (
+              <View style={styles.statusRow}>
+                {isPrivate && (
+                  <Ionicons name="eye-off" size={11} color="rgba(255, 255, 255, 0.55)" />
+                )}
+                <Text style={styles.statusText} numberOfLines={1}>
+                  {statusText}
+                </Text>
+              </View>
+            )}
+
+            {onRespondToFlare && (
+              <TouchableOpacity
+                style={styles.flareRow}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+                  onRespondToFlare();
+                }}
+                activeOpacity={0.6}
+                accessibilityLabel="Respond to flare"
+                accessibilityRole="button"
+              >
+                <Ionicons name="flame" size={13} color="#FF3B30" />
+                <Text style={styles.flareText}>Respond to flare</Text>
+              </TouchableOpacity>
+            )}
+
             {/* Action icons with labels */}
             <View style={styles.actionsRow}>
             {/* Nudge button */}
@@ -614,6 +665,33 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     paddingVertical: 10,
   },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginBottom: 6,
+  },
+  statusText: {
+    fontSize: 11,
+    fontFamily: 'Outfit_500Medium',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  flareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginBottom: 8,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 59, 48, 0.18)',
+  },
+  flareText: {
+    fontSize: 12,
+    fontFamily: 'Outfit_600SemiBold',
+    color: '#FF3B30',
+  },
   actionsRow: {
     flexDirection: 'row',
     justifyContent: 'space-around',
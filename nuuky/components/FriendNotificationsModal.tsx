@@ -0,0 +1,228 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, radius, typography } from '../lib/theme';
+import { useTheme } from '../hooks/useTheme';
+import {
+  FRIEND_OVERRIDE_OPTIONS,
+  NOTIFICATION_TYPE_OPTIONS,
+  FriendOverrideMode,
+  getFriendOverrideMode,
+} from '../lib/notificationPreferences';
+import { NotificationPreference, NotificationType } from '../types';
+
+interface FriendOption {
+  id: string;
+  name: string;
+}
+
+interface FriendNotificationsModalProps {
+  visible: boolean;
+  friends: FriendOption[];
+  // null shows the friend picker
+  friendId: string | null;
+  overrides: NotificationPreference[];
+  onSelectFriend: (friendId: string) => void;
+  onSetOverride: (type: NotificationType, mode: Exclude<FriendOverrideMode, 'custom'>) => void;
+  onClose: () => void;
+}
+
+export const FriendNotificationsModal: React.FC<FriendNotificationsModalProps> = ({
+  visible,
+  friends,
+  friendId,
+  overrides,
+  onSelectFriend,
+  onSetOverride,
+  onClose,
+}) => {
+  const { theme, accent } = useTheme();
+  const friend = friendId ? friends.find((f) => f.id === friendId) : undefined;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <BlurView intensity={20} tint="dark" style={StyleSheet.absoluteFill} />
+
+        <View style={[styles.modalContainer, { borderColor: theme.colors.glass.border }]}>
+          <BlurView intensity={80} tint="dark" style={styles.modal}>
+            {/* Header */}
+            <View style={[styles.header, { borderBottomColor: theme.colors.glass.border }]}>
+              <Text style={[styles.title, { color: theme.colors.text.primary }]} numberOfLines={1}>
+                {friend ? friend.name : 'Choose a Friend'}
+              </Text>
+              <TouchableOpacity
+                style={[styles.closeButton, { backgroundColor: theme.colors.glass.background }]}
+                onPress={onClose}
+                activeOpacity={0.8}
+                accessibilityLabel="Close"
+                accessibilityRole="button"
+              >
+                <Ionicons name="close" size={24} color={theme.colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.content} contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+              {!friend ? (
+                friends.length === 0 ? (
+                  <Text style={[styles.emptyMessage, { color: theme.colors.text.tertiary }]}>
+                    Add friends to change their notifications.
+                  </Text>
+                ) : (
+                  friends.map((f) => (
+                    <TouchableOpacity
+                      key={f.id}
+                      style={[styles.item, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}
+                      onPress={() => onSelectFriend(f.id)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={[styles.itemLabel, { color: theme.colors.text.primary }]} numberOfLines={1}>
+                        {f.name}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={18} color={theme.colors.text.tertiary} />
+                    </TouchableOpacity>
+                  ))
+                )
+              ) : (
+                <>
+                  <Text style={[styles.subtitle, { color: theme.colors.text.tertiary }]}>
+                    Mute or always allow {friend.name}'s notifications, whatever your defaults are.
+                  </Text>
+                  {NOTIFICATION_TYPE_OPTIONS.filter((o) => o.fromFriend).map(({ type, label, icon }) => {
+                    const mode = getFriendOverrideMode(overrides.find((o) => o.notification_type === type));
+                    return (
+                      <View
+                        key={type}
+                        style={[styles.item, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}
+                      >
+                        <Ionicons name={icon as any} size={18} color={theme.colors.text.secondary} />
+                        <Text style={[styles.itemLabel, { color: theme.colors.text.primary }]} numberOfLines={1}>
+                          {label}
+                        </Text>
+                        <View style={styles.segments}>
+                          {FRIEND_OVERRIDE_OPTIONS.map((option) => {
+                            const selected = option.mode === mode;
+                            return (
+                              <TouchableOpacity
+                                key={option.mode}
+                                style={[styles.segment, selected && { backgroundColor: accent.primary }]}
+                                onPress={() => { if (!selected) onSetOverride(type, option.mode); }}
+                                activeOpacity={0.8}
+                                accessibilityLabel={`${label}: ${option.label}`}
+                                accessibilityRole="button"
+                                accessibilityState={{ selected }}
+                              >
+                                <Text
+                                  style={[
+                                    styles.segmentText,
+                                    { color: selected ? accent.textOnPrimary : theme.colors.text.secondary },
+                                  ]}
+                                >
+                                  {option.label}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+                      </View>
+                    );
+                  })}
+                </>
+              )}
+            </ScrollView>
+          </BlurView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContainer: {
+    width: '92%',
+    maxWidth: 440,
+    height: '70%',
+    borderRadius: radius.xl,
+    overflow: 'hidden',
+    borderWidth: 1,
+  },
+  modal: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: typography.size.xl,
+    fontWeight: typography.weight.bold as any,
+    flex: 1,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  list: {
+    padding: spacing.md,
+  },
+  subtitle: {
+    fontSize: typography.size.sm,
+    marginBottom: spacing.sm,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    marginBottom: spacing.sm,
+  },
+  itemLabel: {
+    flex: 1,
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium as any,
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  segment: {
+    borderRadius: radius.sm,
+    paddingVertical: 4,
+    paddingHorizontal: spacing.xs,
+  },
+  segmentText: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.semibold as any,
+  },
+  emptyMessage: {
+    fontSize: typography.size.sm,
+    textAlign: 'center',
+    paddingVertical: spacing.xl,
+  },
+});
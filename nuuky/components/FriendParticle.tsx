@@ -52,10 +52,16 @@ function FriendParticleComponent({
 
 
 
+  // Visibility tier the friend granted us - the server already strips fields
+  // above the tier, this keeps the rendering consistent with what's left
+  const visibility = friend.visibility ?? 'full';
+  const sharesPresence = visibility === 'full' || visibility === 'limited';
+  const sharesCustomMood = visibility === 'full';
+
   // Check if user is truly online (handles stale is_online flags from force-closed apps)
   const isOnline = useMemo(
-    () => isUserTrulyOnline(friend.is_online, friend.last_seen_at),
-    [friend.is_online, friend.last_seen_at]
+    () => sharesPresence && isUserTrulyOnline(friend.is_online, friend.last_seen_at),
+    [sharesPresence, friend.is_online, friend.last_seen_at]
   );
   const pulseAnim = useRef(new Animated.Value(0)).current;
   const flareAnim1 = useRef(new Animated.Value(0)).current;
@@ -283,16 +289,16 @@ function FriendParticleComponent({
   };
 
   const moodColors = useMemo(
-    () => friend.custom_mood?.color
+    () => sharesCustomMood && friend.custom_mood?.color
       ? getCustomMoodColor(friend.custom_mood.color)
-      : getMoodColor(friend.mood || 'neutral'),
-    [friend.custom_mood?.color, friend.mood]
+      : getMoodColor(sharesPresence ? friend.mood || 'neutral' : 'neutral'),
+    [sharesCustomMood, sharesPresence, friend.custom_mood?.color, friend.mood]
   );
 
   // Check if friend has a custom mood image
   const hasCustomMoodImage = useMemo(() => {
-    return !!friend.custom_mood?.image_url;
-  }, [friend.custom_mood?.image_url]);
+    return sharesCustomMood && !!friend.custom_mood?.image_url;
+  }, [sharesCustomMood, friend.custom_mood?.image_url]);
 
   // Get initials from display name
   const getInitials = (name: string) => {
@@ -473,6 +479,13 @@ function FriendParticleComponent({
             </View>
           )}
 
+          {/* Private badge - friend only shares their profile with us */}
+          {!sharesPresence && (
+            <View style={styles.selfieBadge}>
+              <Ionicons name="eye-off" size={10} color="#FFFFFF" />
+            </View>
+          )}
+
           {/* Streak Badge */}
           {streak && streak.state !== 'broken' && (
             <StreakBadge streak={streak} />
@@ -523,6 +536,7 @@ export const FriendParticle = memo(FriendParticleComponent, (prevProps, nextProp
     prevProps.friend.avatar_url === nextProps.friend.avatar_url &&
     prevProps.friend.is_online === nextProps.friend.is_online &&
     prevProps.friend.last_seen_at === nextProps.friend.last_seen_at &&
+    prevProps.friend.visibility === nextProps.friend.visibility &&
     prevProps.position.x === nextProps.position.x &&
     prevProps.position.y === nextProps.position.y &&
     prevProps.hasActiveFlare === nextProps.hasActiveFlare &&
@@ -171,6 +171,16 @@ interface LofiMusicMenuProps {
   onToggleAutoPlay: () => void;
   onVolumeChange: (volume: number) => void;
   onSelectTrack: (track: LofiTrack | null) => void;
+  // Shared listening
+  isRoomOwner?: boolean;
+  canShare?: boolean;
+  isSharing?: boolean;
+  sharedHostName?: string | null;
+  isFollowing?: boolean;
+  onStartSharing?: () => void;
+  onStopSharing?: () => void;
+  onLeaveSharedSession?: () => void;
+  onJoinSharedSession?: () => void;
 }
 
 export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
@@ -188,6 +198,15 @@ export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
   onToggleAutoPlay,
   onVolumeChange,
   onSelectTrack,
+  isRoomOwner = false,
+  canShare = false,
+  isSharing = false,
+  sharedHostName = null,
+  isFollowing = false,
+  onStartSharing,
+  onStopSharing,
+  onLeaveSharedSession,
+  onJoinSharedSession,
 }) => {
   const { theme, accent } = useTheme();
   const insets = useSafeAreaInsets();
@@ -199,8 +218,8 @@ export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
   const moodTrack = moodToTrack[currentMood];
   const moodTrackMeta = LOFI_TRACK_METADATA[moodTrack];
 
-  // Get currently displayed track info
-  const displayTrack = selectedTrack || moodTrack;
+  // Get currently displayed track info (the owner's track while following)
+  const displayTrack = (isFollowing && currentTrack) || selectedTrack || moodTrack;
   const displayMeta = LOFI_TRACK_METADATA[displayTrack];
 
   useEffect(() => {
@@ -231,6 +250,24 @@ export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
     onToggleAutoPlay();
   };
 
+  const handleShareToggle = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (isSharing) {
+      onStopSharing?.();
+    } else {
+      onStartSharing?.();
+    }
+  };
+
+  const handleSharedSessionToggle = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (isFollowing) {
+      onLeaveSharedSession?.();
+    } else {
+      onJoinSharedSession?.();
+    }
+  };
+
   const handleTrackSelect = (track: LofiTrack | null) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     onSelectTrack(track);
@@ -289,8 +326,36 @@ export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
             ]}
             showsVerticalScrollIndicator={false}
           >
+            {/* Who controls playback */}
+            {(isSharing || sharedHostName) && (
+              <View style={styles.section}>
+                <View
+                  style={[
+                    styles.sharedCard,
+                    { backgroundColor: accent.primary + '14', borderColor: accent.primary + '40' },
+                  ]}
+                >
+                  <Ionicons name="people" size={18} color={accent.primary} />
+                  <Text style={[styles.sharedText, { color: theme.colors.text.primary }]}>
+                    {isSharing
+                      ? "You're playing for the room"
+                      : isFollowing
+                        ? `${sharedHostName} is playing for the room`
+                        : `${sharedHostName} is sharing music`}
+                  </Text>
+                  {!isSharing && (
+                    <TouchableOpacity onPress={handleSharedSessionToggle} activeOpacity={0.7}>
+                      <Text style={[styles.sharedAction, { color: accent.primary }]}>
+                        {isFollowing ? 'Listen on my own' : 'Listen together'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            )}
+
             {/* Combined Player & Track Selection */}
-            <View style={styles.section}>
+            <View style={[styles.section, isFollowing && styles.disabled]}>
               <View
                 style={[
                   styles.playerCard,
@@ -305,6 +370,7 @@ export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
                       { backgroundColor: isPlaying ? accent.primary + '20' : accent.primary },
                     ]}
                     onPress={handlePlayPause}
+                    disabled={isFollowing}
                     activeOpacity={0.7}
                   >
                     <Ionicons
@@ -330,11 +396,14 @@ export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
                     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                     setShowTracks(!showTracks);
                   }}
+                  disabled={isFollowing}
                   activeOpacity={0.7}
                 >
                   <View style={[styles.trackColorDot, { backgroundColor: displayMeta.moodColor }]} />
                   <Text style={[styles.trackSelectorText, { color: theme.colors.text.secondary }]}>
-                    {selectedTrack === null ? 'Auto (Based on mood)' : displayMeta.label}
+                    {isFollowing
+                      ? `Chosen by ${sharedHostName}`
+                      : selectedTrack === null ? 'Auto (Based on mood)' : displayMeta.label}
                   </Text>
                   <Ionicons
                     name={showTracks ? 'chevron-up' : 'chevron-down'}
@@ -344,7 +413,7 @@ export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
                 </TouchableOpacity>
 
                 {/* Track List (Collapsible) */}
-                {showTracks && (
+                {showTracks && !isFollowing && (
                   <View style={styles.trackList}>
                   {/* Auto (mood-based) option */}
                   <TouchableOpacity
@@ -452,6 +521,27 @@ export const LofiMusicMenu: React.FC<LofiMusicMenuProps> = ({
                     thumbColor={autoPlayEnabled ? accent.primary : theme.colors.text.secondary}
                   />
                 </View>
+                {isRoomOwner && (
+                  <View style={[styles.settingRow, styles.settingRowDivider, { borderTopColor: theme.colors.glass.border }]}>
+                    <View style={styles.settingInfo}>
+                      <Text style={[styles.settingLabel, { color: theme.colors.text.primary }]}>
+                        Share with room
+                      </Text>
+                      <Text style={[styles.settingDescription, { color: theme.colors.text.tertiary }]}>
+                        {canShare || isSharing
+                          ? 'Everyone in the room hears what you play'
+                          : 'Join the call to share your music'}
+                      </Text>
+                    </View>
+                    <Switch
+                      value={isSharing}
+                      onValueChange={handleShareToggle}
+                      disabled={!canShare && !isSharing}
+                      trackColor={{ false: theme.colors.glass.border, true: accent.primary + '60' }}
+                      thumbColor={isSharing ? accent.primary : theme.colors.text.secondary}
+                    />
+                  </View>
+                )}
               </View>
             </View>
 
@@ -678,6 +768,9 @@ const styles = StyleSheet.create({
     padding: 16,
     gap: 12,
   },
+  settingRowDivider: {
+    borderTopWidth: 1,
+  },
   settingInfo: {
     flex: 1,
   },
@@ -702,4 +795,25 @@ const styles = StyleSheet.create({
     fontSize: 13,
     flex: 1,
   },
+  // Shared Listening Card
+  sharedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  sharedText: {
+    fontSize: 13,
+    fontWeight: '500',
+    flex: 1,
+  },
+  sharedAction: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
 });
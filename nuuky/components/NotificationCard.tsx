@@ -1,4 +1,4 @@
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -34,6 +34,7 @@ interface NotificationCardProps {
   onEnterSelectionMode?: () => void;
   cardStyle?: boolean; // When true, renders inline without card wrapper
   isExpired?: boolean; // For photo nudge notifications - shows "Expired" and disables tap
+  onExpand?: () => void; // Collapsed groups expand on tap instead of calling onPress
 }
 
 // Get icon and color based on notification type
@@ -75,6 +76,12 @@ const getNotificationStyle = (type: NotificationType) => {
         iconSet: 'ionicons' as const,
         color: '#A855F7',
       };
+    case 'room_reminder':
+      return {
+        icon: 'calendar' as const,
+        iconSet: 'ionicons' as const,
+        color: '#A855F7',
+      };
     case 'photo_nudge':
       return {
         icon: 'camera' as const,
@@ -99,6 +106,25 @@ const getNotificationStyle = (type: NotificationType) => {
         iconSet: 'ionicons' as const,
         color: '#F97316',
       };
+    case 'streak_milestone':
+      return {
+        icon: 'trophy' as const,
+        iconSet: 'ionicons' as const,
+        color: '#FFB800',
+      };
+    case 'anchor_checkin':
+      return {
+        icon: 'heart' as const,
+        iconSet: 'ionicons' as const,
+        color: '#F59E0B',
+      };
+    case 'anchor_inactivity':
+    case 'anchor_ack':
+      return {
+        icon: 'shield-checkmark' as const,
+        iconSet: 'ionicons' as const,
+        color: '#007AFF',
+      };
     default:
       return {
         icon: 'notifications' as const,
@@ -108,6 +134,10 @@ const getNotificationStyle = (type: NotificationType) => {
   }
 };
 
+// Strip leading emojis from titles (they come baked in from edge functions)
+const stripEmoji = (title: string) =>
+  title.replace(/^[\p{Emoji_Presentation}\p{Extended_Pictographic}\uFE0F\u200D]+\s*/u, '');
+
 export const NotificationCard: React.FC<NotificationCardProps> = ({
   notification,
   onPress,
@@ -119,9 +149,13 @@ export const NotificationCard: React.FC<NotificationCardProps> = ({
   onEnterSelectionMode,
   cardStyle = false,
   isExpired = false,
+  onExpand,
 }) => {
   const { theme, accent } = useTheme();
   const swipeableRef = useRef<any>(null);
+  const [expanded, setExpanded] = useState(false);
+  const groupCount = notification.group_count ?? 1;
+  const isGroup = groupCount > 1;
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(20)).current;
   const checkboxAnim = useRef(new Animated.Value(0)).current;
@@ -155,8 +189,7 @@ export const NotificationCard: React.FC<NotificationCardProps> = ({
   const notificationStyle = getNotificationStyle(notification.type);
   const avatarUrl = notification.data.sender_avatar_url || notification.data.friend_avatar_url;
 
-  // Strip leading emojis from title (they come baked in from edge functions)
-  const cleanTitle = notification.title.replace(/^[\p{Emoji_Presentation}\p{Extended_Pictographic}\uFE0F\u200D]+\s*/u, '');
+  const cleanTitle = stripEmoji(notification.title);
 
   // Handle delete with haptic feedback
   const handleDelete = () => {
@@ -188,6 +221,9 @@ export const NotificationCard: React.FC<NotificationCardProps> = ({
   const handlePress = () => {
     if (selectionMode) {
       onToggleSelect?.();
+    } else if (isGroup) {
+      if (!expanded) onExpand?.();
+      setExpanded(!expanded);
     } else if (isExpired && (notification.type === 'photo_nudge' || notification.type === 'voice_moment')) {
       // Don't navigate for expired photo nudges or voice moments
       return;
@@ -329,6 +365,11 @@ export const NotificationCard: React.FC<NotificationCardProps> = ({
                 >
                   {cleanTitle}
                 </Text>
+                {isGroup && !expanded && (
+                  <Text style={[styles.photoHint, { color: notificationStyle.color }]}>
+                    Tap to see all {groupCount}
+                  </Text>
+                )}
                 {/* Photo nudge hint */}
                 {notification.type === 'photo_nudge' && (
                   <Text style={[styles.photoHint, { color: isExpired ? theme.colors.text.tertiary : notificationStyle.color }]}>
@@ -348,6 +389,22 @@ export const NotificationCard: React.FC<NotificationCardProps> = ({
                 <Text style={[styles.time, { color: theme.colors.text.tertiary }]}>
                   {formatRelativeTime(notification.created_at)}
                 </Text>
+                {isGroup && (
+                  <View
+                    style={[styles.countBadge, { backgroundColor: `${notificationStyle.color}25` }]}
+                    accessibilityLabel={`${groupCount} notifications`}
+                  >
+                    <Text style={[styles.countText, { color: notificationStyle.color }]}>{groupCount}</Text>
+                  </View>
+                )}
+                {isGroup && (
+                  <Ionicons
+                    name={expanded ? 'chevron-up' : 'chevron-down'}
+                    size={16}
+                    color={theme.colors.text.tertiary}
+                    style={styles.chevron}
+                  />
+                )}
                 {notification.type === 'photo_nudge' && !isExpired && (
                   <Ionicons
                     name="chevron-forward"
@@ -358,6 +415,53 @@ export const NotificationCard: React.FC<NotificationCardProps> = ({
                 )}
               </View>
             </View>
+
+            {/* Collapsed notifications, newest first */}
+            {isGroup && expanded && (
+              <View style={styles.groupItems}>
+                {[...(notification.group_items ?? [])].reverse().map((item) => (
+                  <TouchableOpacity
+                    key={item.key}
+                    style={styles.groupItem}
+                    onPress={onPress}
+                    activeOpacity={0.7}
+                    disabled={selectionMode}
+                  >
+                    {item.sender_avatar_url ? (
+                      <CachedImage
+                        source={{ uri: item.sender_avatar_url }}
+                        style={[styles.groupItemAvatar, { borderColor: theme.colors.glass.border }]}
+                        cachePolicy="memory-disk"
+                        contentFit="cover"
+                      />
+                    ) : (
+                      <View
+                        style={[
+                          styles.groupItemAvatar,
+                          {
+                            backgroundColor: theme.colors.glass.background,
+                            borderColor: theme.colors.glass.border,
+                            justifyContent: 'center',
+                            alignItems: 'center',
+                          },
+                        ]}
+                      >
+                        <Ionicons name="person" size={10} color={theme.colors.text.tertiary} />
+                      </View>
+                    )}
+                    <Text
+                      style={[styles.groupItemTitle, { color: theme.colors.text.secondary }]}
+                      numberOfLines={1}
+                    >
+                      {stripEmoji(item.title)}
+                    </Text>
+                    <Text style={[styles.time, { color: theme.colors.text.tertiary }]}>
+                      {formatRelativeTime(item.created_at)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
           </View>
         </TouchableOpacity>
       </ReanimatedSwipeable>
@@ -479,6 +583,38 @@ const styles = StyleSheet.create({
   chevron: {
     marginLeft: 2,
   },
+  countBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countText: {
+    fontSize: typography.size.xs,
+    fontWeight: '600',
+  },
+  groupItems: {
+    marginTop: 10,
+    marginLeft: 44,
+    gap: 8,
+  },
+  groupItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  groupItemAvatar: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  groupItemTitle: {
+    flex: 1,
+    fontSize: typography.size.xs,
+  },
   actionWrapper: {
     width: ACTION_WIDTH + ACTION_GAP,
     paddingLeft: ACTION_GAP,
@@ -330,6 +330,11 @@ export const NotificationsModal: React.FC<NotificationsModalProps> = ({
                   }
                 }}
                 onDelete={() => handleDeleteNotification(notification.id)}
+                onExpand={() => {
+                  if (!notification.is_read) {
+                    markAsRead(notification.id);
+                  }
+                }}
                 animationDelay={baseDelay + index * 50}
                 selectionMode={selectionMode}
                 isSelected={selectedIds.has(notification.id)}
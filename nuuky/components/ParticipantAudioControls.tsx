@@ -0,0 +1,151 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../hooks/useTheme';
+import { spacing, radius, typography } from '../lib/theme';
+import {
+  DEFAULT_PARTICIPANT_VOLUME,
+  formatParticipantVolume,
+  stepParticipantVolume,
+} from '../lib/participantAudio';
+import { ParticipantAudioPreference, User } from '../types';
+import { AudioLevelMeter } from './AudioLevelMeter';
+
+interface ParticipantAudioControlsProps {
+  user: User;
+  level: number;
+  preference?: ParticipantAudioPreference;
+  onVolumeChange: (userId: string, volume: number) => void;
+  onToggleMuted: (userId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * How loud one friend plays for us. Nobody else hears the difference, and
+ * the setting sticks to the friend across rooms.
+ */
+export const ParticipantAudioControls: React.FC<ParticipantAudioControlsProps> = ({
+  user,
+  level,
+  preference,
+  onVolumeChange,
+  onToggleMuted,
+  onClose,
+}) => {
+  const { theme, accent } = useTheme();
+  const muted = !!preference?.muted;
+  const volume = preference?.volume ?? DEFAULT_PARTICIPANT_VOLUME;
+
+  return (
+    <View style={[styles.panel, { borderColor: theme.colors.glass.border, backgroundColor: theme.colors.glass.background }]}>
+      <View style={styles.titleRow}>
+        <Text style={[styles.name, { color: theme.colors.text.primary }]} numberOfLines={1}>
+          {user.display_name}
+        </Text>
+        <AudioLevelMeter
+          level={muted ? 0 : level}
+          activeColor={accent.primary}
+          inactiveColor={theme.colors.glass.border}
+        />
+        <TouchableOpacity onPress={onClose} accessibilityLabel="Close volume controls" accessibilityRole="button">
+          <Ionicons name="close" size={18} color={theme.colors.text.secondary} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.controlsRow}>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: theme.colors.glass.border }]}
+          onPress={() => onVolumeChange(user.id, stepParticipantVolume(volume, -1))}
+          disabled={muted || volume <= 0}
+          accessibilityLabel={`Turn ${user.display_name} down`}
+          accessibilityRole="button"
+        >
+          <Ionicons name="volume-low" size={18} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+
+        <Text style={[styles.volumeText, { color: theme.colors.text.primary }]}>
+          {formatParticipantVolume(preference)}
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: theme.colors.glass.border }]}
+          onPress={() => onVolumeChange(user.id, stepParticipantVolume(volume, 1))}
+          disabled={muted || volume >= 1}
+          accessibilityLabel={`Turn ${user.display_name} up`}
+          accessibilityRole="button"
+        >
+          <Ionicons name="volume-high" size={18} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[
+            styles.muteButton,
+            { borderColor: accent.primary, backgroundColor: muted ? accent.soft : 'transparent' },
+          ]}
+          onPress={() => onToggleMuted(user.id)}
+          accessibilityRole="button"
+          accessibilityState={{ selected: muted }}
+        >
+          <Ionicons name={muted ? 'volume-mute' : 'volume-mute-outline'} size={14} color={accent.primary} />
+          <Text style={[styles.muteText, { color: accent.primary }]}>
+            {muted ? 'Unmute for me' : 'Mute for me'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    padding: spacing.md,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  name: {
+    flex: 1,
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold as any,
+  },
+  controlsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+  volumeText: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold as any,
+  },
+  muteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginLeft: 'auto',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+  muteText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold as any,
+  },
+});
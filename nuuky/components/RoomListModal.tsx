@@ -12,7 +12,9 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import { spacing, radius, typography } from '../lib/theme';
 import { useTheme } from '../hooks/useTheme';
-import { Room } from '../types';
+import { countHere } from '../lib/roomPresence';
+import { Room, RoomRsvpStatus, UpcomingRoom } from '../types';
+import { UpcomingRoomCard } from './UpcomingRoomCard';
 
 interface RoomListModalProps {
   visible: boolean;
@@ -20,6 +22,9 @@ interface RoomListModalProps {
   rooms: Room[];
   onJoinRoom: (roomId: string) => void;
   onCreateRoom: () => void;
+  upcomingRooms?: UpcomingRoom[];
+  onRsvp?: (scheduleId: string, status: Exclude<RoomRsvpStatus, 'invited'>) => void;
+  onJoinUpcomingRoom?: (room: UpcomingRoom) => void;
 }
 
 export const RoomListModal: React.FC<RoomListModalProps> = ({
@@ -28,6 +33,9 @@ export const RoomListModal: React.FC<RoomListModalProps> = ({
   rooms,
   onJoinRoom,
   onCreateRoom,
+  upcomingRooms = [],
+  onRsvp,
+  onJoinUpcomingRoom,
 }) => {
   const { theme } = useTheme();
 
@@ -50,19 +58,38 @@ export const RoomListModal: React.FC<RoomListModalProps> = ({
               contentContainerStyle={styles.roomListContent}
               showsVerticalScrollIndicator={false}
             >
-              {rooms.length === 0 ? (
+              {upcomingRooms.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitle, { color: theme.colors.text.tertiary }]}>UPCOMING</Text>
+                  {upcomingRooms.map((room) => (
+                    <UpcomingRoomCard
+                      key={room.schedule_id}
+                      room={room}
+                      onRsvp={onRsvp}
+                      onJoin={onJoinUpcomingRoom}
+                    />
+                  ))}
+                </View>
+              )}
+
+              {rooms.length === 0 && upcomingRooms.length === 0 ? (
                 <View style={styles.emptyState}>
                   <Text style={[styles.emptyText, { color: theme.colors.text.secondary }]}>No active rooms</Text>
                   <Text style={[styles.emptySubtext, { color: theme.colors.text.tertiary }]}>Create one to get started</Text>
                 </View>
               ) : (
-                rooms.map((room) => (
-                  <RoomCard
-                    key={room.id}
-                    room={room}
-                    onJoin={() => onJoinRoom(room.id)}
-                  />
-                ))
+                <>
+                  {upcomingRooms.length > 0 && rooms.length > 0 && (
+                    <Text style={[styles.sectionTitle, { color: theme.colors.text.tertiary }]}>ACTIVE NOW</Text>
+                  )}
+                  {rooms.map((room) => (
+                    <RoomCard
+                      key={room.id}
+                      room={room}
+                      onJoin={() => onJoinRoom(room.id)}
+                    />
+                  ))}
+                </>
               )}
             </ScrollView>
 
@@ -86,7 +113,7 @@ export const RoomListModal: React.FC<RoomListModalProps> = ({
 
 const RoomCard: React.FC<{ room: Room; onJoin: () => void }> = React.memo(({ room, onJoin }) => {
   const { theme } = useTheme();
-  const participantCount = room.participants?.length || 0;
+  const participantCount = countHere(room.participants || []);
   const participantAvatars = room.participants?.slice(0, 3) || [];
 
   return (
@@ -187,6 +214,15 @@ const styles = StyleSheet.create({
     padding: spacing.lg,
     gap: spacing.md,
   },
+  section: {
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  sectionTitle: {
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semibold as any,
+    letterSpacing: 0.5,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
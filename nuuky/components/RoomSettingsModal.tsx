@@ -23,8 +23,22 @@ import { Ionicons } from "@expo/vector-icons";
 import { getMoodColor, interactionStates } from "../lib/theme";
 import { useTheme } from "../hooks/useTheme";
 import { useInviteLink } from "../hooks/useInviteLink";
-import { RoomParticipant, User } from "../types";
+import { MicMode, RoomMicSettings, RoomParticipant, RoomRole, User } from "../types";
 import { isUserTrulyOnline } from "../lib/utils";
+import {
+  ASSIGNABLE_ROOM_ROLES,
+  ROOM_ROLE_LABELS,
+  canAssignRoles,
+  canModerate,
+  getParticipantRole,
+} from "../lib/roomRoles";
+import {
+  DEFAULT_MIC_SETTINGS,
+  MIC_MODE_OPTIONS,
+  VAD_THRESHOLD_LIMITS,
+  clampVadThreshold,
+  describeVadThreshold,
+} from "../lib/micModes";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -54,12 +68,28 @@ interface RoomSettingsModalProps {
   onDelete: () => Promise<void>;
   onLeave: () => void;
   onRemoveParticipant?: (userId: string, userName: string) => Promise<void>;
+  onMuteParticipant?: (userId: string) => Promise<void>;
+  onSetParticipantRole?: (userId: string, role: RoomRole) => Promise<void>;
+  onAllowToSpeak?: (userId: string) => Promise<void>;
+  onDismissSpeakRequest?: (userId: string) => Promise<void>;
+  listenersCanReact?: boolean;
+  onToggleListenersCanReact?: (listenersCanReact: boolean) => Promise<void>;
   originPoint?: { x: number; y: number };
   friends?: User[];
   participantIds?: string[];
   onInvite?: (friendId: string) => Promise<void>;
+  // Our own mic mode in this room; the section is hidden without onMicModeChange
+  micSettings?: RoomMicSettings;
+  onMicModeChange?: (mode: MicMode) => void;
+  onVadThresholdChange?: (threshold: number) => void;
 }
 
+const MIC_MODE_ICONS: Record<MicMode, keyof typeof Ionicons.glyphMap> = {
+  open: "mic-outline",
+  push_to_talk: "hand-left-outline",
+  voice_activity: "pulse-outline",
+};
+
 const MAX_VISIBLE_AVATARS = 4;
 
 export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
@@ -75,10 +105,19 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
   onDelete,
   onLeave,
   onRemoveParticipant,
+  onMuteParticipant,
+  onSetParticipantRole,
+  onAllowToSpeak,
+  onDismissSpeakRequest,
+  listenersCanReact = true,
+  onToggleListenersCanReact,
   originPoint,
   friends,
   participantIds,
   onInvite,
+  micSettings = DEFAULT_MIC_SETTINGS,
+  onMicModeChange,
+  onVadThresholdChange,
 }) => {
   const { theme, accent } = useTheme();
   const insets = useSafeAreaInsets();
@@ -114,7 +153,7 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
   const [isRenaming, setIsRenaming] = useState(false);
   const [newName, setNewName] = useState(roomName);
   const [loading, setLoading] = useState(false);
-  const [removingUserId, setRemovingUserId] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
   const [sharingLink, setSharingLink] = useState(false);
   const [membersExpanded, setMembersExpanded] = useState(false);
   const [inviteExpanded, setInviteExpanded] = useState(false);
@@ -165,6 +204,13 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
     ]);
   };
 
+  // Viewer's own role decides which moderation actions they get
+  const viewerRole = useMemo<RoomRole>(() => {
+    if (isCreator) return "owner";
+    const me = participants.find((p) => p.user_id === currentUserId);
+    return me ? getParticipantRole(me, creatorId) : "member";
+  }, [isCreator, participants, currentUserId, creatorId]);
+
   const handleRemoveParticipant = (userId: string, userName: string) => {
     Alert.alert("Remove Member", `Remove ${userName} from this room?`, [
       { text: "Cancel", style: "cancel" },
@@ -173,18 +219,76 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
         style: "destructive",
         onPress: async () => {
           try {
-            setRemovingUserId(userId);
+            setBusyUserId(userId);
             await onRemoveParticipant?.(userId, userName);
           } catch (error) {
             Alert.alert("Error", "Failed to remove member");
           } finally {
-            setRemovingUserId(null);
+            setBusyUserId(null);
           }
         },
       },
     ]);
   };
 
+  const runMemberAction = async (userId: string, action: () => Promise<void>, failureMessage: string) => {
+    try {
+      setBusyUserId(userId);
+      await action();
+    } catch (error) {
+      Alert.alert("Error", failureMessage);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleMemberActions = (participant: RoomParticipant, userName: string, role: RoomRole) => {
+    const userId = participant.user_id;
+    const buttons: { text: string; style?: "cancel" | "destructive"; onPress?: () => void }[] = [];
+
+    if (role === "listener" && participant.speak_requested_at) {
+      if (onAllowToSpeak) {
+        buttons.push({
+          text: "Let Them Speak",
+          onPress: () => runMemberAction(userId, () => onAllowToSpeak(userId), "Failed to answer request"),
+        });
+      }
+      if (onDismissSpeakRequest) {
+        buttons.push({
+          text: "Dismiss Request",
+          onPress: () => runMemberAction(userId, () => onDismissSpeakRequest(userId), "Failed to answer request"),
+        });
+      }
+    }
+
+    if (onMuteParticipant && !participant.is_muted) {
+      buttons.push({
+        text: "Mute for Everyone",
+        onPress: () => runMemberAction(userId, () => onMuteParticipant(userId), "Failed to mute member"),
+      });
+    }
+
+    if (onSetParticipantRole && canAssignRoles(viewerRole)) {
+      ASSIGNABLE_ROOM_ROLES.filter((r) => r !== role).forEach((r) => {
+        buttons.push({
+          text: `Make ${ROOM_ROLE_LABELS[r]}`,
+          onPress: () => runMemberAction(userId, () => onSetParticipantRole(userId, r), "Failed to change role"),
+        });
+      });
+    }
+
+    if (onRemoveParticipant) {
+      buttons.push({
+        text: "Remove from Room",
+        style: "destructive",
+        onPress: () => handleRemoveParticipant(userId, userName),
+      });
+    }
+
+    buttons.push({ text: "Cancel", style: "cancel" });
+    Alert.alert(userName, ROOM_ROLE_LABELS[role], buttons);
+  };
+
   const toggleMembersExpanded = () => {
     LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
     setMembersExpanded(!membersExpanded);
@@ -252,6 +356,17 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
     }
   };
 
+  const handleToggleListenersCanReact = async () => {
+    try {
+      setLoading(true);
+      await onToggleListenersCanReact?.(!listenersCanReact);
+    } catch (error) {
+      Alert.alert("Error", "Failed to update room settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleClose = useCallback(() => {
     setIsRenaming(false);
     setNewName(roomName);
@@ -319,11 +434,18 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
     if (!user) return null;
 
     const isCurrentUser = user.id === currentUserId;
-    const isRoomCreator = user.id === creatorId;
-    const canRemove = isCreator && !isCurrentUser && onRemoveParticipant;
-    const isRemoving = removingUserId === user.id;
+    const role = getParticipantRole(participant, creatorId);
+    const hasActions = !!(
+      onRemoveParticipant || onMuteParticipant || onSetParticipantRole || onAllowToSpeak || onDismissSpeakRequest
+    );
+    const canAct = hasActions && !isCurrentUser && canModerate(viewerRole, role);
+    const isBusy = busyUserId === user.id;
     const moodColors = getMoodColor(user.mood || "neutral");
     const isOnline = isUserTrulyOnline(user.is_online, user.last_seen_at);
+    const statusParts = [isOnline ? "Online" : "Offline"];
+    if (role !== "member") statusParts.push(ROOM_ROLE_LABELS[role]);
+    if (role === "listener" && participant.speak_requested_at) statusParts.push("Wants to speak");
+    else if (participant.muted_by) statusParts.push("Muted by host");
 
     return (
       <React.Fragment key={participant.id}>
@@ -369,28 +491,39 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
                   {user.display_name}
                   {isCurrentUser ? " (You)" : ""}
                 </Text>
-                {isRoomCreator && (
+                {role === "owner" && (
                   <View style={[styles.ownerBadge, { backgroundColor: accent.soft }]}>
                     <Ionicons name="star" size={10} color={accent.primary} />
                   </View>
                 )}
+                {role === "moderator" && (
+                  <View style={[styles.ownerBadge, { backgroundColor: accent.soft }]}>
+                    <Ionicons name="shield-checkmark" size={10} color={accent.primary} />
+                  </View>
+                )}
+                {role === "listener" && (
+                  <View style={[styles.ownerBadge, { backgroundColor: theme.colors.glass.background }]}>
+                    <Ionicons name="headset" size={10} color={theme.colors.text.tertiary} />
+                  </View>
+                )}
               </View>
-              <Text style={[styles.memberStatus, { color: theme.colors.text.tertiary }]}>{isOnline ? "Online" : "Offline"}</Text>
+              <Text style={[styles.memberStatus, { color: theme.colors.text.tertiary }]}>{statusParts.join(" · ")}</Text>
             </View>
           </View>
 
-          {/* Remove button */}
-          {canRemove && (
+          {/* Moderation menu */}
+          {canAct && (
             <TouchableOpacity
               style={styles.removeButton}
-              onPress={() => handleRemoveParticipant(user.id, user.display_name)}
-              disabled={isRemoving}
+              onPress={() => handleMemberActions(participant, user.display_name, role)}
+              disabled={isBusy}
               activeOpacity={0.7}
+              accessibilityLabel={`Manage ${user.display_name}`}
             >
-              {isRemoving ? (
-                <ActivityIndicator size="small" color={theme.colors.status.error} />
+              {isBusy ? (
+                <ActivityIndicator size="small" color={theme.colors.text.secondary} />
               ) : (
-                <Ionicons name="close-circle" size={20} color={theme.colors.status.error} />
+                <Ionicons name="ellipsis-horizontal-circle" size={22} color={theme.colors.text.secondary} />
               )}
             </TouchableOpacity>
           )}
@@ -675,13 +808,36 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
                       </View>
                       <View style={styles.actionTextContainer}>
                         <Text style={[styles.actionTitle, { color: theme.colors.text.primary }]}>Share Link</Text>
-                        <Text style={[styles.actionSubtitle, { color: theme.colors.text.tertiary }]}>Anyone with link can join</Text>
+                        <Text style={[styles.actionSubtitle, { color: theme.colors.text.tertiary }]}>Anyone with link can join as a listener</Text>
                       </View>
                       <Ionicons name="chevron-forward" size={18} color={theme.colors.text.tertiary} />
                     </TouchableOpacity>
                   </View>
                 )}
 
+                {/* Listener Reactions (Creator Only) */}
+                {isCreator && onToggleListenersCanReact && (
+                  <View style={[styles.groupedCard, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border, marginTop: 12 }]}>
+                    <TouchableOpacity
+                      style={styles.groupedCardRow}
+                      onPress={handleToggleListenersCanReact}
+                      disabled={loading}
+                      activeOpacity={0.7}
+                    >
+                      <View style={[styles.actionIconContainer, { backgroundColor: accent.soft }]}>
+                        <Ionicons name="headset-outline" size={18} color={accent.primary} />
+                      </View>
+                      <View style={styles.actionTextContainer}>
+                        <Text style={[styles.actionTitle, { color: theme.colors.text.primary }]}>Listener Reactions</Text>
+                        <Text style={[styles.actionSubtitle, { color: theme.colors.text.tertiary }]}>
+                          {listenersCanReact ? "Listeners can send reactions" : "Listeners can only listen"}
+                        </Text>
+                      </View>
+                      <Text style={[styles.actionSubtitle, { color: accent.primary }]}>{listenersCanReact ? "On" : "Off"}</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
                 {/* Leave Room - Only for non-creators */}
                 {!isCreator && (
                   <View style={[styles.groupedCard, styles.leaveCard, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
@@ -706,6 +862,74 @@ export const RoomSettingsModal: React.FC<RoomSettingsModalProps> = ({
                 )}
               </View>
 
+              {/* Microphone mode (just for us) */}
+              {onMicModeChange && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitleText, { color: theme.colors.text.tertiary }]}>MICROPHONE</Text>
+                  <View style={[styles.groupedCard, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+                    {MIC_MODE_OPTIONS.map(({ mode, label, description }, index) => {
+                      const selected = micSettings.mode === mode;
+                      return (
+                        <React.Fragment key={mode}>
+                          {index > 0 && <View style={[styles.internalSeparator, { backgroundColor: theme.colors.glass.border }]} />}
+                          <TouchableOpacity
+                            style={styles.groupedCardRow}
+                            onPress={() => !selected && onMicModeChange(mode)}
+                            activeOpacity={0.7}
+                            accessibilityRole="radio"
+                            accessibilityState={{ selected }}
+                          >
+                            <View style={[styles.actionIconContainer, { backgroundColor: accent.soft }]}>
+                              <Ionicons name={MIC_MODE_ICONS[mode]} size={18} color={accent.primary} />
+                            </View>
+                            <View style={styles.actionTextContainer}>
+                              <Text style={[styles.actionTitle, { color: theme.colors.text.primary }]}>{label}</Text>
+                              <Text style={[styles.actionSubtitle, { color: theme.colors.text.tertiary }]}>{description}</Text>
+                            </View>
+                            {selected && <Ionicons name="checkmark" size={18} color={accent.primary} />}
+                          </TouchableOpacity>
+                        </React.Fragment>
+                      );
+                    })}
+
+                    {micSettings.mode === "voice_activity" && onVadThresholdChange && (
+                      <>
+                        <View style={[styles.internalSeparator, { backgroundColor: theme.colors.glass.border }]} />
+                        <View style={styles.groupedCardRow}>
+                          <View style={styles.actionTextContainer}>
+                            <Text style={[styles.actionTitle, { color: theme.colors.text.primary }]}>Sensitivity</Text>
+                            <Text style={[styles.actionSubtitle, { color: theme.colors.text.tertiary }]}>
+                              {describeVadThreshold(micSettings.vadThreshold)}
+                            </Text>
+                          </View>
+                          <TouchableOpacity
+                            onPress={() => onVadThresholdChange(clampVadThreshold(micSettings.vadThreshold - VAD_THRESHOLD_LIMITS.step))}
+                            disabled={micSettings.vadThreshold <= VAD_THRESHOLD_LIMITS.min}
+                            accessibilityLabel="More sensitive"
+                            accessibilityRole="button"
+                            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                          >
+                            <Ionicons name="remove-circle-outline" size={24} color={accent.primary} />
+                          </TouchableOpacity>
+                          <Text style={[styles.actionTitle, { color: theme.colors.text.primary }]}>
+                            {Math.round(micSettings.vadThreshold * 100)}%
+                          </Text>
+                          <TouchableOpacity
+                            onPress={() => onVadThresholdChange(clampVadThreshold(micSettings.vadThreshold + VAD_THRESHOLD_LIMITS.step))}
+                            disabled={micSettings.vadThreshold >= VAD_THRESHOLD_LIMITS.max}
+                            accessibilityLabel="Less sensitive"
+                            accessibilityRole="button"
+                            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                          >
+                            <Ionicons name="add-circle-outline" size={24} color={accent.primary} />
+                          </TouchableOpacity>
+                        </View>
+                      </>
+                    )}
+                  </View>
+                </View>
+              )}
+
               {/* Danger Zone (Creator Only) */}
               {isCreator && (
                 <View style={styles.section}>
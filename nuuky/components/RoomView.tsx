@@ -1,5 +1,5 @@
-import React, { useRef } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, StatusBar } from 'react-native';
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, StatusBar, ScrollView } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import { Ionicons } from '@expo/vector-icons';
@@ -8,7 +8,12 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { OrbitView } from './OrbitView';
 import { spacing, radius, typography, getMoodColor } from '../lib/theme';
 import { useTheme } from '../hooks/useTheme';
-import { RoomParticipant, User } from '../types';
+import { FocusSession, ParticipantAudioPreference, RoomParticipant, User } from '../types';
+import { describeListenerSeat } from '../lib/roomRoles';
+import { describeRoomPresence } from '../lib/roomPresence';
+import { FocusSessionBar } from './FocusSessionBar';
+import { AudioLevelMeter } from './AudioLevelMeter';
+import { ParticipantAudioControls } from './ParticipantAudioControls';
 
 interface RoomViewProps {
   roomName?: string;
@@ -17,6 +22,24 @@ interface RoomViewProps {
   isCreator: boolean;
   onLeave?: () => void;
   onSettingsPress?: (origin: { x: number; y: number }) => void;
+  // Listen-only seat for the current user
+  isListener?: boolean;
+  listenersCanReact?: boolean;
+  speakRequested?: boolean;
+  onToggleSpeakRequest?: () => void;
+  // Hosts: listeners waiting to speak
+  speakRequestCount?: number;
+  onSpeakRequestsPress?: () => void;
+  // Shared focus timer; the bar is hidden without onFocusPress
+  focusSession?: FocusSession | null;
+  focusParticipantCount?: number;
+  onFocusPress?: () => void;
+  // Live level meters per user id; the speakers strip is hidden without them
+  audioLevels?: Record<string, number>;
+  // Per-friend playback volume and "mute for me"
+  audioPreferences?: Record<string, ParticipantAudioPreference>;
+  onParticipantVolumeChange?: (userId: string, volume: number) => void;
+  onToggleParticipantMuted?: (userId: string) => void;
 }
 
 export const RoomView: React.FC<RoomViewProps> = ({
@@ -26,19 +49,38 @@ export const RoomView: React.FC<RoomViewProps> = ({
   isCreator,
   onLeave,
   onSettingsPress,
+  isListener = false,
+  listenersCanReact = true,
+  speakRequested = false,
+  onToggleSpeakRequest,
+  speakRequestCount = 0,
+  onSpeakRequestsPress,
+  focusSession = null,
+  focusParticipantCount = 0,
+  onFocusPress,
+  audioLevels,
+  audioPreferences = {},
+  onParticipantVolumeChange,
+  onToggleParticipantMuted,
 }) => {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { theme } = useTheme();
+  const { theme, accent } = useTheme();
   const settingsButtonRef = useRef<View>(null);
+  const [audioControlsUserId, setAudioControlsUserId] = useState<string | null>(null);
 
   // Convert RoomParticipants to Users for OrbitView
   const participantUsers: User[] = participants
     .map((p) => p.user)
     .filter((u): u is User => u !== null && u !== undefined);
 
+  const canAdjustAudio = !!onParticipantVolumeChange && !!onToggleParticipantMuted;
+  // Whoever left the room takes their controls with them
+  const audioControlsUser = participantUsers.find((u) => u.id === audioControlsUserId);
+
   const handleParticipantPress = (user: User) => {
-    // Show participant action menu
+    if (!canAdjustAudio || user.id === currentUser.id) return;
+    setAudioControlsUserId((current) => (current === user.id ? null : user.id));
   };
 
   return (
@@ -68,7 +110,7 @@ export const RoomView: React.FC<RoomViewProps> = ({
               <View style={styles.headerInfo}>
                 <Text style={[styles.roomName, { color: theme.colors.text.primary }]}>{roomName || 'Room'}</Text>
                 <Text style={[styles.participantCount, { color: theme.colors.text.secondary }]}>
-                  {participants.length} {participants.length === 1 ? 'person' : 'people'} here
+                  {describeRoomPresence(participants)}
                 </Text>
               </View>
 
@@ -92,6 +134,111 @@ export const RoomView: React.FC<RoomViewProps> = ({
                 <View style={[styles.settingsButton, { backgroundColor: theme.colors.glass.background }]} />
               )}
             </View>
+
+            {/* Listen-only seat */}
+            {isListener && (
+              <View style={[styles.seatBar, { borderColor: theme.colors.glass.border, backgroundColor: theme.colors.glass.background }]}>
+                <Ionicons name="headset" size={16} color={theme.colors.text.secondary} />
+                <Text style={[styles.seatText, { color: theme.colors.text.secondary }]}>
+                  {describeListenerSeat(listenersCanReact)}
+                </Text>
+                {onToggleSpeakRequest && (
+                  <TouchableOpacity
+                    style={[styles.seatButton, { borderColor: accent.primary, backgroundColor: speakRequested ? accent.soft : 'transparent' }]}
+                    onPress={onToggleSpeakRequest}
+                    activeOpacity={0.8}
+                    accessibilityRole="button"
+                  >
+                    <Ionicons name={speakRequested ? 'hand-left' : 'hand-left-outline'} size={14} color={accent.primary} />
+                    <Text style={[styles.seatButtonText, { color: accent.primary }]}>
+                      {speakRequested ? 'Requested' : 'Ask to speak'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {/* Hosts: pending requests to speak */}
+            {!isListener && speakRequestCount > 0 && (
+              <TouchableOpacity
+                style={[styles.seatBar, { borderColor: accent.primary, backgroundColor: accent.soft }]}
+                onPress={onSpeakRequestsPress}
+                disabled={!onSpeakRequestsPress}
+                activeOpacity={0.8}
+                accessibilityRole="button"
+              >
+                <Ionicons name="hand-left" size={16} color={accent.primary} />
+                <Text style={[styles.seatText, { color: accent.primary }]}>
+                  {speakRequestCount} {speakRequestCount === 1 ? 'person wants' : 'people want'} to speak
+                </Text>
+                <Ionicons name="chevron-forward" size={16} color={accent.primary} />
+              </TouchableOpacity>
+            )}
+
+            {/* Speakers with live level meters */}
+            {audioLevels && participantUsers.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.speakersStrip}
+              >
+                {participantUsers.map((user) => {
+                  const isMe = user.id === currentUser.id;
+                  const locallyMuted = !!audioPreferences[user.id]?.muted;
+                  const selected = user.id === audioControlsUser?.id;
+                  return (
+                    <TouchableOpacity
+                      key={user.id}
+                      style={[
+                        styles.speakerChip,
+                        {
+                          borderColor: selected ? accent.primary : theme.colors.glass.border,
+                          backgroundColor: selected ? accent.soft : theme.colors.glass.background,
+                        },
+                      ]}
+                      onPress={() => handleParticipantPress(user)}
+                      disabled={isMe || !canAdjustAudio}
+                      activeOpacity={0.8}
+                      accessibilityRole="button"
+                      accessibilityLabel={isMe ? 'You' : `${user.display_name} volume`}
+                    >
+                      <Text style={[styles.speakerName, { color: theme.colors.text.primary }]} numberOfLines={1}>
+                        {isMe ? 'You' : user.display_name}
+                      </Text>
+                      {locallyMuted ? (
+                        <Ionicons name="volume-mute" size={14} color={theme.colors.text.secondary} />
+                      ) : (
+                        <AudioLevelMeter
+                          level={audioLevels[user.id] ?? 0}
+                          activeColor={accent.primary}
+                          inactiveColor={theme.colors.glass.border}
+                        />
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+
+            {onParticipantVolumeChange && onToggleParticipantMuted && audioControlsUser && (
+              <ParticipantAudioControls
+                user={audioControlsUser}
+                level={audioLevels?.[audioControlsUser.id] ?? 0}
+                preference={audioPreferences[audioControlsUser.id]}
+                onVolumeChange={onParticipantVolumeChange}
+                onToggleMuted={onToggleParticipantMuted}
+                onClose={() => setAudioControlsUserId(null)}
+              />
+            )}
+
+            {/* Focus session */}
+            {onFocusPress && (
+              <FocusSessionBar
+                session={focusSession}
+                participantCount={focusParticipantCount}
+                onPress={onFocusPress}
+              />
+            )}
           </BlurView>
         }
       />
@@ -142,4 +289,53 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     borderWidth: 1,
   },
+  seatBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+  },
+  seatText: {
+    flex: 1,
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium as any,
+  },
+  seatButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+  speakersStrip: {
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  speakerChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    maxWidth: 140,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+  speakerName: {
+    flexShrink: 1,
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium as any,
+  },
+  seatButtonText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold as any,
+  },
 });
@@ -22,20 +22,24 @@ interface SwipeableFriendCardProps {
   friendship: Friendship;
   onPress?: () => void;
   onRemove: (friendship: Friendship) => void;
+  onBlock?: (friendship: Friendship) => void;
   onToggleFavorite?: (friendId: string) => void;
   isFavorite?: boolean;
   textPrimaryColor: string;
   streak?: Streak;
+  onStreakPress?: (streak: Streak) => void;
 }
 
 export const SwipeableFriendCard: React.FC<SwipeableFriendCardProps> = React.memo(({
   friendship,
   onPress,
   onRemove,
+  onBlock,
   onToggleFavorite,
   isFavorite = false,
   textPrimaryColor,
   streak,
+  onStreakPress,
 }) => {
   const { theme } = useTheme();
   const swipeableRef = useRef<any>(null);
@@ -74,6 +78,24 @@ export const SwipeableFriendCard: React.FC<SwipeableFriendCardProps> = React.mem
     onRemove(friendship);
   }, [friendship, onRemove]);
 
+  const performBlockAction = useCallback(() => {
+    Alert.alert(
+      `Block ${friend.display_name}?`,
+      "They won't be able to find you, nudge you, or invite you to rooms. They won't be notified.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            onBlock?.(friendship);
+          },
+        },
+      ]
+    );
+  }, [friend.display_name, friendship, onBlock]);
+
   const handleRemoveAction = useCallback(() => {
     pendingAction.current = 'remove';
     swipeableRef.current?.close();
@@ -124,11 +146,12 @@ export const SwipeableFriendCard: React.FC<SwipeableFriendCardProps> = React.mem
 
       Alert.alert('Remove Friend?', `Remove ${friend.display_name} from your friends?`, [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Remove', style: 'destructive', onPress: performRemoveAction },
+        ...(onBlock ? [{ text: 'Block', onPress: performBlockAction }] : []),
+        { text: 'Remove', style: 'destructive' as const, onPress: performRemoveAction },
       ]);
     }
     pendingAction.current = null;
-  }, [friend.display_name, performRemoveAction]);
+  }, [friend.display_name, onBlock, performBlockAction, performRemoveAction]);
 
   return (
     <ReanimatedSwipeable
@@ -211,12 +234,29 @@ export const SwipeableFriendCard: React.FC<SwipeableFriendCardProps> = React.mem
             gold: '#FFB800',
             fire: '#FF6B35',
           };
-          return (
+          const pill = (
             <View style={[styles.streakInline, { borderColor: borderColors[tier] }]}>
               <BoltIcon size={14} tier={tier} />
               <Text style={[styles.streakCount, { color: textColors[tier] }]}>{days}</Text>
+              {streak.state === 'fading' && (
+                <Ionicons name="snow-outline" size={12} color={textColors[tier]} />
+              )}
             </View>
           );
+          // Opens the streak timeline, where a fading streak can be frozen
+          if (onStreakPress) {
+            return (
+              <TouchableOpacity
+                onPress={() => onStreakPress(streak)}
+                activeOpacity={0.7}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                accessibilityLabel="Streak history"
+              >
+                {pill}
+              </TouchableOpacity>
+            );
+          }
+          return pill;
         })()}
       </TouchableOpacity>
     </ReanimatedSwipeable>
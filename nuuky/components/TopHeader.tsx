@@ -4,7 +4,7 @@ import { Image } from "expo-image";
 import { Ionicons } from "@expo/vector-icons";
 import { spacing, radius, typography } from "../lib/theme";
 import { AudioConnectionBadge } from "./AudioConnectionBadge";
-import { AudioConnectionStatus } from "../types";
+import { AudioConnectionStatus, AudioReconnectEvent } from "../types";
 
 interface TopHeaderProps {
   accent: { primary: string; soft: string; glow: string; gradient: [string, string] };
@@ -14,6 +14,7 @@ interface TopHeaderProps {
   currentUserId?: string;
   currentVibe: string;
   audioConnectionStatus: AudioConnectionStatus;
+  audioReconnectHistory?: AudioReconnectEvent[];
   isLofiPlaying?: boolean;
   onNotificationPress: () => void;
   onRoomPillPress: () => void;
@@ -28,6 +29,7 @@ export const TopHeader = React.memo(function TopHeader({
   currentUserId,
   currentVibe,
   audioConnectionStatus,
+  audioReconnectHistory,
   isLofiPlaying,
   onNotificationPress,
   onRoomPillPress,
@@ -116,7 +118,7 @@ export const TopHeader = React.memo(function TopHeader({
 
       {audioConnectionStatus !== "disconnected" && defaultRoom && (
         <View style={styles.audioBadgeWrapper}>
-          <AudioConnectionBadge status={audioConnectionStatus} />
+          <AudioConnectionBadge status={audioConnectionStatus} reconnectHistory={audioReconnectHistory} />
         </View>
       )}
     </View>
@@ -0,0 +1,161 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../hooks/useTheme';
+import { spacing, radius, typography } from '../lib/theme';
+import { describeUpcomingStart, formatRoomSchedule, formatRsvpSummary } from '../lib/roomSchedule';
+import { RoomRsvpStatus, UpcomingRoom } from '../types';
+
+type RsvpAnswer = Exclude<RoomRsvpStatus, 'invited'>;
+
+interface UpcomingRoomCardProps {
+  room: UpcomingRoom;
+  onRsvp?: (scheduleId: string, status: RsvpAnswer) => void;
+  onJoin?: (room: UpcomingRoom) => void;
+  onCancel?: (room: UpcomingRoom) => void;
+}
+
+const RSVP_OPTIONS: { status: RsvpAnswer; label: string }[] = [
+  { status: 'going', label: 'Going' },
+  { status: 'maybe', label: 'Maybe' },
+  { status: 'declined', label: "Can't" },
+];
+
+/**
+ * A scheduled room: when it opens, who's hosting and who's coming. Invitees
+ * answer inline; once the room is open anyone who isn't out can jump in.
+ */
+export const UpcomingRoomCard: React.FC<UpcomingRoomCardProps> = React.memo(({ room, onRsvp, onJoin, onCancel }) => {
+  const { theme, accent } = useTheme();
+  const isHost = room.my_status === 'host';
+  const isRecurring = !!room.days?.length;
+  const canJoin = room.is_open && room.my_status !== 'declined' && !!onJoin;
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.colors.glass.background, borderColor: theme.colors.glass.border }]}>
+      <View style={styles.header}>
+        <Ionicons
+          name={isRecurring ? 'repeat' : 'calendar-outline'}
+          size={18}
+          color={room.is_open ? accent.primary : theme.colors.text.secondary}
+        />
+        <View style={styles.info}>
+          <Text style={[styles.name, { color: theme.colors.text.primary }]} numberOfLines={1}>
+            {room.room_name || 'Unnamed Room'}
+          </Text>
+          <Text style={[styles.when, { color: room.is_open ? accent.primary : theme.colors.text.secondary }]}>
+            {describeUpcomingStart(room)}
+            {isRecurring ? ` · ${formatRoomSchedule(room)}` : ''}
+          </Text>
+          <Text style={[styles.meta, { color: theme.colors.text.tertiary }]} numberOfLines={1}>
+            {isHost ? 'You\'re hosting' : `Hosted by ${room.creator_name}`} · {formatRsvpSummary(room)}
+          </Text>
+        </View>
+
+        {canJoin ? (
+          <TouchableOpacity
+            style={[styles.joinButton, { backgroundColor: accent.primary }]}
+            onPress={() => onJoin?.(room)}
+            accessibilityRole="button"
+            accessibilityLabel={`Join ${room.room_name || 'room'}`}
+          >
+            <Text style={[styles.joinText, { color: accent.textOnPrimary }]}>Join</Text>
+          </TouchableOpacity>
+        ) : isHost && onCancel ? (
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => onCancel(room)}
+            accessibilityRole="button"
+            accessibilityLabel={`Cancel ${room.room_name || 'scheduled room'}`}
+          >
+            <Ionicons name="close-circle-outline" size={22} color={theme.colors.text.tertiary} />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {!isHost && onRsvp && (
+        <View style={styles.rsvpRow}>
+          {RSVP_OPTIONS.map(({ status, label }) => {
+            const selected = room.my_status === status;
+            return (
+              <TouchableOpacity
+                key={status}
+                style={[
+                  styles.rsvpButton,
+                  {
+                    borderColor: selected ? accent.primary : theme.colors.glass.border,
+                    backgroundColor: selected ? accent.soft : 'transparent',
+                  },
+                ]}
+                onPress={() => !selected && onRsvp(room.schedule_id, status)}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+              >
+                <Text style={[styles.rsvpText, { color: selected ? accent.primary : theme.colors.text.secondary }]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    fontSize: typography.sizes.md,
+    fontWeight: typography.weights.bold as any,
+  },
+  when: {
+    fontSize: typography.sizes.sm,
+    fontWeight: typography.weights.medium as any,
+    marginTop: 2,
+  },
+  meta: {
+    fontSize: typography.sizes.xs,
+    marginTop: 2,
+  },
+  joinButton: {
+    borderRadius: radius.full,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+  },
+  joinText: {
+    fontSize: typography.sizes.sm,
+    fontWeight: typography.weights.bold as any,
+  },
+  cancelButton: {
+    padding: spacing.xs,
+  },
+  rsvpRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  rsvpButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.xs + 2,
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+  rsvpText: {
+    fontSize: typography.sizes.sm,
+    fontWeight: typography.weights.semibold as any,
+  },
+});
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { logger } from '../lib/logger';
+import { supabase } from '../lib/supabase';
+import { useAppStore } from '../stores/appStore';
+import { getOpenCheckIn } from '../lib/anchorCheckIns';
+import { AnchorCheckIn } from '../types';
+
+const HISTORY_LIMIT = 50;
+
+/**
+ * Wellbeing check-in history, newest first.
+ * myCheckIns are the user's own; anchoredCheckIns are escalated check-ins of
+ * people who picked the user as an anchor (RLS hides the rest).
+ */
+export const useAnchorCheckIns = () => {
+  const currentUser = useAppStore((s) => s.currentUser);
+  const [checkIns, setCheckIns] = useState<AnchorCheckIn[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadCheckIns = useCallback(async () => {
+    const user = useAppStore.getState().currentUser;
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('anchor_checkins')
+        .select(`
+          *,
+          user:user_profiles!user_id (
+            id,
+            display_name,
+            avatar_url
+          ),
+          acks:anchor_checkin_acks (
+            *,
+            anchor:user_profiles!anchor_id (
+              id,
+              display_name,
+              avatar_url
+            )
+          )
+        `)
+        .order('asked_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      setCheckIns(data || []);
+    } catch (error: any) {
+      logger.error('Error loading anchor check-ins:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCheckIns();
+  }, [currentUser?.id, loadCheckIns]);
+
+  const myCheckIns = checkIns.filter((c) => c.user_id === currentUser?.id);
+  const anchoredCheckIns = checkIns.filter((c) => c.user_id !== currentUser?.id);
+
+  // "I'm okay" - closes every open check-in, including escalated ones
+  const confirmCheckIn = async (): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      const { error } = await supabase.rpc('confirm_anchor_checkin');
+      if (error) throw error;
+
+      await loadCheckIns();
+      return true;
+    } catch (error: any) {
+      logger.error('Error confirming check-in:', error);
+      Alert.alert('Error', 'Failed to confirm check-in');
+      return false;
+    }
+  };
+
+  // Tell the user's other anchors this anchor is following up
+  const acknowledgeCheckIn = async (checkInId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      const { error } = await supabase.functions.invoke('acknowledge-anchor-checkin', {
+        body: { checkin_id: checkInId },
+      });
+      if (error) throw error;
+
+      await loadCheckIns();
+      return true;
+    } catch (error: any) {
+      logger.error('Error acknowledging check-in:', error);
+      Alert.alert('Error', 'Failed to let the other anchors know');
+      return false;
+    }
+  };
+
+  return {
+    myCheckIns,
+    anchoredCheckIns,
+    openCheckIn: getOpenCheckIn(myCheckIns),
+    loading,
+    confirmCheckIn,
+    acknowledgeCheckIn,
+    refreshCheckIns: loadCheckIns,
+  };
+};
@@ -12,9 +12,22 @@ import {
   isMicrophoneEnabled,
   getCurrentRoom,
   sendRoomData,
+  setParticipantAudioPreferences,
+  setMicGating,
+  setMicGateOpen,
+  getLocalMicLevel,
 } from '../lib/livekit';
+import { toMeterLevel } from '../lib/participantAudio';
+import {
+  CLOSED_VOICE_GATE,
+  DEFAULT_MIC_SETTINGS,
+  VAD_SAMPLE_INTERVAL_MS,
+  isGatedMicMode,
+  nextVoiceGate,
+} from '../lib/micModes';
+import { dispatchRoomData, resetRoomMessageLimits } from '../lib/roomMessages';
 import type { RemoteParticipant } from 'livekit-client';
-import { AudioConnectionStatus } from '../types';
+import { AudioConnectionStatus, AudioReconnectEvent, MicMode, ParticipantAudioState } from '../types';
 
 type DataReceivedCallback = (data: Uint8Array, participant: RemoteParticipant | undefined) => void;
 
@@ -25,12 +38,20 @@ export const useAudio = (
 ) => {
   const currentUser = useAppStore((s) => s.currentUser);
   const audioConnectionStatus = useAppStore((s) => s.audioConnectionStatus);
+  const audioReconnectHistory = useAppStore((s) => s.audioReconnectHistory);
   const setAudioConnectionStatus = useAppStore((s) => s.setAudioConnectionStatus);
   const setAudioError = useAppStore((s) => s.setAudioError);
+  const setAudioReconnectHistory = useAppStore((s) => s.setAudioReconnectHistory);
   const addSpeakingParticipant = useAppStore((s) => s.addSpeakingParticipant);
   const removeSpeakingParticipant = useAppStore((s) => s.removeSpeakingParticipant);
   const clearSpeakingParticipants = useAppStore((s) => s.clearSpeakingParticipants);
   const speakingParticipants = useAppStore((s) => s.speakingParticipants);
+  const setParticipantAudioLevels = useAppStore((s) => s.setParticipantAudioLevels);
+  const participantAudioPreferences = useAppStore((s) => s.participantAudioPreferences);
+  const micMode = useAppStore((s) => (roomId ? s.roomMicSettings[roomId]?.mode : undefined) ?? DEFAULT_MIC_SETTINGS.mode);
+  const vadThreshold = useAppStore((s) => (roomId ? s.roomMicSettings[roomId]?.vadThreshold : undefined) ?? DEFAULT_MIC_SETTINGS.vadThreshold);
+  const setRoomMicMode = useAppStore((s) => s.setRoomMicMode);
+  const setRoomVadThreshold = useAppStore((s) => s.setRoomVadThreshold);
 
   const isInitialized = useRef(false);
   const currentRoomId = useRef<string | null>(null);
@@ -38,6 +59,12 @@ export const useAudio = (
   const isManualConnection = useRef(false); // Track if user manually connected (don't auto-disconnect)
   const backgroundDisconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const wasMutedByBackground = useRef(false); // Track if we auto-muted on background
+  // Gated modes: micEnabled means the mic is published; this is whether it's sending
+  const [isTransmitting, setIsTransmitting] = useState(false);
+  const talkHeld = useRef(false);
+  const voiceGate = useRef(CLOSED_VOICE_GATE);
+  const vadThresholdRef = useRef(vadThreshold);
+  vadThresholdRef.current = vadThreshold;
 
   // Initialize LiveKit on first use
   useEffect(() => {
@@ -102,13 +129,29 @@ export const useAudio = (
           removeSpeakingParticipant(participantId);
         }
       },
+      onAudioLevels: (states: ParticipantAudioState[]) => {
+        const levels: Record<string, number> = {};
+        for (const state of states) {
+          levels[state.participantId] = state.isMuted ? 0 : toMeterLevel(state.audioLevel);
+        }
+        setParticipantAudioLevels(levels);
+      },
       onError: (error: string) => {
         setAudioError(error);
         Alert.alert('Audio Error', error);
       },
       onDataReceived: (data: Uint8Array, participant: RemoteParticipant | undefined) => {
+        // Typed messages go to their registered handlers (lib/roomMessages)
+        dispatchRoomData(data, participant?.identity);
         dataCallbackRef.current?.(data, participant);
       },
+      onMicDisabledByServer: () => {
+        setMicEnabled(false);
+        Alert.alert('Muted', 'A room moderator muted your microphone.');
+      },
+      onReconnectHistoryChange: (history: AudioReconnectEvent[]) => {
+        setAudioReconnectHistory(history);
+      },
     };
 
     setAudioEventCallbacks(callbacks);
@@ -116,7 +159,12 @@ export const useAudio = (
     return () => {
       setAudioEventCallbacks(null);
     };
-  }, [currentUser?.id, setAudioConnectionStatus, setAudioError, addSpeakingParticipant, removeSpeakingParticipant]);
+  }, [currentUser?.id, setAudioConnectionStatus, setAudioError, setAudioReconnectHistory, addSpeakingParticipant, removeSpeakingParticipant, setParticipantAudioLevels]);
+
+  // Per-friend volume and local mute follow the store (persisted per friend)
+  useEffect(() => {
+    setParticipantAudioPreferences(participantAudioPreferences);
+  }, [participantAudioPreferences]);
 
   // Debounce timer for audio connections
   const connectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -148,6 +196,8 @@ export const useAudio = (
         if (isConnected() && micEnabled) {
           setLocalMicrophoneEnabled(false).catch(() => {});
           setMicEnabled(false);
+          talkHeld.current = false;
+          setMicGateOpen(false).catch(() => {});
           wasMutedByBackground.current = true;
           logger.log('[useAudio] Auto-muted on background');
         }
@@ -215,6 +265,7 @@ export const useAudio = (
       currentRoomId.current = null;
       isManualConnection.current = false;
       clearSpeakingParticipants();
+      resetRoomMessageLimits();
     }
 
     if (roomId && currentUser && otherParticipantCount !== undefined && otherParticipantCount > 0) {
@@ -341,12 +392,99 @@ export const useAudio = (
 
   // Mute (but stay connected for now)
   const handleMute = useCallback(async (): Promise<void> => {
+    talkHeld.current = false;
     if (isConnected()) {
       await setLocalMicrophoneEnabled(false);
       setMicEnabled(false);
     }
   }, []);
 
+  // Hand the mic to the room's mode. A gated mode starts closed; switching
+  // back to open mic sends again straight away if the mic was on.
+  useEffect(() => {
+    talkHeld.current = false;
+    voiceGate.current = CLOSED_VOICE_GATE;
+    setMicGating(isGatedMicMode(micMode)).catch(() => {});
+  }, [micMode]);
+
+  // What we actually send: open mic sends whenever it's on
+  useEffect(() => {
+    if (micMode === 'open' || !micEnabled) {
+      setIsTransmitting(micEnabled);
+    }
+  }, [micMode, micEnabled]);
+
+  // Push-to-talk: pressing publishes the mic on first use, then opens the
+  // gate for as long as it's held
+  const pushToTalk = useCallback(async (pressed: boolean): Promise<void> => {
+    if (micMode !== 'push_to_talk') return;
+    talkHeld.current = pressed;
+
+    if (!pressed) {
+      setIsTransmitting(false);
+      await setMicGateOpen(false);
+      return;
+    }
+
+    // Set before publishing, so the mic comes up open if still held
+    await setMicGateOpen(true);
+    if (!micEnabled) {
+      const success = await handleUnmute();
+      if (!success) {
+        talkHeld.current = false;
+        await setMicGateOpen(false);
+        return;
+      }
+    }
+    // Released while the mic was coming up
+    if (!talkHeld.current) {
+      await setMicGateOpen(false);
+      return;
+    }
+    setIsTransmitting(true);
+  }, [micMode, micEnabled, handleUnmute]);
+
+  // Voice activity: sample our own level and open the gate while we speak
+  useEffect(() => {
+    if (micMode !== 'voice_activity' || !micEnabled || audioConnectionStatus !== 'connected') return;
+
+    let sampling = false;
+    const timer = setInterval(async () => {
+      if (sampling) return;
+      sampling = true;
+      try {
+        const level = await getLocalMicLevel();
+        if (level === null) return;
+        const next = nextVoiceGate(voiceGate.current, toMeterLevel(level), vadThresholdRef.current, Date.now());
+        if (next.open !== voiceGate.current.open) {
+          setIsTransmitting(next.open);
+          await setMicGateOpen(next.open);
+        }
+        voiceGate.current = next;
+      } finally {
+        sampling = false;
+      }
+    }, VAD_SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      voiceGate.current = CLOSED_VOICE_GATE;
+      setIsTransmitting(false);
+      setMicGateOpen(false).catch(() => {});
+    };
+  }, [micMode, micEnabled, audioConnectionStatus]);
+
+  // Every mode starts from a muted mic, so switching never starts sending
+  const setMicMode = useCallback(async (mode: MicMode): Promise<void> => {
+    if (!roomId || mode === micMode) return;
+    if (micEnabled) await handleMute();
+    setRoomMicMode(roomId, mode);
+  }, [roomId, micMode, micEnabled, handleMute, setRoomMicMode]);
+
+  const setVadThreshold = useCallback((threshold: number) => {
+    if (roomId) setRoomVadThreshold(roomId, threshold);
+  }, [roomId, setRoomVadThreshold]);
+
   // Check if a participant is speaking
   const isParticipantSpeaking = useCallback(
     (userId: string): boolean => {
@@ -375,9 +513,16 @@ export const useAudio = (
 
   return {
     connectionStatus: audioConnectionStatus,
+    reconnectHistory: audioReconnectHistory,
     isConnected: audioConnectionStatus === 'connected',
     isConnecting: audioConnectionStatus === 'connecting',
     isMicrophoneEnabled: micEnabled,
+    isTransmitting,
+    micMode,
+    vadThreshold,
+    setMicMode,
+    setVadThreshold,
+    pushToTalk,
     speakingParticipants,
     isParticipantSpeaking,
     connect: handleConnect, // Connect without enabling mic
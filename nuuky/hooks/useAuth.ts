@@ -4,7 +4,7 @@ import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
 import { useAppStore } from '../stores/appStore';
 import { User } from '../types';
-import { registerForPushNotificationsAsync, savePushTokenToUser } from '../lib/notifications';
+import { registerForPushNotificationsAsync, savePushTokenToUser, removePushToken } from '../lib/notifications';
 
 export const useAuth = () => {
   const { currentUser, isAuthenticated, setCurrentUser, logout } = useAppStore();
@@ -102,7 +102,7 @@ export const useAuth = () => {
         // Update online status
         await updateOnlineStatus(true);
         // Register for push notifications
-        await registerPushNotifications(userId);
+        await registerPushNotifications();
       }
     } catch (error) {
       logger.error('Error fetching user profile:', error);
@@ -128,11 +128,11 @@ export const useAuth = () => {
     }
   };
 
-  const registerPushNotifications = async (userId: string) => {
+  const registerPushNotifications = async () => {
     try {
       const token = await registerForPushNotificationsAsync();
       if (token) {
-        await savePushTokenToUser(userId, token);
+        await savePushTokenToUser(token);
       }
     } catch (error) {
       logger.error('Error registering push notifications:', error);
@@ -161,8 +161,9 @@ export const useAuth = () => {
 
   const signOut = async () => {
     try {
-      // Update online status before signing out
+      // Update online status and drop this device's push token before signing out
       await updateOnlineStatus(false);
+      await removePushToken();
       await supabase.auth.signOut();
       logout();
     } catch (error) {
@@ -45,12 +45,14 @@ export const useCallMe = () => {
         return false;
       }
 
-      // Insert into call_me_requests table for rate limiting
+      // The insert is rate limited by a trigger and queues the push
+      // notification; dispatch-notifications delivers it
       const { error: callMeError } = await supabase
         .from('call_me_requests')
         .insert({
           sender_id: currentUser.id,
           receiver_id: friendId,
+          room_id: roomId ?? null,
         });
 
       if (callMeError) {
@@ -61,30 +63,6 @@ export const useCallMe = () => {
         throw callMeError;
       }
 
-      // Send push notification via Edge Function
-      const { data, error } = await supabase.functions.invoke('send-call-me-notification', {
-        body: {
-          receiver_id: friendId,
-          sender_id: currentUser.id,
-          room_id: roomId,
-        },
-      });
-
-      logger.log('[CallMe] Response data:', data);
-      if (error) {
-        logger.warn('[CallMe] Edge function returned error:', error);
-      }
-
-      // Edge Functions may return error status even when notification is created in DB
-      // Check if notification was actually sent by looking at the response
-      const notificationSent = data?.sent !== false; // Treat undefined/true as success
-
-      if (!notificationSent && error) {
-        // Only fail if explicitly marked as failed AND there's an error
-        logger.error('[CallMe] Failed to send notification');
-        throw new Error('Failed to send call request');
-      }
-
       // Success - play haptic feedback (no alert needed)
       await Haptics.notificationAsync(
         Haptics.NotificationFeedbackType.Success
@@ -1,10 +1,19 @@
 import { logger } from '../lib/logger';
 import { useState, useCallback } from 'react';
 import * as Contacts from 'expo-contacts';
+import * as Crypto from 'expo-crypto';
 import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
+import { useAppStore } from '../stores/appStore';
+import { detectCountryFromPhone, getLocaleRegion, normalizeContactPhone } from '../lib/phoneUtils';
 import { PhoneContact, MatchedContact } from '../types';
 
+// Must match the salt in contact_phone_hash() (20261018_add_hashed_contact_discovery.sql)
+const CONTACT_HASH_SALT = 'nuuky-contact-v1';
+
+// discover_contacts() accepts at most 500 hashes per call
+const DISCOVERY_BATCH_SIZE = 500;
+
 interface ContactSyncResult {
   onNuuky: MatchedContact[];
   notOnNuuky: PhoneContact[];
@@ -19,28 +28,13 @@ export const useContactSync = () => {
     notOnNuuky: [],
   });
 
+  const currentUser = useAppStore((s) => s.currentUser);
+
   /**
-   * Normalize phone number to E.164 format for consistent matching
+   * Hash an E.164 number so it can be matched server-side without sending it in cleartext
    */
-  const normalizePhone = (phone: string): string => {
-    // Remove all non-digits
-    const digits = phone.replace(/\D/g, '');
-
-    // Handle common formats
-    if (digits.length === 10) {
-      // US number without country code - assume +1
-      return `+1${digits}`;
-    } else if (digits.length === 11 && digits.startsWith('1')) {
-      // US number with leading 1
-      return `+${digits}`;
-    } else if (digits.length > 10) {
-      // International number
-      return `+${digits}`;
-    }
-
-    // Return with + prefix if we have at least 10 digits
-    return digits.length >= 10 ? `+${digits}` : '';
-  };
+  const hashPhone = (phone: string): Promise<string> =>
+    Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${CONTACT_HASH_SALT}:${phone}`);
 
   /**
    * Request contacts permission from the user
@@ -109,6 +103,9 @@ export const useContactSync = () => {
         return;
       }
 
+      // Numbers without a country code are read in the user's own region
+      const region = detectCountryFromPhone(currentUser?.phone) ?? getLocaleRegion() ?? 'US';
+
       // Extract and normalize phone numbers
       const contactMap = new Map<string, PhoneContact>();
       const allPhones: string[] = [];
@@ -119,8 +116,8 @@ export const useContactSync = () => {
         const phoneNumbers: string[] = [];
 
         contact.phoneNumbers.forEach((phoneObj) => {
-          const normalized = normalizePhone(phoneObj.number || '');
-          if (normalized && normalized.length >= 10) {
+          const normalized = normalizeContactPhone(phoneObj.number || '', region);
+          if (normalized) {
             phoneNumbers.push(normalized);
             allPhones.push(normalized);
           }
@@ -145,35 +142,47 @@ export const useContactSync = () => {
         return;
       }
 
-      // Query Supabase to find registered users
-      // Batch in chunks to avoid query size limits
-      const batchSize = 100;
-      const registeredUsers: Array<{ phone: string; id: string; display_name: string; avatar_url?: string }> = [];
+      // Hash every unique number on-device; only hashes are sent to the server
+      const uniquePhones = Array.from(new Set(allPhones));
+      const hashes = await Promise.all(uniquePhones.map(hashPhone));
+      const phoneByHash = new Map(hashes.map((hash, i) => [hash, uniquePhones[i]]));
 
-      for (let i = 0; i < allPhones.length; i += batchSize) {
-        const batch = allPhones.slice(i, i + batchSize);
-        const { data: users, error } = await supabase
-          .from('users')
-          .select('phone, id, display_name, avatar_url')
-          .in('phone', batch);
+      // Match hashes against registered users
+      // Batch to stay within the per-call limit of discover_contacts
+      const matchedUserIdByPhone = new Map<string, string>();
+
+      for (let i = 0; i < hashes.length; i += DISCOVERY_BATCH_SIZE) {
+        const batch = hashes.slice(i, i + DISCOVERY_BATCH_SIZE);
+        const { data: found, error } = await supabase.rpc('discover_contacts', { p_hashes: batch });
 
         if (error) {
-          logger.error('Error querying users:', error);
-          continue;
+          // Quota errors won't clear up on the next batch either
+          logger.error('Error discovering contacts:', error);
+          break;
         }
 
-        if (users) {
-          registeredUsers.push(...users);
-        }
+        (found as Array<{ id: string; phone_hash: string }> | null)?.forEach((match) => {
+          const phone = phoneByHash.get(match.phone_hash);
+          if (phone) matchedUserIdByPhone.set(phone, match.id);
+        });
       }
 
-      // Create a set of registered phone numbers for quick lookup
-      const registeredPhoneSet = new Set(registeredUsers.map((u) => u.phone));
+      // Load display details for matched users only
+      const userDetailsMap = new Map<string, { id: string; display_name: string; avatar_url?: string }>();
+      const matchedUserIds = Array.from(new Set(matchedUserIdByPhone.values()));
+
+      if (matchedUserIds.length > 0) {
+        const { data: users, error } = await supabase
+          .from('users')
+          .select('id, display_name, avatar_url')
+          .in('id', matchedUserIds);
+
+        if (error) {
+          logger.error('Error loading matched users:', error);
+        }
 
-      // Create a map for user details lookup
-      const userDetailsMap = new Map(
-        registeredUsers.map((u) => [u.phone, u])
-      );
+        users?.forEach((u) => userDetailsMap.set(u.id, u));
+      }
 
       // Split contacts into two groups
       const onNuuky: MatchedContact[] = [];
@@ -181,13 +190,14 @@ export const useContactSync = () => {
 
       contactMap.forEach((contact) => {
         // Check if any of the contact's phone numbers are registered
-        const matchedPhone = contact.phoneNumbers.find((p) => registeredPhoneSet.has(p));
+        const matchedPhone = contact.phoneNumbers.find((p) => matchedUserIdByPhone.has(p));
 
         if (matchedPhone) {
-          const userDetails = userDetailsMap.get(matchedPhone);
+          const userId = matchedUserIdByPhone.get(matchedPhone);
+          const userDetails = userId ? userDetailsMap.get(userId) : undefined;
           onNuuky.push({
             ...contact,
-            userId: userDetails?.id,
+            userId,
             displayName: userDetails?.display_name,
             avatarUrl: userDetails?.avatar_url,
           });
@@ -208,7 +218,7 @@ export const useContactSync = () => {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [currentUser?.phone]);
 
   /**
    * Clear synced contacts (useful for refresh)
@@ -5,7 +5,8 @@ import * as Haptics from "expo-haptics";
 import { supabase } from "../lib/supabase";
 import { useAppStore } from "../stores/appStore";
 import { subscriptionManager } from "../lib/subscriptionManager";
-import { Flare } from "../types";
+import { describeFlareEscalation } from "../lib/flareEscalation";
+import { Flare, FlareResponse, FlareResponseStatus } from "../types";
 
 const FLARE_REFRESH_THROTTLE_MS = 5000;
 
@@ -15,9 +16,12 @@ export const useFlare = () => {
   const [loading, setLoading] = useState(false);
   const [activeFlares, setActiveFlares] = useState<Flare[]>([]);
   const [myActiveFlare, setMyActiveFlare] = useState<Flare | null>(null);
+  const [myFlareResponses, setMyFlareResponses] = useState<FlareResponse[]>([]);
   const [lastFlareSentAt, setLastFlareSentAt] = useState<Date | null>(null);
   const isMountedRef = useRef(true);
   const lastFlareRefreshRef = useRef(0);
+  const myActiveFlareIdRef = useRef<string | null>(null);
+  myActiveFlareIdRef.current = myActiveFlare?.id ?? null;
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -40,11 +44,13 @@ export const useFlare = () => {
     const remaining = new Date(myActiveFlare.expires_at).getTime() - Date.now();
     if (remaining <= 0) {
       setMyActiveFlare(null);
+      setMyFlareResponses([]);
       return;
     }
     const timer = setTimeout(() => {
       if (!isMountedRef.current) return;
       setMyActiveFlare(null);
+      setMyFlareResponses([]);
       loadActiveFlares();
     }, remaining);
     return () => clearTimeout(timer);
@@ -92,10 +98,9 @@ export const useFlare = () => {
         .select(
           `
           *,
-          user:user_id (
+          user:user_profiles!user_id (
             id,
             display_name,
-            mood,
             avatar_url
           )
         `
@@ -139,11 +144,45 @@ export const useFlare = () => {
         setMyActiveFlare(myFlare);
         setLastFlareSentAt(lastFlare ? new Date(lastFlare.created_at) : null);
       }
+
+      if (myFlare) {
+        await loadFlareResponses(myFlare.id);
+      } else if (isMountedRef.current) {
+        setMyFlareResponses([]);
+      }
     } catch (_error: any) {
       // Silently fail
     }
   };
 
+  // Responses to the user's own flare, oldest first
+  const loadFlareResponses = async (flareId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("flare_responses")
+        .select(
+          `
+          *,
+          responder:user_profiles!responder_id (
+            id,
+            display_name,
+            avatar_url
+          )
+        `
+        )
+        .eq("flare_id", flareId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      if (isMountedRef.current) {
+        setMyFlareResponses(data || []);
+      }
+    } catch (error: any) {
+      logger.error("[Flare] Failed to load responses:", error);
+    }
+  };
+
   const setupRealtimeSubscription = () => {
     if (!currentUser) return () => {};
 
@@ -175,6 +214,26 @@ export const useFlare = () => {
             }
           }
         )
+        .on(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "flare_responses",
+            filter: `flare_owner_id=eq.${currentUser.id}`,
+          },
+          (payload) => {
+            const flareId = myActiveFlareIdRef.current;
+            const response = payload.new as Partial<FlareResponse>;
+            if (!flareId || response.flare_id !== flareId) return;
+
+            // Someone answered the user's flare
+            if (payload.eventType === "INSERT" && response.status !== "cant") {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            }
+            loadFlareResponses(flareId);
+          }
+        )
         .subscribe();
     });
 
@@ -200,7 +259,10 @@ export const useFlare = () => {
     // Check if user already has an active flare
     if (myActiveFlare) {
       const remainingMinutes = Math.ceil((new Date(myActiveFlare.expires_at).getTime() - Date.now()) / 60000);
-      Alert.alert("Flare Active", `You have an active flare for ${remainingMinutes} more minutes`);
+      Alert.alert(
+        "Flare Active",
+        `You have an active flare for ${remainingMinutes} more minutes. ${describeFlareEscalation(myActiveFlare)}`
+      );
       return false;
     }
 
@@ -225,11 +287,18 @@ export const useFlare = () => {
       return true;
     }
 
+    // Favorites hear first; the server widens to all friends, then anchors, if nobody responds
+    const { favoriteFriends } = useAppStore.getState();
+    const friendIds = new Set(friends.map((f) => f.friend_id));
+    const favoriteIds = favoriteFriends.filter((id) => friendIds.has(id));
+
     // Confirm before sending
     return new Promise((resolve) => {
       Alert.alert(
         "Send Flare? 🚨",
-        'This will send a notification to all your friends. Use this when there is "Red Alert" situation.',
+        favoriteIds.length > 0
+          ? 'Your favorites are notified first, then all your friends and your anchors if nobody responds. Use this when there is "Red Alert" situation.'
+          : 'This will send a notification to all your friends, then your anchors if nobody responds. Use this when there is "Red Alert" situation.',
         [
           {
             text: "Cancel",
@@ -258,52 +327,33 @@ export const useFlare = () => {
                 // Flare expires in 5 minutes
                 const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
 
-                const { data: flareData, error } = await supabase
+                const { error } = await supabase
                   .from("flares")
                   .insert({
                     user_id: currentUser.id,
                     expires_at: expiresAt.toISOString(),
-                  })
-                  .select()
-                  .single();
+                    favorite_ids: favoriteIds,
+                  });
 
                 if (error) {
                   logger.error("[Flare] Database insert error:", error);
                   throw error;
                 }
 
-                // Send push notifications to all friends via Edge Function
-                // (session already verified above)
-                // Don't fail the flare if notification fails - flare is already created
-                try {
-                  if (flareData) {
-                    const { data, error: notifError } = await supabase.functions.invoke("send-flare-notification", {
-                      body: {
-                        user_id: currentUser.id,
-                        flare_id: flareData.id,
-                      },
-                    });
-
-                    if (notifError) {
-                      logger.warn("[Flare] Notification warning:", notifError);
-                      // Log but continue - notifications are best-effort
-                    }
-
-                    if (data) {
-                      logger.log("[Flare] Notification result:", data);
-                    }
-                  }
-                } catch (notifError) {
-                  logger.error("[Flare] Notification error:", notifError);
-                  // Don't fail the flare if notification fails - flare is already created
-                }
+                // The insert queues the first escalation tier;
+                // dispatch-notifications delivers it
 
                 // Play strong haptic feedback
                 await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
                 setLastFlareSentAt(new Date());
 
-                Alert.alert("Flare Sent! 🚨", "Your friends have been notified. The flare will be active for 5 minutes.");
+                Alert.alert(
+                  "Flare Sent! 🚨",
+                  favoriteIds.length > 0
+                    ? "Your favorites have been notified. If nobody responds, it widens to all your friends, then your anchors."
+                    : "Your friends have been notified. If nobody responds, your anchors will be alerted."
+                );
 
                 await loadActiveFlares();
                 resolve(true);
@@ -321,12 +371,21 @@ export const useFlare = () => {
     });
   };
 
-  const respondToFlare = async (flareId: string): Promise<boolean> => {
+  const respondToFlare = async (
+    flareId: string,
+    status: FlareResponseStatus = "here"
+  ): Promise<boolean> => {
     if (!currentUser) return false;
 
     setLoading(true);
     try {
-      const { error } = await supabase.from("flares").update({ responded_by: currentUser.id }).eq("id", flareId);
+      // One response per friend; answering again just changes the status
+      const { error } = await supabase
+        .from("flare_responses")
+        .upsert(
+          { flare_id: flareId, responder_id: currentUser.id, status },
+          { onConflict: "flare_id,responder_id" }
+        );
 
       if (error) throw error;
 
@@ -340,12 +399,48 @@ export const useFlare = () => {
     }
   };
 
+  // Private room the user already opened for this flare, if any
+  const getFlareResponseRoomId = async (flareId: string): Promise<string | null> => {
+    if (!currentUser) return null;
+
+    const { data } = await supabase
+      .from("flare_responses")
+      .select("room_id")
+      .eq("flare_id", flareId)
+      .eq("responder_id", currentUser.id)
+      .maybeSingle();
+
+    return data?.room_id ?? null;
+  };
+
+  // Record the room on the response so the flare owner auto-joins it
+  const setFlareResponseRoom = async (flareId: string, roomId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      const { error } = await supabase
+        .from("flare_responses")
+        .update({ room_id: roomId })
+        .eq("flare_id", flareId)
+        .eq("responder_id", currentUser.id);
+
+      if (error) throw error;
+      return true;
+    } catch (error: any) {
+      logger.error("[Flare] Failed to attach room to response:", error);
+      return false;
+    }
+  };
+
   return {
     loading,
     activeFlares,
     myActiveFlare,
+    myFlareResponses,
     sendFlare,
     respondToFlare,
+    getFlareResponseRoomId,
+    setFlareResponseRoom,
     refreshFlares: loadActiveFlares,
   };
 };
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { FocusState, getFocusState } from '../lib/focusSession';
+import { FocusSession } from '../types';
+
+/**
+ * Focus state of a session, re-evaluated every second for countdowns.
+ * Components that only need the phase should use useFocusSession's
+ * focusState, which updates at phase boundaries instead.
+ */
+export const useFocusCountdown = (session: FocusSession | null): FocusState | null => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!session) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [session?.id, session?.ended_at]);
+
+  return session ? getFocusState(session, now) : null;
+};
@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useAppStore } from '../stores/appStore';
+import { subscriptionManager } from '../lib/subscriptionManager';
+import { FocusConfig, FocusState, getFocusSessionEnd, getFocusState } from '../lib/focusSession';
+import { FocusSession, FocusSessionParticipant, FocusSummary } from '../types';
+
+// How long a finished session stays on screen before it is cleared
+const DONE_DISPLAY_MS = 60 * 1000;
+
+export const useFocusSession = (roomId: string | null) => {
+  const currentUser = useAppStore((s) => s.currentUser);
+  const [session, setSession] = useState<FocusSession | null>(null);
+  const [participants, setParticipants] = useState<FocusSessionParticipant[]>([]);
+  const [summary, setSummary] = useState<FocusSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Bumped at each phase boundary so focusState is recomputed
+  const [, setPhaseTick] = useState(0);
+  const isMountedRef = useRef(true);
+  const sessionIdRef = useRef<string | null>(null);
+  sessionIdRef.current = session?.id ?? null;
+
+  const focusState = session ? getFocusState(session, Date.now()) : null;
+  const myParticipant = participants.find((p) => p.user_id === currentUser?.id) ?? null;
+  const isParticipant = !!myParticipant;
+
+  const loadParticipants = useCallback(async (sessionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('focus_session_participants')
+        .select('*, user:users(id, display_name, avatar_url)')
+        .eq('session_id', sessionId)
+        .order('joined_at', { ascending: true });
+
+      if (error) throw error;
+      if (isMountedRef.current && sessionIdRef.current === sessionId) {
+        setParticipants(data || []);
+      }
+    } catch (error: any) {
+      logger.error('[Focus] Failed to load participants:', error);
+    }
+  }, []);
+
+  const loadSession = useCallback(async () => {
+    if (!roomId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('focus_sessions')
+        .select('*')
+        .eq('room_id', roomId)
+        .is('ended_at', null)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!isMountedRef.current) return;
+
+      // A session whose schedule ran out long ago just hasn't been closed yet
+      const next: FocusSession | null =
+        data && getFocusSessionEnd(data) + DONE_DISPLAY_MS > Date.now() ? data : null;
+      sessionIdRef.current = next?.id ?? null;
+      setSession(next);
+
+      if (next) {
+        await loadParticipants(next.id);
+      } else {
+        setParticipants([]);
+      }
+    } catch (error: any) {
+      logger.error('[Focus] Failed to load session:', error);
+    }
+  }, [roomId, loadParticipants]);
+
+  const loadSummary = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_focus_summary');
+      if (error) throw error;
+      if (isMountedRef.current) {
+        setSummary((Array.isArray(data) ? data[0] : data) ?? null);
+      }
+    } catch (error: any) {
+      logger.error('[Focus] Failed to load summary:', error);
+    }
+  }, [currentUser?.id]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    setSession(null);
+    setParticipants([]);
+    if (!roomId || !currentUser) return;
+
+    loadSession();
+    loadSummary();
+
+    const subscriptionId = `focus-${roomId}`;
+    const cleanup = subscriptionManager.register(subscriptionId, () => {
+      return supabase
+        .channel(subscriptionId)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'focus_sessions',
+            filter: `room_id=eq.${roomId}`,
+          },
+          () => {
+            loadSession();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'focus_session_participants',
+            filter: `room_id=eq.${roomId}`,
+          },
+          () => {
+            const sessionId = sessionIdRef.current;
+            if (sessionId) loadParticipants(sessionId);
+          }
+        )
+        .subscribe();
+    });
+
+    return cleanup;
+  }, [roomId, currentUser?.id]);
+
+  // Re-render at the next phase boundary, and clear a finished session
+  useEffect(() => {
+    if (!session) return;
+
+    const wait = focusState?.phaseEndsAt
+      ? focusState.phaseEndsAt - Date.now()
+      : getFocusSessionEnd(session) + DONE_DISPLAY_MS - Date.now();
+
+    const timer = setTimeout(() => {
+      if (!isMountedRef.current) return;
+      if (focusState?.phase === 'done') {
+        setSession(null);
+        setParticipants([]);
+      } else {
+        setPhaseTick((tick) => tick + 1);
+      }
+    }, Math.max(0, wait) + 50);
+
+    return () => clearTimeout(timer);
+  }, [session, focusState?.phase, focusState?.phaseEndsAt]);
+
+  // A work block just ended: get credit for it while we're still here
+  const previousPhaseRef = useRef<FocusState['phase'] | null>(null);
+  useEffect(() => {
+    const phase = focusState?.phase ?? null;
+    const previous = previousPhaseRef.current;
+    previousPhaseRef.current = phase;
+
+    if (!session || !isParticipant || previous !== 'work' || phase === 'work') return;
+
+    const sessionId = session.id;
+    (async () => {
+      try {
+        const { error } = await supabase.rpc('sync_focus_progress', { p_session_id: sessionId });
+        if (error) throw error;
+        await loadSummary();
+      } catch (error: any) {
+        logger.error('[Focus] Failed to sync progress:', error);
+      }
+    })();
+  }, [focusState?.phase, session?.id, isParticipant]);
+
+  const startSession = async (config: FocusConfig, intention?: string): Promise<boolean> => {
+    if (!roomId || !currentUser) return false;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('start_focus_session', {
+        p_room_id: roomId,
+        p_work_minutes: config.workMinutes,
+        p_break_minutes: config.breakMinutes,
+        p_rounds: config.rounds,
+      });
+      if (error) throw error;
+
+      if (intention?.trim() && data?.id) {
+        await supabase.rpc('join_focus_session', { p_session_id: data.id, p_intention: intention.trim() });
+      }
+
+      await loadSession();
+      return true;
+    } catch (error: any) {
+      logger.error('[Focus] Failed to start session:', error);
+      const alreadyRunning = error?.message?.includes('already has a focus session');
+      Alert.alert('Error', alreadyRunning ? 'A focus session is already running in this room' : 'Failed to start focus session');
+      return false;
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  };
+
+  // Join the running session, or update our intention if already in it
+  const joinSession = async (intention?: string): Promise<boolean> => {
+    if (!session || !currentUser) return false;
+
+    try {
+      const { data: joined, error } = await supabase.rpc('join_focus_session', {
+        p_session_id: session.id,
+        p_intention: intention?.trim() || null,
+      });
+      if (error) throw error;
+
+      if (!joined) {
+        // Ended in the meantime
+        await loadSession();
+        return false;
+      }
+
+      await loadParticipants(session.id);
+      return true;
+    } catch (error: any) {
+      logger.error('[Focus] Failed to join session:', error);
+      Alert.alert('Error', 'Failed to join focus session');
+      return false;
+    }
+  };
+
+  const endSession = async (): Promise<boolean> => {
+    if (!session || !currentUser) return false;
+
+    try {
+      const { error } = await supabase.rpc('end_focus_session', { p_session_id: session.id });
+      if (error) throw error;
+
+      await loadSession();
+      await loadSummary();
+      return true;
+    } catch (error: any) {
+      logger.error('[Focus] Failed to end session:', error);
+      Alert.alert('Error', 'Failed to end focus session');
+      return false;
+    }
+  };
+
+  return {
+    session,
+    focusState,
+    participants,
+    myParticipant,
+    isParticipant,
+    startedByMe: !!session && session.started_by === currentUser?.id,
+    summary,
+    loading,
+    startSession,
+    joinSession,
+    endSession,
+    loadSummary,
+  };
+};
@@ -4,12 +4,37 @@ import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
 import { useAppStore } from '../stores/appStore';
 import { subscriptionManager } from '../lib/subscriptionManager';
+import { PRESENCE_TIMEOUT_MS } from '../lib/utils';
 import { Friendship } from '../types';
 
 const FRIENDS_REFRESH_THROTTLE_MS = 3000; // Only refresh every 3 seconds
 
+/**
+ * Fetch the ids of users the given user has blocked.
+ * Blocked friends keep their friendship row but are hidden from the app.
+ */
+const fetchBlockedIds = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('blocks')
+    .select('blocked_id')
+    .eq('blocker_id', userId);
+
+  if (error) {
+    logger.error('Error loading blocked users:', error);
+    return useAppStore.getState().blockedUserIds;
+  }
+
+  return (data || []).map((b: { blocked_id: string }) => b.blocked_id);
+};
+
+/**
+ * Fetch accepted friendships with each friend's profile already reduced
+ * server-side to the visibility tier that friend granted us.
+ */
+const fetchVisibleFriends = () => supabase.rpc('get_visible_friends');
+
 export const useFriends = () => {
-  const { currentUser, friends, setFriends, removeFriend } = useAppStore();
+  const { currentUser, friends, setFriends, removeFriend, setBlockedUserIds } = useAppStore();
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
@@ -36,39 +61,15 @@ export const useFriends = () => {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('friendships')
-        .select(`
-          *,
-          friend:friend_id (
-            id,
-            display_name,
-            mood,
-            custom_mood_id,
-            mood_selfie_id,
-            is_online,
-            last_seen_at,
-            avatar_url,
-            custom_mood:custom_mood_id (
-              id,
-              emoji,
-              text,
-              color,
-              image_url
-            ),
-            mood_selfie:mood_selfie_id (
-              id,
-              image_url,
-              expires_at
-            )
-          )
-        `)
-        .eq('user_id', currentUser.id)
-        .eq('status', 'accepted');
+      const [{ data, error }, blockedIds] = await Promise.all([
+        fetchVisibleFriends(),
+        fetchBlockedIds(currentUser.id),
+      ]);
 
       if (error) throw error;
 
-      setFriends(data || []);
+      setBlockedUserIds(blockedIds);
+      setFriends((data || []).filter((f: Friendship) => !blockedIds.includes(f.friend_id)));
       setHasLoadedOnce(true);
     } catch (error: any) {
       logger.error('Error loading friends:', error);
@@ -101,39 +102,15 @@ export const useFriends = () => {
       if (!user) return;
 
       try {
-        const { data, error } = await supabase
-          .from('friendships')
-          .select(`
-            *,
-            friend:friend_id (
-              id,
-              display_name,
-              mood,
-              custom_mood_id,
-              mood_selfie_id,
-              is_online,
-              last_seen_at,
-              avatar_url,
-              custom_mood:custom_mood_id (
-                id,
-                emoji,
-                text,
-                color,
-                image_url
-              ),
-              mood_selfie:mood_selfie_id (
-                id,
-                image_url,
-                expires_at
-              )
-            )
-          `)
-          .eq('user_id', user.id)
-          .eq('status', 'accepted');
+        const [{ data, error }, blockedIds] = await Promise.all([
+          fetchVisibleFriends(),
+          fetchBlockedIds(user.id),
+        ]);
 
         if (error) throw error;
 
-        useAppStore.getState().setFriends(data || []);
+        useAppStore.getState().setBlockedUserIds(blockedIds);
+        useAppStore.getState().setFriends((data || []).filter((f: Friendship) => !blockedIds.includes(f.friend_id)));
       } catch (error: any) {
         logger.error('Error refreshing friends via realtime:', error);
       }
@@ -143,6 +120,9 @@ export const useFriends = () => {
     const cleanup = subscriptionManager.register(subscriptionId, () => {
       return supabase
         .channel(subscriptionId)
+        // Also fires when a friend's profile, presence or visibility changes
+        // (friend_updated_at); the new values come from the projection, never
+        // the users row
         .on(
           'postgres_changes',
           {
@@ -158,32 +138,24 @@ export const useFriends = () => {
           {
             event: '*',
             schema: 'public',
-            table: 'friendships',
-            filter: `friend_id=eq.${currentUser.id}`,
+            table: 'blocks',
+            filter: `blocker_id=eq.${currentUser.id}`,
           },
           throttledLoadFriends
         )
-        .on(
-          'postgres_changes',
-          {
-            event: 'UPDATE',
-            schema: 'public',
-            table: 'users',
-          },
-          (payload) => {
-            // Only reload if the changed user is one of our friends
-            const friendIds = new Set(
-              (useAppStore.getState().friends || []).map((f: any) => f.friend_id)
-            );
-            if (payload.new && friendIds.has((payload.new as any).id)) {
-              throttledLoadFriends();
-            }
-          }
-        )
         .subscribe();
     });
 
-    return cleanup;
+    // Heartbeats aren't signalled (they'd touch every friendship each
+    // minute), so refetch often enough that last_seen_at never goes stale
+    const presenceTimer = setInterval(() => {
+      if (!subscriptionManager.paused) throttledLoadFriends();
+    }, PRESENCE_TIMEOUT_MS / 2);
+
+    return () => {
+      clearInterval(presenceTimer);
+      cleanup();
+    };
   };
 
   const addFriend = async (userId: string): Promise<boolean> => {
@@ -8,6 +8,8 @@ import { RoomInviteLink, Room } from "../types";
 interface CreateInviteLinkOptions {
   maxUses?: number;
   expiresInHours?: number;
+  // Role people get when they join through the link; listeners by default
+  joinRole?: "member" | "listener";
 }
 
 interface InviteLinkInfo {
@@ -18,6 +20,7 @@ interface InviteLinkInfo {
     display_name: string;
     avatar_url?: string;
   };
+  joinRole: "member" | "listener";
   isValid: boolean;
   reason?: string;
 }
@@ -60,6 +63,7 @@ export const useInviteLink = () => {
             created_by: currentUser.id,
             max_uses: options?.maxUses || null,
             expires_at: expiresAt,
+            join_role: options?.joinRole || "listener",
           })
           .select(
             `
@@ -153,6 +157,7 @@ export const useInviteLink = () => {
         token: link.token,
         room: link.room as Room,
         creator: link.creator,
+        joinRole: link.join_role || "listener",
         isValid,
         reason,
       };
@@ -213,32 +218,25 @@ export const useInviteLink = () => {
           return null;
         }
 
-        // Increment use count
-        const { data: incrementResult } = await supabase.rpc("increment_invite_link_use", {
-          link_token: token,
+        // Count the use and join with the link's role in one step
+        const { data: joinedRoomId, error: joinError } = await supabase.rpc("join_room_by_invite_link", {
+          p_token: token,
         });
 
-        if (!incrementResult) {
+        if (joinError) throw joinError;
+
+        if (!joinedRoomId) {
           Alert.alert("Error", "Failed to use invite link");
           return null;
         }
 
-        // Add user to room
-        const { error: joinError } = await supabase.from("room_participants").insert({
-          room_id: linkInfo.room.id,
-          user_id: currentUser.id,
-          is_muted: false,
-        });
-
-        if (joinError) {
-          // Handle duplicate (race condition)
-          if (joinError.code === "23505") {
-            return linkInfo.room;
-          }
-          throw joinError;
-        }
-
-        Alert.alert("Joined!", `You've joined ${linkInfo.room.name || "the room"}`);
+        const roomName = linkInfo.room.name || "the room";
+        Alert.alert(
+          "Joined!",
+          linkInfo.joinRole === "listener"
+            ? `You've joined ${roomName} as a listener. Ask to speak when you want to talk.`
+            : `You've joined ${roomName}`,
+        );
         return linkInfo.room;
       } catch (error: any) {
         logger.error("Error joining room by token:", error);
@@ -8,11 +8,39 @@ import {
   pauseLofi,
   setLofiVolume,
   getLofiState,
+  getLofiPlayback,
+  seekLofi,
   moodToTrack,
   LofiTrack,
 } from '../lib/lofiMusicPlayer';
+import { onRoomMessage, sendRoomMessage } from '../lib/roomMessages';
+import {
+  LOFI_SYNC_HEARTBEAT_MS,
+  LOFI_SYNC_TIMEOUT_MS,
+  createLofiSessionId,
+  expectedLofiPosition,
+  lofiDrift,
+  needsLofiResync,
+} from '../lib/lofiSync';
 import { logger } from '../lib/logger';
 
+// The room whose owner can share their music with everyone in it
+interface LofiRoomOptions {
+  roomId?: string | null;
+  ownerId?: string | null;
+  ownerName?: string | null;
+  isAudioConnected?: boolean;
+}
+
+// Latest playback state broadcast by the owner
+interface HostLofiState {
+  sessionId: string;
+  track: LofiTrack;
+  playing: boolean;
+  positionMs: number;
+  receivedAt: number;
+}
+
 interface UseLofiMusicReturn {
   // State
   isPlaying: boolean;
@@ -24,6 +52,12 @@ interface UseLofiMusicReturn {
   volume: number;
   isAvailable: boolean;
 
+  // Shared listening
+  canShare: boolean; // We own the room and are in the call
+  isSharing: boolean; // We are broadcasting our playback to the room
+  sharedHostName: string | null; // Set while the owner is sharing with us
+  isFollowing: boolean; // Playback is controlled by the owner
+
   // Actions
   play: () => Promise<void>;
   pause: () => Promise<void>;
@@ -31,9 +65,17 @@ interface UseLofiMusicReturn {
   toggleAutoPlay: () => void;
   setVolume: (volume: number) => Promise<void>;
   selectTrack: (track: LofiTrack | null) => void; // null = use mood default
+  startSharing: () => void;
+  stopSharing: () => Promise<void>;
+  leaveSharedSession: () => void; // Keep listening, but on our own
+  joinSharedSession: () => void;
 }
 
-export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn => {
+export const useLofiMusic = (
+  otherParticipantCount?: number,
+  room: LofiRoomOptions = {}
+): UseLofiMusicReturn => {
+  const { roomId, ownerId, ownerName, isAudioConnected } = room;
   const currentUser = useCurrentUser();
 
   // Lofi state from store
@@ -69,6 +111,17 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
   // Check if user is alone in the room (use passed count, default to not alone until we know)
   const isAlone = otherParticipantCount !== undefined ? otherParticipantCount === 0 : false;
 
+  // Shared listening: the owner broadcasts, everyone else may follow
+  const isOwner = !!ownerId && ownerId === currentUser?.id;
+  const canShare = isOwner && !!isAudioConnected;
+  const [isSharing, setIsSharing] = useState(false);
+  const sessionIdRef = useRef<string | null>(null);
+  const [hostState, setHostState] = useState<HostLofiState | null>(null);
+  const [optedOutSessionId, setOptedOutSessionId] = useState<string | null>(null);
+  const isFollowing = !!hostState && hostState.sessionId !== optedOutSessionId;
+  const wasFollowingRef = useRef(false);
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+
   // Initialize player on mount
   useEffect(() => {
     const init = async () => {
@@ -106,7 +159,8 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
 
   // Auto-play/stop based on alone status (only for auto-started playback)
   useEffect(() => {
-    if (!isAvailable || !lofiAutoPlay) return;
+    // The owner decides what plays while we follow them
+    if (!isAvailable || !lofiAutoPlay || isFollowing) return;
 
     const targetTrack = getEffectiveTrack();
     let autoPlayTimer: ReturnType<typeof setTimeout> | null = null;
@@ -124,9 +178,9 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
           }
         }).catch(err => logger.error('[useLofiMusic] Auto-play error:', err));
       }, 5000);
-    } else if (!isAlone && isPlaying && !isManualPlay.current) {
+    } else if (!isAlone && isPlaying && !isManualPlay.current && !isSharing) {
       // Stop when someone joins, but ONLY if it was auto-started
-      // Don't stop manually started music
+      // Don't stop manually started music, or music shared with the room
       logger.log('[useLofiMusic] Auto-stopping (friend joined)');
       pauseLofi(true).then(() => {
         setIsPlaying(false);
@@ -139,11 +193,11 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
         clearTimeout(autoPlayTimer);
       }
     };
-  }, [isAlone, isAvailable, lofiAutoPlay, getEffectiveTrack, isPlaying]);
+  }, [isAlone, isAvailable, lofiAutoPlay, getEffectiveTrack, isPlaying, isFollowing, isSharing]);
 
   // Update track when mood changes (only if using mood-based default)
   useEffect(() => {
-    if (!isPlaying || selectedTrack) return; // Skip if not playing or using manual selection
+    if (!isPlaying || selectedTrack || isFollowing) return; // Skip if not playing, using manual selection or following
 
     const targetTrack = moodToTrack[currentMood];
     if (currentTrack !== targetTrack) {
@@ -154,7 +208,7 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
         }
       }).catch(err => logger.error('[useLofiMusic] Mood track switch error:', err));
     }
-  }, [currentMood, isPlaying, currentTrack, selectedTrack]);
+  }, [currentMood, isPlaying, currentTrack, selectedTrack, isFollowing]);
 
   // Sync volume with store
   useEffect(() => {
@@ -163,8 +217,136 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
     }
   }, [lofiVolume, isAvailable]);
 
+  // Sharing and following are per room
+  useEffect(() => {
+    sessionIdRef.current = null;
+    setIsSharing(false);
+    setHostState(null);
+    setOptedOutSessionId(null);
+  }, [roomId]);
+
+  // Ownership moved on (e.g. transferred) while we were sharing
+  useEffect(() => {
+    if (isSharing && !isOwner) {
+      sessionIdRef.current = null;
+      setIsSharing(false);
+    }
+  }, [isSharing, isOwner]);
+
+  // Owner: tell the room what we're playing and where we are
+  const broadcastLofiState = useCallback(
+    async (active = true) => {
+      const sessionId = sessionIdRef.current;
+      if (!sessionId) return;
+
+      const state = getLofiState();
+      const playback = await getLofiPlayback();
+      await sendRoomMessage('lofi_sync', {
+        sessionId,
+        active,
+        track: state.isPlaying && state.currentTrack ? state.currentTrack : getEffectiveTrack(),
+        playing: state.isPlaying,
+        positionMs: Math.round(playback?.positionMs ?? 0),
+      });
+    },
+    [getEffectiveTrack]
+  );
+
+  // Broadcast on every change, when someone joins, and as a heartbeat so
+  // followers can correct drift. Sends fail quietly while reconnecting.
+  useEffect(() => {
+    if (!isSharing) return;
+
+    broadcastLofiState().catch(err => logger.error('[useLofiMusic] Broadcast error:', err));
+    const heartbeat = setInterval(() => {
+      broadcastLofiState().catch(err => logger.error('[useLofiMusic] Heartbeat error:', err));
+    }, LOFI_SYNC_HEARTBEAT_MS);
+
+    return () => clearInterval(heartbeat);
+  }, [isSharing, isPlaying, currentTrack, otherParticipantCount, broadcastLofiState]);
+
+  // Follower: listen to the owner only
+  useEffect(() => {
+    if (!ownerId || isOwner) return;
+
+    return onRoomMessage('lofi_sync', (message) => {
+      if (message.senderId !== ownerId) return;
+
+      const { sessionId, active, track, playing, positionMs } = message.payload;
+      if (!active) {
+        setHostState((prev) => (prev?.sessionId === sessionId ? null : prev));
+        return;
+      }
+      setHostState({ sessionId, track, playing, positionMs, receivedAt: Date.now() });
+    });
+  }, [ownerId, isOwner]);
+
+  // The owner went quiet (left, lost connection, app killed)
+  useEffect(() => {
+    if (!hostState) return;
+
+    const timeout = setTimeout(() => {
+      logger.log('[useLofiMusic] Shared session timed out');
+      setHostState(null);
+    }, LOFI_SYNC_TIMEOUT_MS);
+
+    return () => clearTimeout(timeout);
+  }, [hostState]);
+
+  // Match the owner's track, play state and position
+  const applyHostState = useCallback(async (host: HostLofiState) => {
+    const local = getLofiState();
+
+    if (!host.playing) {
+      if (local.isPlaying) {
+        await pauseLofi(true);
+        setIsPlaying(false);
+      }
+      return;
+    }
+
+    if (!local.isPlaying || local.currentTrack !== host.track) {
+      const success = await playLofi(host.track, true);
+      if (!success) return;
+      setIsPlaying(true);
+      setCurrentTrack(host.track);
+    }
+
+    const playback = await getLofiPlayback();
+    if (!playback) return;
+
+    const expected = expectedLofiPosition(host.positionMs, true, host.receivedAt, Date.now(), playback.durationMs);
+    if (needsLofiResync(playback.positionMs, expected, playback.durationMs)) {
+      const drift = lofiDrift(playback.positionMs, expected, playback.durationMs);
+      logger.debug(`[useLofiMusic] ${Math.round(drift)}ms out of sync, seeking`);
+      await seekLofi(expected);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isFollowing || !hostState || !isAvailable) return;
+
+    // One at a time, so a heartbeat can't race a track switch
+    syncQueueRef.current = syncQueueRef.current
+      .then(() => applyHostState(hostState))
+      .catch(err => logger.error('[useLofiMusic] Sync error:', err));
+  }, [hostState, isFollowing, isAvailable, applyHostState]);
+
+  // The session we were following ended: stop the owner's music
+  useEffect(() => {
+    if (wasFollowingRef.current && !hostState) {
+      isManualPlay.current = false;
+      pauseLofi(true).then(() => {
+        setIsPlaying(false);
+      }).catch(err => logger.error('[useLofiMusic] Shared session end error:', err));
+    }
+    wasFollowingRef.current = isFollowing;
+  }, [isFollowing, hostState]);
+
   // Play action (user-initiated = manual play)
   const play = useCallback(async () => {
+    if (isFollowing) return;
+
     // Mark as manual play so auto-stop doesn't interrupt
     isManualPlay.current = true;
     userPausedRef.current = false; // Clear pause flag since user is playing
@@ -193,15 +375,17 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
     } else {
       isManualPlay.current = false;
     }
-  }, [isAvailable, getEffectiveTrack]);
+  }, [isAvailable, getEffectiveTrack, isFollowing]);
 
   // Pause action
   const pause = useCallback(async () => {
+    if (isFollowing) return;
+
     isManualPlay.current = false; // Reset manual flag
     userPausedRef.current = true; // Block auto-play from re-triggering
     await pauseLofi(true);
     setIsPlaying(false);
-  }, []);
+  }, [isFollowing]);
 
   // Stop action
   const stop = useCallback(async () => {
@@ -228,6 +412,8 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
   // Select track (null = use mood default)
   const selectTrack = useCallback(
     (track: LofiTrack | null) => {
+      if (isFollowing) return;
+
       setLofiSelectedTrackStore(track);
 
       // If currently playing, switch to the new track
@@ -240,9 +426,36 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
         }).catch(err => logger.error('[useLofiMusic] Track select error:', err));
       }
     },
-    [setLofiSelectedTrackStore, isPlaying, isAvailable, currentMood]
+    [setLofiSelectedTrackStore, isPlaying, isAvailable, currentMood, isFollowing]
   );
 
+  // Start broadcasting our playback to the room (owner only)
+  const startSharing = useCallback(() => {
+    if (!canShare || sessionIdRef.current) return;
+    sessionIdRef.current = createLofiSessionId();
+    setIsSharing(true);
+    logger.log('[useLofiMusic] Sharing music with the room');
+  }, [canShare]);
+
+  const stopSharing = useCallback(async () => {
+    if (!sessionIdRef.current) return;
+    await broadcastLofiState(false);
+    sessionIdRef.current = null;
+    setIsSharing(false);
+    logger.log('[useLofiMusic] Stopped sharing music');
+  }, [broadcastLofiState]);
+
+  // Opt out of this session; the music keeps playing, now under our control
+  const leaveSharedSession = useCallback(() => {
+    if (!hostState) return;
+    isManualPlay.current = getLofiState().isPlaying;
+    setOptedOutSessionId(hostState.sessionId);
+  }, [hostState]);
+
+  const joinSharedSession = useCallback(() => {
+    setOptedOutSessionId(null);
+  }, []);
+
   return {
     isPlaying,
     currentTrack,
@@ -252,11 +465,19 @@ export const useLofiMusic = (otherParticipantCount?: number): UseLofiMusicReturn
     autoPlayEnabled: lofiAutoPlay,
     volume: lofiVolume,
     isAvailable,
+    canShare,
+    isSharing,
+    sharedHostName: hostState ? ownerName || 'The host' : null,
+    isFollowing,
     play,
     pause,
     stop,
     toggleAutoPlay,
     setVolume,
     selectTrack,
+    startSharing,
+    stopSharing,
+    leaveSharedSession,
+    joinSharedSession,
   };
 };
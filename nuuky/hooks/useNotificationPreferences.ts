@@ -0,0 +1,161 @@
+import { logger } from '../lib/logger';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { useAppStore } from '../stores/appStore';
+import {
+  ALL_CHANNELS_OFF,
+  ALL_CHANNELS_ON,
+  FriendOverrideMode,
+  resolveChannels,
+} from '../lib/notificationPreferences';
+import {
+  NotificationChannel,
+  NotificationChannels,
+  NotificationPreference,
+  NotificationType,
+  UserPreferences,
+} from '../types';
+
+/**
+ * The notification matrix: which channels each type reaches, by default and
+ * for individual friends. `preferences` are the user's legacy switches from
+ * usePreferences, which still apply to types without a row of their own.
+ */
+export const useNotificationPreferences = (preferences: UserPreferences | null) => {
+  const currentUser = useAppStore((s) => s.currentUser);
+  const [rows, setRows] = useState<NotificationPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (currentUser) {
+      loadRows();
+    } else {
+      setRows([]);
+      setLoading(false);
+    }
+  }, [currentUser?.id]);
+
+  const loadRows = async () => {
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', currentUser.id);
+
+      if (error) throw error;
+      if (!isMountedRef.current) return;
+      setRows(data || []);
+    } catch (error: any) {
+      logger.error('Error loading notification preferences:', error);
+    } finally {
+      if (isMountedRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const channelsFor = useCallback((type: NotificationType, friendId?: string | null) => {
+    return resolveChannels(rows, preferences, type, friendId);
+  }, [rows, preferences]);
+
+  // Write one row (or remove it with null), optimistically
+  const saveRow = useCallback(async (
+    type: NotificationType,
+    friendId: string | null,
+    channels: NotificationChannels | null
+  ): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const previousRows = rowsRef.current;
+    const others = previousRows.filter(
+      (r) => !(r.notification_type === type && r.friend_id === friendId)
+    );
+    setRows(channels
+      ? [...others, {
+          id: `pending-${type}-${friendId ?? 'default'}`,
+          user_id: currentUser.id,
+          notification_type: type,
+          friend_id: friendId,
+          ...channels,
+          updated_at: new Date().toISOString(),
+        }]
+      : others);
+
+    try {
+      const { error } = channels
+        ? await supabase.rpc('set_notification_preference', {
+            p_type: type,
+            p_friend_id: friendId,
+            p_push: channels.push,
+            p_banner: channels.banner,
+            p_silent: channels.silent,
+          })
+        : await supabase.rpc('clear_notification_preference', {
+            p_type: type,
+            p_friend_id: friendId,
+          });
+
+      if (error) throw error;
+      return true;
+    } catch (error: any) {
+      logger.error('Error updating notification preference:', error);
+      if (isMountedRef.current) setRows(previousRows);
+      Alert.alert('Error', 'Failed to update notification settings. Please try again.');
+      return false;
+    }
+  }, [currentUser?.id]);
+
+  const setChannel = useCallback(async (
+    type: NotificationType,
+    channel: NotificationChannel,
+    value: boolean
+  ): Promise<boolean> => {
+    const current = resolveChannels(rowsRef.current, preferences, type);
+    return saveRow(type, null, { ...current, [channel]: value });
+  }, [preferences, saveRow]);
+
+  const setFriendOverride = useCallback(async (
+    friendId: string,
+    type: NotificationType,
+    mode: Exclude<FriendOverrideMode, 'custom'>
+  ): Promise<boolean> => {
+    if (mode === 'default') return saveRow(type, friendId, null);
+    return saveRow(type, friendId, mode === 'muted' ? ALL_CHANNELS_OFF : ALL_CHANNELS_ON);
+  }, [saveRow]);
+
+  // Friends with at least one override, keyed by friend id
+  const friendOverrides = useMemo(() => {
+    const byFriend = new Map<string, NotificationPreference[]>();
+    for (const row of rows) {
+      if (!row.friend_id) continue;
+      const list = byFriend.get(row.friend_id) || [];
+      list.push(row);
+      byFriend.set(row.friend_id, list);
+    }
+    return byFriend;
+  }, [rows]);
+
+  return {
+    rows,
+    loading,
+    channelsFor,
+    friendOverrides,
+    setChannel,
+    setFriendOverride,
+    refreshNotificationPreferences: loadRows,
+  };
+};
@@ -191,6 +191,22 @@ export const useNotifications = () => {
           router.push('/(main)');
         }
         break;
+      case 'streak_milestone':
+        // Open the streak timeline with that friend
+        if (notification.data?.friend_id) {
+          router.push(`/(main)/streak/${notification.data.friend_id}`);
+        } else if (pathname !== '/' && pathname !== '/(main)') {
+          router.push('/(main)');
+        }
+        break;
+      case 'anchor_checkin':
+      case 'anchor_inactivity':
+      case 'anchor_ack':
+        // Check-ins are confirmed and acknowledged from the anchors screen
+        if (pathname !== '/add-anchor') {
+          router.push('/add-anchor');
+        }
+        break;
       case 'friend_request':
       case 'friend_accepted':
         if (pathname !== '/(main)/friends') {
@@ -198,6 +214,7 @@ export const useNotifications = () => {
         }
         break;
       case 'room_invite':
+      case 'room_reminder':
         if (pathname !== '/(main)/rooms') {
           router.push('/(main)/rooms');
         }
@@ -253,6 +270,12 @@ export const useNotifications = () => {
               if (payload.new && typeof payload.new === 'object') {
                 const updatedNotif = payload.new as AppNotification;
                 const store = useAppStore.getState();
+                // A group that collapsed another notification moves back to the top
+                const current = store.notifications.find((n) => n.id === updatedNotif.id);
+                if (current && (updatedNotif.group_count ?? 1) > (current.group_count ?? 1)) {
+                  store.addNotification(updatedNotif);
+                  return;
+                }
                 const notifications = store.notifications.map((n) =>
                   n.id === updatedNotif.id ? updatedNotif : n
                 );
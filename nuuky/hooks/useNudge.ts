@@ -81,19 +81,7 @@ export const useNudge = () => {
         return false;
       }
 
-      // Send push notification via Edge Function
-      // (session already verified above)
-      try {
-        await supabase.functions.invoke('send-nudge-notification', {
-          body: {
-            receiver_id: friendId,
-            sender_id: currentUser.id,
-          },
-        });
-      } catch (notifError) {
-        logger.error('Failed to send notification:', notifError);
-        // Don't fail the nudge if notification fails
-      }
+      // The insert queues the push notification; dispatch-notifications delivers it
 
       // Success - play haptic feedback (no alert needed)
       await Haptics.notificationAsync(
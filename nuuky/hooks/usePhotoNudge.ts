@@ -141,16 +141,14 @@ export const usePhotoNudge = () => {
       const imageUrl = urlData.publicUrl;
 
       // Insert photo nudge record (trigger will check rate limit)
-      const { data: photoNudge, error } = await supabase
+      const { error } = await supabase
         .from('photo_nudges')
         .insert({
           sender_id: currentUser.id,
           receiver_id: receiverId,
           image_url: imageUrl,
           caption: caption?.trim() || null,
-        })
-        .select()
-        .single();
+        });
 
       if (error) {
         logger.error('Photo nudge insert error:', {
@@ -171,20 +169,7 @@ export const usePhotoNudge = () => {
         return false;
       }
 
-      // Send push notification via Edge Function
-      try {
-        await supabase.functions.invoke('send-photo-nudge-notification', {
-          body: {
-            receiver_id: receiverId,
-            sender_id: currentUser.id,
-            photo_nudge_id: photoNudge.id,
-            caption: caption?.trim() || null,
-          },
-        });
-      } catch (notifError) {
-        logger.error('Failed to send photo nudge notification:', notifError);
-        // Don't fail the photo nudge if notification fails
-      }
+      // The insert queues the push notification; dispatch-notifications delivers it
 
       // Success - play haptic feedback
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -213,7 +198,7 @@ export const usePhotoNudge = () => {
         .from('photo_nudges')
         .select(`
           *,
-          sender:users!photo_nudges_sender_id_fkey(
+          sender:user_profiles!sender_id(
             id,
             display_name,
             avatar_url,
@@ -285,7 +270,7 @@ export const usePhotoNudge = () => {
     try {
       const { data: photoNudge, error: fetchError } = await supabase
         .from('photo_nudges')
-        .select('sender_id, reaction')
+        .select('reaction')
         .eq('id', photoNudgeId)
         .eq('receiver_id', currentUser.id)
         .single();
@@ -295,6 +280,7 @@ export const usePhotoNudge = () => {
       // Toggle reaction
       const newReaction = photoNudge.reaction === 'heart' ? null : 'heart';
 
+      // Setting a like queues the push notification; dispatch-notifications delivers it
       const { error } = await supabase
         .from('photo_nudges')
         .update({ reaction: newReaction })
@@ -303,22 +289,6 @@ export const usePhotoNudge = () => {
 
       if (error) throw error;
 
-      // Send notification to sender when liking (not when unliking)
-      if (newReaction === 'heart' && photoNudge.sender_id) {
-        try {
-          await supabase.functions.invoke('send-photo-like-notification', {
-            body: {
-              receiver_id: photoNudge.sender_id,
-              sender_id: currentUser.id,
-              photo_nudge_id: photoNudgeId,
-            },
-          });
-        } catch (notifError) {
-          logger.error('Failed to send photo like notification:', notifError);
-          // Don't fail the reaction if notification fails
-        }
-      }
-
       // Play haptic feedback
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
@@ -340,7 +310,7 @@ export const usePhotoNudge = () => {
         .from('photo_nudges')
         .select(`
           *,
-          sender:users!photo_nudges_sender_id_fkey(
+          sender:user_profiles!sender_id(
             id,
             display_name,
             avatar_url,
@@ -3,7 +3,21 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
 import { useAppStore } from '../stores/appStore';
-import { UserPreferences } from '../types';
+import {
+  DEFAULT_FLARE_WIDEN_AFTER_MINUTES,
+  DEFAULT_FLARE_ANCHORS_AFTER_MINUTES,
+} from '../lib/flareEscalation';
+import { DEFAULT_ANCHOR_CHECKIN_HOURS } from '../lib/anchorCheckIns';
+import { DigestMode, UserPreferences } from '../types';
+
+type PreferenceKey =
+  | 'nudges_enabled'
+  | 'flares_enabled'
+  | 'room_invites_enabled'
+  | 'flare_widen_after_minutes'
+  | 'flare_anchors_after_minutes'
+  | 'anchor_checkin_after_hours'
+  | 'digest_mode';
 
 export const usePreferences = () => {
   const currentUser = useAppStore((s) => s.currentUser);
@@ -72,6 +86,10 @@ export const usePreferences = () => {
         nudges_enabled: true,
         flares_enabled: true,
         room_invites_enabled: true,
+        flare_widen_after_minutes: DEFAULT_FLARE_WIDEN_AFTER_MINUTES,
+        flare_anchors_after_minutes: DEFAULT_FLARE_ANCHORS_AFTER_MINUTES,
+        anchor_checkin_after_hours: DEFAULT_ANCHOR_CHECKIN_HOURS,
+        digest_mode: 'off',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       });
@@ -83,8 +101,8 @@ export const usePreferences = () => {
   };
 
   const updatePreference = useCallback(async (
-    key: 'nudges_enabled' | 'flares_enabled' | 'room_invites_enabled',
-    value: boolean
+    key: PreferenceKey,
+    value: boolean | number | DigestMode
   ): Promise<boolean> => {
     const currentPrefs = preferencesRef.current;
     if (!currentUser || !currentPrefs) return false;
@@ -125,15 +143,55 @@ export const usePreferences = () => {
     return updatePreference('room_invites_enabled', !preferences.room_invites_enabled);
   }, [preferences, updatePreference]);
 
+  const flareWidenAfterMinutes = preferences?.flare_widen_after_minutes ?? DEFAULT_FLARE_WIDEN_AFTER_MINUTES;
+  const flareAnchorsAfterMinutes = preferences?.flare_anchors_after_minutes ?? DEFAULT_FLARE_ANCHORS_AFTER_MINUTES;
+
+  // Anchors are the last tier, so they must come after the widen to all friends
+  const setFlareWidenAfter = useCallback(async (minutes: number): Promise<boolean> => {
+    if (minutes >= flareAnchorsAfterMinutes) {
+      Alert.alert('Flare Escalation', 'Friends must be notified before your anchors. Pick an earlier time.');
+      return false;
+    }
+    return updatePreference('flare_widen_after_minutes', minutes);
+  }, [flareAnchorsAfterMinutes, updatePreference]);
+
+  const setFlareAnchorsAfter = useCallback(async (minutes: number): Promise<boolean> => {
+    if (minutes <= flareWidenAfterMinutes) {
+      Alert.alert('Flare Escalation', 'Anchors are alerted after your friends. Pick a later time.');
+      return false;
+    }
+    return updatePreference('flare_anchors_after_minutes', minutes);
+  }, [flareWidenAfterMinutes, updatePreference]);
+
+  const anchorCheckInAfterHours = preferences?.anchor_checkin_after_hours ?? DEFAULT_ANCHOR_CHECKIN_HOURS;
+
+  const setAnchorCheckInAfter = useCallback(async (hours: number): Promise<boolean> => {
+    return updatePreference('anchor_checkin_after_hours', hours);
+  }, [updatePreference]);
+
+  const digestMode: DigestMode = preferences?.digest_mode ?? 'off';
+
+  const setDigestMode = useCallback(async (mode: DigestMode): Promise<boolean> => {
+    return updatePreference('digest_mode', mode);
+  }, [updatePreference]);
+
   return {
     preferences,
     loading,
     nudgesEnabled: preferences?.nudges_enabled ?? true,
     flaresEnabled: preferences?.flares_enabled ?? true,
     roomInvitesEnabled: preferences?.room_invites_enabled ?? true,
+    flareWidenAfterMinutes,
+    flareAnchorsAfterMinutes,
+    anchorCheckInAfterHours,
+    digestMode,
     toggleNudges,
     toggleFlares,
     toggleRoomInvites,
+    setFlareWidenAfter,
+    setFlareAnchorsAfter,
+    setAnchorCheckInAfter,
+    setDigestMode,
     refreshPreferences: loadPreferences,
   };
 };
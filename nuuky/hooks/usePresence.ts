@@ -3,6 +3,7 @@ import { useEffect, useRef } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
 import { supabase } from '../lib/supabase';
 import { useAppStore } from '../stores/appStore';
+import { getActiveAvailabilityMode } from '../lib/availabilitySchedule';
 
 // MOCK MODE FLAG - should match useRoom.ts
 const USE_MOCK_DATA = false;
@@ -12,6 +13,7 @@ const OFFLINE_TIMEOUT = 120000; // 2 minutes of inactivity = offline
 
 export const usePresence = () => {
   const currentUser = useAppStore((s) => s.currentUser);
+  const availabilitySchedules = useAppStore((s) => s.availabilitySchedules);
   const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastActivityRef = useRef<number>(Date.now());
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
@@ -25,12 +27,10 @@ export const usePresence = () => {
     // MOCK MODE: Skip Supabase query
     if (USE_MOCK_DATA) return;
 
-    // Force offline if ghost mode or break mode is active
-    const now = new Date();
-    const ghostActive = user.ghost_mode_until && new Date(user.ghost_mode_until) > now;
-    const breakActive = user.take_break_until && new Date(user.take_break_until) > now;
+    // Force offline if ghost mode or break mode is active (one-shot or scheduled)
+    const mode = getActiveAvailabilityMode(user, useAppStore.getState().availabilitySchedules);
 
-    const effectiveOnlineStatus = (ghostActive || breakActive) ? false : isOnline;
+    const effectiveOnlineStatus = mode ? false : isOnline;
 
     try {
       await supabase
@@ -114,18 +114,14 @@ export const usePresence = () => {
     };
   }, [currentUser?.id]); // Use id to avoid re-running on mood change
 
-  // Immediately update presence when ghost/break mode changes
+  // Immediately update presence when ghost/break mode or schedules change
   useEffect(() => {
     if (!currentUser || !isMountedRef.current) return;
 
-    const now = new Date();
-    const ghostActive = currentUser.ghost_mode_until && new Date(currentUser.ghost_mode_until) > now;
-    const breakActive = currentUser.take_break_until && new Date(currentUser.take_break_until) > now;
-
-    if (ghostActive || breakActive) {
+    if (getActiveAvailabilityMode(currentUser, availabilitySchedules)) {
       updatePresence(false); // Immediately push offline status
     }
-  }, [currentUser?.ghost_mode_until, currentUser?.take_break_until]);
+  }, [currentUser?.ghost_mode_until, currentUser?.take_break_until, availabilitySchedules]);
 
   return {
     updateActivity: () => {
@@ -4,7 +4,7 @@ import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
 import { useAppStore } from '../stores/appStore';
 import { subscriptionManager } from '../lib/subscriptionManager';
-import { Room, RoomParticipant } from '../types';
+import { Room, RoomParticipant, RoomRole } from '../types';
 
 const REFRESH_THROTTLE_MS = 2000; // Only allow refresh every 2 seconds
 
@@ -13,6 +13,20 @@ const REFRESH_THROTTLE_MS = 2000; // Only allow refresh every 2 seconds
 // Uses an object ref to make check-and-set effectively atomic in JS single-threaded model.
 const subscriptionOwnership = { current: null as string | null };
 
+/**
+ * Friends who gave us less than the full tier come back without `user`
+ * (only full-tier rows are readable), so fall back to their basic profile
+ * for a name and avatar.
+ */
+const withBasicProfiles = (participants: any[] = []): RoomParticipant[] =>
+  participants.map(({ profile, ...participant }) => ({
+    ...participant,
+    user: participant.user ?? profile ?? undefined,
+  }));
+
+const withRoomProfiles = (rooms: any[] | null): Room[] =>
+  (rooms || []).map((room) => ({ ...room, participants: withBasicProfiles(room.participants) }));
+
 export const useRoom = () => {
   // Instance-level refs instead of module-level variables to avoid cross-instance race conditions
   const lastRoomsRefreshRef = useRef(0);
@@ -139,12 +153,24 @@ export const useRoom = () => {
             id,
             user_id,
             is_muted,
+            role,
+            muted_by,
+            speak_requested_at,
+            audio_joined_at,
+            audio_left_at,
             joined_at,
+            profile:user_profiles!user_id (
+              id,
+              display_name,
+              avatar_url
+            ),
             user:user_id (
               id,
               display_name,
               avatar_url,
               mood,
+              is_online,
+              last_seen_at,
               default_room_id
             )
           )
@@ -154,8 +180,9 @@ export const useRoom = () => {
 
       if (error) throw error;
 
-      setActiveRoomsList(data || []);
-      setActiveRooms(data || []);
+      const rooms = withRoomProfiles(data);
+      setActiveRoomsList(rooms);
+      setActiveRooms(rooms);
     } catch (error: any) {
       logger.error('Error loading active rooms:', error);
     }
@@ -182,7 +209,7 @@ export const useRoom = () => {
         .from('rooms')
         .select(`
           *,
-          creator:creator_id (
+          creator:user_profiles!creator_id (
             id,
             display_name,
             avatar_url
@@ -191,7 +218,17 @@ export const useRoom = () => {
             id,
             user_id,
             is_muted,
+            role,
+            muted_by,
+            speak_requested_at,
+            audio_joined_at,
+            audio_left_at,
             joined_at,
+            profile:user_profiles!user_id (
+              id,
+              display_name,
+              avatar_url
+            ),
             user:user_id (
               id,
               display_name,
@@ -217,7 +254,7 @@ export const useRoom = () => {
 
       if (error) throw error;
 
-      setMyRooms(data || []);
+      setMyRooms(withRoomProfiles(data));
     } catch (error: any) {
       logger.error('Error loading my rooms:', error);
     }
@@ -231,6 +268,11 @@ export const useRoom = () => {
         .from('room_participants')
         .select(`
           *,
+          profile:user_profiles!user_id (
+            id,
+            display_name,
+            avatar_url
+          ),
           user:user_id (
             id,
             display_name,
@@ -252,7 +294,7 @@ export const useRoom = () => {
         .eq('room_id', currentRoom.id);
 
       if (error) throw error;
-      const participantsData = data || [];
+      const participantsData = withBasicProfiles(data || []);
       // Update the global store
       setRoomParticipants(participantsData);
     } catch (error: any) {
@@ -405,21 +447,8 @@ export const useRoom = () => {
           receiver_id: friendId,
         }));
 
+        // Each invite queues its own push notification
         await supabase.from('room_invites').insert(invites);
-
-        // Send push notifications to invited friends
-        try {
-          await supabase.functions.invoke('send-room-invite-notification', {
-            body: {
-              room_id: room.id,
-              sender_id: currentUser.id,
-              receiver_ids: friendIds,
-            },
-          });
-        } catch (notificationError) {
-          // Don't fail room creation if notifications fail
-          logger.error('Failed to send room invite notifications:', notificationError);
-        }
       }
 
       setCurrentRoom(room);
@@ -744,36 +773,22 @@ export const useRoom = () => {
     }
   };
 
-  // Remove participant (creator only)
+  // Remove participant (owner or moderator) - also disconnects them from the live call
   const removeParticipant = async (roomId: string, userId: string): Promise<boolean> => {
     if (!currentUser) return false;
 
+    // Cannot remove yourself
+    if (userId === currentUser.id) {
+      Alert.alert('Error', 'Cannot remove yourself. Leave or delete the room instead.');
+      return false;
+    }
+
     try {
       setLoading(true);
 
-      // Verify user is creator
-      const { data: room } = await supabase
-        .from('rooms')
-        .select('creator_id')
-        .eq('id', roomId)
-        .single();
-
-      if (!room || room.creator_id !== currentUser.id) {
-        Alert.alert('Error', 'Only the creator can remove members');
-        return false;
-      }
-
-      // Cannot remove creator
-      if (userId === currentUser.id) {
-        Alert.alert('Error', 'Cannot remove yourself. Leave or delete the room instead.');
-        return false;
-      }
-
-      const { error } = await supabase
-        .from('room_participants')
-        .delete()
-        .eq('room_id', roomId)
-        .eq('user_id', userId);
+      const { error } = await supabase.functions.invoke('moderate-room', {
+        body: { room_id: roomId, user_id: userId, action: 'kick' },
+      });
 
       if (error) throw error;
 
@@ -795,6 +810,132 @@ export const useRoom = () => {
     }
   };
 
+  // Mute a participant for everyone (owner or moderator)
+  const muteParticipant = async (roomId: string, userId: string): Promise<boolean> => {
+    if (!currentUser || userId === currentUser.id) return false;
+
+    try {
+      const { error } = await supabase.functions.invoke('moderate-room', {
+        body: { room_id: roomId, user_id: userId, action: 'mute' },
+      });
+
+      if (error) throw error;
+
+      const currentParticipants = useAppStore.getState().roomParticipants;
+      setRoomParticipants(currentParticipants.map(p =>
+        p.user_id === userId ? { ...p, is_muted: true, muted_by: currentUser.id } : p
+      ));
+
+      await loadMyRooms();
+      return true;
+    } catch (error: any) {
+      logger.error('Error muting participant:', error);
+      Alert.alert('Error', 'Failed to mute participant');
+      return false;
+    }
+  };
+
+  // Promote or demote a participant (owner only)
+  const setParticipantRole = async (roomId: string, userId: string, role: RoomRole): Promise<boolean> => {
+    if (!currentUser || userId === currentUser.id) return false;
+
+    try {
+      const { error } = await supabase.functions.invoke('moderate-room', {
+        body: { room_id: roomId, user_id: userId, action: 'set_role', role },
+      });
+
+      if (error) throw error;
+
+      await loadParticipants();
+      await loadMyRooms();
+      return true;
+    } catch (error: any) {
+      logger.error('Error changing participant role:', error);
+      Alert.alert('Error', 'Failed to change role');
+      return false;
+    }
+  };
+
+  // Listener asks to speak; cancel clears the request
+  const setSpeakRequest = async (roomId: string, requested: boolean): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const speakRequestedAt = requested ? new Date().toISOString() : null;
+
+    try {
+      const { error } = await supabase
+        .from('room_participants')
+        .update({ speak_requested_at: speakRequestedAt })
+        .eq('room_id', roomId)
+        .eq('user_id', currentUser.id);
+
+      if (error) throw error;
+
+      const currentParticipants = useAppStore.getState().roomParticipants;
+      setRoomParticipants(currentParticipants.map(p =>
+        p.user_id === currentUser.id ? { ...p, speak_requested_at: speakRequestedAt } : p
+      ));
+      return true;
+    } catch (error: any) {
+      logger.error('Error updating speak request:', error);
+      Alert.alert('Error', requested ? 'Failed to ask to speak' : 'Failed to cancel request');
+      return false;
+    }
+  };
+
+  const requestToSpeak = (roomId: string) => setSpeakRequest(roomId, true);
+  const cancelSpeakRequest = (roomId: string) => setSpeakRequest(roomId, false);
+
+  // Answer a listener's request to speak (owner or moderator)
+  const respondToSpeakRequest = async (roomId: string, userId: string, allow: boolean): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      const { error } = await supabase.functions.invoke('moderate-room', {
+        body: { room_id: roomId, user_id: userId, action: allow ? 'allow_speak' : 'dismiss_speak' },
+      });
+
+      if (error) throw error;
+
+      await loadParticipants();
+      return true;
+    } catch (error: any) {
+      logger.error('Error answering speak request:', error);
+      Alert.alert('Error', 'Failed to answer request');
+      return false;
+    }
+  };
+
+  const allowToSpeak = (roomId: string, userId: string) => respondToSpeakRequest(roomId, userId, true);
+  const dismissSpeakRequest = (roomId: string, userId: string) => respondToSpeakRequest(roomId, userId, false);
+
+  // Whether listeners can send reactions (owner only). Connected listeners
+  // pick up the change the next time they get an audio token.
+  const setListenersCanReact = async (roomId: string, listenersCanReact: boolean): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      const { error } = await supabase
+        .from('rooms')
+        .update({ listeners_can_react: listenersCanReact })
+        .eq('id', roomId)
+        .eq('creator_id', currentUser.id);
+
+      if (error) throw error;
+
+      const room = useAppStore.getState().currentRoom;
+      if (room?.id === roomId) {
+        setCurrentRoom({ ...room, listeners_can_react: listenersCanReact });
+      }
+      await loadMyRooms();
+      return true;
+    } catch (error: any) {
+      logger.error('Error updating listener reactions:', error);
+      Alert.alert('Error', 'Failed to update room settings');
+      return false;
+    }
+  };
+
   // Transfer ownership (creator only)
   const transferOwnership = async (roomId: string, newOwnerId: string): Promise<boolean> => {
     if (!currentUser) return false;
@@ -937,6 +1078,13 @@ export const useRoom = () => {
     deleteRoom,
     updateRoomName,
     removeParticipant,
+    muteParticipant,
+    setParticipantRole,
+    requestToSpeak,
+    cancelSpeakRequest,
+    allowToSpeak,
+    dismissSpeakRequest,
+    setListenersCanReact,
     transferOwnership,
     inviteFriendToRoom,
     loadActiveRooms,
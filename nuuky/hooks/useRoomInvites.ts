@@ -50,7 +50,7 @@ export const useRoomInvites = () => {
             creator_id,
             is_active
           ),
-          sender:sender_id (
+          sender:user_profiles!sender_id (
             id,
             display_name,
             avatar_url
@@ -118,7 +118,7 @@ export const useRoomInvites = () => {
             name,
             creator_id
           ),
-          sender:sender_id (
+          sender:user_profiles!sender_id (
             id,
             display_name,
             avatar_url
@@ -138,20 +138,7 @@ export const useRoomInvites = () => {
         throw error;
       }
 
-      // Send push notification via Edge Function
-      // (session already verified above)
-      try {
-        await supabase.functions.invoke('send-room-invite-notification', {
-          body: {
-            room_id: roomId,
-            sender_id: currentUser.id,
-            receiver_ids: [friendId],
-          },
-        });
-      } catch (notifError) {
-        logger.error('Failed to send notification:', notifError);
-        // Don't fail the invite if notification fails
-      }
+      // The insert queues the push notification; dispatch-notifications delivers it
 
       return true;
     } catch (error: any) {
@@ -219,20 +206,7 @@ export const useRoomInvites = () => {
         throw error;
       }
 
-      // Send push notifications to all invited friends via Edge Function
-      // (session already verified above)
-      try {
-        await supabase.functions.invoke('send-room-invite-notification', {
-          body: {
-            room_id: roomId,
-            sender_id: currentUser.id,
-            receiver_ids: newFriendIds,
-          },
-        });
-      } catch (notifError) {
-        logger.error('Failed to send notifications:', notifError);
-        // Don't fail the invites if notifications fail
-      }
+      // Each invite queues its own push notification
 
       Alert.alert('Success', `Sent ${newFriendIds.length} invite(s)`);
       return true;
@@ -298,6 +272,17 @@ export const useRoomInvites = () => {
         return true;
       }
 
+      // Join first: the pending invite is what lets us in
+      const { error: participantError } = await supabase
+        .from('room_participants')
+        .insert({
+          room_id: invite.room_id,
+          user_id: currentUser.id,
+          is_muted: false,
+        });
+
+      if (participantError) throw participantError;
+
       // Update invite status
       const { error: updateError } = await supabase
         .from('room_invites')
@@ -309,17 +294,6 @@ export const useRoomInvites = () => {
 
       if (updateError) throw updateError;
 
-      // Add user to room_participants
-      const { error: participantError } = await supabase
-        .from('room_participants')
-        .insert({
-          room_id: invite.room_id,
-          user_id: currentUser.id,
-          is_muted: false,
-        });
-
-      if (participantError) throw participantError;
-
       // Remove from local state
       removeRoomInvite(inviteId);
 
@@ -373,7 +347,7 @@ export const useRoomInvites = () => {
         .from('room_invites')
         .select(`
           *,
-          sender:sender_id (
+          sender:user_profiles!sender_id (
             id,
             display_name,
             avatar_url
@@ -3,15 +3,17 @@ import { useState, useEffect } from 'react';
 import { Alert } from 'react-native';
 import { supabase } from '../lib/supabase';
 import { useAppStore } from '../stores/appStore';
-import { Anchor } from '../types';
-
-type Visibility = 'full' | 'limited' | 'minimal' | 'hidden';
+import { Anchor, AvailabilityMode, AvailabilitySchedule, Block, Visibility } from '../types';
 
 export const useSafety = () => {
   const currentUser = useAppStore((s) => s.currentUser);
   const setCurrentUser = useAppStore((s) => s.setCurrentUser);
   const anchors = useAppStore((s) => s.anchors);
   const setAnchors = useAppStore((s) => s.setAnchors);
+  const setBlockedUserIds = useAppStore((s) => s.setBlockedUserIds);
+  const schedules = useAppStore((s) => s.availabilitySchedules);
+  const setSchedules = useAppStore((s) => s.setAvailabilitySchedules);
+  const [blockedUsers, setBlockedUsers] = useState<Block[]>([]);
   const [isInGhostMode, setIsInGhostMode] = useState(false);
   const [isOnBreak, setIsOnBreak] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -20,6 +22,8 @@ export const useSafety = () => {
   useEffect(() => {
     if (currentUser) {
       loadAnchors();
+      loadBlockedUsers();
+      loadSchedules();
       // Derive from currentUser in store instead of querying DB
       const now = new Date();
       setIsInGhostMode(
@@ -39,7 +43,7 @@ export const useSafety = () => {
         .from('anchors')
         .select(`
           *,
-          anchor:anchor_id (
+          anchor:user_profiles!anchor_id (
             id,
             display_name,
             avatar_url
@@ -54,6 +58,49 @@ export const useSafety = () => {
     }
   };
 
+  const loadBlockedUsers = async () => {
+    if (!currentUser) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('blocks')
+        .select(`
+          *,
+          blocked:user_profiles!blocked_id (
+            id,
+            display_name,
+            avatar_url,
+            username
+          )
+        `)
+        .eq('blocker_id', currentUser.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setBlockedUsers(data || []);
+      setBlockedUserIds((data || []).map((b: Block) => b.blocked_id));
+    } catch (error: any) {
+      logger.error('Error loading blocked users:', error);
+    }
+  };
+
+  const loadSchedules = async () => {
+    if (!currentUser) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('availability_schedules')
+        .select('*')
+        .eq('user_id', currentUser.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setSchedules(data || []);
+    } catch (error: any) {
+      logger.error('Error loading schedules:', error);
+    }
+  };
+
   const checkGhostMode = async () => {
     if (!currentUser) return;
 
@@ -214,6 +261,98 @@ export const useSafety = () => {
     }
   };
 
+  const addSchedule = async (
+    kind: AvailabilityMode,
+    days: number[],
+    startTime: string,
+    endTime: string
+  ): Promise<boolean> => {
+    if (!currentUser) {
+      Alert.alert('Error', 'You must be logged in');
+      return false;
+    }
+
+    setLoading(true);
+    try {
+      // Windows follow the device's local clock, even when travelling
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+      const { data, error } = await supabase
+        .from('availability_schedules')
+        .insert({
+          user_id: currentUser.id,
+          kind,
+          days,
+          start_time: startTime,
+          end_time: endTime,
+          timezone,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setSchedules([...useAppStore.getState().availabilitySchedules, data as AvailabilitySchedule]);
+      return true;
+    } catch (error: any) {
+      logger.error('Error adding schedule:', error);
+      Alert.alert('Error', 'Failed to add schedule');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSchedule = async (scheduleId: string, isEnabled: boolean): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('availability_schedules')
+        .update({ is_enabled: isEnabled })
+        .eq('id', scheduleId);
+
+      if (error) throw error;
+
+      setSchedules(
+        useAppStore.getState().availabilitySchedules.map((s) =>
+          s.id === scheduleId ? { ...s, is_enabled: isEnabled } : s
+        )
+      );
+      return true;
+    } catch (error: any) {
+      logger.error('Error updating schedule:', error);
+      Alert.alert('Error', 'Failed to update schedule');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const removeSchedule = async (scheduleId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('availability_schedules')
+        .delete()
+        .eq('id', scheduleId);
+
+      if (error) throw error;
+
+      setSchedules(useAppStore.getState().availabilitySchedules.filter((s) => s.id !== scheduleId));
+      return true;
+    } catch (error: any) {
+      logger.error('Error removing schedule:', error);
+      Alert.alert('Error', 'Failed to remove schedule');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const reportUser = async (
     userId: string,
     reportType: string,
@@ -249,6 +388,73 @@ export const useSafety = () => {
     }
   };
 
+  const blockUser = async (userId: string): Promise<boolean> => {
+    if (!currentUser) {
+      Alert.alert('Error', 'You must be logged in');
+      return false;
+    }
+
+    if (userId === currentUser.id) return false;
+
+    setLoading(true);
+    try {
+      // Room cleanup and pending invite removal happen in the on_block_created trigger
+      const { error } = await supabase
+        .from('blocks')
+        .insert({
+          blocker_id: currentUser.id,
+          blocked_id: userId,
+          block_type: 'hard',
+        });
+
+      // Already blocked - treat as success
+      if (error && error.code !== '23505') throw error;
+
+      // Hide immediately instead of waiting for the friends refresh
+      const { blockedUserIds, friends, setFriends, roomParticipants, setRoomParticipants } = useAppStore.getState();
+      if (!blockedUserIds.includes(userId)) {
+        setBlockedUserIds([...blockedUserIds, userId]);
+      }
+      setFriends(friends.filter((f) => f.friend_id !== userId));
+      if (roomParticipants.some((p) => p.user_id === userId)) {
+        setRoomParticipants(roomParticipants.filter((p) => p.user_id !== userId));
+      }
+
+      await loadBlockedUsers();
+      return true;
+    } catch (error: any) {
+      logger.error('Error blocking user:', error);
+      Alert.alert('Error', 'Failed to block user');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unblockUser = async (userId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('blocks')
+        .delete()
+        .eq('blocker_id', currentUser.id)
+        .eq('blocked_id', userId);
+
+      if (error) throw error;
+
+      await loadBlockedUsers();
+      return true;
+    } catch (error: any) {
+      logger.error('Error unblocking user:', error);
+      Alert.alert('Error', 'Failed to unblock user');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const addAnchor = async (userId: string): Promise<boolean> => {
     if (!currentUser) {
       Alert.alert('Error', 'You must be logged in');
@@ -349,6 +555,8 @@ export const useSafety = () => {
 
   return {
     anchors,
+    blockedUsers,
+    schedules,
     isInGhostMode,
     isOnBreak,
     loading,
@@ -356,7 +564,12 @@ export const useSafety = () => {
     disableGhostMode,
     takeBreak,
     endBreak,
+    addSchedule,
+    toggleSchedule,
+    removeSchedule,
     reportUser,
+    blockUser,
+    unblockUser,
     addAnchor,
     removeAnchor,
     setFriendVisibility,
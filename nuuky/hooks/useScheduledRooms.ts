@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useAppStore } from '../stores/appStore';
+import { subscriptionManager } from '../lib/subscriptionManager';
+import {
+  DEFAULT_ROOM_DURATION_MINUTES,
+  DEFAULT_ROOM_REMINDER_MINUTES,
+  ScheduleRoomInput,
+  getDeviceTimeZone,
+} from '../lib/roomSchedule';
+import { RoomRsvpStatus, UpcomingRoom } from '../types';
+
+/**
+ * Rooms planned ahead: the ones the user hosts or was invited to, until
+ * their last occurrence is over. start-scheduled-rooms opens them on time.
+ */
+export const useScheduledRooms = () => {
+  const currentUser = useAppStore((s) => s.currentUser);
+  const [upcomingRooms, setUpcomingRooms] = useState<UpcomingRoom[]>([]);
+  const [loading, setLoading] = useState(false);
+  const isMountedRef = useRef(true);
+
+  const loadUpcomingRooms = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_upcoming_rooms');
+      if (error) throw error;
+      if (isMountedRef.current) {
+        setUpcomingRooms(data || []);
+      }
+    } catch (error: any) {
+      logger.error('[ScheduledRooms] Failed to load upcoming rooms:', error);
+    }
+  }, [currentUser?.id]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setUpcomingRooms([]);
+      return;
+    }
+
+    loadUpcomingRooms();
+
+    const subscriptionId = `room-rsvps-${currentUser.id}`;
+    const cleanup = subscriptionManager.register(subscriptionId, () => {
+      return supabase
+        .channel(subscriptionId)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'room_schedule_rsvps',
+            filter: `user_id=eq.${currentUser.id}`,
+          },
+          () => {
+            loadUpcomingRooms();
+          }
+        )
+        .subscribe();
+    });
+
+    return cleanup;
+  }, [currentUser?.id]);
+
+  const scheduleRoom = async (input: ScheduleRoomInput): Promise<boolean> => {
+    if (!currentUser) {
+      Alert.alert('Error', 'You must be logged in');
+      return false;
+    }
+
+    const isRecurring = !!input.days?.length && !!input.startTime;
+    if (!isRecurring && !input.startsAt) return false;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.rpc('schedule_room', {
+        p_name: input.name || `${currentUser.display_name}'s Room`,
+        p_starts_at: isRecurring ? null : input.startsAt!.toISOString(),
+        p_days: isRecurring ? input.days : null,
+        p_start_time: isRecurring ? input.startTime : null,
+        p_timezone: getDeviceTimeZone(),
+        p_duration_minutes: input.durationMinutes ?? DEFAULT_ROOM_DURATION_MINUTES,
+        p_reminder_minutes: input.reminderMinutes ?? DEFAULT_ROOM_REMINDER_MINUTES,
+        p_invitee_ids: input.friendIds ?? [],
+      });
+      if (error) throw error;
+
+      await loadUpcomingRooms();
+      return true;
+    } catch (error: any) {
+      logger.error('[ScheduledRooms] Failed to schedule room:', error);
+      if (error?.message?.includes('Room limit reached')) {
+        Alert.alert('Room Limit Reached', 'You can only have up to 5 rooms, including scheduled ones. Delete one to plan another.');
+      } else if (error?.message?.includes('must be in the future')) {
+        Alert.alert('Error', 'Pick a start time in the future');
+      } else {
+        Alert.alert('Error', 'Failed to schedule room');
+      }
+      return false;
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  };
+
+  const rsvp = async (scheduleId: string, status: Exclude<RoomRsvpStatus, 'invited'>): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    // Optimistic: the tally catches up on reload
+    const previous = upcomingRooms;
+    setUpcomingRooms((rooms) => rooms.map((r) => (r.schedule_id === scheduleId ? { ...r, my_status: status } : r)));
+
+    try {
+      const { data: updated, error } = await supabase.rpc('rsvp_room_schedule', {
+        p_schedule_id: scheduleId,
+        p_status: status,
+      });
+      if (error) throw error;
+
+      await loadUpcomingRooms();
+      return !!updated;
+    } catch (error: any) {
+      logger.error('[ScheduledRooms] Failed to RSVP:', error);
+      if (isMountedRef.current) setUpcomingRooms(previous);
+      Alert.alert('Error', 'Failed to update your RSVP');
+      return false;
+    }
+  };
+
+  const cancelSchedule = async (scheduleId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      const { error } = await supabase.rpc('cancel_room_schedule', { p_schedule_id: scheduleId });
+      if (error) throw error;
+
+      if (isMountedRef.current) {
+        setUpcomingRooms((rooms) => rooms.filter((r) => r.schedule_id !== scheduleId));
+      }
+      return true;
+    } catch (error: any) {
+      logger.error('[ScheduledRooms] Failed to cancel schedule:', error);
+      Alert.alert('Error', 'Failed to cancel scheduled room');
+      return false;
+    }
+  };
+
+  return {
+    upcomingRooms,
+    loading,
+    loadUpcomingRooms,
+    scheduleRoom,
+    rsvp,
+    cancelSchedule,
+  };
+};
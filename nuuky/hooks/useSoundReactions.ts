@@ -2,9 +2,9 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import * as Haptics from 'expo-haptics';
 import { logger } from '../lib/logger';
 import { playSound, preloadSounds, SOUND_METADATA } from '../lib/soundPlayer';
-import { sendRoomData, isConnected, getLocalParticipantId } from '../lib/livekit';
-import { SoundReactionType, SoundReactionPayload } from '../types';
-import type { RemoteParticipant } from 'livekit-client';
+import { isConnected } from '../lib/livekit';
+import { onRoomMessage, sendRoomMessage } from '../lib/roomMessages';
+import { SoundReactionType } from '../types';
 
 // Cooldown between sending reactions (milliseconds)
 const COOLDOWN_MS = 8000;
@@ -122,20 +122,11 @@ export const useSoundReactions = ({
       }
 
       try {
-        // Build the payload
-        const payload: SoundReactionPayload = {
-          type: 'sound_reaction',
+        const success = await sendRoomMessage('sound_reaction', {
           soundId,
-          senderId: currentUserId,
           senderName: currentUserName,
           senderAvatarUrl: currentUserAvatarUrl,
-          timestamp: now,
-        };
-
-        // Encode as JSON and send via data channel
-        const encoder = new TextEncoder();
-        const data = encoder.encode(JSON.stringify(payload));
-        const success = await sendRoomData(data);
+        });
 
         if (success) {
           // Start cooldown and track which sound was sent
@@ -162,51 +153,37 @@ export const useSoundReactions = ({
     [isGhostMode, isAudioConnected, currentUserId, currentUserName, currentUserAvatarUrl]
   );
 
-  // Handle incoming data from LiveKit
-  const handleDataReceived = useCallback(
-    (data: Uint8Array, participant: RemoteParticipant | undefined) => {
-      try {
-        const decoder = new TextDecoder();
-        const json = decoder.decode(data);
-        const payload = JSON.parse(json);
-
-        // Check if it's a sound reaction
-        if (payload.type !== 'sound_reaction') {
-          return;
-        }
-
-        const reactionPayload = payload as SoundReactionPayload;
+  // Incoming reactions arrive validated and rate limited by lib/roomMessages
+  useEffect(() => {
+    return onRoomMessage('sound_reaction', (message) => {
+      const { soundId, senderName, senderAvatarUrl } = message.payload;
 
-        // Don't process our own reactions (we already played locally)
-        if (reactionPayload.senderId === currentUserId) {
-          return;
-        }
+      // Don't process our own reactions (we already played locally)
+      if (message.senderId === currentUserId) {
+        return;
+      }
 
-        logger.log(`[SoundReactions] Received: ${reactionPayload.soundId} from ${reactionPayload.senderName}`);
+      logger.log(`[SoundReactions] Received: ${soundId} from ${senderName}`);
 
-        // Light haptic feedback on receive
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      // Light haptic feedback on receive
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-        // Play the sound
-        playSound(reactionPayload.soundId);
+      // Play the sound
+      playSound(soundId);
 
-        // Add to received reactions for toast display
-        const reaction: ReceivedReaction = {
-          id: `reaction-${reactionIdCounterRef.current++}`,
-          soundId: reactionPayload.soundId,
-          senderId: reactionPayload.senderId,
-          senderName: reactionPayload.senderName,
-          senderAvatarUrl: reactionPayload.senderAvatarUrl,
-          timestamp: Date.now(),
-        };
+      // Add to received reactions for toast display
+      const reaction: ReceivedReaction = {
+        id: `reaction-${reactionIdCounterRef.current++}`,
+        soundId,
+        senderId: message.senderId,
+        senderName,
+        senderAvatarUrl,
+        timestamp: Date.now(),
+      };
 
-        setReceivedReactions((prev) => [...prev, reaction]);
-      } catch (error) {
-        // Not a JSON message or not a sound reaction - ignore
-      }
-    },
-    [currentUserId]
-  );
+      setReceivedReactions((prev) => [...prev, reaction]);
+    });
+  }, [currentUserId]);
 
   // Dismiss a specific reaction toast
   const dismissReaction = useCallback((reactionId: string) => {
@@ -221,7 +198,6 @@ export const useSoundReactions = ({
 
   return {
     sendReaction,
-    handleDataReceived,
     canSend,
     cooldownRemaining,
     cooldownProgress,
@@ -4,9 +4,15 @@ import { Animated as RNAnimated, Easing } from "react-native";
 interface UseSpeakingAnimationsProps {
   isCurrentUserSpeaking: boolean;
   isMuted: boolean;
+  // Live meter level (0-1); without it the button pulses at a fixed size
+  audioLevel?: number;
 }
 
-export function useSpeakingAnimations({ isCurrentUserSpeaking, isMuted }: UseSpeakingAnimationsProps) {
+// How far the button grows and glows at full level
+const LEVEL_SCALE_RANGE = 0.15;
+const LEVEL_GLOW_RANGE = 0.8;
+
+export function useSpeakingAnimations({ isCurrentUserSpeaking, isMuted, audioLevel }: UseSpeakingAnimationsProps) {
   const buttonScaleAnim = useRef(new RNAnimated.Value(1)).current;
   const buttonGlowAnim = useRef(new RNAnimated.Value(1)).current;
   const ring1Anim = useRef(new RNAnimated.Value(0)).current;
@@ -15,8 +21,33 @@ export function useSpeakingAnimations({ isCurrentUserSpeaking, isMuted }: UseSpe
   const ring4Anim = useRef(new RNAnimated.Value(0)).current;
   const ringAnims = [ring1Anim, ring2Anim, ring3Anim, ring4Anim];
 
-  // Audio-reactive button pulsing
+  const followsLevel = audioLevel !== undefined;
+
+  // Button follows the real level while we talk
   useEffect(() => {
+    if (!followsLevel) return;
+    const level = !isMuted && isCurrentUserSpeaking ? Math.max(0, Math.min(1, audioLevel)) : 0;
+    const animation = RNAnimated.parallel([
+      RNAnimated.timing(buttonScaleAnim, {
+        toValue: 1 + level * LEVEL_SCALE_RANGE,
+        duration: 120,
+        easing: Easing.out(Easing.ease),
+        useNativeDriver: false,
+      }),
+      RNAnimated.timing(buttonGlowAnim, {
+        toValue: 1 + level * LEVEL_GLOW_RANGE,
+        duration: 120,
+        easing: Easing.out(Easing.ease),
+        useNativeDriver: false,
+      }),
+    ]);
+    animation.start();
+    return () => animation.stop();
+  }, [followsLevel, audioLevel, isMuted, isCurrentUserSpeaking]);
+
+  // Fixed pulse when no level is available
+  useEffect(() => {
+    if (followsLevel) return;
     if (!isMuted && isCurrentUserSpeaking) {
       const pulseAnimation = RNAnimated.loop(
         RNAnimated.sequence([
@@ -56,7 +87,7 @@ export function useSpeakingAnimations({ isCurrentUserSpeaking, isMuted }: UseSpe
       buttonScaleAnim.setValue(1);
       buttonGlowAnim.setValue(1);
     }
-  }, [isMuted, isCurrentUserSpeaking]);
+  }, [followsLevel, isMuted, isCurrentUserSpeaking]);
 
   // Animated rings
   useEffect(() => {
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from '../lib/logger';
+import { supabase } from '../lib/supabase';
+import { useAppStore } from '../stores/appStore';
+import { StreakEvent } from '../types';
+
+const HISTORY_LIMIT = 100;
+
+/**
+ * Streak timeline with one friend, newest first.
+ * Events are append-only and written server-side by the streak functions.
+ */
+export const useStreakHistory = (friendId: string | undefined) => {
+  const currentUser = useAppStore((s) => s.currentUser);
+  const [events, setEvents] = useState<StreakEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    const user = useAppStore.getState().currentUser;
+    if (!user || !friendId) {
+      setLoading(false);
+      return;
+    }
+
+    // Canonical order: smaller UUID = user1
+    const isUser1 = user.id < friendId;
+    const u1 = isUser1 ? user.id : friendId;
+    const u2 = isUser1 ? friendId : user.id;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('streak_events')
+        .select('*')
+        .eq('user1_id', u1)
+        .eq('user2_id', u2)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error: any) {
+      logger.error('Error loading streak history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [friendId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [currentUser?.id, loadHistory]);
+
+  return { events, loading, refreshHistory: loadHistory };
+};
@@ -1,41 +1,21 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { logger } from '../lib/logger';
 import { supabase } from '../lib/supabase';
 import { useAppStore } from '../stores/appStore';
 import { subscriptionManager } from '../lib/subscriptionManager';
-import { Streak, StreakState } from '../types';
-
-const ACTIVE_THRESHOLD_HOURS = 18;
-const FADING_THRESHOLD_HOURS = 36;
-
-function computeStreakState(
-  user1Last: string | null,
-  user2Last: string | null,
-): StreakState {
-  if (!user1Last || !user2Last) return 'broken';
-  const now = Date.now();
-  const h1 = (now - new Date(user1Last).getTime()) / (1000 * 60 * 60);
-  const h2 = (now - new Date(user2Last).getTime()) / (1000 * 60 * 60);
-  const worst = Math.max(h1, h2);
-  if (worst <= ACTIVE_THRESHOLD_HOURS) return 'active';
-  if (worst <= FADING_THRESHOLD_HOURS) return 'fading';
-  return 'broken';
-}
-
-function deriveStreak(row: any, myId: string): Streak {
-  const friendId = row.user1_id === myId ? row.user2_id : row.user1_id;
-  return {
-    ...row,
-    friend_id: friendId,
-    state: computeStreakState(row.user1_last_interaction, row.user2_last_interaction),
-  };
-}
-
-function sameUTCDay(a: Date, b: Date): boolean {
-  return (
-    a.getUTCFullYear() === b.getUTCFullYear() &&
-    a.getUTCMonth() === b.getUTCMonth() &&
-    a.getUTCDate() === b.getUTCDate()
-  );
+import { Streak } from '../types';
+
+/**
+ * Device timezone, sent with each interaction so the server evaluates
+ * streak days on the user's local calendar.
+ */
+function getDeviceTimezone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
 }
 
 const STREAK_REFRESH_THROTTLE_MS = 5000;
@@ -43,6 +23,7 @@ const STREAK_REFRESH_THROTTLE_MS = 5000;
 export const useStreaks = () => {
   const currentUser = useAppStore((s) => s.currentUser);
   const [streaks, setStreaks] = useState<Streak[]>([]);
+  const [freezeTokens, setFreezeTokens] = useState(0);
   const isMountedRef = useRef(true);
   const lastStreakRefreshRef = useRef(0);
 
@@ -64,15 +45,21 @@ export const useStreaks = () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('streaks')
-        .select('*')
-        .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`);
+      // State (active/fading/broken) is computed server-side on each user's local day
+      const [{ data, error }, { data: freezes }] = await Promise.all([
+        supabase.rpc('get_streaks'),
+        supabase
+          .from('streak_freezes')
+          .select('balance')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+      ]);
 
       if (error) throw error;
 
-      if (isMountedRef.current && data) {
-        setStreaks(data.map((s: any) => deriveStreak(s, user.id)));
+      if (isMountedRef.current) {
+        if (data) setStreaks(data as Streak[]);
+        setFreezeTokens(freezes?.balance ?? 0);
       }
     } catch (_error) {
       // Silently fail
@@ -137,64 +124,19 @@ export const useStreaks = () => {
     if (!user) return;
 
     try {
-      const now = new Date();
-
-      // Canonical order: smaller UUID = user1
-      const isUser1 = user.id < friendId;
-      const u1 = isUser1 ? user.id : friendId;
-      const u2 = isUser1 ? friendId : user.id;
-      const myCol = isUser1 ? 'user1_last_interaction' : 'user2_last_interaction';
-      const theirCol = isUser1 ? 'user2_last_interaction' : 'user1_last_interaction';
-
-      // Fetch existing streak
-      const { data: existing } = await supabase
-        .from('streaks')
-        .select('*')
-        .eq('user1_id', u1)
-        .eq('user2_id', u2)
-        .maybeSingle();
-
-      if (existing) {
-        const updates: Record<string, any> = { [myCol]: now.toISOString() };
-
-        const theirLast = existing[theirCol] ? new Date(existing[theirCol]) : null;
-        const myLast = existing[myCol] ? new Date(existing[myCol]) : null;
-
-        // Check if streak should reset (>36h since either user's last interaction)
-        const oldestLast = theirLast && myLast
-          ? new Date(Math.min(theirLast.getTime(), myLast.getTime()))
-          : null;
-        const hoursSinceOldest = oldestLast
-          ? (now.getTime() - oldestLast.getTime()) / (1000 * 60 * 60)
-          : Infinity;
-
-        if (hoursSinceOldest > FADING_THRESHOLD_HOURS) {
-          // Reset streak
-          updates.consecutive_days = 0;
-          updates.last_streak_at = null;
-        } else if (theirLast && sameUTCDay(theirLast, now)) {
-          // Both interacted today — check if we already incremented today
-          const lastStreak = existing.last_streak_at ? new Date(existing.last_streak_at) : null;
-          if (!lastStreak || !sameUTCDay(lastStreak, now)) {
-            updates.consecutive_days = existing.consecutive_days + 1;
-            updates.last_streak_at = now.toISOString();
-          }
-        }
-
-        await supabase
-          .from('streaks')
-          .update(updates)
-          .eq('id', existing.id);
-      } else {
-        // New streak row
-        await supabase
-          .from('streaks')
-          .insert({
-            user1_id: u1,
-            user2_id: u2,
-            consecutive_days: 0,
-            [myCol]: now.toISOString(),
-          });
+      // Atomic server-side update: row lock, local-day boundaries, freeze awards
+      const { data, error } = await supabase.rpc('record_streak_interaction', {
+        p_friend_id: friendId,
+        p_timezone: getDeviceTimezone(),
+      });
+
+      if (error) throw error;
+
+      // The server logged a milestone; the edge function notifies both friends once
+      if (data?.milestone && data.streak_id) {
+        supabase.functions
+          .invoke('send-streak-milestone-notification', { body: { streak_id: data.streak_id } })
+          .catch((notifError: any) => logger.error('Failed to send milestone notification:', notifError));
       }
 
       await loadStreaks();
@@ -203,7 +145,30 @@ export const useStreaks = () => {
     }
   }, []);
 
+  const spendStreakFreeze = useCallback(async (streakId: string): Promise<boolean> => {
+    const user = useAppStore.getState().currentUser;
+    if (!user) return false;
+
+    try {
+      const { data, error } = await supabase.rpc('use_streak_freeze', { p_streak_id: streakId });
+
+      if (error) throw error;
+
+      if (data && !data.success) {
+        Alert.alert('Streak Freeze', data.error || 'This streak cannot be frozen right now');
+        return false;
+      }
+
+      await loadStreaks();
+      return true;
+    } catch (error: any) {
+      logger.error('Error using streak freeze:', error);
+      Alert.alert('Error', 'Failed to use streak freeze');
+      return false;
+    }
+  }, []);
+
   const refreshStreaks = useCallback(() => { loadStreaks(); }, []);
 
-  return { streaks, recordInteraction, refreshStreaks };
+  return { streaks, freezeTokens, recordInteraction, spendStreakFreeze, refreshStreaks };
 };
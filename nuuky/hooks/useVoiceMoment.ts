@@ -259,7 +259,7 @@ export const useVoiceMoment = () => {
 
       const audioUrl = urlData.publicUrl;
 
-      const { data: voiceMoment, error } = await supabase
+      const { error } = await supabase
         .from('voice_moments')
         .insert({
           sender_id: currentUser.id,
@@ -267,9 +267,7 @@ export const useVoiceMoment = () => {
           audio_url: audioUrl,
           duration_ms: durationMs,
           caption: caption?.trim() || null,
-        })
-        .select()
-        .single();
+        });
 
       if (error) {
         logger.error('Voice moment insert error:', {
@@ -280,21 +278,7 @@ export const useVoiceMoment = () => {
         throw error;
       }
 
-      try {
-        const { error: notifError } = await supabase.functions.invoke('send-voice-moment-notification', {
-          body: {
-            receiver_id: receiverId,
-            sender_id: currentUser.id,
-            voice_moment_id: voiceMoment.id,
-            caption: caption?.trim() || null,
-          },
-        });
-        if (notifError) {
-          logger.error('Failed to send voice moment notification:', notifError);
-        }
-      } catch (notifError) {
-        logger.error('Failed to send voice moment notification:', notifError);
-      }
+      // The insert queues the push notification; dispatch-notifications delivers it
 
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
@@ -316,7 +300,7 @@ export const useVoiceMoment = () => {
         .from('voice_moments')
         .select(`
           *,
-          sender:users!voice_moments_sender_id_fkey(
+          sender:user_profiles!sender_id(
             id,
             display_name,
             avatar_url,
@@ -364,7 +348,7 @@ export const useVoiceMoment = () => {
         .from('voice_moments')
         .select(`
           *,
-          sender:users!voice_moments_sender_id_fkey(
+          sender:user_profiles!sender_id(
             id,
             display_name,
             avatar_url,
@@ -423,7 +407,7 @@ export const useVoiceMoment = () => {
     try {
       const { data: voiceMoment, error: fetchError } = await supabase
         .from('voice_moments')
-        .select('sender_id, reaction')
+        .select('reaction')
         .eq('id', voiceMomentId)
         .eq('receiver_id', currentUser.id)
         .single();
@@ -433,6 +417,7 @@ export const useVoiceMoment = () => {
       // Toggle: if same reaction, remove it; otherwise set new one
       const newReaction = voiceMoment.reaction === reaction ? null : reaction;
 
+      // Setting a reaction queues the push notification; dispatch-notifications delivers it
       const { error } = await supabase
         .from('voice_moments')
         .update({ reaction: newReaction })
@@ -441,25 +426,6 @@ export const useVoiceMoment = () => {
 
       if (error) throw error;
 
-      // Send notification when reacting (not when removing)
-      if (newReaction && voiceMoment.sender_id) {
-        try {
-          const { error: reactionNotifError } = await supabase.functions.invoke('send-voice-moment-reaction-notification', {
-            body: {
-              receiver_id: voiceMoment.sender_id,
-              sender_id: currentUser.id,
-              voice_moment_id: voiceMomentId,
-              reaction_type: newReaction,
-            },
-          });
-          if (reactionNotifError) {
-            logger.error('Failed to send voice moment reaction notification:', reactionNotifError);
-          }
-        } catch (notifError) {
-          logger.error('Failed to send voice moment reaction notification:', notifError);
-        }
-      }
-
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       return true;
     } catch (error: any) {
@@ -0,0 +1,50 @@
+import { AnchorCheckIn } from '../types';
+
+export const DEFAULT_ANCHOR_CHECKIN_HOURS = 48;
+
+// Choices offered in safety settings; the server accepts 12-168 hours
+export const ANCHOR_CHECKIN_OPTIONS = [24, 48, 72, 120];
+
+/**
+ * "1 day", "2 days", or "36 hours" for thresholds that aren't whole days
+ */
+export function formatCheckInHours(hours: number): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+  }
+  return `${hours} hours`;
+}
+
+/**
+ * Check-in the user still has to answer, if any. Escalated check-ins stay
+ * open until the user confirms, so their anchors learn they are okay.
+ */
+export function getOpenCheckIn(checkIns: AnchorCheckIn[]): AnchorCheckIn | undefined {
+  return checkIns.find((c) => c.status !== 'confirmed' && !c.confirmed_at);
+}
+
+/**
+ * One-line state of a check-in. Pass userName when describing someone
+ * else's check-in to an anchor; omit it for the user's own history.
+ */
+export function describeAnchorCheckIn(checkIn: AnchorCheckIn, userName?: string): string {
+  const who = userName ?? 'You';
+
+  if (checkIn.status === 'confirmed') {
+    return checkIn.escalated_at
+      ? `${who} checked in after anchors were alerted`
+      : `${who} checked in`;
+  }
+
+  if (checkIn.status === 'pending') {
+    return userName ? `Waiting for ${userName} to check in` : 'Waiting for you to check in';
+  }
+
+  const followingUp = (checkIn.acks || [])
+    .map((ack) => ack.anchor?.display_name)
+    .filter((name): name is string => !!name);
+
+  if (followingUp.length === 0) return 'Anchors alerted · nobody is following up yet';
+  return `Anchors alerted · ${followingUp.join(' and ')} ${followingUp.length === 1 ? 'is' : 'are'} following up`;
+}
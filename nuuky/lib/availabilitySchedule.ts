@@ -0,0 +1,108 @@
+import { AvailabilityMode, AvailabilitySchedule, User } from '../types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Parse "HH:MM" or "HH:MM:SS" into minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Weekday (0 = Sunday) and minutes since midnight of `at` in the given timezone
+ */
+function getLocalTime(at: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    day: WEEKDAYS.indexOf(get('weekday')),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+/**
+ * Whether a schedule window covers `at`.
+ * Mirrors is_schedule_active() in the availability_schedules migration.
+ */
+export function isScheduleActive(schedule: AvailabilitySchedule, at: Date = new Date()): boolean {
+  if (!schedule.is_enabled) return false;
+
+  const { day, minutes } = getLocalTime(at, schedule.timezone);
+  const start = toMinutes(schedule.start_time);
+  const end = toMinutes(schedule.end_time);
+  const previousDay = (day + 6) % 7;
+
+  if (start === end) {
+    return schedule.days.includes(day);
+  }
+
+  if (start < end) {
+    return schedule.days.includes(day) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: started today, or started yesterday and still running
+  return (schedule.days.includes(day) && minutes >= start)
+    || (schedule.days.includes(previousDay) && minutes < end);
+}
+
+/**
+ * Resolve the effective availability mode from the one-shot timers and
+ * recurring schedules. Break wins over ghost since it is the stricter mode.
+ */
+export function getActiveAvailabilityMode(
+  user: Pick<User, 'ghost_mode_until' | 'take_break_until'> | null,
+  schedules: AvailabilitySchedule[],
+  at: Date = new Date()
+): AvailabilityMode | null {
+  const active = schedules.filter((s) => isScheduleActive(s, at));
+
+  if (
+    (user?.take_break_until && new Date(user.take_break_until) > at) ||
+    active.some((s) => s.kind === 'break')
+  ) {
+    return 'break';
+  }
+
+  if (
+    (user?.ghost_mode_until && new Date(user.ghost_mode_until) > at) ||
+    active.some((s) => s.kind === 'ghost')
+  ) {
+    return 'ghost';
+  }
+
+  return null;
+}
+
+/**
+ * Label for a set of weekdays, e.g. "Weekdays" or "Tue, Thu"
+ */
+export function formatScheduleDays(scheduleDays: number[]): string {
+  const days = [...scheduleDays].sort((a, b) => a - b);
+  const key = days.join(',');
+
+  if (key === '0,1,2,3,4,5,6') return 'Every day';
+  if (key === '1,2,3,4,5') return 'Weekdays';
+  if (key === '0,6') return 'Weekends';
+  return days.map((d) => WEEKDAYS[d]).join(', ');
+}
+
+/**
+ * Human-readable summary, e.g. "Weekdays · 23:00–07:00"
+ */
+export function formatScheduleWindow(schedule: Pick<AvailabilitySchedule, 'days' | 'start_time' | 'end_time'>): string {
+  const dayLabel = formatScheduleDays(schedule.days);
+  const start = schedule.start_time.slice(0, 5);
+  const end = schedule.end_time.slice(0, 5);
+
+  return start === end ? `${dayLabel} · All day` : `${dayLabel} · ${start}–${end}`;
+}
@@ -0,0 +1,35 @@
+import { Flare } from '../types';
+
+export const DEFAULT_FLARE_WIDEN_AFTER_MINUTES = 2;
+export const DEFAULT_FLARE_ANCHORS_AFTER_MINUTES = 5;
+
+// Choices offered in settings; the server enforces widen < anchors
+export const FLARE_WIDEN_OPTIONS = [1, 2, 5, 10];
+export const FLARE_ANCHORS_OPTIONS = [3, 5, 10, 15, 30];
+
+const TIER_LABELS = ['', 'your favorites', 'all your friends', 'your anchors'];
+
+/**
+ * Human-readable escalation state of the user's own flare, e.g.
+ * "Your favorites have been notified. All your friends in 2 min if nobody responds."
+ */
+export function describeFlareEscalation(flare: Flare, at: Date = new Date()): string {
+  const level = flare.escalation_level ?? 0;
+  if (level === 0) return 'Sending your flare.';
+
+  const reached = `${capitalize(TIER_LABELS[level])} have been notified.`;
+  if (flare.responded_by || level >= 3) return reached;
+
+  const delay = level === 1
+    ? flare.widen_after_minutes ?? DEFAULT_FLARE_WIDEN_AFTER_MINUTES
+    : flare.anchors_after_minutes ?? DEFAULT_FLARE_ANCHORS_AFTER_MINUTES;
+  const dueAt = new Date(flare.created_at).getTime() + delay * 60000;
+  const minutes = Math.max(1, Math.ceil((dueAt - at.getTime()) / 60000));
+  const next = level === 1 ? TIER_LABELS[2] : TIER_LABELS[3];
+
+  return `${reached} ${capitalize(next)} in ${minutes} min if nobody responds.`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
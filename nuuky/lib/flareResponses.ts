@@ -0,0 +1,19 @@
+import { FlareResponseStatus } from '../types';
+
+export interface FlareResponseOption {
+  status: FlareResponseStatus;
+  label: string;
+  icon: string;
+  color: string;
+}
+
+// Order shown when responding; the owner sees the same labels
+export const FLARE_RESPONSE_OPTIONS: FlareResponseOption[] = [
+  { status: 'here', label: "I'm here", icon: 'heart', color: '#EC4899' },
+  { status: 'calling', label: 'Calling you', icon: 'call', color: '#22C55E' },
+  { status: 'on_my_way', label: 'On my way', icon: 'walk', color: '#3B82F6' },
+  { status: 'cant', label: "Can't right now", icon: 'time-outline', color: '#9CA3AF' },
+];
+
+export const getFlareResponseOption = (status: FlareResponseStatus): FlareResponseOption =>
+  FLARE_RESPONSE_OPTIONS.find((o) => o.status === status) ?? FLARE_RESPONSE_OPTIONS[0];
@@ -0,0 +1,103 @@
+import { FocusPhase, FocusSession } from '../types';
+
+/**
+ * Focus sessions run on a schedule fixed at start: work and break blocks
+ * alternate from started_at, with no break after the last round. Every
+ * client derives the same phase from the session row, so the timer stays
+ * in sync without any messages.
+ */
+
+export interface FocusConfig {
+  workMinutes: number;
+  breakMinutes: number;
+  rounds: number;
+}
+
+// Mirrors the checks on focus_sessions
+export const FOCUS_LIMITS = {
+  workMinutes: { min: 5, max: 120 },
+  breakMinutes: { min: 1, max: 60 },
+  rounds: { min: 1, max: 12 },
+} as const;
+
+export const FOCUS_PRESETS: (FocusConfig & { label: string })[] = [
+  { label: 'Classic', workMinutes: 25, breakMinutes: 5, rounds: 4 },
+  { label: 'Deep work', workMinutes: 50, breakMinutes: 10, rounds: 2 },
+  { label: 'Quick', workMinutes: 15, breakMinutes: 3, rounds: 3 },
+];
+
+export const FOCUS_INTENTION_MAX_LENGTH = 140;
+
+export interface FocusState {
+  phase: FocusPhase;
+  round: number; // 1-based; the round a break leads into counts as the next one
+  remainingMs: number; // Until the current phase ends (0 when done)
+  phaseEndsAt: number | null;
+}
+
+const MINUTE = 60 * 1000;
+
+export function clampFocusConfig(config: FocusConfig): FocusConfig {
+  const clamp = (value: number, { min, max }: { min: number; max: number }) =>
+    Math.min(max, Math.max(min, Math.round(value)));
+
+  return {
+    workMinutes: clamp(config.workMinutes, FOCUS_LIMITS.workMinutes),
+    breakMinutes: clamp(config.breakMinutes, FOCUS_LIMITS.breakMinutes),
+    rounds: clamp(config.rounds, FOCUS_LIMITS.rounds),
+  };
+}
+
+export function getFocusSessionEnd(session: FocusSession): number {
+  const { work_minutes, break_minutes, rounds } = session;
+  return (
+    new Date(session.started_at).getTime() +
+    (rounds * work_minutes + (rounds - 1) * break_minutes) * MINUTE
+  );
+}
+
+export function getFocusState(session: FocusSession, now: number): FocusState {
+  const done: FocusState = { phase: 'done', round: session.rounds, remainingMs: 0, phaseEndsAt: null };
+  if (session.ended_at || now >= getFocusSessionEnd(session)) return done;
+
+  const startedAt = new Date(session.started_at).getTime();
+  const workMs = session.work_minutes * MINUTE;
+  const cycleMs = workMs + session.break_minutes * MINUTE;
+  const elapsed = Math.max(0, now - startedAt);
+
+  const cycle = Math.floor(elapsed / cycleMs);
+  const intoCycle = elapsed - cycle * cycleMs;
+  const cycleStart = startedAt + cycle * cycleMs;
+
+  if (intoCycle < workMs) {
+    return { phase: 'work', round: cycle + 1, remainingMs: workMs - intoCycle, phaseEndsAt: cycleStart + workMs };
+  }
+  return { phase: 'break', round: cycle + 2, remainingMs: cycleMs - intoCycle, phaseEndsAt: cycleStart + cycleMs };
+}
+
+export function formatFocusCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+export function describeFocusState(state: FocusState, rounds: number): string {
+  switch (state.phase) {
+    case 'work':
+      return `Focus · round ${state.round} of ${rounds}`;
+    case 'break':
+      return `Break · round ${state.round} next`;
+    default:
+      return 'Session complete';
+  }
+}
+
+export function formatFocusMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
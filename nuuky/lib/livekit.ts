@@ -10,10 +10,20 @@ import {
   LocalParticipant,
   Participant,
   DataPacket_Kind,
+  DisconnectReason,
+  RemoteTrackPublication,
 } from 'livekit-client';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import { supabase } from './supabase';
 import Constants from 'expo-constants';
-import { LiveKitTokenResponse } from '../types';
+import {
+  AudioReconnectEvent,
+  AudioReconnectTrigger,
+  LiveKitTokenResponse,
+  ParticipantAudioPreference,
+  ParticipantAudioState,
+} from '../types';
+import { getPlaybackVolume } from './participantAudio';
 
 // Initialize LiveKit WebRTC globals - call this once at app startup
 let globalsRegistered = false;
@@ -45,6 +55,10 @@ let tokenExpiryTime: number = 0;
 let cachedRoomId: string | null = null;
 let cachedUserId: string | null = null;
 const TOKEN_CACHE_TTL = 3600000; // 1 hour in milliseconds
+// Fetch the next token this long before the cached one expires, so a
+// reconnect never has to wait on (or fail at) the token request
+const TOKEN_REFRESH_LEAD = 5 * 60 * 1000;
+const TOKEN_REFRESH_RETRY_DELAY = 30000;
 
 // Helper to invalidate token cache
 export const invalidateTokenCache = () => {
@@ -58,13 +72,19 @@ export const invalidateTokenCache = () => {
 type AudioEventCallbacks = {
   onConnectionStatusChange: (status: string) => void;
   onParticipantSpeaking: (participantId: string, isSpeaking: boolean) => void;
+  // Everyone's level with each speaker update, for meters and animations
+  onAudioLevels?: (states: ParticipantAudioState[]) => void;
   onError: (error: string) => void;
   onDataReceived?: (data: Uint8Array, participant: RemoteParticipant | undefined) => void;
+  // A moderator muted us or revoked our publish permission
+  onMicDisabledByServer?: () => void;
+  // The connection supervisor recorded a reconnect attempt
+  onReconnectHistoryChange?: (history: AudioReconnectEvent[]) => void;
 };
 
 let eventCallbacks: AudioEventCallbacks | null = null;
 
-export const setAudioEventCallbacks = (callbacks: AudioEventCallbacks) => {
+export const setAudioEventCallbacks = (callbacks: AudioEventCallbacks | null) => {
   eventCallbacks = callbacks;
 };
 
@@ -93,9 +113,11 @@ const configureAudioFocus = async (micEnabled: boolean): Promise<void> => {
 // In-flight token request deduplication
 const inFlightTokenRequests = new Map<string, Promise<LiveKitTokenResponse | null>>();
 
-// Request token from Edge Function
+// Request token from Edge Function. Background refreshes and reconnect
+// attempts pass reportErrors = false; the supervisor reports if it gives up.
 export const requestLiveKitToken = async (
-  roomId: string
+  roomId: string,
+  reportErrors: boolean = true
 ): Promise<LiveKitTokenResponse | null> => {
   // Reuse in-flight request for same roomId to avoid parallel duplicate calls
   const existing = inFlightTokenRequests.get(roomId);
@@ -141,10 +163,16 @@ export const requestLiveKitToken = async (
       cachedUserId = session.user.id;
       tokenExpiryTime = now + TOKEN_CACHE_TTL;
 
+      if (roomId === supervisedRoomId) {
+        scheduleTokenRefresh();
+      }
+
       return data;
     } catch (error) {
       logger.error('[LiveKit] Failed to get token:', error);
-      eventCallbacks?.onError('Failed to get audio token');
+      if (reportErrors) {
+        eventCallbacks?.onError('Failed to get audio token');
+      }
       return null;
     } finally {
       inFlightTokenRequests.delete(roomId);
@@ -155,10 +183,15 @@ export const requestLiveKitToken = async (
   return promise;
 };
 
-// Connect to LiveKit room
-export const connectToAudioRoom = async (roomId: string, enableMic: boolean = true): Promise<boolean> => {
-  const myGeneration = ++connectionGeneration;
-
+// Open a LiveKit connection for the room. Shared by the initial connect and
+// the supervisor's reconnects; a reconnect reports 'reconnecting' instead of
+// 'connecting' and leaves error reporting to the supervisor.
+const openRoom = async (
+  roomId: string,
+  enableMic: boolean,
+  myGeneration: number,
+  isReconnect: boolean
+): Promise<boolean> => {
   try {
     // Lazily initialize WebRTC globals on first connection
     initializeLiveKit();
@@ -166,14 +199,15 @@ export const connectToAudioRoom = async (roomId: string, enableMic: boolean = tr
     // IMPORTANT: properly await old room disconnect to prevent orphaned PeerConnections.
     // Fire-and-forget disconnect leaks WebRTC resources that accumulate per room switch.
     if (currentRoom) {
-      try { await currentRoom.disconnect(); } catch {}
-      currentRoom = null;
+      const oldRoom = currentRoom;
+      currentRoom = null; // its Disconnected event is no longer ours to act on
+      try { await oldRoom.disconnect(); } catch {}
     }
 
     // Bail if stale after awaiting disconnect
     if (connectionGeneration !== myGeneration) return false;
 
-    eventCallbacks?.onConnectionStatusChange('connecting');
+    eventCallbacks?.onConnectionStatusChange(isReconnect ? 'reconnecting' : 'connecting');
 
     // Configure audio focus based on whether mic will be enabled
     // Mic off = duck other apps, Mic on = full focus
@@ -182,18 +216,20 @@ export const connectToAudioRoom = async (roomId: string, enableMic: boolean = tr
     // OPTIMIZATION: Run audio session and token request in parallel
     const [, tokenData] = await Promise.all([
       AudioSession.startAudioSession(),
-      requestLiveKitToken(roomId),
+      requestLiveKitToken(roomId, !isReconnect),
     ]);
 
     // Bail if a newer connect/disconnect started while we were awaiting
     if (connectionGeneration !== myGeneration) return false;
 
     if (!tokenData) {
-      eventCallbacks?.onConnectionStatusChange('error');
+      if (!isReconnect) {
+        eventCallbacks?.onConnectionStatusChange('error');
+      }
       return false;
     }
 
-    currentRoom = new Room({
+    const room = new Room({
       adaptiveStream: true,
       dynacast: true,
       audioCaptureDefaults: {
@@ -203,24 +239,49 @@ export const connectToAudioRoom = async (roomId: string, enableMic: boolean = tr
       },
       autoSubscribe: true,
     });
-    setupRoomEventListeners(currentRoom);
+    currentRoom = room;
+    setupRoomEventListeners(room);
 
-    await currentRoom.connect(tokenData.serverUrl, tokenData.token);
+    await room.connect(tokenData.serverUrl, tokenData.token);
 
     // Bail if stale — a newer switch happened during WebRTC handshake.
     // Disconnect the room we just created to avoid zombie connections.
     if (connectionGeneration !== myGeneration) {
-      try { await currentRoom.disconnect(); } catch {}
+      if (currentRoom === room) currentRoom = null;
+      try { await room.disconnect(); } catch {}
       return false;
     }
 
     eventCallbacks?.onConnectionStatusChange('connected');
-    await currentRoom.localParticipant.setMicrophoneEnabled(enableMic);
+
+    if (isReconnect) {
+      restoreSubscriptions(room);
+      try {
+        await room.localParticipant.setMicrophoneEnabled(enableMic);
+        if (enableMic) await applyMicGate(room);
+      } catch (error) {
+        // Our grants may have changed while we were away (e.g. now a listener)
+        logger.warn('[LiveKit] Could not restore microphone after reconnect:', error);
+        desiredMicEnabled = false;
+      }
+    } else {
+      await room.localParticipant.setMicrophoneEnabled(enableMic);
+      try {
+        if (enableMic) await applyMicGate(room);
+      } catch (error) {
+        // A gate that couldn't close would leave us sending while the user
+        // thinks they're gated, so turn the mic back off instead
+        logger.warn('[LiveKit] Could not apply mic gate after connecting:', error);
+        desiredMicEnabled = false;
+        await room.localParticipant.setMicrophoneEnabled(false).catch(() => {});
+        eventCallbacks?.onError('Could not turn on your microphone');
+      }
+    }
 
     return true;
   } catch (error) {
     logger.error('[LiveKit] Failed to connect:', error);
-    if (connectionGeneration === myGeneration) {
+    if (connectionGeneration === myGeneration && !isReconnect) {
       eventCallbacks?.onConnectionStatusChange('error');
       eventCallbacks?.onError('Failed to connect to audio');
     }
@@ -228,19 +289,266 @@ export const connectToAudioRoom = async (roomId: string, enableMic: boolean = tr
   }
 };
 
+// Connect to LiveKit room. The connection is supervised until
+// disconnectFromAudioRoom: it is rebuilt after drops and network handovers.
+export const connectToAudioRoom = async (roomId: string, enableMic: boolean = true): Promise<boolean> => {
+  const myGeneration = ++connectionGeneration;
+
+  startSupervising(roomId, enableMic);
+  const success = await openRoom(roomId, enableMic, myGeneration, false);
+
+  // A failed first connect is reported to the user rather than retried
+  if (!success && connectionGeneration === myGeneration) {
+    stopSupervising();
+  }
+
+  return success;
+};
+
 // Disconnect from LiveKit room
 export const disconnectFromAudioRoom = async (): Promise<void> => {
   ++connectionGeneration; // invalidate any in-flight connect
+  stopSupervising();
 
   if (currentRoom) {
-    try { await currentRoom.disconnect(); } catch {}
+    const room = currentRoom;
     currentRoom = null;
+    try { await room.disconnect(); } catch {}
   }
 
   await AudioSession.stopAudioSession();
   eventCallbacks?.onConnectionStatusChange('disconnected');
 };
 
+// ============================================
+// Connection supervisor
+// ============================================
+//
+// LiveKit resumes short signal/media interruptions by itself. When it gives
+// up (RoomEvent.Disconnected for anything other than a deliberate leave,
+// kick or room deletion), or the device switches networks, the supervisor
+// opens a fresh connection with exponential backoff and puts the mic and
+// track subscriptions back the way they were.
+
+export const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+const RECONNECT_HISTORY_LIMIT = 10;
+
+let supervisedRoomId: string | null = null;
+// What the user last asked for, restored after a reconnect
+let desiredMicEnabled = false;
+let reconnectAttempt = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectInProgress = false;
+// Set while offline: reconnect once the network is back
+let pendingReconnectTrigger: AudioReconnectTrigger | null = null;
+let tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+let networkUnsubscribe: (() => void) | null = null;
+let lastNetwork: { type: string; isConnected: boolean } | null = null;
+// `${identity}:${source}` -> whether we were subscribed to that track
+let subscriptionPreferences = new Map<string, boolean>();
+let reconnectHistory: AudioReconnectEvent[] = [];
+
+// Delay before the given (0-based) reconnect attempt, without jitter
+export const getReconnectDelay = (attempt: number): number =>
+  Math.min(RECONNECT_BASE_DELAY * Math.pow(2, attempt), RECONNECT_MAX_DELAY);
+
+export const getReconnectHistory = (): AudioReconnectEvent[] => reconnectHistory;
+
+const recordReconnect = (event: AudioReconnectEvent) => {
+  reconnectHistory = [...reconnectHistory, event].slice(-RECONNECT_HISTORY_LIMIT);
+  eventCallbacks?.onReconnectHistoryChange?.(reconnectHistory);
+};
+
+const clearReconnectTimer = () => {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+};
+
+const clearTokenRefresh = () => {
+  if (tokenRefreshTimer) {
+    clearTimeout(tokenRefreshTimer);
+    tokenRefreshTimer = null;
+  }
+};
+
+const startSupervising = (roomId: string, enableMic: boolean) => {
+  if (supervisedRoomId !== roomId) {
+    subscriptionPreferences = new Map();
+    reconnectHistory = [];
+    eventCallbacks?.onReconnectHistoryChange?.(reconnectHistory);
+  }
+
+  supervisedRoomId = roomId;
+  desiredMicEnabled = enableMic;
+  reconnectAttempt = 0;
+  reconnectInProgress = false;
+  pendingReconnectTrigger = null;
+  clearReconnectTimer();
+
+  if (!networkUnsubscribe) {
+    lastNetwork = null;
+    networkUnsubscribe = NetInfo.addEventListener(handleNetworkChange);
+  }
+};
+
+const stopSupervising = () => {
+  supervisedRoomId = null;
+  reconnectAttempt = 0;
+  reconnectInProgress = false;
+  pendingReconnectTrigger = null;
+  clearReconnectTimer();
+  clearTokenRefresh();
+  networkUnsubscribe?.();
+  networkUnsubscribe = null;
+  lastNetwork = null;
+};
+
+const scheduleTokenRefresh = (delay?: number) => {
+  clearTokenRefresh();
+  const wait = delay ?? Math.max(tokenExpiryTime - TOKEN_REFRESH_LEAD - Date.now(), 0);
+
+  tokenRefreshTimer = setTimeout(async () => {
+    tokenRefreshTimer = null;
+    const roomId = supervisedRoomId;
+    if (!roomId) return;
+
+    invalidateTokenCache();
+    const token = await requestLiveKitToken(roomId, false);
+    if (!token && supervisedRoomId === roomId) {
+      scheduleTokenRefresh(TOKEN_REFRESH_RETRY_DELAY);
+    }
+  }, wait);
+};
+
+const scheduleReconnect = (trigger: AudioReconnectTrigger) => {
+  if (!supervisedRoomId || reconnectTimer || reconnectInProgress) return;
+
+  eventCallbacks?.onConnectionStatusChange('reconnecting');
+
+  // No point dialing out while offline; the network listener resumes us
+  if (lastNetwork && !lastNetwork.isConnected) {
+    pendingReconnectTrigger = trigger;
+    return;
+  }
+
+  const delay = getReconnectDelay(reconnectAttempt);
+  const jitter = Math.random() * 0.2 * delay; // Add 0-20% jitter on top of delay
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    runReconnect(trigger);
+  }, delay + jitter);
+};
+
+const runReconnect = async (trigger: AudioReconnectTrigger) => {
+  const roomId = supervisedRoomId;
+  if (!roomId) return;
+
+  reconnectInProgress = true;
+  reconnectAttempt++;
+  const attempt = reconnectAttempt;
+  const startedAt = Date.now();
+  const myGeneration = ++connectionGeneration;
+
+  const success = await openRoom(roomId, desiredMicEnabled, myGeneration, true);
+
+  // Superseded by a newer connect or a disconnect
+  if (connectionGeneration !== myGeneration || supervisedRoomId !== roomId) return;
+  reconnectInProgress = false;
+
+  const gaveUp = !success && attempt >= MAX_RECONNECT_ATTEMPTS;
+  recordReconnect({
+    trigger,
+    attempt,
+    succeeded: success,
+    at: Date.now(),
+    durationMs: Date.now() - startedAt,
+    ...(gaveUp ? { gaveUp: true } : {}),
+  });
+
+  if (success) {
+    logger.log(`[LiveKit] Reconnected after ${attempt} attempt(s) (${trigger})`);
+    reconnectAttempt = 0;
+  } else if (gaveUp) {
+    logger.error(`[LiveKit] Giving up after ${attempt} reconnect attempts`);
+    // Stay subscribed to network changes: a handover may still bring us back
+    eventCallbacks?.onConnectionStatusChange('error');
+    eventCallbacks?.onError('Lost connection to audio');
+  } else {
+    scheduleReconnect(trigger);
+  }
+};
+
+const handleNetworkChange = (state: NetInfoState) => {
+  const next = { type: state.type, isConnected: state.isConnected ?? false };
+  const previous = lastNetwork;
+  lastNetwork = next;
+
+  // NetInfo reports the current state on subscribe; nothing changed yet
+  if (!previous || !supervisedRoomId) return;
+
+  if (!next.isConnected) {
+    // Hold off until we're back online
+    if (reconnectTimer) {
+      clearReconnectTimer();
+      pendingReconnectTrigger = pendingReconnectTrigger ?? 'network_change';
+    }
+    return;
+  }
+
+  const cameBack = !previous.isConnected;
+  const handedOver = previous.type !== next.type;
+  if (!cameBack && !handedOver) return;
+
+  // A handover leaves the old transport pointing at an address we no longer
+  // have; rebuild now instead of waiting for LiveKit's ping timeout.
+  logger.log(`[LiveKit] Network changed (${previous.type} -> ${next.type}), reconnecting`);
+  const trigger = pendingReconnectTrigger ?? 'network_change';
+  pendingReconnectTrigger = null;
+  reconnectAttempt = 0;
+  clearReconnectTimer();
+  scheduleReconnect(trigger);
+};
+
+// ============================================
+// Per-participant playback
+// ============================================
+//
+// Volume and "mute for me" only change what we hear, so they live here
+// rather than on the server. Keyed by identity (the user id); kept across
+// connections and re-applied whenever someone's audio track arrives.
+
+let participantAudioPreferences: Record<string, ParticipantAudioPreference> = {};
+
+const applyParticipantVolume = (participant: RemoteParticipant) => {
+  participant.setVolume(getPlaybackVolume(participantAudioPreferences[participant.identity]));
+};
+
+export const setParticipantAudioPreferences = (
+  preferences: Record<string, ParticipantAudioPreference>
+) => {
+  participantAudioPreferences = preferences;
+  currentRoom?.remoteParticipants.forEach(applyParticipantVolume);
+};
+
+const subscriptionKey = (identity: string, publication: RemoteTrackPublication) =>
+  `${identity}:${publication.source}`;
+
+// Re-apply what we were subscribed to before the connection was rebuilt
+const restoreSubscriptions = (room: Room) => {
+  room.remoteParticipants.forEach((participant) => {
+    participant.trackPublications.forEach((publication) => {
+      const wanted = subscriptionPreferences.get(subscriptionKey(participant.identity, publication));
+      if (wanted !== undefined && publication.isSubscribed !== wanted) {
+        publication.setSubscribed(wanted);
+      }
+    });
+  });
+};
+
 // Toggle local microphone
 export const setLocalMicrophoneEnabled = async (
   enabled: boolean
@@ -253,7 +561,80 @@ export const setLocalMicrophoneEnabled = async (
   // Reconfigure audio focus: full focus when talking, duck when just listening
   await configureAudioFocus(enabled);
 
-  await currentRoom.localParticipant.setMicrophoneEnabled(enabled);
+  localMicChangeInProgress = true;
+  try {
+    await currentRoom.localParticipant.setMicrophoneEnabled(enabled);
+    desiredMicEnabled = enabled;
+  } finally {
+    localMicChangeInProgress = false;
+  }
+
+  if (enabled) await applyMicGate(currentRoom);
+};
+
+// ============================================
+// Mic gating (push-to-talk, voice activity)
+// ============================================
+//
+// Gated modes publish the mic once (setLocalMicrophoneEnabled, which also
+// takes full audio focus) and from then on only mute and unmute the track.
+// That is instant, never re-publishes, and leaves audio focus alone, so a
+// press of the talk button doesn't wait on the audio session.
+
+let micGated = false;
+let micGateOpen = false;
+
+// Mute or unmute the published mic to match the gate
+const applyMicGate = async (room: Room): Promise<void> => {
+  const track = room.localParticipant.getTrackPublication(Track.Source.Microphone)?.track;
+  if (!track || !desiredMicEnabled) return;
+
+  const shouldSend = !micGated || micGateOpen;
+  if (track.isMuted !== shouldSend) return;
+
+  localMicChangeInProgress = true;
+  try {
+    if (shouldSend) {
+      await track.unmute();
+    } else {
+      await track.mute();
+    }
+  } finally {
+    localMicChangeInProgress = false;
+  }
+};
+
+// Switch between a plain toggle and a gated mode; a gated mic starts closed
+export const setMicGating = async (gated: boolean): Promise<void> => {
+  micGated = gated;
+  micGateOpen = false;
+  if (currentRoom) await applyMicGate(currentRoom);
+};
+
+export const setMicGateOpen = async (open: boolean): Promise<void> => {
+  micGateOpen = open;
+  if (currentRoom) await applyMicGate(currentRoom);
+};
+
+// Our own mic level (0-1, linear) from the sender stats. Unlike the
+// server's speaker updates it keeps reporting while the gate is closed,
+// which is what voice activity listens to.
+export const getLocalMicLevel = async (): Promise<number | null> => {
+  const track = currentRoom?.localParticipant?.getTrackPublication(Track.Source.Microphone)?.track;
+  if (!track) return null;
+
+  try {
+    const report = await track.getRTCStatsReport();
+    let level: number | null = null;
+    report?.forEach((stat: any) => {
+      if (stat.type === 'media-source' && stat.kind === 'audio' && typeof stat.audioLevel === 'number') {
+        level = stat.audioLevel;
+      }
+    });
+    return level;
+  } catch {
+    return null;
+  }
 };
 
 // Check if anyone is unmuted
@@ -275,9 +656,17 @@ export const isAnyoneUnmuted = (): boolean => {
   return false;
 };
 
+// Set while we toggle our own mic, so TrackMuted can tell a moderator mute apart
+let localMicChangeInProgress = false;
+
 // Set up room event listeners
 const setupRoomEventListeners = (room: Room) => {
   room.on(RoomEvent.ConnectionStateChanged, (state: ConnectionState) => {
+    if (room !== currentRoom) return;
+    // Disconnected is handled below, where the supervisor may take over
+    if (state === ConnectionState.Disconnected) return;
+    if (state === ConnectionState.Connecting && reconnectInProgress) return;
+
     const statusMap: Record<ConnectionState, string> = {
       [ConnectionState.Disconnected]: 'disconnected',
       [ConnectionState.Connecting]: 'connecting',
@@ -296,6 +685,23 @@ const setupRoomEventListeners = (room: Room) => {
       // Notify about all current speakers
       const speakerIds = new Set(speakers.map((s) => s.identity));
 
+      // Levels ride along with every speaker update from the server
+      if (eventCallbacks?.onAudioLevels) {
+        const describe = (participant: Participant): ParticipantAudioState => {
+          const isSpeaking = speakerIds.has(participant.identity);
+          return {
+            participantId: participant.identity,
+            isSpeaking,
+            audioLevel: isSpeaking ? participant.audioLevel : 0,
+            isMuted: !participant.isMicrophoneEnabled,
+            hasAudioTrack: !!participant.getTrackPublication(Track.Source.Microphone),
+          };
+        };
+        const states = Array.from(room.remoteParticipants.values()).map(describe);
+        if (room.localParticipant) states.push(describe(room.localParticipant));
+        eventCallbacks.onAudioLevels(states);
+      }
+
       // Update speaking state for all remote participants
       room.remoteParticipants.forEach((participant) => {
         const isSpeaking = speakerIds.has(participant.identity);
@@ -331,15 +737,79 @@ const setupRoomEventListeners = (room: Room) => {
   room.on(RoomEvent.TrackSubscribed, (track, publication, participant) => {
     if (track.kind === Track.Kind.Audio) {
       logger.log(`[LiveKit] Audio track subscribed from ${participant.identity}`);
+      applyParticipantVolume(participant);
       // Audio tracks should play automatically, but we log for debugging
       // If issues persist, we may need to explicitly call track.attach() here
     }
   });
 
-  room.on(RoomEvent.Disconnected, () => {
+  room.on(RoomEvent.Disconnected, (reason?: DisconnectReason) => {
+    // Replaced by a newer connection, or we disconnected on purpose
+    if (room !== currentRoom) return;
+
+    // Leaving, being removed or the room closing are final
+    const isFinal =
+      reason === DisconnectReason.CLIENT_INITIATED ||
+      reason === DisconnectReason.PARTICIPANT_REMOVED ||
+      reason === DisconnectReason.ROOM_DELETED ||
+      reason === DisconnectReason.DUPLICATE_IDENTITY;
+
+    if (supervisedRoomId && !isFinal) {
+      logger.log(`[LiveKit] Connection lost (reason ${reason}), reconnecting`);
+      scheduleReconnect('disconnected');
+      return;
+    }
+
+    stopSupervising();
     eventCallbacks?.onConnectionStatusChange('disconnected');
   });
 
+  // Remember subscriptions so a rebuilt connection can restore them
+  room.on(RoomEvent.TrackSubscribed, (_track, publication, participant) => {
+    subscriptionPreferences.set(subscriptionKey(participant.identity, publication), true);
+  });
+
+  room.on(RoomEvent.TrackUnsubscribed, (_track, publication, participant) => {
+    // Only a deliberate unsubscribe; tracks also go away when people leave
+    if (room.state === ConnectionState.Connected && !publication.isDesired) {
+      subscriptionPreferences.set(subscriptionKey(participant.identity, publication), false);
+    }
+  });
+
+  room.on(RoomEvent.TrackPublished, (publication, participant) => {
+    if (subscriptionPreferences.get(subscriptionKey(participant.identity, publication)) === false) {
+      publication.setSubscribed(false);
+    }
+  });
+
+  // Moderation from the server (moderate-room edge function)
+  room.on(RoomEvent.TrackMuted, (publication, participant) => {
+    if (
+      participant === room.localParticipant &&
+      publication.kind === Track.Kind.Audio &&
+      !localMicChangeInProgress
+    ) {
+      logger.log('[LiveKit] Microphone muted by a moderator');
+      desiredMicEnabled = false;
+      eventCallbacks?.onMicDisabledByServer?.();
+    }
+  });
+
+  room.on(RoomEvent.ParticipantPermissionsChanged, (_prevPermissions, participant) => {
+    if (participant !== room.localParticipant) return;
+
+    // Our role changed: the cached token carries the old grants. Fetch the
+    // new one now so a reconnect doesn't come back with the old role.
+    invalidateTokenCache();
+    if (supervisedRoomId) scheduleTokenRefresh(0);
+
+    if (participant.permissions?.canPublish === false) {
+      logger.log('[LiveKit] Publish permission revoked');
+      desiredMicEnabled = false;
+      eventCallbacks?.onMicDisabledByServer?.();
+    }
+  });
+
   // Handle data channel messages (for sound reactions, etc.)
   room.on(RoomEvent.DataReceived, (payload: Uint8Array, participant?: RemoteParticipant) => {
     eventCallbacks?.onDataReceived?.(payload, participant);
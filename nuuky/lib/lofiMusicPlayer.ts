@@ -1,5 +1,7 @@
 import { logger } from './logger';
-import { PresetMood } from '../types';
+import { LofiTrack, PresetMood } from '../types';
+
+export type { LofiTrack };
 
 // Lazy import expo-av to avoid crash if native module isn't available
 let Audio: typeof import('expo-av').Audio | null = null;
@@ -16,9 +18,6 @@ const loadAudio = async () => {
   }
 };
 
-// Lo-fi track type based on mood
-export type LofiTrack = 'good' | 'neutral' | 'not_great' | 'sos';
-
 // Map PresetMood to LofiTrack
 export const moodToTrack: Record<PresetMood, LofiTrack> = {
   good: 'good',
@@ -348,6 +347,40 @@ export const getLofiState = (): {
   volume: targetVolume,
 });
 
+/**
+ * Get the position of the loaded track. durationMs is null while unknown.
+ */
+export const getLofiPlayback = async (): Promise<{
+  positionMs: number;
+  durationMs: number | null;
+} | null> => {
+  if (!currentSound) return null;
+
+  try {
+    const status = await currentSound.getStatusAsync();
+    if (!status.isLoaded) return null;
+    return { positionMs: status.positionMillis, durationMs: status.durationMillis ?? null };
+  } catch (error) {
+    logger.error('[LofiPlayer] Get status failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Move the loaded track to a position (ms).
+ */
+export const seekLofi = async (positionMs: number): Promise<boolean> => {
+  if (!currentSound) return false;
+
+  try {
+    await currentSound.setPositionAsync(Math.max(0, positionMs));
+    return true;
+  } catch (error) {
+    logger.error('[LofiPlayer] Seek failed:', error);
+    return false;
+  }
+};
+
 /**
  * Check if lofi player is available.
  */
@@ -0,0 +1,51 @@
+/**
+ * Shared lo-fi listening.
+ *
+ * While the room owner shares their music, they broadcast a lofi_sync
+ * message (see lib/roomMessages.ts) on every play/pause/track change and as
+ * a heartbeat. Followers project the owner's position forward from when the
+ * message arrived and only seek when they have drifted past the tolerance,
+ * so small jitter doesn't cause audible skips.
+ */
+
+// How far a follower may drift from the owner before we seek
+export const LOFI_SYNC_DRIFT_TOLERANCE_MS = 750;
+
+// How often the owner re-broadcasts while sharing
+export const LOFI_SYNC_HEARTBEAT_MS = 10000;
+
+// A session is over if the owner goes quiet for this long (missed heartbeats)
+export const LOFI_SYNC_TIMEOUT_MS = 35000;
+
+/**
+ * Where the owner's track should be now, given the position they reported
+ * and when we received it. Tracks loop, so the result wraps at durationMs.
+ */
+export function expectedLofiPosition(
+  positionMs: number,
+  playing: boolean,
+  receivedAt: number,
+  now: number,
+  durationMs: number | null
+): number {
+  const position = playing ? positionMs + Math.max(0, now - receivedAt) : positionMs;
+  if (!durationMs || durationMs <= 0) return position;
+  return position % durationMs;
+}
+
+/**
+ * Distance between two positions on a looping track of durationMs.
+ */
+export function lofiDrift(localMs: number, expectedMs: number, durationMs: number | null): number {
+  const distance = Math.abs(localMs - expectedMs);
+  if (!durationMs || durationMs <= 0) return distance;
+  return Math.min(distance % durationMs, durationMs - (distance % durationMs));
+}
+
+export function needsLofiResync(localMs: number, expectedMs: number, durationMs: number | null): boolean {
+  return lofiDrift(localMs, expectedMs, durationMs) > LOFI_SYNC_DRIFT_TOLERANCE_MS;
+}
+
+export function createLofiSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
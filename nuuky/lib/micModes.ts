@@ -0,0 +1,77 @@
+import { MicMode, RoomMicSettings } from '../types';
+
+export const DEFAULT_MIC_SETTINGS: RoomMicSettings = {
+  mode: 'open',
+  vadThreshold: 0.4,
+};
+
+export const VAD_THRESHOLD_LIMITS = {
+  min: 0.1,
+  max: 0.9,
+  step: 0.1,
+};
+
+// How often voice activity reads our mic level
+export const VAD_SAMPLE_INTERVAL_MS = 100;
+// Keep the mic open this long after the last loud sample, so the ends of
+// words and short pauses aren't clipped
+export const VAD_HANGOVER_MS = 800;
+
+export const MIC_MODE_OPTIONS: { mode: MicMode; label: string; description: string }[] = [
+  { mode: 'open', label: 'Open mic', description: 'Tap the mic to talk, tap again to mute' },
+  { mode: 'push_to_talk', label: 'Push to talk', description: 'Hold the mic or your orb while you talk' },
+  { mode: 'voice_activity', label: 'Voice activity', description: 'Your mic opens when you speak' },
+];
+
+export function getRoomMicSettings(
+  settings: Record<string, RoomMicSettings>,
+  roomId: string | null | undefined
+): RoomMicSettings {
+  return (roomId && settings[roomId]) || DEFAULT_MIC_SETTINGS;
+}
+
+/**
+ * Gated modes keep the mic published and only open it on demand: while the
+ * button is held, or while we're speaking.
+ */
+export function isGatedMicMode(mode: MicMode): boolean {
+  return mode !== 'open';
+}
+
+export function clampVadThreshold(threshold: number): number {
+  const { min, max, step } = VAD_THRESHOLD_LIMITS;
+  const snapped = Math.round(threshold / step) * step;
+  return Math.max(min, Math.min(max, Math.round(snapped * 100) / 100));
+}
+
+/**
+ * Lower thresholds open on quieter speech; in a loud room raise it so
+ * background noise stays out.
+ */
+export function describeVadThreshold(threshold: number): string {
+  if (threshold <= 0.3) return 'Sensitive';
+  if (threshold >= 0.7) return 'Only loud speech';
+  return 'Normal';
+}
+
+export interface VoiceGateState {
+  open: boolean;
+  lastVoiceAt: number;
+}
+
+export const CLOSED_VOICE_GATE: VoiceGateState = { open: false, lastVoiceAt: 0 };
+
+/**
+ * One voice-activity step: open as soon as a sample reaches the threshold,
+ * close once nothing has for VAD_HANGOVER_MS.
+ */
+export function nextVoiceGate(
+  state: VoiceGateState,
+  level: number,
+  threshold: number,
+  now: number
+): VoiceGateState {
+  if (level >= threshold) return { open: true, lastVoiceAt: now };
+  if (state.open && now - state.lastVoiceAt < VAD_HANGOVER_MS) return state;
+  return state.open ? { ...state, open: false } : state;
+}
@@ -0,0 +1,310 @@
+import * as Notifications from 'expo-notifications';
+import { supabase } from './supabase';
+import { logger } from './logger';
+import { NotificationActionId } from '../types';
+
+/**
+ * Action buttons on pushes, answered from the tray or lock screen without
+ * opening the app. The senders name a category with the push's categoryId
+ * (notification-dispatch.ts, flare-escalation.ts); the button pressed comes
+ * back as the response's actionIdentifier.
+ */
+
+export interface NotificationCategoryAction {
+  identifier: NotificationActionId;
+  buttonTitle: string;
+  destructive?: boolean;
+}
+
+export interface NotificationCategory {
+  identifier: string;
+  actions: NotificationCategoryAction[];
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  {
+    identifier: 'nudge',
+    actions: [{ identifier: 'nudge_back', buttonTitle: 'Nudge back' }],
+  },
+  {
+    identifier: 'room_invite',
+    actions: [
+      { identifier: 'join_room', buttonTitle: 'Join' },
+      { identifier: 'decline_room', buttonTitle: 'Decline', destructive: true },
+    ],
+  },
+  {
+    identifier: 'flare',
+    actions: [{ identifier: 'flare_here', buttonTitle: "I'm here" }],
+  },
+  // Photo nudges and voice moments
+  {
+    identifier: 'heart',
+    actions: [{ identifier: 'heart', buttonTitle: '❤️' }],
+  },
+];
+
+// Shown on the in-app notification once answered
+export const NOTIFICATION_ACTION_LABELS: Record<NotificationActionId, string> = {
+  nudge_back: 'Nudged back',
+  join_room: 'Joined',
+  decline_room: 'Declined',
+  flare_here: "Told them you're here",
+  heart: 'Sent a heart',
+};
+
+export function isNotificationAction(identifier: string): identifier is NotificationActionId {
+  return identifier in NOTIFICATION_ACTION_LABELS;
+}
+
+/**
+ * Register the button sets with the OS. Safe to call on every launch.
+ */
+export async function registerNotificationCategories(): Promise<void> {
+  try {
+    await Promise.all(
+      NOTIFICATION_CATEGORIES.map(({ identifier, actions }) =>
+        Notifications.setNotificationCategoryAsync(
+          identifier,
+          actions.map((action) => ({
+            identifier: action.identifier,
+            buttonTitle: action.buttonTitle,
+            options: {
+              opensAppToForeground: false,
+              isDestructive: action.destructive ?? false,
+            },
+          }))
+        )
+      )
+    );
+  } catch (error) {
+    logger.error('[Notifications] Failed to register notification categories:', error);
+  }
+}
+
+// Resolves to why the action couldn't be done, or null when it was
+type ActionRunner = (userId: string, data: Record<string, any>) => Promise<string | null>;
+
+const MAX_ROOM_MEMBERS = 10;
+
+async function heartPhotoNudge(userId: string, photoNudgeId: string): Promise<string | null> {
+  const { data: photoNudge, error: fetchError } = await supabase
+    .from('photo_nudges')
+    .select('id')
+    .eq('id', photoNudgeId)
+    .eq('receiver_id', userId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+  if (!photoNudge) return 'That photo is no longer available';
+
+  // Always a heart: unlike the in-app toggle, a second press leaves it on.
+  // The update queues the like for the sender; dispatch-notifications delivers it
+  const { error } = await supabase
+    .from('photo_nudges')
+    .update({ reaction: 'heart' })
+    .eq('id', photoNudgeId)
+    .eq('receiver_id', userId);
+
+  if (error) throw error;
+
+  return null;
+}
+
+async function heartVoiceMoment(userId: string, voiceMomentId: string): Promise<string | null> {
+  const { data: voiceMoment, error: fetchError } = await supabase
+    .from('voice_moments')
+    .select('id')
+    .eq('id', voiceMomentId)
+    .eq('receiver_id', userId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+  if (!voiceMoment) return 'That voice moment is no longer available';
+
+  // The update queues the reaction for the sender; dispatch-notifications delivers it
+  const { error } = await supabase
+    .from('voice_moments')
+    .update({ reaction: 'heart' })
+    .eq('id', voiceMomentId)
+    .eq('receiver_id', userId);
+
+  if (error) throw error;
+
+  return null;
+}
+
+// The same steps as the in-app buttons, minus the alerts
+const ACTION_RUNNERS: Record<NotificationActionId, ActionRunner> = {
+  nudge_back: async (userId, data) => {
+    if (!data.sender_id) return 'Could not nudge back';
+
+    const { error } = await supabase
+      .from('nudges')
+      .insert({ sender_id: userId, receiver_id: data.sender_id });
+
+    if (error) {
+      if (error.message?.includes('Nudge limit exceeded')) {
+        return 'You can only send 3 nudges per friend per day';
+      }
+      throw error;
+    }
+    return null;
+  },
+
+  join_room: async (userId, data) => {
+    if (!data.invite_id) return 'Could not join the room';
+
+    const { data: invite, error: inviteError } = await supabase
+      .from('room_invites')
+      .select('room_id, expires_at')
+      .eq('id', data.invite_id)
+      .maybeSingle();
+
+    if (inviteError) throw inviteError;
+    if (!invite || new Date(invite.expires_at) < new Date()) return 'That invite has expired';
+
+    const { data: participants, error: countError } = await supabase
+      .from('room_participants')
+      .select('id, user_id')
+      .eq('room_id', invite.room_id);
+
+    if (countError) throw countError;
+
+    const alreadyInRoom = participants?.some((p: { user_id: string }) => p.user_id === userId);
+    if (!alreadyInRoom && participants && participants.length >= MAX_ROOM_MEMBERS) {
+      return `${data.room_name || 'The room'} is full`;
+    }
+
+    // Join first: the pending invite is what lets us in
+    if (!alreadyInRoom) {
+      const { error: participantError } = await supabase
+        .from('room_participants')
+        .insert({ room_id: invite.room_id, user_id: userId, is_muted: false });
+
+      if (participantError) throw participantError;
+    }
+
+    const { error: updateError } = await supabase
+      .from('room_invites')
+      .update({ status: 'accepted', responded_at: new Date().toISOString() })
+      .eq('id', data.invite_id);
+
+    if (updateError) throw updateError;
+    return null;
+  },
+
+  decline_room: async (_userId, data) => {
+    if (!data.invite_id) return 'Could not decline the invite';
+
+    const { error } = await supabase
+      .from('room_invites')
+      .update({ status: 'declined', responded_at: new Date().toISOString() })
+      .eq('id', data.invite_id);
+
+    if (error) throw error;
+    return null;
+  },
+
+  flare_here: async (userId, data) => {
+    if (!data.flare_id) return 'Could not answer the flare';
+
+    // One response per friend; answering again just changes the status
+    const { error } = await supabase
+      .from('flare_responses')
+      .upsert(
+        { flare_id: data.flare_id, responder_id: userId, status: 'here' },
+        { onConflict: 'flare_id,responder_id' }
+      );
+
+    if (error) throw error;
+    return null;
+  },
+
+  heart: async (userId, data) => {
+    if (data.type === 'photo_nudge' && data.photo_nudge_id) {
+      return heartPhotoNudge(userId, data.photo_nudge_id);
+    }
+    if (data.type === 'voice_moment' && data.voice_moment_id) {
+      return heartVoiceMoment(userId, data.voice_moment_id);
+    }
+    return 'Could not send a heart';
+  },
+};
+
+/**
+ * Write the outcome onto the in-app notification, which also counts as
+ * reading it. Flares reach many friends with one push, so theirs is found
+ * by flare instead of by id.
+ */
+async function recordActionOutcome(
+  userId: string,
+  action: NotificationActionId,
+  data: Record<string, any>,
+  status: 'done' | 'failed'
+): Promise<void> {
+  let query = supabase
+    .from('notifications')
+    .update({
+      is_read: true,
+      action_taken: action,
+      action_status: status,
+      action_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId);
+
+  if (data.notification_id) {
+    query = query.eq('id', data.notification_id);
+  } else if (data.type === 'flare' && data.flare_id) {
+    query = query.eq('type', 'flare').eq('data->>flare_id', data.flare_id);
+  } else {
+    return;
+  }
+
+  const { error } = await query;
+  if (error) {
+    logger.error('[Notifications] Failed to record notification action:', error);
+  }
+}
+
+/**
+ * Carry out an action button press in the background. Failures that need
+ * the user's attention (a full room, the nudge limit) are reported with a
+ * local notification, since there is no screen to show them on.
+ *
+ * Returns false for identifiers that aren't action buttons, such as the
+ * default tap.
+ */
+export async function handleNotificationAction(
+  actionIdentifier: string,
+  data: Record<string, any>
+): Promise<boolean> {
+  if (!isNotificationAction(actionIdentifier)) return false;
+
+  // The app may have been woken just for this, before anything else loaded
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user?.id;
+  if (!userId) {
+    logger.warn('[Notifications] Action pressed while signed out');
+    return true;
+  }
+
+  let failure: string | null;
+  try {
+    failure = await ACTION_RUNNERS[actionIdentifier](userId, data);
+  } catch (error) {
+    logger.error(`[Notifications] ${actionIdentifier} action failed:`, error);
+    failure = 'Something went wrong. Open Nūūky to try again.';
+  }
+
+  await recordActionOutcome(userId, actionIdentifier, data, failure ? 'failed' : 'done');
+
+  if (failure) {
+    await Notifications.scheduleNotificationAsync({
+      content: { title: 'Not sent', body: failure, data: { type: data.type } },
+      trigger: null,
+    }).catch(() => {});
+  }
+
+  return true;
+}
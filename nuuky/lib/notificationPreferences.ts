@@ -0,0 +1,140 @@
+import {
+  DigestMode,
+  NotificationChannel,
+  NotificationChannels,
+  NotificationPreference,
+  NotificationType,
+  UserPreferences,
+} from '../types';
+
+export const ALL_CHANNELS_ON: NotificationChannels = { push: true, banner: true, silent: true };
+export const ALL_CHANNELS_OFF: NotificationChannels = { push: false, banner: false, silent: false };
+
+export const NOTIFICATION_CHANNEL_OPTIONS: { channel: NotificationChannel; label: string; icon: string }[] = [
+  { channel: 'push', label: 'Push', icon: 'notifications' },
+  { channel: 'banner', label: 'Banner', icon: 'chatbox' },
+  { channel: 'silent', label: 'Sync', icon: 'sync' },
+];
+
+// fromFriend: sent because of something one friend did, so it can be
+// overridden per friend
+export const NOTIFICATION_TYPE_OPTIONS: {
+  type: NotificationType;
+  label: string;
+  icon: string;
+  fromFriend: boolean;
+}[] = [
+  { type: 'nudge', label: 'Nudges', icon: 'hand-left', fromFriend: true },
+  { type: 'call_me', label: 'Call requests', icon: 'call', fromFriend: true },
+  { type: 'flare', label: 'Flares', icon: 'flame', fromFriend: true },
+  { type: 'photo_nudge', label: 'Photos', icon: 'camera', fromFriend: true },
+  { type: 'photo_like', label: 'Photo likes', icon: 'heart', fromFriend: true },
+  { type: 'voice_moment', label: 'Voice moments', icon: 'mic', fromFriend: true },
+  { type: 'voice_moment_reaction', label: 'Voice reactions', icon: 'happy', fromFriend: true },
+  { type: 'room_invite', label: 'Room invites', icon: 'people', fromFriend: true },
+  { type: 'room_reminder', label: 'Room reminders', icon: 'calendar', fromFriend: true },
+  { type: 'friend_request', label: 'Friend requests', icon: 'person-add', fromFriend: true },
+  { type: 'friend_accepted', label: 'Accepted requests', icon: 'checkmark-circle', fromFriend: true },
+  { type: 'streak_fading', label: 'Fading streaks', icon: 'hourglass', fromFriend: true },
+  { type: 'streak_milestone', label: 'Streak milestones', icon: 'flash', fromFriend: true },
+  { type: 'anchor_checkin', label: 'Check-in requests', icon: 'heart-circle', fromFriend: false },
+  { type: 'anchor_inactivity', label: 'Anchor alerts', icon: 'shield-checkmark', fromFriend: true },
+  { type: 'anchor_ack', label: 'Anchor replies', icon: 'shield', fromFriend: true },
+];
+
+/**
+ * The single switches the app had before the matrix. Until a type has its
+ * own row they still decide it, for all channels at once.
+ */
+function legacyEnabled(prefs: UserPreferences | null, type: NotificationType): boolean | undefined {
+  if (!prefs) return undefined;
+  switch (type) {
+    case 'nudge':
+    case 'call_me':
+    case 'photo_nudge':
+    case 'voice_moment':
+      return prefs.nudges_enabled;
+    case 'flare':
+      return prefs.flares_enabled;
+    case 'room_invite':
+      return prefs.room_invites_enabled;
+    default:
+      return undefined;
+  }
+}
+
+function pickChannels(pref: NotificationChannels): NotificationChannels {
+  return { push: pref.push, banner: pref.banner, silent: pref.silent };
+}
+
+export function findPreference(
+  rows: NotificationPreference[],
+  type: NotificationType,
+  friendId: string | null = null
+): NotificationPreference | undefined {
+  return rows.find((r) => r.notification_type === type && r.friend_id === friendId);
+}
+
+/**
+ * Channels a notification of `type` from `friendId` reaches: the friend's
+ * override, else the type's default, else the legacy switch, else all on.
+ * Mirrors get_notification_channels on the server.
+ */
+export function resolveChannels(
+  rows: NotificationPreference[],
+  prefs: UserPreferences | null,
+  type: NotificationType,
+  friendId?: string | null
+): NotificationChannels {
+  const override = friendId ? findPreference(rows, type, friendId) : undefined;
+  if (override) return pickChannels(override);
+
+  const typeDefault = findPreference(rows, type);
+  if (typeDefault) return pickChannels(typeDefault);
+
+  const legacy = legacyEnabled(prefs, type);
+  if (legacy !== undefined) return legacy ? ALL_CHANNELS_ON : ALL_CHANNELS_OFF;
+
+  return ALL_CHANNELS_ON;
+}
+
+export function isMuted(channels: NotificationChannels): boolean {
+  return !channels.push && !channels.banner && !channels.silent;
+}
+
+export type FriendOverrideMode = 'default' | 'muted' | 'always' | 'custom';
+
+export const FRIEND_OVERRIDE_OPTIONS: { mode: Exclude<FriendOverrideMode, 'custom'>; label: string }[] = [
+  { mode: 'default', label: 'Default' },
+  { mode: 'muted', label: 'Mute' },
+  { mode: 'always', label: 'Always' },
+];
+
+export function getFriendOverrideMode(override: NotificationChannels | undefined): FriendOverrideMode {
+  if (!override) return 'default';
+  if (isMuted(override)) return 'muted';
+  if (override.push && override.banner && override.silent) return 'always';
+  return 'custom';
+}
+
+/**
+ * "Nudges muted, flares always" for a friend's overrides
+ */
+export function describeFriendOverrides(overrides: NotificationPreference[]): string {
+  return NOTIFICATION_TYPE_OPTIONS
+    .map(({ type, label }) => {
+      const mode = getFriendOverrideMode(overrides.find((o) => o.notification_type === type));
+      if (mode === 'default') return null;
+      const name = label.toLowerCase();
+      return mode === 'custom' ? `${name} custom` : `${name} ${mode}`;
+    })
+    .filter(Boolean)
+    .join(', ')
+    .replace(/^./, (c) => c.toUpperCase());
+}
+
+export const DIGEST_MODE_OPTIONS: { mode: DigestMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'daily', label: 'Daily, 9 AM' },
+  { mode: 'evening', label: 'Evening, 7 PM' },
+];
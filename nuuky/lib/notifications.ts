@@ -1,6 +1,8 @@
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import Constants from 'expo-constants';
+import * as Crypto from 'expo-crypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import { supabase } from './supabase';
 import { logger } from './logger';
@@ -68,12 +70,33 @@ export async function registerForPushNotificationsAsync(): Promise<string | unde
   return token;
 }
 
-export async function savePushTokenToUser(userId: string, token: string) {
+const DEVICE_ID_KEY = 'nooke_push_device_id';
+
+/**
+ * Stable id for this install. Push tokens are stored per device, so a user
+ * signed in on a phone and a tablet gets pushes on both.
+ */
+export async function getDeviceId(): Promise<string> {
+  const existing = await AsyncStorage.getItem(DEVICE_ID_KEY);
+  if (existing) return existing;
+
+  const deviceId = Crypto.randomUUID();
+  await AsyncStorage.setItem(DEVICE_ID_KEY, deviceId);
+  return deviceId;
+}
+
+/**
+ * Register this device's push token for the signed-in user. Called on every
+ * launch, which also keeps the device's last-seen time fresh.
+ */
+export async function savePushTokenToUser(token: string) {
   try {
-    const { error } = await supabase
-      .from('users')
-      .update({ fcm_token: token })
-      .eq('id', userId);
+    const { error } = await supabase.rpc('register_push_token', {
+      p_device_id: await getDeviceId(),
+      p_token: token,
+      p_platform: Platform.OS,
+      p_app_version: Constants.expoConfig?.version ?? null,
+    });
 
     if (error) throw error;
   } catch (error) {
@@ -81,6 +104,22 @@ export async function savePushTokenToUser(userId: string, token: string) {
   }
 }
 
+/**
+ * Stop pushes to this device. Must run before signing out, while the
+ * session can still identify the device's owner.
+ */
+export async function removePushToken() {
+  try {
+    const { error } = await supabase.rpc('unregister_push_token', {
+      p_device_id: await getDeviceId(),
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    logger.error('[Notifications] Failed to remove push token');
+  }
+}
+
 export async function sendPushNotification(
   expoPushToken: string,
   title: string,
@@ -182,6 +221,27 @@ export async function scheduleLocalNotification(
   });
 }
 
+/**
+ * Clear earlier pushes of a collapsed group from the tray, so "Maya nudged
+ * you 4 times" replaces the three before it. `keepIdentifier` is the push
+ * that just arrived.
+ */
+export async function dismissGroupedNotifications(groupKey: string, keepIdentifier?: string) {
+  try {
+    const presented = await Notifications.getPresentedNotificationsAsync();
+    await Promise.all(
+      presented
+        .filter((n) =>
+          n.request.content.data?.group_key === groupKey &&
+          n.request.identifier !== keepIdentifier
+        )
+        .map((n) => Notifications.dismissNotificationAsync(n.request.identifier))
+    );
+  } catch (error) {
+    logger.error('Error dismissing grouped notifications:', error);
+  }
+}
+
 /**
  * Handle silent notification data for background sync
  * This is called when a silent push notification arrives
@@ -199,6 +259,9 @@ export function handleSilentNotification(
 ) {
   if (!data?._silent) return;
 
+  // Carries only an in-app banner; the receiver turned background sync off
+  if (data.banner_only) return;
+
   const syncType = data.sync_type;
 
   switch (syncType) {
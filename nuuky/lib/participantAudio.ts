@@ -0,0 +1,56 @@
+import { ParticipantAudioPreference } from '../types';
+
+export const DEFAULT_PARTICIPANT_VOLUME = 1;
+export const PARTICIPANT_VOLUME_STEP = 0.1;
+
+// Meter levels are rounded to this many steps so small wobbles in the
+// speaker updates don't re-render the room
+export const METER_LEVEL_STEPS = 10;
+
+// LiveKit levels are linear amplitude; below this many dB we show silence
+const METER_FLOOR_DB = -50;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Maps a LiveKit audio level (0-1, linear) onto a 0-1 meter. Speech sits
+ * far below 1 on the linear scale, so the meter follows decibels instead.
+ */
+export function toMeterLevel(audioLevel: number): number {
+  if (!Number.isFinite(audioLevel) || audioLevel <= 0) return 0;
+  const db = 20 * Math.log10(Math.min(1, audioLevel));
+  const level = clamp01((db - METER_FLOOR_DB) / -METER_FLOOR_DB);
+  return Math.round(level * METER_LEVEL_STEPS) / METER_LEVEL_STEPS;
+}
+
+/**
+ * The volume a friend's audio should play at for us. Friends we never
+ * adjusted play at full volume.
+ */
+export function getPlaybackVolume(preference?: ParticipantAudioPreference): number {
+  if (!preference) return DEFAULT_PARTICIPANT_VOLUME;
+  if (preference.muted) return 0;
+  return clamp01(preference.volume);
+}
+
+/**
+ * One step up or down, snapped to the step grid so repeated taps land on
+ * round percentages.
+ */
+export function stepParticipantVolume(volume: number, direction: 1 | -1): number {
+  const steps = Math.round(volume / PARTICIPANT_VOLUME_STEP) + direction;
+  return clamp01(Math.round(steps * PARTICIPANT_VOLUME_STEP * 100) / 100);
+}
+
+export function formatParticipantVolume(preference?: ParticipantAudioPreference): string {
+  if (preference?.muted) return 'Muted';
+  return `${Math.round(getPlaybackVolume(preference) * 100)}%`;
+}
+
+/**
+ * A preference back at full volume and unmuted carries no information, so
+ * the store drops it instead of keeping an entry per friend forever.
+ */
+export function isDefaultAudioPreference(preference: ParticipantAudioPreference): boolean {
+  return !preference.muted && preference.volume >= DEFAULT_PARTICIPANT_VOLUME;
+}
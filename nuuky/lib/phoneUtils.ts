@@ -372,3 +372,69 @@ export const getMaxPhoneLength = (countryCode: CountryCode): number => {
       return 15;
   }
 };
+
+/**
+ * Detect the country of an E.164 number by its dial code.
+ * Longer dial codes are matched first so "+1876..." resolves to JM, not US.
+ */
+export const detectCountryFromPhone = (phone?: string | null): CountryCode | null => {
+  if (!phone) return null;
+
+  const digits = phone.replace(/\D/g, "");
+  const sortedEntries = Object.entries(COUNTRY_DIAL_CODES)
+    .sort((a, b) => (b[1] as string).length - (a[1] as string).length);
+
+  for (const [country, dialCode] of sortedEntries) {
+    if (digits.startsWith((dialCode as string).replace(/\D/g, ""))) {
+      return country as CountryCode;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Get the region from the device locale (e.g. "en-GB" -> "GB")
+ */
+export const getLocaleRegion = (): CountryCode | null => {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    const region = locale.split("-").pop()?.toUpperCase();
+    return region && region in COUNTRY_DIAL_CODES ? (region as CountryCode) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Normalize an address book number to E.164.
+ * Numbers written with an international prefix (+, 00, or 011 in NANP regions)
+ * keep their own country code; national numbers use the given region.
+ * Returns an empty string if the number can't be normalized.
+ */
+export const normalizeContactPhone = (rawNumber: string, regionCode: CountryCode): string => {
+  const trimmed = rawNumber.trim();
+  let digits = trimmed.replace(/\D/g, "");
+  const isNanp = getDialCode(regionCode) === "+1";
+
+  let international = trimmed.startsWith("+");
+  if (!international && digits.startsWith("00")) {
+    digits = digits.slice(2);
+    international = true;
+  } else if (!international && isNanp && digits.startsWith("011")) {
+    digits = digits.slice(3);
+    international = true;
+  }
+
+  if (international) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : "";
+  }
+
+  // NANP numbers are often stored with the trunk prefix 1
+  if (isNanp && digits.length === 11 && digits.startsWith("1")) {
+    digits = digits.slice(1);
+  }
+
+  const { isValid, normalized } = validatePhone(digits, regionCode);
+  return isValid ? normalized : "";
+};
@@ -0,0 +1,232 @@
+import { logger } from './logger';
+import { sendRoomData, getLocalParticipantId } from './livekit';
+import {
+  LofiSyncPayload,
+  LofiTrack,
+  RoomMessageEnvelope,
+  RoomMessagePayloads,
+  RoomMessageType,
+  SoundReactionPayload,
+  SoundReactionType,
+} from '../types';
+
+/**
+ * Room data-channel protocol.
+ *
+ * Every packet is a JSON envelope { v, type, senderId, sentAt, payload }.
+ * Features describe their payload in RoomMessagePayloads (types) and
+ * ROOM_MESSAGE_SPECS below, send with sendRoomMessage, and receive through
+ * onRoomMessage. Incoming packets are validated and rate limited per sender
+ * here, so handlers only ever see well-formed messages.
+ */
+
+export const ROOM_MESSAGE_VERSION = 1;
+
+// Anything bigger isn't one of ours
+const MAX_PACKET_BYTES = 16 * 1024;
+
+interface RateLimit {
+  max: number;
+  windowMs: number;
+}
+
+// Applies to all of a sender's messages combined
+const SENDER_RATE_LIMIT: RateLimit = { max: 20, windowMs: 10000 };
+
+interface RoomMessageSpec<T> {
+  validate: (payload: unknown) => payload is T;
+  // Per sender, on top of SENDER_RATE_LIMIT
+  rateLimit?: RateLimit;
+}
+
+export const SOUND_REACTION_IDS: SoundReactionType[] = ['laugh', 'wow', 'applause', 'aww', 'party'];
+
+export const LOFI_TRACK_IDS: LofiTrack[] = ['good', 'neutral', 'not_great', 'sos'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isShortString = (value: unknown, max = 200): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= max;
+
+function isSoundReactionPayload(payload: unknown): payload is SoundReactionPayload {
+  return (
+    isRecord(payload) &&
+    SOUND_REACTION_IDS.includes(payload.soundId as SoundReactionType) &&
+    isShortString(payload.senderName) &&
+    (payload.senderAvatarUrl === undefined || isShortString(payload.senderAvatarUrl, 2048))
+  );
+}
+
+function isLofiSyncPayload(payload: unknown): payload is LofiSyncPayload {
+  return (
+    isRecord(payload) &&
+    isShortString(payload.sessionId, 64) &&
+    typeof payload.active === 'boolean' &&
+    LOFI_TRACK_IDS.includes(payload.track as LofiTrack) &&
+    typeof payload.playing === 'boolean' &&
+    typeof payload.positionMs === 'number' &&
+    Number.isFinite(payload.positionMs) &&
+    payload.positionMs >= 0
+  );
+}
+
+const ROOM_MESSAGE_SPECS: { [K in RoomMessageType]: RoomMessageSpec<RoomMessagePayloads[K]> } = {
+  // Senders already wait 8s between reactions; allow a little slack
+  sound_reaction: { validate: isSoundReactionPayload, rateLimit: { max: 2, windowMs: 8000 } },
+  // A heartbeat every 10s plus the owner's play/pause/track changes
+  lofi_sync: { validate: isLofiSyncPayload, rateLimit: { max: 10, windowMs: 10000 } },
+};
+
+const isRoomMessageType = (type: unknown): type is RoomMessageType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(ROOM_MESSAGE_SPECS, type);
+
+export type RoomMessageHandler<T extends RoomMessageType> = (message: RoomMessageEnvelope<T>) => void;
+
+const handlers = new Map<RoomMessageType, Set<RoomMessageHandler<any>>>();
+
+/**
+ * Subscribe to one message type. Returns the unsubscribe function.
+ */
+export function onRoomMessage<T extends RoomMessageType>(
+  type: T,
+  handler: RoomMessageHandler<T>
+): () => void {
+  const forType = handlers.get(type) ?? new Set();
+  forType.add(handler);
+  handlers.set(type, forType);
+
+  return () => {
+    forType.delete(handler);
+  };
+}
+
+export function encodeRoomMessage<T extends RoomMessageType>(
+  message: RoomMessageEnvelope<T>
+): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(message));
+}
+
+/**
+ * Decode and validate a packet. Returns null for anything that isn't a
+ * well-formed message we understand.
+ */
+export function decodeRoomMessage(data: Uint8Array): RoomMessageEnvelope | null {
+  if (data.byteLength === 0 || data.byteLength > MAX_PACKET_BYTES) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw)) return null;
+
+  // Clients from before the envelope sent sound reactions bare
+  if (raw.v === undefined && raw.type === 'sound_reaction') {
+    raw = {
+      v: ROOM_MESSAGE_VERSION,
+      type: raw.type,
+      senderId: raw.senderId,
+      sentAt: raw.timestamp,
+      payload: { soundId: raw.soundId, senderName: raw.senderName, senderAvatarUrl: raw.senderAvatarUrl },
+    };
+    if (!isRecord(raw)) return null;
+  }
+
+  const { v, type, senderId, sentAt, payload } = raw;
+
+  // A newer protocol version may mean something different by the same type
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 1 || v > ROOM_MESSAGE_VERSION) return null;
+  if (!isRoomMessageType(type)) return null;
+  if (!isShortString(senderId) || typeof sentAt !== 'number' || !Number.isFinite(sentAt)) return null;
+
+  const spec: RoomMessageSpec<unknown> = ROOM_MESSAGE_SPECS[type];
+  if (!spec.validate(payload)) return null;
+
+  return { v, type, senderId, sentAt, payload } as RoomMessageEnvelope;
+}
+
+// sender (or sender:type) -> timestamps of recently accepted messages
+const recentMessages = new Map<string, number[]>();
+
+function withinLimit(key: string, limit: RateLimit, now: number): boolean {
+  const recent = (recentMessages.get(key) ?? []).filter((at) => now - at < limit.windowMs);
+  recentMessages.set(key, recent);
+  return recent.length < limit.max;
+}
+
+function isRateLimited(message: RoomMessageEnvelope, now: number): boolean {
+  const senderKey = message.senderId;
+  const typeKey = `${message.senderId}:${message.type}`;
+  const typeLimit = ROOM_MESSAGE_SPECS[message.type].rateLimit;
+
+  if (!withinLimit(senderKey, SENDER_RATE_LIMIT, now)) return true;
+  if (typeLimit && !withinLimit(typeKey, typeLimit, now)) return true;
+
+  recentMessages.get(senderKey)!.push(now);
+  if (typeLimit) recentMessages.get(typeKey)!.push(now);
+  return false;
+}
+
+/**
+ * Entry point for every data packet from LiveKit. participantIdentity is the
+ * LiveKit identity of the sender (undefined for server-sent data); a message
+ * claiming to be from someone else is dropped.
+ */
+export function dispatchRoomData(data: Uint8Array, participantIdentity?: string): boolean {
+  const message = decodeRoomMessage(data);
+  if (!message) {
+    logger.warn('[RoomMessages] Dropped malformed or unknown packet');
+    return false;
+  }
+
+  if (participantIdentity !== undefined && message.senderId !== participantIdentity) {
+    logger.warn(`[RoomMessages] Dropped ${message.type} claiming to be from ${message.senderId}`);
+    return false;
+  }
+
+  if (isRateLimited(message, Date.now())) {
+    logger.debug(`[RoomMessages] Rate limited ${message.type} from ${message.senderId}`);
+    return false;
+  }
+
+  const forType = handlers.get(message.type);
+  forType?.forEach((handler) => {
+    try {
+      handler(message);
+    } catch (error) {
+      logger.error(`[RoomMessages] ${message.type} handler failed:`, error);
+    }
+  });
+  return true;
+}
+
+/**
+ * Wrap a payload in an envelope from the local participant and publish it.
+ */
+export async function sendRoomMessage<T extends RoomMessageType>(
+  type: T,
+  payload: RoomMessagePayloads[T]
+): Promise<boolean> {
+  const senderId = getLocalParticipantId();
+  if (!senderId) {
+    logger.warn('[RoomMessages] Cannot send: not connected to a room');
+    return false;
+  }
+
+  return sendRoomData(encodeRoomMessage({
+    v: ROOM_MESSAGE_VERSION,
+    type,
+    senderId,
+    sentAt: Date.now(),
+    payload,
+  }));
+}
+
+/**
+ * Forget rate-limit history, e.g. when switching rooms.
+ */
+export function resetRoomMessageLimits(): void {
+  recentMessages.clear();
+}
@@ -0,0 +1,41 @@
+import { RoomParticipant } from '../types';
+import { isUserTrulyOnline } from './utils';
+
+/**
+ * Whether the participant is connected to the room's audio right now.
+ * Membership alone doesn't say that: a crashed app leaves the row behind,
+ * and the server ends the audio session when LiveKit reports them gone.
+ */
+export function isInCall(participant: RoomParticipant): boolean {
+  return !!participant.audio_joined_at && !participant.audio_left_at;
+}
+
+export function countInCall(participants: RoomParticipant[]): number {
+  return participants.filter(isInCall).length;
+}
+
+/**
+ * Whether the member is around: in the call, or with the app open. A
+ * crashed app's row stays (it's still their room), but its heartbeat stops.
+ * Without their presence (no profile, or only the basic one) we can't tell,
+ * so they count.
+ */
+export function isHere(participant: RoomParticipant): boolean {
+  const { user } = participant;
+  if (isInCall(participant) || user?.is_online === undefined) return true;
+  return isUserTrulyOnline(user.is_online, user.last_seen_at);
+}
+
+export function countHere(participants: RoomParticipant[]): number {
+  return participants.filter(isHere).length;
+}
+
+/**
+ * Header line for a room, e.g. "3 people here · 2 in the call".
+ */
+export function describeRoomPresence(participants: RoomParticipant[]): string {
+  const count = countHere(participants);
+  const here = `${count} ${count === 1 ? 'person' : 'people'} here`;
+  const inCall = countInCall(participants);
+  return inCall > 0 ? `${here} · ${inCall} in the call` : here;
+}
@@ -0,0 +1,50 @@
+import { RoomParticipant, RoomRole } from '../types';
+
+export const ROOM_ROLE_LABELS: Record<RoomRole, string> = {
+  owner: 'Owner',
+  moderator: 'Moderator',
+  member: 'Member',
+  listener: 'Listener',
+};
+
+// Roles the owner can hand out; ownership itself moves through transferOwnership
+export const ASSIGNABLE_ROOM_ROLES: RoomRole[] = ['moderator', 'member', 'listener'];
+
+/**
+ * Rows loaded before roles existed have no role; fall back to the creator check.
+ */
+export function getParticipantRole(participant: RoomParticipant, creatorId?: string): RoomRole {
+  if (participant.user_id === creatorId) return 'owner';
+  return participant.role ?? 'member';
+}
+
+/**
+ * Mirrors the moderate-room edge function: owners moderate everyone else,
+ * moderators only members and listeners.
+ */
+export function canModerate(actorRole: RoomRole, targetRole: RoomRole): boolean {
+  if (actorRole === 'owner') return targetRole !== 'owner';
+  if (actorRole === 'moderator') return targetRole === 'member' || targetRole === 'listener';
+  return false;
+}
+
+export function canAssignRoles(actorRole: RoomRole): boolean {
+  return actorRole === 'owner';
+}
+
+/**
+ * How a listener's seat is described to them. Listeners can still send
+ * reactions unless the room turned that off.
+ */
+export function describeListenerSeat(listenersCanReact = true): string {
+  return listenersCanReact ? 'Listening · you can react' : 'Listen only';
+}
+
+/**
+ * Listeners waiting to speak, oldest request first.
+ */
+export function getSpeakRequests(participants: RoomParticipant[]): RoomParticipant[] {
+  return participants
+    .filter((p) => p.role === 'listener' && !!p.speak_requested_at)
+    .sort((a, b) => a.speak_requested_at!.localeCompare(b.speak_requested_at!));
+}
@@ -0,0 +1,201 @@
+import { UpcomingRoom } from '../types';
+import { formatScheduleDays } from './availabilitySchedule';
+
+/**
+ * Scheduled rooms open at a one-off time or on a weekly slot in the host's
+ * timezone. The server (next_schedule_occurrence) owns the real schedule;
+ * these helpers preview it while scheduling and format upcoming rooms.
+ */
+
+// Mirrors the checks on room_schedules
+export const ROOM_SCHEDULE_LIMITS = {
+  durationMinutes: { min: 15, max: 480 },
+  reminderMinutes: { min: 5, max: 120 },
+} as const;
+
+export const DEFAULT_ROOM_DURATION_MINUTES = 60;
+export const DEFAULT_ROOM_REMINDER_MINUTES = 15;
+
+export interface ScheduleRoomInput {
+  name?: string;
+  // Either a one-off start...
+  startsAt?: Date;
+  // ...or a weekly slot on the device's clock
+  days?: number[];
+  startTime?: string; // "HH:MM"
+  durationMinutes?: number;
+  reminderMinutes?: number;
+  friendIds?: string[];
+}
+
+const MINUTE = 60 * 1000;
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-based
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function getZonedParts(at: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// How far the zone's wall clock is ahead of UTC at `at`
+function getTimeZoneOffset(at: Date, timeZone: string): number {
+  const p = getZonedParts(at, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - (at.getTime() - at.getMilliseconds());
+}
+
+/**
+ * The instant a wall-clock time happens in a timezone. Checked twice so
+ * dates on the other side of a DST change get their own offset.
+ */
+function zonedTimeToDate(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const guess = wallClock - offset;
+  const corrected = getTimeZoneOffset(new Date(guess), timeZone);
+  return new Date(corrected === offset ? guess : wallClock - corrected);
+}
+
+/**
+ * Parse "HH:MM" or "HH:MM:SS" into minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * First weekly occurrence strictly after `after`.
+ * Mirrors next_schedule_occurrence() in the scheduled rooms migration.
+ */
+export function getNextOccurrence(
+  days: number[],
+  startTime: string,
+  timeZone: string,
+  after: Date = new Date()
+): Date | null {
+  const local = getZonedParts(after, timeZone);
+  const minutes = toMinutes(startTime);
+
+  // Eight days so today's slot, if already past, rolls over to next week
+  for (let i = 0; i <= 7; i++) {
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + i));
+    if (!days.includes(date.getUTCDay())) continue;
+
+    const candidate = zonedTimeToDate(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      minutes,
+      timeZone
+    );
+    if (candidate.getTime() > after.getTime()) return candidate;
+  }
+
+  return null;
+}
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function formatClock(at: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(at);
+}
+
+function formatDay(at: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  }).format(at);
+}
+
+/**
+ * How a room repeats, e.g. "Tue · 20:00" or "Fri, Oct 23 · 21:00".
+ * Weekly slots read in the host's timezone, one-offs in the viewer's.
+ */
+export function formatRoomSchedule(
+  room: Pick<UpcomingRoom, 'starts_at' | 'days' | 'start_time' | 'next_start_at'>,
+  timeZone?: string
+): string {
+  if (room.days && room.start_time) {
+    return `${formatScheduleDays(room.days)} · ${room.start_time.slice(0, 5)}`;
+  }
+
+  const at = new Date(room.starts_at ?? room.next_start_at);
+  return `${formatDay(at, timeZone)} · ${formatClock(at, timeZone)}`;
+}
+
+/**
+ * When the next occurrence starts, relative to now: "Live now",
+ * "Starts in 12 min", "Today · 20:00", "Tomorrow · 20:00" or a date
+ */
+export function describeUpcomingStart(
+  room: Pick<UpcomingRoom, 'next_start_at' | 'is_open'>,
+  now: Date = new Date(),
+  timeZone?: string
+): string {
+  const startsAt = new Date(room.next_start_at);
+  const untilStart = startsAt.getTime() - now.getTime();
+
+  if (room.is_open || untilStart <= 0) return 'Live now';
+  if (untilStart < 60 * MINUTE) return `Starts in ${Math.max(1, Math.ceil(untilStart / MINUTE))} min`;
+
+  const zone = timeZone ?? getDeviceTimeZone();
+  const today = getZonedParts(now, zone);
+  const day = getZonedParts(startsAt, zone);
+  const dayDiff = Math.round(
+    (Date.UTC(day.year, day.month - 1, day.day) - Date.UTC(today.year, today.month - 1, today.day)) / (24 * 60 * MINUTE)
+  );
+  const clock = formatClock(startsAt, zone);
+
+  if (dayDiff === 0) return `Today · ${clock}`;
+  if (dayDiff === 1) return `Tomorrow · ${clock}`;
+  return `${formatDay(startsAt, zone)} · ${clock}`;
+}
+
+/**
+ * RSVP tally, e.g. "3 going · 1 maybe", or the invite count before anyone answers
+ */
+export function formatRsvpSummary(room: Pick<UpcomingRoom, 'going_count' | 'maybe_count' | 'invited_count'>): string {
+  if (room.going_count === 0 && room.maybe_count === 0) {
+    return room.invited_count > 0 ? `${room.invited_count} invited` : 'Just you so far';
+  }
+
+  const parts = [`${room.going_count} going`];
+  if (room.maybe_count > 0) parts.push(`${room.maybe_count} maybe`);
+  return parts.join(' · ');
+}
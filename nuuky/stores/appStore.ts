@@ -4,7 +4,9 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import { useShallow } from 'zustand/react/shallow';
 import { encryptedStorage } from '../lib/secureStorage';
 import { invalidateTokenCache } from '../lib/livekit';
-import { User, Friendship, Room, RoomParticipant, RoomInvite, AudioConnectionStatus, CustomMood, PresetMood, AppNotification, Anchor } from '../types';
+import { isDefaultAudioPreference, DEFAULT_PARTICIPANT_VOLUME } from '../lib/participantAudio';
+import { DEFAULT_MIC_SETTINGS, clampVadThreshold } from '../lib/micModes';
+import { User, Friendship, Room, RoomParticipant, RoomInvite, AudioConnectionStatus, AudioReconnectEvent, ParticipantAudioPreference, MicMode, RoomMicSettings, CustomMood, PresetMood, AppNotification, Anchor, AvailabilitySchedule } from '../types';
 
 interface AppState {
   // Auth state
@@ -17,6 +19,12 @@ interface AppState {
   // Anchors state
   anchors: Anchor[];
 
+  // Blocked user IDs (users the current user has blocked)
+  blockedUserIds: string[];
+
+  // Recurring ghost/break windows (persisted so presence is correct on cold start)
+  availabilitySchedules: AvailabilitySchedule[];
+
   // Rooms state
   activeRooms: Room[];
   myRooms: Room[];
@@ -40,8 +48,16 @@ interface AppState {
   // Audio state
   audioConnectionStatus: AudioConnectionStatus;
   audioError: string | null;
+  // Recent automatic reconnects, newest last
+  audioReconnectHistory: AudioReconnectEvent[];
   // Using array instead of Set for proper JSON serialization
   speakingParticipants: string[];
+  // Live meter level (0-1) per participant identity, from LiveKit speaker updates
+  participantAudioLevels: Record<string, number>;
+  // Per-friend playback volume and "mute for me"; friends at the default are left out
+  participantAudioPreferences: Record<string, ParticipantAudioPreference>;
+  // Mic mode per room id; rooms never changed use DEFAULT_MIC_SETTINGS
+  roomMicSettings: Record<string, RoomMicSettings>;
 
   // Custom moods state
   customMoods: CustomMood[];
@@ -70,6 +86,8 @@ interface AppState {
   addFriend: (friend: Friendship) => void;
   removeFriend: (friendId: string) => void;
   setAnchors: (anchors: Anchor[]) => void;
+  setBlockedUserIds: (ids: string[]) => void;
+  setAvailabilitySchedules: (schedules: AvailabilitySchedule[]) => void;
   setActiveRooms: (rooms: Room[]) => void;
   setMyRooms: (rooms: Room[]) => void;
   addMyRoom: (room: Room) => void;
@@ -98,9 +116,15 @@ interface AppState {
   setLowPowerMode: (enabled: boolean) => void;
   setAudioConnectionStatus: (status: AudioConnectionStatus) => void;
   setAudioError: (error: string | null) => void;
+  setAudioReconnectHistory: (history: AudioReconnectEvent[]) => void;
   addSpeakingParticipant: (participantId: string) => void;
   removeSpeakingParticipant: (participantId: string) => void;
   clearSpeakingParticipants: () => void;
+  setParticipantAudioLevels: (levels: Record<string, number>) => void;
+  setParticipantVolume: (userId: string, volume: number) => void;
+  setParticipantMuted: (userId: string, muted: boolean) => void;
+  setRoomMicMode: (roomId: string, mode: MicMode) => void;
+  setRoomVadThreshold: (roomId: string, threshold: number) => void;
   setLastActivity: () => void;
   setSessionTimeoutMinutes: (minutes: number) => void;
   showSessionWarning: (shown: boolean) => void;
@@ -115,12 +139,16 @@ interface AppState {
 export const useCurrentUser = () => useAppStore((state) => state.currentUser);
 export const useFriendsStore = () => useAppStore(useShallow((state) => state.friends));
 export const useAnchorsStore = () => useAppStore(useShallow((state) => state.anchors));
+export const useBlockedUserIds = () => useAppStore(useShallow((state) => state.blockedUserIds));
+export const useAvailabilitySchedules = () => useAppStore(useShallow((state) => state.availabilitySchedules));
 export const useActiveRooms = () => useAppStore(useShallow((state) => state.activeRooms));
 export const useMyRooms = () => useAppStore(useShallow((state) => state.myRooms));
 export const useCurrentRoom = () => useAppStore((state) => state.currentRoom);
 export const useRoomParticipants = () => useAppStore(useShallow((state) => state.roomParticipants));
 export const useRoomInvites = () => useAppStore(useShallow((state) => state.roomInvites));
 export const useSpeakingParticipants = () => useAppStore(useShallow((state) => state.speakingParticipants));
+export const useParticipantAudioLevels = () => useAppStore(useShallow((state) => state.participantAudioLevels));
+export const useParticipantAudioPreferences = () => useAppStore(useShallow((state) => state.participantAudioPreferences));
 export const useActiveCustomMood = () => useAppStore((state) => state.activeCustomMood);
 export const useNotificationsStore = () => useAppStore(useShallow((state) => state.notifications));
 export const useUnreadNotificationCount = () => useAppStore((state) => state.unreadNotificationCount);
@@ -151,6 +179,16 @@ export const useHasHydrated = () => {
 // Also export a non-hook version for checks outside React
 export const getHasHydrated = () => useAppStore.persist.hasHydrated();
 
+const withAudioPreference = (
+  preferences: Record<string, ParticipantAudioPreference>,
+  userId: string,
+  updates: Partial<ParticipantAudioPreference>
+): Record<string, ParticipantAudioPreference> => {
+  const { [userId]: existing, ...rest } = preferences;
+  const next = { ...(existing ?? { volume: DEFAULT_PARTICIPANT_VOLUME, muted: false }), ...updates };
+  return isDefaultAudioPreference(next) ? rest : { ...rest, [userId]: next };
+};
+
 export const useAppStore = create<AppState>()(
   persist(
     (set) => ({
@@ -159,6 +197,8 @@ export const useAppStore = create<AppState>()(
   isAuthenticated: false,
   friends: [],
   anchors: [],
+  blockedUserIds: [],
+  availabilitySchedules: [],
   activeRooms: [],
   myRooms: [],
   currentRoom: null,
@@ -171,7 +211,11 @@ export const useAppStore = create<AppState>()(
   lowPowerMode: false,
   audioConnectionStatus: 'disconnected' as AudioConnectionStatus,
   audioError: null,
+  audioReconnectHistory: [],
   speakingParticipants: [],
+  participantAudioLevels: {},
+  participantAudioPreferences: {},
+  roomMicSettings: {},
   customMoods: [],
   activeCustomMood: null,
   notifications: [],
@@ -205,6 +249,10 @@ export const useAppStore = create<AppState>()(
 
   setAnchors: (anchors) => set({ anchors }),
 
+  setBlockedUserIds: (ids) => set({ blockedUserIds: ids }),
+
+  setAvailabilitySchedules: (schedules) => set({ availabilitySchedules: schedules }),
+
   setActiveRooms: (rooms) => set({ activeRooms: rooms }),
 
   setMyRooms: (rooms) => set({ myRooms: rooms }),
@@ -278,9 +326,11 @@ export const useAppStore = create<AppState>()(
   }),
 
   addNotification: (notification) => set((state) => {
-    // Prevent duplicates
-    if (state.notifications.some(n => n.id === notification.id)) return state;
-    const updated = [notification, ...state.notifications].slice(0, 200);
+    const existing = state.notifications.find(n => n.id === notification.id);
+    // Prevent duplicates, unless a group collapsed another notification into it
+    if (existing && (existing.group_count ?? 1) >= (notification.group_count ?? 1)) return state;
+    const others = existing ? state.notifications.filter(n => n.id !== notification.id) : state.notifications;
+    const updated = [notification, ...others].slice(0, 200);
     return {
       notifications: updated,
       unreadNotificationCount: updated.filter(n => !n.is_read).length,
@@ -324,6 +374,8 @@ export const useAppStore = create<AppState>()(
 
   setAudioError: (error) => set({ audioError: error }),
 
+  setAudioReconnectHistory: (history) => set({ audioReconnectHistory: history }),
+
   addSpeakingParticipant: (participantId) => set((state) => ({
     speakingParticipants: state.speakingParticipants.includes(participantId)
       ? state.speakingParticipants
@@ -334,7 +386,39 @@ export const useAppStore = create<AppState>()(
     speakingParticipants: state.speakingParticipants.filter(id => id !== participantId)
   })),
 
-  clearSpeakingParticipants: () => set({ speakingParticipants: [] }),
+  clearSpeakingParticipants: () => set({ speakingParticipants: [], participantAudioLevels: {} }),
+
+  setParticipantAudioLevels: (levels) => set((state) => {
+    const current = state.participantAudioLevels;
+    const ids = Object.keys(levels);
+    // Speaker updates arrive several times a second; skip ones that change nothing
+    const unchanged = ids.length === Object.keys(current).length && ids.every((id) => current[id] === levels[id]);
+    return unchanged ? state : { participantAudioLevels: levels };
+  }),
+
+  setParticipantVolume: (userId, volume) => set((state) => ({
+    participantAudioPreferences: withAudioPreference(state.participantAudioPreferences, userId, {
+      volume: Math.max(0, Math.min(1, volume)),
+    }),
+  })),
+
+  setParticipantMuted: (userId, muted) => set((state) => ({
+    participantAudioPreferences: withAudioPreference(state.participantAudioPreferences, userId, { muted }),
+  })),
+
+  setRoomMicMode: (roomId, mode) => set((state) => ({
+    roomMicSettings: {
+      ...state.roomMicSettings,
+      [roomId]: { ...(state.roomMicSettings[roomId] ?? DEFAULT_MIC_SETTINGS), mode },
+    },
+  })),
+
+  setRoomVadThreshold: (roomId, threshold) => set((state) => ({
+    roomMicSettings: {
+      ...state.roomMicSettings,
+      [roomId]: { ...(state.roomMicSettings[roomId] ?? DEFAULT_MIC_SETTINGS), vadThreshold: clampVadThreshold(threshold) },
+    },
+  })),
 
   setLastActivity: () => set({
     lastActivityTimestamp: Date.now(),
@@ -365,6 +449,8 @@ export const useAppStore = create<AppState>()(
     isAuthenticated: false,
     friends: [],
     anchors: [],
+    blockedUserIds: [],
+    availabilitySchedules: [],
     activeRooms: [],
     myRooms: [],
     currentRoom: null,
@@ -376,7 +462,11 @@ export const useAppStore = create<AppState>()(
     // Reset audio state
     audioConnectionStatus: 'disconnected' as AudioConnectionStatus,
     audioError: null,
+    audioReconnectHistory: [],
     speakingParticipants: [],
+    participantAudioLevels: {},
+    participantAudioPreferences: {},
+    roomMicSettings: {},
     // Reset custom moods
     customMoods: [],
     activeCustomMood: null,
@@ -406,6 +496,9 @@ export const useAppStore = create<AppState>()(
         lofiVolume: state.lofiVolume,
         lofiSelectedTrack: state.lofiSelectedTrack,
         favoriteFriends: state.favoriteFriends,
+        participantAudioPreferences: state.participantAudioPreferences,
+        roomMicSettings: state.roomMicSettings,
+        availabilitySchedules: state.availabilitySchedules,
         unreadNotificationCount: state.unreadNotificationCount,
       }),
     }
@@ -0,0 +1,54 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Check whether either user has blocked the other.
+ * Blocks are silent, so callers should respond as if the action succeeded
+ * without notifying anyone rather than returning an error.
+ */
+export async function isBlockedBetween(
+  supabase: SupabaseClient,
+  userA: string,
+  userB: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('is_blocked_between', {
+    p_user_a: userA,
+    p_user_b: userB,
+  });
+
+  if (error) {
+    console.error('Error checking block status:', error);
+    // Fail closed: never notify someone when we can't rule out a block
+    return true;
+  }
+
+  return data === true;
+}
+
+/**
+ * Return the subset of candidate ids that have a block in either direction with userId.
+ */
+export async function getBlockedUserIds(
+  supabase: SupabaseClient,
+  userId: string,
+  candidateIds: string[]
+): Promise<Set<string>> {
+  if (candidateIds.length === 0) return new Set();
+
+  const ids = candidateIds.join(',');
+  const { data, error } = await supabase
+    .from('blocks')
+    .select('blocker_id, blocked_id')
+    .or(`and(blocker_id.eq.${userId},blocked_id.in.(${ids})),and(blocked_id.eq.${userId},blocker_id.in.(${ids}))`);
+
+  if (error) {
+    console.error('Error fetching blocks:', error);
+    // Fail closed, same as isBlockedBetween
+    return new Set(candidateIds);
+  }
+
+  return new Set(
+    (data || []).map((b: any) => (b.blocker_id === userId ? b.blocked_id : b.blocker_id))
+  );
+}
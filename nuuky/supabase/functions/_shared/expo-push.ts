@@ -8,13 +8,15 @@
  * for background sync (like Discord/Slack pattern)
  */
 
-interface ExpoNotification {
+export interface ExpoNotification {
   title: string;
   body: string;
   data?: Record<string, any>;
   sound?: 'default' | null;
   badge?: number;
   priority?: 'default' | 'normal' | 'high';
+  // Action buttons the app registered under this id (lib/notificationActions.ts)
+  categoryId?: string;
 }
 
 interface ExpoPushMessage {
@@ -26,21 +28,45 @@ interface ExpoPushMessage {
   badge?: number;
   priority?: 'default' | 'normal' | 'high';
   channelId?: string;
+  categoryId?: string;
   // For silent/background notifications
   _contentAvailable?: boolean;
 }
 
-interface ExpoPushTicket {
+export interface ExpoPushTicket {
   status: 'ok' | 'error';
   id?: string;
   message?: string;
   details?: any;
+  // Which token the ticket is for; set by the batch senders
+  token?: string;
+}
+
+export interface ExpoPushReceipt {
+  status: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
 }
 
 interface ExpoPushResponse {
   data: ExpoPushTicket[];
 }
 
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+/**
+ * Expo's push endpoint, unless EXPO_PUSH_URL points somewhere else: the
+ * local stand-in in local-expo-push.ts when serving functions for tests.
+ */
+function getExpoPushUrl(): string {
+  return Deno.env.get('EXPO_PUSH_URL') || EXPO_PUSH_URL;
+}
+
+// Receipts live next to the send endpoint, on Expo and on the stand-in
+function getExpoReceiptsUrl(): string {
+  return getExpoPushUrl().replace(/\/send$/, '/getReceipts');
+}
+
 /**
  * Build headers for Expo Push API requests.
  * Includes Authorization if EXPO_ACCESS_TOKEN is set (required for Enhanced Push Security).
@@ -78,10 +104,11 @@ export async function sendExpoNotification(
     sound: notification.sound ?? 'default',
     badge: notification.badge,
     priority: notification.priority ?? 'high',
+    categoryId: notification.categoryId,
   };
 
   try {
-    const response = await fetch('https://exp.host/--/api/v2/push/send', {
+    const response = await fetch(getExpoPushUrl(), {
       method: 'POST',
       headers: getExpoPushHeaders(),
       body: JSON.stringify(message),
@@ -151,10 +178,11 @@ export async function sendBatchExpoNotifications(
       sound: notification.sound ?? 'default',
       badge: notification.badge,
       priority: notification.priority ?? 'high',
+      categoryId: notification.categoryId,
     }));
 
     try {
-      const response = await fetch('https://exp.host/--/api/v2/push/send', {
+      const response = await fetch(getExpoPushUrl(), {
         method: 'POST',
         headers: getExpoPushHeaders(),
         body: JSON.stringify(messages),
@@ -170,6 +198,8 @@ export async function sendBatchExpoNotifications(
       const result: ExpoPushResponse = await response.json();
 
       if (result.data) {
+        // Tickets come back in message order
+        result.data.forEach((ticket, i) => { ticket.token = batch[i]; });
         allTickets.push(...result.data);
 
         result.data.forEach(ticket => {
@@ -228,7 +258,7 @@ export async function sendSilentNotification(
   };
 
   try {
-    const response = await fetch('https://exp.host/--/api/v2/push/send', {
+    const response = await fetch(getExpoPushUrl(), {
       method: 'POST',
       headers: getExpoPushHeaders(),
       body: JSON.stringify(message),
@@ -296,7 +326,7 @@ export async function sendBatchSilentNotifications(
     }));
 
     try {
-      const response = await fetch('https://exp.host/--/api/v2/push/send', {
+      const response = await fetch(getExpoPushUrl(), {
         method: 'POST',
         headers: getExpoPushHeaders(),
         body: JSON.stringify(messages),
@@ -312,6 +342,7 @@ export async function sendBatchSilentNotifications(
       const result: ExpoPushResponse = await response.json();
 
       if (result.data) {
+        result.data.forEach((ticket, i) => { ticket.token = batch[i]; });
         allTickets.push(...result.data);
         result.data.forEach(ticket => {
           if (ticket.status === 'ok') {
@@ -336,3 +367,35 @@ export async function sendBatchSilentNotifications(
     tickets: allTickets,
   };
 }
+
+/**
+ * Fetch delivery receipts for ticket ids (at most 1000 per call).
+ * Expo keeps receipts for about a day after the push; ids it has no receipt
+ * for yet are simply missing from the result. Returns null if the request
+ * failed.
+ */
+export async function getExpoPushReceipts(
+  ticketIds: string[]
+): Promise<Record<string, ExpoPushReceipt> | null> {
+  if (ticketIds.length === 0) return {};
+
+  try {
+    const response = await fetch(getExpoReceiptsUrl(), {
+      method: 'POST',
+      headers: getExpoPushHeaders(),
+      body: JSON.stringify({ ids: ticketIds }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Fetching Expo push receipts failed:', error);
+      return null;
+    }
+
+    const result = await response.json();
+    return (result.data || {}) as Record<string, ExpoPushReceipt>;
+  } catch (error) {
+    console.error('Error fetching Expo push receipts:', error);
+    return null;
+  }
+}
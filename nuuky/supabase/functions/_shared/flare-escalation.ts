@@ -0,0 +1,323 @@
+/**
+ * Flare Escalation Helper
+ *
+ * A flare widens in tiers until somebody responds:
+ *   1 favorites -> 2 all friends -> 3 anchors (stronger push)
+ *
+ * dispatch-notifications sends the first tier and escalate-flares sends the
+ * later ones. Both go through escalateFlare(), which claims the tier
+ * atomically, delivers it and appends an entry to flares.escalation_log.
+ */
+
+import { getPushTokens } from './push-tokens.ts';
+import { getBlockedUserIds } from './blocks.ts';
+import { getQuietUserIds, holdPushes } from './quiet-hours.ts';
+import {
+  getNotificationChannels,
+  channelsFor,
+  isMuted,
+  sendToChannels,
+  NotificationChannels,
+  ALL_CHANNELS,
+} from './notification-preferences.ts';
+
+export type FlareTier = 1 | 2 | 3;
+
+export const FLARE_TIER_NAMES: Record<FlareTier, string> = {
+  1: 'favorites',
+  2: 'friends',
+  3: 'anchors',
+};
+
+export interface FlareEscalationEntry {
+  level: FlareTier;
+  tier: string;
+  at: string;
+  notified: string[];
+  held: string[];
+}
+
+interface FlareRow {
+  id: string;
+  user_id: string;
+  favorite_ids: string[] | null;
+  escalation_log: FlareEscalationEntry[] | null;
+}
+
+interface Recipient {
+  id: string;
+  display_name: string;
+  channels: NotificationChannels;
+}
+
+/**
+ * Friends who may receive this sender's flares: accepted, not blocked either
+ * way, not hidden from, and who haven't muted this sender's flares.
+ */
+async function getFlareFriends(supabase: any, senderId: string): Promise<Recipient[]> {
+  const { data: friendships, error } = await supabase
+    .from('friendships')
+    .select(`
+      friend_id,
+      visibility,
+      friend:friend_id (
+        id,
+        display_name
+      )
+    `)
+    .eq('user_id', senderId)
+    .eq('status', 'accepted');
+
+  if (error) {
+    console.error('Error fetching friends:', error);
+    throw error;
+  }
+  if (!friendships || friendships.length === 0) return [];
+
+  const friendIds = friendships.map((f: any) => f.friend_id);
+  const [channelMap, blockedIds] = await Promise.all([
+    getNotificationChannels(supabase, friendIds, 'flare', senderId),
+    getBlockedUserIds(supabase, senderId, friendIds),
+  ]);
+
+  return friendships
+    .filter((friendship: any) => {
+      if (!friendship.friend) return false;
+      if (blockedIds.has(friendship.friend_id)) return false;
+      // The sender has hidden themselves from this friend
+      if (friendship.visibility === 'hidden') return false;
+      if (isMuted(channelsFor(channelMap, friendship.friend_id))) {
+        console.log(`Skipping ${friendship.friend.display_name} - flares muted`);
+        return false;
+      }
+      return true;
+    })
+    .map((friendship: any) => ({
+      ...friendship.friend,
+      channels: channelsFor(channelMap, friendship.friend_id),
+    }));
+}
+
+/**
+ * The sender's anchors. Anchors opted into being reached in a crisis, so
+ * flare preferences and quiet hours don't apply; blocks still do.
+ */
+async function getFlareAnchors(supabase: any, senderId: string): Promise<Recipient[]> {
+  const { data: anchors, error } = await supabase
+    .from('anchors')
+    .select(`
+      anchor_id,
+      anchor:anchor_id (
+        id,
+        display_name
+      )
+    `)
+    .eq('user_id', senderId);
+
+  if (error) {
+    console.error('Error fetching anchors:', error);
+    throw error;
+  }
+  if (!anchors || anchors.length === 0) return [];
+
+  const blockedIds = await getBlockedUserIds(supabase, senderId, anchors.map((a: any) => a.anchor_id));
+  return anchors
+    .filter((a: any) => a.anchor && !blockedIds.has(a.anchor_id))
+    .map((a: any) => ({ ...a.anchor, channels: ALL_CHANNELS }));
+}
+
+/**
+ * Claim, deliver and log one escalation tier.
+ * Returns null when the tier was already reached or the flare was answered.
+ */
+export async function escalateFlare(
+  supabase: any,
+  flareId: string,
+  level: FlareTier
+): Promise<FlareEscalationEntry | null> {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_flare_escalation', {
+    p_flare_id: flareId,
+    p_level: level,
+  });
+
+  if (claimError) {
+    console.error('Error claiming flare escalation:', claimError);
+    throw claimError;
+  }
+  if (!claimed) return null;
+
+  const flare = claimed as FlareRow;
+  const senderId = flare.user_id;
+
+  const { data: sender, error: senderError } = await supabase
+    .from('users')
+    .select('display_name, avatar_url')
+    .eq('id', senderId)
+    .single();
+
+  if (senderError || !sender) {
+    console.error('Flare sender not found:', senderError);
+    throw senderError || new Error('Flare sender not found');
+  }
+
+  // Choose recipients for this tier, skipping anyone an earlier tier reached
+  const alreadyNotified = new Set(
+    (flare.escalation_log || []).flatMap((entry) => [...entry.notified, ...entry.held])
+  );
+  let recipients: Recipient[];
+  if (level === 3) {
+    recipients = await getFlareAnchors(supabase, senderId);
+  } else {
+    const friends = await getFlareFriends(supabase, senderId);
+    const favorites = new Set(flare.favorite_ids || []);
+    recipients = friends.filter((f) =>
+      level === 1 ? favorites.has(f.id) : !alreadyNotified.has(f.id)
+    );
+  }
+
+  const isAnchorTier = level === 3;
+  const title = isAnchorTier
+    ? '🚨 FLARE from ' + sender.display_name
+    : '🚨 Flare from ' + sender.display_name;
+  const body = isAnchorTier
+    ? `${sender.display_name} needs support right now and nobody has responded yet.`
+    : `${sender.display_name} sent a flare. They might need company or support.`;
+  const pushData = {
+    type: 'flare',
+    user_id: senderId,
+    user_name: sender.display_name,
+    flare_id: flareId,
+    is_anchor: isAnchorTier ? 'true' : 'false',
+    escalation_level: level.toString(),
+  };
+
+  // Anchors are always reached; friends in quiet hours get a held push
+  const [quietIds, tokensByUser] = await Promise.all([
+    isAnchorTier
+      ? Promise.resolve(new Set<string>())
+      : getQuietUserIds(supabase, recipients.map((r) => r.id)),
+    getPushTokens(supabase, recipients.map((r) => r.id)),
+  ]);
+
+  // Recipients who want the same channels share one send
+  const groups = new Map<string, { channels: NotificationChannels; tokens: string[] }>();
+  const notified: string[] = [];
+  const held: string[] = [];
+  for (const recipient of recipients) {
+    const quiet = quietIds.has(recipient.id);
+    if (quiet && recipient.channels.push) {
+      held.push(recipient.id);
+    } else {
+      notified.push(recipient.id);
+    }
+
+    const channels = quiet ? { ...recipient.channels, push: false } : recipient.channels;
+    const key = `${channels.push}:${channels.banner}:${channels.silent}`;
+    const group = groups.get(key) || { channels, tokens: [] };
+    group.tokens.push(...(tokensByUser.get(recipient.id) || []));
+    groups.set(key, group);
+  }
+
+  const pushPromises: Promise<any>[] = [];
+
+  if (recipients.length > 0) {
+    pushPromises.push(
+      supabase.from('notifications').insert(recipients.map((recipient) => ({
+        user_id: recipient.id,
+        type: 'flare',
+        title,
+        body,
+        data: {
+          sender_id: senderId,
+          sender_name: sender.display_name,
+          sender_avatar_url: sender.avatar_url,
+          flare_id: flareId,
+          escalation_level: level,
+        },
+        source_id: senderId,
+        source_type: 'flare',
+      }))).then(({ error }: any) => {
+        if (error) console.error('Failed to insert notifications:', error);
+      })
+    );
+  }
+
+  let sent = 0;
+  for (const group of groups.values()) {
+    if (group.tokens.length === 0) continue;
+    pushPromises.push(
+      sendToChannels(supabase, group.tokens, group.channels, {
+        title,
+        body,
+        data: pushData,
+        sound: 'default' as const,
+        priority: 'high' as const,
+        categoryId: 'flare',
+      }, {
+        sync_type: 'sync_flares',
+        notification_type: 'flare',
+        sender_id: senderId,
+        sender_name: sender.display_name,
+        flare_id: flareId,
+      }).then((result) => {
+        sent += result?.success ?? 0;
+      })
+    );
+  }
+
+  if (held.length > 0) {
+    const heldIds = new Set(held);
+    pushPromises.push(
+      holdPushes(supabase, recipients
+        .filter((r) => heldIds.has(r.id) && tokensByUser.has(r.id))
+        .map((r) => ({
+          user_id: r.id,
+          notification_type: 'flare',
+          sender_id: senderId,
+          title,
+          body,
+          data: pushData,
+        })))
+    );
+  }
+
+  await Promise.all(pushPromises);
+
+  const entry: FlareEscalationEntry = {
+    level,
+    tier: FLARE_TIER_NAMES[level],
+    at: new Date().toISOString(),
+    notified,
+    held,
+  };
+
+  const { error: logError } = await supabase.rpc('log_flare_escalation', {
+    p_flare_id: flareId,
+    p_entry: entry,
+  });
+  if (logError) {
+    console.error('Failed to log flare escalation:', logError);
+  }
+
+  console.log(`✓ Flare ${flareId} tier ${entry.tier}: ${notified.length} notified (${sent} pushes), ${held.length} held`);
+  return entry;
+}
+
+/**
+ * Send the first tier of a new flare. Favorites hear first; with no
+ * favorites, or none of them reachable right now, it starts at all friends.
+ * Returns null when the flare was already sent or answered.
+ */
+export async function sendFirstFlareTier(
+  supabase: any,
+  flareId: string,
+  favoriteIds: string[]
+): Promise<FlareEscalationEntry | null> {
+  let entry = await escalateFlare(supabase, flareId, favoriteIds.length > 0 ? 1 : 2);
+
+  if (entry && entry.level === 1 && entry.notified.length === 0) {
+    entry = await escalateFlare(supabase, flareId, 2) ?? entry;
+  }
+
+  return entry;
+}
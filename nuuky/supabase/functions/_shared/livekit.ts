@@ -0,0 +1,122 @@
+import { RoomServiceClient, TrackType } from 'npm:livekit-server-sdk@2';
+
+export type RoomRole = 'owner' | 'moderator' | 'member' | 'listener';
+
+export const ROOM_ROLES: RoomRole[] = ['owner', 'moderator', 'member', 'listener'];
+
+export interface RoomPermissions {
+  canSubscribe: boolean;
+  canPublish: boolean;
+  canPublishData: boolean;
+}
+
+/**
+ * LiveKit grants for a room role. Listeners hear the room but can't publish
+ * audio; the room decides whether they can still send reactions over the
+ * data channel or only subscribe.
+ */
+export function permissionsForRole(role: RoomRole, listenersCanReact = true): RoomPermissions {
+  const isListener = role === 'listener';
+  return {
+    canSubscribe: true,
+    canPublish: !isListener,
+    canPublishData: !isListener || listenersCanReact,
+  };
+}
+
+/**
+ * Server API client for live moderation, or null when LiveKit isn't configured.
+ * LIVEKIT_URL is the client websocket URL; the server API is served over http(s)
+ * on the same host.
+ */
+export function getRoomService(): RoomServiceClient | null {
+  const apiKey = Deno.env.get('LIVEKIT_API_KEY');
+  const apiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+  const livekitUrl = Deno.env.get('LIVEKIT_URL');
+
+  if (!apiKey || !apiSecret || !livekitUrl) {
+    console.error('LiveKit not configured', {
+      apiKey: !!apiKey,
+      apiSecret: !!apiSecret,
+      livekitUrl: !!livekitUrl,
+    });
+    return null;
+  }
+
+  return new RoomServiceClient(livekitUrl.replace(/^ws/, 'http'), apiKey, apiSecret);
+}
+
+// Someone who isn't connected right now has nothing to moderate live
+function isNotConnected(error: any): boolean {
+  return error?.status === 404 || error?.code === 'not_found';
+}
+
+/**
+ * Mute every audio track the participant is publishing.
+ * Returns false only when the LiveKit call failed.
+ */
+export async function muteParticipantAudio(
+  roomService: RoomServiceClient,
+  roomId: string,
+  userId: string
+): Promise<boolean> {
+  try {
+    const participant = await roomService.getParticipant(roomId, userId);
+    const audioTracks = participant.tracks.filter(
+      (track) => track.type === TrackType.AUDIO && !track.muted
+    );
+
+    for (const track of audioTracks) {
+      await roomService.mutePublishedTrack(roomId, userId, track.sid, true);
+    }
+    return true;
+  } catch (error) {
+    if (isNotConnected(error)) return true;
+    console.error(`Failed to mute ${userId} in room ${roomId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Disconnect the participant now instead of waiting for their token to expire.
+ */
+export async function removeFromLiveKit(
+  roomService: RoomServiceClient,
+  roomId: string,
+  userId: string
+): Promise<boolean> {
+  try {
+    await roomService.removeParticipant(roomId, userId);
+    return true;
+  } catch (error) {
+    if (isNotConnected(error)) return true;
+    console.error(`Failed to remove ${userId} from room ${roomId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Apply a role's grants to a connected participant. LiveKit unpublishes
+ * their tracks itself when canPublish is revoked.
+ */
+export async function updateLiveKitPermissions(
+  roomService: RoomServiceClient,
+  roomId: string,
+  userId: string,
+  role: RoomRole,
+  listenersCanReact = true
+): Promise<boolean> {
+  try {
+    await roomService.updateParticipant(
+      roomId,
+      userId,
+      undefined,
+      permissionsForRole(role, listenersCanReact)
+    );
+    return true;
+  } catch (error) {
+    if (isNotConnected(error)) return true;
+    console.error(`Failed to update permissions for ${userId} in room ${roomId}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Local Expo Push Stand-in
+ *
+ * A tiny server that answers like https://exp.host/--/api/v2/push/send (and
+ * its getReceipts sibling) and keeps every message it receives, so the
+ * dispatcher can be exercised end to end without reaching real devices.
+ * Point the functions at it with
+ *
+ *   EXPO_PUSH_URL=http://localhost:8787/--/api/v2/push/send
+ *
+ * and either import startLocalExpoPush() from a test, or run this file
+ * directly (deno run --allow-net local-expo-push.ts) to log pushes while
+ * serving functions locally.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+
+export interface RecordedPush {
+  to: string;
+  title?: string;
+  body?: string;
+  data?: Record<string, any>;
+  priority?: string;
+  _contentAvailable?: boolean;
+}
+
+export interface LocalExpoPush {
+  url: string;
+  messages: RecordedPush[];
+  // Tokens answered with a DeviceNotRegistered ticket
+  failTokens: Set<string>;
+  // Tokens accepted at send time whose receipt says DeviceNotRegistered
+  unregisteredTokens: Set<string>;
+  // Answer the next N requests with a 503, to exercise retries
+  failNextRequests: (count: number) => void;
+  clear: () => void;
+  close: () => Promise<void>;
+}
+
+const PUSH_PATH = '/--/api/v2/push/send';
+const RECEIPTS_PATH = '/--/api/v2/push/getReceipts';
+
+export function startLocalExpoPush(port = 8787): LocalExpoPush {
+  const controller = new AbortController();
+  const messages: RecordedPush[] = [];
+  const failTokens = new Set<string>();
+  const unregisteredTokens = new Set<string>();
+  // Ticket id -> token, for answering receipt requests
+  const tickets = new Map<string, string>();
+  let failingRequests = 0;
+
+  const server = serve(async (req) => {
+    const { pathname } = new URL(req.url);
+    if (req.method !== 'POST' || (pathname !== PUSH_PATH && pathname !== RECEIPTS_PATH)) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    if (failingRequests > 0) {
+      failingRequests--;
+      return new Response('Service unavailable', { status: 503 });
+    }
+
+    if (pathname === RECEIPTS_PATH) {
+      const { ids = [] } = await req.json();
+      const receipts: Record<string, unknown> = {};
+      for (const id of ids as string[]) {
+        const token = tickets.get(id);
+        if (!token) continue;
+        receipts[id] = unregisteredTokens.has(token)
+          ? {
+              status: 'error',
+              message: `"${token}" is not a registered push notification recipient`,
+              details: { error: 'DeviceNotRegistered' },
+            }
+          : { status: 'ok' };
+      }
+      return new Response(JSON.stringify({ data: receipts }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const payload = await req.json();
+    const batch: RecordedPush[] = Array.isArray(payload) ? payload : [payload];
+
+    const sent = batch.map((message, i) => {
+      if (!message.to?.startsWith('ExponentPushToken[') || failTokens.has(message.to)) {
+        return {
+          status: 'error',
+          message: `"${message.to}" is not a registered push notification recipient`,
+          details: { error: 'DeviceNotRegistered' },
+        };
+      }
+      messages.push(message);
+      console.log(`[local-expo-push] ${message._contentAvailable ? 'silent' : 'visible'} -> ${message.to}`, message.title ?? message.data);
+      const id = `local-${messages.length}-${i}`;
+      tickets.set(id, message.to);
+      return { status: 'ok', id };
+    });
+
+    return new Response(JSON.stringify({ data: sent }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }, { port, signal: controller.signal, onListen: () => {} });
+
+  return {
+    url: `http://localhost:${port}${PUSH_PATH}`,
+    messages,
+    failTokens,
+    unregisteredTokens,
+    failNextRequests: (count) => { failingRequests = count; },
+    clear: () => {
+      messages.length = 0;
+      failTokens.clear();
+      unregisteredTokens.clear();
+      tickets.clear();
+      failingRequests = 0;
+    },
+    close: async () => {
+      controller.abort();
+      await server;
+    },
+  };
+}
+
+if (import.meta.main) {
+  const port = Number(Deno.env.get('LOCAL_EXPO_PUSH_PORT') || 8787);
+  const push = startLocalExpoPush(port);
+  console.log(`Local Expo push listening on ${push.url}`);
+}
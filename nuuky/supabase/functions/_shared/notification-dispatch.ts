@@ -0,0 +1,386 @@
+/**
+ * Notification Dispatch
+ *
+ * Turns one notification_outbox entry into the receiver's in-app
+ * notification and device push. Every source goes through the steps each
+ * send-*-notification function used to repeat on its own: blocks, the
+ * receiver's channels for the type and sender, the in-app row (collapsed
+ * into its group for grouped types), then a push or a quiet-hours hold.
+ *
+ * Throwing means "try again later": dispatch-notifications backs the entry
+ * off and retries it. The in-app row is looked up before it is written, so a
+ * retry after a failed push never adds a second one.
+ */
+
+import { getPushTokens } from './push-tokens.ts';
+import { isBlockedBetween } from './blocks.ts';
+import { isInQuietHours, holdPushes } from './quiet-hours.ts';
+import { sendFirstFlareTier } from './flare-escalation.ts';
+import { getNotificationChannels, channelsFor, isMuted, sendToChannels } from './notification-preferences.ts';
+import { isGroupedType, collectNotification } from './notification-groups.ts';
+
+export type OutboxSourceType =
+  | 'nudge'
+  | 'flare'
+  | 'room_invite'
+  | 'photo_nudge'
+  | 'voice_moment'
+  | 'call_me'
+  | 'photo_like'
+  | 'voice_moment_reaction';
+
+export interface OutboxEntry {
+  id: string;
+  source_type: OutboxSourceType;
+  source_id: string;
+  payload: Record<string, any>;
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface DispatchResult {
+  status: 'sent' | 'skipped';
+  reason: string;
+}
+
+const REACTION_EMOJI: Record<string, string> = {
+  heart: '❤️',
+  laugh: '😂',
+  wow: '😮',
+  applause: '👏',
+  aww: '🥺',
+  party: '🎉',
+};
+
+// Wait after the 1st, 2nd, ... failed attempt; the last one repeats
+const RETRY_DELAYS_SECONDS = [15, 60, 300, 900, 3600];
+
+/**
+ * Seconds to wait before retrying an entry that has failed `attempts` times,
+ * with ±20% jitter so a burst of failures doesn't retry in lockstep.
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  const index = Math.min(Math.max(attempts, 1), RETRY_DELAYS_SECONDS.length) - 1;
+  return Math.round(RETRY_DELAYS_SECONDS[index] * (0.8 + Math.random() * 0.4));
+}
+
+interface Sender {
+  display_name: string;
+  avatar_url: string | null;
+}
+
+interface DirectNotification {
+  type: OutboxSourceType;
+  sourceId: string;
+  senderId: string;
+  receiverId: string;
+  syncType?: 'sync_notifications' | 'sync_rooms';
+  // Action buttons on the push, registered by the app under this id
+  categoryId?: string;
+  build: (sender: Sender) => Promise<{ title: string; body: string; data: Record<string, any> }>;
+}
+
+function skipped(reason: string): DispatchResult {
+  console.log(`Skipping notification - ${reason}`);
+  return { status: 'skipped', reason };
+}
+
+/**
+ * Deliver a notification from one sender to one receiver.
+ */
+async function deliverDirect(supabase: any, n: DirectNotification): Promise<DispatchResult> {
+  // Blocks are silent: the sender was told it went through
+  if (await isBlockedBetween(supabase, n.senderId, n.receiverId)) {
+    return skipped('blocked');
+  }
+
+  const [senderResult, receiverResult, channelMap, quietHours, pushTokens] = await Promise.all([
+    supabase.from('users').select('display_name, avatar_url').eq('id', n.senderId).maybeSingle(),
+    supabase.from('users').select('display_name').eq('id', n.receiverId).maybeSingle(),
+    getNotificationChannels(supabase, [n.receiverId], n.type, n.senderId),
+    isInQuietHours(supabase, n.receiverId),
+    getPushTokens(supabase, [n.receiverId]),
+  ]);
+
+  if (senderResult.error) throw senderResult.error;
+  if (receiverResult.error) throw receiverResult.error;
+
+  const sender = senderResult.data as Sender | null;
+  const receiver = receiverResult.data;
+
+  // Deleted accounts: nothing to announce and nobody to tell
+  if (!sender) return skipped('sender not found');
+  if (!receiver) return skipped('receiver not found');
+
+  const channels = channelsFor(channelMap, n.receiverId);
+  if (isMuted(channels)) {
+    return skipped(`${receiver.display_name} has muted ${n.type} notifications`);
+  }
+
+  let { title, body, data } = await n.build(sender);
+  let notificationId: string;
+
+  if (isGroupedType(n.type)) {
+    // Collapses into the sender's open group and dedupes retries itself
+    ({ title, body, data, notificationId } = await collectNotification(supabase, {
+      userId: n.receiverId,
+      type: n.type,
+      title,
+      body,
+      data,
+      sourceId: n.sourceId,
+      sourceType: n.type,
+      sender: { id: n.senderId, ...sender },
+    }));
+  } else {
+    const { data: existing, error: existingError } = await supabase
+      .from('notifications')
+      .select('id')
+      .eq('source_type', n.type)
+      .eq('source_id', n.sourceId)
+      .eq('user_id', n.receiverId)
+      .limit(1);
+
+    if (existingError) throw existingError;
+
+    if (existing && existing.length > 0) {
+      notificationId = existing[0].id;
+    } else {
+      const { data: inserted, error: insertError } = await supabase
+        .from('notifications')
+        .insert({
+          user_id: n.receiverId,
+          type: n.type,
+          title,
+          body,
+          data,
+          source_id: n.sourceId,
+          source_type: n.type,
+        })
+        .select('id')
+        .single();
+      if (insertError) throw insertError;
+      notificationId = inserted.id;
+    }
+  }
+
+  // An action button answered from the tray records its outcome on this row
+  data = { ...data, notification_id: notificationId };
+
+  const tokens = pushTokens.get(n.receiverId) || [];
+  if (tokens.length === 0) {
+    return { status: 'sent', reason: 'in-app only, no push token' };
+  }
+
+  const { count: unread } = channels.push && !quietHours
+    ? await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', n.receiverId)
+        .eq('is_read', false)
+    : { count: null };
+
+  const pushed = await sendToChannels(
+    supabase,
+    tokens,
+    channels,
+    { title, body, data, sound: 'default', priority: 'high', badge: unread ?? undefined, categoryId: n.categoryId },
+    { sync_type: n.syncType ?? 'sync_notifications', notification_type: n.type, ...data },
+    // Quiet hours: hold the visible push for the end-of-window summary
+    quietHours
+      ? () => holdPushes(supabase, [{
+          user_id: n.receiverId,
+          notification_type: n.type,
+          sender_id: n.senderId,
+          title,
+          body,
+          data,
+        }])
+      : undefined
+  );
+
+  // Retry only if no device got it and it wasn't just dead devices
+  if (pushed && pushed.success === 0 && pushed.failed > pushed.pruned) {
+    throw new Error(`Push to ${receiver.display_name} failed`);
+  }
+
+  if (!channels.push) return { status: 'sent', reason: 'push turned off' };
+  return { status: 'sent', reason: quietHours ? 'held for quiet hours' : 'pushed' };
+}
+
+/**
+ * Deliver one outbox entry.
+ */
+export async function dispatchOutboxEntry(
+  supabase: any,
+  entry: OutboxEntry
+): Promise<DispatchResult> {
+  const row = entry.payload;
+
+  switch (entry.source_type) {
+    case 'nudge':
+      return deliverDirect(supabase, {
+        type: 'nudge',
+        sourceId: entry.source_id,
+        senderId: row.sender_id,
+        receiverId: row.receiver_id,
+        categoryId: 'nudge',
+        build: async (sender) => ({
+          title: '👋 Nudge from ' + sender.display_name,
+          body: `${sender.display_name} is thinking of you`,
+          data: {
+            type: 'nudge',
+            sender_id: row.sender_id,
+            sender_name: sender.display_name,
+            sender_avatar_url: sender.avatar_url,
+          },
+        }),
+      });
+
+    case 'call_me':
+      return deliverDirect(supabase, {
+        type: 'call_me',
+        sourceId: entry.source_id,
+        senderId: row.sender_id,
+        receiverId: row.receiver_id,
+        build: async (sender) => ({
+          title: '📞 ' + sender.display_name + ' wants to talk',
+          body: `${sender.display_name} is asking you to call them`,
+          data: {
+            type: 'call_me',
+            sender_id: row.sender_id,
+            sender_name: sender.display_name,
+            sender_avatar_url: sender.avatar_url,
+            room_id: row.room_id ?? undefined,
+          },
+        }),
+      });
+
+    case 'photo_nudge':
+      return deliverDirect(supabase, {
+        type: 'photo_nudge',
+        sourceId: entry.source_id,
+        senderId: row.sender_id,
+        receiverId: row.receiver_id,
+        categoryId: 'heart',
+        build: async (sender) => ({
+          title: `📷 Photo from ${sender.display_name}`,
+          body: row.caption
+            ? `${sender.display_name}: ${row.caption}`
+            : `${sender.display_name} sent you a moment`,
+          data: {
+            type: 'photo_nudge',
+            sender_id: row.sender_id,
+            sender_name: sender.display_name,
+            sender_avatar_url: sender.avatar_url,
+            photo_nudge_id: entry.source_id,
+          },
+        }),
+      });
+
+    case 'voice_moment':
+      return deliverDirect(supabase, {
+        type: 'voice_moment',
+        sourceId: entry.source_id,
+        senderId: row.sender_id,
+        receiverId: row.receiver_id,
+        categoryId: 'heart',
+        build: async (sender) => ({
+          title: `🎙️ Voice from ${sender.display_name}`,
+          body: row.caption
+            ? `${sender.display_name}: ${row.caption}`
+            : `${sender.display_name} sent you a voice moment`,
+          data: {
+            type: 'voice_moment',
+            sender_id: row.sender_id,
+            sender_name: sender.display_name,
+            sender_avatar_url: sender.avatar_url,
+            voice_moment_id: entry.source_id,
+          },
+        }),
+      });
+
+    // Reactions come from whoever the moment was sent to, and go back to
+    // the person who sent it
+    case 'photo_like':
+      return deliverDirect(supabase, {
+        type: 'photo_like',
+        sourceId: entry.source_id,
+        senderId: row.receiver_id,
+        receiverId: row.sender_id,
+        build: async (sender) => ({
+          title: `${sender.display_name} liked your photo`,
+          body: 'Tap to see your photo',
+          data: {
+            type: 'photo_like',
+            sender_id: row.receiver_id,
+            sender_name: sender.display_name,
+            sender_avatar_url: sender.avatar_url,
+            photo_nudge_id: row.id,
+          },
+        }),
+      });
+
+    case 'voice_moment_reaction':
+      return deliverDirect(supabase, {
+        type: 'voice_moment_reaction',
+        sourceId: entry.source_id,
+        senderId: row.receiver_id,
+        receiverId: row.sender_id,
+        build: async (sender) => ({
+          title: `${REACTION_EMOJI[row.reaction] || '💬'} ${sender.display_name} reacted to your voice moment`,
+          body: 'Tap to see your voice moment',
+          data: {
+            type: 'voice_moment_reaction',
+            sender_id: row.receiver_id,
+            sender_name: sender.display_name,
+            sender_avatar_url: sender.avatar_url,
+            voice_moment_id: row.id,
+            reaction_type: row.reaction,
+          },
+        }),
+      });
+
+    case 'room_invite':
+      return deliverDirect(supabase, {
+        type: 'room_invite',
+        sourceId: entry.source_id,
+        senderId: row.sender_id,
+        receiverId: row.receiver_id,
+        syncType: 'sync_rooms',
+        categoryId: 'room_invite',
+        build: async (sender) => {
+          const { data: room, error } = await supabase
+            .from('rooms')
+            .select('name')
+            .eq('id', row.room_id)
+            .maybeSingle();
+          if (error) throw error;
+
+          const roomName = room?.name || 'a room';
+          return {
+            title: '🎙️ Room Invite from ' + sender.display_name,
+            body: `${sender.display_name} invited you to join ${roomName}`,
+            data: {
+              type: 'room_invite',
+              room_id: row.room_id,
+              room_name: roomName,
+              invite_id: entry.source_id,
+              sender_id: row.sender_id,
+              sender_name: sender.display_name,
+            },
+          };
+        },
+      });
+
+    case 'flare': {
+      const tier = await sendFirstFlareTier(supabase, entry.source_id, row.favorite_ids || []);
+      return tier
+        ? { status: 'sent', reason: `tier ${tier.tier}: ${tier.notified.length} notified, ${tier.held.length} held` }
+        : skipped('flare already sent or answered');
+    }
+
+    default:
+      return skipped(`unknown source type ${entry.source_type}`);
+  }
+}
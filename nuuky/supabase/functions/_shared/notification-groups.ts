@@ -0,0 +1,172 @@
+/**
+ * Notification Groups
+ *
+ * High-volume types collapse into one in-app row per group while it is
+ * unread: "Maya nudged you 4 times", "3 friends reacted to your voice
+ * moment". collect_grouped_notification does the collapsing atomically;
+ * this module picks the group and rewrites the row's title and body to
+ * match what it now stands for. The push that follows uses the same text
+ * and carries the group_key, so the app can replace the earlier ones.
+ */
+
+export interface GroupItem {
+  // Unique per collapsed notification; a retry with the same key is ignored
+  key: string;
+  sender_id: string;
+  sender_name: string;
+  sender_avatar_url: string | null;
+  title: string;
+  created_at: string;
+}
+
+export interface GroupedNotification {
+  userId: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+  sourceId: string;
+  sourceType: string;
+  sender: { id: string; display_name: string; avatar_url: string | null };
+}
+
+export interface CollectedNotification {
+  // The row the notification was saved or collapsed into
+  notificationId: string;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+  count: number;
+  // Already collected by an earlier attempt
+  duplicate: boolean;
+}
+
+interface GroupRule {
+  windowMinutes: number;
+  groupKey: (n: GroupedNotification) => string;
+  itemKey: (n: GroupedNotification) => string;
+  text: (items: GroupItem[], count: number) => { title: string; body: string };
+}
+
+/**
+ * "Maya", "Maya and Sam", "3 friends"
+ */
+export function describeSenders(items: GroupItem[]): string {
+  const names = Array.from(new Set(items.map((i) => i.sender_id)))
+    .map((id) => items.find((i) => i.sender_id === id)!.sender_name);
+
+  if (names.length === 1) return names[0];
+  if (names.length === 2) return `${names[0]} and ${names[1]}`;
+  return `${names.length} friends`;
+}
+
+const GROUP_RULES: Record<string, GroupRule> = {
+  nudge: {
+    windowMinutes: 60,
+    groupKey: (n) => `nudge:${n.sender.id}`,
+    itemKey: (n) => n.sourceId,
+    text: (items, count) => ({
+      title: `👋 ${items[0].sender_name} nudged you ${count} times`,
+      body: `${items[0].sender_name} is really thinking of you`,
+    }),
+  },
+  photo_like: {
+    windowMinutes: 24 * 60,
+    groupKey: (n) => `photo_like:${n.data.photo_nudge_id}`,
+    // Liking the same photo twice is still one like
+    itemKey: (n) => n.sender.id,
+    text: (items) => ({
+      title: `${describeSenders(items)} liked your photo`,
+      body: 'Tap to see your photo',
+    }),
+  },
+  voice_moment_reaction: {
+    windowMinutes: 24 * 60,
+    groupKey: (n) => `voice_moment_reaction:${n.data.voice_moment_id}`,
+    itemKey: (n) => `${n.sender.id}:${n.data.reaction_type}`,
+    text: (items, count) => {
+      const senders = describeSenders(items);
+      const reacted = senders === items[0].sender_name && count > 1
+        ? `reacted ${count} times`
+        : 'reacted';
+      return {
+        title: `💬 ${senders} ${reacted} to your voice moment`,
+        body: 'Tap to see your voice moment',
+      };
+    },
+  },
+};
+
+export function isGroupedType(type: string): boolean {
+  return type in GROUP_RULES;
+}
+
+/**
+ * Save the in-app notification, collapsing it into its open group. Returns
+ * the text and data the push should use.
+ */
+export async function collectNotification(
+  supabase: any,
+  n: GroupedNotification
+): Promise<CollectedNotification> {
+  const rule = GROUP_RULES[n.type];
+  if (!rule) throw new Error(`${n.type} notifications are not grouped`);
+
+  const groupKey = rule.groupKey(n);
+  const item: GroupItem = {
+    key: rule.itemKey(n),
+    sender_id: n.sender.id,
+    sender_name: n.sender.display_name,
+    sender_avatar_url: n.sender.avatar_url,
+    title: n.title,
+    created_at: new Date().toISOString(),
+  };
+
+  const { data, error } = await supabase.rpc('collect_grouped_notification', {
+    p_user_id: n.userId,
+    p_type: n.type,
+    p_group_key: groupKey,
+    p_window_minutes: rule.windowMinutes,
+    p_title: n.title,
+    p_body: n.body,
+    p_data: n.data,
+    p_source_id: n.sourceId,
+    p_source_type: n.sourceType,
+    p_item: item,
+  });
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  const count: number = row?.group_count ?? 1;
+  const pushData = { ...n.data, group_key: groupKey };
+
+  if (!row || count === 1) {
+    return {
+      notificationId: row?.notification_id,
+      title: n.title,
+      body: n.body,
+      data: pushData,
+      count,
+      duplicate: !!row?.duplicate,
+    };
+  }
+
+  const { title, body } = rule.text(row.group_items as GroupItem[], count);
+
+  // A retry leaves the text as it is; otherwise the row catches up, unless
+  // a newer notification already collapsed into it and wrote its own
+  if (!row.duplicate) {
+    const { error: updateError } = await supabase
+      .from('notifications')
+      .update({ title, body })
+      .eq('id', row.notification_id)
+      .eq('group_count', count);
+
+    if (updateError) {
+      console.error('Failed to update grouped notification text:', updateError);
+    }
+  }
+
+  return { notificationId: row.notification_id, title, body, data: pushData, count, duplicate: row.duplicate };
+}
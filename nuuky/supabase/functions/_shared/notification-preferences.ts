@@ -0,0 +1,108 @@
+/**
+ * Notification Preferences Helper
+ *
+ * Each recipient decides, per notification type and optionally per friend,
+ * which channels a notification reaches: the device push, the in-app
+ * banner, and the silent sync push. get_notification_channels resolves the
+ * matrix; every sender asks it before writing anything and skips recipients
+ * who have muted the type altogether.
+ */
+
+import { ExpoNotification } from './expo-push.ts';
+import { sendPush, sendSilentPush, PushResult } from './push-tokens.ts';
+
+export interface NotificationChannels {
+  push: boolean;
+  banner: boolean;
+  silent: boolean;
+}
+
+export const ALL_CHANNELS: NotificationChannels = { push: true, banner: true, silent: true };
+
+/**
+ * Channels per recipient for a notification of `type` caused by `senderId`.
+ * Fails open (all channels) so an RPC outage never silently swallows
+ * notifications.
+ */
+export async function getNotificationChannels(
+  supabase: any,
+  userIds: string[],
+  type: string,
+  senderId: string | null = null
+): Promise<Map<string, NotificationChannels>> {
+  const channels = new Map<string, NotificationChannels>();
+  if (userIds.length === 0) return channels;
+
+  const { data, error } = await supabase.rpc('get_notification_channels', {
+    p_user_ids: userIds,
+    p_type: type,
+    p_sender_id: senderId,
+  });
+
+  if (error) {
+    console.error('Error resolving notification preferences:', error);
+    return channels;
+  }
+
+  for (const row of data || []) {
+    channels.set(row.user_id, { push: row.push, banner: row.banner, silent: row.silent });
+  }
+  return channels;
+}
+
+export function channelsFor(
+  channels: Map<string, NotificationChannels>,
+  userId: string
+): NotificationChannels {
+  return channels.get(userId) ?? ALL_CHANNELS;
+}
+
+export function isMuted(channels: NotificationChannels): boolean {
+  return !channels.push && !channels.banner && !channels.silent;
+}
+
+/**
+ * Send what the recipient's channels allow to their devices. The visible
+ * push is replaced by `holdForQuietHours` when given. A banner without a
+ * push rides on a data-only push, since a visible one would also reach the
+ * lock screen.
+ *
+ * Returns the visible push's result, or null when none was sent.
+ */
+export async function sendToChannels(
+  supabase: any,
+  tokens: string[],
+  channels: NotificationChannels,
+  notification: ExpoNotification,
+  sync: Record<string, any>,
+  holdForQuietHours?: () => Promise<unknown>
+): Promise<PushResult | null> {
+  let pushed: PushResult | null = null;
+
+  if (channels.push) {
+    if (holdForQuietHours) {
+      await holdForQuietHours();
+    } else {
+      pushed = await sendPush(supabase, tokens, channels.banner
+        ? notification
+        : { ...notification, data: { ...notification.data, banner: false } });
+    }
+  }
+
+  const bannerOnly = channels.banner && !channels.push;
+  if (channels.silent || bannerOnly) {
+    const banner = bannerOnly
+      ? { ...notification.data, banner_title: notification.title, banner_body: notification.body }
+      : {};
+
+    // Background sync is best-effort; it never fails the notification
+    await sendSilentPush(supabase, tokens, channels.silent
+      ? { ...sync, ...banner }
+      : { ...banner, banner_only: true }
+    ).catch((err) => {
+      console.error('Silent notification error:', err);
+    });
+  }
+
+  return pushed;
+}
@@ -0,0 +1,53 @@
+/**
+ * Notification Summary
+ *
+ * One-line summaries of several notifications, for pushes that stand in for
+ * many: the quiet-hours summary and the digest.
+ */
+
+export interface SummarizedNotification {
+  notification_type: string;
+  // Collapsed notifications stand for several
+  count?: number;
+}
+
+// Singular/plural labels for the summary line
+const TYPE_LABELS: Record<string, [string, string]> = {
+  nudge: ['nudge', 'nudges'],
+  call_me: ['call request', 'call requests'],
+  flare: ['flare', 'flares'],
+  room_invite: ['room invite', 'room invites'],
+  room_reminder: ['room reminder', 'room reminders'],
+  photo_nudge: ['photo', 'photos'],
+  photo_like: ['photo like', 'photo likes'],
+  voice_moment: ['voice moment', 'voice moments'],
+  voice_moment_reaction: ['reaction', 'reactions'],
+  friend_request: ['friend request', 'friend requests'],
+  friend_accepted: ['accepted request', 'accepted requests'],
+  streak_fading: ['streak reminder', 'streak reminders'],
+  streak_milestone: ['streak milestone', 'streak milestones'],
+};
+
+/**
+ * Build "3 nudges, 1 call request", most frequent first when `sorted`
+ */
+export function summarize(notifications: SummarizedNotification[], sorted = false): string {
+  const counts = new Map<string, number>();
+  for (const n of notifications) {
+    counts.set(n.notification_type, (counts.get(n.notification_type) || 0) + (n.count ?? 1));
+  }
+
+  const entries = Array.from(counts.entries());
+  if (sorted) entries.sort((a, b) => b[1] - a[1]);
+
+  return entries
+    .map(([type, count]) => {
+      const [one, many] = TYPE_LABELS[type] || ['notification', 'notifications'];
+      return `${count} ${count === 1 ? one : many}`;
+    })
+    .join(', ');
+}
+
+export function totalCount(notifications: SummarizedNotification[]): number {
+  return notifications.reduce((sum, n) => sum + (n.count ?? 1), 0);
+}
@@ -0,0 +1,124 @@
+/**
+ * Push Tokens Helper
+ *
+ * A user can be signed in on several phones and tablets; push_tokens holds
+ * one Expo token per device. Every push fans out to all of a user's live
+ * devices. Each ticket Expo hands back is kept in push_receipts so
+ * process-push-receipts can prune devices that stopped accepting pushes, and
+ * tokens Expo already rejects at send time are pruned right away.
+ */
+
+import {
+  sendBatchExpoNotifications,
+  sendBatchSilentNotifications,
+  ExpoNotification,
+  ExpoPushTicket,
+} from './expo-push.ts';
+
+// Devices are re-registered on every app launch; one unseen this long is gone
+export const LIVE_TOKEN_DAYS = 180;
+
+export interface PushResult {
+  success: number;
+  failed: number;
+  // Devices dropped because Expo says they are no longer registered
+  pruned: number;
+}
+
+function liveSince(): string {
+  return new Date(Date.now() - LIVE_TOKEN_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Live device tokens per user. Users without any are missing from the map.
+ */
+export async function getPushTokens(
+  supabase: any,
+  userIds: string[]
+): Promise<Map<string, string[]>> {
+  const tokens = new Map<string, string[]>();
+  if (userIds.length === 0) return tokens;
+
+  const { data, error } = await supabase
+    .from('push_tokens')
+    .select('user_id, token')
+    .in('user_id', userIds)
+    .gte('last_seen_at', liveSince());
+
+  if (error) {
+    console.error('Error fetching push tokens:', error);
+    throw error;
+  }
+
+  for (const row of data || []) {
+    const list = tokens.get(row.user_id) || [];
+    list.push(row.token);
+    tokens.set(row.user_id, list);
+  }
+  return tokens;
+}
+
+export async function removePushTokens(supabase: any, tokens: string[]): Promise<void> {
+  if (tokens.length === 0) return;
+
+  const { error } = await supabase.from('push_tokens').delete().in('token', tokens);
+  if (error) {
+    console.error('Failed to remove push tokens:', error);
+  } else {
+    console.log(`Removed ${tokens.length} unregistered device(s)`);
+  }
+}
+
+/**
+ * Queue ok tickets for receipt checks and prune devices Expo rejected.
+ * Best-effort: a failure here never fails the push.
+ */
+async function recordTickets(supabase: any, tickets: ExpoPushTicket[]): Promise<number> {
+  const receipts = tickets
+    .filter((t) => t.status === 'ok' && t.id && t.token)
+    .map((t) => ({ ticket_id: t.id, token: t.token }));
+  const dead = tickets
+    .filter((t) => t.status === 'error' && t.details?.error === 'DeviceNotRegistered' && t.token)
+    .map((t) => t.token as string);
+
+  await Promise.all([
+    receipts.length > 0
+      ? supabase.from('push_receipts').insert(receipts).then(({ error }: any) => {
+          if (error) console.error('Failed to record push tickets:', error);
+        })
+      : Promise.resolve(),
+    removePushTokens(supabase, dead),
+  ]);
+
+  return dead.length;
+}
+
+/**
+ * Send a visible push to the given device tokens.
+ */
+export async function sendPush(
+  supabase: any,
+  tokens: string[],
+  notification: ExpoNotification
+): Promise<PushResult> {
+  if (tokens.length === 0) return { success: 0, failed: 0, pruned: 0 };
+
+  const result = await sendBatchExpoNotifications(tokens, notification);
+  const pruned = await recordTickets(supabase, result.tickets);
+  return { success: result.success, failed: result.failed, pruned };
+}
+
+/**
+ * Send a silent/data-only push to the given device tokens.
+ */
+export async function sendSilentPush(
+  supabase: any,
+  tokens: string[],
+  data: Record<string, any>
+): Promise<PushResult> {
+  if (tokens.length === 0) return { success: 0, failed: 0, pruned: 0 };
+
+  const result = await sendBatchSilentNotifications(tokens, data);
+  const pruned = await recordTickets(supabase, result.tickets);
+  return { success: result.success, failed: result.failed, pruned };
+}
@@ -0,0 +1,66 @@
+/**
+ * Quiet Hours Helper
+ *
+ * Users in a break (one-shot take_break_until or a recurring break schedule)
+ * don't get device pushes. The in-app notification row is still written by
+ * the caller; the push itself is parked in held_pushes and delivered as one
+ * summary by deliver-held-notifications when the window ends.
+ */
+
+export interface HeldPush {
+  user_id: string;
+  notification_type: string;
+  sender_id?: string | null;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Return the subset of userIds currently in quiet hours.
+ * Fails open (empty set) so an RPC outage never silently swallows pushes.
+ */
+export async function getQuietUserIds(
+  supabase: any,
+  userIds: string[]
+): Promise<Set<string>> {
+  try {
+    return await fetchQuietUserIds(supabase, userIds);
+  } catch (error) {
+    console.error('Error checking quiet hours:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Like getQuietUserIds, but throws when the check fails. For callers whose
+ * safe default is to wait, such as releasing held pushes.
+ */
+export async function fetchQuietUserIds(
+  supabase: any,
+  userIds: string[]
+): Promise<Set<string>> {
+  if (userIds.length === 0) return new Set();
+
+  const { data, error } = await supabase.rpc('get_quiet_user_ids', { p_user_ids: userIds });
+  if (error) throw error;
+
+  return new Set((data || []) as string[]);
+}
+
+export async function isInQuietHours(supabase: any, userId: string): Promise<boolean> {
+  const quiet = await getQuietUserIds(supabase, [userId]);
+  return quiet.has(userId);
+}
+
+/**
+ * Park pushes for later summary delivery.
+ */
+export async function holdPushes(supabase: any, pushes: HeldPush[]): Promise<void> {
+  if (pushes.length === 0) return;
+
+  const { error } = await supabase.from('held_pushes').insert(pushes);
+  if (error) {
+    console.error('Failed to hold pushes:', error);
+  }
+}
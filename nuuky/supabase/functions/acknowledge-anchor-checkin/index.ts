@@ -0,0 +1,186 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { getPushTokens } from '../_shared/push-tokens.ts';
+import { getNotificationChannels, channelsFor, isMuted, sendToChannels } from '../_shared/notification-preferences.ts';
+import { authenticateRequest, rateLimit, AuthError, authErrorResponse } from '../_shared/auth.ts';
+
+interface AcknowledgeRequest {
+  checkin_id: string;
+}
+
+/**
+ * An anchor says they are following up on an escalated check-in.
+ *
+ * The acknowledgment is recorded once per anchor, and the user's other
+ * anchors are told who is already on it so they can coordinate.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    const { userId, supabase } = await authenticateRequest(req);
+
+    let body: AcknowledgeRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+    const { checkin_id } = body;
+
+    if (!checkin_id) {
+      return new Response(
+        JSON.stringify({ error: 'Missing checkin_id' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    rateLimit(userId);
+
+    const { data: checkIn, error: checkInError } = await supabase
+      .from('anchor_checkins')
+      .select('id, user_id, escalated_at')
+      .eq('id', checkin_id)
+      .maybeSingle();
+
+    if (checkInError) {
+      console.error('Error fetching check-in:', checkInError);
+      throw checkInError;
+    }
+
+    // Only escalated check-ins reached the anchors
+    if (!checkIn || !checkIn.escalated_at) {
+      return new Response(
+        JSON.stringify({ error: 'Check-in not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const { data: anchors, error: anchorsError } = await supabase
+      .from('anchors')
+      .select(`
+        anchor_id,
+        anchor:anchor_id (
+          id,
+          display_name
+        )
+      `)
+      .eq('user_id', checkIn.user_id);
+
+    if (anchorsError) {
+      console.error('Error fetching anchors:', anchorsError);
+      throw anchorsError;
+    }
+
+    if (!anchors?.some((a: any) => a.anchor_id === userId)) {
+      return new Response(
+        JSON.stringify({ error: 'Not an anchor for this user' }),
+        { status: 403, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const { data: inserted, error: ackError } = await supabase
+      .from('anchor_checkin_acks')
+      .upsert(
+        { checkin_id, anchor_id: userId },
+        { onConflict: 'checkin_id,anchor_id', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (ackError) {
+      console.error('Error recording acknowledgment:', ackError);
+      throw ackError;
+    }
+
+    // Already acknowledged: the other anchors were told the first time
+    if (!inserted || inserted.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'Already acknowledged', notified: 0 }),
+        { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const { data: users } = await supabase
+      .from('users')
+      .select('id, display_name')
+      .in('id', [userId, checkIn.user_id]);
+
+    const anchorName = users?.find((u: any) => u.id === userId)?.display_name || 'An anchor';
+    const userName = users?.find((u: any) => u.id === checkIn.user_id)?.display_name || 'your friend';
+
+    const otherAnchorIds = anchors
+      .filter((a: any) => a.anchor_id !== userId && a.anchor)
+      .map((a: any) => a.anchor_id);
+
+    const [channelMap, pushTokens] = await Promise.all([
+      getNotificationChannels(supabase, otherAnchorIds, 'anchor_ack', userId),
+      getPushTokens(supabase, otherAnchorIds),
+    ]);
+    const otherAnchors = otherAnchorIds.filter((id: string) => !isMuted(channelsFor(channelMap, id)));
+
+    const notification = {
+      title: '⚓ Following up',
+      body: `${anchorName} is checking in on ${userName}.`,
+      data: {
+        type: 'anchor_ack',
+        checkin_id,
+        user_id: checkIn.user_id,
+        user_name: userName,
+        sender_id: userId,
+        sender_name: anchorName,
+      },
+      sound: 'default' as const,
+      priority: 'high' as const,
+    };
+
+    if (otherAnchors.length > 0) {
+      const { error: insertError } = await supabase.from('notifications').insert(
+        otherAnchors.map((anchorId: string) => ({
+          user_id: anchorId,
+          type: 'anchor_ack',
+          title: notification.title,
+          body: notification.body,
+          data: notification.data,
+          source_id: checkin_id,
+          source_type: 'anchor_checkin',
+        }))
+      );
+      if (insertError) {
+        console.error('Failed to insert notifications:', insertError);
+      }
+    }
+
+    let sent = 0;
+    for (const anchorId of otherAnchors) {
+      const pushed = await sendToChannels(
+        supabase,
+        pushTokens.get(anchorId) || [],
+        channelsFor(channelMap, anchorId),
+        notification,
+        { sync_type: 'sync_notifications', notification_type: 'anchor_ack' }
+      );
+      sent += pushed?.success ?? 0;
+    }
+
+    console.log(`✓ ${anchorName} acknowledged check-in ${checkin_id}, ${sent} anchor(s) pushed`);
+
+    return new Response(
+      JSON.stringify({ message: 'Acknowledged', notified: otherAnchors.length }),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
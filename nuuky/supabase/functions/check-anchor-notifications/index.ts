@@ -1,14 +1,23 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { sendExpoNotification } from '../_shared/expo-push.ts';
+import { getPushTokens } from '../_shared/push-tokens.ts';
+import { getNotificationChannels, channelsFor, isMuted, sendToChannels } from '../_shared/notification-preferences.ts';
+import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import { getBlockedUserIds } from '../_shared/blocks.ts';
 
-const INACTIVITY_THRESHOLD_HOURS = 48;
+// How long the user has to answer "are you okay?" before anchors are alerted
+const CHECKIN_RESPONSE_HOURS = 12;
+
+interface CheckInRow {
+  checkin_id: string;
+  user_id: string;
+  threshold_hours: number;
+  last_seen_at: string;
+}
 
 interface User {
   id: string;
   display_name: string;
-  last_seen_at: string;
-  fcm_token: string | null; // Actually stores Expo push token
 }
 
 interface Anchor {
@@ -17,140 +26,235 @@ interface Anchor {
   anchor: User;
 }
 
+function hoursSince(iso: string): number {
+  return Math.floor((Date.now() - new Date(iso).getTime()) / (1000 * 60 * 60));
+}
+
+/**
+ * Anchor check-in protocol, run hourly:
+ *   1. Users inactive past their anchor_checkin_after_hours get an
+ *      "are you okay?" push that confirms with one tap.
+ *   2. Check-ins left unanswered for CHECKIN_RESPONSE_HOURS are escalated
+ *      and the user's anchors are alerted.
+ * Both steps are claimed in SQL, so overlapping runs never notify twice.
+ */
 serve(async (req) => {
   try {
-    // Verify cron secret using constant-time comparison to prevent timing attacks
-    const authHeader = req.headers.get('Authorization');
-    const cronSecret = Deno.env.get('CRON_SECRET');
-    const providedSecret = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
-    const encoder = new TextEncoder();
-    const secretBytes = encoder.encode(cronSecret || '');
-    const providedBytes = encoder.encode(providedSecret);
-    const secretsMatch = cronSecret && secretBytes.length === providedBytes.length &&
-      crypto.subtle.timingSafeEqual ? await crypto.subtle.timingSafeEqual(secretBytes, providedBytes) :
-      cronSecret === providedSecret; // Fallback if timingSafeEqual unavailable
-    if (!cronSecret || !secretsMatch) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
-      );
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
     }
 
-    // Initialize Supabase client
+    // Verify cron secret for scheduled function
+    await verifyCronSecret(req);
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    console.log('Starting anchor inactivity check...');
-
-    // Calculate the cutoff time (48 hours ago)
-    const cutoffTime = new Date();
-    cutoffTime.setHours(cutoffTime.getHours() - INACTIVITY_THRESHOLD_HOURS);
-    const cutoffISO = cutoffTime.toISOString();
+    console.log('Starting anchor check-in run...');
 
-    console.log('Checking for users inactive since:', cutoffISO);
+    const [opened, escalated] = await Promise.all([
+      supabase.rpc('open_due_anchor_checkins'),
+      supabase.rpc('escalate_due_anchor_checkins', { p_response_hours: CHECKIN_RESPONSE_HOURS }),
+    ]);
 
-    // Find users who have been inactive for 48+ hours
-    const { data: inactiveUsers, error: usersError } = await supabase
-      .from('users')
-      .select('id, display_name, last_seen_at')
-      .lt('last_seen_at', cutoffISO);
-
-    if (usersError) {
-      console.error('Error fetching inactive users:', usersError);
-      throw usersError;
+    if (opened.error) {
+      console.error('Error opening check-ins:', opened.error);
+      throw opened.error;
     }
+    if (escalated.error) {
+      console.error('Error escalating check-ins:', escalated.error);
+      throw escalated.error;
+    }
+
+    const openedCheckIns = (opened.data || []) as CheckInRow[];
+    const escalatedCheckIns = (escalated.data || []) as CheckInRow[];
 
-    console.log(`Found ${inactiveUsers?.length || 0} inactive users`);
+    console.log(`Opened ${openedCheckIns.length} check-in(s), escalated ${escalatedCheckIns.length}`);
 
-    if (!inactiveUsers || inactiveUsers.length === 0) {
+    const userIds = [...new Set([...openedCheckIns, ...escalatedCheckIns].map((c) => c.user_id))];
+    if (userIds.length === 0) {
       return new Response(
-        JSON.stringify({ message: 'No inactive users found', count: 0 }),
+        JSON.stringify({ message: 'No check-ins due', checkins_opened: 0, checkins_escalated: 0 }),
         { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
       );
     }
 
-    let totalNotificationsSent = 0;
-
-    // Batch-fetch all anchors for inactive users in a single query (avoids N+1)
-    const inactiveUserIds = inactiveUsers.map((u: { id: string }) => u.id);
-    const { data: allAnchors, error: anchorsError } = await supabase
-      .from('anchors')
-      .select(`
-        user_id,
-        anchor_id,
-        anchor:anchor_id (
-          id,
-          display_name,
-          fcm_token
-        )
-      `)
-      .in('user_id', inactiveUserIds);
+    // Batch-fetch the users and the anchors of escalated users (avoids N+1)
+    const escalatedUserIds = escalatedCheckIns.map((c) => c.user_id);
+    const [{ data: users, error: usersError }, { data: allAnchors, error: anchorsError }] = await Promise.all([
+      supabase.from('users').select('id, display_name').in('id', userIds),
+      escalatedUserIds.length > 0
+        ? supabase
+            .from('anchors')
+            .select(`
+              user_id,
+              anchor_id,
+              anchor:anchor_id (
+                id,
+                display_name
+              )
+            `)
+            .in('user_id', escalatedUserIds)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
 
+    if (usersError) {
+      console.error('Error fetching check-in users:', usersError);
+      throw usersError;
+    }
     if (anchorsError) {
-      console.error('Error fetching anchors for inactive users:', anchorsError);
+      console.error('Error fetching anchors for escalated check-ins:', anchorsError);
       throw anchorsError;
     }
 
+    const usersById = new Map<string, User>((users || []).map((u: User) => [u.id, u]));
+
     // Group anchors by user_id
     const anchorsByUserId = new Map<string, Anchor[]>();
-    if (allAnchors) {
-      for (const anchor of allAnchors as Anchor[]) {
-        const existing = anchorsByUserId.get(anchor.user_id);
-        if (existing) {
-          existing.push(anchor);
-        } else {
-          anchorsByUserId.set(anchor.user_id, [anchor]);
-        }
+    for (const anchor of (allAnchors || []) as Anchor[]) {
+      if (!anchor.anchor) continue;
+      const existing = anchorsByUserId.get(anchor.user_id);
+      if (existing) {
+        existing.push(anchor);
+      } else {
+        anchorsByUserId.set(anchor.user_id, [anchor]);
       }
     }
 
-    // For each inactive user, notify their anchors
-    for (const user of inactiveUsers) {
-      console.log(`Processing inactive user: ${user.display_name} (${user.id})`);
+    // Every device of the users being asked and of their anchors
+    const [pushTokens, checkInChannels] = await Promise.all([
+      getPushTokens(supabase, [
+        ...userIds,
+        ...(allAnchors || []).map((a: Anchor) => a.anchor_id),
+      ]),
+      getNotificationChannels(supabase, openedCheckIns.map((c) => c.user_id), 'anchor_checkin'),
+    ]);
 
-      const anchors = anchorsByUserId.get(user.id);
+    let checkinsSent = 0;
+    let anchorAlertsSent = 0;
 
-      if (!anchors || anchors.length === 0) {
-        console.log(`User ${user.display_name} has no anchors`);
+    // Step 1: ask the user first
+    for (const checkIn of openedCheckIns) {
+      const user = usersById.get(checkIn.user_id);
+      if (!user) continue;
+
+      // Muting check-in requests doesn't stop the escalation to anchors
+      const channels = channelsFor(checkInChannels, user.id);
+      if (isMuted(channels)) {
+        console.log(`User ${user.display_name} muted check-in requests, skipping`);
         continue;
       }
 
-      console.log(`Found ${anchors.length} anchor(s) for ${user.display_name}`);
+      const hoursInactive = hoursSince(checkIn.last_seen_at);
+      const notification = {
+        title: '💛 Are you okay?',
+        body: `We haven't seen you in ${hoursInactive} hours. Tap to let your anchors know you're okay.`,
+        data: {
+          type: 'anchor_checkin',
+          checkin_id: checkIn.checkin_id,
+          hours_inactive: hoursInactive.toString(),
+        },
+        sound: 'default' as const,
+        priority: 'high' as const,
+      };
 
-      // Send notification to each anchor
-      for (const anchorRelation of anchors) {
-        const anchor = anchorRelation.anchor;
+      const { error: insertError } = await supabase.from('notifications').insert({
+        user_id: user.id,
+        type: 'anchor_checkin',
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        source_id: checkIn.checkin_id,
+        source_type: 'anchor_checkin',
+      });
+      if (insertError) {
+        console.error('Failed to insert check-in notification:', insertError);
+      }
 
-        if (!anchor.fcm_token) {
-          console.log(`Anchor ${anchor.display_name} has no Expo push token, skipping`);
-          continue;
-        }
+      const tokens = pushTokens.get(user.id) || [];
+      if (tokens.length === 0) {
+        console.log(`User ${user.display_name} has no Expo push token, skipping push`);
+        continue;
+      }
 
-        // Calculate how long the user has been inactive
-        const lastSeen = new Date(user.last_seen_at);
-        const hoursInactive = Math.floor(
-          (Date.now() - lastSeen.getTime()) / (1000 * 60 * 60)
-        );
+      const pushed = await sendToChannels(supabase, tokens, channels, notification, {
+        sync_type: 'sync_notifications',
+        notification_type: 'anchor_checkin',
+      });
+      if (pushed === null || pushed.success > 0) {
+        console.log(`✓ Asked ${user.display_name} to check in`);
+        checkinsSent++;
+      } else {
+        console.error(`✗ Failed to ask ${user.display_name} to check in`);
+      }
+    }
+
+    // Step 2: the check-in went unanswered, alert the anchors
+    for (const checkIn of escalatedCheckIns) {
+      const user = usersById.get(checkIn.user_id);
+      const anchors = anchorsByUserId.get(checkIn.user_id) || [];
+      if (!user || anchors.length === 0) {
+        console.log(`Check-in ${checkIn.checkin_id} has no anchors to alert`);
+        continue;
+      }
+
+      const anchorIds = anchors.map((a) => a.anchor_id);
+      const [blockedIds, anchorChannels] = await Promise.all([
+        getBlockedUserIds(supabase, user.id, anchorIds),
+        getNotificationChannels(supabase, anchorIds, 'anchor_inactivity', user.id),
+      ]);
+      const recipients = anchors
+        .map((a) => a.anchor)
+        .filter((anchor) => !blockedIds.has(anchor.id) && !isMuted(channelsFor(anchorChannels, anchor.id)));
 
-        const notification = {
-          title: '⚓ Anchor Alert',
-          body: `${user.display_name} has been inactive for ${hoursInactive} hours. You might want to check in on them.`,
-          data: {
+      const hoursInactive = hoursSince(checkIn.last_seen_at);
+      const notification = {
+        title: '⚓ Anchor Alert',
+        body: `${user.display_name} has been inactive for ${hoursInactive} hours and didn't answer a check-in. You might want to reach out.`,
+        data: {
+          type: 'anchor_inactivity',
+          checkin_id: checkIn.checkin_id,
+          user_id: user.id,
+          user_name: user.display_name,
+          hours_inactive: hoursInactive.toString(),
+        },
+        sound: 'default' as const,
+        priority: 'high' as const,
+      };
+
+      if (recipients.length > 0) {
+        const { error: insertError } = await supabase.from('notifications').insert(
+          recipients.map((anchor) => ({
+            user_id: anchor.id,
             type: 'anchor_inactivity',
-            user_id: user.id,
-            user_name: user.display_name,
-            hours_inactive: hoursInactive.toString(),
-          },
-          sound: 'default' as const,
-          priority: 'high' as const,
-        };
+            title: notification.title,
+            body: notification.body,
+            data: notification.data,
+            source_id: checkIn.checkin_id,
+            source_type: 'anchor_checkin',
+          }))
+        );
+        if (insertError) {
+          console.error('Failed to insert anchor notifications:', insertError);
+        }
+      }
 
-        const sent = await sendExpoNotification(anchor.fcm_token, notification);
+      // Anchors opted into being reached, so quiet hours don't apply
+      for (const anchor of recipients) {
+        const tokens = pushTokens.get(anchor.id) || [];
+        if (tokens.length === 0) {
+          console.log(`Anchor ${anchor.display_name} has no Expo push token, skipping`);
+          continue;
+        }
 
-        if (sent) {
+        const pushed = await sendToChannels(supabase, tokens, channelsFor(anchorChannels, anchor.id), notification, {
+          sync_type: 'sync_notifications',
+          notification_type: 'anchor_inactivity',
+        });
+        if (pushed === null || pushed.success > 0) {
           console.log(`✓ Notified anchor ${anchor.display_name} about ${user.display_name}`);
-          totalNotificationsSent++;
+          anchorAlertsSent++;
         } else {
           console.error(`✗ Failed to notify anchor ${anchor.display_name}`);
         }
@@ -158,9 +262,11 @@ serve(async (req) => {
     }
 
     const result = {
-      message: 'Anchor inactivity check completed',
-      inactive_users_count: inactiveUsers.length,
-      notifications_sent: totalNotificationsSent,
+      message: 'Anchor check-in run completed',
+      checkins_opened: openedCheckIns.length,
+      checkins_escalated: escalatedCheckIns.length,
+      checkin_pushes_sent: checkinsSent,
+      anchor_alerts_sent: anchorAlertsSent,
       timestamp: new Date().toISOString(),
     };
 
@@ -172,6 +278,9 @@ serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
     console.error('Function error:', error);
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
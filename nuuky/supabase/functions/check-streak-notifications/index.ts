@@ -1,11 +1,9 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { sendExpoNotification } from '../_shared/expo-push.ts';
+import { getPushTokens } from '../_shared/push-tokens.ts';
 import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
-
-// Streak state thresholds (same as client-side useStreaks.ts)
-const ACTIVE_THRESHOLD_HOURS = 18;
-const FADING_THRESHOLD_HOURS = 36;
+import { getQuietUserIds, holdPushes } from '../_shared/quiet-hours.ts';
+import { getNotificationChannels, channelsFor, isMuted, sendToChannels } from '../_shared/notification-preferences.ts';
 
 // Notification cooldown to prevent spam
 const NOTIFICATION_COOLDOWN_HOURS = 12;
@@ -13,36 +11,17 @@ const NOTIFICATION_COOLDOWN_HOURS = 12;
 interface User {
   id: string;
   display_name: string;
-  fcm_token: string | null;
 }
 
+// Rows from get_streak_states(): state is computed by the same streak_state()
+// SQL function the client reads through get_streaks(), on each user's local day
 interface StreakRow {
   id: string;
   user1_id: string;
   user2_id: string;
   consecutive_days: number;
-  user1_last_interaction: string | null;
-  user2_last_interaction: string | null;
   last_streak_notification_at: string | null;
-}
-
-type StreakState = 'active' | 'fading' | 'broken';
-
-/**
- * Compute streak state from timestamps (mirrors client-side logic)
- */
-function computeStreakState(
-  user1Last: string | null,
-  user2Last: string | null,
-): StreakState {
-  if (!user1Last || !user2Last) return 'broken';
-  const now = Date.now();
-  const h1 = (now - new Date(user1Last).getTime()) / (1000 * 60 * 60);
-  const h2 = (now - new Date(user2Last).getTime()) / (1000 * 60 * 60);
-  const worst = Math.max(h1, h2);
-  if (worst <= ACTIVE_THRESHOLD_HOURS) return 'active';
-  if (worst <= FADING_THRESHOLD_HOURS) return 'fading';
-  return 'broken';
+  state: 'active' | 'fading' | 'broken';
 }
 
 /**
@@ -70,11 +49,17 @@ serve(async (req) => {
 
     console.log('Starting streak fading notification check...');
 
-    // Query all streaks with consecutive_days > 0
+    // Reset broken streaks first so their break lands in streak_events
+    const { data: closedCount, error: closeError } = await supabase.rpc('close_broken_streaks');
+    if (closeError) {
+      console.error('Error closing broken streaks:', closeError);
+    } else if (closedCount) {
+      console.log(`Closed ${closedCount} broken streaks`);
+    }
+
+    // Query all streaks with consecutive_days > 0, with server-computed state
     const { data: streaks, error: streaksError } = await supabase
-      .from('streaks')
-      .select('*')
-      .gt('consecutive_days', 0);
+      .rpc('get_streak_states');
 
     if (streaksError) {
       console.error('Error fetching streaks:', streaksError);
@@ -99,14 +84,8 @@ serve(async (req) => {
     for (const streak of streaks as StreakRow[]) {
       streaksProcessed++;
 
-      // Compute streak state
-      const state = computeStreakState(
-        streak.user1_last_interaction,
-        streak.user2_last_interaction
-      );
-
       // Only notify for fading streaks
-      if (state !== 'fading') {
+      if (streak.state !== 'fading') {
         continue;
       }
 
@@ -131,10 +110,15 @@ serve(async (req) => {
     const uniqueUserIds = Array.from(userIdsSet);
 
     const usersMap = new Map<string, User>();
+    const freezeBalances = new Map<string, number>();
+    const [quietIds, pushTokens] = await Promise.all([
+      getQuietUserIds(supabase, uniqueUserIds),
+      getPushTokens(supabase, uniqueUserIds),
+    ]);
     if (uniqueUserIds.length > 0) {
       const { data: allUsers, error: usersError } = await supabase
         .from('users')
-        .select('id, display_name, fcm_token')
+        .select('id, display_name')
         .in('id', uniqueUserIds);
 
       if (usersError) {
@@ -147,6 +131,17 @@ serve(async (req) => {
           usersMap.set(u.id, u);
         }
       }
+
+      // Mention freezes only to users who can actually spend one
+      const { data: freezes } = await supabase
+        .from('streak_freezes')
+        .select('user_id, balance')
+        .in('user_id', uniqueUserIds)
+        .gt('balance', 0);
+
+      for (const f of freezes || []) {
+        freezeBalances.set(f.user_id, f.balance);
+      }
     }
 
     // Process each fading streak using the pre-fetched user data
@@ -161,14 +156,26 @@ serve(async (req) => {
 
       // Send notification to both users
       for (const [currentUser, otherUser] of [[user1, user2], [user2, user1]] as [User, User][]) {
-        if (!currentUser.fcm_token) {
+        const channels = channelsFor(
+          await getNotificationChannels(supabase, [currentUser.id], 'streak_fading', otherUser.id),
+          currentUser.id
+        );
+        if (isMuted(channels)) {
+          console.log(`User ${currentUser.display_name} muted fading streaks with ${otherUser.display_name}, skipping`);
+          continue;
+        }
+
+        const tokens = pushTokens.get(currentUser.id) || [];
+        if (tokens.length === 0) {
           console.log(`User ${currentUser.display_name} has no push token, skipping`);
           continue;
         }
 
         const notification = {
           title: '⚡ Streak Fading!',
-          body: `Your ${streak.consecutive_days}-day streak with ${otherUser.display_name} is fading! Nudge to keep it alive`,
+          body: freezeBalances.has(currentUser.id)
+            ? `Your ${streak.consecutive_days}-day streak with ${otherUser.display_name} is fading! Nudge them or use a streak freeze`
+            : `Your ${streak.consecutive_days}-day streak with ${otherUser.display_name} is fading! Nudge to keep it alive`,
           data: {
             type: 'streak_fading',
             streak_id: streak.id,
@@ -180,7 +187,22 @@ serve(async (req) => {
           priority: 'high' as const,
         };
 
-        const sent = await sendExpoNotification(currentUser.fcm_token, notification);
+        const pushed = await sendToChannels(supabase, tokens, channels, notification, {
+          sync_type: 'sync_notifications',
+          notification_type: 'streak_fading',
+        },
+        // Quiet hours: hold the push for the end-of-window summary
+        quietIds.has(currentUser.id)
+          ? () => holdPushes(supabase, [{
+              user_id: currentUser.id,
+              notification_type: 'streak_fading',
+              sender_id: otherUser.id,
+              title: notification.title,
+              body: notification.body,
+              data: notification.data,
+            }])
+          : undefined);
+        const sent = pushed === null || pushed.success > 0;
 
         if (sent) {
           console.log(`✓ Notified ${currentUser.display_name} about fading streak with ${otherUser.display_name}`);
@@ -202,21 +224,36 @@ serve(async (req) => {
         }
       }
 
-      // Update last_streak_notification_at
-      const { error: updateError } = await supabase
-        .from('streaks')
-        .update({ last_streak_notification_at: new Date().toISOString() })
-        .eq('id', streak.id);
+      // Update last_streak_notification_at and record the fade in the streak history
+      const [{ error: updateError }, { error: eventError }] = await Promise.all([
+        supabase
+          .from('streaks')
+          .update({ last_streak_notification_at: new Date().toISOString() })
+          .eq('id', streak.id),
+        supabase
+          .from('streak_events')
+          .insert({
+            streak_id: streak.id,
+            user1_id: streak.user1_id,
+            user2_id: streak.user2_id,
+            event_type: 'fade',
+            consecutive_days: streak.consecutive_days,
+          }),
+      ]);
 
       if (updateError) {
         console.error(`Error updating notification timestamp for streak ${streak.id}:`, updateError);
       }
+      if (eventError) {
+        console.error(`Error recording fade for streak ${streak.id}:`, eventError);
+      }
     }
 
     const result = {
       message: 'Streak fading notification check completed',
       streaks_checked: streaksProcessed,
       streaks_fading: streaksFading,
+      streaks_closed: closedCount ?? 0,
       notifications_sent: totalNotificationsSent,
       timestamp: new Date().toISOString(),
     };
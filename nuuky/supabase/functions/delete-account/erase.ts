@@ -0,0 +1,154 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Account erasure helpers for the delete-account function.
+ *
+ * Kept separate from the request handler so the erasure order and the
+ * returned report can be exercised against any Supabase client.
+ */
+
+export const STORAGE_BUCKETS = ['avatars', 'mood-selfies', 'photo-nudges', 'voice-moments'] as const;
+
+export type StorageBucket = typeof STORAGE_BUCKETS[number];
+
+interface TableErasure {
+  table: string;
+  // PostgREST `or` filter; `{id}` is replaced with the user id
+  filter: string;
+}
+
+/**
+ * Tables are erased in dependency order: rows that reference rooms, moods
+ * or other users go first so nothing is left pointing at deleted data.
+ */
+export const TABLE_ERASURES: TableErasure[] = [
+  { table: 'notifications', filter: 'user_id.eq.{id}' },
+  { table: 'held_pushes', filter: 'user_id.eq.{id},sender_id.eq.{id}' },
+  { table: 'push_tokens', filter: 'user_id.eq.{id}' },
+  { table: 'notification_preferences', filter: 'user_id.eq.{id},friend_id.eq.{id}' },
+  { table: 'availability_schedules', filter: 'user_id.eq.{id}' },
+  { table: 'nudges', filter: 'sender_id.eq.{id},receiver_id.eq.{id}' },
+  { table: 'photo_nudges', filter: 'sender_id.eq.{id},receiver_id.eq.{id}' },
+  { table: 'voice_moments', filter: 'sender_id.eq.{id},receiver_id.eq.{id}' },
+  { table: 'flare_responses', filter: 'responder_id.eq.{id},flare_owner_id.eq.{id}' },
+  { table: 'flares', filter: 'user_id.eq.{id}' },
+  { table: 'streak_events', filter: 'user1_id.eq.{id},user2_id.eq.{id}' },
+  { table: 'streaks', filter: 'user1_id.eq.{id},user2_id.eq.{id}' },
+  { table: 'streak_freezes', filter: 'user_id.eq.{id}' },
+  { table: 'anchor_checkin_acks', filter: 'anchor_id.eq.{id}' },
+  { table: 'anchor_checkins', filter: 'user_id.eq.{id}' },
+  { table: 'anchors', filter: 'user_id.eq.{id},anchor_id.eq.{id}' },
+  { table: 'friendships', filter: 'user_id.eq.{id},friend_id.eq.{id}' },
+  { table: 'room_participants', filter: 'user_id.eq.{id}' },
+  { table: 'rooms', filter: 'creator_id.eq.{id}' },
+  { table: 'mood_selfies', filter: 'user_id.eq.{id}' },
+  { table: 'custom_moods', filter: 'user_id.eq.{id}' },
+];
+
+export interface DeletionReport {
+  tables: Record<string, number>;
+  storage: Record<StorageBucket, number>;
+  errors: string[];
+}
+
+/**
+ * Recursively collect every object path under `prefix` in a bucket.
+ * Storage `list` returns folders as entries with a null id.
+ */
+async function listBucketFiles(
+  supabase: SupabaseClient,
+  bucket: StorageBucket,
+  prefix: string
+): Promise<string[]> {
+  const paths: string[] = [];
+  const { data, error } = await supabase.storage.from(bucket).list(prefix, { limit: 1000 });
+
+  if (error) throw error;
+
+  for (const entry of data ?? []) {
+    const path = `${prefix}/${entry.name}`;
+    if (entry.id === null) {
+      paths.push(...await listBucketFiles(supabase, bucket, path));
+    } else {
+      paths.push(path);
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Remove every file the user uploaded. All buckets store objects under a
+ * `<user_id>/` prefix, so the user's folder is the unit of deletion.
+ */
+async function eraseStorage(supabase: SupabaseClient, userId: string, report: DeletionReport): Promise<void> {
+  for (const bucket of STORAGE_BUCKETS) {
+    try {
+      const paths = await listBucketFiles(supabase, bucket, userId);
+      if (paths.length === 0) continue;
+
+      const { data, error } = await supabase.storage.from(bucket).remove(paths);
+      if (error) throw error;
+
+      report.storage[bucket] = data?.length ?? paths.length;
+    } catch (error) {
+      console.error(`Error deleting files from ${bucket}:`, error);
+      report.errors.push(`storage:${bucket}`);
+    }
+  }
+}
+
+/**
+ * Delete all of a user's rows and files, returning how many were removed
+ * from each table and bucket. Failures are collected rather than thrown so
+ * a single table does not block the rest of the erasure.
+ */
+export async function eraseUserData(supabase: SupabaseClient, userId: string): Promise<DeletionReport> {
+  const report: DeletionReport = {
+    tables: {},
+    storage: { 'avatars': 0, 'mood-selfies': 0, 'photo-nudges': 0, 'voice-moments': 0 },
+    errors: [],
+  };
+
+  // Storage first: once rows are gone the user folder is the only trace left
+  await eraseStorage(supabase, userId, report);
+
+  // responded_by has no ON DELETE action, so detach it from friends' flares
+  const { error: flareDetachError } = await supabase
+    .from('flares')
+    .update({ responded_by: null })
+    .eq('responded_by', userId);
+
+  if (flareDetachError) {
+    console.error('Error detaching flare responses:', flareDetachError);
+    report.errors.push('flares:responded_by');
+  }
+
+  // Clear profile references to moods and selfies before deleting them
+  const { error: profileError } = await supabase
+    .from('users')
+    .update({ custom_mood_id: null, mood_selfie_id: null, avatar_url: null, fcm_token: null })
+    .eq('id', userId);
+
+  if (profileError) {
+    console.error('Error clearing profile references:', profileError);
+    report.errors.push('users:references');
+  }
+
+  for (const { table, filter } of TABLE_ERASURES) {
+    const { count, error } = await supabase
+      .from(table)
+      .delete({ count: 'exact' })
+      .or(filter.replaceAll('{id}', userId));
+
+    if (error) {
+      console.error(`Error deleting from ${table}:`, error);
+      report.errors.push(table);
+      report.tables[table] = 0;
+    } else {
+      report.tables[table] = count ?? 0;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,70 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { authenticateRequest, rateLimit, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import { eraseUserData } from './erase.ts';
+
+/**
+ * Permanently delete the authenticated user's account.
+ *
+ * Erases the user's rows and uploaded files, then removes the profile and
+ * the auth user. Responds with a per-table / per-bucket deletion report.
+ * If any step of the erasure fails the account itself is kept so the
+ * request can be retried.
+ */
+
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    const { userId, supabase } = await authenticateRequest(req);
+    rateLimit(userId);
+
+    console.log(`Deleting account ${userId}`);
+
+    const report = await eraseUserData(supabase, userId);
+
+    if (report.errors.length > 0) {
+      console.error(`✗ Account erasure incomplete for ${userId}:`, report.errors);
+      return new Response(
+        JSON.stringify({ error: 'Account deletion incomplete', deleted: false, report }),
+        { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const { count: usersDeleted, error: userDeleteError } = await supabase
+      .from('users')
+      .delete({ count: 'exact' })
+      .eq('id', userId);
+
+    if (userDeleteError) {
+      console.error('Error deleting user profile:', userDeleteError);
+      throw userDeleteError;
+    }
+    report.tables.users = usersDeleted ?? 0;
+
+    const { error: authDeleteError } = await supabase.auth.admin.deleteUser(userId);
+
+    if (authDeleteError) {
+      console.error('Error deleting auth user:', authDeleteError);
+      throw authDeleteError;
+    }
+
+    console.log(`✓ Account ${userId} deleted`);
+
+    return new Response(
+      JSON.stringify({ message: 'Account deleted', deleted: true, report }),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
@@ -0,0 +1,152 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPushTokens, sendPush } from '../_shared/push-tokens.ts';
+import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import { fetchQuietUserIds } from '../_shared/quiet-hours.ts';
+import { summarize } from '../_shared/notification-summary.ts';
+
+interface HeldPushRow {
+  id: string;
+  user_id: string;
+  notification_type: string;
+  sender_id: string | null;
+  title: string;
+  body: string;
+  created_at: string;
+}
+
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    // Verify cron secret for scheduled function
+    await verifyCronSecret(req);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('Starting held notification delivery...');
+
+    const { data: held, error: heldError } = await supabase
+      .from('held_pushes')
+      .select('id, user_id, notification_type, sender_id, title, body, created_at')
+      .order('created_at', { ascending: true });
+
+    if (heldError) {
+      console.error('Error fetching held pushes:', heldError);
+      throw heldError;
+    }
+
+    if (!held || held.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'No held notifications', count: 0 }),
+        { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    // Group by recipient
+    const byUser = new Map<string, HeldPushRow[]>();
+    for (const push of held as HeldPushRow[]) {
+      const list = byUser.get(push.user_id) || [];
+      list.push(push);
+      byUser.set(push.user_id, list);
+    }
+
+    // Users still inside their quiet window keep their pushes held. If that
+    // can't be checked, everything stays held until the next run.
+    const stillQuiet = await fetchQuietUserIds(supabase, Array.from(byUser.keys()));
+    const readyUserIds = Array.from(byUser.keys()).filter((id) => !stillQuiet.has(id));
+
+    if (readyUserIds.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'All recipients still in quiet hours', count: 0, waiting: stillQuiet.size }),
+        { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const pushTokens = await getPushTokens(supabase, readyUserIds);
+
+    let summariesSent = 0;
+    const deliveredIds: string[] = [];
+
+    for (const userId of readyUserIds) {
+      const pushes = byUser.get(userId)!;
+      const tokens = pushTokens.get(userId) || [];
+
+      // No device to deliver to: the in-app rows already exist, so just drop them
+      if (tokens.length === 0) {
+        deliveredIds.push(...pushes.map((p) => p.id));
+        continue;
+      }
+
+      // A single held push is delivered as-is; several collapse into one summary
+      const notification = pushes.length === 1
+        ? {
+            title: pushes[0].title,
+            body: pushes[0].body,
+            data: { type: 'quiet_hours_summary', count: '1' },
+            sound: 'default' as const,
+            priority: 'default' as const,
+          }
+        : {
+            title: '🌙 While you were away',
+            body: summarize(pushes),
+            data: { type: 'quiet_hours_summary', count: pushes.length.toString() },
+            sound: 'default' as const,
+            priority: 'default' as const,
+          };
+
+      const pushed = await sendPush(supabase, tokens, notification);
+
+      // Every device turning out to be unregistered counts as delivered too
+      if (pushed.success > 0 || pushed.failed === pushed.pruned) {
+        console.log(`✓ Delivered ${pushes.length} held notification(s) to ${userId}`);
+        summariesSent++;
+        deliveredIds.push(...pushes.map((p) => p.id));
+      } else {
+        // Leave the rows in place so the next run retries
+        console.error(`✗ Failed to deliver held notifications to ${userId}`);
+      }
+    }
+
+    if (deliveredIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('held_pushes')
+        .delete()
+        .in('id', deliveredIds);
+
+      if (deleteError) {
+        console.error('Error clearing delivered held pushes:', deleteError);
+      }
+    }
+
+    const result = {
+      message: 'Held notification delivery completed',
+      recipients_ready: readyUserIds.length,
+      recipients_waiting: stillQuiet.size,
+      summaries_sent: summariesSent,
+      pushes_cleared: deliveredIds.length,
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log('Delivery complete:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
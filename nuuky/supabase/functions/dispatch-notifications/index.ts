@@ -0,0 +1,131 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import {
+  dispatchOutboxEntry,
+  getRetryDelaySeconds,
+  OutboxEntry,
+} from '../_shared/notification-dispatch.ts';
+
+// Entries claimed per run; the rest wait for the next run
+const BATCH_SIZE = 50;
+
+/**
+ * Deliver due notification_outbox entries. Source tables enqueue them from
+ * insert triggers; failures are retried with backoff until max_attempts.
+ * Runs every few seconds.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    // Verify cron secret for scheduled function
+    await verifyCronSecret(req);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_notification_outbox', {
+      p_limit: BATCH_SIZE,
+    });
+
+    if (claimError) {
+      console.error('Error claiming notification outbox:', claimError);
+      throw claimError;
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'No notifications to dispatch', count: 0 }),
+        { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    console.log(`Dispatching ${claimed.length} notification(s)...`);
+
+    let sent = 0;
+    let skipped = 0;
+    let retrying = 0;
+    let failed = 0;
+
+    // One entry failing must not hold back the others
+    for (const entry of claimed as OutboxEntry[]) {
+      let update: Record<string, any>;
+
+      try {
+        const result = await dispatchOutboxEntry(supabase, entry);
+        update = {
+          status: result.status,
+          processed_at: new Date().toISOString(),
+          locked_at: null,
+          last_error: null,
+        };
+        if (result.status === 'sent') sent++;
+        else skipped++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : JSON.stringify(error);
+
+        if (entry.attempts >= entry.max_attempts) {
+          console.error(`✗ Giving up on ${entry.source_type} ${entry.source_id} after ${entry.attempts} attempts:`, message);
+          update = {
+            status: 'failed',
+            processed_at: new Date().toISOString(),
+            locked_at: null,
+            last_error: message,
+          };
+          failed++;
+        } else {
+          const delay = getRetryDelaySeconds(entry.attempts);
+          console.warn(`Retrying ${entry.source_type} ${entry.source_id} in ${delay}s:`, message);
+          update = {
+            status: 'pending',
+            next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+            locked_at: null,
+            last_error: message,
+          };
+          retrying++;
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from('notification_outbox')
+        .update(update)
+        .eq('id', entry.id);
+
+      // The entry stays claimed and is picked up again once its lock goes stale
+      if (updateError) {
+        console.error(`Failed to record outbox result for ${entry.id}:`, updateError);
+      }
+    }
+
+    const result = {
+      message: 'Notification dispatch completed',
+      claimed: claimed.length,
+      sent,
+      skipped,
+      retrying,
+      failed,
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log('Dispatch complete:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
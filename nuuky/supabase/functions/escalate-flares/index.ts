@@ -0,0 +1,86 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import { escalateFlare, FlareTier } from '../_shared/flare-escalation.ts';
+
+interface DueEscalation {
+  flare_id: string;
+  next_level: FlareTier;
+}
+
+/**
+ * Widen unanswered flares to their next tier once its delay has passed:
+ * favorites -> all friends after widen_after_minutes, then anchors after
+ * anchors_after_minutes. Runs every minute.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    // Verify cron secret for scheduled function
+    await verifyCronSecret(req);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: due, error: dueError } = await supabase.rpc('get_due_flare_escalations');
+
+    if (dueError) {
+      console.error('Error fetching due flare escalations:', dueError);
+      throw dueError;
+    }
+
+    if (!due || due.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'No flares to escalate', count: 0 }),
+        { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    console.log(`Escalating ${due.length} unanswered flare(s)...`);
+
+    let escalated = 0;
+    let notified = 0;
+
+    // One flare failing must not hold back the others
+    for (const { flare_id, next_level } of due as DueEscalation[]) {
+      try {
+        const entry = await escalateFlare(supabase, flare_id, next_level);
+        if (entry) {
+          escalated++;
+          notified += entry.notified.length;
+        }
+      } catch (error) {
+        console.error(`✗ Failed to escalate flare ${flare_id}:`, error);
+      }
+    }
+
+    const result = {
+      message: 'Flare escalation completed',
+      due: due.length,
+      escalated,
+      notified,
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log('Escalation complete:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
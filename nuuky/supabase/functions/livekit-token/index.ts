@@ -1,6 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { AccessToken } from "npm:livekit-server-sdk@2";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { permissionsForRole, RoomRole } from "../_shared/livekit.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Headers":
@@ -96,12 +97,11 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    // Verify user is a participant of the room before issuing token
+    // Verify user is a participant of the room, and not banned from it,
+    // before issuing token; their role and the room's settings decide what
+    // the token allows
     const { data: participant, error: participantError } = await supabaseAdmin
-      .from("room_participants")
-      .select("id")
-      .eq("room_id", roomId)
-      .eq("user_id", user.id)
+      .rpc("get_room_token_grant", { p_room_id: roomId, p_user_id: user.id })
       .maybeSingle();
 
     if (participantError) {
@@ -142,25 +142,32 @@ Deno.serve(async (req: Request) => {
       ttl: "2h", // Token valid for 2 hours
     });
 
+    const role: RoomRole = participant.role || "member";
+    const permissions = permissionsForRole(
+      role,
+      participant.listeners_can_react ?? true
+    );
+
     // Grant room permissions
     at.addGrant({
       room: roomId,
       roomJoin: true,
-      canPublish: true,
-      canSubscribe: true,
-      canPublishData: true,
+      ...permissions,
     });
 
     // Generate JWT token
     const livekitToken = await at.toJwt();
 
-    console.log(`Token generated for ${displayName} in room ${roomId}`);
+    console.log(`Token generated for ${displayName} in room ${roomId} as ${role}`);
 
     return new Response(
       JSON.stringify({
         token: livekitToken,
         roomName: roomId,
         serverUrl: livekitUrl,
+        role,
+        canPublish: permissions.canPublish,
+        canPublishData: permissions.canPublishData,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
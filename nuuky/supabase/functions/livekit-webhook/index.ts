@@ -0,0 +1,81 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { WebhookReceiver } from 'npm:livekit-server-sdk@2';
+import { getRoomService, removeFromLiveKit } from '../_shared/livekit.ts';
+import { reconcileWebhookEvent } from './reconcile.ts';
+
+/**
+ * Receives LiveKit webhooks and keeps room_participants' audio session
+ * columns and rooms.audio_active in step with who is actually connected,
+ * so a crashed app doesn't leave a ghost in the call.
+ *
+ * LiveKit signs each delivery with the project's API key and secret; the
+ * Authorization header is checked (including the body's sha256) before
+ * anything is written. Someone connected to a room they no longer belong
+ * to is disconnected.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    const apiKey = Deno.env.get('LIVEKIT_API_KEY');
+    const apiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+
+    if (!apiKey || !apiSecret) {
+      console.error('LiveKit not configured', { apiKey: !!apiKey, apiSecret: !!apiSecret });
+      return new Response(
+        JSON.stringify({ error: 'Internal server error' }),
+        { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const body = await req.text();
+    const receiver = new WebhookReceiver(apiKey, apiSecret);
+
+    let event;
+    try {
+      event = await receiver.receive(body, req.headers.get('Authorization') ?? undefined);
+    } catch (error) {
+      console.error('✗ Rejected LiveKit webhook:', error instanceof Error ? error.message : error);
+      return new Response(
+        JSON.stringify({ error: 'Invalid signature' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const result = await reconcileWebhookEvent(supabase, event);
+
+    if (result.status === 'applied') {
+      console.log(`✓ ${event.event} for room ${event.room?.name}`);
+    }
+
+    if (result.orphan) {
+      const roomService = getRoomService();
+      const removed = roomService
+        ? await removeFromLiveKit(roomService, result.orphan.roomId, result.orphan.userId)
+        : false;
+      console.log(
+        `${removed ? '✓' : '✗'} Disconnected ${result.orphan.userId} from room ${result.orphan.roomId} (not a participant)`
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, status: result.status }),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    // 5xx makes LiveKit retry the delivery
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
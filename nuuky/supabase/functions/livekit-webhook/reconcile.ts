@@ -0,0 +1,129 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Applies LiveKit webhook events to room_participants and rooms.
+ *
+ * Kept apart from the request handler (which only verifies the signature)
+ * so recorded payloads can be replayed against any Supabase client.
+ * LiveKit room names are Nuuky room ids and identities are user ids, as
+ * issued by the livekit-token function.
+ */
+
+export type HandledEvent = 'participant_joined' | 'participant_left' | 'room_finished';
+
+export const HANDLED_EVENTS: HandledEvent[] = ['participant_joined', 'participant_left', 'room_finished'];
+
+// The fields we read from livekit-server-sdk's WebhookEvent
+export interface LiveKitWebhookEvent {
+  id: string;
+  event: string;
+  createdAt?: bigint | number;
+  room?: { name: string; sid?: string };
+  participant?: { identity: string; sid: string; joinedAt?: bigint | number };
+}
+
+export interface ReconcileResult {
+  status: 'applied' | 'duplicate' | 'ignored';
+  // Set when a participant joined LiveKit without a membership row
+  orphan?: { roomId: string; userId: string };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// LiveKit timestamps are unix seconds; fall back to now when absent
+function eventTime(seconds?: bigint | number): string {
+  const value = seconds === undefined ? 0 : Number(seconds);
+  return (value > 0 ? new Date(value * 1000) : new Date()).toISOString();
+}
+
+/**
+ * Record the event id first so LiveKit's retries are applied once.
+ * Returns false when the id was already seen.
+ */
+async function claimEvent(
+  supabase: SupabaseClient,
+  event: LiveKitWebhookEvent,
+  roomId: string
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('livekit_webhook_events')
+    .insert({ id: event.id, event: event.event, room_id: roomId });
+
+  if (!error) return true;
+  if (error.code === '23505') return false;
+  throw error;
+}
+
+export async function reconcileWebhookEvent(
+  supabase: SupabaseClient,
+  event: LiveKitWebhookEvent
+): Promise<ReconcileResult> {
+  const roomId = event.room?.name;
+
+  // Rooms we didn't create (or events we don't track) are left alone
+  if (!HANDLED_EVENTS.includes(event.event as HandledEvent) || !roomId || !UUID_PATTERN.test(roomId)) {
+    return { status: 'ignored' };
+  }
+
+  const participant = event.participant;
+  if (event.event !== 'room_finished' && (!participant || !UUID_PATTERN.test(participant.identity))) {
+    return { status: 'ignored' };
+  }
+
+  if (!(await claimEvent(supabase, event, roomId))) {
+    return { status: 'duplicate' };
+  }
+
+  try {
+    return await applyEvent(supabase, event, roomId);
+  } catch (error) {
+    // Release the claim so LiveKit's retry gets another go
+    await supabase.from('livekit_webhook_events').delete().eq('id', event.id);
+    throw error;
+  }
+}
+
+async function applyEvent(
+  supabase: SupabaseClient,
+  event: LiveKitWebhookEvent,
+  roomId: string
+): Promise<ReconcileResult> {
+  const participant = event.participant;
+  const at = eventTime(event.createdAt);
+
+  switch (event.event as HandledEvent) {
+    case 'participant_joined': {
+      const { data: isMember, error } = await supabase.rpc('record_livekit_participant_joined', {
+        p_room_id: roomId,
+        p_user_id: participant!.identity,
+        p_sid: participant!.sid,
+        p_at: participant!.joinedAt ? eventTime(participant!.joinedAt) : at,
+      });
+      if (error) throw error;
+
+      return isMember
+        ? { status: 'applied' }
+        : { status: 'applied', orphan: { roomId, userId: participant!.identity } };
+    }
+
+    case 'participant_left': {
+      const { error } = await supabase.rpc('record_livekit_participant_left', {
+        p_room_id: roomId,
+        p_user_id: participant!.identity,
+        p_sid: participant!.sid,
+        p_at: at,
+      });
+      if (error) throw error;
+      return { status: 'applied' };
+    }
+
+    case 'room_finished': {
+      const { error } = await supabase.rpc('record_livekit_room_finished', {
+        p_room_id: roomId,
+        p_at: at,
+      });
+      if (error) throw error;
+      return { status: 'applied' };
+    }
+  }
+}
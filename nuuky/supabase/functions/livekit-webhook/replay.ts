@@ -0,0 +1,69 @@
+import { AccessToken } from 'npm:livekit-server-sdk@2';
+import { encodeBase64 } from 'jsr:@std/encoding@1/base64';
+
+/**
+ * Replays recorded LiveKit webhook payloads against a locally served
+ * livekit-webhook function, signed the way LiveKit signs them.
+ *
+ *   supabase functions serve livekit-webhook --no-verify-jwt --env-file .env.local
+ *   deno run --allow-net --allow-env --allow-read replay.ts fixtures/crashed-participant.json
+ *
+ * Fixtures use {{room_id}}, {{host_id}}, {{guest_id}} and {{stranger_id}}
+ * placeholders, filled from REPLAY_ROOM_ID, REPLAY_HOST_ID, REPLAY_GUEST_ID
+ * and REPLAY_STRANGER_ID so payloads can point at seeded rows. Set
+ * REPLAY_URL to target somewhere other than the local functions server.
+ */
+
+const url = Deno.env.get('REPLAY_URL') ?? 'http://localhost:54321/functions/v1/livekit-webhook';
+const apiKey = Deno.env.get('LIVEKIT_API_KEY');
+const apiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+
+const placeholders: Record<string, string | undefined> = {
+  room_id: Deno.env.get('REPLAY_ROOM_ID'),
+  host_id: Deno.env.get('REPLAY_HOST_ID'),
+  guest_id: Deno.env.get('REPLAY_GUEST_ID'),
+  stranger_id: Deno.env.get('REPLAY_STRANGER_ID'),
+};
+
+function fill(payload: string): string {
+  return payload.replace(/\{\{(\w+)\}\}/g, (match, name) => placeholders[name] ?? match);
+}
+
+// LiveKit puts the base64 sha256 of the body in the token's sha256 claim
+async function sign(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  const token = new AccessToken(apiKey, apiSecret);
+  token.sha256 = encodeBase64(new Uint8Array(digest));
+  return await token.toJwt();
+}
+
+if (!apiKey || !apiSecret) {
+  console.error('LIVEKIT_API_KEY and LIVEKIT_API_SECRET must match the function under test');
+  Deno.exit(1);
+}
+
+if (Deno.args.length === 0) {
+  console.error('Usage: replay.ts <fixture.json> [...]');
+  Deno.exit(1);
+}
+
+for (const path of Deno.args) {
+  const events: unknown[] = JSON.parse(fill(await Deno.readTextFile(path)));
+  console.log(`Replaying ${events.length} event(s) from ${path}`);
+
+  for (const event of events) {
+    const body = JSON.stringify(event);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/webhook+json',
+        Authorization: await sign(body),
+      },
+      body,
+    });
+
+    const { event: name, id } = event as { event: string; id: string };
+    const result = await response.text();
+    console.log(`${response.ok ? '✓' : '✗'} ${name} ${id} -> ${response.status} ${result}`);
+  }
+}
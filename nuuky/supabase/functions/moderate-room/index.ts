@@ -0,0 +1,206 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { authenticateRequest, rateLimit, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import {
+  RoomRole,
+  ROOM_ROLES,
+  getRoomService,
+  muteParticipantAudio,
+  removeFromLiveKit,
+  updateLiveKitPermissions,
+} from '../_shared/livekit.ts';
+
+type ModerationAction = 'mute' | 'kick' | 'set_role' | 'allow_speak' | 'dismiss_speak';
+
+const ACTIONS: ModerationAction[] = ['mute', 'kick', 'set_role', 'allow_speak', 'dismiss_speak'];
+
+interface ModerateRequest {
+  room_id: string;
+  user_id: string;
+  action: ModerationAction;
+  role?: RoomRole;
+}
+
+// Owners moderate everyone else; moderators only members and listeners
+function canModerate(actorRole: RoomRole, targetRole: RoomRole): boolean {
+  if (actorRole === 'owner') return targetRole !== 'owner';
+  if (actorRole === 'moderator') return targetRole === 'member' || targetRole === 'listener';
+  return false;
+}
+
+/**
+ * Mute, remove, or change the role of a room participant, or answer a
+ * listener's request to speak.
+ *
+ * The database is updated first so the change sticks, then the same change
+ * is applied to the live LiveKit session so it takes effect immediately
+ * rather than when the participant's token expires. applied_live is false
+ * when LiveKit couldn't be reached; the database change still stands.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    const { userId, supabase } = await authenticateRequest(req);
+
+    let body: ModerateRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+    const { room_id, user_id, action, role } = body;
+
+    if (!room_id || !user_id || !ACTIONS.includes(action)) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    if (action === 'set_role' && (!role || role === 'owner' || !ROOM_ROLES.includes(role))) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid role' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    if (user_id === userId) {
+      return new Response(
+        JSON.stringify({ error: 'Cannot moderate yourself' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    rateLimit(userId);
+
+    const { data: participants, error: participantsError } = await supabase
+      .from('room_participants')
+      .select('id, user_id, role, speak_requested_at')
+      .eq('room_id', room_id)
+      .in('user_id', [userId, user_id]);
+
+    if (participantsError) {
+      console.error('Error fetching participants:', participantsError);
+      throw participantsError;
+    }
+
+    const actor = participants?.find((p: any) => p.user_id === userId);
+    const target = participants?.find((p: any) => p.user_id === user_id);
+
+    if (!actor) {
+      return new Response(
+        JSON.stringify({ error: 'Not a participant of this room' }),
+        { status: 403, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    if (!target) {
+      return new Response(
+        JSON.stringify({ error: 'Participant not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const allowed = action === 'set_role'
+      ? actor.role === 'owner' && target.role !== 'owner'
+      : canModerate(actor.role, target.role);
+
+    if (!allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Not allowed to moderate this participant' }),
+        { status: 403, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    if ((action === 'allow_speak' || action === 'dismiss_speak') && target.role !== 'listener') {
+      return new Response(
+        JSON.stringify({ error: 'Participant can already speak' }),
+        { status: 409, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const roomService = getRoomService();
+    let appliedLive = false;
+
+    if (action === 'mute') {
+      const { error } = await supabase
+        .from('room_participants')
+        .update({ is_muted: true, muted_by: userId })
+        .eq('id', target.id);
+      if (error) throw error;
+
+      if (roomService) appliedLive = await muteParticipantAudio(roomService, room_id, user_id);
+    } else if (action === 'kick') {
+      // Bans as well as removes, so they can't rejoin or get a new token
+      const { error } = await supabase.rpc('kick_room_participant', {
+        p_room_id: room_id,
+        p_user_id: user_id,
+        p_kicked_by: userId,
+      });
+      if (error) throw error;
+
+      if (roomService) appliedLive = await removeFromLiveKit(roomService, room_id, user_id);
+    } else if (action === 'dismiss_speak') {
+      const { error } = await supabase
+        .from('room_participants')
+        .update({ speak_requested_at: null })
+        .eq('id', target.id);
+      if (error) throw error;
+
+      // Nothing changes in the live session
+      appliedLive = true;
+    } else {
+      // allow_speak is a moderator-approved promotion from listener to member
+      const newRole: RoomRole = action === 'allow_speak' ? 'member' : role!;
+
+      // Listeners can't publish, so they start muted
+      const updates = newRole === 'listener'
+        ? { role: newRole, is_muted: true, muted_by: userId, speak_requested_at: null }
+        : { role: newRole, speak_requested_at: null };
+
+      const { error } = await supabase
+        .from('room_participants')
+        .update(updates)
+        .eq('id', target.id);
+      if (error) throw error;
+
+      const { data: room } = await supabase
+        .from('rooms')
+        .select('listeners_can_react')
+        .eq('id', room_id)
+        .single();
+
+      if (roomService) {
+        appliedLive = await updateLiveKitPermissions(
+          roomService,
+          room_id,
+          user_id,
+          newRole,
+          room?.listeners_can_react ?? true
+        );
+      }
+    }
+
+    console.log(`${appliedLive ? '✓' : '✗'} ${action} on ${user_id} in room ${room_id} by ${userId}${appliedLive ? '' : ' (database only)'}`);
+
+    return new Response(
+      JSON.stringify({ success: true, action, applied_live: appliedLive }),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
@@ -0,0 +1,152 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getExpoPushReceipts } from '../_shared/expo-push.ts';
+import { removePushTokens, LIVE_TOKEN_DAYS } from '../_shared/push-tokens.ts';
+import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
+
+// Expo accepts up to 1000 receipt ids per request
+const BATCH_SIZE = 1000;
+const MAX_BATCHES = 5;
+
+// Receipts are usually ready within 15 minutes and kept for a day
+const RECEIPT_DELAY_MINUTES = 15;
+const RECEIPT_EXPIRY_HOURS = 24;
+
+interface ReceiptRow {
+  ticket_id: string;
+  token: string;
+  created_at: string;
+}
+
+/**
+ * Check Expo receipts for recent pushes and prune devices that are no
+ * longer registered. Also drops devices the app hasn't registered in
+ * LIVE_TOKEN_DAYS. Runs every 15 minutes.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    // Verify cron secret for scheduled function
+    await verifyCronSecret(req);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('Starting push receipt processing...');
+
+    const readyBefore = new Date(Date.now() - RECEIPT_DELAY_MINUTES * 60 * 1000).toISOString();
+    const expiredBefore = Date.now() - RECEIPT_EXPIRY_HOURS * 60 * 60 * 1000;
+
+    let checked = 0;
+    let errors = 0;
+    let expired = 0;
+    const deadTokens = new Set<string>();
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data: rows, error: rowsError } = await supabase
+        .from('push_receipts')
+        .select('ticket_id, token, created_at')
+        .lte('created_at', readyBefore)
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (rowsError) {
+        console.error('Error fetching push receipts:', rowsError);
+        throw rowsError;
+      }
+
+      if (!rows || rows.length === 0) break;
+
+      const receipts = await getExpoPushReceipts(rows.map((r: ReceiptRow) => r.ticket_id));
+
+      // Expo unreachable: keep everything for the next run
+      if (!receipts) break;
+
+      const done: string[] = [];
+
+      for (const row of rows as ReceiptRow[]) {
+        const receipt = receipts[row.ticket_id];
+
+        if (!receipt) {
+          // Not ready yet, unless Expo has already forgotten it
+          if (new Date(row.created_at).getTime() < expiredBefore) {
+            done.push(row.ticket_id);
+            expired++;
+          }
+          continue;
+        }
+
+        done.push(row.ticket_id);
+        checked++;
+
+        if (receipt.status === 'error') {
+          errors++;
+          if (receipt.details?.error === 'DeviceNotRegistered') {
+            deadTokens.add(row.token);
+          } else {
+            console.error(`Push receipt error (${receipt.details?.error ?? 'unknown'}):`, receipt.message);
+          }
+        }
+      }
+
+      if (done.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('push_receipts')
+          .delete()
+          .in('ticket_id', done);
+
+        if (deleteError) {
+          console.error('Error clearing processed push receipts:', deleteError);
+          break;
+        }
+      }
+
+      // Everything left is still pending at Expo
+      if (done.length === 0 || rows.length < BATCH_SIZE) break;
+    }
+
+    await removePushTokens(supabase, Array.from(deadTokens));
+
+    // Devices the app hasn't registered in months are uninstalled or abandoned
+    const staleBefore = new Date(Date.now() - LIVE_TOKEN_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { count: staleRemoved, error: staleError } = await supabase
+      .from('push_tokens')
+      .delete({ count: 'exact' })
+      .lt('last_seen_at', staleBefore);
+
+    if (staleError) {
+      console.error('Error removing stale push tokens:', staleError);
+    }
+
+    const result = {
+      message: 'Push receipt processing completed',
+      receipts_checked: checked,
+      receipt_errors: errors,
+      receipts_expired: expired,
+      devices_unregistered: deadTokens.size,
+      devices_stale: staleRemoved ?? 0,
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log('Receipt processing complete:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
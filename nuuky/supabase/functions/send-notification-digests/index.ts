@@ -0,0 +1,140 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPushTokens, sendPush } from '../_shared/push-tokens.ts';
+import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import { getQuietUserIds } from '../_shared/quiet-hours.ts';
+import { summarize, totalCount } from '../_shared/notification-summary.ts';
+
+interface DueDigest {
+  user_id: string;
+  since: string;
+}
+
+interface UnreadRow {
+  user_id: string;
+  type: string;
+  group_count: number;
+  created_at: string;
+}
+
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    // Verify cron secret for scheduled function
+    await verifyCronSecret(req);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('Starting notification digests...');
+
+    const { data: due, error: dueError } = await supabase.rpc('get_due_digests');
+
+    if (dueError) {
+      console.error('Error fetching due digests:', dueError);
+      throw dueError;
+    }
+
+    if (!due || due.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'No digests due', count: 0 }),
+        { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const digests = due as DueDigest[];
+    const userIds = digests.map((d) => d.user_id);
+    const earliest = new Date(Math.min(...digests.map((d) => Date.parse(d.since)))).toISOString();
+
+    const [unreadResult, quiet, pushTokens] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('user_id, type, group_count, created_at')
+        .in('user_id', userIds)
+        .eq('is_read', false)
+        .gt('created_at', earliest),
+      // Users in a break get the quiet-hours summary instead
+      getQuietUserIds(supabase, userIds),
+      getPushTokens(supabase, userIds),
+    ]);
+
+    if (unreadResult.error) {
+      console.error('Error fetching unread notifications:', unreadResult.error);
+      throw unreadResult.error;
+    }
+
+    let digestsSent = 0;
+    const doneUserIds: string[] = [];
+
+    for (const { user_id, since } of digests) {
+      const tokens = pushTokens.get(user_id) || [];
+      const unread = ((unreadResult.data || []) as UnreadRow[])
+        .filter((n) => n.user_id === user_id && new Date(n.created_at) > new Date(since))
+        .map((n) => ({ notification_type: n.type, count: n.group_count }));
+
+      // Nothing new, nobody to send to, or in a break: this digest is done
+      if (unread.length === 0 || tokens.length === 0 || quiet.has(user_id)) {
+        doneUserIds.push(user_id);
+        continue;
+      }
+
+      const count = totalCount(unread);
+      const pushed = await sendPush(supabase, tokens, {
+        title: '📬 While you were away',
+        body: summarize(unread, true),
+        data: { type: 'digest', count: count.toString() },
+        sound: 'default',
+        priority: 'default',
+      });
+
+      // Every device turning out to be unregistered counts as delivered too
+      if (pushed.success > 0 || pushed.failed === pushed.pruned) {
+        console.log(`✓ Digest of ${count} notification(s) sent to ${user_id}`);
+        digestsSent++;
+        doneUserIds.push(user_id);
+      } else {
+        // last_digest_at stays put, so the next digest covers these too
+        console.error(`✗ Failed to send digest to ${user_id}`);
+      }
+    }
+
+    if (doneUserIds.length > 0) {
+      const { error: updateError } = await supabase
+        .from('user_preferences')
+        .update({ last_digest_at: new Date().toISOString() })
+        .in('user_id', doneUserIds);
+
+      if (updateError) {
+        console.error('Error recording digests:', updateError);
+      }
+    }
+
+    const result = {
+      message: 'Notification digests completed',
+      due: digests.length,
+      digests_sent: digestsSent,
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log('Digests complete:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
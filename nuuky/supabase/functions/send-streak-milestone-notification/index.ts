@@ -0,0 +1,171 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { getPushTokens } from '../_shared/push-tokens.ts';
+import { getNotificationChannels, channelsFor, isMuted, sendToChannels } from '../_shared/notification-preferences.ts';
+import { authenticateRequest, rateLimit, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import { getQuietUserIds, holdPushes } from '../_shared/quiet-hours.ts';
+
+interface MilestoneRequest {
+  streak_id: string;
+}
+
+/**
+ * Notify both friends of a streak milestone (7/30/100/365 days).
+ *
+ * The milestone itself is written by record_streak_interaction(); this
+ * function only delivers milestone events that have not been notified yet,
+ * so a repeated or forged call can never produce a second notification.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    const { userId, supabase } = await authenticateRequest(req);
+
+    let body: MilestoneRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+    const { streak_id } = body;
+
+    if (!streak_id) {
+      return new Response(
+        JSON.stringify({ error: 'Missing streak_id' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    rateLimit(userId);
+
+    // Claim pending milestones atomically so concurrent calls can't double-send
+    const { data: milestones, error: claimError } = await supabase
+      .from('streak_events')
+      .update({ notified_at: new Date().toISOString() })
+      .eq('streak_id', streak_id)
+      .eq('event_type', 'milestone')
+      .is('notified_at', null)
+      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+      .select('id, user1_id, user2_id, consecutive_days');
+
+    if (claimError) {
+      console.error('Error claiming milestone events:', claimError);
+      throw claimError;
+    }
+
+    if (!milestones || milestones.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'No pending milestone', sent: false }),
+        { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    // Only the highest milestone matters if several were pending
+    const milestone = milestones.reduce((a: any, b: any) => (b.consecutive_days > a.consecutive_days ? b : a));
+    const userIds = [milestone.user1_id, milestone.user2_id];
+
+    const [{ data: users, error: usersError }, quietIds, pushTokens] = await Promise.all([
+      supabase.from('users').select('id, display_name').in('id', userIds),
+      getQuietUserIds(supabase, userIds),
+      getPushTokens(supabase, userIds),
+    ]);
+
+    if (usersError || !users || users.length !== 2) {
+      console.error('Streak users not found:', usersError);
+      return new Response(
+        JSON.stringify({ error: 'Users not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const days = milestone.consecutive_days;
+    let sent = 0;
+
+    await Promise.all(users.map(async (recipient: any) => {
+      const friend = users.find((u: any) => u.id !== recipient.id);
+
+      // Each side's preferences name the other as the friend
+      const channels = channelsFor(
+        await getNotificationChannels(supabase, [recipient.id], 'streak_milestone', friend.id),
+        recipient.id
+      );
+      if (isMuted(channels)) {
+        console.log(`Skipping ${recipient.display_name} - streak milestones muted`);
+        return;
+      }
+
+      const notification = {
+        title: `⚡ ${days}-day streak!`,
+        body: `You and ${friend.display_name} have kept your streak going for ${days} days`,
+        data: {
+          type: 'streak_milestone',
+          streak_id: streak_id,
+          friend_id: friend.id,
+          friend_name: friend.display_name,
+          milestone: days.toString(),
+        },
+        sound: 'default' as const,
+        priority: 'high' as const,
+      };
+
+      const { error: insertError } = await supabase.from('notifications').insert({
+        user_id: recipient.id,
+        type: 'streak_milestone',
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        source_id: milestone.id,
+        source_type: 'streak_milestone',
+      });
+
+      if (insertError) {
+        console.error('Failed to insert notification:', insertError);
+      }
+
+      const tokens = pushTokens.get(recipient.id) || [];
+      if (tokens.length === 0) return;
+
+      const pushed = await sendToChannels(supabase, tokens, channels, notification, {
+        sync_type: 'sync_notifications',
+        notification_type: 'streak_milestone',
+      },
+      quietIds.has(recipient.id)
+        ? () => holdPushes(supabase, [{
+            user_id: recipient.id,
+            notification_type: 'streak_milestone',
+            sender_id: friend.id,
+            title: notification.title,
+            body: notification.body,
+            data: notification.data,
+          }])
+        : undefined);
+
+      if (pushed === null || pushed.success > 0) {
+        console.log(`✓ Streak milestone (${days}) sent to ${recipient.display_name}`);
+        sent++;
+      } else {
+        console.error(`✗ Failed to send streak milestone to ${recipient.display_name}`);
+      }
+    }));
+
+    return new Response(
+      JSON.stringify({ message: 'Milestone notified', milestone: days, sent }),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
@@ -1,152 +0,0 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { sendExpoNotification, sendSilentNotification } from '../_shared/expo-push.ts';
-import { authenticateRequest, verifySender, rateLimit, AuthError, authErrorResponse } from '../_shared/auth.ts';
-
-interface VoiceMomentReactionRequest {
-  receiver_id: string;
-  sender_id: string;
-  voice_moment_id: string;
-  reaction_type: string;
-}
-
-const REACTION_EMOJI_MAP: Record<string, string> = {
-  heart: '❤️',
-  laugh: '😂',
-  wow: '😮',
-  applause: '👏',
-  aww: '🥺',
-  party: '🎉',
-};
-
-serve(async (req) => {
-  try {
-    if (req.method !== 'POST') {
-      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
-    }
-
-    const { userId, supabase } = await authenticateRequest(req);
-
-    let body: VoiceMomentReactionRequest;
-    try {
-      body = await req.json();
-    } catch {
-      return new Response(
-        JSON.stringify({ error: 'Invalid request body' }),
-        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
-      );
-    }
-    const { receiver_id, sender_id, voice_moment_id, reaction_type } = body;
-
-    if (!receiver_id || !sender_id || !voice_moment_id || !reaction_type) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields' }),
-        { status: 400, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
-      );
-    }
-
-    verifySender(userId, sender_id);
-    rateLimit(userId);
-
-    console.log(`Processing voice moment reaction from ${sender_id} to ${receiver_id}`);
-
-    // Parallel: fetch sender, receiver, and unread count
-    const [senderResult, receiverResult, unreadResult] = await Promise.all([
-      supabase.from('users').select('display_name, avatar_url').eq('id', sender_id).single(),
-      supabase.from('users').select('fcm_token, display_name').eq('id', receiver_id).single(),
-      supabase.from('notifications').select('id', { count: 'exact', head: true }).eq('user_id', receiver_id).eq('is_read', false),
-    ]);
-
-    const sender = senderResult.data;
-    const receiver = receiverResult.data;
-
-    if (senderResult.error || !sender) {
-      console.error('Sender not found:', senderResult.error);
-      return new Response(
-        JSON.stringify({ error: 'Sender not found' }),
-        { status: 404, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
-      );
-    }
-
-    if (receiverResult.error || !receiver) {
-      console.error('Receiver not found:', receiverResult.error);
-      return new Response(
-        JSON.stringify({ error: 'Receiver not found' }),
-        { status: 404, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
-      );
-    }
-
-    if (!receiver.fcm_token) {
-      console.log(`Receiver ${receiver.display_name} has no push token`);
-      return new Response(
-        JSON.stringify({ message: 'Receiver has no push token', sent: false }),
-        { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
-      );
-    }
-
-    const badgeCount = (unreadResult.count ?? 0) + 1;
-
-    const emoji = REACTION_EMOJI_MAP[reaction_type] || '💬';
-    const title = `${emoji} ${sender.display_name} reacted to your voice moment`;
-    const body = 'Tap to see your voice moment';
-
-    const notification = {
-      title,
-      body,
-      data: {
-        type: 'voice_moment_reaction',
-        sender_id: sender_id,
-        sender_name: sender.display_name,
-        sender_avatar_url: sender.avatar_url,
-        voice_moment_id: voice_moment_id,
-        reaction_type: reaction_type,
-      },
-      sound: 'default' as const,
-      priority: 'high' as const,
-      badge: badgeCount,
-    };
-
-    // Parallel: send push, silent push, and insert DB record
-    const [pushResult] = await Promise.all([
-      sendExpoNotification(receiver.fcm_token, notification).catch((err) => {
-        console.error('Push notification error:', err);
-        return false;
-      }),
-      sendSilentNotification(receiver.fcm_token, {
-        sync_type: 'sync_notifications',
-        notification_type: 'voice_moment_reaction',
-        sender_id: sender_id,
-        sender_name: sender.display_name,
-        voice_moment_id: voice_moment_id,
-      }).catch((err) => {
-        console.error('Silent notification error:', err);
-      }),
-      supabase.from('notifications').insert({
-        user_id: receiver_id,
-        type: 'voice_moment_reaction',
-        title: notification.title,
-        body: notification.body,
-        data: notification.data,
-        source_id: voice_moment_id,
-        source_type: 'voice_moment',
-      }).then(({ error }) => {
-        if (error) console.error('Failed to insert notification:', error);
-      }),
-    ]);
-
-    console.log(`Voice moment reaction notification: push=${pushResult}, db=saved`);
-    return new Response(
-      JSON.stringify({ message: 'Processed', sent: pushResult, saved: true }),
-      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
-    );
-
-  } catch (error) {
-    if (error instanceof AuthError) {
-      return authErrorResponse(error);
-    }
-    console.error('Function error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
-    );
-  }
-});
@@ -0,0 +1,188 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPushTokens } from '../_shared/push-tokens.ts';
+import { getNotificationChannels, channelsFor, isMuted, sendToChannels } from '../_shared/notification-preferences.ts';
+import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import { getQuietUserIds, holdPushes } from '../_shared/quiet-hours.ts';
+
+// Rows from claim_room_schedule_reminders(); recipients are the host plus
+// everyone who answered going or maybe
+interface ReminderRow {
+  schedule_id: string;
+  room_id: string;
+  room_name: string | null;
+  creator_id: string;
+  starts_at: string;
+  recipient_ids: string[];
+}
+
+interface User {
+  id: string;
+  display_name: string;
+}
+
+function minutesUntil(iso: string): number {
+  return Math.max(1, Math.round((new Date(iso).getTime() - Date.now()) / (60 * 1000)));
+}
+
+/**
+ * Scheduled rooms, run every minute:
+ *   1. Schedules whose reminder window opened get a "starting soon" push to
+ *      the host and everyone going or maybe.
+ *   2. Rooms whose start time has come are activated, with the host and
+ *      everyone going seated; finished occurrences roll on to the next slot.
+ * Both steps are claimed in SQL, so overlapping runs never act twice.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    // Verify cron secret for scheduled function
+    await verifyCronSecret(req);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: reminders, error: remindersError } = await supabase.rpc('claim_room_schedule_reminders');
+    if (remindersError) {
+      console.error('Error claiming room reminders:', remindersError);
+      throw remindersError;
+    }
+
+    const reminderRows = (reminders || []) as ReminderRow[];
+    const recipientIds = Array.from(new Set(reminderRows.flatMap((row) => row.recipient_ids)));
+
+    const usersMap = new Map<string, User>();
+    const [quietIds, pushTokens] = await Promise.all([
+      getQuietUserIds(supabase, recipientIds),
+      getPushTokens(supabase, recipientIds),
+    ]);
+    if (recipientIds.length > 0) {
+      const { data: users, error: usersError } = await supabase
+        .from('users')
+        .select('id, display_name')
+        .in('id', recipientIds);
+
+      if (usersError) {
+        console.error('Error fetching reminder recipients:', usersError);
+        throw usersError;
+      }
+
+      for (const u of (users || []) as User[]) {
+        usersMap.set(u.id, u);
+      }
+    }
+
+    let remindersSent = 0;
+    for (const row of reminderRows) {
+      const roomName = row.room_name || 'Your room';
+      const host = usersMap.get(row.creator_id);
+      const minutes = minutesUntil(row.starts_at);
+      const recipients = Array.from(new Set(row.recipient_ids));
+      const channelMap = await getNotificationChannels(supabase, recipients, 'room_reminder', row.creator_id);
+
+      for (const userId of recipients) {
+        const user = usersMap.get(userId);
+        if (!user) continue;
+
+        const channels = channelsFor(channelMap, userId);
+        if (isMuted(channels)) continue;
+
+        const notification = {
+          title: '⏰ Room starting soon',
+          body: userId === row.creator_id
+            ? `${roomName} opens in ${minutes} min`
+            : `${roomName}${host ? ` with ${host.display_name}` : ''} starts in ${minutes} min`,
+          data: {
+            type: 'room_reminder',
+            room_id: row.room_id,
+            room_name: roomName,
+            schedule_id: row.schedule_id,
+            starts_at: row.starts_at,
+            sender_id: row.creator_id,
+            sender_name: host?.display_name,
+          },
+          sound: 'default' as const,
+          priority: 'high' as const,
+        };
+
+        await supabase
+          .from('notifications')
+          .insert({
+            user_id: userId,
+            type: 'room_reminder',
+            title: notification.title,
+            body: notification.body,
+            data: notification.data,
+            is_read: false,
+          });
+
+        const tokens = pushTokens.get(userId) || [];
+        if (tokens.length === 0) continue;
+
+        const pushed = await sendToChannels(supabase, tokens, channels, notification, {
+          sync_type: 'sync_rooms',
+          notification_type: 'room_reminder',
+          room_id: row.room_id,
+        },
+        // Quiet hours: hold the push for the end-of-window summary
+        quietIds.has(userId)
+          ? () => holdPushes(supabase, [{
+              user_id: userId,
+              notification_type: 'room_reminder',
+              sender_id: row.creator_id,
+              title: notification.title,
+              body: notification.body,
+              data: notification.data,
+            }])
+          : undefined);
+        const sent = pushed === null || pushed.success > 0;
+
+        if (sent) {
+          console.log(`✓ Reminded ${user.display_name} about room ${row.room_id}`);
+          remindersSent++;
+        } else {
+          console.error(`✗ Failed to remind ${user.display_name} about room ${row.room_id}`);
+        }
+      }
+    }
+
+    const { data: activated, error: activateError } = await supabase.rpc('activate_scheduled_rooms');
+    if (activateError) {
+      console.error('Error activating scheduled rooms:', activateError);
+      throw activateError;
+    }
+
+    for (const row of (activated || []) as { schedule_id: string; room_id: string }[]) {
+      console.log(`✓ Opened scheduled room ${row.room_id}`);
+    }
+
+    const result = {
+      message: 'Scheduled rooms run completed',
+      reminders_claimed: reminderRows.length,
+      reminders_sent: remindersSent,
+      rooms_activated: (activated || []).length,
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log('Run complete:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
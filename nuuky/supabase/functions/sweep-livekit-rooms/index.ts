@@ -0,0 +1,179 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyCronSecret, AuthError, authErrorResponse } from '../_shared/auth.ts';
+import { getRoomService, removeFromLiveKit } from '../_shared/livekit.ts';
+
+interface ConnectedRow {
+  room_id: string;
+  user_id: string;
+  audio_joined_at: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A join webhook may still be in flight; don't second-guess very recent sessions
+const GRACE_MS = 60 * 1000;
+
+/**
+ * Catch what the livekit-webhook function missed (lost deliveries, LiveKit
+ * or function outages) by comparing the database with LiveKit's own view.
+ * Runs every 5 minutes.
+ *
+ * - Active rooms nobody has been around for a day are closed; default
+ *   rooms stay open.
+ * - Rooms marked audio_active that LiveKit no longer has are finished.
+ * - Participants the database thinks are connected but LiveKit doesn't
+ *   list are marked as left; ones LiveKit lists that the database missed
+ *   are marked as joined.
+ * - LiveKit participants without a membership row are disconnected.
+ */
+serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'X-Content-Type-Options': 'nosniff' } });
+    }
+
+    // Verify cron secret for scheduled function
+    await verifyCronSecret(req);
+
+    const roomService = getRoomService();
+    if (!roomService) {
+      return new Response(
+        JSON.stringify({ error: 'Internal server error' }),
+        { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const nowIso = now.toISOString();
+
+    const { data: closedRooms, error: closeError } = await supabase.rpc('close_empty_rooms');
+    if (closeError) {
+      console.error('Error closing empty rooms:', closeError);
+      throw closeError;
+    }
+
+    const [{ data: connected, error: connectedError }, { data: audioRooms, error: audioRoomsError }] =
+      await Promise.all([
+        supabase
+          .from('room_participants')
+          .select('room_id, user_id, audio_joined_at')
+          .not('audio_joined_at', 'is', null)
+          .is('audio_left_at', null),
+        supabase.from('rooms').select('id').eq('audio_active', true),
+      ]);
+
+    if (connectedError || audioRoomsError) {
+      console.error('Error fetching connected participants:', connectedError || audioRoomsError);
+      throw connectedError || audioRoomsError;
+    }
+
+    const liveRooms = (await roomService.listRooms()).filter((room) => UUID_PATTERN.test(room.name));
+    const liveRoomIds = new Set(liveRooms.map((room) => room.name));
+
+    const connectedByRoom = new Map<string, ConnectedRow[]>();
+    for (const row of (connected || []) as ConnectedRow[]) {
+      connectedByRoom.set(row.room_id, [...(connectedByRoom.get(row.room_id) || []), row]);
+    }
+
+    let roomsFinished = 0;
+    let markedLeft = 0;
+    let markedJoined = 0;
+    let disconnected = 0;
+
+    // Rooms LiveKit has already closed
+    const goneRoomIds = new Set<string>([
+      ...connectedByRoom.keys(),
+      ...(audioRooms || []).map((room: { id: string }) => room.id),
+    ]);
+    for (const roomId of goneRoomIds) {
+      if (liveRoomIds.has(roomId)) continue;
+      try {
+        const { error } = await supabase.rpc('record_livekit_room_finished', { p_room_id: roomId, p_at: nowIso });
+        if (error) throw error;
+        roomsFinished++;
+      } catch (error) {
+        console.error(`✗ Failed to finish room ${roomId}:`, error);
+      }
+    }
+
+    // Rooms LiveKit still has: compare who is really connected
+    for (const room of liveRooms) {
+      try {
+        const liveParticipants = await roomService.listParticipants(room.name);
+        const liveIdentities = new Set(liveParticipants.map((p) => p.identity));
+        const dbConnected = connectedByRoom.get(room.name) || [];
+        const dbConnectedIds = new Set(dbConnected.map((row) => row.user_id));
+
+        for (const row of dbConnected) {
+          if (liveIdentities.has(row.user_id)) continue;
+          if (now.getTime() - new Date(row.audio_joined_at).getTime() < GRACE_MS) continue;
+
+          const { error } = await supabase.rpc('record_livekit_participant_left', {
+            p_room_id: room.name,
+            p_user_id: row.user_id,
+            p_sid: null,
+            p_at: nowIso,
+          });
+          if (error) throw error;
+          markedLeft++;
+        }
+
+        for (const participant of liveParticipants) {
+          if (dbConnectedIds.has(participant.identity) || !UUID_PATTERN.test(participant.identity)) continue;
+
+          const joinedAt = Number(participant.joinedAt) > 0
+            ? new Date(Number(participant.joinedAt) * 1000).toISOString()
+            : nowIso;
+
+          const { data: isMember, error } = await supabase.rpc('record_livekit_participant_joined', {
+            p_room_id: room.name,
+            p_user_id: participant.identity,
+            p_sid: participant.sid,
+            p_at: joinedAt,
+          });
+          if (error) throw error;
+
+          if (isMember) {
+            markedJoined++;
+          } else if (await removeFromLiveKit(roomService, room.name, participant.identity)) {
+            disconnected++;
+          }
+        }
+      } catch (error) {
+        console.error(`✗ Failed to reconcile room ${room.name}:`, error);
+      }
+    }
+
+    const result = {
+      message: 'LiveKit room sweep completed',
+      closed_rooms: (closedRooms || []).length,
+      rooms_finished: roomsFinished,
+      marked_left: markedLeft,
+      marked_joined: markedJoined,
+      disconnected,
+      timestamp: nowIso,
+    };
+
+    console.log('Sweep complete:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+});
@@ -0,0 +1,117 @@
+-- Privacy-preserving contact discovery
+-- Clients hash address-book numbers (SHA-256 of the salted E.164 number) and
+-- only send the hashes. discover_contacts() matches them against users.phone_hash
+-- and returns user ids, so numbers of people not on Nuuky never leave the device.
+--
+-- The salt must stay in sync with CONTACT_HASH_SALT in hooks/useContactSync.ts.
+-- Phone numbers have little entropy, so a hash alone cannot stop enumeration;
+-- the per-user daily quota below is what bounds how many numbers one account
+-- can probe.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================
+-- 1. Hashed phone column on users
+-- ============================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS phone_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_users_phone_hash
+  ON users(phone_hash)
+  WHERE phone_hash IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION contact_phone_hash(p_phone TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_phone IS NULL OR p_phone = '' THEN NULL
+    ELSE encode(digest('nuuky-contact-v1:' || p_phone, 'sha256'), 'hex')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION set_user_phone_hash()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.phone_hash := contact_phone_hash(NEW.phone);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_user_phone_hash_trigger ON users;
+CREATE TRIGGER set_user_phone_hash_trigger
+  BEFORE INSERT OR UPDATE OF phone ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION set_user_phone_hash();
+
+-- Backfill existing users
+UPDATE users SET phone_hash = contact_phone_hash(phone) WHERE phone IS NOT NULL;
+
+-- ============================================
+-- 2. Per-user discovery quota
+-- ============================================
+
+-- NOTE: RLS enabled with NO policies intentionally (same as nudge_limits).
+-- Only discover_contacts() touches this table.
+CREATE TABLE IF NOT EXISTS contact_discovery_usage (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  lookups INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, date)
+);
+
+ALTER TABLE contact_discovery_usage ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. Discovery RPC
+-- ============================================
+
+-- Returns the ids of users whose phone hash is in p_hashes.
+-- Limits: 500 hashes per call, 2000 hashes per user per day.
+-- Blocked users (in either direction) and the caller are never returned.
+CREATE OR REPLACE FUNCTION discover_contacts(p_hashes TEXT[])
+RETURNS TABLE (id UUID, phone_hash TEXT) AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  request_size INT := COALESCE(array_length(p_hashes, 1), 0);
+  used_today INT;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF request_size = 0 THEN
+    RETURN;
+  END IF;
+
+  IF request_size > 500 THEN
+    RAISE EXCEPTION 'Too many hashes in one request (max 500)';
+  END IF;
+
+  INSERT INTO contact_discovery_usage (user_id, date, lookups)
+  VALUES (caller_id, CURRENT_DATE, request_size)
+  ON CONFLICT (user_id, date)
+  DO UPDATE SET lookups = contact_discovery_usage.lookups + EXCLUDED.lookups
+  RETURNING lookups INTO used_today;
+
+  IF used_today > 2000 THEN
+    RAISE EXCEPTION 'Contact discovery quota exceeded';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.phone_hash
+  FROM users u
+  WHERE u.phone_hash = ANY (p_hashes)
+    AND u.id <> caller_id
+    AND NOT EXISTS (
+      SELECT 1 FROM blocks b
+      WHERE (b.blocker_id = caller_id AND b.blocked_id = u.id)
+         OR (b.blocker_id = u.id AND b.blocked_id = caller_id)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION discover_contacts(TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION discover_contacts(TEXT[]) TO authenticated;
+
+COMMENT ON COLUMN users.phone_hash IS 'SHA-256 of the salted E.164 phone number, used for contact discovery';
+COMMENT ON TABLE contact_discovery_usage IS 'Daily contact discovery lookups per user, enforces the discovery quota';
+COMMENT ON FUNCTION discover_contacts IS 'Match client-side phone hashes to user ids with a per-user daily quota';
@@ -0,0 +1,109 @@
+-- User blocking
+-- Blocks are silent: the blocked user is never told. Anything they try to send
+-- to the blocker (nudges, photo nudges, voice moments, call-me requests, room
+-- invites) is rejected by RLS, the blocker's flares are hidden from them, and
+-- blocking removes both users from each other's rooms.
+
+-- ============================================
+-- 1. Block lookup helper
+-- ============================================
+
+-- SECURITY DEFINER because blocks RLS only lets the blocker see their own rows,
+-- but the check must also apply when the blocked user is the one acting.
+CREATE OR REPLACE FUNCTION is_blocked_between(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blocks
+    WHERE (blocker_id = p_user_a AND blocked_id = p_user_b)
+       OR (blocker_id = p_user_b AND blocked_id = p_user_a)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION is_blocked_between(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_blocked_between(UUID, UUID) TO authenticated, service_role;
+
+CREATE INDEX IF NOT EXISTS idx_blocks_pair ON blocks(blocker_id, blocked_id);
+CREATE INDEX IF NOT EXISTS idx_blocks_blocked_pair ON blocks(blocked_id, blocker_id);
+
+-- ============================================
+-- 2. Reject interactions between blocked users
+-- ============================================
+-- RESTRICTIVE policies are AND-ed with the existing permissive ones.
+
+DROP POLICY IF EXISTS "Blocked users cannot nudge" ON nudges;
+CREATE POLICY "Blocked users cannot nudge"
+  ON nudges AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_blocked_between(sender_id, receiver_id));
+
+DROP POLICY IF EXISTS "Blocked users cannot send photo nudges" ON photo_nudges;
+CREATE POLICY "Blocked users cannot send photo nudges"
+  ON photo_nudges AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_blocked_between(sender_id, receiver_id));
+
+DROP POLICY IF EXISTS "Blocked users cannot send voice moments" ON voice_moments;
+CREATE POLICY "Blocked users cannot send voice moments"
+  ON voice_moments AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_blocked_between(sender_id, receiver_id));
+
+DROP POLICY IF EXISTS "Blocked users cannot send call-me requests" ON call_me_requests;
+CREATE POLICY "Blocked users cannot send call-me requests"
+  ON call_me_requests AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_blocked_between(sender_id, receiver_id));
+
+DROP POLICY IF EXISTS "Blocked users cannot send room invites" ON room_invites;
+CREATE POLICY "Blocked users cannot send room invites"
+  ON room_invites AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_blocked_between(sender_id, receiver_id));
+
+DROP POLICY IF EXISTS "Blocked users cannot see flares" ON flares;
+CREATE POLICY "Blocked users cannot see flares"
+  ON flares AS RESTRICTIVE FOR SELECT
+  USING (user_id = auth.uid() OR NOT is_blocked_between(auth.uid(), user_id));
+
+DROP POLICY IF EXISTS "Blocked users cannot respond to flares" ON flares;
+CREATE POLICY "Blocked users cannot respond to flares"
+  ON flares AS RESTRICTIVE FOR UPDATE
+  USING (user_id = auth.uid() OR NOT is_blocked_between(auth.uid(), user_id));
+
+-- ============================================
+-- 3. Remove blocked users from each other's rooms
+-- ============================================
+
+CREATE OR REPLACE FUNCTION handle_new_block()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Blocked user leaves rooms created by the blocker
+  DELETE FROM room_participants rp
+  USING rooms r
+  WHERE rp.room_id = r.id
+    AND r.creator_id = NEW.blocker_id
+    AND rp.user_id = NEW.blocked_id;
+
+  -- Blocker leaves rooms created by the blocked user
+  DELETE FROM room_participants rp
+  USING rooms r
+  WHERE rp.room_id = r.id
+    AND r.creator_id = NEW.blocked_id
+    AND rp.user_id = NEW.blocker_id;
+
+  -- Drop pending invites in either direction
+  DELETE FROM room_invites
+  WHERE status = 'pending'
+    AND ((sender_id = NEW.blocker_id AND receiver_id = NEW.blocked_id)
+      OR (sender_id = NEW.blocked_id AND receiver_id = NEW.blocker_id));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_block_created ON blocks;
+CREATE TRIGGER on_block_created
+  AFTER INSERT ON blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_block();
+
+-- Let useFriends refresh when the user blocks/unblocks someone
+ALTER PUBLICATION supabase_realtime ADD TABLE blocks;
+
+COMMENT ON FUNCTION is_blocked_between IS 'True if either user has blocked the other';
+COMMENT ON FUNCTION handle_new_block IS 'Removes blocked users from each other''s rooms and cancels pending invites';
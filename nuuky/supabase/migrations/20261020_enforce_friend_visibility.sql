@@ -0,0 +1,128 @@
+-- Per-friend visibility enforcement
+-- friendships.visibility on MY row (user_id = me, friend_id = them) controls
+-- what THEY can see of me:
+--   full    - profile, preset mood, custom mood, mood selfie and presence
+--   limited - profile, preset mood and presence (no custom mood or selfie)
+--   minimal - profile only (always appears offline with a neutral mood)
+--   hidden  - same as minimal, and my flares are never shown to them
+--
+-- Clients load friends through get_visible_friends() instead of joining the
+-- users row directly, so the reduced fields never leave the database.
+
+-- ============================================
+-- 1. Profile projection
+-- ============================================
+
+CREATE OR REPLACE FUNCTION project_friend_profile(p_user_id UUID, p_visibility TEXT)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', u.id,
+    'display_name', u.display_name,
+    'avatar_url', u.avatar_url,
+    'visibility', p_visibility,
+    'mood', CASE WHEN p_visibility IN ('full', 'limited') THEN u.mood ELSE 'neutral' END,
+    'is_online', CASE WHEN p_visibility IN ('full', 'limited') THEN u.is_online ELSE false END,
+    'last_seen_at', CASE WHEN p_visibility IN ('full', 'limited') THEN u.last_seen_at END,
+    'custom_mood_id', CASE WHEN p_visibility = 'full' THEN u.custom_mood_id END,
+    'mood_selfie_id', CASE WHEN p_visibility = 'full' THEN u.mood_selfie_id END,
+    'custom_mood', CASE WHEN p_visibility = 'full' THEN (
+      SELECT jsonb_build_object(
+        'id', cm.id,
+        'emoji', cm.emoji,
+        'text', cm.text,
+        'color', cm.color,
+        'image_url', cm.image_url
+      )
+      FROM custom_moods cm
+      WHERE cm.id = u.custom_mood_id
+    ) END,
+    'mood_selfie', CASE WHEN p_visibility = 'full' THEN (
+      SELECT jsonb_build_object(
+        'id', ms.id,
+        'image_url', ms.image_url,
+        'expires_at', ms.expires_at
+      )
+      FROM mood_selfies ms
+      WHERE ms.id = u.mood_selfie_id
+    ) END
+  )
+  FROM users u
+  WHERE u.id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper: only callable from the SECURITY DEFINER RPC below
+REVOKE ALL ON FUNCTION project_friend_profile(UUID, TEXT) FROM PUBLIC;
+
+COMMENT ON FUNCTION project_friend_profile(UUID, TEXT) IS
+  'Returns the subset of a user profile allowed by the given visibility tier';
+
+-- ============================================
+-- 2. Friends list RPC
+-- ============================================
+
+-- The tier comes from the friend's own row pointing back at the caller,
+-- not from the caller's row (which controls what the friend sees of the caller).
+CREATE OR REPLACE FUNCTION get_visible_friends()
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  friend_id UUID,
+  status VARCHAR,
+  visibility VARCHAR,
+  created_at TIMESTAMPTZ,
+  last_interaction_at TIMESTAMPTZ,
+  friend JSONB
+) AS $$
+  SELECT
+    f.id,
+    f.user_id,
+    f.friend_id,
+    f.status,
+    f.visibility,
+    f.created_at,
+    f.last_interaction_at,
+    project_friend_profile(f.friend_id, COALESCE(r.visibility, 'full'))
+  FROM friendships f
+  LEFT JOIN friendships r
+    ON r.user_id = f.friend_id
+   AND r.friend_id = f.user_id
+  WHERE f.user_id = auth.uid()
+    AND f.status = 'accepted';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_visible_friends() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_visible_friends() TO authenticated;
+
+COMMENT ON FUNCTION get_visible_friends() IS
+  'Accepted friendships of the caller with each friend profile reduced to the tier that friend granted';
+
+-- ============================================
+-- 3. Flares are never shown to hidden friends
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_hidden_from(p_owner_id UUID, p_viewer_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM friendships
+    WHERE user_id = p_owner_id
+      AND friend_id = p_viewer_id
+      AND visibility = 'hidden'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION is_hidden_from(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_hidden_from(UUID, UUID) TO authenticated, service_role;
+
+DROP POLICY IF EXISTS "Hidden friends cannot see flares" ON flares;
+CREATE POLICY "Hidden friends cannot see flares"
+  ON flares AS RESTRICTIVE FOR SELECT
+  USING (user_id = auth.uid() OR NOT is_hidden_from(user_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Hidden friends cannot respond to flares" ON flares;
+CREATE POLICY "Hidden friends cannot respond to flares"
+  ON flares AS RESTRICTIVE FOR UPDATE
+  USING (user_id = auth.uid() OR NOT is_hidden_from(user_id, auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_friendships_visibility_hidden
+  ON friendships(user_id, friend_id)
+  WHERE visibility = 'hidden';
@@ -0,0 +1,213 @@
+-- Recurring ghost mode and quiet hours
+-- Complements the one-shot ghost_mode_until / take_break_until timers with
+-- weekly schedules such as "invisible 23:00-07:00 on weekdays" or
+-- "break every Sunday". Each schedule carries its own IANA timezone so the
+-- window follows the user's local clock.
+--
+--   ghost - appear offline while the window is active
+--   break - appear offline AND hold push notifications (quiet hours); held
+--           pushes are delivered as one summary by deliver-held-notifications
+--           once the window ends
+
+-- ============================================
+-- 1. Schedules
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS availability_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('ghost', 'break')),
+  -- Days the window STARTS on, 0 = Sunday ... 6 = Saturday
+  days SMALLINT[] NOT NULL CHECK (array_length(days, 1) > 0 AND days <@ ARRAY[0,1,2,3,4,5,6]::SMALLINT[]),
+  -- end_time <= start_time wraps past midnight; equal times cover the whole day
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_schedules_user
+  ON availability_schedules(user_id)
+  WHERE is_enabled;
+
+ALTER TABLE availability_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own schedules" ON availability_schedules;
+CREATE POLICY "Users can view their own schedules"
+  ON availability_schedules FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own schedules" ON availability_schedules;
+CREATE POLICY "Users can create their own schedules"
+  ON availability_schedules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own schedules" ON availability_schedules;
+CREATE POLICY "Users can update their own schedules"
+  ON availability_schedules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own schedules" ON availability_schedules;
+CREATE POLICY "Users can delete their own schedules"
+  ON availability_schedules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Reject unknown timezones up front so window checks never fail at push time
+CREATE OR REPLACE FUNCTION validate_schedule_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_schedule_timezone ON availability_schedules;
+CREATE TRIGGER validate_schedule_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON availability_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_schedule_timezone();
+
+COMMENT ON TABLE availability_schedules IS 'Recurring weekly ghost/break windows in the user''s local timezone';
+
+-- ============================================
+-- 2. Window evaluation
+-- ============================================
+
+-- Mirrors isScheduleActive() in lib/availabilitySchedule.ts
+CREATE OR REPLACE FUNCTION is_schedule_active(
+  p_days SMALLINT[],
+  p_start TIME,
+  p_end TIME,
+  p_timezone TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_local TIMESTAMP := p_at AT TIME ZONE p_timezone;
+  v_dow SMALLINT := EXTRACT(DOW FROM v_local)::SMALLINT;
+  v_prev_dow SMALLINT := ((EXTRACT(DOW FROM v_local)::INT + 6) % 7)::SMALLINT;
+  v_time TIME := v_local::TIME;
+BEGIN
+  IF p_start = p_end THEN
+    RETURN v_dow = ANY(p_days);
+  END IF;
+
+  IF p_start < p_end THEN
+    RETURN v_dow = ANY(p_days) AND v_time >= p_start AND v_time < p_end;
+  END IF;
+
+  -- Overnight window: started today, or started yesterday and still running
+  RETURN (v_dow = ANY(p_days) AND v_time >= p_start)
+      OR (v_prev_dow = ANY(p_days) AND v_time < p_end);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Returns 'break' if any break window (or one-shot break) is active,
+-- otherwise 'ghost' if any ghost window (or one-shot ghost mode) is active,
+-- otherwise NULL.
+CREATE OR REPLACE FUNCTION active_availability_mode(p_user_id UUID, p_at TIMESTAMPTZ DEFAULT now())
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = p_user_id AND u.take_break_until > p_at
+    ) OR EXISTS (
+      SELECT 1 FROM availability_schedules s
+      WHERE s.user_id = p_user_id
+        AND s.is_enabled
+        AND s.kind = 'break'
+        AND is_schedule_active(s.days, s.start_time, s.end_time, s.timezone, p_at)
+    ) THEN 'break'
+    WHEN EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = p_user_id AND u.ghost_mode_until > p_at
+    ) OR EXISTS (
+      SELECT 1 FROM availability_schedules s
+      WHERE s.user_id = p_user_id
+        AND s.is_enabled
+        AND s.kind = 'ghost'
+        AND is_schedule_active(s.days, s.start_time, s.end_time, s.timezone, p_at)
+    ) THEN 'ghost'
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION active_availability_mode(UUID, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION active_availability_mode(UUID, TIMESTAMPTZ) TO service_role;
+
+-- Batch variant for edge functions: which of these users are in quiet hours right now
+CREATE OR REPLACE FUNCTION get_quiet_user_ids(p_user_ids UUID[])
+RETURNS SETOF UUID AS $$
+  SELECT id FROM unnest(p_user_ids) AS id
+  WHERE active_availability_mode(id) = 'break';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_quiet_user_ids(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_quiet_user_ids(UUID[]) TO service_role;
+
+-- ============================================
+-- 3. Presence enforcement
+-- ============================================
+-- The client already reports offline during ghost/break windows; this keeps a
+-- stale or modified client from broadcasting presence anyway.
+
+CREATE OR REPLACE FUNCTION enforce_availability_presence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_online AND active_availability_mode(NEW.id) IS NOT NULL THEN
+    NEW.is_online := false;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_availability_presence ON users;
+CREATE TRIGGER enforce_availability_presence
+  BEFORE UPDATE OF is_online ON users
+  FOR EACH ROW
+  WHEN (NEW.is_online IS TRUE)
+  EXECUTE FUNCTION enforce_availability_presence();
+
+-- ============================================
+-- 4. Held pushes
+-- ============================================
+-- Service-role only (RLS enabled, no policies). The in-app notification row is
+-- still written immediately; only the device push is deferred.
+
+CREATE TABLE IF NOT EXISTS held_pushes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notification_type VARCHAR(50) NOT NULL,
+  sender_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_held_pushes_user_created
+  ON held_pushes(user_id, created_at);
+
+ALTER TABLE held_pushes ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE held_pushes IS 'Pushes deferred during quiet hours; flushed as one summary by deliver-held-notifications';
+
+-- ============================================
+-- 5. Summary delivery cron
+-- ============================================
+-- Replace YOUR_PROJECT_REF and YOUR_CRON_SECRET before uncommenting.
+-- Runs every 15 minutes so summaries arrive shortly after a window ends.
+
+-- SELECT cron.schedule(
+--   'deliver-held-notifications',
+--   '*/15 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://YOUR_PROJECT_REF.supabase.co/functions/v1/deliver-held-notifications',
+--     headers := '{"Authorization": "Bearer YOUR_CRON_SECRET", "Content-Type": "application/json"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,351 @@
+-- Server-authoritative streak engine
+-- Streak bookkeeping moves out of the client (useStreaks used to
+-- read-then-update the row with UTC day math) into record_streak_interaction(),
+-- which locks the pair's row and evaluates days on each user's local calendar.
+--
+-- Rules:
+--   - Each interaction is stamped with the interacting user's local date
+--   - A day is credited once both users have interacted on their own local
+--     "today"; the pair day (the earlier of the two local dates) makes sure a
+--     day is only credited once even when the users straddle midnight
+--   - The streak breaks once either user misses an entire local day
+--   - Every 7 credited days both users earn a streak freeze (max 3). A freeze
+--     covers today for a fading streak without adding a day.
+--
+-- streak_state() is shared by get_streaks() (client) and get_streak_states()
+-- (check-streak-notifications) so both sides agree on active/fading/broken.
+
+-- ============================================
+-- 1. User timezone
+-- ============================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Same validation as availability_schedules.timezone
+DROP TRIGGER IF EXISTS validate_user_timezone ON users;
+CREATE TRIGGER validate_user_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_schedule_timezone();
+
+COMMENT ON COLUMN users.timezone IS 'IANA timezone used for local-day streak boundaries; refreshed by the client on each interaction';
+
+-- ============================================
+-- 2. Streak columns
+-- ============================================
+
+ALTER TABLE streaks
+  ADD COLUMN IF NOT EXISTS user1_last_day DATE,
+  ADD COLUMN IF NOT EXISTS user2_last_day DATE,
+  ADD COLUMN IF NOT EXISTS last_streak_day DATE,
+  ADD COLUMN IF NOT EXISTS last_freeze_day DATE;
+
+-- Existing rows were tracked in UTC
+UPDATE streaks SET
+  user1_last_day = (user1_last_interaction AT TIME ZONE 'UTC')::date,
+  user2_last_day = (user2_last_interaction AT TIME ZONE 'UTC')::date,
+  last_streak_day = (last_streak_at AT TIME ZONE 'UTC')::date
+WHERE user1_last_day IS NULL
+  AND user2_last_day IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_streaks_pair ON streaks(user1_id, user2_id);
+
+-- Clients go through the functions below; direct writes could fake a streak
+REVOKE INSERT, UPDATE ON streaks FROM anon, authenticated;
+
+COMMENT ON COLUMN streaks.user1_last_day IS 'user1''s local date of their latest interaction';
+COMMENT ON COLUMN streaks.user2_last_day IS 'user2''s local date of their latest interaction';
+COMMENT ON COLUMN streaks.last_streak_day IS 'Pair day that was last credited (or covered by a freeze)';
+COMMENT ON COLUMN streaks.last_freeze_day IS 'Pair day that was last covered by a streak freeze';
+
+-- ============================================
+-- 3. Streak freezes
+-- ============================================
+-- Balances are only written by the SECURITY DEFINER functions below.
+
+CREATE TABLE IF NOT EXISTS streak_freezes (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  balance SMALLINT NOT NULL DEFAULT 0 CHECK (balance BETWEEN 0 AND 3),
+  earned_total INT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE streak_freezes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own streak freezes" ON streak_freezes;
+CREATE POLICY "Users can view their own streak freezes"
+  ON streak_freezes FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE streak_freezes IS 'Streak freeze tokens: one earned per 7 credited streak days, capped at 3';
+
+CREATE OR REPLACE FUNCTION award_streak_freeze(p_user_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO streak_freezes (user_id, balance, earned_total)
+  VALUES (p_user_id, 1, 1)
+  ON CONFLICT (user_id) DO UPDATE
+    SET balance = LEAST(streak_freezes.balance + 1, 3),
+        earned_total = streak_freezes.earned_total + 1,
+        updated_at = now();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION award_streak_freeze(UUID) FROM PUBLIC;
+
+-- ============================================
+-- 4. Streak state
+-- ============================================
+
+-- active: both users interacted on their local today
+-- fading: someone's last interaction was their local yesterday
+-- broken: someone missed a whole local day (or never interacted)
+CREATE OR REPLACE FUNCTION streak_state(
+  p_user1_last_day DATE,
+  p_user2_last_day DATE,
+  p_user1_timezone TEXT,
+  p_user2_timezone TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_gap INT;
+BEGIN
+  IF p_user1_last_day IS NULL OR p_user2_last_day IS NULL THEN
+    RETURN 'broken';
+  END IF;
+
+  v_gap := GREATEST(
+    (p_at AT TIME ZONE p_user1_timezone)::date - p_user1_last_day,
+    (p_at AT TIME ZONE p_user2_timezone)::date - p_user2_last_day
+  );
+
+  IF v_gap <= 0 THEN RETURN 'active'; END IF;
+  IF v_gap = 1 THEN RETURN 'fading'; END IF;
+  RETURN 'broken';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- 5. Recording interactions
+-- ============================================
+
+CREATE OR REPLACE FUNCTION record_streak_interaction(p_friend_id UUID, p_timezone TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_u1 UUID := LEAST(auth.uid(), p_friend_id);
+  v_u2 UUID := GREATEST(auth.uid(), p_friend_id);
+  v_streak streaks%ROWTYPE;
+  v_tz1 TEXT;
+  v_tz2 TEXT;
+  v_today1 DATE;
+  v_today2 DATE;
+  v_pair_day DATE;
+  v_credited BOOLEAN := false;
+BEGIN
+  IF v_me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM friendships
+    WHERE user_id = v_me AND friend_id = p_friend_id AND status = 'accepted'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not friends');
+  END IF;
+
+  -- Keep the caller's day boundary in step with their device (travel, DST region)
+  IF p_timezone IS NOT NULL AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    UPDATE users SET timezone = p_timezone
+    WHERE id = v_me AND timezone IS DISTINCT FROM p_timezone;
+  END IF;
+
+  INSERT INTO streaks (user1_id, user2_id, consecutive_days)
+  VALUES (v_u1, v_u2, 0)
+  ON CONFLICT (user1_id, user2_id) DO NOTHING;
+
+  -- Row lock serializes both friends interacting at the same moment
+  SELECT * INTO v_streak
+  FROM streaks
+  WHERE user1_id = v_u1 AND user2_id = v_u2
+  FOR UPDATE;
+
+  SELECT timezone INTO v_tz1 FROM users WHERE id = v_u1;
+  SELECT timezone INTO v_tz2 FROM users WHERE id = v_u2;
+
+  v_today1 := (now() AT TIME ZONE v_tz1)::date;
+  v_today2 := (now() AT TIME ZONE v_tz2)::date;
+  v_pair_day := LEAST(v_today1, v_today2);
+
+  -- Either side missing a whole local day breaks the streak
+  IF v_streak.user1_last_day < v_today1 - 1 OR v_streak.user2_last_day < v_today2 - 1 THEN
+    v_streak.consecutive_days := 0;
+    v_streak.last_streak_day := NULL;
+    v_streak.last_streak_at := NULL;
+  END IF;
+
+  IF v_me = v_u1 THEN
+    v_streak.user1_last_day := v_today1;
+    v_streak.user1_last_interaction := now();
+  ELSE
+    v_streak.user2_last_day := v_today2;
+    v_streak.user2_last_interaction := now();
+  END IF;
+
+  IF v_streak.user1_last_day = v_today1
+     AND v_streak.user2_last_day = v_today2
+     AND (v_streak.last_streak_day IS NULL OR v_streak.last_streak_day < v_pair_day) THEN
+    v_streak.consecutive_days := v_streak.consecutive_days + 1;
+    v_streak.last_streak_day := v_pair_day;
+    v_streak.last_streak_at := now();
+    v_credited := true;
+
+    IF v_streak.consecutive_days % 7 = 0 THEN
+      PERFORM award_streak_freeze(v_u1);
+      PERFORM award_streak_freeze(v_u2);
+    END IF;
+  END IF;
+
+  UPDATE streaks SET
+    consecutive_days = v_streak.consecutive_days,
+    user1_last_day = v_streak.user1_last_day,
+    user2_last_day = v_streak.user2_last_day,
+    user1_last_interaction = v_streak.user1_last_interaction,
+    user2_last_interaction = v_streak.user2_last_interaction,
+    last_streak_day = v_streak.last_streak_day,
+    last_streak_at = v_streak.last_streak_at
+  WHERE id = v_streak.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'streak_id', v_streak.id,
+    'consecutive_days', v_streak.consecutive_days,
+    'credited', v_credited,
+    'state', streak_state(v_streak.user1_last_day, v_streak.user2_last_day, v_tz1, v_tz2)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_streak_interaction(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_streak_interaction(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- 6. Spending a freeze
+-- ============================================
+
+CREATE OR REPLACE FUNCTION use_streak_freeze(p_streak_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_streak streaks%ROWTYPE;
+  v_tz1 TEXT;
+  v_tz2 TEXT;
+  v_today1 DATE;
+  v_today2 DATE;
+BEGIN
+  SELECT * INTO v_streak
+  FROM streaks
+  WHERE id = p_streak_id AND v_me IN (user1_id, user2_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Streak not found');
+  END IF;
+
+  SELECT timezone INTO v_tz1 FROM users WHERE id = v_streak.user1_id;
+  SELECT timezone INTO v_tz2 FROM users WHERE id = v_streak.user2_id;
+
+  IF v_streak.consecutive_days < 1
+     OR streak_state(v_streak.user1_last_day, v_streak.user2_last_day, v_tz1, v_tz2) <> 'fading' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only fading streaks can be frozen');
+  END IF;
+
+  UPDATE streak_freezes
+  SET balance = balance - 1, updated_at = now()
+  WHERE user_id = v_me AND balance > 0;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No streak freezes left');
+  END IF;
+
+  v_today1 := (now() AT TIME ZONE v_tz1)::date;
+  v_today2 := (now() AT TIME ZONE v_tz2)::date;
+
+  -- Cover today for both sides; the covered day is not credited
+  UPDATE streaks SET
+    user1_last_day = v_today1,
+    user2_last_day = v_today2,
+    last_streak_day = GREATEST(last_streak_day, LEAST(v_today1, v_today2)),
+    last_freeze_day = LEAST(v_today1, v_today2)
+  WHERE id = v_streak.id;
+
+  RETURN jsonb_build_object('success', true, 'consecutive_days', v_streak.consecutive_days);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION use_streak_freeze(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION use_streak_freeze(UUID) TO authenticated;
+
+-- ============================================
+-- 7. Read RPCs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_streaks()
+RETURNS TABLE (
+  id UUID,
+  user1_id UUID,
+  user2_id UUID,
+  friend_id UUID,
+  consecutive_days INT,
+  user1_last_interaction TIMESTAMPTZ,
+  user2_last_interaction TIMESTAMPTZ,
+  last_streak_at TIMESTAMPTZ,
+  last_freeze_day DATE,
+  created_at TIMESTAMPTZ,
+  state TEXT
+) AS $$
+  SELECT
+    s.id,
+    s.user1_id,
+    s.user2_id,
+    CASE WHEN s.user1_id = auth.uid() THEN s.user2_id ELSE s.user1_id END,
+    s.consecutive_days,
+    s.user1_last_interaction,
+    s.user2_last_interaction,
+    s.last_streak_at,
+    s.last_freeze_day,
+    s.created_at,
+    streak_state(s.user1_last_day, s.user2_last_day, u1.timezone, u2.timezone)
+  FROM streaks s
+  JOIN users u1 ON u1.id = s.user1_id
+  JOIN users u2 ON u2.id = s.user2_id
+  WHERE auth.uid() IN (s.user1_id, s.user2_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_streaks() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_streaks() TO authenticated;
+
+-- Service-role variant for check-streak-notifications
+CREATE OR REPLACE FUNCTION get_streak_states()
+RETURNS TABLE (
+  id UUID,
+  user1_id UUID,
+  user2_id UUID,
+  consecutive_days INT,
+  last_streak_notification_at TIMESTAMPTZ,
+  state TEXT
+) AS $$
+  SELECT
+    s.id,
+    s.user1_id,
+    s.user2_id,
+    s.consecutive_days,
+    s.last_streak_notification_at,
+    streak_state(s.user1_last_day, s.user2_last_day, u1.timezone, u2.timezone)
+  FROM streaks s
+  JOIN users u1 ON u1.id = s.user1_id
+  JOIN users u2 ON u2.id = s.user2_id
+  WHERE s.consecutive_days > 0;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_streak_states() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_streak_states() TO service_role;
@@ -0,0 +1,344 @@
+-- Streak history and milestones
+-- A streaks row only holds the current run, so once it breaks the history is
+-- gone. streak_events keeps an append-only log per friend pair:
+--
+--   increment - a day was credited (consecutive_days after the increment)
+--   fade      - the streak started fading (recorded by check-streak-notifications)
+--   break     - the streak broke (consecutive_days it reached before breaking)
+--   restore   - a streak freeze covered a fading day
+--   milestone - the streak reached 7, 30, 100 or 365 days
+--
+-- Milestone pushes are sent by send-streak-milestone-notification, which only
+-- notifies milestone events that have not been notified yet.
+
+-- ============================================
+-- 1. Events
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS streak_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  streak_id UUID NOT NULL REFERENCES streaks(id) ON DELETE CASCADE,
+  user1_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user2_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('increment', 'fade', 'break', 'restore', 'milestone')),
+  consecutive_days INT NOT NULL,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_streak_events_pair_created
+  ON streak_events(user1_id, user2_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_streak_events_pending_milestones
+  ON streak_events(streak_id)
+  WHERE event_type = 'milestone' AND notified_at IS NULL;
+
+ALTER TABLE streak_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the SECURITY DEFINER streak functions and the service role
+DROP POLICY IF EXISTS "Users can view their own streak events" ON streak_events;
+CREATE POLICY "Users can view their own streak events"
+  ON streak_events FOR SELECT
+  USING (auth.uid() IN (user1_id, user2_id));
+
+COMMENT ON TABLE streak_events IS 'Append-only streak history per friend pair: increments, fades, breaks, restores and milestones';
+
+CREATE OR REPLACE FUNCTION log_streak_event(
+  p_streak streaks,
+  p_event_type TEXT,
+  p_consecutive_days INT,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+  INSERT INTO streak_events (streak_id, user1_id, user2_id, event_type, consecutive_days, actor_id)
+  VALUES (p_streak.id, p_streak.user1_id, p_streak.user2_id, p_event_type, p_consecutive_days, p_actor_id);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION log_streak_event(streaks, TEXT, INT, UUID) FROM PUBLIC;
+
+-- ============================================
+-- 2. Best-ever streak
+-- ============================================
+
+ALTER TABLE streaks ADD COLUMN IF NOT EXISTS best_streak INT NOT NULL DEFAULT 0;
+
+UPDATE streaks SET best_streak = consecutive_days WHERE best_streak < consecutive_days;
+
+COMMENT ON COLUMN streaks.best_streak IS 'Longest consecutive_days this pair has ever reached';
+
+-- ============================================
+-- 3. Milestone notification type
+-- ============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type::text = ANY (ARRAY[
+    'nudge',
+    'flare',
+    'friend_request',
+    'friend_accepted',
+    'room_invite',
+    'call_me',
+    'heart',
+    'photo_nudge',
+    'photo_like',
+    'streak_fading',
+    'streak_milestone',
+    'voice_moment',
+    'voice_moment_reaction'
+  ]::text[]));
+
+-- ============================================
+-- 4. Streak functions with history
+-- ============================================
+-- Same rules as 20261022_server_streak_engine.sql, now logging every change.
+
+CREATE OR REPLACE FUNCTION record_streak_interaction(p_friend_id UUID, p_timezone TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_u1 UUID := LEAST(auth.uid(), p_friend_id);
+  v_u2 UUID := GREATEST(auth.uid(), p_friend_id);
+  v_streak streaks%ROWTYPE;
+  v_tz1 TEXT;
+  v_tz2 TEXT;
+  v_today1 DATE;
+  v_today2 DATE;
+  v_pair_day DATE;
+  v_credited BOOLEAN := false;
+  v_milestone INT;
+BEGIN
+  IF v_me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM friendships
+    WHERE user_id = v_me AND friend_id = p_friend_id AND status = 'accepted'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not friends');
+  END IF;
+
+  -- Keep the caller's day boundary in step with their device (travel, DST region)
+  IF p_timezone IS NOT NULL AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    UPDATE users SET timezone = p_timezone
+    WHERE id = v_me AND timezone IS DISTINCT FROM p_timezone;
+  END IF;
+
+  INSERT INTO streaks (user1_id, user2_id, consecutive_days)
+  VALUES (v_u1, v_u2, 0)
+  ON CONFLICT (user1_id, user2_id) DO NOTHING;
+
+  -- Row lock serializes both friends interacting at the same moment
+  SELECT * INTO v_streak
+  FROM streaks
+  WHERE user1_id = v_u1 AND user2_id = v_u2
+  FOR UPDATE;
+
+  SELECT timezone INTO v_tz1 FROM users WHERE id = v_u1;
+  SELECT timezone INTO v_tz2 FROM users WHERE id = v_u2;
+
+  v_today1 := (now() AT TIME ZONE v_tz1)::date;
+  v_today2 := (now() AT TIME ZONE v_tz2)::date;
+  v_pair_day := LEAST(v_today1, v_today2);
+
+  -- Either side missing a whole local day breaks the streak
+  IF v_streak.user1_last_day < v_today1 - 1 OR v_streak.user2_last_day < v_today2 - 1 THEN
+    IF v_streak.consecutive_days > 0 THEN
+      PERFORM log_streak_event(v_streak, 'break', v_streak.consecutive_days);
+    END IF;
+    v_streak.consecutive_days := 0;
+    v_streak.last_streak_day := NULL;
+    v_streak.last_streak_at := NULL;
+  END IF;
+
+  IF v_me = v_u1 THEN
+    v_streak.user1_last_day := v_today1;
+    v_streak.user1_last_interaction := now();
+  ELSE
+    v_streak.user2_last_day := v_today2;
+    v_streak.user2_last_interaction := now();
+  END IF;
+
+  IF v_streak.user1_last_day = v_today1
+     AND v_streak.user2_last_day = v_today2
+     AND (v_streak.last_streak_day IS NULL OR v_streak.last_streak_day < v_pair_day) THEN
+    v_streak.consecutive_days := v_streak.consecutive_days + 1;
+    v_streak.best_streak := GREATEST(v_streak.best_streak, v_streak.consecutive_days);
+    v_streak.last_streak_day := v_pair_day;
+    v_streak.last_streak_at := now();
+    v_credited := true;
+
+    PERFORM log_streak_event(v_streak, 'increment', v_streak.consecutive_days, v_me);
+
+    IF v_streak.consecutive_days IN (7, 30, 100, 365) THEN
+      v_milestone := v_streak.consecutive_days;
+      PERFORM log_streak_event(v_streak, 'milestone', v_milestone);
+    END IF;
+
+    IF v_streak.consecutive_days % 7 = 0 THEN
+      PERFORM award_streak_freeze(v_u1);
+      PERFORM award_streak_freeze(v_u2);
+    END IF;
+  END IF;
+
+  UPDATE streaks SET
+    consecutive_days = v_streak.consecutive_days,
+    best_streak = v_streak.best_streak,
+    user1_last_day = v_streak.user1_last_day,
+    user2_last_day = v_streak.user2_last_day,
+    user1_last_interaction = v_streak.user1_last_interaction,
+    user2_last_interaction = v_streak.user2_last_interaction,
+    last_streak_day = v_streak.last_streak_day,
+    last_streak_at = v_streak.last_streak_at
+  WHERE id = v_streak.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'streak_id', v_streak.id,
+    'consecutive_days', v_streak.consecutive_days,
+    'best_streak', v_streak.best_streak,
+    'credited', v_credited,
+    'milestone', v_milestone,
+    'state', streak_state(v_streak.user1_last_day, v_streak.user2_last_day, v_tz1, v_tz2)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION use_streak_freeze(p_streak_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_streak streaks%ROWTYPE;
+  v_tz1 TEXT;
+  v_tz2 TEXT;
+  v_today1 DATE;
+  v_today2 DATE;
+BEGIN
+  SELECT * INTO v_streak
+  FROM streaks
+  WHERE id = p_streak_id AND v_me IN (user1_id, user2_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Streak not found');
+  END IF;
+
+  SELECT timezone INTO v_tz1 FROM users WHERE id = v_streak.user1_id;
+  SELECT timezone INTO v_tz2 FROM users WHERE id = v_streak.user2_id;
+
+  IF v_streak.consecutive_days < 1
+     OR streak_state(v_streak.user1_last_day, v_streak.user2_last_day, v_tz1, v_tz2) <> 'fading' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only fading streaks can be frozen');
+  END IF;
+
+  UPDATE streak_freezes
+  SET balance = balance - 1, updated_at = now()
+  WHERE user_id = v_me AND balance > 0;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No streak freezes left');
+  END IF;
+
+  v_today1 := (now() AT TIME ZONE v_tz1)::date;
+  v_today2 := (now() AT TIME ZONE v_tz2)::date;
+
+  -- Cover today for both sides; the covered day is not credited
+  UPDATE streaks SET
+    user1_last_day = v_today1,
+    user2_last_day = v_today2,
+    last_streak_day = GREATEST(last_streak_day, LEAST(v_today1, v_today2)),
+    last_freeze_day = LEAST(v_today1, v_today2)
+  WHERE id = v_streak.id;
+
+  PERFORM log_streak_event(v_streak, 'restore', v_streak.consecutive_days, v_me);
+
+  RETURN jsonb_build_object('success', true, 'consecutive_days', v_streak.consecutive_days);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 5. Read RPC with best-ever streak
+-- ============================================
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_streaks();
+
+CREATE OR REPLACE FUNCTION get_streaks()
+RETURNS TABLE (
+  id UUID,
+  user1_id UUID,
+  user2_id UUID,
+  friend_id UUID,
+  consecutive_days INT,
+  best_streak INT,
+  user1_last_interaction TIMESTAMPTZ,
+  user2_last_interaction TIMESTAMPTZ,
+  last_streak_at TIMESTAMPTZ,
+  last_freeze_day DATE,
+  created_at TIMESTAMPTZ,
+  state TEXT
+) AS $$
+  SELECT
+    s.id,
+    s.user1_id,
+    s.user2_id,
+    CASE WHEN s.user1_id = auth.uid() THEN s.user2_id ELSE s.user1_id END,
+    s.consecutive_days,
+    s.best_streak,
+    s.user1_last_interaction,
+    s.user2_last_interaction,
+    s.last_streak_at,
+    s.last_freeze_day,
+    s.created_at,
+    streak_state(s.user1_last_day, s.user2_last_day, u1.timezone, u2.timezone)
+  FROM streaks s
+  JOIN users u1 ON u1.id = s.user1_id
+  JOIN users u2 ON u2.id = s.user2_id
+  WHERE auth.uid() IN (s.user1_id, s.user2_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_streaks() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_streaks() TO authenticated;
+
+-- ============================================
+-- 6. Closing broken streaks
+-- ============================================
+-- Streaks otherwise only reset when one of the friends interacts again, so the
+-- break would never show up in the history of a pair that drifted apart.
+-- Called by check-streak-notifications on every run.
+
+CREATE OR REPLACE FUNCTION close_broken_streaks()
+RETURNS INT AS $$
+DECLARE
+  v_streak streaks%ROWTYPE;
+  v_closed INT := 0;
+BEGIN
+  FOR v_streak IN
+    SELECT s.*
+    FROM streaks s
+    JOIN users u1 ON u1.id = s.user1_id
+    JOIN users u2 ON u2.id = s.user2_id
+    WHERE s.consecutive_days > 0
+      AND streak_state(s.user1_last_day, s.user2_last_day, u1.timezone, u2.timezone) = 'broken'
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    PERFORM log_streak_event(v_streak, 'break', v_streak.consecutive_days);
+
+    UPDATE streaks SET
+      consecutive_days = 0,
+      last_streak_day = NULL,
+      last_streak_at = NULL
+    WHERE id = v_streak.id;
+
+    v_closed := v_closed + 1;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION close_broken_streaks() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION close_broken_streaks() TO service_role;
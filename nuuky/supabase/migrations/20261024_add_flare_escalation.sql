@@ -0,0 +1,174 @@
+-- Multi-level flare escalation
+-- A flare used to reach every friend at once and then go quiet if nobody
+-- answered. It now widens in tiers until someone responds:
+--
+--   1 favorites   - the favorites the sender picked on the device
+--   2 friends     - every remaining friend, after flare_widen_after_minutes
+--   3 anchors     - the sender's anchors get a stronger push, after
+--                   flare_anchors_after_minutes
+--
+-- Tier 1 is sent by send-flare-notification; later tiers by the
+-- escalate-flares cron. Every tier appends an entry to flares.escalation_log
+-- recording who was notified and when.
+
+-- ============================================
+-- 1. Tier timing preferences
+-- ============================================
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS flare_widen_after_minutes SMALLINT NOT NULL DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS flare_anchors_after_minutes SMALLINT NOT NULL DEFAULT 5;
+
+ALTER TABLE user_preferences DROP CONSTRAINT IF EXISTS user_preferences_flare_escalation_check;
+ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_flare_escalation_check
+  CHECK (
+    flare_widen_after_minutes BETWEEN 1 AND 30
+    AND flare_anchors_after_minutes BETWEEN 2 AND 60
+    AND flare_anchors_after_minutes > flare_widen_after_minutes
+  );
+
+COMMENT ON COLUMN user_preferences.flare_widen_after_minutes IS 'Minutes without a response before a flare widens from favorites to all friends';
+COMMENT ON COLUMN user_preferences.flare_anchors_after_minutes IS 'Minutes without a response before a flare alerts the sender''s anchors';
+
+-- ============================================
+-- 2. Escalation state on the flare
+-- ============================================
+
+ALTER TABLE flares
+  ADD COLUMN IF NOT EXISTS favorite_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS escalation_level SMALLINT NOT NULL DEFAULT 0
+    CHECK (escalation_level BETWEEN 0 AND 3),
+  ADD COLUMN IF NOT EXISTS widen_after_minutes SMALLINT NOT NULL DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS anchors_after_minutes SMALLINT NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS escalation_log JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_flares_pending_escalation
+  ON flares(created_at)
+  WHERE responded_by IS NULL AND escalation_level < 3;
+
+COMMENT ON COLUMN flares.favorite_ids IS 'Tier 1 recipients, captured from the sender''s favorites when the flare is created';
+COMMENT ON COLUMN flares.escalation_level IS '0 = not sent, 1 = favorites, 2 = all friends, 3 = anchors';
+COMMENT ON COLUMN flares.escalation_log IS 'Audit trail: one {level, tier, at, notified, held} entry per tier reached';
+
+-- Timing is snapshotted from the sender's preferences at insert, and the
+-- escalation columns can only be moved forward by the service role, so
+-- neither the sender nor a responding friend can rewrite the audit trail.
+CREATE OR REPLACE FUNCTION protect_flare_escalation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT
+      COALESCE(p.flare_widen_after_minutes, 2),
+      COALESCE(p.flare_anchors_after_minutes, 5)
+    INTO NEW.widen_after_minutes, NEW.anchors_after_minutes
+    FROM (SELECT 1) AS one
+    LEFT JOIN user_preferences p ON p.user_id = NEW.user_id;
+
+    NEW.escalation_level := 0;
+    NEW.escalation_log := '[]'::jsonb;
+    NEW.favorite_ids := COALESCE(NEW.favorite_ids, '{}');
+    RETURN NEW;
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.favorite_ids := OLD.favorite_ids;
+    NEW.escalation_level := OLD.escalation_level;
+    NEW.widen_after_minutes := OLD.widen_after_minutes;
+    NEW.anchors_after_minutes := OLD.anchors_after_minutes;
+    NEW.escalation_log := OLD.escalation_log;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_flare_escalation ON flares;
+CREATE TRIGGER protect_flare_escalation
+  BEFORE INSERT OR UPDATE ON flares
+  FOR EACH ROW EXECUTE FUNCTION protect_flare_escalation();
+
+-- ============================================
+-- 3. Claiming and logging a tier
+-- ============================================
+
+-- Atomically move a flare up to p_level. Returns NULL if the flare was
+-- answered or already reached that tier, so concurrent callers can't send a
+-- tier twice. Each tier keeps the flare visible long enough for the newly
+-- notified people to respond.
+CREATE OR REPLACE FUNCTION claim_flare_escalation(p_flare_id UUID, p_level SMALLINT)
+RETURNS JSONB AS $$
+DECLARE
+  v_flare flares;
+BEGIN
+  UPDATE flares
+  SET escalation_level = p_level,
+      expires_at = GREATEST(expires_at, now() + INTERVAL '5 minutes')
+  WHERE id = p_flare_id
+    AND escalation_level < p_level
+    AND responded_by IS NULL
+  RETURNING * INTO v_flare;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  RETURN to_jsonb(v_flare);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_flare_escalation(UUID, SMALLINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_flare_escalation(UUID, SMALLINT) TO service_role;
+
+CREATE OR REPLACE FUNCTION log_flare_escalation(p_flare_id UUID, p_entry JSONB)
+RETURNS VOID AS $$
+  UPDATE flares
+  SET escalation_log = escalation_log || jsonb_build_array(p_entry)
+  WHERE id = p_flare_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION log_flare_escalation(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION log_flare_escalation(UUID, JSONB) TO service_role;
+
+-- Unanswered flares whose next tier is due. A flare still at level 0 a
+-- minute after creation means send-flare-notification never ran, so its
+-- first tier is picked up here. Flares older than the longest allowed anchor
+-- delay are left alone.
+CREATE OR REPLACE FUNCTION get_due_flare_escalations()
+RETURNS TABLE (flare_id UUID, next_level SMALLINT) AS $$
+  SELECT
+    f.id,
+    (CASE
+      WHEN f.escalation_level = 0 AND cardinality(f.favorite_ids) = 0 THEN 2
+      ELSE f.escalation_level + 1
+    END)::SMALLINT
+  FROM flares f
+  WHERE f.responded_by IS NULL
+    AND f.escalation_level < 3
+    AND f.created_at > now() - INTERVAL '90 minutes'
+    AND now() >= f.created_at + make_interval(mins =>
+      CASE f.escalation_level
+        WHEN 0 THEN 1
+        WHEN 1 THEN f.widen_after_minutes
+        ELSE f.anchors_after_minutes
+      END)
+  ORDER BY f.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_due_flare_escalations() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_due_flare_escalations() TO service_role;
+
+-- ============================================
+-- 4. Escalation cron
+-- ============================================
+-- Replace YOUR_PROJECT_REF and YOUR_CRON_SECRET before uncommenting.
+-- Runs every minute; tier timing is in whole minutes.
+
+-- SELECT cron.schedule(
+--   'escalate-flares',
+--   '* * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://YOUR_PROJECT_REF.supabase.co/functions/v1/escalate-flares',
+--     headers := '{"Authorization": "Bearer YOUR_CRON_SECRET", "Content-Type": "application/json"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,124 @@
+-- Flare responses
+-- flares.responded_by holds a single responder and is overwritten by the
+-- next one. flare_responses lets every friend who sees a flare answer with a
+-- status, which the flare owner watches live:
+--
+--   here       - "I'm here"
+--   calling    - "Calling you"
+--   on_my_way  - "On my way"
+--   cant       - "Can't right now"
+--
+-- The first response that isn't 'cant' still fills flares.responded_by, so
+-- escalation stops as soon as someone is actually coming.
+
+-- ============================================
+-- 1. Responses
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS flare_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  flare_id UUID NOT NULL REFERENCES flares(id) ON DELETE CASCADE,
+  -- Denormalized so the owner can subscribe to one realtime filter
+  flare_owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  responder_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('here', 'calling', 'on_my_way', 'cant')),
+  -- Private room the responder opened with the flare owner, if any
+  room_id UUID REFERENCES rooms(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (flare_id, responder_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flare_responses_owner
+  ON flare_responses(flare_owner_id, created_at DESC);
+
+ALTER TABLE flare_responses ENABLE ROW LEVEL SECURITY;
+
+-- The owner and every friend who can see the flare see all responses, so
+-- friends know who is already on the way. Visibility of the flare itself
+-- applies the friendship, block and visibility policies on flares.
+DROP POLICY IF EXISTS "Flare owners and friends can view responses" ON flare_responses;
+CREATE POLICY "Flare owners and friends can view responses"
+  ON flare_responses FOR SELECT
+  USING (
+    flare_owner_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM flares f WHERE f.id = flare_id)
+  );
+
+-- Responding requires seeing a flare that is still active
+DROP POLICY IF EXISTS "Friends can respond to visible flares" ON flare_responses;
+CREATE POLICY "Friends can respond to visible flares"
+  ON flare_responses FOR INSERT
+  WITH CHECK (
+    responder_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM flares f
+      WHERE f.id = flare_id
+        AND f.user_id <> auth.uid()
+        AND f.expires_at > now()
+    )
+  );
+
+DROP POLICY IF EXISTS "Responders can update their response" ON flare_responses;
+CREATE POLICY "Responders can update their response"
+  ON flare_responses FOR UPDATE
+  USING (responder_id = auth.uid())
+  WITH CHECK (responder_id = auth.uid());
+
+COMMENT ON TABLE flare_responses IS 'One status per friend per flare; the owner watches these in realtime';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE flare_responses;
+
+-- ============================================
+-- 2. Owner, timestamps and responded_by
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_flare_response()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_previous_room UUID;
+BEGIN
+  -- The owner always comes from the flare, never from the client
+  SELECT user_id INTO NEW.flare_owner_id FROM flares WHERE id = NEW.flare_id;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.flare_id := OLD.flare_id;
+    NEW.responder_id := OLD.responder_id;
+    NEW.created_at := OLD.created_at;
+    NEW.updated_at := now();
+    v_previous_room := OLD.room_id;
+  END IF;
+
+  -- The owner auto-joins this room, so it must be one the responder created
+  IF NEW.room_id IS NOT NULL AND NEW.room_id IS DISTINCT FROM v_previous_room THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM rooms WHERE id = NEW.room_id AND creator_id = NEW.responder_id
+    ) THEN
+      RAISE EXCEPTION 'Flare response room must be created by the responder';
+    END IF;
+  END IF;
+
+  IF NEW.status <> 'cant' THEN
+    UPDATE flares
+    SET responded_by = NEW.responder_id
+    WHERE id = NEW.flare_id AND responded_by IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_flare_response ON flare_responses;
+CREATE TRIGGER sync_flare_response
+  BEFORE INSERT OR UPDATE ON flare_responses
+  FOR EACH ROW EXECUTE FUNCTION sync_flare_response();
+
+-- Existing single responses carry over as "I'm here"
+INSERT INTO flare_responses (flare_id, flare_owner_id, responder_id, status, created_at)
+SELECT id, user_id, responded_by, 'here', created_at
+FROM flares
+WHERE responded_by IS NOT NULL
+ON CONFLICT (flare_id, responder_id) DO NOTHING;
+
+-- responded_by is now written only by the trigger above
+DROP POLICY IF EXISTS "Users can respond to flares" ON flares;
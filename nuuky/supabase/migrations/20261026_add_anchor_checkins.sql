@@ -0,0 +1,196 @@
+-- Anchor check-ins
+-- check-anchor-notifications used to push to a user's anchors after 48h of
+-- inactivity and then forget about it. Inactivity now opens a check-in:
+--
+--   pending    - the user was asked "are you okay?" with a one-tap confirmation
+--   confirmed  - the user answered, or came back to the app
+--   escalated  - nobody answered within the response window, anchors alerted
+--
+-- Anchors of an escalated check-in can acknowledge that they are following
+-- up; every anchor of that user sees who already did.
+
+-- ============================================
+-- 1. Per-user inactivity threshold
+-- ============================================
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS anchor_checkin_after_hours SMALLINT NOT NULL DEFAULT 48;
+
+ALTER TABLE user_preferences DROP CONSTRAINT IF EXISTS user_preferences_anchor_checkin_check;
+ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_anchor_checkin_check
+  CHECK (anchor_checkin_after_hours BETWEEN 12 AND 168);
+
+COMMENT ON COLUMN user_preferences.anchor_checkin_after_hours IS 'Hours of inactivity before the user is asked to check in';
+
+-- ============================================
+-- 2. Check-ins
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS anchor_checkins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'escalated')),
+  -- users.last_seen_at when the check-in opened; one check-in per stretch of inactivity
+  last_seen_at TIMESTAMPTZ NOT NULL,
+  threshold_hours SMALLINT NOT NULL,
+  asked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  escalated_at TIMESTAMPTZ,
+  confirmed_at TIMESTAMPTZ,
+  UNIQUE (user_id, last_seen_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_anchor_checkins_user
+  ON anchor_checkins(user_id, asked_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_anchor_checkins_pending
+  ON anchor_checkins(asked_at)
+  WHERE status = 'pending';
+
+ALTER TABLE anchor_checkins ENABLE ROW LEVEL SECURITY;
+
+-- anchors rows are only visible to the user who picked them, so the anchor
+-- side of the relationship is checked here
+CREATE OR REPLACE FUNCTION is_anchor_of(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM anchors WHERE user_id = p_user_id AND anchor_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION is_anchor_of(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_anchor_of(UUID) TO authenticated;
+
+-- Anchors only see check-ins that actually reached them
+DROP POLICY IF EXISTS "Users and their anchors can view check-ins" ON anchor_checkins;
+CREATE POLICY "Users and their anchors can view check-ins"
+  ON anchor_checkins FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR (escalated_at IS NOT NULL AND is_anchor_of(user_id))
+  );
+
+COMMENT ON TABLE anchor_checkins IS 'Wellbeing check-ins opened by check-anchor-notifications; written only by the service role and confirm_anchor_checkin()';
+
+-- ============================================
+-- 3. Anchor acknowledgments
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS anchor_checkin_acks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  checkin_id UUID NOT NULL REFERENCES anchor_checkins(id) ON DELETE CASCADE,
+  anchor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (checkin_id, anchor_id)
+);
+
+ALTER TABLE anchor_checkin_acks ENABLE ROW LEVEL SECURITY;
+
+-- Visible wherever the check-in itself is visible
+DROP POLICY IF EXISTS "Check-in participants can view acknowledgments" ON anchor_checkin_acks;
+CREATE POLICY "Check-in participants can view acknowledgments"
+  ON anchor_checkin_acks FOR SELECT
+  USING (EXISTS (SELECT 1 FROM anchor_checkins c WHERE c.id = checkin_id));
+
+COMMENT ON TABLE anchor_checkin_acks IS 'Anchors following up on an escalated check-in; written by acknowledge-anchor-checkin';
+
+-- ============================================
+-- 4. Notification types
+-- ============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type::text = ANY (ARRAY[
+    'nudge',
+    'flare',
+    'friend_request',
+    'friend_accepted',
+    'room_invite',
+    'call_me',
+    'heart',
+    'photo_nudge',
+    'photo_like',
+    'streak_fading',
+    'streak_milestone',
+    'voice_moment',
+    'voice_moment_reaction',
+    'anchor_checkin',
+    'anchor_inactivity',
+    'anchor_ack'
+  ]::text[]));
+
+-- ============================================
+-- 5. Confirmation
+-- ============================================
+
+-- The one-tap "I'm okay". Closes every open check-in of the caller, including
+-- escalated ones, so anchors see that the user is fine.
+CREATE OR REPLACE FUNCTION confirm_anchor_checkin()
+RETURNS INT AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  UPDATE anchor_checkins
+  SET status = 'confirmed', confirmed_at = now()
+  WHERE user_id = auth.uid()
+    AND status IN ('pending', 'escalated')
+    AND confirmed_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION confirm_anchor_checkin() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION confirm_anchor_checkin() TO authenticated;
+
+-- ============================================
+-- 6. Cron helpers
+-- ============================================
+
+-- Open a check-in for every user with anchors who has been inactive past
+-- their threshold. Users on a break chose to be away and are skipped.
+-- The unique (user_id, last_seen_at) makes repeated runs a no-op.
+CREATE OR REPLACE FUNCTION open_due_anchor_checkins()
+RETURNS TABLE (checkin_id UUID, user_id UUID, threshold_hours SMALLINT, last_seen_at TIMESTAMPTZ) AS $$
+  INSERT INTO anchor_checkins (user_id, last_seen_at, threshold_hours)
+  SELECT u.id, u.last_seen_at, COALESCE(p.anchor_checkin_after_hours, 48)
+  FROM users u
+  LEFT JOIN user_preferences p ON p.user_id = u.id
+  WHERE u.last_seen_at IS NOT NULL
+    AND u.last_seen_at < now() - make_interval(hours => COALESCE(p.anchor_checkin_after_hours, 48))
+    AND (u.take_break_until IS NULL OR u.take_break_until < now())
+    AND EXISTS (SELECT 1 FROM anchors a WHERE a.user_id = u.id)
+  ON CONFLICT (user_id, last_seen_at) DO NOTHING
+  RETURNING id, user_id, threshold_hours, last_seen_at;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION open_due_anchor_checkins() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION open_due_anchor_checkins() TO service_role;
+
+-- Coming back to the app counts as a confirmation. Check-ins still pending
+-- after p_response_hours are escalated and returned for the anchor push.
+CREATE OR REPLACE FUNCTION escalate_due_anchor_checkins(p_response_hours INT)
+RETURNS TABLE (checkin_id UUID, user_id UUID, threshold_hours SMALLINT, last_seen_at TIMESTAMPTZ) AS $$
+#variable_conflict use_column
+BEGIN
+  UPDATE anchor_checkins c
+  SET status = 'confirmed', confirmed_at = u.last_seen_at
+  FROM users u
+  WHERE u.id = c.user_id
+    AND c.status IN ('pending', 'escalated')
+    AND c.confirmed_at IS NULL
+    AND u.last_seen_at > c.last_seen_at;
+
+  RETURN QUERY
+  UPDATE anchor_checkins c
+  SET status = 'escalated', escalated_at = now()
+  WHERE c.status = 'pending'
+    AND c.asked_at < now() - make_interval(hours => p_response_hours)
+  RETURNING c.id, c.user_id, c.threshold_hours, c.last_seen_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION escalate_due_anchor_checkins(INT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION escalate_due_anchor_checkins(INT) TO service_role;
@@ -0,0 +1,95 @@
+-- Room roles and moderation
+-- Removing someone used to only delete their room_participants row, so a
+-- LiveKit token they already held kept them connected until it expired.
+-- Participants now carry a role, and the moderate-room edge function applies
+-- mute, kick and role changes in LiveKit immediately:
+--
+--   owner      - rooms.creator_id; manages roles, moderates everyone else
+--   moderator  - mutes and removes members and listeners
+--   member     - talks
+--   listener   - hears the room but can't publish audio
+--
+-- Roles are only changed by the service role (moderate-room) or derived
+-- from rooms.creator_id; clients can't promote themselves.
+
+-- ============================================
+-- 1. Role and moderator mute
+-- ============================================
+
+ALTER TABLE room_participants
+  ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'member'
+    CHECK (role IN ('owner', 'moderator', 'member', 'listener')),
+  ADD COLUMN IF NOT EXISTS muted_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+UPDATE room_participants rp
+SET role = 'owner'
+FROM rooms r
+WHERE r.id = rp.room_id AND r.creator_id = rp.user_id AND rp.role <> 'owner';
+
+COMMENT ON COLUMN room_participants.role IS 'owner, moderator, member or listener; changed through moderate-room';
+COMMENT ON COLUMN room_participants.muted_by IS 'Moderator who muted this participant for everyone; cleared when they unmute';
+
+-- ============================================
+-- 2. Protect roles from clients
+-- ============================================
+
+-- For client writes the role follows rooms.creator_id: the creator is the
+-- owner, a former owner (after a transfer) becomes a moderator, and everyone
+-- else keeps the role moderate-room gave them.
+CREATE OR REPLACE FUNCTION protect_room_participant_role()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_creator_id UUID;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT creator_id INTO v_creator_id FROM rooms WHERE id = NEW.room_id;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := CASE WHEN NEW.user_id = v_creator_id THEN 'owner' ELSE 'member' END;
+    NEW.muted_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.role := CASE
+    WHEN NEW.user_id = v_creator_id THEN 'owner'
+    WHEN OLD.role = 'owner' THEN 'moderator'
+    ELSE OLD.role
+  END;
+
+  -- Unmuting yourself lifts a moderator mute; nothing else touches muted_by
+  NEW.muted_by := CASE WHEN NEW.is_muted THEN OLD.muted_by ELSE NULL END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_room_participant_role ON room_participants;
+CREATE TRIGGER protect_room_participant_role
+  BEFORE INSERT OR UPDATE ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION protect_room_participant_role();
+
+-- ============================================
+-- 3. Ownership transfer
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_room_owner_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE room_participants
+  SET role = CASE WHEN user_id = NEW.creator_id THEN 'owner' ELSE 'moderator' END
+  WHERE room_id = NEW.id
+    AND user_id IN (OLD.creator_id, NEW.creator_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_room_owner_role ON rooms;
+CREATE TRIGGER sync_room_owner_role
+  AFTER UPDATE OF creator_id ON rooms
+  FOR EACH ROW
+  WHEN (OLD.creator_id IS DISTINCT FROM NEW.creator_id)
+  EXECUTE FUNCTION sync_room_owner_role();
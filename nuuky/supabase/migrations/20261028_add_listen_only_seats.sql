@@ -0,0 +1,127 @@
+-- Listen-only seats
+-- LiveKit grants now follow the participant's role and the room's settings
+-- instead of letting everyone publish:
+--
+--   owner / moderator / member  - talk, listen, react
+--   listener                    - listen; react only if the room allows it
+--
+-- People who join through a shareable invite link come in as listeners by
+-- default, and listeners can ask to speak. An owner or moderator approves
+-- the request through the moderate-room edge function.
+
+-- ============================================
+-- 1. Room and invite link settings
+-- ============================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS listeners_can_react BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN rooms.listeners_can_react IS 'Whether listeners may publish data (sound reactions); false makes them subscribe-only';
+
+ALTER TABLE room_invite_links
+  ADD COLUMN IF NOT EXISTS join_role VARCHAR(20) NOT NULL DEFAULT 'listener'
+    CHECK (join_role IN ('member', 'listener'));
+
+COMMENT ON COLUMN room_invite_links.join_role IS 'Role given to people who join through this link';
+
+-- ============================================
+-- 2. Requests to speak
+-- ============================================
+
+ALTER TABLE room_participants
+  ADD COLUMN IF NOT EXISTS speak_requested_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_room_participants_speak_requests
+  ON room_participants(room_id)
+  WHERE speak_requested_at IS NOT NULL;
+
+-- ============================================
+-- 3. Protect roles from clients
+-- ============================================
+
+-- Same rules as before, plus: a client may join as a listener (never above
+-- member), listeners stay muted, and only listeners can have a pending
+-- request to speak.
+CREATE OR REPLACE FUNCTION protect_room_participant_role()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_creator_id UUID;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT creator_id INTO v_creator_id FROM rooms WHERE id = NEW.room_id;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := CASE
+      WHEN NEW.user_id = v_creator_id THEN 'owner'
+      WHEN NEW.role = 'listener' THEN 'listener'
+      ELSE 'member'
+    END;
+    NEW.muted_by := NULL;
+    NEW.speak_requested_at := NULL;
+  ELSE
+    NEW.role := CASE
+      WHEN NEW.user_id = v_creator_id THEN 'owner'
+      WHEN OLD.role = 'owner' THEN 'moderator'
+      ELSE OLD.role
+    END;
+
+    -- Unmuting yourself lifts a moderator mute; nothing else touches muted_by
+    NEW.muted_by := CASE WHEN NEW.is_muted THEN OLD.muted_by ELSE NULL END;
+  END IF;
+
+  IF NEW.role = 'listener' THEN
+    NEW.is_muted := true;
+  ELSE
+    NEW.speak_requested_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 4. Joining through an invite link
+-- ============================================
+
+-- Validates the link, counts the use and adds the caller with the link's
+-- join role. Returns the room id, or NULL when the link can't be used.
+CREATE OR REPLACE FUNCTION join_room_by_invite_link(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_link room_invite_links;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_link FROM room_invite_links WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Already in the room: don't spend a use or change their role
+  IF EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_link.room_id AND user_id = v_user_id
+  ) THEN
+    RETURN v_link.room_id;
+  END IF;
+
+  IF NOT increment_invite_link_use(p_token) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO room_participants (room_id, user_id, is_muted, role)
+  VALUES (v_link.room_id, v_user_id, true, v_link.join_role)
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  RETURN v_link.room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION join_room_by_invite_link(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION join_room_by_invite_link(TEXT) TO authenticated;
@@ -0,0 +1,251 @@
+-- LiveKit reconciliation
+-- room_participants and rooms.audio_active used to change only when the app
+-- said so, so a crashed or killed app left a ghost "in the call" and
+-- audio_active drifted. LiveKit now reports joins and leaves through the
+-- livekit-webhook edge function, and the sweep-livekit-rooms cron corrects
+-- anything a lost webhook missed.
+--
+-- Audio columns are written only by the service role:
+--   audio_joined_at  - when the participant's current LiveKit session started
+--   audio_left_at    - when it ended (NULL while connected)
+--   livekit_sid      - LiveKit participant sid of that session, so a late
+--                      "left" for an old session can't end a newer one
+
+-- ============================================
+-- 1. Audio session columns
+-- ============================================
+
+ALTER TABLE room_participants
+  ADD COLUMN IF NOT EXISTS audio_joined_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS audio_left_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS livekit_sid TEXT;
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS audio_updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_room_participants_in_call
+  ON room_participants(room_id)
+  WHERE audio_joined_at IS NOT NULL AND audio_left_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_audio_active
+  ON rooms(id)
+  WHERE audio_active = true;
+
+-- ============================================
+-- 2. Webhook deliveries
+-- ============================================
+
+-- LiveKit retries deliveries; each event id is applied once
+CREATE TABLE IF NOT EXISTS livekit_webhook_events (
+  id TEXT PRIMARY KEY,
+  event TEXT NOT NULL,
+  room_id UUID,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_livekit_webhook_events_received
+  ON livekit_webhook_events(received_at);
+
+-- Service role only
+ALTER TABLE livekit_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. Protect audio columns from clients
+-- ============================================
+
+CREATE OR REPLACE FUNCTION protect_room_participant_role()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_creator_id UUID;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT creator_id INTO v_creator_id FROM rooms WHERE id = NEW.room_id;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := CASE
+      WHEN NEW.user_id = v_creator_id THEN 'owner'
+      WHEN NEW.role = 'listener' THEN 'listener'
+      ELSE 'member'
+    END;
+    NEW.muted_by := NULL;
+    NEW.speak_requested_at := NULL;
+    NEW.audio_joined_at := NULL;
+    NEW.audio_left_at := NULL;
+    NEW.livekit_sid := NULL;
+  ELSE
+    NEW.role := CASE
+      WHEN NEW.user_id = v_creator_id THEN 'owner'
+      WHEN OLD.role = 'owner' THEN 'moderator'
+      ELSE OLD.role
+    END;
+
+    -- Unmuting yourself lifts a moderator mute; nothing else touches muted_by
+    NEW.muted_by := CASE WHEN NEW.is_muted THEN OLD.muted_by ELSE NULL END;
+
+    NEW.audio_joined_at := OLD.audio_joined_at;
+    NEW.audio_left_at := OLD.audio_left_at;
+    NEW.livekit_sid := OLD.livekit_sid;
+  END IF;
+
+  IF NEW.role = 'listener' THEN
+    NEW.is_muted := true;
+  ELSE
+    NEW.speak_requested_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 4. Reconciliation
+-- ============================================
+
+-- audio_active follows whether anyone is connected
+CREATE OR REPLACE FUNCTION refresh_room_audio_active(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_active BOOLEAN;
+BEGIN
+  SELECT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = p_room_id
+      AND audio_joined_at IS NOT NULL
+      AND audio_left_at IS NULL
+  ) INTO v_active;
+
+  UPDATE rooms
+  SET audio_active = v_active, audio_updated_at = NOW()
+  WHERE id = p_room_id AND audio_active IS DISTINCT FROM v_active;
+
+  RETURN v_active;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Returns false when the user isn't a participant (removed, or never
+-- joined), so the caller can disconnect them from LiveKit.
+CREATE OR REPLACE FUNCTION record_livekit_participant_joined(
+  p_room_id UUID,
+  p_user_id UUID,
+  p_sid TEXT,
+  p_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  UPDATE room_participants
+  SET audio_joined_at = p_at,
+      audio_left_at = NULL,
+      livekit_sid = p_sid
+  WHERE room_id = p_room_id
+    AND user_id = p_user_id
+    -- A late delivery must not reopen a session that ended after it
+    AND (audio_left_at IS NULL OR audio_left_at <= p_at);
+
+  v_found := EXISTS (
+    SELECT 1 FROM room_participants WHERE room_id = p_room_id AND user_id = p_user_id
+  );
+
+  PERFORM refresh_room_audio_active(p_room_id);
+  RETURN v_found;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Leaving the call also mutes, so nobody shows as live after a crash.
+-- p_sid NULL ends whatever session is open (used by the sweeper).
+CREATE OR REPLACE FUNCTION record_livekit_participant_left(
+  p_room_id UUID,
+  p_user_id UUID,
+  p_sid TEXT,
+  p_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE room_participants
+  SET audio_left_at = p_at,
+      is_muted = true
+  WHERE room_id = p_room_id
+    AND user_id = p_user_id
+    AND audio_left_at IS NULL
+    AND (p_sid IS NULL OR livekit_sid IS NULL OR livekit_sid = p_sid);
+
+  PERFORM refresh_room_audio_active(p_room_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_livekit_room_finished(
+  p_room_id UUID,
+  p_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE room_participants
+  SET audio_left_at = p_at,
+      is_muted = true
+  WHERE room_id = p_room_id
+    AND audio_joined_at IS NOT NULL
+    AND audio_left_at IS NULL;
+
+  PERFORM refresh_room_audio_active(p_room_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Active rooms nobody belongs to any more (the last member's app died
+-- before it could delete the room) are closed.
+CREATE OR REPLACE FUNCTION close_empty_rooms(p_min_age INTERVAL DEFAULT INTERVAL '10 minutes')
+RETURNS SETOF UUID AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE rooms r
+  SET is_active = false,
+      audio_active = false,
+      closed_at = NOW(),
+      audio_updated_at = NOW()
+  WHERE r.is_active = true
+    AND r.created_at < NOW() - p_min_age
+    AND NOT EXISTS (SELECT 1 FROM room_participants rp WHERE rp.room_id = r.id)
+  RETURNING r.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION refresh_room_audio_active(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_livekit_participant_joined(UUID, UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_livekit_participant_left(UUID, UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_livekit_room_finished(UUID, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION close_empty_rooms(INTERVAL) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION refresh_room_audio_active(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION record_livekit_participant_joined(UUID, UUID, TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION record_livekit_participant_left(UUID, UUID, TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION record_livekit_room_finished(UUID, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION close_empty_rooms(INTERVAL) TO service_role;
+
+-- ============================================
+-- 5. Sweeper cron
+-- ============================================
+-- Replace YOUR_PROJECT_REF and YOUR_CRON_SECRET before uncommenting.
+-- Point LiveKit's webhook at .../functions/v1/livekit-webhook (signed with
+-- the same API key the token function uses).
+
+-- SELECT cron.schedule(
+--   'sweep-livekit-rooms',
+--   '*/5 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://YOUR_PROJECT_REF.supabase.co/functions/v1/sweep-livekit-rooms',
+--     headers := '{"Authorization": "Bearer YOUR_CRON_SECRET", "Content-Type": "application/json"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
+
+-- Keep a week of delivery ids for dedupe
+-- SELECT cron.schedule(
+--   'prune-livekit-webhook-events',
+--   '0 4 * * *',
+--   $$ DELETE FROM livekit_webhook_events WHERE received_at < NOW() - INTERVAL '7 days' $$
+-- );
@@ -0,0 +1,332 @@
+-- Focus sessions
+-- A room-level Pomodoro timer for body doubling. Anyone who can speak in a
+-- room starts a session with work and break lengths and a number of rounds;
+-- the schedule is fixed at start, so every client derives the same phase
+-- and countdown from started_at without further messages:
+--
+--   work 1 | break 1 | work 2 | ... | work N   (no break after the last round)
+--
+-- People opt in with an optional intention ("finish chapter 3"). Work blocks
+-- they sat through are credited by sync_focus_progress, which clients call
+-- when a block ends; get_focus_summary totals them per user. Sessions keep
+-- their history when the room is deleted.
+
+-- ============================================
+-- 1. Sessions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS focus_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID REFERENCES rooms(id) ON DELETE SET NULL,
+  started_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  work_minutes INTEGER NOT NULL CHECK (work_minutes BETWEEN 5 AND 120),
+  break_minutes INTEGER NOT NULL CHECK (break_minutes BETWEEN 1 AND 60),
+  rounds INTEGER NOT NULL CHECK (rounds BETWEEN 1 AND 12),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Set when someone ends the session early, or once its schedule has run out
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- One running session per room
+CREATE UNIQUE INDEX IF NOT EXISTS idx_focus_sessions_one_active
+  ON focus_sessions(room_id)
+  WHERE ended_at IS NULL;
+
+COMMENT ON TABLE focus_sessions IS 'Shared Pomodoro timers; phases are derived from started_at and the intervals';
+
+-- ============================================
+-- 2. Participants
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS focus_session_participants (
+  session_id UUID NOT NULL REFERENCES focus_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Denormalized so room members can subscribe to one realtime filter
+  room_id UUID REFERENCES rooms(id) ON DELETE SET NULL,
+  intention TEXT CHECK (char_length(intention) <= 140),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_rounds INTEGER NOT NULL DEFAULT 0,
+  focus_minutes INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_focus_session_participants_user
+  ON focus_session_participants(user_id, joined_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_focus_session_participants_room
+  ON focus_session_participants(room_id);
+
+COMMENT ON COLUMN focus_session_participants.completed_rounds IS 'Work blocks that ended while this user was in the session (server-computed)';
+
+-- ============================================
+-- 3. Row level security
+-- ============================================
+
+-- Writes go through the functions below
+ALTER TABLE focus_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE focus_session_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Room members can view focus sessions" ON focus_sessions;
+CREATE POLICY "Room members can view focus sessions"
+  ON focus_sessions FOR SELECT
+  USING (
+    room_id IN (SELECT room_id FROM room_participants WHERE user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM focus_session_participants fsp
+      WHERE fsp.session_id = focus_sessions.id AND fsp.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Room members can view focus participants" ON focus_session_participants;
+CREATE POLICY "Room members can view focus participants"
+  ON focus_session_participants FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR room_id IN (SELECT room_id FROM room_participants WHERE user_id = auth.uid())
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE focus_sessions;
+ALTER PUBLICATION supabase_realtime ADD TABLE focus_session_participants;
+
+-- ============================================
+-- 4. Schedule helpers
+-- ============================================
+
+-- When the last work block ends
+CREATE OR REPLACE FUNCTION focus_session_ends_at(p_session focus_sessions)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT p_session.started_at
+    + make_interval(mins => p_session.rounds * p_session.work_minutes
+                            + (p_session.rounds - 1) * p_session.break_minutes);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Work blocks that ended after p_from and by p_until (both clamped to the session)
+CREATE OR REPLACE FUNCTION focus_rounds_between(
+  p_session focus_sessions,
+  p_from TIMESTAMPTZ,
+  p_until TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(0, p_session.rounds - 1) AS i
+  WHERE p_session.started_at
+          + make_interval(mins => i * (p_session.work_minutes + p_session.break_minutes) + p_session.work_minutes)
+        > p_from
+    AND p_session.started_at
+          + make_interval(mins => i * (p_session.work_minutes + p_session.break_minutes) + p_session.work_minutes)
+        <= p_until;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- 5. Starting and ending
+-- ============================================
+
+CREATE OR REPLACE FUNCTION start_focus_session(
+  p_room_id UUID,
+  p_work_minutes INTEGER,
+  p_break_minutes INTEGER,
+  p_rounds INTEGER
+)
+RETURNS focus_sessions AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session focus_sessions;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = p_room_id AND user_id = v_user_id AND role <> 'listener'
+  ) THEN
+    RAISE EXCEPTION 'Only room members who can speak can start a focus session';
+  END IF;
+
+  -- A session whose schedule has run out no longer blocks a new one
+  UPDATE focus_sessions fs
+  SET ended_at = focus_session_ends_at(fs)
+  WHERE fs.room_id = p_room_id
+    AND fs.ended_at IS NULL
+    AND focus_session_ends_at(fs) <= now();
+
+  INSERT INTO focus_sessions (room_id, started_by, work_minutes, break_minutes, rounds)
+  VALUES (p_room_id, v_user_id, p_work_minutes, p_break_minutes, p_rounds)
+  RETURNING * INTO v_session;
+
+  -- The starter is in it too
+  INSERT INTO focus_session_participants (session_id, user_id, room_id)
+  VALUES (v_session.id, v_user_id, p_room_id);
+
+  RETURN v_session;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'This room already has a focus session running';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION start_focus_session(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION start_focus_session(UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+-- The starter, the room owner or a moderator can end a session early.
+-- Participants are credited up to now.
+CREATE OR REPLACE FUNCTION end_focus_session(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session focus_sessions;
+BEGIN
+  SELECT * INTO v_session FROM focus_sessions WHERE id = p_session_id AND ended_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_session.started_by IS DISTINCT FROM v_user_id AND NOT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_session.room_id AND user_id = v_user_id AND role IN ('owner', 'moderator')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to end this focus session';
+  END IF;
+
+  UPDATE focus_session_participants fsp
+  SET completed_rounds = focus_rounds_between(v_session, fsp.joined_at, now()),
+      focus_minutes = focus_rounds_between(v_session, fsp.joined_at, now()) * v_session.work_minutes,
+      updated_at = now()
+  WHERE fsp.session_id = p_session_id
+    AND EXISTS (
+      SELECT 1 FROM room_participants rp
+      WHERE rp.room_id = v_session.room_id AND rp.user_id = fsp.user_id
+    );
+
+  UPDATE focus_sessions
+  SET ended_at = LEAST(now(), focus_session_ends_at(v_session))
+  WHERE id = p_session_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION end_focus_session(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION end_focus_session(UUID) TO authenticated;
+
+-- ============================================
+-- 6. Joining and progress
+-- ============================================
+
+-- Join a running session, or update the caller's intention if already in it
+CREATE OR REPLACE FUNCTION join_focus_session(p_session_id UUID, p_intention TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session focus_sessions;
+  v_intention TEXT := NULLIF(btrim(p_intention), '');
+BEGIN
+  SELECT * INTO v_session FROM focus_sessions
+  WHERE id = p_session_id
+    AND ended_at IS NULL
+    AND focus_session_ends_at(focus_sessions) > now();
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Listeners can body-double too
+  IF NOT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_session.room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  INSERT INTO focus_session_participants (session_id, user_id, room_id, intention)
+  VALUES (p_session_id, v_user_id, v_session.room_id, LEFT(v_intention, 140))
+  ON CONFLICT (session_id, user_id) DO UPDATE
+  SET intention = EXCLUDED.intention,
+      updated_at = now();
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION join_focus_session(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION join_focus_session(UUID, TEXT) TO authenticated;
+
+-- Credit the caller with the work blocks that have ended since they joined.
+-- Idempotent; clients call it whenever a work block ends while they are in
+-- the room, so blocks they missed by leaving are never counted. Returns the
+-- caller's completed rounds.
+CREATE OR REPLACE FUNCTION sync_focus_progress(p_session_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session focus_sessions;
+  v_rounds INTEGER;
+BEGIN
+  SELECT * INTO v_session FROM focus_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_session.room_id AND user_id = v_user_id
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE focus_session_participants fsp
+  SET completed_rounds = GREATEST(
+        fsp.completed_rounds,
+        focus_rounds_between(v_session, fsp.joined_at, COALESCE(v_session.ended_at, now()))
+      ),
+      updated_at = now()
+  WHERE fsp.session_id = p_session_id AND fsp.user_id = v_user_id
+  RETURNING completed_rounds INTO v_rounds;
+
+  IF v_rounds IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE focus_session_participants
+  SET focus_minutes = v_rounds * v_session.work_minutes
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  -- The schedule has run out: close it for everyone
+  IF v_session.ended_at IS NULL AND focus_session_ends_at(v_session) <= now() THEN
+    UPDATE focus_sessions SET ended_at = focus_session_ends_at(v_session) WHERE id = p_session_id;
+  END IF;
+
+  RETURN v_rounds;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION sync_focus_progress(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION sync_focus_progress(UUID) TO authenticated;
+
+-- ============================================
+-- 7. Per-user summary
+-- ============================================
+
+-- A session counts as completed when the user was credited every round
+CREATE OR REPLACE FUNCTION get_focus_summary()
+RETURNS TABLE (
+  sessions_joined INTEGER,
+  sessions_completed INTEGER,
+  rounds_completed INTEGER,
+  focus_minutes INTEGER,
+  last_focus_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE fsp.completed_rounds >= fs.rounds)::INTEGER,
+    COALESCE(SUM(fsp.completed_rounds), 0)::INTEGER,
+    COALESCE(SUM(fsp.focus_minutes), 0)::INTEGER,
+    MAX(fsp.updated_at) FILTER (WHERE fsp.completed_rounds > 0)
+  FROM focus_session_participants fsp
+  JOIN focus_sessions fs ON fs.id = fsp.session_id
+  WHERE fsp.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_focus_summary() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_focus_summary() TO authenticated;
@@ -0,0 +1,468 @@
+-- Scheduled and recurring rooms
+-- A room can be planned ahead, either once ("Friday 21:00") or on a weekly
+-- slot ("Tuesday 20:00 study hall"). The room row is created up front with
+-- is_active = false and the schedule decides when it opens:
+--
+--   * friends are invited through an RSVP list (invited/going/maybe/declined)
+--   * start-scheduled-rooms (cron) sends a reminder push shortly before start
+--   * at the start time the same function activates the room and seats the
+--     creator and everyone who is going
+--
+-- Recurring schedules reuse their room: each occurrence reopens it, and the
+-- RSVP applies to the whole series until the invitee changes it.
+
+-- ============================================
+-- 1. Schedules
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS room_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL UNIQUE REFERENCES rooms(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- One-off schedules set starts_at; recurring ones set days + start_time
+  starts_at TIMESTAMPTZ,
+  -- Days the room opens on, 0 = Sunday ... 6 = Saturday
+  days SMALLINT[] CHECK (days IS NULL OR (array_length(days, 1) > 0 AND days <@ ARRAY[0,1,2,3,4,5,6]::SMALLINT[])),
+  start_time TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  duration_minutes INT NOT NULL DEFAULT 60 CHECK (duration_minutes BETWEEN 15 AND 480),
+  reminder_minutes INT NOT NULL DEFAULT 15 CHECK (reminder_minutes BETWEEN 5 AND 120),
+  -- Current or upcoming occurrence; NULL once a one-off schedule is over
+  next_start_at TIMESTAMPTZ,
+  -- Occurrence the reminder / activation last ran for, so the cron is idempotent
+  reminded_for TIMESTAMPTZ,
+  activated_for TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (
+    (starts_at IS NOT NULL AND days IS NULL AND start_time IS NULL)
+    OR (starts_at IS NULL AND days IS NOT NULL AND start_time IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_schedules_next_start
+  ON room_schedules(next_start_at)
+  WHERE next_start_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_room_schedules_creator
+  ON room_schedules(creator_id);
+
+DROP TRIGGER IF EXISTS validate_schedule_timezone ON room_schedules;
+CREATE TRIGGER validate_schedule_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON room_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_schedule_timezone();
+
+COMMENT ON TABLE room_schedules IS 'One-off or weekly start times for rooms that open automatically; written through schedule_room';
+
+-- ============================================
+-- 2. RSVPs
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS room_schedule_rsvps (
+  schedule_id UUID NOT NULL REFERENCES room_schedules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(10) NOT NULL DEFAULT 'invited'
+    CHECK (status IN ('invited', 'going', 'maybe', 'declined')),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (schedule_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_schedule_rsvps_user
+  ON room_schedule_rsvps(user_id);
+
+COMMENT ON TABLE room_schedule_rsvps IS 'Friends invited to a scheduled room and their answer; written through schedule_room and rsvp_room_schedule';
+
+-- Both tables are read through get_upcoming_rooms and written through the
+-- functions below, so clients only get read access to their own rows
+ALTER TABLE room_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_schedule_rsvps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Creators and invitees can view room schedules" ON room_schedules;
+CREATE POLICY "Creators and invitees can view room schedules"
+  ON room_schedules FOR SELECT
+  USING (
+    creator_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM room_schedule_rsvps r
+      WHERE r.schedule_id = room_schedules.id AND r.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view their own RSVPs" ON room_schedule_rsvps;
+CREATE POLICY "Users can view their own RSVPs"
+  ON room_schedule_rsvps FOR SELECT
+  USING (user_id = auth.uid());
+
+-- New invitations show up in the invitee's upcoming list without a refresh
+ALTER PUBLICATION supabase_realtime ADD TABLE room_schedule_rsvps;
+
+-- ============================================
+-- 3. Occurrences
+-- ============================================
+
+-- First weekly occurrence strictly after p_after, on the schedule's local clock
+CREATE OR REPLACE FUNCTION next_schedule_occurrence(
+  p_days SMALLINT[],
+  p_start_time TIME,
+  p_timezone TEXT,
+  p_after TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_local_date DATE := (p_after AT TIME ZONE p_timezone)::DATE;
+  v_candidate TIMESTAMPTZ;
+BEGIN
+  -- Eight days so today's slot, if already past, rolls over to next week
+  FOR i IN 0..7 LOOP
+    IF EXTRACT(DOW FROM v_local_date + i)::SMALLINT = ANY (p_days) THEN
+      v_candidate := ((v_local_date + i) + p_start_time) AT TIME ZONE p_timezone;
+      IF v_candidate > p_after THEN
+        RETURN v_candidate;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION next_schedule_occurrence IS 'Next weekly start after a moment; mirrored by getNextOccurrence in lib/roomSchedule.ts';
+
+-- ============================================
+-- 4. Scheduling
+-- ============================================
+
+-- Create the (inactive) room, its schedule and the RSVP list in one go.
+-- Invitees are limited to accepted, unblocked friends of the caller.
+CREATE OR REPLACE FUNCTION schedule_room(
+  p_name TEXT,
+  p_starts_at TIMESTAMPTZ,
+  p_days SMALLINT[],
+  p_start_time TIME,
+  p_timezone TEXT,
+  p_duration_minutes INT DEFAULT 60,
+  p_reminder_minutes INT DEFAULT 15,
+  p_invitee_ids UUID[] DEFAULT '{}'
+)
+RETURNS room_schedules AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_room_id UUID;
+  v_next TIMESTAMPTZ;
+  v_schedule room_schedules;
+BEGIN
+  IF v_me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_starts_at IS NOT NULL THEN
+    IF p_starts_at <= now() THEN
+      RAISE EXCEPTION 'Scheduled start must be in the future';
+    END IF;
+    v_next := p_starts_at;
+  ELSE
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+      RAISE EXCEPTION 'Unknown timezone: %', p_timezone;
+    END IF;
+    v_next := next_schedule_occurrence(p_days, p_start_time, p_timezone, now());
+  END IF;
+
+  -- Same cap as immediate rooms, counting rooms that are still to open
+  IF (
+    SELECT count(*) FROM rooms r
+    WHERE r.creator_id = v_me
+      AND (r.is_active OR EXISTS (
+        SELECT 1 FROM room_schedules s WHERE s.room_id = r.id AND s.next_start_at IS NOT NULL
+      ))
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Room limit reached';
+  END IF;
+
+  INSERT INTO rooms (creator_id, name, is_private, is_active, audio_active)
+  VALUES (v_me, NULLIF(trim(p_name), ''), true, false, false)
+  RETURNING id INTO v_room_id;
+
+  INSERT INTO room_schedules (
+    room_id, creator_id, starts_at, days, start_time, timezone,
+    duration_minutes, reminder_minutes, next_start_at
+  )
+  VALUES (
+    v_room_id, v_me, p_starts_at,
+    CASE WHEN p_starts_at IS NULL THEN p_days END,
+    CASE WHEN p_starts_at IS NULL THEN p_start_time END,
+    COALESCE(p_timezone, 'UTC'),
+    p_duration_minutes, p_reminder_minutes, v_next
+  )
+  RETURNING * INTO v_schedule;
+
+  INSERT INTO room_schedule_rsvps (schedule_id, user_id)
+  SELECT v_schedule.id, f.friend_id
+  FROM friendships f
+  WHERE f.user_id = v_me
+    AND f.status = 'accepted'
+    AND f.friend_id = ANY (COALESCE(p_invitee_ids, '{}'))
+    AND NOT is_blocked_between(v_me, f.friend_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN v_schedule;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Answer an invitation. Saying "going" while the room is already open seats
+-- the caller right away instead of waiting for the next occurrence.
+CREATE OR REPLACE FUNCTION rsvp_room_schedule(p_schedule_id UUID, p_status TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_room_id UUID;
+BEGIN
+  IF p_status NOT IN ('going', 'maybe', 'declined') THEN
+    RAISE EXCEPTION 'Invalid RSVP status: %', p_status;
+  END IF;
+
+  UPDATE room_schedule_rsvps
+  SET status = p_status, responded_at = now()
+  WHERE schedule_id = p_schedule_id AND user_id = v_me;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_status = 'going' THEN
+    SELECT s.room_id INTO v_room_id
+    FROM room_schedules s
+    JOIN rooms r ON r.id = s.room_id
+    WHERE s.id = p_schedule_id
+      AND r.is_active
+      AND s.activated_for = s.next_start_at;
+
+    IF v_room_id IS NOT NULL THEN
+      INSERT INTO room_participants (room_id, user_id, is_muted, role)
+      VALUES (v_room_id, v_me, true, 'member')
+      ON CONFLICT (room_id, user_id) DO NOTHING;
+    END IF;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Call off a schedule. A room that never opened goes with it; one that did
+-- stays around as a normal room.
+CREATE OR REPLACE FUNCTION cancel_room_schedule(p_schedule_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_schedule room_schedules;
+BEGIN
+  DELETE FROM room_schedules
+  WHERE id = p_schedule_id AND creator_id = auth.uid()
+  RETURNING * INTO v_schedule;
+
+  IF v_schedule.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF v_schedule.activated_for IS NULL THEN
+    DELETE FROM rooms WHERE id = v_schedule.room_id AND is_active = false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Upcoming (and currently running) scheduled rooms the caller created or was
+-- invited to, with the caller's answer and the RSVP tally
+CREATE OR REPLACE FUNCTION get_upcoming_rooms()
+RETURNS TABLE (
+  schedule_id UUID,
+  room_id UUID,
+  room_name TEXT,
+  creator_id UUID,
+  creator_name TEXT,
+  creator_avatar_url TEXT,
+  starts_at TIMESTAMPTZ,
+  days SMALLINT[],
+  start_time TIME,
+  timezone TEXT,
+  duration_minutes INT,
+  next_start_at TIMESTAMPTZ,
+  is_open BOOLEAN,
+  my_status TEXT,
+  going_count INT,
+  maybe_count INT,
+  invited_count INT
+) AS $$
+  SELECT
+    s.id,
+    s.room_id,
+    r.name::TEXT,
+    s.creator_id,
+    u.display_name::TEXT,
+    u.avatar_url::TEXT,
+    s.starts_at,
+    s.days,
+    s.start_time,
+    s.timezone,
+    s.duration_minutes,
+    s.next_start_at,
+    (r.is_active AND s.activated_for = s.next_start_at),
+    CASE WHEN s.creator_id = auth.uid() THEN 'host' ELSE me.status::TEXT END,
+    (SELECT count(*)::INT FROM room_schedule_rsvps x WHERE x.schedule_id = s.id AND x.status = 'going'),
+    (SELECT count(*)::INT FROM room_schedule_rsvps x WHERE x.schedule_id = s.id AND x.status = 'maybe'),
+    (SELECT count(*)::INT FROM room_schedule_rsvps x WHERE x.schedule_id = s.id)
+  FROM room_schedules s
+  JOIN rooms r ON r.id = s.room_id
+  JOIN users u ON u.id = s.creator_id
+  LEFT JOIN room_schedule_rsvps me ON me.schedule_id = s.id AND me.user_id = auth.uid()
+  WHERE s.next_start_at IS NOT NULL
+    AND (s.creator_id = auth.uid() OR me.user_id IS NOT NULL)
+    AND NOT is_blocked_between(auth.uid(), s.creator_id)
+  ORDER BY s.next_start_at ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION schedule_room(TEXT, TIMESTAMPTZ, SMALLINT[], TIME, TEXT, INT, INT, UUID[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION rsvp_room_schedule(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION cancel_room_schedule(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_upcoming_rooms() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION schedule_room(TEXT, TIMESTAMPTZ, SMALLINT[], TIME, TEXT, INT, INT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION rsvp_room_schedule(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_room_schedule(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_upcoming_rooms() TO authenticated;
+
+-- ============================================
+-- 5. Reminders and activation (service role)
+-- ============================================
+
+-- Claim schedules whose reminder window has opened. Marking reminded_for in
+-- the same statement keeps overlapping cron runs from sending twice.
+CREATE OR REPLACE FUNCTION claim_room_schedule_reminders()
+RETURNS TABLE (
+  schedule_id UUID,
+  room_id UUID,
+  room_name TEXT,
+  creator_id UUID,
+  starts_at TIMESTAMPTZ,
+  recipient_ids UUID[]
+) AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE room_schedules s
+    SET reminded_for = s.next_start_at
+    WHERE s.next_start_at IS NOT NULL
+      AND s.next_start_at > now()
+      AND s.next_start_at - make_interval(mins => s.reminder_minutes) <= now()
+      AND s.reminded_for IS DISTINCT FROM s.next_start_at
+    RETURNING s.id, s.room_id, s.creator_id, s.next_start_at
+  )
+  SELECT
+    c.id,
+    c.room_id,
+    r.name::TEXT,
+    c.creator_id,
+    c.next_start_at,
+    ARRAY(
+      SELECT x.user_id FROM room_schedule_rsvps x
+      WHERE x.schedule_id = c.id AND x.status IN ('going', 'maybe')
+    ) || c.creator_id
+  FROM claimed c
+  JOIN rooms r ON r.id = c.room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Open rooms whose occurrence has started and seat the creator plus everyone
+-- going, then move finished occurrences on to the next slot
+CREATE OR REPLACE FUNCTION activate_scheduled_rooms()
+RETURNS TABLE (schedule_id UUID, room_id UUID) AS $$
+#variable_conflict use_column
+BEGIN
+  -- Occurrences that are over: recurring schedules roll forward, one-offs end
+  UPDATE room_schedules s
+  SET next_start_at = CASE
+    WHEN s.days IS NOT NULL THEN next_schedule_occurrence(s.days, s.start_time, s.timezone, now())
+  END
+  WHERE s.next_start_at IS NOT NULL
+    AND s.next_start_at + make_interval(mins => s.duration_minutes) <= now();
+
+  RETURN QUERY
+  WITH due AS (
+    UPDATE room_schedules s
+    SET activated_for = s.next_start_at
+    WHERE s.next_start_at IS NOT NULL
+      AND s.next_start_at <= now()
+      AND s.activated_for IS DISTINCT FROM s.next_start_at
+    RETURNING s.id, s.room_id, s.creator_id
+  ),
+  opened AS (
+    UPDATE rooms r
+    SET is_active = true, closed_at = NULL
+    FROM due d
+    WHERE r.id = d.room_id
+    RETURNING r.id
+  ),
+  seated AS (
+    INSERT INTO room_participants (room_id, user_id, is_muted, role)
+    SELECT d.room_id, d.creator_id, true, 'owner' FROM due d
+    UNION ALL
+    SELECT d.room_id, x.user_id, true, 'member'
+    FROM due d
+    JOIN room_schedule_rsvps x ON x.schedule_id = d.id AND x.status = 'going'
+    ON CONFLICT (room_id, user_id) DO NOTHING
+  )
+  SELECT d.id, d.room_id FROM due d;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_room_schedule_reminders() FROM PUBLIC;
+REVOKE ALL ON FUNCTION activate_scheduled_rooms() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION claim_room_schedule_reminders() TO service_role;
+GRANT EXECUTE ON FUNCTION activate_scheduled_rooms() TO service_role;
+
+-- ============================================
+-- 6. Notification types
+-- ============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type::text = ANY (ARRAY[
+    'nudge',
+    'flare',
+    'friend_request',
+    'friend_accepted',
+    'room_invite',
+    'call_me',
+    'heart',
+    'photo_nudge',
+    'photo_like',
+    'streak_fading',
+    'streak_milestone',
+    'voice_moment',
+    'voice_moment_reaction',
+    'anchor_checkin',
+    'anchor_inactivity',
+    'anchor_ack',
+    'room_reminder'
+  ]::text[]));
+
+-- ============================================
+-- 7. Cron
+-- ============================================
+-- Replace YOUR_PROJECT_REF and YOUR_CRON_SECRET before uncommenting.
+-- Runs every minute so rooms open close to their start time.
+
+-- SELECT cron.schedule(
+--   'start-scheduled-rooms',
+--   '* * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://YOUR_PROJECT_REF.supabase.co/functions/v1/start-scheduled-rooms',
+--     headers := '{"Authorization": "Bearer YOUR_CRON_SECRET", "Content-Type": "application/json"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,188 @@
+-- Notification outbox
+-- Nudges, flares, room invites, photo nudges, voice moments and call-me
+-- requests used to be announced by the client invoking a send-*-notification
+-- function after its own insert, so a failed invoke lost the notification.
+-- Each of those inserts now enqueues a notification_outbox row from an
+-- AFTER INSERT trigger in the same transaction, and the
+-- dispatch-notifications cron delivers the queue with retries.
+--
+--   pending     - waiting for next_attempt_at
+--   processing  - claimed by a dispatcher run (reclaimed if it stalls)
+--   sent        - delivered, held for quiet hours, or nothing to deliver
+--   skipped     - not delivered on purpose (blocked, preference off, gone)
+--   failed      - gave up after max_attempts
+
+-- ============================================
+-- 1. Outbox
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_type TEXT NOT NULL CHECK (source_type IN (
+    'nudge', 'flare', 'room_invite', 'photo_nudge', 'voice_moment', 'call_me'
+  )),
+  source_id UUID NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'sent', 'skipped', 'failed')),
+  attempts SMALLINT NOT NULL DEFAULT 0,
+  max_attempts SMALLINT NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+
+  -- A source row is announced once, however often it is enqueued
+  CONSTRAINT notification_outbox_source_unique UNIQUE (source_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON notification_outbox(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_processing
+  ON notification_outbox(locked_at)
+  WHERE status = 'processing';
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_processed
+  ON notification_outbox(processed_at)
+  WHERE processed_at IS NOT NULL;
+
+-- Service role only
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE notification_outbox IS 'Notifications waiting for dispatch-notifications, one row per source row';
+COMMENT ON COLUMN notification_outbox.payload IS 'The source row as inserted';
+
+-- The in-app row for an outbox entry is looked up before insert, so a retry
+-- after a failed push doesn't add a second one
+CREATE INDEX IF NOT EXISTS idx_notifications_source
+  ON notifications(source_type, source_id, user_id);
+
+-- ============================================
+-- 2. Call-me room
+-- ============================================
+
+-- The room used to travel only in the function request; the dispatcher
+-- reads it from the row
+ALTER TABLE call_me_requests
+  ADD COLUMN IF NOT EXISTS room_id UUID REFERENCES rooms(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 3. Enqueue triggers
+-- ============================================
+
+CREATE OR REPLACE FUNCTION enqueue_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notification_outbox (source_type, source_id, payload)
+  VALUES (TG_ARGV[0], NEW.id, to_jsonb(NEW))
+  ON CONFLICT (source_type, source_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS nudges_enqueue_notification ON nudges;
+CREATE TRIGGER nudges_enqueue_notification
+  AFTER INSERT ON nudges
+  FOR EACH ROW EXECUTE FUNCTION enqueue_notification('nudge');
+
+DROP TRIGGER IF EXISTS flares_enqueue_notification ON flares;
+CREATE TRIGGER flares_enqueue_notification
+  AFTER INSERT ON flares
+  FOR EACH ROW EXECUTE FUNCTION enqueue_notification('flare');
+
+DROP TRIGGER IF EXISTS room_invites_enqueue_notification ON room_invites;
+CREATE TRIGGER room_invites_enqueue_notification
+  AFTER INSERT ON room_invites
+  FOR EACH ROW EXECUTE FUNCTION enqueue_notification('room_invite');
+
+DROP TRIGGER IF EXISTS photo_nudges_enqueue_notification ON photo_nudges;
+CREATE TRIGGER photo_nudges_enqueue_notification
+  AFTER INSERT ON photo_nudges
+  FOR EACH ROW EXECUTE FUNCTION enqueue_notification('photo_nudge');
+
+DROP TRIGGER IF EXISTS voice_moments_enqueue_notification ON voice_moments;
+CREATE TRIGGER voice_moments_enqueue_notification
+  AFTER INSERT ON voice_moments
+  FOR EACH ROW EXECUTE FUNCTION enqueue_notification('voice_moment');
+
+DROP TRIGGER IF EXISTS call_me_requests_enqueue_notification ON call_me_requests;
+CREATE TRIGGER call_me_requests_enqueue_notification
+  AFTER INSERT ON call_me_requests
+  FOR EACH ROW EXECUTE FUNCTION enqueue_notification('call_me');
+
+-- ============================================
+-- 4. Claiming work
+-- ============================================
+
+-- Claim due entries for one dispatcher run. Entries a run claimed but never
+-- finished (the function timed out or crashed) become claimable again after
+-- five minutes. SKIP LOCKED keeps overlapping runs from sharing entries.
+CREATE OR REPLACE FUNCTION claim_notification_outbox(p_limit INT DEFAULT 50)
+RETURNS SETOF notification_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_outbox o
+  SET status = 'processing',
+      locked_at = now(),
+      attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT q.id
+    FROM notification_outbox q
+    WHERE (q.status = 'pending' AND q.next_attempt_at <= now())
+       OR (q.status = 'processing' AND q.locked_at < now() - INTERVAL '5 minutes')
+    ORDER BY q.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Finished entries are kept a week for debugging
+CREATE OR REPLACE FUNCTION prune_notification_outbox()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM notification_outbox
+  WHERE status IN ('sent', 'skipped', 'failed')
+    AND processed_at < now() - INTERVAL '7 days';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION enqueue_notification() FROM PUBLIC;
+REVOKE ALL ON FUNCTION claim_notification_outbox(INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION prune_notification_outbox() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION claim_notification_outbox(INT) TO service_role;
+GRANT EXECUTE ON FUNCTION prune_notification_outbox() TO service_role;
+
+-- ============================================
+-- 5. Cron
+-- ============================================
+-- Replace YOUR_PROJECT_REF and YOUR_CRON_SECRET before uncommenting.
+-- Runs every ten seconds so nudges and call-me requests still feel instant;
+-- retries are spaced by the dispatcher's backoff, not by the schedule.
+
+-- SELECT cron.schedule(
+--   'dispatch-notifications',
+--   '10 seconds',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://YOUR_PROJECT_REF.supabase.co/functions/v1/dispatch-notifications',
+--     headers := '{"Authorization": "Bearer YOUR_CRON_SECRET", "Content-Type": "application/json"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
+
+-- SELECT cron.schedule(
+--   'prune-notification-outbox',
+--   '0 4 * * *',
+--   $$ SELECT prune_notification_outbox(); $$
+-- );
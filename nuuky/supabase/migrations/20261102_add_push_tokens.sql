@@ -0,0 +1,189 @@
+-- Push tokens per device
+-- users.fcm_token held a single Expo push token, so signing in on a second
+-- phone or tablet silently took pushes away from the first. push_tokens
+-- keeps one token per device; every push fans out to all of a user's
+-- devices seen in the last 180 days.
+--
+-- Expo only reports that a device stopped accepting pushes in the receipt
+-- for a ticket, some minutes after the send. Each ticket is kept in
+-- push_receipts and process-push-receipts checks them, pruning tokens that
+-- come back DeviceNotRegistered.
+
+-- ============================================
+-- 1. Devices
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS push_tokens (
+  -- Generated by the app on first launch and kept in its storage
+  device_id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  platform TEXT NOT NULL DEFAULT 'unknown'
+    CHECK (platform IN ('ios', 'android', 'web', 'unknown')),
+  app_version TEXT,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user
+  ON push_tokens(user_id, last_seen_at);
+
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through register_push_token / unregister_push_token
+DROP POLICY IF EXISTS "Users can view their own devices" ON push_tokens;
+CREATE POLICY "Users can view their own devices"
+  ON push_tokens FOR SELECT
+  USING (user_id = auth.uid());
+
+COMMENT ON TABLE push_tokens IS 'Expo push token per signed-in device';
+COMMENT ON COLUMN push_tokens.last_seen_at IS 'Last time the app registered this device; stale devices get no pushes';
+
+-- ============================================
+-- 2. Legacy single token
+-- ============================================
+
+-- Existing tokens become one device per user
+INSERT INTO push_tokens (device_id, user_id, token, last_seen_at)
+SELECT DISTINCT ON (fcm_token) 'legacy:' || id, id, fcm_token, COALESCE(last_seen_at, NOW())
+FROM users
+WHERE fcm_token LIKE 'ExponentPushToken[%'
+ORDER BY fcm_token, last_seen_at DESC NULLS LAST
+ON CONFLICT DO NOTHING;
+
+-- App versions from before this migration still write users.fcm_token.
+-- Mirror it into the user's legacy device until they update.
+CREATE OR REPLACE FUNCTION sync_legacy_push_token()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.fcm_token IS NULL OR NEW.fcm_token NOT LIKE 'ExponentPushToken[%' THEN
+    DELETE FROM push_tokens WHERE device_id = 'legacy:' || NEW.id;
+    RETURN NEW;
+  END IF;
+
+  -- Already registered by an updated app on some device
+  IF EXISTS (SELECT 1 FROM push_tokens WHERE token = NEW.fcm_token) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO push_tokens (device_id, user_id, token)
+  VALUES ('legacy:' || NEW.id, NEW.id, NEW.fcm_token)
+  ON CONFLICT (device_id) DO UPDATE
+    SET token = EXCLUDED.token, last_seen_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS users_sync_legacy_push_token ON users;
+CREATE TRIGGER users_sync_legacy_push_token
+  AFTER INSERT OR UPDATE OF fcm_token ON users
+  FOR EACH ROW EXECUTE FUNCTION sync_legacy_push_token();
+
+COMMENT ON COLUMN users.fcm_token IS 'Deprecated: written by old app versions only, see push_tokens';
+
+-- ============================================
+-- 3. Registering devices
+-- ============================================
+
+-- Called by the app on every launch. A token moves with its device: if it
+-- was last registered under another device id (reinstall, account switch)
+-- that row is replaced.
+CREATE OR REPLACE FUNCTION register_push_token(
+  p_device_id TEXT,
+  p_token TEXT,
+  p_platform TEXT DEFAULT 'unknown',
+  p_app_version TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_platform TEXT := COALESCE(p_platform, 'unknown');
+BEGIN
+  IF v_me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_device_id IS NULL OR length(p_device_id) = 0 OR length(p_device_id) > 100 THEN
+    RAISE EXCEPTION 'Invalid device id';
+  END IF;
+
+  IF p_token IS NULL OR p_token NOT LIKE 'ExponentPushToken[%' THEN
+    RAISE EXCEPTION 'Invalid push token';
+  END IF;
+
+  IF v_platform NOT IN ('ios', 'android', 'web') THEN
+    v_platform := 'unknown';
+  END IF;
+
+  DELETE FROM push_tokens WHERE token = p_token AND device_id <> p_device_id;
+
+  -- This device now registers itself; the mirrored legacy token is redundant
+  DELETE FROM push_tokens WHERE device_id = 'legacy:' || v_me AND token = p_token;
+
+  INSERT INTO push_tokens (device_id, user_id, token, platform, app_version, last_seen_at)
+  VALUES (p_device_id, v_me, p_token, v_platform, p_app_version, NOW())
+  ON CONFLICT (device_id) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        token = EXCLUDED.token,
+        platform = EXCLUDED.platform,
+        app_version = EXCLUDED.app_version,
+        last_seen_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called on sign-out so the next person on this device gets no pushes
+-- meant for the previous one
+CREATE OR REPLACE FUNCTION unregister_push_token(p_device_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM push_tokens
+  WHERE device_id = p_device_id AND user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION sync_legacy_push_token() FROM PUBLIC;
+REVOKE ALL ON FUNCTION register_push_token(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION unregister_push_token(TEXT) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION register_push_token(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION unregister_push_token(TEXT) TO authenticated;
+
+-- ============================================
+-- 4. Receipts
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS push_receipts (
+  ticket_id TEXT PRIMARY KEY,
+  token TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_receipts_created
+  ON push_receipts(created_at);
+
+-- Service role only
+ALTER TABLE push_receipts ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE push_receipts IS 'Expo push tickets waiting for process-push-receipts';
+
+-- ============================================
+-- 5. Cron
+-- ============================================
+-- Replace YOUR_PROJECT_REF and YOUR_CRON_SECRET before uncommenting.
+-- Expo keeps receipts for a day and usually has them within 15 minutes.
+
+-- SELECT cron.schedule(
+--   'process-push-receipts',
+--   '*/15 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://YOUR_PROJECT_REF.supabase.co/functions/v1/process-push-receipts',
+--     headers := '{"Authorization": "Bearer YOUR_CRON_SECRET", "Content-Type": "application/json"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,163 @@
+-- Notification preference matrix
+-- user_preferences only had nudges_enabled, flares_enabled and
+-- room_invites_enabled, while the app sends sixteen kinds of notification.
+-- notification_preferences holds, per notification type, which channels it
+-- reaches:
+--
+--   push    - the device notification
+--   banner  - the in-app banner while the app is open
+--   silent  - the background sync push that keeps lists fresh
+--
+-- A row with friend_id NULL is the user's default for the type; a row with
+-- a friend_id overrides it for that one friend (mute their nudges, always
+-- let their flares through). With every channel off the notification isn't
+-- sent at all, not even to the in-app list.
+--
+-- Resolution, in get_notification_channels: friend override, type default,
+-- the legacy *_enabled switch for the types it covered, then all on.
+
+-- ============================================
+-- 1. Preferences
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL CHECK (notification_type IN (
+    'nudge', 'flare', 'friend_request', 'friend_accepted', 'room_invite',
+    'call_me', 'photo_nudge', 'photo_like', 'streak_fading', 'streak_milestone',
+    'voice_moment', 'voice_moment_reaction', 'anchor_checkin',
+    'anchor_inactivity', 'anchor_ack', 'room_reminder'
+  )),
+  friend_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  push BOOLEAN NOT NULL DEFAULT TRUE,
+  banner BOOLEAN NOT NULL DEFAULT TRUE,
+  silent BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT notification_preferences_not_self CHECK (friend_id IS NULL OR friend_id <> user_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_preferences_default
+  ON notification_preferences(user_id, notification_type)
+  WHERE friend_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_preferences_friend
+  ON notification_preferences(user_id, notification_type, friend_id)
+  WHERE friend_id IS NOT NULL;
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through set_notification_preference / clear_notification_preference
+DROP POLICY IF EXISTS "Users can view their own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can view their own notification preferences"
+  ON notification_preferences FOR SELECT
+  USING (user_id = auth.uid());
+
+COMMENT ON TABLE notification_preferences IS 'Channels per notification type, with per-friend overrides';
+COMMENT ON COLUMN notification_preferences.friend_id IS 'NULL for the type default, else the friend this row overrides it for';
+
+COMMENT ON COLUMN user_preferences.nudges_enabled IS 'Legacy: applies to nudge, call_me, photo_nudge and voice_moment until they have a notification_preferences row';
+COMMENT ON COLUMN user_preferences.flares_enabled IS 'Legacy: applies to flare until it has a notification_preferences row';
+COMMENT ON COLUMN user_preferences.room_invites_enabled IS 'Legacy: applies to room_invite until it has a notification_preferences row';
+
+-- ============================================
+-- 2. Editing (authenticated)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION set_notification_preference(
+  p_type TEXT,
+  p_friend_id UUID,
+  p_push BOOLEAN,
+  p_banner BOOLEAN,
+  p_silent BOOLEAN
+)
+RETURNS notification_preferences AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_row notification_preferences;
+BEGIN
+  IF v_me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_friend_id IS NULL THEN
+    INSERT INTO notification_preferences (user_id, notification_type, push, banner, silent)
+    VALUES (v_me, p_type, p_push, p_banner, p_silent)
+    ON CONFLICT (user_id, notification_type) WHERE friend_id IS NULL
+    DO UPDATE SET push = EXCLUDED.push,
+                  banner = EXCLUDED.banner,
+                  silent = EXCLUDED.silent,
+                  updated_at = NOW()
+    RETURNING * INTO v_row;
+  ELSE
+    INSERT INTO notification_preferences (user_id, notification_type, friend_id, push, banner, silent)
+    VALUES (v_me, p_type, p_friend_id, p_push, p_banner, p_silent)
+    ON CONFLICT (user_id, notification_type, friend_id) WHERE friend_id IS NOT NULL
+    DO UPDATE SET push = EXCLUDED.push,
+                  banner = EXCLUDED.banner,
+                  silent = EXCLUDED.silent,
+                  updated_at = NOW()
+    RETURNING * INTO v_row;
+  END IF;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Back to the default: for a friend, their override goes; for a type, the
+-- legacy switch (or all on) applies again
+CREATE OR REPLACE FUNCTION clear_notification_preference(p_type TEXT, p_friend_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM notification_preferences
+  WHERE user_id = auth.uid()
+    AND notification_type = p_type
+    AND friend_id IS NOT DISTINCT FROM p_friend_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 3. Resolution (service role)
+-- ============================================
+
+-- Channels a notification of p_type from p_sender_id reaches for each
+-- recipient. Mirrors resolveChannels in lib/notificationPreferences.ts.
+CREATE OR REPLACE FUNCTION get_notification_channels(
+  p_user_ids UUID[],
+  p_type TEXT,
+  p_sender_id UUID DEFAULT NULL
+)
+RETURNS TABLE (user_id UUID, push BOOLEAN, banner BOOLEAN, silent BOOLEAN) AS $$
+  SELECT
+    u.id,
+    COALESCE(f.push, d.push, l.enabled, TRUE),
+    COALESCE(f.banner, d.banner, l.enabled, TRUE),
+    COALESCE(f.silent, d.silent, l.enabled, TRUE)
+  FROM unnest(p_user_ids) AS u(id)
+  LEFT JOIN notification_preferences f
+    ON f.user_id = u.id AND f.notification_type = p_type
+   AND p_sender_id IS NOT NULL AND f.friend_id = p_sender_id
+  LEFT JOIN notification_preferences d
+    ON d.user_id = u.id AND d.notification_type = p_type AND d.friend_id IS NULL
+  LEFT JOIN user_preferences p ON p.user_id = u.id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN p_type IN ('nudge', 'call_me', 'photo_nudge', 'voice_moment') THEN p.nudges_enabled
+      WHEN p_type = 'flare' THEN p.flares_enabled
+      WHEN p_type = 'room_invite' THEN p.room_invites_enabled
+    END AS enabled
+  ) l;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION set_notification_preference(TEXT, UUID, BOOLEAN, BOOLEAN, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION clear_notification_preference(TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_notification_channels(UUID[], TEXT, UUID) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION set_notification_preference(TEXT, UUID, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION clear_notification_preference(TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_notification_channels(UUID[], TEXT, UUID) TO service_role;
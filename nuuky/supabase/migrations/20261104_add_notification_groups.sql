@@ -0,0 +1,154 @@
+-- Notification groups and digests
+-- A few close friends could fill the notification list and the push tray
+-- with a row per nudge, photo like and reaction. Notifications of a grouped
+-- type now collapse into one row per group_key while it is unread and
+-- younger than the type's window:
+--
+--   nudge:<sender>                     "Maya nudged you 4 times"
+--   photo_like:<photo>                 "Maya and Sam liked your photo"
+--   voice_moment_reaction:<moment>     "3 friends reacted to your voice moment"
+--
+-- group_items keeps who and when for each collapsed notification, so the
+-- app can expand the group. The senders rewrite the title and body from it.
+--
+-- Users can also opt in to a digest push (morning or evening, local time)
+-- summarizing what arrived while the app was closed.
+
+-- ============================================
+-- 1. Groups
+-- ============================================
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS group_key TEXT,
+  ADD COLUMN IF NOT EXISTS group_count INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS group_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS group_started_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_group
+  ON notifications(user_id, group_key, group_started_at DESC)
+  WHERE group_key IS NOT NULL;
+
+COMMENT ON COLUMN notifications.group_key IS 'Notifications with the same key collapse into this row while it is unread and inside the window';
+COMMENT ON COLUMN notifications.group_count IS 'How many notifications this row stands for';
+COMMENT ON COLUMN notifications.group_items IS 'The collapsed notifications, oldest first: key, sender_id, sender_name, sender_avatar_url, title, created_at';
+COMMENT ON COLUMN notifications.group_started_at IS 'First notification of the group; the window is counted from here';
+
+-- Only the most recent items are kept; group_count stays exact
+CREATE OR REPLACE FUNCTION collect_grouped_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_group_key TEXT,
+  p_window_minutes INTEGER,
+  p_title TEXT,
+  p_body TEXT,
+  p_data JSONB,
+  p_source_id UUID,
+  p_source_type TEXT,
+  p_item JSONB
+)
+RETURNS TABLE (notification_id UUID, group_count INTEGER, group_items JSONB, duplicate BOOLEAN) AS $$
+DECLARE
+  v_row notifications;
+BEGIN
+  -- One writer per group, so two notifications arriving together can't
+  -- both start a new row
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_group_key));
+
+  -- A retry of something already collected changes nothing
+  SELECT * INTO v_row FROM notifications n
+  WHERE n.user_id = p_user_id
+    AND n.group_key = p_group_key
+    AND n.group_items @> jsonb_build_array(jsonb_build_object('key', p_item->>'key'))
+  ORDER BY n.group_started_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT v_row.id, v_row.group_count, v_row.group_items, TRUE;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_row FROM notifications n
+  WHERE n.user_id = p_user_id
+    AND n.group_key = p_group_key
+    AND n.is_read = FALSE
+    AND n.group_started_at > NOW() - make_interval(mins => p_window_minutes)
+  ORDER BY n.group_started_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    -- Back to the top of the list with the latest payload
+    UPDATE notifications n
+    SET group_count = n.group_count + 1,
+        group_items = jsonb_path_query_array(n.group_items || jsonb_build_array(p_item), '$[last - 49 to last]'),
+        data = p_data,
+        created_at = NOW()
+    WHERE n.id = v_row.id
+    RETURNING * INTO v_row;
+  ELSE
+    INSERT INTO notifications (
+      user_id, type, title, body, data, source_id, source_type,
+      group_key, group_count, group_items, group_started_at
+    )
+    VALUES (
+      p_user_id, p_type, p_title, p_body, p_data, p_source_id, p_source_type,
+      p_group_key, 1, jsonb_build_array(p_item), NOW()
+    )
+    RETURNING * INTO v_row;
+  END IF;
+
+  RETURN QUERY SELECT v_row.id, v_row.group_count, v_row.group_items, FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION collect_grouped_notification(UUID, TEXT, TEXT, INTEGER, TEXT, TEXT, JSONB, UUID, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION collect_grouped_notification(UUID, TEXT, TEXT, INTEGER, TEXT, TEXT, JSONB, UUID, TEXT, JSONB) TO service_role;
+
+-- ============================================
+-- 2. Digest preference
+-- ============================================
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS digest_mode TEXT NOT NULL DEFAULT 'off'
+    CHECK (digest_mode IN ('off', 'daily', 'evening')),
+  ADD COLUMN IF NOT EXISTS last_digest_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN user_preferences.digest_mode IS 'off, daily (9 AM local) or evening (7 PM local) summary push of unread notifications';
+COMMENT ON COLUMN user_preferences.last_digest_at IS 'When the last digest was built; the next one only covers what came after';
+
+-- Users whose digest hour it is, with the start of what it should cover:
+-- the later of when they last had the app open, their last digest, and a
+-- day ago. Anyone online right now sees it in the app instead.
+CREATE OR REPLACE FUNCTION get_due_digests()
+RETURNS TABLE (user_id UUID, since TIMESTAMPTZ) AS $$
+  SELECT p.user_id, GREATEST(u.last_seen_at, p.last_digest_at, NOW() - INTERVAL '24 hours')
+  FROM user_preferences p
+  JOIN users u ON u.id = p.user_id
+  WHERE p.digest_mode <> 'off'
+    AND COALESCE(u.is_online, FALSE) = FALSE
+    AND EXTRACT(HOUR FROM NOW() AT TIME ZONE u.timezone)
+        = CASE p.digest_mode WHEN 'daily' THEN 9 ELSE 19 END
+    AND (p.last_digest_at IS NULL OR p.last_digest_at < NOW() - INTERVAL '12 hours');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_due_digests() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_due_digests() TO service_role;
+
+-- ============================================
+-- 3. Cron
+-- ============================================
+-- Replace YOUR_PROJECT_REF and YOUR_CRON_SECRET before uncommenting.
+-- Hourly, on the hour: each user's digest goes out in their local 9 AM or
+-- 7 PM run.
+
+-- SELECT cron.schedule(
+--   'send-notification-digests',
+--   '0 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://YOUR_PROJECT_REF.supabase.co/functions/v1/send-notification-digests',
+--     headers := '{"Authorization": "Bearer YOUR_CRON_SECRET", "Content-Type": "application/json"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,27 @@
+-- Notification actions
+-- Pushes for the common cases carry action buttons the app answers without
+-- opening: "Nudge back" on a nudge, "Join" or "Decline" on a room invite,
+-- "I'm here" on a flare, and a heart on photo nudges and voice moments. The
+-- push names its button set with a categoryId and carries notification_id,
+-- so the app can record what was done on the in-app row:
+--
+--   action_taken    nudge_back, join_room, decline_room, flare_here, heart
+--   action_status   done, or failed (room full, nudge limit, ...)
+--
+-- Users already update their own notifications (is_read), which covers
+-- these columns too.
+
+-- ============================================
+-- 1. Outcome columns
+-- ============================================
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS action_taken TEXT
+    CHECK (action_taken IN ('nudge_back', 'join_room', 'decline_room', 'flare_here', 'heart')),
+  ADD COLUMN IF NOT EXISTS action_status TEXT
+    CHECK (action_status IN ('done', 'failed')),
+  ADD COLUMN IF NOT EXISTS action_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN notifications.action_taken IS 'Action button answered from the push, without opening the app';
+COMMENT ON COLUMN notifications.action_status IS 'done, or failed when the action could not be carried out';
+COMMENT ON COLUMN notifications.action_at IS 'When the action button was answered';
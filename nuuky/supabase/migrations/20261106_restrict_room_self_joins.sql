@@ -0,0 +1,50 @@
+-- Restrict self-joins
+-- "Users can join rooms" let anyone add themselves to any room, and the role
+-- trigger turned every insert that didn't ask for listener into a member. A
+-- listener could leave and come straight back as a member, and someone with
+-- an invite link could skip join_room_by_invite_link, either way getting
+-- publish grants from livekit-token.
+--
+-- Clients can now only add themselves to a room they created, or one they
+-- hold a pending direct invite to from someone who can speak there. Invite
+-- links and RSVPs keep seating people through their SECURITY DEFINER
+-- functions, which pick the role themselves.
+
+-- ============================================
+-- 1. Who may add themselves
+-- ============================================
+
+-- SECURITY DEFINER so the check can read room_participants without going
+-- through its own RLS
+CREATE OR REPLACE FUNCTION can_self_join_room(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rooms WHERE id = p_room_id AND creator_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM room_invites i
+    JOIN room_participants s ON s.room_id = i.room_id AND s.user_id = i.sender_id
+    WHERE i.room_id = p_room_id
+      AND i.receiver_id = auth.uid()
+      AND i.status = 'pending'
+      AND i.expires_at > now()
+      AND s.role <> 'listener'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION can_self_join_room(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION can_self_join_room(UUID) TO authenticated;
+
+-- ============================================
+-- 2. Policy
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can join rooms" ON room_participants;
+DROP POLICY IF EXISTS "Users can join rooms they created or were invited to" ON room_participants;
+CREATE POLICY "Users can join rooms they created or were invited to"
+  ON room_participants FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND can_self_join_room(room_id));
+
+COMMENT ON POLICY "Users can join rooms they created or were invited to" ON room_participants IS
+  'Direct joins need ownership or a pending invite; links and RSVPs go through their functions';
@@ -0,0 +1,202 @@
+-- Room bans
+-- A kick only deleted the participant row, so nothing stopped the kicked
+-- user coming straight back: a fresh invite or link put them in the room
+-- again and livekit-token handed them a new token.
+--
+-- A kick now records a ban for that room. Banned users can't add themselves
+-- back, aren't seated by invite links, RSVPs or schedules, and get no token.
+-- The ban is lifted when an owner or moderator invites them again.
+
+-- ============================================
+-- 1. Table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS room_bans (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  banned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_bans_user ON room_bans(user_id);
+
+COMMENT ON TABLE room_bans IS 'Users kicked from a room, kept out until an owner or moderator invites them again';
+
+ALTER TABLE room_bans ENABLE ROW LEVEL SECURITY;
+
+-- Written by kick_room_participant and the invite trigger only
+DROP POLICY IF EXISTS "Room moderators can view bans" ON room_bans;
+CREATE POLICY "Room moderators can view bans"
+  ON room_bans FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM room_participants
+      WHERE room_participants.room_id = room_bans.room_id
+        AND room_participants.user_id = auth.uid()
+        AND room_participants.role IN ('owner', 'moderator')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION is_banned_from_room(p_room_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_bans WHERE room_id = p_room_id AND user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION is_banned_from_room(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_banned_from_room(UUID, UUID) TO service_role;
+
+-- ============================================
+-- 2. Kicking
+-- ============================================
+
+-- Ban first and remove in the same transaction, so there is no moment the
+-- kicked user is out but free to rejoin
+CREATE OR REPLACE FUNCTION kick_room_participant(p_room_id UUID, p_user_id UUID, p_kicked_by UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO room_bans (room_id, user_id, banned_by)
+  VALUES (p_room_id, p_user_id, p_kicked_by)
+  ON CONFLICT (room_id, user_id) DO UPDATE
+    SET banned_by = EXCLUDED.banned_by, created_at = NOW();
+
+  DELETE FROM room_participants WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  -- An outstanding invite would otherwise still count for can_self_join_room
+  DELETE FROM room_invites
+  WHERE room_id = p_room_id AND receiver_id = p_user_id AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION kick_room_participant(UUID, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION kick_room_participant(UUID, UUID, UUID) TO service_role;
+
+-- ============================================
+-- 3. Lifting a ban
+-- ============================================
+
+-- Only an invite from someone who could have kicked them counts; anyone in
+-- the room can send invites
+CREATE OR REPLACE FUNCTION lift_room_ban_on_invite()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM room_bans b
+  WHERE b.room_id = NEW.room_id
+    AND b.user_id = NEW.receiver_id
+    AND EXISTS (
+      SELECT 1 FROM room_participants
+      WHERE room_id = NEW.room_id
+        AND user_id = NEW.sender_id
+        AND role IN ('owner', 'moderator')
+    );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS lift_room_ban_on_invite ON room_invites;
+CREATE TRIGGER lift_room_ban_on_invite
+  AFTER INSERT ON room_invites
+  FOR EACH ROW EXECUTE FUNCTION lift_room_ban_on_invite();
+
+-- ============================================
+-- 4. Keeping banned users out
+-- ============================================
+
+-- Direct joins: the caller must not be banned either
+CREATE OR REPLACE FUNCTION can_self_join_room(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT is_banned_from_room(p_room_id, auth.uid())
+  AND (
+    EXISTS (
+      SELECT 1 FROM rooms WHERE id = p_room_id AND creator_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM room_invites i
+      JOIN room_participants s ON s.room_id = i.room_id AND s.user_id = i.sender_id
+      WHERE i.room_id = p_room_id
+        AND i.receiver_id = auth.uid()
+        AND i.status = 'pending'
+        AND i.expires_at > now()
+        AND s.role <> 'listener'
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Invite links: refuse before spending a use
+CREATE OR REPLACE FUNCTION join_room_by_invite_link(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_link room_invite_links;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_link FROM room_invite_links WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF is_banned_from_room(v_link.room_id, v_user_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Already in the room: don't spend a use or change their role
+  IF EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_link.room_id AND user_id = v_user_id
+  ) THEN
+    RETURN v_link.room_id;
+  END IF;
+
+  IF NOT increment_invite_link_use(p_token) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO room_participants (room_id, user_id, is_muted, role)
+  VALUES (v_link.room_id, v_user_id, true, v_link.join_role)
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  RETURN v_link.room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- RSVPs and schedules seat people in batches, so a banned user is quietly
+-- left out rather than failing the rest
+CREATE OR REPLACE FUNCTION skip_banned_room_participant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_banned_from_room(NEW.room_id, NEW.user_id) THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS skip_banned_room_participant ON room_participants;
+CREATE TRIGGER skip_banned_room_participant
+  BEFORE INSERT ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION skip_banned_room_participant();
+
+-- ============================================
+-- 5. Tokens
+-- ============================================
+
+-- What livekit-token may grant: the caller's role and the room's reaction
+-- setting, or no row when they aren't in the room or are banned from it
+CREATE OR REPLACE FUNCTION get_room_token_grant(p_room_id UUID, p_user_id UUID)
+RETURNS TABLE (role VARCHAR, listeners_can_react BOOLEAN) AS $$
+  SELECT p.role, r.listeners_can_react
+  FROM room_participants p
+  JOIN rooms r ON r.id = p.room_id
+  WHERE p.room_id = p_room_id
+    AND p.user_id = p_user_id
+    AND NOT is_banned_from_room(p_room_id, p_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_room_token_grant(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_room_token_grant(UUID, UUID) TO service_role;
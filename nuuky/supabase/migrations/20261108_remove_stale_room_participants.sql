@@ -0,0 +1,32 @@
+-- Stale room members
+-- When an app crashed or was killed, the webhook or sweeper only marked the
+-- member's call as ended (audio_left_at). Nothing removed the row, so they
+-- kept counting in "N people here", and close_empty_rooms never saw the
+-- room empty: it stayed active for good.
+--
+-- Members whose call ended a while ago and who haven't been seen in the app
+-- since are now removed by the sweeper, before it closes empty rooms. People
+-- who are still around but out of the call (backgrounded, or alone in the
+-- room, which disconnects audio) keep their place: their presence heartbeat
+-- keeps last_seen_at fresh.
+
+-- ============================================
+-- 1. Removal
+-- ============================================
+
+CREATE OR REPLACE FUNCTION remove_stale_room_participants(p_idle INTERVAL DEFAULT INTERVAL '15 minutes')
+RETURNS TABLE (room_id UUID, user_id UUID) AS $$
+BEGIN
+  RETURN QUERY
+  DELETE FROM room_participants rp
+  USING users u
+  WHERE u.id = rp.user_id
+    AND rp.audio_left_at IS NOT NULL
+    AND rp.audio_left_at < NOW() - p_idle
+    AND COALESCE(u.last_seen_at, rp.audio_left_at) < NOW() - p_idle
+  RETURNING rp.room_id, rp.user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION remove_stale_room_participants(INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION remove_stale_room_participants(INTERVAL) TO service_role;
@@ -0,0 +1,140 @@
+-- Credit focus rounds only while present
+-- sync_focus_progress counted every work block since joined_at, so someone
+-- who left the room and came back was credited for the blocks they missed
+-- as soon as they synced again.
+--
+-- Participants now carry credited_until: blocks are credited from there up
+-- to the sync, which moves it on. Coming back to the room moves it to the
+-- moment they returned, so the time away never counts.
+
+-- ============================================
+-- 1. Credited window
+-- ============================================
+
+ALTER TABLE focus_session_participants
+  ADD COLUMN IF NOT EXISTS credited_until TIMESTAMPTZ;
+
+-- Rounds so far were counted up to the last sync
+UPDATE focus_session_participants
+SET credited_until = COALESCE(updated_at, joined_at)
+WHERE credited_until IS NULL;
+
+ALTER TABLE focus_session_participants
+  ALTER COLUMN credited_until SET DEFAULT now(),
+  ALTER COLUMN credited_until SET NOT NULL;
+
+COMMENT ON COLUMN focus_session_participants.credited_until IS 'Work blocks ending after this are not credited yet; reset when the user rejoins the room';
+
+-- ============================================
+-- 2. Rejoining
+-- ============================================
+
+CREATE OR REPLACE FUNCTION reset_focus_credit_on_rejoin()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE focus_session_participants fsp
+  SET credited_until = now(),
+      updated_at = now()
+  FROM focus_sessions fs
+  WHERE fs.id = fsp.session_id
+    AND fs.ended_at IS NULL
+    AND fsp.room_id = NEW.room_id
+    AND fsp.user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reset_focus_credit_on_rejoin ON room_participants;
+CREATE TRIGGER reset_focus_credit_on_rejoin
+  AFTER INSERT ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION reset_focus_credit_on_rejoin();
+
+-- ============================================
+-- 3. Crediting
+-- ============================================
+
+CREATE OR REPLACE FUNCTION end_focus_session(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session focus_sessions;
+BEGIN
+  SELECT * INTO v_session FROM focus_sessions WHERE id = p_session_id AND ended_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_session.started_by IS DISTINCT FROM v_user_id AND NOT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_session.room_id AND user_id = v_user_id AND role IN ('owner', 'moderator')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to end this focus session';
+  END IF;
+
+  UPDATE focus_session_participants fsp
+  SET completed_rounds = fsp.completed_rounds + focus_rounds_between(v_session, fsp.credited_until, now()),
+      focus_minutes = (fsp.completed_rounds + focus_rounds_between(v_session, fsp.credited_until, now()))
+                      * v_session.work_minutes,
+      credited_until = GREATEST(fsp.credited_until, now()),
+      updated_at = now()
+  WHERE fsp.session_id = p_session_id
+    AND EXISTS (
+      SELECT 1 FROM room_participants rp
+      WHERE rp.room_id = v_session.room_id AND rp.user_id = fsp.user_id
+    );
+
+  UPDATE focus_sessions
+  SET ended_at = LEAST(now(), focus_session_ends_at(v_session))
+  WHERE id = p_session_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Credit the caller with the work blocks that have ended since they were
+-- last credited. Idempotent; returns the caller's completed rounds.
+CREATE OR REPLACE FUNCTION sync_focus_progress(p_session_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session focus_sessions;
+  v_until TIMESTAMPTZ;
+  v_rounds INTEGER;
+BEGIN
+  SELECT * INTO v_session FROM focus_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_session.room_id AND user_id = v_user_id
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  v_until := COALESCE(v_session.ended_at, now());
+
+  UPDATE focus_session_participants fsp
+  SET completed_rounds = fsp.completed_rounds + focus_rounds_between(v_session, fsp.credited_until, v_until),
+      credited_until = GREATEST(fsp.credited_until, v_until),
+      updated_at = now()
+  WHERE fsp.session_id = p_session_id AND fsp.user_id = v_user_id
+  RETURNING completed_rounds INTO v_rounds;
+
+  IF v_rounds IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE focus_session_participants
+  SET focus_minutes = v_rounds * v_session.work_minutes
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  -- The schedule has run out: close it for everyone
+  IF v_session.ended_at IS NULL AND focus_session_ends_at(v_session) <= now() THEN
+    UPDATE focus_sessions SET ended_at = focus_session_ends_at(v_session) WHERE id = p_session_id;
+  END IF;
+
+  RETURN v_rounds;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,90 @@
+-- Keep friend profiles behind the visibility projection
+-- get_visible_friends() reduces each friend to the tier they granted, but
+-- "Users can view friends' profiles" still let any friend select the whole
+-- users row, and useFriends listened to realtime users UPDATEs, whose
+-- payloads are the whole row too. A friend on limited or minimal could read
+-- mood, custom_mood_id, mood_selfie_id, is_online and last_seen_at either way.
+--
+-- Reading a friend's users row directly now needs the full tier, the one
+-- tier that shows all of it. Everyone else gets friends through
+-- get_visible_friends(). Changes reach friends as a touch on their own
+-- friendships row (friend_updated_at), which carries nothing of the profile
+-- and only happens when something their tier shows has changed; the app
+-- refetches the projection when it sees it.
+
+-- ============================================
+-- 1. Direct reads
+-- ============================================
+
+CREATE OR REPLACE FUNCTION friend_visibility_for(p_owner_id UUID, p_viewer_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT visibility FROM friendships WHERE user_id = p_owner_id AND friend_id = p_viewer_id),
+    'full'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION friend_visibility_for(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION friend_visibility_for(UUID, UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "Users can view friends' profiles" ON users;
+CREATE POLICY "Users can view friends' profiles"
+  ON users FOR SELECT
+  USING (
+    id IN (
+      SELECT friend_id FROM friendships
+      WHERE user_id = auth.uid() AND status = 'accepted'
+    )
+    AND friend_visibility_for(id, auth.uid()) = 'full'
+  );
+
+COMMENT ON POLICY "Users can view friends' profiles" ON users IS
+  'Whole rows only for friends on the full tier; others read get_visible_friends()';
+
+-- ============================================
+-- 2. Change signal
+-- ============================================
+
+ALTER TABLE friendships
+  ADD COLUMN IF NOT EXISTS friend_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN friendships.friend_updated_at IS 'Last change to what friend_id shows user_id; realtime cue to refetch get_visible_friends()';
+
+-- Mirrors the tiers in project_friend_profile
+CREATE OR REPLACE FUNCTION touch_friendships_on_profile_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_profile BOOLEAN := NEW.display_name IS DISTINCT FROM OLD.display_name
+    OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url;
+  v_presence BOOLEAN := NEW.mood IS DISTINCT FROM OLD.mood
+    OR NEW.is_online IS DISTINCT FROM OLD.is_online
+    OR NEW.last_seen_at IS DISTINCT FROM OLD.last_seen_at;
+  v_extras BOOLEAN := NEW.custom_mood_id IS DISTINCT FROM OLD.custom_mood_id
+    OR NEW.mood_selfie_id IS DISTINCT FROM OLD.mood_selfie_id;
+BEGIN
+  IF NOT (v_profile OR v_presence OR v_extras) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE friendships f
+  SET friend_updated_at = NOW()
+  FROM (
+    SELECT f2.id, friend_visibility_for(NEW.id, f2.user_id) AS visibility
+    FROM friendships f2
+    WHERE f2.friend_id = NEW.id AND f2.status = 'accepted'
+  ) t
+  WHERE f.id = t.id
+    AND (
+      v_profile
+      OR (v_presence AND t.visibility IN ('full', 'limited'))
+      OR (v_extras AND t.visibility = 'full')
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS touch_friendships_on_profile_change ON users;
+CREATE TRIGGER touch_friendships_on_profile_change
+  AFTER UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION touch_friendships_on_profile_change();
@@ -0,0 +1,132 @@
+-- Tighten block checks
+-- is_blocked_between() is SECURITY DEFINER and callable by any signed-in
+-- user for any pair, so anyone could find out who had blocked whom. It now
+-- only answers for pairs that include the caller (or the service role);
+-- every policy and function using it already passes auth.uid() as one side.
+--
+-- Blocking also only hid the blocked user from the blocker: the blocked user
+-- kept seeing the blocker's mood and presence. The blocker now shows to them
+-- as on the minimal tier (always offline, neutral mood), the same as a friend
+-- who chose to share less, so the block stays silent.
+
+-- ============================================
+-- 1. Only your own blocks
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_blocked_between(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT (auth.role() = 'service_role' OR auth.uid() IN (p_user_a, p_user_b))
+    AND EXISTS (
+      SELECT 1 FROM blocks
+      WHERE (blocker_id = p_user_a AND blocked_id = p_user_b)
+         OR (blocker_id = p_user_b AND blocked_id = p_user_a)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION is_blocked_between IS 'True if either user has blocked the other; false unless the caller is one of them or the service role';
+
+-- ============================================
+-- 2. Blockers show as minimal to who they blocked
+-- ============================================
+
+-- Internal: the tier p_owner_id gives p_viewer_id, for SECURITY DEFINER
+-- callers that have already settled who may ask
+CREATE OR REPLACE FUNCTION friend_visibility(p_owner_id UUID, p_viewer_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM blocks WHERE blocker_id = p_owner_id AND blocked_id = p_viewer_id
+    ) THEN 'minimal'
+    ELSE COALESCE(
+      (SELECT visibility FROM friendships WHERE user_id = p_owner_id AND friend_id = p_viewer_id),
+      'full'
+    )
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION friend_visibility(UUID, UUID) FROM PUBLIC;
+
+-- For the users policy: only ever about the caller
+CREATE OR REPLACE FUNCTION friend_visibility_for(p_owner_id UUID, p_viewer_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE WHEN p_viewer_id = auth.uid() THEN friend_visibility(p_owner_id, p_viewer_id) END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_visible_friends()
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  friend_id UUID,
+  status VARCHAR,
+  visibility VARCHAR,
+  created_at TIMESTAMPTZ,
+  last_interaction_at TIMESTAMPTZ,
+  friend JSONB
+) AS $$
+  SELECT
+    f.id,
+    f.user_id,
+    f.friend_id,
+    f.status,
+    f.visibility,
+    f.created_at,
+    f.last_interaction_at,
+    project_friend_profile(f.friend_id, friend_visibility(f.friend_id, f.user_id))
+  FROM friendships f
+  WHERE f.user_id = auth.uid()
+    AND f.status = 'accepted';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The profile owner is whoever updated the row, not the viewer, so this
+-- goes through the internal lookup
+CREATE OR REPLACE FUNCTION touch_friendships_on_profile_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_profile BOOLEAN := NEW.display_name IS DISTINCT FROM OLD.display_name
+    OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url;
+  v_presence BOOLEAN := NEW.mood IS DISTINCT FROM OLD.mood
+    OR NEW.is_online IS DISTINCT FROM OLD.is_online
+    OR NEW.last_seen_at IS DISTINCT FROM OLD.last_seen_at;
+  v_extras BOOLEAN := NEW.custom_mood_id IS DISTINCT FROM OLD.custom_mood_id
+    OR NEW.mood_selfie_id IS DISTINCT FROM OLD.mood_selfie_id;
+BEGIN
+  IF NOT (v_profile OR v_presence OR v_extras) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE friendships f
+  SET friend_updated_at = NOW()
+  FROM (
+    SELECT f2.id, friend_visibility(NEW.id, f2.user_id) AS visibility
+    FROM friendships f2
+    WHERE f2.friend_id = NEW.id AND f2.status = 'accepted'
+  ) t
+  WHERE f.id = t.id
+    AND (
+      v_profile
+      OR (v_presence AND t.visibility IN ('full', 'limited'))
+      OR (v_extras AND t.visibility = 'full')
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Blocking or unblocking changes what the blocked user sees, so cue their
+-- app to refetch the same way a profile change does
+CREATE OR REPLACE FUNCTION touch_friendship_on_block_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_block blocks := COALESCE(NEW, OLD);
+BEGIN
+  UPDATE friendships
+  SET friend_updated_at = NOW()
+  WHERE user_id = v_block.blocked_id AND friend_id = v_block.blocker_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS touch_friendship_on_block_change ON blocks;
+CREATE TRIGGER touch_friendship_on_block_change
+  AFTER INSERT OR DELETE ON blocks
+  FOR EACH ROW EXECUTE FUNCTION touch_friendship_on_block_change();
@@ -0,0 +1,158 @@
+-- Remember room memberships
+-- 20261106 only let people add themselves to a room they created or held a
+-- pending invite to. Once the invite was accepted or expired they could
+-- never come back through useRoom.joinRoom: not to their default room, not
+-- from the room list, not from a room link. And an invite stopped working
+-- as soon as the person who sent it left the room.
+--
+-- Every seat taken in a room is now remembered in room_memberships, with the
+-- role it ended on. Anyone with a membership can add themselves back, in
+-- that role (a listener comes back a listener), and an invite counts as long
+-- as its sender was a member who could speak.
+
+-- ============================================
+-- 1. Memberships
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS room_memberships (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL,
+  first_joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_memberships_user ON room_memberships(user_id);
+
+COMMENT ON TABLE room_memberships IS 'Rooms a user has been seated in and the role they last had, so they can rejoin';
+
+-- Written by the trigger below only
+ALTER TABLE room_memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION remember_room_membership()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO room_memberships (room_id, user_id, role)
+  VALUES (NEW.room_id, NEW.user_id, NEW.role)
+  ON CONFLICT (room_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS remember_room_membership ON room_participants;
+CREATE TRIGGER remember_room_membership
+  AFTER INSERT OR UPDATE OF role ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION remember_room_membership();
+
+-- Everyone seated now, and everyone who accepted an invite before
+INSERT INTO room_memberships (room_id, user_id, role, first_joined_at)
+SELECT room_id, user_id, role, COALESCE(joined_at, NOW())
+FROM room_participants
+ON CONFLICT (room_id, user_id) DO NOTHING;
+
+INSERT INTO room_memberships (room_id, user_id, role, first_joined_at)
+SELECT DISTINCT ON (room_id, receiver_id) room_id, receiver_id, 'member', COALESCE(responded_at, created_at)
+FROM room_invites
+WHERE status = 'accepted'
+ON CONFLICT (room_id, user_id) DO NOTHING;
+
+-- ============================================
+-- 2. Who may add themselves
+-- ============================================
+
+-- A pending invite from someone who could speak when they were last here
+CREATE OR REPLACE FUNCTION has_pending_room_invite(p_room_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM room_invites i
+    JOIN room_memberships s ON s.room_id = i.room_id AND s.user_id = i.sender_id
+    WHERE i.room_id = p_room_id
+      AND i.receiver_id = p_user_id
+      AND i.status = 'pending'
+      AND i.expires_at > now()
+      AND s.role <> 'listener'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION has_pending_room_invite(UUID, UUID) FROM PUBLIC;
+
+-- Blocking removes people from each other's rooms; a membership mustn't
+-- bring them back
+CREATE OR REPLACE FUNCTION can_self_join_room(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT is_banned_from_room(p_room_id, auth.uid())
+  AND NOT EXISTS (
+    SELECT 1 FROM rooms r
+    WHERE r.id = p_room_id AND is_blocked_between(r.creator_id, auth.uid())
+  )
+  AND (
+    EXISTS (
+      SELECT 1 FROM rooms WHERE id = p_room_id AND creator_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM room_memberships WHERE room_id = p_room_id AND user_id = auth.uid()
+    )
+    OR has_pending_room_invite(p_room_id, auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON POLICY "Users can join rooms they created or were invited to" ON room_participants IS
+  'Direct joins need ownership, an earlier membership or a pending invite; links and RSVPs go through their functions';
+
+-- ============================================
+-- 3. Rejoining keeps a listener a listener
+-- ============================================
+
+CREATE OR REPLACE FUNCTION protect_room_participant_role()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_creator_id UUID;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT creator_id INTO v_creator_id FROM rooms WHERE id = NEW.room_id;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := CASE
+      WHEN NEW.user_id = v_creator_id THEN 'owner'
+      WHEN NEW.role = 'listener' THEN 'listener'
+      -- A new invite from a speaker is a fresh welcome; otherwise coming
+      -- back doesn't lift a listen-only seat
+      WHEN EXISTS (
+        SELECT 1 FROM room_memberships
+        WHERE room_id = NEW.room_id AND user_id = NEW.user_id AND role = 'listener'
+      ) AND NOT has_pending_room_invite(NEW.room_id, NEW.user_id) THEN 'listener'
+      ELSE 'member'
+    END;
+    NEW.muted_by := NULL;
+    NEW.speak_requested_at := NULL;
+    NEW.audio_joined_at := NULL;
+    NEW.audio_left_at := NULL;
+    NEW.livekit_sid := NULL;
+  ELSE
+    NEW.role := CASE
+      WHEN NEW.user_id = v_creator_id THEN 'owner'
+      WHEN OLD.role = 'owner' THEN 'moderator'
+      ELSE OLD.role
+    END;
+
+    -- Unmuting yourself lifts a moderator mute; nothing else touches muted_by
+    NEW.muted_by := CASE WHEN NEW.is_muted THEN OLD.muted_by ELSE NULL END;
+
+    NEW.audio_joined_at := OLD.audio_joined_at;
+    NEW.audio_left_at := OLD.audio_left_at;
+    NEW.livekit_sid := OLD.livekit_sid;
+  END IF;
+
+  IF NEW.role = 'listener' THEN
+    NEW.is_muted := true;
+  ELSE
+    NEW.speak_requested_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
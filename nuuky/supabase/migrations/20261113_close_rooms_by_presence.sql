@@ -0,0 +1,62 @@
+-- Close rooms by presence, not by membership
+-- 20261108 had the sweeper delete members whose call had ended and who
+-- hadn't been seen for 15 minutes, so that close_empty_rooms would see their
+-- rooms empty. But a room_participants row is also the membership itself:
+-- anyone away from the app for a quarter of an hour lost their seat, home
+-- rooms included, and close_empty_rooms then closed rooms their owners still
+-- meant to come back to.
+--
+-- Memberships are left alone again. A room is closed once nobody has been
+-- around for a day: no one in the call, and no member who left the call or
+-- opened the app since. Rooms that are someone's default room are never
+-- closed. The app counts "N people here" the same way, from audio_left_at
+-- and last_seen_at.
+
+-- ============================================
+-- 1. No more removals
+-- ============================================
+
+DROP FUNCTION IF EXISTS remove_stale_room_participants(INTERVAL);
+
+-- ============================================
+-- 2. Abandoned rooms
+-- ============================================
+
+-- The app has long kept users.default_room_id; make sure fresh databases
+-- have it too
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS default_room_id UUID REFERENCES rooms(id) ON DELETE SET NULL;
+
+DROP FUNCTION IF EXISTS close_empty_rooms(INTERVAL);
+
+CREATE OR REPLACE FUNCTION close_empty_rooms(
+  p_min_age INTERVAL DEFAULT INTERVAL '10 minutes',
+  p_idle INTERVAL DEFAULT INTERVAL '1 day'
+)
+RETURNS SETOF UUID AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE rooms r
+  SET is_active = false,
+      audio_active = false,
+      closed_at = NOW(),
+      audio_updated_at = NOW()
+  WHERE r.is_active = true
+    AND r.created_at < NOW() - p_min_age
+    AND NOT EXISTS (SELECT 1 FROM users WHERE default_room_id = r.id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM room_participants rp
+      JOIN users u ON u.id = rp.user_id
+      WHERE rp.room_id = r.id
+        AND (
+          (rp.audio_joined_at IS NOT NULL AND rp.audio_left_at IS NULL)
+          OR GREATEST(rp.joined_at, rp.audio_left_at, u.last_seen_at) >= NOW() - p_idle
+        )
+    )
+  RETURNING r.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION close_empty_rooms(INTERVAL, INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION close_empty_rooms(INTERVAL, INTERVAL) TO service_role;
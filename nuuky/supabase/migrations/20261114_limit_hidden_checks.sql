@@ -0,0 +1,19 @@
+-- Only your own hidden checks
+-- is_hidden_from() is SECURITY DEFINER and callable by any signed-in user
+-- for any pair, so anyone could find out who had hidden whom. Like
+-- is_blocked_between() it now only answers for pairs that include the
+-- caller (or the service role); the flares policies already pass auth.uid()
+-- as the viewer.
+
+CREATE OR REPLACE FUNCTION is_hidden_from(p_owner_id UUID, p_viewer_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT (auth.role() = 'service_role' OR auth.uid() IN (p_owner_id, p_viewer_id))
+    AND EXISTS (
+      SELECT 1 FROM friendships
+      WHERE user_id = p_owner_id
+        AND friend_id = p_viewer_id
+        AND visibility = 'hidden'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION is_hidden_from IS 'True if the owner hides from the viewer; false unless the caller is one of them or the service role';
@@ -0,0 +1,68 @@
+-- Quieter friend change signals
+-- touch_friendships_on_profile_change counted last_seen_at as a presence
+-- change, so every presence heartbeat (once a minute per open app) updated
+-- every friendship row pointing at the user. And useFriends also listened to
+-- rows with friend_id = the user, so each of those touches made the user's
+-- own app refetch its friends.
+--
+-- Heartbeats no longer touch friendships; the app refetches on a timer
+-- instead, often enough that last_seen_at doesn't go stale. The app only
+-- listens to its own rows now, so a friend changing the tier they give the
+-- user touches the user's row as well.
+
+-- ============================================
+-- 1. Profile changes, without heartbeats
+-- ============================================
+
+CREATE OR REPLACE FUNCTION touch_friendships_on_profile_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_profile BOOLEAN := NEW.display_name IS DISTINCT FROM OLD.display_name
+    OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url;
+  v_presence BOOLEAN := NEW.mood IS DISTINCT FROM OLD.mood
+    OR NEW.is_online IS DISTINCT FROM OLD.is_online;
+  v_extras BOOLEAN := NEW.custom_mood_id IS DISTINCT FROM OLD.custom_mood_id
+    OR NEW.mood_selfie_id IS DISTINCT FROM OLD.mood_selfie_id;
+BEGIN
+  IF NOT (v_profile OR v_presence OR v_extras) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE friendships f
+  SET friend_updated_at = NOW()
+  FROM (
+    SELECT f2.id, friend_visibility(NEW.id, f2.user_id) AS visibility
+    FROM friendships f2
+    WHERE f2.friend_id = NEW.id AND f2.status = 'accepted'
+  ) t
+  WHERE f.id = t.id
+    AND (
+      v_profile
+      OR (v_presence AND t.visibility IN ('full', 'limited'))
+      OR (v_extras AND t.visibility = 'full')
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 2. Tier changes reach the friend
+-- ============================================
+
+CREATE OR REPLACE FUNCTION touch_friendship_on_visibility_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE friendships
+  SET friend_updated_at = NOW()
+  WHERE user_id = NEW.friend_id AND friend_id = NEW.user_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS touch_friendship_on_visibility_change ON friendships;
+CREATE TRIGGER touch_friendship_on_visibility_change
+  AFTER UPDATE OF visibility ON friendships
+  FOR EACH ROW
+  WHEN (NEW.visibility IS DISTINCT FROM OLD.visibility)
+  EXECUTE FUNCTION touch_friendship_on_visibility_change();
@@ -0,0 +1,76 @@
+-- Basic profiles for embeds
+-- Since 20261110 a friend's users row is only readable on the full tier, so
+-- every embedded users join (flare owners and responders, anchors, invite
+-- senders, check-ins, photo and voice senders) came back empty for friends
+-- who share less, and the app showed "Unknown". Meanwhile "Users can view
+-- room participants' profiles" still handed room-mates whole rows whatever
+-- tier they had been given.
+--
+-- Every tier shows a friend's name and avatar, so user_profiles exposes
+-- just those (and the username) for people the caller has something to do
+-- with. Embeds that only need a name and a face read it instead of users,
+-- and room-mates' whole rows now follow the same tier rule as friends'.
+
+-- ============================================
+-- 1. Name and avatar
+-- ============================================
+
+-- Runs as its owner so it can see past the users policies; the WHERE
+-- clause decides who is shown
+CREATE OR REPLACE VIEW user_profiles
+WITH (security_invoker = false) AS
+SELECT u.id, u.display_name, u.avatar_url, u.username
+FROM users u
+WHERE u.id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM friendships f
+    WHERE (f.user_id = auth.uid() AND f.friend_id = u.id)
+       OR (f.user_id = u.id AND f.friend_id = auth.uid())
+  )
+  OR EXISTS (
+    SELECT 1 FROM blocks b
+    WHERE b.blocker_id = auth.uid() AND b.blocked_id = u.id
+  )
+  OR EXISTS (
+    SELECT 1 FROM anchors a
+    WHERE (a.user_id = auth.uid() AND a.anchor_id = u.id)
+       OR (a.user_id = u.id AND a.anchor_id = auth.uid())
+  )
+  OR EXISTS (
+    SELECT 1 FROM room_invites i
+    WHERE (i.receiver_id = auth.uid() AND i.sender_id = u.id)
+       OR (i.sender_id = auth.uid() AND i.receiver_id = u.id)
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM room_participants mine
+    JOIN room_participants theirs ON theirs.room_id = mine.room_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = u.id
+  );
+
+REVOKE ALL ON user_profiles FROM PUBLIC, anon;
+GRANT SELECT ON user_profiles TO authenticated;
+
+COMMENT ON VIEW user_profiles IS 'Name and avatar of people the caller knows; what every visibility tier shows';
+
+-- ============================================
+-- 2. Room-mates' whole rows
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can view room participants' profiles" ON users;
+CREATE POLICY "Users can view room participants' profiles"
+  ON users FOR SELECT
+  USING (
+    id IN (
+      SELECT rp.user_id
+      FROM room_participants rp
+      WHERE rp.room_id IN (
+        SELECT room_id FROM room_participants
+        WHERE user_id = auth.uid()
+      )
+    )
+    AND friend_visibility_for(id, auth.uid()) = 'full'
+  );
+
+COMMENT ON POLICY "Users can view room participants' profiles" ON users IS
+  'Whole rows of room-mates, unless they are friends who gave the caller less than the full tier';
@@ -0,0 +1,54 @@
+-- Reaction notifications through the outbox
+-- Hearting a photo or reacting to a voice moment was still announced by
+-- the client invoking send-photo-like-notification or
+-- send-voice-moment-reaction-notification after its update, so a failed
+-- invoke lost the notification, the same gap 20261101 closed for inserts.
+--
+-- Setting a reaction now enqueues a notification_outbox row from an AFTER
+-- UPDATE trigger, and dispatch-notifications delivers it to the moment's
+-- sender. Each reaction a moment gets is queued once: taking a heart back
+-- and giving it again doesn't announce it twice.
+
+-- ============================================
+-- 1. Source types
+-- ============================================
+
+ALTER TABLE notification_outbox
+  DROP CONSTRAINT IF EXISTS notification_outbox_source_type_check;
+
+ALTER TABLE notification_outbox
+  ADD CONSTRAINT notification_outbox_source_type_check CHECK (source_type IN (
+    'nudge', 'flare', 'room_invite', 'photo_nudge', 'voice_moment', 'call_me',
+    'photo_like', 'voice_moment_reaction'
+  ));
+
+-- ============================================
+-- 2. Enqueue triggers
+-- ============================================
+
+-- The source id stands for the moment and the reaction together
+CREATE OR REPLACE FUNCTION enqueue_reaction_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notification_outbox (source_type, source_id, payload)
+  VALUES (TG_ARGV[0], md5(NEW.id::text || ':' || NEW.reaction)::uuid, to_jsonb(NEW))
+  ON CONFLICT (source_type, source_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION enqueue_reaction_notification() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS photo_nudges_enqueue_like_notification ON photo_nudges;
+CREATE TRIGGER photo_nudges_enqueue_like_notification
+  AFTER UPDATE OF reaction ON photo_nudges
+  FOR EACH ROW
+  WHEN (NEW.reaction IS NOT NULL AND NEW.reaction IS DISTINCT FROM OLD.reaction)
+  EXECUTE FUNCTION enqueue_reaction_notification('photo_like');
+
+DROP TRIGGER IF EXISTS voice_moments_enqueue_reaction_notification ON voice_moments;
+CREATE TRIGGER voice_moments_enqueue_reaction_notification
+  AFTER UPDATE OF reaction ON voice_moments
+  FOR EACH ROW
+  WHEN (NEW.reaction IS NOT NULL AND NEW.reaction IS DISTINCT FROM OLD.reaction)
+  EXECUTE FUNCTION enqueue_reaction_notification('voice_moment_reaction');
@@ -0,0 +1,48 @@
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+-- A friend on the limited tier who shares a room with them, and a stranger
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'sharing@example.com', '{"display_name": "Sharing"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'friend@example.com', '{"display_name": "Friend"}'),
+  ('00000000-0000-0000-0000-0000000000a3', 'stranger@example.com', '{"display_name": "Stranger"}');
+
+INSERT INTO friendships (user_id, friend_id, status, visibility) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2', 'accepted', 'limited'),
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000a1', 'accepted', 'full');
+
+INSERT INTO rooms (id, creator_id, name)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'Shared');
+
+INSERT INTO room_participants (room_id, user_id, is_muted, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', true, 'owner'),
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', true, 'member');
+
+SET LOCAL role authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+SELECT is_empty(
+  $$SELECT 1 FROM users WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  'a room-mate on the limited tier cannot read the whole row'
+);
+SELECT is(
+  (SELECT display_name FROM user_profiles WHERE id = '00000000-0000-0000-0000-0000000000a1'),
+  'Sharing',
+  'but still gets their name'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM user_profiles WHERE id = '00000000-0000-0000-0000-0000000000a3'$$,
+  'strangers are not listed'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SELECT isnt_empty(
+  $$SELECT 1 FROM users WHERE id = '00000000-0000-0000-0000-0000000000a2'$$,
+  'a room-mate on the full tier still reads the whole row'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,60 @@
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Two friends, one of whom blocked the other, and a stranger
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'blocker@example.com', '{"display_name": "Blocker"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'blocked@example.com', '{"display_name": "Blocked"}'),
+  ('00000000-0000-0000-0000-0000000000a3', 'stranger@example.com', '{"display_name": "Stranger"}');
+
+UPDATE users SET is_online = true, last_seen_at = NOW(), mood = 'good'
+WHERE id = '00000000-0000-0000-0000-0000000000a1';
+
+INSERT INTO friendships (user_id, friend_id, status, visibility) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2', 'accepted', 'full'),
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000a1', 'accepted', 'full');
+
+INSERT INTO blocks (blocker_id, blocked_id)
+VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2');
+
+SET LOCAL role authenticated;
+
+-- Someone outside the pair learns nothing
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a3", "role": "authenticated"}', true);
+SELECT is(
+  is_blocked_between('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2'),
+  false,
+  'a stranger cannot look up a block between others'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SELECT is(
+  is_blocked_between('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2'),
+  true,
+  'the blocker still sees their block'
+);
+
+-- The blocked user sees the blocker as if on the minimal tier
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT (friend->>'is_online')::boolean FROM get_visible_friends()
+   WHERE friend_id = '00000000-0000-0000-0000-0000000000a1'),
+  false,
+  'the blocked user does not see the blocker online'
+);
+SELECT is(
+  (SELECT friend->>'mood' FROM get_visible_friends()
+   WHERE friend_id = '00000000-0000-0000-0000-0000000000a1'),
+  'neutral',
+  'the blocked user does not see the blocker''s mood'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM users WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  'the blocked user cannot read the blocker''s profile row'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,69 @@
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+-- Someone whose app crashed days ago, someone away who has a home room,
+-- and someone around right now
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'crashed@example.com', '{"display_name": "Crashed"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'away@example.com', '{"display_name": "Away"}'),
+  ('00000000-0000-0000-0000-0000000000a3', 'around@example.com', '{"display_name": "Around"}');
+
+UPDATE users SET last_seen_at = NOW() - INTERVAL '2 days'
+WHERE id IN ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2');
+UPDATE users SET last_seen_at = NOW() WHERE id = '00000000-0000-0000-0000-0000000000a3';
+
+-- b1 only has the crashed member; b2 is the away member's home room; b3
+-- has someone around; b4 has the crashed member still connected
+INSERT INTO rooms (id, creator_id, name, created_at) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'Abandoned', NOW() - INTERVAL '3 days'),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a2', 'Home', NOW() - INTERVAL '3 days'),
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a1', 'Visited', NOW() - INTERVAL '3 days'),
+  ('00000000-0000-0000-0000-0000000000b4', '00000000-0000-0000-0000-0000000000a1', 'Connected', NOW() - INTERVAL '3 days');
+
+UPDATE users SET default_room_id = '00000000-0000-0000-0000-0000000000b2'
+WHERE id = '00000000-0000-0000-0000-0000000000a2';
+
+-- As the webhook would record them
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+INSERT INTO room_participants (room_id, user_id, is_muted, role, joined_at, audio_joined_at, audio_left_at) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', true, 'owner',
+   NOW() - INTERVAL '3 days', NOW() - INTERVAL '3 days', NOW() - INTERVAL '2 days'),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a2', true, 'owner',
+   NOW() - INTERVAL '3 days', NOW() - INTERVAL '3 days', NOW() - INTERVAL '2 days'),
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a1', true, 'owner',
+   NOW() - INTERVAL '3 days', NOW() - INTERVAL '3 days', NOW() - INTERVAL '2 days'),
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a3', true, 'member',
+   NOW() - INTERVAL '3 days', NULL, NULL),
+  ('00000000-0000-0000-0000-0000000000b4', '00000000-0000-0000-0000-0000000000a1', false, 'owner',
+   NOW() - INTERVAL '3 days', NOW() - INTERVAL '3 days', NULL);
+
+SELECT is(
+  (SELECT array_agg(id) FROM close_empty_rooms() AS closed(id)),
+  ARRAY['00000000-0000-0000-0000-0000000000b1'::uuid],
+  'only the room nobody has been around for a day is closed'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM room_participants WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+  3,
+  'closing a room keeps its memberships'
+);
+
+SELECT is(
+  (SELECT is_active FROM rooms WHERE id = '00000000-0000-0000-0000-0000000000b2'),
+  true,
+  'a default room stays open while its owner is away'
+);
+
+SELECT is(
+  (SELECT is_active FROM rooms WHERE id = '00000000-0000-0000-0000-0000000000b4'),
+  true,
+  'a room with someone in the call stays open'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,59 @@
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+-- Someone who stays in the room for the whole session and someone who
+-- leaves and comes back
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'stayed@example.com', '{"display_name": "Stayed"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'left@example.com', '{"display_name": "Left"}');
+
+INSERT INTO rooms (id, creator_id, name)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'Test Room');
+
+INSERT INTO room_participants (room_id, user_id, is_muted, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', true, 'owner'),
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', true, 'member');
+
+-- Started an hour ago: two 25 minute blocks have ended since
+INSERT INTO focus_sessions (id, room_id, started_by, work_minutes, break_minutes, rounds, started_at)
+VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1',
+        '00000000-0000-0000-0000-0000000000a1', 25, 5, 4, NOW() - INTERVAL '60 minutes');
+
+INSERT INTO focus_session_participants (session_id, user_id, room_id, joined_at, credited_until) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b1',
+   NOW() - INTERVAL '60 minutes', NOW() - INTERVAL '60 minutes'),
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000b1',
+   NOW() - INTERVAL '60 minutes', NOW() - INTERVAL '60 minutes');
+
+-- Leaves and comes back before syncing
+DELETE FROM room_participants
+WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a2';
+INSERT INTO room_participants (room_id, user_id, is_muted, role)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', true, 'member');
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SELECT is(
+  sync_focus_progress('00000000-0000-0000-0000-0000000000c1'),
+  2,
+  'someone who stayed is credited every block that ended'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+SELECT is(
+  sync_focus_progress('00000000-0000-0000-0000-0000000000c1'),
+  0,
+  'someone who left and came back is not credited for the time away'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SELECT is(
+  sync_focus_progress('00000000-0000-0000-0000-0000000000c1'),
+  2,
+  'syncing again credits nothing twice'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,46 @@
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'one@example.com', '{"display_name": "One"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'two@example.com', '{"display_name": "Two"}');
+
+INSERT INTO friendships (user_id, friend_id, status, visibility) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2', 'accepted', 'full'),
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000a1', 'accepted', 'full');
+
+-- Start from a clean signal on a2's view of a1
+UPDATE friendships SET friend_updated_at = NULL;
+
+UPDATE users SET last_seen_at = NOW() WHERE id = '00000000-0000-0000-0000-0000000000a1';
+SELECT is(
+  (SELECT friend_updated_at FROM friendships
+   WHERE user_id = '00000000-0000-0000-0000-0000000000a2' AND friend_id = '00000000-0000-0000-0000-0000000000a1'),
+  NULL,
+  'a heartbeat does not touch friendships'
+);
+
+UPDATE users SET mood = 'good' WHERE id = '00000000-0000-0000-0000-0000000000a1';
+SELECT isnt(
+  (SELECT friend_updated_at FROM friendships
+   WHERE user_id = '00000000-0000-0000-0000-0000000000a2' AND friend_id = '00000000-0000-0000-0000-0000000000a1'),
+  NULL,
+  'a mood change does'
+);
+
+UPDATE friendships SET friend_updated_at = NULL;
+
+UPDATE friendships SET visibility = 'minimal'
+WHERE user_id = '00000000-0000-0000-0000-0000000000a1' AND friend_id = '00000000-0000-0000-0000-0000000000a2';
+SELECT isnt(
+  (SELECT friend_updated_at FROM friendships
+   WHERE user_id = '00000000-0000-0000-0000-0000000000a2' AND friend_id = '00000000-0000-0000-0000-0000000000a1'),
+  NULL,
+  'changing the tier touches the friend''s own row'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,41 @@
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+-- A friend who hides from the other, and a stranger
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'hiding@example.com', '{"display_name": "Hiding"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'hidden@example.com', '{"display_name": "Hidden"}'),
+  ('00000000-0000-0000-0000-0000000000a3', 'stranger@example.com', '{"display_name": "Stranger"}');
+
+INSERT INTO friendships (user_id, friend_id, status, visibility) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2', 'accepted', 'hidden'),
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000a1', 'accepted', 'full');
+
+SET LOCAL role authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a3", "role": "authenticated"}', true);
+SELECT is(
+  is_hidden_from('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2'),
+  false,
+  'a stranger cannot look up who hides from whom'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SELECT is(
+  is_hidden_from('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2'),
+  true,
+  'the friend hiding still sees it'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+SELECT is(
+  is_hidden_from('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2'),
+  true,
+  'the flares policies still hide from the viewer'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
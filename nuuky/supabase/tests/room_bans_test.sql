@@ -0,0 +1,87 @@
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+-- Owner, a member about to be kicked, and an invite link to the room
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com', '{"display_name": "Owner"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'kicked@example.com', '{"display_name": "Kicked"}');
+
+INSERT INTO rooms (id, creator_id, name)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'Test Room');
+
+INSERT INTO room_participants (room_id, user_id, is_muted, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', true, 'owner'),
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', true, 'member');
+
+INSERT INTO room_invite_links (room_id, created_by, token, join_role)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'test-link', 'member');
+
+SELECT is(
+  (SELECT role::text FROM get_room_token_grant('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2')),
+  'member',
+  'a member gets a token'
+);
+
+-- What moderate-room does on a kick
+SELECT kick_room_participant(
+  '00000000-0000-0000-0000-0000000000b1',
+  '00000000-0000-0000-0000-0000000000a2',
+  '00000000-0000-0000-0000-0000000000a1'
+);
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$INSERT INTO room_participants (room_id, user_id, is_muted)
+    VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', false)$$,
+  '42501',
+  NULL,
+  'a kicked user cannot add themselves back'
+);
+
+SELECT is(
+  join_room_by_invite_link('test-link'),
+  NULL,
+  'a kicked user cannot come back through an invite link'
+);
+
+RESET role;
+
+SELECT is(
+  (SELECT count(*)::int FROM room_participants
+   WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a2'),
+  0,
+  'a kicked user is not seated'
+);
+
+-- Even if a row slipped in past the policy, no token is granted
+ALTER TABLE room_participants DISABLE TRIGGER skip_banned_room_participant;
+INSERT INTO room_participants (room_id, user_id, is_muted, role)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', true, 'member');
+ALTER TABLE room_participants ENABLE TRIGGER skip_banned_room_participant;
+
+SELECT is(
+  (SELECT count(*)::int FROM get_room_token_grant('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2')),
+  0,
+  'a kicked user cannot get a token'
+);
+
+-- The owner inviting them again lifts the ban
+DELETE FROM room_participants
+WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a2';
+INSERT INTO room_invites (room_id, sender_id, receiver_id)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2');
+
+SELECT is(
+  (SELECT count(*)::int FROM room_bans
+   WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a2'),
+  0,
+  'an invite from the owner lifts the ban'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,103 @@
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- Owner, a listener, someone with a direct invite and a stranger
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com', '{"display_name": "Owner"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'listener@example.com', '{"display_name": "Listener"}'),
+  ('00000000-0000-0000-0000-0000000000a3', 'invited@example.com', '{"display_name": "Invited"}'),
+  ('00000000-0000-0000-0000-0000000000a4', 'stranger@example.com', '{"display_name": "Stranger"}'),
+  ('00000000-0000-0000-0000-0000000000a5', 'friend@example.com', '{"display_name": "Friend"}');
+
+INSERT INTO rooms (id, creator_id, name)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'Test Room');
+
+INSERT INTO room_participants (room_id, user_id, is_muted, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', true, 'owner'),
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', true, 'listener');
+
+INSERT INTO room_invites (room_id, sender_id, receiver_id)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a3');
+
+SET LOCAL role authenticated;
+
+-- A listener can leave and come back, but not as a member
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+DELETE FROM room_participants
+WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a2';
+
+SELECT lives_ok(
+  $$INSERT INTO room_participants (room_id, user_id, is_muted)
+    VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', false)$$,
+  'a listener who left can come back'
+);
+SELECT is(
+  (SELECT role::text FROM room_participants
+   WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a2'),
+  'listener',
+  'a listener who left comes back a listener'
+);
+
+-- Nor can someone who was never invited
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a4", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$INSERT INTO room_participants (room_id, user_id, is_muted)
+    VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a4', false)$$,
+  '42501',
+  NULL,
+  'a stranger cannot add themselves to a room'
+);
+
+-- A pending direct invite lets you in as a member
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a3", "role": "authenticated"}', true);
+SELECT lives_ok(
+  $$INSERT INTO room_participants (room_id, user_id, is_muted)
+    VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a3', false)$$,
+  'an invited user can join'
+);
+SELECT is(
+  (SELECT role::text FROM room_participants
+   WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a3'),
+  'member',
+  'an invited user joins as a member'
+);
+
+-- Having accepted, they can leave their friend's room and come back later
+UPDATE room_invites SET status = 'accepted', responded_at = NOW()
+WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND receiver_id = '00000000-0000-0000-0000-0000000000a3';
+
+-- Meanwhile they invite a friend of their own
+INSERT INTO room_invites (room_id, sender_id, receiver_id)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a3', '00000000-0000-0000-0000-0000000000a5');
+
+DELETE FROM room_participants
+WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a3';
+
+SELECT lives_ok(
+  $$INSERT INTO room_participants (room_id, user_id, is_muted)
+    VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a3', false)$$,
+  'a member who left a friend''s room can rejoin it'
+);
+SELECT is(
+  (SELECT role::text FROM room_participants
+   WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a3'),
+  'member',
+  'and comes back a member'
+);
+
+-- An invite still counts after its sender has left
+DELETE FROM room_participants
+WHERE room_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a3';
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a5", "role": "authenticated"}', true);
+SELECT lives_ok(
+  $$INSERT INTO room_participants (room_id, user_id, is_muted)
+    VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a5', false)$$,
+  'an invite works after the person who sent it left'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -35,13 +35,15 @@ export interface User {
   last_seen_at: string;
   ghost_mode_until?: string;
   take_break_until?: string;
-  fcm_token?: string;
+  fcm_token?: string; // Legacy single push token, see push_tokens
   auth_provider?: "google" | "apple" | "email"; // OAuth provider
   default_room_id?: string;
   home_room_id?: string; // Permanently pinned "My Nuuky" room from first login
   profile_completed?: boolean; // Whether user has completed onboarding
   mood_selfie_id?: string; // Reference to active mood selfie
   mood_selfie?: MoodSelfie; // Joined mood selfie data
+  visibility?: Visibility; // Tier this user granted the viewer (friend projections only)
+  timezone?: string; // IANA timezone for local-day streak boundaries
   created_at: string;
 }
 
@@ -57,12 +59,15 @@ export interface UserSearchResult {
 }
 
 // Friendship types
+// What the friend on the other side of a friendship row may see of its owner
+export type Visibility = "full" | "limited" | "minimal" | "hidden";
+
 export interface Friendship {
   id: string;
   user_id: string;
   friend_id: string;
   status: "pending" | "accepted" | "declined";
-  visibility: "full" | "limited" | "minimal" | "hidden";
+  visibility: Visibility;
   created_at: string;
   last_interaction_at: string;
   friend?: User;
@@ -76,6 +81,7 @@ export interface Room {
   is_active: boolean;
   is_private: boolean;
   audio_active: boolean;
+  listeners_can_react?: boolean;
   created_at: string;
   closed_at?: string;
   participants?: RoomParticipant[];
@@ -86,15 +92,80 @@ export interface Room {
   };
 }
 
+export type RoomRole = 'owner' | 'moderator' | 'member' | 'listener';
+
 export interface RoomParticipant {
   id: string;
   room_id: string;
   user_id: string;
   is_muted: boolean;
   joined_at: string;
+  role?: RoomRole;
+  muted_by?: string | null;
+  speak_requested_at?: string | null;
+  // Current LiveKit session, maintained server-side from LiveKit webhooks
+  audio_joined_at?: string | null;
+  audio_left_at?: string | null;
   user?: User;
 }
 
+// Focus sessions (shared Pomodoro timer in a room)
+export type FocusPhase = 'work' | 'break' | 'done';
+
+export interface FocusSession {
+  id: string;
+  room_id: string | null;
+  started_by: string | null;
+  work_minutes: number;
+  break_minutes: number;
+  rounds: number;
+  started_at: string;
+  ended_at?: string | null;
+  created_at: string;
+}
+
+export interface FocusSessionParticipant {
+  session_id: string;
+  user_id: string;
+  room_id: string | null;
+  intention?: string | null;
+  joined_at: string;
+  completed_rounds: number;
+  focus_minutes: number;
+  user?: Pick<User, 'id' | 'display_name' | 'avatar_url'>;
+}
+
+export interface FocusSummary {
+  sessions_joined: number;
+  sessions_completed: number;
+  rounds_completed: number;
+  focus_minutes: number;
+  last_focus_at: string | null;
+}
+
+export type RoomRsvpStatus = "invited" | "going" | "maybe" | "declined";
+
+// Row from get_upcoming_rooms(): a scheduled room the user hosts or was invited to
+export interface UpcomingRoom {
+  schedule_id: string;
+  room_id: string;
+  room_name: string | null;
+  creator_id: string;
+  creator_name: string;
+  creator_avatar_url: string | null;
+  starts_at: string | null; // One-off schedules
+  days: number[] | null; // Recurring: 0 = Sunday ... 6 = Saturday
+  start_time: string | null; // Recurring: "HH:MM:SS" in timezone
+  timezone: string;
+  duration_minutes: number;
+  next_start_at: string;
+  is_open: boolean; // The current occurrence has started
+  my_status: RoomRsvpStatus | "host";
+  going_count: number;
+  maybe_count: number;
+  invited_count: number;
+}
+
 export interface RoomInvite {
   id: string;
   room_id: string;
@@ -119,19 +190,50 @@ export interface RoomInviteLink {
   max_uses: number | null;
   use_count: number;
   expires_at: string | null;
+  join_role?: 'member' | 'listener';
   created_at: string;
 }
 
 // Flare types
+// Flare escalation: 1 = favorites, 2 = all friends, 3 = anchors (0 = not sent yet)
+export type FlareEscalationLevel = 0 | 1 | 2 | 3;
+
+export interface FlareEscalationEntry {
+  level: FlareEscalationLevel;
+  tier: 'favorites' | 'friends' | 'anchors';
+  at: string;
+  notified: string[]; // User IDs pushed in this tier
+  held: string[]; // User IDs whose push was held for quiet hours
+}
+
 export interface Flare {
   id: string;
   user_id: string;
   expires_at: string;
   responded_by?: string;
   created_at: string;
+  favorite_ids?: string[];
+  escalation_level?: FlareEscalationLevel;
+  widen_after_minutes?: number;
+  anchors_after_minutes?: number;
+  escalation_log?: FlareEscalationEntry[];
   user?: User;
 }
 
+export type FlareResponseStatus = 'here' | 'calling' | 'on_my_way' | 'cant';
+
+export interface FlareResponse {
+  id: string;
+  flare_id: string;
+  flare_owner_id: string;
+  responder_id: string;
+  status: FlareResponseStatus;
+  room_id?: string | null; // Private room the responder opened with the owner
+  created_at: string;
+  updated_at: string;
+  responder?: User;
+}
+
 // Nudge types
 export interface Nudge {
   id: string;
@@ -179,6 +281,55 @@ export interface Anchor {
   created_at: string;
 }
 
+// Wellbeing check-in opened after the user has been inactive past their threshold
+export type AnchorCheckInStatus = "pending" | "confirmed" | "escalated";
+
+export interface AnchorCheckInAck {
+  id: string;
+  checkin_id: string;
+  anchor_id: string;
+  created_at: string;
+  anchor?: User;
+}
+
+export interface AnchorCheckIn {
+  id: string;
+  user_id: string;
+  status: AnchorCheckInStatus;
+  last_seen_at: string;
+  threshold_hours: number;
+  asked_at: string;
+  escalated_at?: string | null;
+  confirmed_at?: string | null;
+  user?: User;
+  acks?: AnchorCheckInAck[];
+}
+
+// Block types (silent - the blocked user is never told)
+export interface Block {
+  id: string;
+  blocker_id: string;
+  blocked_id: string;
+  block_type: "mute" | "soft" | "hard";
+  created_at: string;
+  blocked?: Pick<User, "id" | "display_name" | "avatar_url" | "username">;
+}
+
+// Recurring ghost/break windows, evaluated in the schedule's own timezone
+export type AvailabilityMode = "ghost" | "break";
+
+export interface AvailabilitySchedule {
+  id: string;
+  user_id: string;
+  kind: AvailabilityMode;
+  days: number[]; // 0 = Sunday ... 6 = Saturday (day the window starts)
+  start_time: string; // "HH:MM" or "HH:MM:SS"
+  end_time: string; // <= start_time wraps past midnight
+  timezone: string;
+  is_enabled: boolean;
+  created_at: string;
+}
+
 // Report types
 export interface Report {
   id: string;
@@ -223,18 +374,47 @@ export interface Streak {
   user1_id: string;
   user2_id: string;
   consecutive_days: number;
+  best_streak?: number; // Longest run this pair has ever reached
   user1_last_interaction: string | null;
   user2_last_interaction: string | null;
   last_streak_at: string | null;
+  last_freeze_day?: string | null; // Local pair day last covered by a streak freeze
   created_at: string;
-  /** Derived client-side */
+  /** Computed server-side by get_streaks() */
   friend_id: string;
   state: StreakState;
 }
 
+export type StreakEventType = 'increment' | 'fade' | 'break' | 'restore' | 'milestone';
+
+export interface StreakEvent {
+  id: string;
+  streak_id: string;
+  user1_id: string;
+  user2_id: string;
+  event_type: StreakEventType;
+  consecutive_days: number;
+  actor_id: string | null;
+  created_at: string;
+}
+
 // Audio types
 export type AudioConnectionStatus = "disconnected" | "connecting" | "connected" | "reconnecting" | "error";
 
+// Why the connection supervisor rebuilt the LiveKit connection
+export type AudioReconnectTrigger = "disconnected" | "network_change";
+
+export interface AudioReconnectEvent {
+  trigger: AudioReconnectTrigger;
+  attempt: number;
+  succeeded: boolean;
+  // When the attempt finished (ms since epoch) and how long it took
+  at: number;
+  durationMs: number;
+  // The supervisor stopped retrying after this attempt
+  gaveUp?: boolean;
+}
+
 export interface ParticipantAudioState {
   participantId: string;
   isSpeaking: boolean;
@@ -243,14 +423,32 @@ export interface ParticipantAudioState {
   hasAudioTrack: boolean;
 }
 
+// How our mic opens in a room: a plain toggle, only while held, or when we speak
+export type MicMode = "open" | "push_to_talk" | "voice_activity";
+
+export interface RoomMicSettings {
+  mode: MicMode;
+  // Voice activity: meter level (0-1) that opens the mic
+  vadThreshold: number;
+}
+
+// How loud we hear one friend in rooms; only affects our own playback
+export interface ParticipantAudioPreference {
+  volume: number; // 0-1
+  muted: boolean;
+}
+
 export interface LiveKitTokenResponse {
   token: string;
   roomName: string;
   serverUrl: string;
+  role?: RoomRole;
+  canPublish?: boolean;
+  canPublishData?: boolean;
 }
 
 // Notification types
-export type NotificationType = "nudge" | "flare" | "friend_request" | "friend_accepted" | "room_invite" | "call_me" | "photo_nudge" | "photo_like" | "streak_fading" | "voice_moment" | "voice_moment_reaction";
+export type NotificationType = "nudge" | "flare" | "friend_request" | "friend_accepted" | "room_invite" | "call_me" | "photo_nudge" | "photo_like" | "streak_fading" | "streak_milestone" | "voice_moment" | "voice_moment_reaction" | "anchor_checkin" | "anchor_inactivity" | "anchor_ack" | "room_reminder";
 
 export interface NotificationData {
   sender_id?: string;
@@ -265,6 +463,14 @@ export interface NotificationData {
   invite_id?: string;
   photo_nudge_id?: string;
   voice_moment_id?: string;
+  streak_id?: string;
+  milestone?: string;
+  checkin_id?: string;
+  user_id?: string;
+  user_name?: string;
+  schedule_id?: string;
+  starts_at?: string;
+  flare_id?: string;
 }
 
 export interface AppNotification {
@@ -278,6 +484,32 @@ export interface AppNotification {
   created_at: string;
   source_id?: string;
   source_type?: string;
+  // Set for types that collapse ("Maya nudged you 4 times")
+  group_key?: string | null;
+  group_count?: number;
+  group_items?: NotificationGroupItem[];
+  // Answered from the push's action buttons
+  action_taken?: NotificationActionId | null;
+  action_status?: 'done' | 'failed' | null;
+  action_at?: string | null;
+}
+
+// Action buttons on a push, answered without opening the app
+export type NotificationActionId =
+  | 'nudge_back'
+  | 'join_room'
+  | 'decline_room'
+  | 'flare_here'
+  | 'heart';
+
+// One notification collapsed into a group, oldest first
+export interface NotificationGroupItem {
+  key: string;
+  sender_id: string;
+  sender_name: string;
+  sender_avatar_url: string | null;
+  title: string;
+  created_at: string;
 }
 
 // User preferences types
@@ -287,18 +519,67 @@ export interface UserPreferences {
   nudges_enabled: boolean;
   flares_enabled: boolean;
   room_invites_enabled: boolean;
+  flare_widen_after_minutes?: number;
+  flare_anchors_after_minutes?: number;
+  anchor_checkin_after_hours?: number;
+  digest_mode?: DigestMode;
+  last_digest_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Summary push of unread notifications: daily at 9 AM or evening at 7 PM, local time
+export type DigestMode = 'off' | 'daily' | 'evening';
+
+// push: the device notification, banner: in-app while Nuuky is open,
+// silent: background sync so lists are fresh when the app opens
+export type NotificationChannel = 'push' | 'banner' | 'silent';
+
+export type NotificationChannels = Record<NotificationChannel, boolean>;
+
+// A per-type default (friend_id null) or an override for one friend
+export interface NotificationPreference extends NotificationChannels {
+  id: string;
+  user_id: string;
+  notification_type: NotificationType;
+  friend_id: string | null;
+  updated_at: string;
+}
+
 // Sound reaction types
 export type SoundReactionType = 'laugh' | 'wow' | 'applause' | 'aww' | 'party';
 
 export interface SoundReactionPayload {
-  type: 'sound_reaction';
   soundId: SoundReactionType;
-  senderId: string;
   senderName: string;
   senderAvatarUrl?: string;
-  timestamp: number;
+}
+
+// Lo-fi music types
+export type LofiTrack = 'good' | 'neutral' | 'not_great' | 'sos';
+
+// Shared lo-fi playback, broadcast by the room owner while sharing
+export interface LofiSyncPayload {
+  sessionId: string; // New for every time the owner starts sharing
+  active: boolean; // false = the owner stopped sharing
+  track: LofiTrack;
+  playing: boolean;
+  positionMs: number; // Owner's position when the message was sent
+}
+
+// Room data-channel messages (see lib/roomMessages.ts). Each message type
+// maps to its payload; add new features here.
+export interface RoomMessagePayloads {
+  sound_reaction: SoundReactionPayload;
+  lofi_sync: LofiSyncPayload;
+}
+
+export type RoomMessageType = keyof RoomMessagePayloads;
+
+export interface RoomMessageEnvelope<T extends RoomMessageType = RoomMessageType> {
+  v: number;
+  type: T;
+  senderId: string;
+  sentAt: number;
+  payload: RoomMessagePayloads[T];
 }